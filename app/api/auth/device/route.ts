@@ -1,10 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { seamlessAuthService } from '@/services/seamlessAuth';
-import { dbManager } from '@/lib/database';
-import { MigrationRunner } from '@/lib/migrations';
-import jwt from 'jsonwebtoken';
-
-const JWT_SECRET = process.env.JWT_SECRET || 'honk-secret-key-change-in-production';
+import { DeviceAuthError, isDeviceSecret, seamlessAuthService } from '@/services/seamlessAuth';
+import { sessionService } from '@/services/sessions';
 
 interface DeviceAuthRequest {
   userAgent: string;
@@ -12,15 +8,11 @@ interface DeviceAuthRequest {
   timezone: string;
   language: string;
   platform: string;
+  deviceSecret?: string; // Omitted on a browser's first visit; the server issues one. Unknown secrets get a 401.
 }
 
 export async function POST(request: NextRequest) {
   try {
-    // Initialize database and run migrations
-    const database = dbManager.connect();
-    const migrationRunner = new MigrationRunner(database);
-    migrationRunner.runMigrations();
-
     const body: DeviceAuthRequest = await request.json();
     
     // Validate required fields
@@ -31,24 +23,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (body.deviceSecret !== undefined && !isDeviceSecret(body.deviceSecret)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid device secret' },
+        { status: 400 }
+      );
+    }
+
     const result = await seamlessAuthService.getOrCreateUser(body);
     
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: result.user.id },
-      JWT_SECRET,
-      { expiresIn: '30d' } // Longer expiry for seamless auth
-    );
+    // Start a session bound to the device
+    const tokens = await sessionService.issue(result.user.id, result.device.id);
 
     return NextResponse.json({
       success: true,
       user: result.user,
-      token,
+      ...tokens,
+      deviceSecret: result.deviceSecret,
       isNew: result.isNew,
+      // Only sent once, when the account is created
+      ...(result.recoveryCodes && { recoveryCodes: result.recoveryCodes }),
       message: result.isNew ? 'New user created' : 'Welcome back'
     });
 
   } catch (error) {
+    if (error instanceof DeviceAuthError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status });
+    }
     console.error('Device auth error:', error);
     return NextResponse.json(
       { success: false, message: 'Authentication failed' },
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { DeviceError, deviceService, toDeviceSummary } from '@/services/devices';
+
+type RouteContext = { params: { id: string } };
+
+function errorResponse(error: unknown, action: string): NextResponse {
+  if (error instanceof DeviceError) {
+    return NextResponse.json({ success: false, message: error.message }, { status: error.status });
+  }
+  console.error(`${action} device error:`, error);
+  return NextResponse.json(
+    { success: false, message: `Failed to ${action.toLowerCase()} device` },
+    { status: 500 }
+  );
+}
+
+/**
+ * PATCH /api/auth/devices/[id]
+ * Give a device a friendly name
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body: { name?: unknown } = await request.json();
+    const device = await deviceService.rename(params.id, authResult.user.id, body.name);
+
+    return NextResponse.json({
+      success: true,
+      device: toDeviceSummary(device, authResult.deviceId)
+    });
+
+  } catch (error) {
+    return errorResponse(error, 'Rename');
+  }
+}
+
+/**
+ * DELETE /api/auth/devices/[id]
+ * Revoke a device; its session token is rejected from the next request on
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    await deviceService.revoke(params.id, authResult.user.id);
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    return errorResponse(error, 'Revoke');
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { deviceService, toDeviceSummary } from '@/services/devices';
+
+/**
+ * GET /api/auth/devices
+ * Devices signed in to the account, most recently seen first, with the
+ * one making the request flagged as current
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const devices = await deviceService.list(authResult.user.id);
+
+    return NextResponse.json({
+      success: true,
+      devices: devices.map(device => toDeviceSummary(device, authResult.deviceId))
+    });
+
+  } catch (error) {
+    console.error('List devices error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to list devices' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { seamlessAuthService } from '@/services/seamlessAuth';
 import { authMiddleware } from '@/lib/auth-middleware';
-import { dbManager } from '@/lib/database';
-import { MigrationRunner } from '@/lib/migrations';
+import { rateLimitHeaders, rateLimitService, userSubject } from '@/services/rateLimit';
 
 export async function POST(request: NextRequest) {
   try {
-    // Initialize database and run migrations
-    const database = dbManager.connect();
-    const migrationRunner = new MigrationRunner(database);
-    migrationRunner.runMigrations();
-
     // Authenticate user
     const authResult = await authMiddleware(request);
     if (!authResult.success || !authResult.user) {
@@ -20,6 +14,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const rateLimit = await rateLimitService.consume('auth.generate_code', userSubject(authResult.user.id));
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { success: false, message: 'Too many link codes requested. Please try again later.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
+
     const code = await seamlessAuthService.createDeviceLinkCode(authResult.user.id);
 
     return NextResponse.json({
@@ -1,10 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { seamlessAuthService } from '@/services/seamlessAuth';
-import { dbManager } from '@/lib/database';
-import { MigrationRunner } from '@/lib/migrations';
-import jwt from 'jsonwebtoken';
-
-const JWT_SECRET = process.env.JWT_SECRET || 'honk-secret-key-change-in-production';
+import { sessionService } from '@/services/sessions';
+import { addressSubject, rateLimitHeaders, rateLimitService } from '@/services/rateLimit';
+import { clientAddress } from '@/lib/client-address';
 
 interface LinkDeviceRequest {
   code: string;
@@ -17,10 +15,19 @@ interface LinkDeviceRequest {
 
 export async function POST(request: NextRequest) {
   try {
-    // Initialize database and run migrations
-    const database = dbManager.connect();
-    const migrationRunner = new MigrationRunner(database);
-    migrationRunner.runMigrations();
+    // Every attempt counts, so six-digit codes can't be guessed. Without a
+    // trusted address there is no fair bucket to put the caller in; wrong
+    // guesses still use up the open codes.
+    const address = clientAddress(request);
+    if (address) {
+      const rateLimit = await rateLimitService.consume('auth.link_device', addressSubject(address));
+      if (!rateLimit.allowed) {
+        return NextResponse.json(
+          { success: false, message: 'Too many attempts. Please try again later.' },
+          { status: 429, headers: rateLimitHeaders(rateLimit) }
+        );
+      }
+    }
 
     const body: LinkDeviceRequest = await request.json();
     
@@ -40,24 +47,21 @@ export async function POST(request: NextRequest) {
       platform: body.platform
     });
 
-    if (!result.success) {
+    if (!result.success || !result.user || !result.device) {
       return NextResponse.json(
         { success: false, message: 'Invalid or expired code' },
         { status: 400 }
       );
     }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: result.user.id },
-      JWT_SECRET,
-      { expiresIn: '30d' }
-    );
+    // Start a session bound to the device
+    const tokens = await sessionService.issue(result.user.id, result.device.id);
 
     return NextResponse.json({
       success: true,
       user: result.user,
-      token,
+      ...tokens,
+      deviceSecret: result.deviceSecret,
       message: 'Device linked successfully'
     });
 
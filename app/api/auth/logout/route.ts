@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { SessionError, sessionService } from '@/services/sessions';
+
+interface LogoutRequest {
+  refreshToken?: string;
+  everywhere?: boolean; // Sign out every session on every device
+}
+
+/**
+ * POST /api/auth/logout
+ * Sign out the current session, or every session with `everywhere`. A
+ * refresh token alone is enough to sign out once the access token expired.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: LogoutRequest = await request.json().catch(() => ({}));
+    const authResult = await authMiddleware(request);
+
+    if (body.everywhere) {
+      if (!authResult.success || !authResult.user) {
+        return NextResponse.json(
+          { success: false, message: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+      await sessionService.revokeAll(authResult.user.id);
+    } else if (authResult.success && authResult.sessionId) {
+      await sessionService.revoke(authResult.sessionId);
+    } else if (typeof body.refreshToken === 'string' && body.refreshToken) {
+      await sessionService.revokeRefreshToken(body.refreshToken);
+    } else {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Signed out' });
+
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status });
+    }
+    console.error('Logout error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to sign out' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authService } from '@/services/auth';
 import { UserProfile } from '@/types';
-import { dbManager } from '@/lib/database';
-import { MigrationRunner } from '@/lib/migrations';
 
 export async function PUT(request: NextRequest) {
   try {
-    // Initialize database and run migrations
-    const db = dbManager.connect();
-    const migrationRunner = new MigrationRunner(db);
-    migrationRunner.runMigrations();
-
     // Get token from Authorization header
     const authHeader = request.headers.get('authorization');
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -21,7 +14,7 @@ export async function PUT(request: NextRequest) {
     }
 
     const token = authHeader.substring(7);
-    const user = authService.verifyToken(token);
+    const user = await authService.verifyToken(token);
 
     if (!user) {
       return NextResponse.json(
@@ -31,10 +24,10 @@ export async function PUT(request: NextRequest) {
     }
 
     const body: Partial<UserProfile> = await request.json();
-    const success = authService.updateProfile(user.id, body);
+    const success = await authService.updateProfile(user.id, body);
 
     if (success) {
-      const updatedUser = authService.getUserProfile(user.id);
+      const updatedUser = await authService.getUserProfile(user.id);
       return NextResponse.json({
         success: true,
         user: updatedUser
@@ -56,11 +49,6 @@ export async function PUT(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    // Initialize database and run migrations
-    const db = dbManager.connect();
-    const migrationRunner = new MigrationRunner(db);
-    migrationRunner.runMigrations();
-
     // Get token from Authorization header
     const authHeader = request.headers.get('authorization');
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -71,7 +59,7 @@ export async function GET(request: NextRequest) {
     }
 
     const token = authHeader.substring(7);
-    const user = authService.verifyToken(token);
+    const user = await authService.verifyToken(token);
 
     if (!user) {
       return NextResponse.json(
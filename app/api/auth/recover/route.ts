@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RecoveryError } from '@/services/recovery';
+import { seamlessAuthService } from '@/services/seamlessAuth';
+import { sessionService } from '@/services/sessions';
+import { addressSubject, rateLimitHeaders, rateLimitService } from '@/services/rateLimit';
+import { clientAddress } from '@/lib/client-address';
+
+interface RecoverRequest {
+  code?: string;
+  userAgent?: string;
+}
+
+/**
+ * POST /api/auth/recover
+ * Sign back in to an account with one of its recovery codes. The code is
+ * used up and this browser is added as a new device.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Recovery codes are long enough that callers without a trusted address
+    // can't guess one either
+    const address = clientAddress(request);
+    if (address) {
+      const rateLimit = await rateLimitService.consume('auth.recover', addressSubject(address));
+      if (!rateLimit.allowed) {
+        return NextResponse.json(
+          { success: false, message: 'Too many attempts. Please try again later.' },
+          { status: 429, headers: rateLimitHeaders(rateLimit) }
+        );
+      }
+    }
+
+    const body: RecoverRequest = await request.json();
+
+    if (typeof body.code !== 'string' || !body.code.trim()) {
+      return NextResponse.json(
+        { success: false, message: 'Recovery code is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await seamlessAuthService.recoverAccount(body.code, {
+      userAgent: body.userAgent || request.headers.get('user-agent') || ''
+    });
+    const tokens = await sessionService.issue(result.user.id, result.device.id);
+
+    return NextResponse.json({
+      success: true,
+      user: result.user,
+      ...tokens,
+      deviceSecret: result.deviceSecret,
+      remainingCodes: result.remainingCodes,
+      message: 'Account recovered'
+    });
+
+  } catch (error) {
+    if (error instanceof RecoveryError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status });
+    }
+    console.error('Account recovery error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to recover account' },
+      { status: 500 }
+    );
+  }
+}
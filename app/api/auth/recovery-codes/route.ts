@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { recoveryService } from '@/services/recovery';
+
+/**
+ * GET /api/auth/recovery-codes
+ * How many unused recovery codes the user has left
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const remaining = await recoveryService.remaining(authResult.user.id);
+
+    return NextResponse.json({ success: true, remaining });
+
+  } catch (error) {
+    console.error('Recovery codes error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to load recovery codes' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/auth/recovery-codes
+ * Replace the user's recovery codes with a new set, shown only in this response
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const recoveryCodes = await recoveryService.generate(authResult.user.id);
+
+    return NextResponse.json({ success: true, recoveryCodes });
+
+  } catch (error) {
+    console.error('Recovery codes error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to generate recovery codes' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionError, sessionService } from '@/services/sessions';
+
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new access token and refresh token. The
+ * old refresh token stops working; presenting it again signs the session out.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: { refreshToken?: unknown } = await request.json();
+    if (typeof body.refreshToken !== 'string' || !body.refreshToken) {
+      return NextResponse.json(
+        { success: false, message: 'Refresh token is required' },
+        { status: 400 }
+      );
+    }
+
+    const tokens = await sessionService.refresh(body.refreshToken);
+
+    return NextResponse.json({ success: true, ...tokens });
+
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status });
+    }
+    console.error('Token refresh error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to refresh session' },
+      { status: 500 }
+    );
+  }
+}
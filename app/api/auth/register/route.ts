@@ -1,18 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authService } from '@/services/auth';
 import { RegisterCredentials } from '@/types';
-import { dbManager } from '@/lib/database';
-import { MigrationRunner } from '@/lib/migrations';
 
 export async function POST(request: NextRequest) {
   try {
-    // Initialize database and run migrations
-    const db = dbManager.connect();
-    const migrationRunner = new MigrationRunner(db);
-    migrationRunner.runMigrations();
-
     const body: RegisterCredentials = await request.json();
-    const result = await authService.register(body);
+    const result = await authService.register(body, {
+      userAgent: request.headers.get('user-agent') ?? undefined
+    });
 
     return NextResponse.json(result, {
       status: result.success ? 201 : 400
@@ -1,15 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authService } from '@/services/auth';
-import { dbManager } from '@/lib/database';
-import { MigrationRunner } from '@/lib/migrations';
 
 export async function POST(request: NextRequest) {
   try {
-    // Initialize database and run migrations
-    const db = dbManager.connect();
-    const migrationRunner = new MigrationRunner(db);
-    migrationRunner.runMigrations();
-
     const body = await request.json();
     const { token } = body;
 
@@ -20,7 +13,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const user = authService.verifyToken(token);
+    const user = await authService.verifyToken(token);
 
     if (user) {
       return NextResponse.json({
@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { dbManager } from '@/lib/database';
+import { getRepository } from '@/lib/repository';
 import { authMiddleware } from '@/lib/auth-middleware';
-import { MigrationRunner } from '@/lib/migrations';
 
 /**
  * Get messages in a specific conversation
@@ -11,10 +10,6 @@ export async function GET(
   { params }: { params: { id: string } }
 ): Promise<NextResponse> {
   try {
-    // Initialize database and run migrations
-    const migrationRunner = new MigrationRunner();
-    await migrationRunner.runMigrations();
-
     // Authenticate user
     const authResult = await authMiddleware(request);
     if (!authResult.success) {
@@ -29,23 +24,17 @@ export async function GET(
     const limit = parseInt(searchParams.get('limit') || '50');
     const offset = (page - 1) * limit;
 
-    const db = dbManager.getDatabase();
+    const repository = getRepository();
 
     // Verify user has access to this conversation
-    const conversationStmt = db.prepare(`
-      SELECT * FROM conversations 
-      WHERE id = ? AND (user1_id = ? OR user2_id = ?)
-    `);
-    
-    const conversationRow = conversationStmt.get(conversationId, user.id, user.id);
-    if (!conversationRow) {
+    const conversation = await repository.conversations.findForParticipant(conversationId, user.id);
+    if (!conversation) {
       return NextResponse.json(
         { error: 'Conversation not found or access denied' },
         { status: 404 }
       );
     }
 
-    const conversation = dbManager.rowToConversation(conversationRow);
     const messageIds = conversation.message_ids;
 
     if (messageIds.length === 0) {
@@ -70,32 +59,16 @@ export async function GET(
 
     // Get paginated messages
     const paginatedMessageIds = messageIds.slice(offset, offset + limit);
-    const placeholders = paginatedMessageIds.map(() => '?').join(',');
-    
-    const messagesStmt = db.prepare(`
-      SELECT m.*, u.username as sender_username, u.current_rank as sender_rank
-      FROM messages m
-      LEFT JOIN users u ON m.sender_id = u.id
-      WHERE m.id IN (${placeholders})
-      ORDER BY m.created_at ASC
-    `);
-
-    const messageRows = messagesStmt.all(...paginatedMessageIds);
-    const messages = messageRows.map((row: any) => ({
-      ...dbManager.rowToMessage(row),
-      sender_username: row.sender_username,
-      sender_rank: row.sender_rank
-    }));
+    const messages = (await repository.messages.findManyWithSender(paginatedMessageIds))
+      // Scheduled replies stay hidden from the recipient until they launch
+      .filter(message => message.status !== 'scheduled' || message.sender_id === user.id);
 
     // Get other participant info
     const otherParticipantId = conversation.user1_id === user.id 
       ? conversation.user2_id 
       : conversation.user1_id;
     
-    const otherParticipantStmt = db.prepare(`
-      SELECT username, current_rank FROM users WHERE id = ?
-    `);
-    const otherParticipant = otherParticipantStmt.get(otherParticipantId);
+    const otherParticipant = await repository.users.findById(otherParticipantId);
 
     const total = messageIds.length;
     const totalPages = Math.ceil(total / limit);
@@ -1,17 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { dbManager } from '@/lib/database';
+import { getRepository } from '@/lib/repository';
 import { authMiddleware } from '@/lib/auth-middleware';
-import { MigrationRunner } from '@/lib/migrations';
 
 /**
  * Get user's conversations
  */
 export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
-    // Initialize database and run migrations
-    const migrationRunner = new MigrationRunner();
-    await migrationRunner.runMigrations();
-
     // Authenticate user
     const authResult = await authMiddleware(request);
     if (!authResult.success) {
@@ -25,28 +20,10 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     const limit = parseInt(searchParams.get('limit') || '20');
     const offset = (page - 1) * limit;
 
-    const db = dbManager.getDatabase();
+    const repository = getRepository();
 
     // Get conversations for the user
-    const conversationsStmt = db.prepare(`
-      SELECT 
-        c.*,
-        u1.username as user1_username,
-        u2.username as user2_username,
-        (
-          SELECT COUNT(*) 
-          FROM conversations 
-          WHERE user1_id = ? OR user2_id = ?
-        ) as total
-      FROM conversations c
-      LEFT JOIN users u1 ON c.user1_id = u1.id
-      LEFT JOIN users u2 ON c.user2_id = u2.id
-      WHERE c.user1_id = ? OR c.user2_id = ?
-      ORDER BY c.last_message_at DESC
-      LIMIT ? OFFSET ?
-    `);
-
-    const rows = conversationsStmt.all(user.id, user.id, user.id, user.id, limit, offset);
+    const { items: rows, total } = await repository.conversations.listForUser(user.id, limit, offset);
     
     if (rows.length === 0) {
       return NextResponse.json({
@@ -62,32 +39,19 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       });
     }
 
-    const total = (rows[0] as any).total || 0;
     const totalPages = Math.ceil(total / limit);
 
     // Transform conversations and get latest message for each
     const conversations = await Promise.all(
-      rows.map(async (row: any) => {
-        const conversation = dbManager.rowToConversation(row);
+      rows.map(async ({ user1_username, user2_username, ...conversation }) => {
         const messageIds = conversation.message_ids;
         
         // Get the latest message
         let latestMessage = null;
         if (messageIds.length > 0) {
           const latestMessageId = messageIds[messageIds.length - 1];
-          const messageStmt = db.prepare(`
-            SELECT m.*, u.username as sender_username
-            FROM messages m
-            LEFT JOIN users u ON m.sender_id = u.id
-            WHERE m.id = ?
-          `);
-          const messageRow = messageStmt.get(latestMessageId);
-          if (messageRow) {
-            latestMessage = {
-              ...dbManager.rowToMessage(messageRow),
-              sender_username: (messageRow as any).sender_username
-            };
-          }
+          const [message] = await repository.messages.findManyWithSender([latestMessageId]);
+          latestMessage = message ?? null;
         }
 
         // Determine the other participant
@@ -96,8 +60,8 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
           : conversation.user1_id;
         
         const otherParticipantUsername = conversation.user1_id === user.id
-          ? row.user2_username
-          : row.user1_username;
+          ? user2_username
+          : user1_username;
 
         return {
           ...conversation,
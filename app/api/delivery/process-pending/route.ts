@@ -1,12 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { messageDeliveryService } from '@/services/messageDelivery';
+import { flightEngine } from '@/services/flightEngine';
+import { messageScheduler } from '@/services/messageScheduler';
 
 /**
  * POST /api/delivery/process-pending
- * Process all pending deliveries (useful for system recovery)
+ * Recover after a restart: resume persisted flights and scheduled honks,
+ * then deliver any messages whose flights have already landed
  */
 export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
+    // Resume flights that were in the air when the server stopped
+    const restoredFlights = await flightEngine.restoreFlights();
+
+    // Re-arm honks waiting for their launch time
+    const scheduledMessages = await messageScheduler.restoreScheduled();
+
     // Get pending deliveries before processing
     const pendingBefore = messageDeliveryService.getPendingDeliveries();
     
@@ -18,6 +27,8 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     
     return NextResponse.json({
       success: true,
+      restoredFlights,
+      scheduledMessages,
       processed: pendingBefore.length - pendingAfter.length,
       stillPending: pendingAfter.length,
       pendingDeliveries: pendingAfter.map(delivery => ({
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { DraftError, DraftInput, draftService, toDraftSummary } from '@/services/drafts';
+
+type RouteContext = { params: { id: string } };
+
+function errorResponse(error: unknown, action: string): NextResponse {
+  if (error instanceof DraftError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(`Error ${action} draft:`, error);
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET /api/drafts/[id]
+ * One of the user's drafts, for resuming it in its composer
+ */
+export async function GET(request: NextRequest, { params }: RouteContext): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const draft = await draftService.get(params.id, authResult.user.id);
+
+    return NextResponse.json({ draft: toDraftSummary(draft) });
+
+  } catch (error) {
+    return errorResponse(error, 'fetching');
+  }
+}
+
+/**
+ * PUT /api/drafts/[id]
+ * Autosave the composer's latest state over the draft
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: Omit<DraftInput, 'kind'> = await request.json();
+    const draft = await draftService.update(params.id, authResult.user.id, body);
+
+    return NextResponse.json({ draft: toDraftSummary(draft) });
+
+  } catch (error) {
+    return errorResponse(error, 'saving');
+  }
+}
+
+/**
+ * DELETE /api/drafts/[id]
+ * Throw a draft away
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await draftService.delete(params.id, authResult.user.id);
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    return errorResponse(error, 'deleting');
+  }
+}
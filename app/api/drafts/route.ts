@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { DraftError, DraftInput, draftService, toDraftSummary } from '@/services/drafts';
+
+/**
+ * GET /api/drafts
+ * The user's unsent honks, replies and postcards, most recently edited first
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const drafts = await draftService.list(authResult.user.id);
+
+    return NextResponse.json({ drafts: drafts.map(toDraftSummary) });
+
+  } catch (error) {
+    console.error('Error fetching drafts:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/drafts
+ * Start a new draft from a composer's first autosave
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: DraftInput = await request.json();
+    const draft = await draftService.create(authResult.user.id, body);
+
+    return NextResponse.json({ draft: toDraftSummary(draft) }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof DraftError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error creating draft:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
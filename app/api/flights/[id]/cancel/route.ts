@@ -7,7 +7,7 @@ export async function POST(
 ) {
   try {
     const messageId = params.id;
-    const success = flightEngine.cancelFlight(messageId);
+    const success = await flightEngine.cancelFlight(messageId);
 
     return NextResponse.json({ success });
   } catch (error) {
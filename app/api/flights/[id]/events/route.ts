@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/repository';
+import { authMiddleware } from '@/lib/auth-middleware';
+
+type RouteContext = { params: { id: string } };
+
+/**
+ * GET /api/flights/[id]/events
+ * Everything logged on a honk's flight, oldest first. The id is the
+ * message id, as for cancel.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const repository = getRepository();
+    // Only the sender and recipient can see how a honk got there
+    const message = await repository.messages.findForParticipant(params.id, authResult.user.id);
+    if (!message) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+
+    const events = await repository.flightEvents.listForMessage(message.id);
+
+    return NextResponse.json({ events });
+
+  } catch (error) {
+    console.error('Error fetching flight events:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,22 +1,51 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { flightEngine } from '@/services/flightEngine';
-import { LocationData } from '@/types';
+import { getRepository } from '@/lib/repository';
+import { authMiddleware } from '@/lib/auth-middleware';
 
+/**
+ * POST /api/flights/initialize
+ * Start the flight for a honk the user sent. Only honks already in the air
+ * without a flight can take off; scheduled ones wait for their launch time.
+ */
 export async function POST(request: NextRequest) {
   try {
-    const { messageId, startLocation, endLocation } = await request.json();
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { messageId } = await request.json();
 
-    if (!messageId || !startLocation || !endLocation) {
+    if (!messageId) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       );
     }
 
+    const repository = getRepository();
+    const message = await repository.messages.findById(messageId);
+    if (!message || message.sender_id !== authResult.user.id) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+
+    // Scheduled honks launch on their own; anything else is already flying or done
+    const existingFlight = await repository.flights.findByMessageId(message.id);
+    if (message.status !== 'flying' || existingFlight) {
+      return NextResponse.json({ error: 'Message is not ready to take off' }, { status: 409 });
+    }
+
+    if (!message.recipient_location) {
+      return NextResponse.json({ error: 'Message has no destination' }, { status: 409 });
+    }
+
+    // The route and tier come from the stored honk, as checked when it was sent
     const flight = await flightEngine.initializeFlight(
-      messageId,
-      startLocation as LocationData,
-      endLocation as LocationData
+      message.id,
+      message.sender_location,
+      message.recipient_location,
+      message.delivery_tier
     );
 
     if (!flight) {
@@ -34,4 +63,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
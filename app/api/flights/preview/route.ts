@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/repository';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { flightEngine } from '@/services/flightEngine';
+import { tailwindAlgorithm } from '@/services/tailwindAlgorithm';
+import { RankingService } from '@/services/ranking';
+import { canUseDeliveryTier, DEFAULT_DELIVERY_TIER, isDeliveryTier } from '@/services/deliveryTiers';
+import { isValidLocation } from '@/utils/location';
+import { DeliveryTier, LocationData, RoutePreview } from '@/types';
+
+/** Rank reward that unlocks route previews (Veteran Voyager) */
+const ROUTE_PREVIEW_REWARD = 'route_preview';
+
+interface PreviewRequest {
+  sender_location?: LocationData; // Defaults to the sender's stored location
+  recipient_location?: LocationData;
+  recipient_id?: string; // Used when recipient_location is not given
+  delivery_tier?: DeliveryTier;
+}
+
+/**
+ * POST /api/flights/preview
+ * Plan a honk's flight without sending it: path, terrain, forecast,
+ * arrival window and predicted journey points. When no recipient is
+ * given, one is picked by the Tailwind Algorithm and returned as recipient_id.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const repository = getRepository();
+    const sender = await repository.users.findById(authResult.user.id);
+    if (!sender) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!RankingService.hasRankReward(sender.total_journey_points, ROUTE_PREVIEW_REWARD)) {
+      return NextResponse.json(
+        { error: 'Route preview unlocks at the Veteran Voyager rank' },
+        { status: 403 }
+      );
+    }
+
+    const body: PreviewRequest = await request.json();
+
+    const deliveryTier = body.delivery_tier ?? DEFAULT_DELIVERY_TIER;
+    if (!isDeliveryTier(deliveryTier)) {
+      return NextResponse.json(
+        { error: "delivery_tier must be 'standard', 'priority' or 'express'" },
+        { status: 400 }
+      );
+    }
+    if (!canUseDeliveryTier(sender, deliveryTier)) {
+      return NextResponse.json(
+        { error: `${deliveryTier} delivery has not been unlocked at your rank` },
+        { status: 403 }
+      );
+    }
+
+    const senderLocation = body.sender_location ?? sender.current_location;
+    if (!senderLocation || !isValidLocation(senderLocation)) {
+      return NextResponse.json({ error: 'A valid sender location is required' }, { status: 400 });
+    }
+
+    let recipientLocation = body.recipient_location;
+    let selectedRecipientId: string | undefined;
+    if (!recipientLocation && body.recipient_id) {
+      const recipient = await repository.users.findById(body.recipient_id);
+      if (!recipient) {
+        return NextResponse.json({ error: 'Recipient not found' }, { status: 404 });
+      }
+      recipientLocation = recipient.current_location;
+    } else if (!recipientLocation) {
+      // New honks have no recipient yet; pick one now so the honk can be sent to them
+      const eligibleRecipients = await tailwindAlgorithm.findEligibleRecipients(sender.id, senderLocation);
+      if (eligibleRecipients.length === 0) {
+        return NextResponse.json(
+          { error: 'No eligible recipients found. Try again later.' },
+          { status: 400 }
+        );
+      }
+
+      const selectedRecipient = tailwindAlgorithm.selectWeightedRecipient(eligibleRecipients, senderLocation);
+      selectedRecipientId = selectedRecipient.id;
+      recipientLocation = selectedRecipient.current_location;
+    }
+
+    if (!recipientLocation || !isValidLocation(recipientLocation)) {
+      return NextResponse.json({ error: 'A valid recipient location is required' }, { status: 400 });
+    }
+
+    const preview = await flightEngine.previewFlight(senderLocation, recipientLocation, deliveryTier);
+    if (!preview) {
+      return NextResponse.json({ error: 'Failed to calculate route' }, { status: 500 });
+    }
+
+    const points = RankingService.calculateJourneyPoints(
+      {
+        route: preview.route.waypoints,
+        total_distance: preview.route.totalDistance,
+        estimated_duration: preview.max_duration_ms,
+        weather_events: preview.weather,
+        current_progress: 0,
+        journey_points_earned: 0
+      },
+      senderLocation,
+      recipientLocation,
+      sender
+    );
+
+    const response: RoutePreview = {
+      delivery_tier: preview.delivery_tier,
+      recipient_id: selectedRecipientId,
+      route: preview.route.waypoints,
+      total_distance: preview.route.totalDistance,
+      terrain: preview.terrain,
+      weather: preview.weather,
+      eta: {
+        earliest: preview.earliest_arrival.toISOString(),
+        latest: preview.latest_arrival.toISOString(),
+        min_duration_ms: preview.min_duration_ms,
+        max_duration_ms: preview.max_duration_ms
+      },
+      journey_points: {
+        total_points: points.total_points,
+        breakdown: points.breakdown
+      }
+    };
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Error previewing flight:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
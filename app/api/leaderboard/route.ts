@@ -1,12 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { RankingService } from '@/services/ranking';
-import { dbManager } from '@/lib/database';
 
 export async function GET(request: NextRequest) {
   try {
-    // Connect to database
-    dbManager.connect();
-
     // Get limit from query parameters (default to 10)
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') || '10', 10);
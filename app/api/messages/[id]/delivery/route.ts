@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { dbManager } from '@/lib/database';
+import { getRepository } from '@/lib/repository';
 import { messageDeliveryService } from '@/services/messageDelivery';
 import { flightEngine } from '@/services/flightEngine';
 
@@ -21,19 +21,15 @@ export async function GET(
       );
     }
 
-    const db = dbManager.getDatabase();
-    
     // Get message details
-    const messageRow = db.prepare('SELECT * FROM messages WHERE id = ?').get(messageId);
+    const message = await getRepository().messages.findById(messageId);
     
-    if (!messageRow) {
+    if (!message) {
       return NextResponse.json(
         { error: 'Message not found' },
         { status: 404 }
       );
     }
-
-    const message = dbManager.rowToMessage(messageRow);
     
     // Get delivery attempt status if pending
     const deliveryStatus = messageDeliveryService.getDeliveryStatus(messageId);
@@ -81,19 +77,15 @@ export async function POST(
       );
     }
 
-    const db = dbManager.getDatabase();
-    
     // Get message details
-    const messageRow = db.prepare('SELECT * FROM messages WHERE id = ?').get(messageId);
+    const message = await getRepository().messages.findById(messageId);
     
-    if (!messageRow) {
+    if (!message) {
       return NextResponse.json(
         { error: 'Message not found' },
         { status: 404 }
       );
     }
-
-    const message = dbManager.rowToMessage(messageRow);
     
     // Check if message is already delivered
     if (message.status === 'delivered') {
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { JourneyReplayError, journeyReplayService } from '@/services/journeyReplay';
+
+type RouteContext = { params: { id: string } };
+
+/**
+ * GET /api/messages/[id]/replay
+ * Route, weather timeline and points breakdown of a delivered honk
+ */
+export async function GET(request: NextRequest, { params }: RouteContext): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const replay = await journeyReplayService.getReplay(params.id, authResult.user.id);
+
+    return NextResponse.json({ replay });
+
+  } catch (error) {
+    if (error instanceof JourneyReplayError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error building journey replay:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
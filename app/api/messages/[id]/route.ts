@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { dbManager } from '@/lib/database';
+import { getRepository } from '@/lib/repository';
 import { authMiddleware } from '@/lib/auth-middleware';
 
 export async function GET(
@@ -18,39 +18,22 @@ export async function GET(
 
     const messageId = params.id;
     const userId = authResult.user.id;
-    const db = dbManager.getDatabase();
+    const repository = getRepository();
 
     // Get message with sender information
-    const messageRow = db.prepare(`
-      SELECT m.*, 
-             u.username as sender_username,
-             u.current_rank as sender_rank
-      FROM messages m
-      LEFT JOIN users u ON m.sender_id = u.id
-      WHERE m.id = ? AND (m.recipient_id = ? OR m.sender_id = ?)
-    `).get(messageId, userId, userId);
-
-    if (!messageRow) {
+    const message = await repository.messages.findForParticipant(messageId, userId);
+
+    if (!message) {
       return NextResponse.json(
         { error: 'Message not found' },
         { status: 404 }
       );
     }
 
-    const message = {
-      ...dbManager.rowToMessage(messageRow),
-      sender_username: messageRow.sender_username,
-      sender_rank: messageRow.sender_rank
-    };
-
     // Mark message as read if user is the recipient
     if (message.recipient_id === userId && message.status === 'delivered') {
       // Update last_active to track message reading
-      db.prepare(`
-        UPDATE users 
-        SET last_active = ?
-        WHERE id = ?
-      `).run(new Date().toISOString(), userId);
+      await repository.users.update(userId, { last_active: new Date() });
     }
 
     return NextResponse.json({ message });
@@ -83,28 +66,21 @@ export async function PATCH(
     const body = await request.json();
     const { action } = body;
 
-    const db = dbManager.getDatabase();
+    const repository = getRepository();
 
     // Verify user has access to this message
-    const messageRow = db.prepare(`
-      SELECT * FROM messages 
-      WHERE id = ? AND (recipient_id = ? OR sender_id = ?)
-    `).get(messageId, userId, userId);
+    const message = await repository.messages.findForParticipant(messageId, userId);
 
-    if (!messageRow) {
+    if (!message) {
       return NextResponse.json(
         { error: 'Message not found' },
         { status: 404 }
       );
     }
 
-    if (action === 'mark_read' && messageRow.recipient_id === userId) {
+    if (action === 'mark_read' && message.recipient_id === userId) {
       // Mark message as read by updating user's last_active
-      db.prepare(`
-        UPDATE users 
-        SET last_active = ?
-        WHERE id = ?
-      `).run(new Date().toISOString(), userId);
+      await repository.users.update(userId, { last_active: new Date() });
 
       return NextResponse.json({ success: true });
     }
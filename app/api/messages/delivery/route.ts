@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { dbManager } from '@/lib/database';
+import { getRepository } from '@/lib/repository';
 import { messageDeliveryService } from '@/services/messageDelivery';
 import { flightEngine } from '@/services/flightEngine';
 
@@ -8,28 +8,22 @@ export async function POST(request: Request) {
     const { messageId, flightProgress } = await request.json();
     
     // Get message details
-    const db = dbManager.getDatabase();
-    const messageRow = db.prepare('SELECT * FROM messages WHERE id = ?').get(messageId);
+    const repository = getRepository();
+    const message = await repository.messages.findById(messageId);
 
-    if (!messageRow) {
+    if (!message) {
       return NextResponse.json({ error: 'Message not found' }, { status: 404 });
     }
 
-    const message = dbManager.rowToMessage(messageRow);
-
     // If message is already delivered, return success
     if (message.status === 'delivered') {
       return NextResponse.json({ success: true });
     }
 
     // Update message status
-    const updateResult = db.prepare(`
-      UPDATE messages 
-      SET status = 'delivered', delivered_at = ?
-      WHERE id = ? AND status = 'flying'
-    `).run(new Date().toISOString(), messageId);
+    const delivered = await repository.messages.markDelivered(messageId, new Date());
 
-    if (updateResult.changes === 0) {
+    if (!delivered) {
       return NextResponse.json({ error: 'Failed to update message status' }, { status: 400 });
     }
 
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { dbManager } from '@/lib/database';
+import { getRepository, InboxQuery } from '@/lib/repository';
 import { authMiddleware } from '@/lib/auth-middleware';
-import { HonkMessage } from '@/types';
+import { postcardImageUrl } from '@/services/postcardRenderer';
 
 export async function GET(request: NextRequest) {
   try {
@@ -25,55 +25,32 @@ export async function GET(request: NextRequest) {
     const offset = (page - 1) * limit;
     const userId = authResult.user.id;
 
-    const db = dbManager.getDatabase();
-
-    // Build WHERE clause
-    let whereClause = 'WHERE recipient_id = ?';
-    const params: any[] = [userId];
-
-    if (status) {
-      whereClause += ' AND status = ?';
-      params.push(status);
-    }
-
-    if (search) {
-      whereClause += ' AND (title LIKE ? OR content LIKE ?)';
-      params.push(`%${search}%`, `%${search}%`);
-    }
-
     // Validate sort column
-    const validSortColumns = ['created_at', 'delivered_at', 'title'];
-    const validSortOrders = ['asc', 'desc'];
+    const validSortColumns: InboxQuery['sortBy'][] = ['created_at', 'delivered_at', 'title'];
+    const validSortOrders: InboxQuery['sortOrder'][] = ['asc', 'desc'];
     
-    const finalSortBy = validSortColumns.includes(sortBy) ? sortBy : 'created_at';
-    const finalSortOrder = validSortOrders.includes(sortOrder) ? sortOrder : 'desc';
+    const finalSortBy = validSortColumns.find(column => column === sortBy) ?? 'created_at';
+    const finalSortOrder = validSortOrders.find(order => order === sortOrder) ?? 'desc';
 
-    // Get total count
-    const countQuery = `
-      SELECT COUNT(*) as total 
-      FROM messages 
-      ${whereClause}
-    `;
-    const countResult = db.prepare(countQuery).get(...params);
-    const total = countResult?.total || 0;
-
-    // Get messages with pagination
-    const messagesQuery = `
-      SELECT m.*, u.username as sender_username
-      FROM messages m
-      LEFT JOIN users u ON m.sender_id = u.id
-      ${whereClause}
-      ORDER BY ${finalSortBy} ${finalSortOrder}
-      LIMIT ? OFFSET ?
-    `;
-    
-    const messageRows = db.prepare(messagesQuery).all(...params, limit, offset);
+    const repository = getRepository();
+    const { items, total } = await repository.messages.listInbox(userId, {
+      status: status as InboxQuery['status'],
+      search,
+      sortBy: finalSortBy,
+      sortOrder: finalSortOrder,
+      limit,
+      offset
+    });
 
-    // Transform rows to HonkMessage objects
-    const messages: (HonkMessage & { sender_username?: string })[] = messageRows.map((row: any) => ({
-      ...dbManager.rowToMessage(row),
-      sender_username: row.sender_username
-    }));
+    // Point postcards at their rendered image; the image route draws any
+    // card that has not been rendered yet
+    const postcards = await repository.postcards.findByMessageIds(
+      items.filter(message => message.message_type === 'postcard').map(message => message.id)
+    );
+    const imageUrls = new Map(postcards.map(postcard => [postcard.message_id, postcardImageUrl(postcard.id)]));
+    const messages = items.map(message =>
+      imageUrls.has(message.id) ? { ...message, postcard_image_url: imageUrls.get(message.id) } : message
+    );
 
     return NextResponse.json({
       messages,
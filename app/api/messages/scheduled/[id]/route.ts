@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository, ScheduledMessageUpdate } from '@/lib/repository';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { messageScheduler, ScheduleTimeZone, SchedulingError } from '@/services/messageScheduler';
+import { calculatePostcardLineCount, POSTCARD_MAX_LINES } from '@/utils/postcard';
+import { postcardDocumentFromMessage, validatePostcardDocument } from '@/utils/postcardDocument';
+import { AuthUser, HonkMessage } from '@/types';
+
+interface UpdateScheduledRequest {
+  title?: string;
+  content?: string;
+  scheduled_for?: string;
+  schedule_time_zone?: ScheduleTimeZone;
+}
+
+/**
+ * Load a scheduled honk owned by the user, or null
+ */
+async function findOwnScheduled(messageId: string, user: AuthUser): Promise<HonkMessage | null> {
+  const message = await getRepository().messages.findById(messageId);
+  if (!message || message.sender_id !== user.id || message.status !== 'scheduled') {
+    return null;
+  }
+  return message;
+}
+
+/**
+ * PATCH /api/messages/scheduled/[id]
+ * Edit the text or launch time of a honk that has not launched yet
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = authResult.user;
+    const message = await findOwnScheduled(params.id, user);
+    if (!message) {
+      return NextResponse.json({ error: 'Scheduled message not found' }, { status: 404 });
+    }
+
+    if (!messageScheduler.canSchedule(user)) {
+      return NextResponse.json(
+        { error: 'Scheduling unlocks at the Veteran Voyager rank' },
+        { status: 403 }
+      );
+    }
+
+    const body: UpdateScheduledRequest = await request.json();
+    const updates: ScheduledMessageUpdate = {};
+
+    if (body.title !== undefined) {
+      if (!body.title.trim()) {
+        return NextResponse.json({ error: 'Title is required' }, { status: 400 });
+      }
+      if (body.title.length > 100) {
+        return NextResponse.json({ error: 'Title must be 100 characters or less' }, { status: 400 });
+      }
+      updates.title = body.title.trim();
+    }
+
+    if (body.content !== undefined) {
+      if (!body.content.trim()) {
+        return NextResponse.json({ error: 'Content is required' }, { status: 400 });
+      }
+      if (calculatePostcardLineCount(body.content.trim()) > POSTCARD_MAX_LINES) {
+        return NextResponse.json({ error: 'Content must fit within 6 postcard lines' }, { status: 400 });
+      }
+      updates.content = body.content.trim();
+    }
+
+    // A postcard's text is part of its document, so the edited card must
+    // still be a valid document
+    if (message.message_type === 'postcard' && (updates.title !== undefined || updates.content !== undefined)) {
+      const validation = validatePostcardDocument({
+        ...postcardDocumentFromMessage(message),
+        ...(updates.title !== undefined && { title: updates.title }),
+        ...(updates.content !== undefined && { text: updates.content })
+      });
+      if (!validation.isValid || !validation.document) {
+        return NextResponse.json({ error: validation.errors[0] }, { status: 400 });
+      }
+      if (updates.title !== undefined) updates.title = validation.document.title;
+      if (updates.content !== undefined) updates.content = validation.document.text;
+    }
+
+    if (body.schedule_time_zone !== undefined && body.scheduled_for === undefined) {
+      return NextResponse.json(
+        { error: 'scheduled_for is required when changing schedule_time_zone' },
+        { status: 400 }
+      );
+    }
+
+    if (body.scheduled_for !== undefined) {
+      const repository = getRepository();
+      const recipient = message.recipient_id
+        ? await repository.users.findById(message.recipient_id)
+        : null;
+
+      try {
+        const schedule = messageScheduler.resolveSchedule(
+          { scheduled_for: body.scheduled_for, time_zone: body.schedule_time_zone },
+          user,
+          recipient ?? { current_location: message.recipient_location }
+        );
+        updates.scheduled_for = schedule.scheduledFor;
+        updates.scheduled_timezone = schedule.timeZone;
+      } catch (error) {
+        if (error instanceof SchedulingError) {
+          return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+      }
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const updated = await messageScheduler.update(message.id, updates);
+    if (!updated) {
+      return NextResponse.json({ error: 'Message has already launched' }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: {
+        id: updated.id,
+        title: updated.title,
+        content: updated.content,
+        status: updated.status,
+        scheduled_for: updated.scheduled_for?.toISOString() ?? null,
+        scheduled_timezone: updated.scheduled_timezone ?? null
+      }
+    });
+
+  } catch (error) {
+    console.error('Error updating scheduled message:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/messages/scheduled/[id]
+ * Cancel a honk before it launches
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const message = await findOwnScheduled(params.id, authResult.user);
+    if (!message) {
+      return NextResponse.json({ error: 'Scheduled message not found' }, { status: 404 });
+    }
+
+    const cancelled = await messageScheduler.cancel(message.id);
+    if (!cancelled) {
+      return NextResponse.json({ error: 'Message has already launched' }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error cancelling scheduled message:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
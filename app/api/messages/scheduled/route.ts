@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/repository';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { messageScheduler } from '@/services/messageScheduler';
+
+/**
+ * GET /api/messages/scheduled
+ * List the user's honks that are waiting for their launch time
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = authResult.user;
+    const repository = getRepository();
+    const scheduled = await repository.messages.listScheduled(user.id);
+
+    const messages = await Promise.all(scheduled.map(async message => {
+      const recipient = message.recipient_id
+        ? await repository.users.findById(message.recipient_id)
+        : null;
+
+      return {
+        id: message.id,
+        title: message.title,
+        content: message.content,
+        message_type: message.message_type,
+        recipient_id: message.recipient_id,
+        recipient_username: recipient?.username || 'Someone',
+        created_at: message.created_at.toISOString(),
+        scheduled_for: message.scheduled_for?.toISOString() ?? null,
+        scheduled_timezone: message.scheduled_timezone ?? null
+      };
+    }));
+
+    return NextResponse.json({
+      messages,
+      can_schedule: messageScheduler.canSchedule(user)
+    });
+
+  } catch (error) {
+    console.error('Error fetching scheduled messages:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
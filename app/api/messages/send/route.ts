@@ -1,21 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { dbManager } from '@/lib/database';
+import { getRepository, HonkRepository } from '@/lib/repository';
 import { authMiddleware } from '@/lib/auth-middleware';
-import { MigrationRunner } from '@/lib/migrations';
 import { v4 as uuidv4 } from 'uuid';
 import { geolocationService } from '@/services/geolocation';
 import { tailwindAlgorithm } from '@/services/tailwindAlgorithm';
 import { flightEngine } from '@/services/flightEngine';
+import {
+  messageScheduler,
+  ResolvedSchedule,
+  ScheduleTimeZone,
+  SchedulingError
+} from '@/services/messageScheduler';
+import { canUseDeliveryTier, DEFAULT_DELIVERY_TIER, isDeliveryTier } from '@/services/deliveryTiers';
+import { postcardRenderer } from '@/services/postcardRenderer';
+import { draftService } from '@/services/drafts';
+import { rateLimitHeaders, rateLimitService, userSubject } from '@/services/rateLimit';
 import { calculatePostcardLineCount, POSTCARD_MAX_LINES } from '@/utils/postcard';
+import { postcardMessageFields, validatePostcardDocument } from '@/utils/postcardDocument';
+import { DeliveryTier, HonkMessage, PostcardDocument } from '@/types';
 
 interface SendMessageRequest {
-  title: string;
-  content: string;
+  title?: string; // Regular messages; postcards carry theirs in `postcard`
+  content?: string;
   locationSharing: 'state' | 'country' | 'anonymous';
   recipient_id?: string; // For replies
   reply_to_message_id?: string; // For conversation threading
   message_type?: 'regular' | 'postcard';
-  sticker_data?: any[]; // Sticker data for postcards
+  postcard?: unknown; // PostcardDocument; the only payload accepted for postcards
+  scheduled_for?: string; // ISO instant, or local time read in schedule_time_zone
+  schedule_time_zone?: ScheduleTimeZone; // Defaults to the recipient's
+  delivery_tier?: DeliveryTier; // priority/express need the matching rank reward
+  draft_id?: string; // Draft this was composed in; deleted once sent
 }
 
 /**
@@ -23,11 +38,6 @@ interface SendMessageRequest {
  */
 export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
-    // Initialize database and run migrations
-    const database = dbManager.connect();
-    const migrationRunner = new MigrationRunner(database);
-    migrationRunner.runMigrations();
-
     // Authenticate user
     const authResult = await authMiddleware(request);
     if (!authResult.success) {
@@ -35,32 +45,64 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     }
 
     const user = authResult.user!;
+
     const body: SendMessageRequest = await request.json();
 
-    // Validate input
-    if (!body.title?.trim() || !body.content?.trim()) {
-      return NextResponse.json(
-        { error: 'Title and content are required' },
-        { status: 400 }
-      );
+    // Validate input. Postcards arrive as a single PostcardDocument.
+    let postcard: PostcardDocument | undefined;
+    if (body.message_type === 'postcard') {
+      if (body.postcard === undefined) {
+        return NextResponse.json(
+          { error: 'Postcards must be sent as a postcard document' },
+          { status: 400 }
+        );
+      }
+
+      const validation = validatePostcardDocument(body.postcard);
+      if (!validation.isValid) {
+        return NextResponse.json({ error: validation.errors[0] }, { status: 400 });
+      }
+      postcard = validation.document;
+    } else {
+      if (!body.title?.trim() || !body.content?.trim()) {
+        return NextResponse.json(
+          { error: 'Title and content are required' },
+          { status: 400 }
+        );
+      }
+
+      if (body.title.length > 100) {
+        return NextResponse.json(
+          { error: 'Title must be 100 characters or less' },
+          { status: 400 }
+        );
+      }
+
+      const lineCount = calculatePostcardLineCount(body.content.trim());
+      if (lineCount > POSTCARD_MAX_LINES) {
+        return NextResponse.json(
+          { error: 'Content must fit within 6 postcard lines' },
+          { status: 400 }
+        );
+      }
     }
 
-    if (body.title.length > 100) {
+    const deliveryTier = body.delivery_tier ?? DEFAULT_DELIVERY_TIER;
+    if (!isDeliveryTier(deliveryTier)) {
       return NextResponse.json(
-        { error: 'Title must be 100 characters or less' },
+        { error: "delivery_tier must be 'standard', 'priority' or 'express'" },
         { status: 400 }
       );
     }
 
-    const lineCount = calculatePostcardLineCount(body.content.trim());
-    if (lineCount > POSTCARD_MAX_LINES) {
+    if (!canUseDeliveryTier(user, deliveryTier)) {
       return NextResponse.json(
-        { error: 'Content must fit within 6 postcard lines' },
-        { status: 400 }
+        { error: `${deliveryTier} delivery has not been unlocked at your rank` },
+        { status: 403 }
       );
     }
 
-    const db = database;
+    const repository = getRepository();
 
     // Get sender location: prefer client-provided location in the request body.
     // Avoid calling browser geolocation APIs on the server (navigator is undefined).
@@ -102,14 +144,8 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         // Fallback: if no eligible recipients, get any other user
         if (eligibleRecipients.length === 0) {
           console.log('No eligible recipients from Tailwind Algorithm, falling back to any user');
-          const fallbackStmt = db.prepare(`
-            SELECT * FROM users 
-            WHERE id != ? 
-            LIMIT 10
-          `);
-          
-          const fallbackRows = fallbackStmt.all(user.id);
-          if (fallbackRows.length === 0) {
+          const fallbackUsers = (await repository.users.listOthers(user.id)).slice(0, 10);
+          if (fallbackUsers.length === 0) {
             return NextResponse.json(
               { error: 'No other users available in the system. Please try again later.' },
               { status: 400 }
@@ -117,11 +153,9 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
           }
           
           // Pick a random user from available users
-          const randomUser = fallbackRows[Math.floor(Math.random() * fallbackRows.length)] as any;
+          const randomUser = fallbackUsers[Math.floor(Math.random() * fallbackUsers.length)];
           recipientId = randomUser.id;
-          recipientLocation = randomUser.current_location 
-            ? JSON.parse(randomUser.current_location) 
-            : null;
+          recipientLocation = randomUser.current_location ?? null;
         } else {
           const selectedRecipient = tailwindAlgorithm.selectWeightedRecipient(
             eligibleRecipients,
@@ -152,8 +186,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       }
     } else {
       // Get recipient location for direct messages/replies
-      const recipientStmt = db.prepare('SELECT current_location FROM users WHERE id = ?');
-      const recipient = recipientStmt.get(recipientId) as { current_location: string } | undefined;
+      const recipient = await repository.users.findById(recipientId);
       
       if (!recipient) {
         return NextResponse.json(
@@ -162,9 +195,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         );
       }
 
-      recipientLocation = recipient.current_location 
-        ? JSON.parse(recipient.current_location)
-        : null;
+      recipientLocation = recipient.current_location ?? null;
     }
 
     // Ensure we have a recipient
@@ -182,77 +213,107 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
+    // Scheduled honks wait on the ground until their launch time (rank-gated)
+    let schedule: ResolvedSchedule | null = null;
+    if (body.scheduled_for !== undefined) {
+      const scheduledRecipient = await repository.users.findById(recipientId);
+      try {
+        schedule = messageScheduler.resolveSchedule(
+          { scheduled_for: body.scheduled_for, time_zone: body.schedule_time_zone },
+          user,
+          scheduledRecipient ?? { current_location: recipientLocation }
+        );
+      } catch (error) {
+        if (error instanceof SchedulingError) {
+          return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+      }
+    }
+
+    // Only honks that are about to be sent count against the allowance
+    const rateLimit = await rateLimitService.consume('message.send', userSubject(user.id));
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many honks sent. Please wait before sending another.' },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
+
     // Create message
     const messageId = uuidv4();
     const now = new Date();
 
-    const messageData = {
+    const messageData: HonkMessage = {
       id: messageId,
       sender_id: user.id,
       recipient_id: recipientId,
-      title: body.title.trim(),
-      content: body.content.trim(),
+      title: body.title?.trim() ?? '',
+      content: body.content?.trim() ?? '',
       sender_location: processedSenderLocation,
       recipient_location: recipientLocation,
-      status: 'flying' as const, // All messages start as flying
+      status: schedule ? 'scheduled' : 'flying', // Unscheduled messages start as flying
       created_at: now,
       delivered_at: undefined, // Will be set when delivered
       journey_data: undefined,
       message_type: body.message_type || 'regular' as const,
-      sticker_data: body.sticker_data || []
+      sticker_data: [],
+      ...(postcard && postcardMessageFields(postcard)),
+      scheduled_for: schedule?.scheduledFor,
+      scheduled_timezone: schedule?.timeZone,
+      delivery_tier: deliveryTier
     };
 
     // Insert message
-    const insertMessageStmt = db.prepare(`
-      INSERT INTO messages (
-        id, sender_id, recipient_id, title, content,
-        sender_location, recipient_location, status, created_at,
-        delivered_at, message_type, sticker_data
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `);
-
-    const messageRow = dbManager.messageToRow(messageData);
-
     // Debug logging to help diagnose server-side errors when inserting messages
     console.log('Sending message - body:', {
-      title: body.title,
-      contentLength: body.content.length,
+      title: messageData.title,
+      contentLength: messageData.content.length,
       message_type: body.message_type,
-      sticker_count: Array.isArray(body.sticker_data) ? body.sticker_data.length : 0,
+      sticker_count: messageData.sticker_data.length,
+      stroke_count: postcard?.drawing.strokes.length ?? 0,
       recipientId,
-      status: messageData.status
+      status: messageData.status,
+      delivery_tier: deliveryTier
     });
-    console.log('Transformed messageRow:', messageRow);
 
     try {
-      insertMessageStmt.run(
-        messageRow.id,
-        messageRow.sender_id,
-        messageRow.recipient_id,
-        messageRow.title,
-        messageRow.content,
-        messageRow.sender_location,
-        messageRow.recipient_location,
-        messageRow.status,
-        messageRow.created_at,
-        messageRow.delivered_at,
-        messageRow.message_type,
-        messageRow.sticker_data
-      );
+      await repository.messages.create(messageData);
     } catch (dbError: any) {
       console.error('Database error when inserting message:', dbError);
       // Return a more descriptive error to the client for debugging (safe for dev)
       return NextResponse.json({ error: 'Database insert failed', details: dbError.message || String(dbError) }, { status: 500 });
     }
 
+    if (schedule) {
+      messageScheduler.arm(messageData);
+    }
+
+    if (body.draft_id) {
+      try {
+        await draftService.discard(body.draft_id, user.id);
+      } catch (draftError) {
+        console.error('Error deleting sent draft:', draftError);
+      }
+    }
+
+    // Draw the card now so the inbox and shared links show the real thing;
+    // the image route can still render it later if this fails
+    if (messageData.message_type === 'postcard') {
+      try {
+        await postcardRenderer.renderAndStore(messageData);
+      } catch (renderError) {
+        console.error('Error rendering postcard image:', renderError);
+      }
+    }
+
     // Handle conversation threading
     if (body.reply_to_message_id) {
-      await handleConversationThreading(db, messageId, body.reply_to_message_id, user.id, recipientId);
+      await handleConversationThreading(repository, messageId, body.reply_to_message_id, user.id, recipientId);
     }
 
     // Get recipient username for response
-    const recipientStmt = db.prepare('SELECT username FROM users WHERE id = ?');
-    const recipient = recipientStmt.get(recipientId) as { username: string } | undefined;
+    const recipient = await repository.users.findById(recipientId);
 
     // Start flight - TODO: Fix flight engine
     // await flightEngine.startFlight(messageId);
@@ -261,9 +322,14 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       success: true,
       message: {
         id: messageId,
-        status: 'flying',
+        status: messageData.status,
+        delivery_tier: deliveryTier,
         recipient_username: recipient?.username || 'Someone',
-        estimated_delivery: 'Flight in progress...'
+        estimated_delivery: schedule ? 'Waiting for takeoff...' : 'Flight in progress...',
+        ...(schedule && {
+          scheduled_for: schedule.scheduledFor.toISOString(),
+          scheduled_timezone: schedule.timeZone
+        })
       }
     });
 
@@ -277,54 +343,28 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 }
 
 async function handleConversationThreading(
-  db: any,
+  repository: HonkRepository,
   newMessageId: string,
   replyToMessageId: string,
   senderId: string,
   recipientId: string
 ) {
   // Find existing conversation between these users
-  const findConversationStmt = db.prepare(`
-    SELECT * FROM conversations 
-    WHERE (user1_id = ? AND user2_id = ?) OR (user1_id = ? AND user2_id = ?)
-  `);
-  
-  let conversation = findConversationStmt.get(senderId, recipientId, recipientId, senderId);
+  const conversation = await repository.conversations.findBetween(senderId, recipientId);
 
   if (conversation) {
     // Update existing conversation
-    const messageIds = JSON.parse(conversation.message_ids);
-    messageIds.push(newMessageId);
-    
-    const updateConversationStmt = db.prepare(`
-      UPDATE conversations 
-      SET message_ids = ?, last_message_at = ?
-      WHERE id = ?
-    `);
-    
-    updateConversationStmt.run(
-      JSON.stringify(messageIds),
-      new Date().toISOString(),
-      conversation.id
-    );
+    await repository.conversations.appendMessage(conversation.id, newMessageId, new Date());
   } else {
     // Create new conversation
-    const conversationId = uuidv4();
-    const messageIds = [replyToMessageId, newMessageId];
-    
-    const insertConversationStmt = db.prepare(`
-      INSERT INTO conversations (id, user1_id, user2_id, message_ids, created_at, last_message_at)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `);
-    
-    const now = new Date().toISOString();
-    insertConversationStmt.run(
-      conversationId,
-      senderId,
-      recipientId,
-      JSON.stringify(messageIds),
-      now,
-      now
-    );
+    const now = new Date();
+    await repository.conversations.create({
+      id: uuidv4(),
+      user1_id: senderId,
+      user2_id: recipientId,
+      message_ids: [replyToMessageId, newMessageId],
+      created_at: now,
+      last_message_at: now
+    });
   }
-}
\ No newline at end of file
+}
@@ -1,24 +1,19 @@
 import { NextResponse } from 'next/server';
-import { dbManager } from '@/lib/database';
-import { NotificationRecord } from '@/types';
+import { getRepository } from '@/lib/repository';
 
 export async function POST(request: Request) {
   try {
     const notification = await request.json();
-    const db = dbManager.getDatabase();
     
-    db.prepare(`
-      INSERT INTO notifications (id, user_id, type, title, body, metadata, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `).run(
-      notification.id,
-      notification.user_id,
-      notification.type,
-      notification.title,
-      notification.body,
-      notification.metadata ? JSON.stringify(notification.metadata) : null,
-      notification.created_at
-    );
+    await getRepository().notifications.create({
+      id: notification.id,
+      user_id: notification.user_id,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      metadata: notification.metadata,
+      created_at: new Date(notification.created_at)
+    });
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -36,13 +31,15 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: 'userId is required' }, { status: 400 });
     }
 
-    const db = dbManager.getDatabase();
-    const rows = db.prepare(`
-      SELECT * FROM notifications 
-      WHERE user_id = ? 
-      ORDER BY created_at DESC 
-      LIMIT 100
-    `).all(userId);
+    const notifications = await getRepository().notifications.listForUser(userId, 100);
+
+    // Keep the row shape the client hydrates from
+    const rows = notifications.map(notification => ({
+      ...notification,
+      metadata: notification.metadata ? JSON.stringify(notification.metadata) : null,
+      created_at: notification.created_at.toISOString(),
+      read_at: notification.read_at ? notification.read_at.toISOString() : null
+    }));
 
     return NextResponse.json(rows);
   } catch (error) {
@@ -54,13 +51,8 @@ export async function GET(request: Request) {
 export async function PUT(request: Request) {
   try {
     const { notificationId, readAt } = await request.json();
-    const db = dbManager.getDatabase();
-    
-    db.prepare(`
-      UPDATE notifications 
-      SET read_at = ? 
-      WHERE id = ?
-    `).run(readAt, notificationId);
+
+    await getRepository().notifications.markRead(notificationId, new Date(readAt));
 
     return NextResponse.json({ success: true });
   } catch (error) {
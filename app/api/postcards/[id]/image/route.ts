@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepository } from '@/lib/repository';
+import { postcardRenderer } from '@/services/postcardRenderer';
+
+/**
+ * GET /api/postcards/[id]/image
+ * Serve the rendered PNG of a postcard. Not authenticated so shared links
+ * work; postcard ids are unguessable. Cards sent before rendering existed
+ * are drawn on first request.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const repository = getRepository();
+    const postcard = await repository.postcards.findById(params.id);
+    if (!postcard) {
+      return NextResponse.json({ error: 'Postcard not found' }, { status: 404 });
+    }
+
+    let image = await repository.postcards.findImage(postcard.id);
+    if (!image) {
+      const message = await repository.messages.findById(postcard.message_id);
+      if (!message) {
+        return NextResponse.json({ error: 'Postcard not found' }, { status: 404 });
+      }
+      await postcardRenderer.renderAndStore(message);
+      image = await repository.postcards.findImage(postcard.id);
+    }
+    if (!image) {
+      return NextResponse.json({ error: 'Postcard image unavailable' }, { status: 500 });
+    }
+
+    return new NextResponse(new Uint8Array(image), {
+      headers: {
+        'Content-Type': 'image/png',
+        'Content-Length': String(image.length),
+        'Cache-Control': 'public, max-age=86400',
+        'X-Content-Type-Options': 'nosniff'
+      }
+    });
+
+  } catch (error) {
+    console.error('Error serving postcard image:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { ScrapbookError, ScrapbookInput, scrapbookService } from '@/services/scrapbook';
+
+type RouteContext = { params: { id: string } };
+
+function errorResponse(error: unknown, action: string): NextResponse {
+  if (error instanceof ScrapbookError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(`Error ${action} scrapbook entry:`, error);
+  return NextResponse.json(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+/**
+ * PATCH /api/scrapbook/[id]
+ * Retag or pin a saved honk
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: ScrapbookInput = await request.json();
+    const entry = await scrapbookService.update(params.id, authResult.user.id, body);
+
+    return NextResponse.json({ entry });
+
+  } catch (error) {
+    return errorResponse(error, 'updating');
+  }
+}
+
+/**
+ * DELETE /api/scrapbook/[id]
+ * Take a honk out of the scrapbook; it stays in the inbox
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await scrapbookService.remove(params.id, authResult.user.id);
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    return errorResponse(error, 'removing');
+  }
+}
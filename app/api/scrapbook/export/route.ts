@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { scrapbookService } from '@/services/scrapbook';
+
+/**
+ * GET /api/scrapbook/export
+ * Download the whole scrapbook as a JSON file
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const scrapbook = await scrapbookService.export(authResult.user.id);
+    const filename = `honk-scrapbook-${scrapbook.exported_at.slice(0, 10)}.json`;
+
+    return new NextResponse(JSON.stringify(scrapbook, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    });
+
+  } catch (error) {
+    console.error('Error exporting scrapbook:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
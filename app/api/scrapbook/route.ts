@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { ScrapbookError, scrapbookService } from '@/services/scrapbook';
+
+/**
+ * GET /api/scrapbook
+ * The user's saved honks, pinned first; `?tag=` narrows to one tag
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const tag = new URL(request.url).searchParams.get('tag');
+    const entries = await scrapbookService.list(authResult.user.id, tag);
+
+    return NextResponse.json({ entries });
+
+  } catch (error) {
+    console.error('Error fetching scrapbook:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/scrapbook
+ * Save a delivered honk to the scrapbook
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: { messageId?: unknown } = await request.json();
+    const { entry, created } = await scrapbookService.add(authResult.user.id, body.messageId);
+
+    return NextResponse.json({ entry }, { status: created ? 201 : 200 });
+
+  } catch (error) {
+    if (error instanceof ScrapbookError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error saving to scrapbook:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
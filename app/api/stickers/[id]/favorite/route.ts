@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { StickerError, stickerService } from '@/services/stickers';
+
+/**
+ * POST /api/stickers/[id]/favorite
+ * Add a shared sticker to the user's favorites
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await stickerService.favorite(params.id, authResult.user.id);
+
+    return NextResponse.json({ success: true, favorited: true });
+
+  } catch (error) {
+    if (error instanceof StickerError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error favoriting sticker:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/stickers/[id]/favorite
+ * Drop a sticker from the user's favorites
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await stickerService.unfavorite(params.id, authResult.user.id);
+
+    return NextResponse.json({ success: true, favorited: false });
+
+  } catch (error) {
+    console.error('Error unfavoriting sticker:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { stickerService } from '@/services/stickers';
+
+/**
+ * GET /api/stickers/[id]/image
+ * Serve a stored sticker image. Not authenticated: stickers placed on a
+ * postcard have to render for the recipient too, and ids are unguessable.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const image = await stickerService.getImage(params.id);
+    if (!image) {
+      return NextResponse.json({ error: 'Sticker not found' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(image.data), {
+      headers: {
+        'Content-Type': image.mime_type,
+        'Content-Length': String(image.data.length),
+        // Sticker images never change once uploaded
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff'
+      }
+    });
+
+  } catch (error) {
+    console.error('Error serving sticker image:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { StickerError, stickerService } from '@/services/stickers';
+
+/**
+ * DELETE /api/stickers/[id]
+ * Remove one of the user's stickers from the library
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await stickerService.delete(params.id, authResult.user.id);
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof StickerError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error deleting sticker:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { StickerError, stickerService, StickerUpload, toStickerSummary } from '@/services/stickers';
+
+type StickerScope = 'mine' | 'favorites' | 'public';
+
+const SCOPES: StickerScope[] = ['mine', 'favorites', 'public'];
+
+/**
+ * GET /api/stickers?scope=mine|favorites|public
+ * The user's own stickers, the ones they favorited, or a page of the
+ * shared public library
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const scope = SCOPES.find(candidate => candidate === (searchParams.get('scope') || 'mine'));
+    if (!scope) {
+      return NextResponse.json({ error: "scope must be 'mine', 'favorites' or 'public'" }, { status: 400 });
+    }
+
+    const userId = authResult.user.id;
+
+    if (scope === 'public') {
+      const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+      const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '50') || 50));
+      const { items, total } = await stickerService.listPublic(userId, limit, (page - 1) * limit);
+
+      return NextResponse.json({
+        stickers: items.map(toStickerSummary),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+          hasNext: page * limit < total,
+          hasPrev: page > 1
+        }
+      });
+    }
+
+    const stickers = scope === 'mine'
+      ? await stickerService.listMine(userId)
+      : await stickerService.listFavorites(userId);
+
+    return NextResponse.json({ stickers: stickers.map(toStickerSummary) });
+
+  } catch (error) {
+    console.error('Error fetching stickers:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/stickers
+ * Upload a sticker image (data URL), optionally sharing it publicly
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: StickerUpload = await request.json();
+    const sticker = await stickerService.upload(authResult.user.id, body);
+
+    return NextResponse.json({ sticker: toStickerSummary(sticker) }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof StickerError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error uploading sticker:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
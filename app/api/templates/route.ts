@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { postcardTemplateService } from '@/services/postcardTemplates';
+
+/**
+ * GET /api/templates
+ * Postcard template collections in season today. Premium templates come
+ * back locked until the user's rank unlocks premium postcards.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const collections = postcardTemplateService.listAvailable(authResult.user);
+
+    return NextResponse.json({ collections });
+
+  } catch (error) {
+    console.error('Error fetching postcard templates:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
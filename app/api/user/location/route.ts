@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { dbManager } from '@/lib/database';
+import { getRepository } from '@/lib/repository';
 import { authMiddleware } from '@/lib/auth-middleware';
-import { MigrationRunner } from '@/lib/migrations';
 import { LocationData } from '@/types';
+import { isValidTimeZone } from '@/utils/timezone';
 
 interface UpdateLocationRequest {
   userId: string;
   location: LocationData;
+  time_zone?: string; // IANA zone from the device, used for scheduled honks
 }
 
 /**
@@ -14,10 +15,6 @@ interface UpdateLocationRequest {
  */
 export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
-    // Initialize database and run migrations
-    const migrationRunner = new MigrationRunner(dbManager.getDatabase());
-    await migrationRunner.runMigrations();
-
     // Authenticate user
     const authResult = await authMiddleware(request);
     if (!authResult.success) {
@@ -37,20 +34,16 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       return NextResponse.json({ error: 'Invalid location data' }, { status: 400 });
     }
 
-    const db = dbManager.getDatabase();
+    if (body.time_zone !== undefined && (typeof body.time_zone !== 'string' || !isValidTimeZone(body.time_zone))) {
+      return NextResponse.json({ error: 'Invalid time zone' }, { status: 400 });
+    }
 
     // Update user's current location
-    const updateStmt = db.prepare(`
-      UPDATE users 
-      SET current_location = ?, updated_at = ?
-      WHERE id = ?
-    `);
-
-    updateStmt.run(
-      JSON.stringify(body.location),
-      new Date().toISOString(),
-      user.id
-    );
+    await getRepository().users.update(user.id, {
+      current_location: body.location,
+      last_active: new Date(),
+      ...(body.time_zone && { time_zone: body.time_zone })
+    });
 
     return NextResponse.json({
       success: true,
@@ -1,15 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { RankingService } from '@/services/ranking';
-import { dbManager } from '@/lib/database';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Connect to database
-    dbManager.connect();
-
     const userId = params.id;
     
     if (!userId) {
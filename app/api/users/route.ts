@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { dbManager } from '@/lib/database';
+import { getRepository } from '@/lib/repository';
 import { authMiddleware } from '@/lib/auth-middleware';
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
@@ -11,17 +11,14 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     }
 
     const user = authResult.user!;
-    const db = dbManager.getDatabase();
     
     // Get all users except the current user
-    const stmt = db.prepare(`
-      SELECT id, username, created_at
-      FROM users
-      WHERE id != ?
-      ORDER BY username ASC
-    `);
-    
-    const users = stmt.all(user.id);
+    const others = await getRepository().users.listOthers(user.id);
+    const users = others.map(other => ({
+      id: other.id,
+      username: other.username,
+      created_at: other.created_at
+    }));
 
     return NextResponse.json({
       success: true,
@@ -14,7 +14,7 @@ interface WebSocketMessage {
 }
 
 interface WebSocketResponse {
-  type: 'flight.progress' | 'flight.delivered' | 'error' | 'pong' | 'subscribed' | 'unsubscribed';
+  type: 'flight.progress' | 'flight.delivered' | 'flight.failed' | 'error' | 'pong' | 'subscribed' | 'unsubscribed';
   messageId?: string;
   data?: unknown;
   error?: string;
@@ -148,8 +148,21 @@ function handleFlightSubscription(connectionId: string, messageId: string, userI
   // Add to subscribed flights
   connection.subscribedFlights.add(messageId);
 
-  // Register flight progress callback
+  // Register flight progress callback; holds, resumes and reroutes arrive as progress
   flightEngine.onFlightProgress(messageId, (progress: FlightProgress) => {
+    if (progress.status === 'failed') {
+      sendMessage(connectionId, {
+        type: 'flight.failed',
+        messageId,
+        data: progress
+      });
+
+      // Nothing more to follow once the honk is on its way home
+      connection.subscribedFlights.delete(messageId);
+      flightEngine.removeFlightCallback(messageId);
+      return;
+    }
+
     sendMessage(connectionId, {
       type: 'flight.progress',
       messageId,
@@ -1,15 +1,62 @@
 'use client';
 
-import React from 'react';
+import React, { useCallback } from 'react';
 import Link from 'next/link';
 import { useAuth } from '@/hooks/useAuth';
 import { ComposeHonkExample } from '@/components/messaging/ComposeHonkExample';
+import { RoutePreview } from '@/types';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft } from 'lucide-react';
+import Cookies from 'js-cookie';
 
 export default function ComposePage() {
   const { user, loading } = useAuth();
 
+  const resolveAuthToken = useCallback(() => {
+    const tokenFromCookie = typeof document !== 'undefined' ? Cookies.get('honk_auth_token') : undefined;
+    if (tokenFromCookie && tokenFromCookie.trim()) {
+      return tokenFromCookie;
+    }
+
+    if (typeof window !== 'undefined') {
+      const tokenFromStorage = window.localStorage.getItem('auth_token');
+      if (tokenFromStorage && tokenFromStorage.trim()) {
+        return tokenFromStorage;
+      }
+    }
+
+    return null;
+  }, []);
+
+  const handlePreviewHonk = async (): Promise<RoutePreview | null> => {
+    const token = resolveAuthToken();
+    if (!token) {
+      return null;
+    }
+
+    // No recipient yet: the preview picks one, and the honk is then sent to them
+    const response = await fetch('/api/flights/preview', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({}),
+    });
+
+    // Previews are a Veteran Voyager reward; everyone else sends straight away
+    if (response.status === 403) {
+      return null;
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to preview route');
+    }
+
+    return response.json();
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -40,6 +87,9 @@ export default function ComposePage() {
           
           <div className="flex items-center space-x-4">
             <span className="text-gray-700">Welcome, {displayName}!</span>
+            <Link href="/drafts">
+              <Button variant="ghost">Drafts</Button>
+            </Link>
             <Link href="/profile">
               <Button variant="outline">Profile</Button>
             </Link>
@@ -48,7 +98,7 @@ export default function ComposePage() {
 
         {/* Main Content */}
         <main>
-          <ComposeHonkExample />
+          <ComposeHonkExample onPreview={handlePreviewHonk} />
         </main>
       </div>
     </div>
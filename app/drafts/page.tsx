@@ -0,0 +1,43 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/hooks/useAuth';
+import { DraftList } from '@/components/messaging/DraftList';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+
+export default function DraftsPage() {
+  const { loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <header className="flex items-center space-x-4 mb-8">
+          <Link href="/compose">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Compose
+            </Button>
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">📝 Drafts</h1>
+        </header>
+
+        <main>
+          <DraftList />
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,8 @@ import type { Metadata } from 'next';
 import FileRouter from '@/components/FileRouter';
 import { Geist, Geist_Mono } from 'next/font/google';
 import { AuthProvider } from '@/contexts/AuthContext';
+import { RecoveryCodesNotice } from '@/components/RecoveryCodesNotice';
+import { DeviceSignedOutNotice } from '@/components/DeviceSignedOutNotice';
 import './globals.css';
 
 const geistSans = Geist({
@@ -31,6 +33,8 @@ export default function RootLayout({
       >
         <AuthProvider>
           <FileRouter>{children}</FileRouter>
+          <RecoveryCodesNotice />
+          <DeviceSignedOutNotice />
         </AuthProvider>
       </body>
     </html>
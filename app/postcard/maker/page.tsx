@@ -0,0 +1,18 @@
+'use client';
+
+import React, { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { PostcardMaker } from '@/components/PostcardMaker';
+
+function PostcardMakerContent() {
+  const searchParams = useSearchParams();
+  return <PostcardMaker draftId={searchParams.get('draft') ?? undefined} />;
+}
+
+export default function PostcardMakerPage() {
+  return (
+    <Suspense fallback={null}>
+      <PostcardMakerContent />
+    </Suspense>
+  );
+}
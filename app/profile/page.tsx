@@ -3,6 +3,7 @@
 import React from 'react';
 import { useRequireAuth } from '@/hooks/useRequireAuth';
 import { UserProfileForm } from '@/components/forms/UserProfileForm';
+import { RecoveryCodesCard } from '@/components/forms/RecoveryCodesCard';
 
 export default function ProfilePage() {
   const { user, loading } = useRequireAuth();
@@ -33,6 +34,7 @@ export default function ProfilePage() {
         </div>
         
         <UserProfileForm />
+        <RecoveryCodesCard />
       </div>
     </div>
   );
@@ -0,0 +1,85 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ArrowLeft } from 'lucide-react';
+
+export default function RecoverPage() {
+  const { recoverAccount } = useAuth();
+  const router = useRouter();
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    const result = await recoverAccount(code);
+    if (result.success) {
+      router.push('/inbox');
+      return;
+    }
+
+    setError(result.message || 'Failed to recover account');
+    setLoading(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="container mx-auto px-4 py-8 max-w-xl">
+        <header className="flex items-center space-x-4 mb-8">
+          <Link href="/">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">🔑 Recover Account</h1>
+        </header>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Use a recovery code</CardTitle>
+            <CardDescription>
+              Enter one of the codes you saved when your account was created. Each code works once.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="recovery-code">Recovery code</Label>
+                <Input
+                  id="recovery-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="ABCDE-FGHJK"
+                  autoComplete="one-time-code"
+                  autoCapitalize="characters"
+                />
+              </div>
+
+              <Button type="submit" className="w-full" disabled={loading || !code.trim()}>
+                {loading ? 'Recovering...' : 'Recover Account'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
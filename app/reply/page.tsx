@@ -5,7 +5,8 @@ import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '@/hooks/useAuth';
 import { ReplyCompose } from '@/components/messaging/ReplyCompose';
-import { HonkMessage } from '@/types';
+import { SaveToScrapbookButton } from '@/components/messaging/SaveToScrapbookButton';
+import { HonkMessage, RoutePreview } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { ArrowLeft, Loader2 } from 'lucide-react';
@@ -34,6 +35,7 @@ function ReplyPageContent() {
 
   const replyToId = searchParams.get('reply_to');
   const recipientId = searchParams.get('recipient_id');
+  const draftId = searchParams.get('draft') ?? undefined;
 
   const resolveAuthToken = useCallback(() => {
     const tokenFromCookie = typeof document !== 'undefined' ? Cookies.get('honk_auth_token') : undefined;
@@ -100,6 +102,7 @@ function ReplyPageContent() {
     locationSharing: 'state' | 'country' | 'anonymous';
     recipient_id: string;
     reply_to_message_id: string;
+    draft_id?: string;
   }) => {
     setSending(true);
     try {
@@ -132,6 +135,34 @@ function ReplyPageContent() {
     }
   };
 
+  const handlePreviewReply = async (replyData: { recipient_id: string }): Promise<RoutePreview | null> => {
+    const token = resolveAuthToken();
+    if (!token) {
+      return null;
+    }
+
+    const response = await fetch('/api/flights/preview', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ recipient_id: replyData.recipient_id }),
+    });
+
+    // Previews are a Veteran Voyager reward; everyone else sends straight away
+    if (response.status === 403) {
+      return null;
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to preview route');
+    }
+
+    return response.json();
+  };
+
   const handleCancel = () => {
     window.history.back();
   };
@@ -225,11 +256,19 @@ function ReplyPageContent() {
             We&apos;re still assigning your courier ID. Replies will send automatically once your token is ready.
           </div>
         )}
+        {user && originalMessage.recipient_id === user.id && originalMessage.status === 'delivered' && (
+          <div className="mb-4 flex justify-end">
+            <SaveToScrapbookButton messageId={originalMessage.id} />
+          </div>
+        )}
         <ReplyCompose
           originalMessage={originalMessage}
           onSend={handleSendReply}
+          onPreview={handlePreviewReply}
           onCancel={handleCancel}
           isLoading={sending}
+          autosave
+          draftId={draftId}
         />
       </div>
     </div>
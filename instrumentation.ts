@@ -0,0 +1,21 @@
+/**
+ * Next.js server startup hook.
+ * Resumes flights persisted before the last shutdown, re-arms scheduled
+ * honks and delivers honks whose flight landed before delivery completed,
+ * so none of them are lost across restarts.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { flightEngine } = await import('@/services/flightEngine');
+  await flightEngine.restoreFlights();
+
+  const { messageScheduler } = await import('@/services/messageScheduler');
+  await messageScheduler.restoreScheduled();
+
+  // Flights are checkpointed as delivered before the message is handed over
+  const { messageDeliveryService } = await import('@/services/messageDelivery');
+  await messageDeliveryService.processPendingDeliveries();
+}
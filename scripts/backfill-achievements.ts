@@ -0,0 +1,21 @@
+#!/usr/bin/env tsx
+
+import { achievementService } from '../src/services/achievements';
+
+/**
+ * Unlock achievements already earned by existing delivery history. Safe to
+ * re-run: achievements that were already unlocked are skipped.
+ */
+async function backfillAchievements() {
+  console.log('🏆 Backfilling achievements...\n');
+
+  try {
+    const unlocks = await achievementService.backfill();
+    console.log(`✅ Unlocked ${unlocks.length} achievement${unlocks.length === 1 ? '' : 's'}`);
+  } catch (error) {
+    console.error('❌ Backfill failed:', error);
+    process.exit(1);
+  }
+}
+
+backfillAchievements();
@@ -1,7 +1,7 @@
 "use client"
 
-import { useState, useRef, useMemo } from "react"
-import { PaintbrushIcon, PencilIcon, X, RotateCcw, ChevronUp, ChevronDown, InboxIcon, StickerIcon, Send } from "lucide-react"
+import { useState, useRef, useMemo, useReducer } from "react"
+import { PaintbrushIcon, PencilIcon, X, RotateCcw, RotateCw, ChevronUp, ChevronDown, InboxIcon, StickerIcon, Send, Download, Upload, LayoutTemplate } from "lucide-react"
 import { useRouter } from 'next/navigation'
 import Cookies from 'js-cookie'
 import ParallaxCanvas from "@/components/ParallaxCanvas"
@@ -9,11 +9,21 @@ import { StickerPalette } from "@/components/StickerPalette"
 import { DraggableResizableSticker } from "@/components/DraggableResizableSticker"
 import { ColorWheelPicker } from "@/components/ColorWheelPicker"
 import { useAuth } from '@/hooks/useAuth'
-
-interface DrawingPoint {
-  x: number
-  y: number
-}
+import { PostcardDrawingCanvas } from "@/components/PostcardDrawingCanvas"
+import { PostcardTemplatePicker } from "@/components/PostcardTemplatePicker"
+import { PostcardDocument, PostcardDrawing } from '@/types'
+import { POSTCARD_FONTS, POSTCARD_HEIGHT, POSTCARD_WIDTH } from '@/utils/postcard'
+import {
+  exportPostcardDocument,
+  importPostcardDocument,
+  POSTCARD_DOCUMENT_VERSION
+} from '@/utils/postcardDocument'
+import {
+  EMPTY_DRAWING_HISTORY,
+  POSTCARD_DRAWING_VERSION,
+  postcardDrawingReducer
+} from '@/utils/postcardDrawing'
+import { postcardDocumentFromTemplate } from '@/utils/postcardTemplates'
 
 interface PlacedSticker {
   id: string
@@ -54,12 +64,17 @@ export default function AnimalCrossingPostcard() {
   const { user } = useAuth()
   const [selectedTool, setSelectedTool] = useState<string>("keyboard")
   const [message, setMessage] = useState("")
+  // Title, background and font come from the template or file the card was loaded from
+  const [cardStyle, setCardStyle] = useState<Pick<PostcardDocument, 'title' | 'background' | 'font'>>({
+    title: 'Journal Entry',
+    background: 'paper'
+  })
+  const [showTemplates, setShowTemplates] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
-  const canvasRef = useRef<HTMLCanvasElement>(null)
   const [isDrawing, setIsDrawing] = useState(false)
   const [currentColor, setCurrentColor] = useState("#000000")
-  const [lastPoint, setLastPoint] = useState<DrawingPoint | null>(null)
-  const [drawingHistory, setDrawingHistory] = useState<string[]>([]) // Stack for undo
+  // Strokes in postcard coordinates, plus what has been undone for redo
+  const [drawingHistory, dispatchDrawing] = useReducer(postcardDrawingReducer, EMPTY_DRAWING_HISTORY)
   const [brushWidth, setBrushWidth] = useState(4) // Brush width control
   const [showStickerPalette, setShowStickerPalette] = useState(false)
   const [placedStickers, setPlacedStickers] = useState<PlacedSticker[]>([])
@@ -77,105 +92,45 @@ export default function AnimalCrossingPostcard() {
     initialY?: number
   } | null>(null)
   const postcardRef = useRef<HTMLDivElement>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
   const courierId = useMemo(() => user?.username ?? 'Courier', [user])
 
-  // Improved drawing functionality with smoothing
+  const drawing = useMemo<PostcardDrawing>(
+    () => ({ version: POSTCARD_DRAWING_VERSION, strokes: drawingHistory.strokes }),
+    [drawingHistory.strokes]
+  )
+
+  // Map a pointer position to postcard coordinates
+  const toPostcardPoint = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return {
+      x: Math.round((e.clientX - rect.left) * POSTCARD_WIDTH / rect.width * 100) / 100,
+      y: Math.round((e.clientY - rect.top) * POSTCARD_HEIGHT / rect.height * 100) / 100
+    }
+  }
+
   const startDrawing = (e: React.MouseEvent<HTMLCanvasElement>) => {
     if (selectedTool === "keyboard" || isInteractingWithSticker) return
-    
-    const canvas = canvasRef.current
-    if (!canvas) return
-
-    const rect = canvas.getBoundingClientRect()
-    const scaleX = canvas.width / rect.width
-    const scaleY = canvas.height / rect.height
-    const x = (e.clientX - rect.left) * scaleX
-    const y = (e.clientY - rect.top) * scaleY
 
     setIsDrawing(true)
-    setLastPoint({ x, y })
-    
-    const ctx = canvas.getContext('2d')
-    if (ctx) {
-      ctx.beginPath()
-      ctx.moveTo(x, y)
-      ctx.strokeStyle = currentColor
-      ctx.lineWidth = brushWidth // Use dynamic brush width
-      ctx.lineCap = 'round'
-      ctx.lineJoin = 'round'
-      ctx.globalAlpha = 0.9
-    }
+    dispatchDrawing({
+      type: 'begin',
+      stroke: {
+        tool: selectedTool === "eraser" ? 'eraser' : 'pen',
+        color: currentColor,
+        width: brushWidth,
+        points: [toPostcardPoint(e)]
+      }
+    })
   }
 
   const draw = (e: React.MouseEvent<HTMLCanvasElement>) => {
     if (!isDrawing || selectedTool === "keyboard" || isInteractingWithSticker) return
-    
-    const canvas = canvasRef.current
-    if (!canvas || !lastPoint) return
-
-    const rect = canvas.getBoundingClientRect()
-    const scaleX = canvas.width / rect.width
-    const scaleY = canvas.height / rect.height
-    const x = (e.clientX - rect.left) * scaleX
-    const y = (e.clientY - rect.top) * scaleY
-
-    const ctx = canvas.getContext('2d')
-    if (ctx) {
-      // Draw smooth line using quadratic curve
-      ctx.quadraticCurveTo(lastPoint.x, lastPoint.y, (x + lastPoint.x) / 2, (y + lastPoint.y) / 2)
-      ctx.stroke()
-      setLastPoint({ x, y })
-    }
+    dispatchDrawing({ type: 'extend', point: toPostcardPoint(e) })
   }
 
   const stopDrawing = () => {
-    if (isDrawing && canvasRef.current) {
-      // Save canvas state to history when done drawing
-      const canvas = canvasRef.current
-      const dataUrl = canvas.toDataURL()
-      setDrawingHistory(prev => [...prev, dataUrl])
-    }
     setIsDrawing(false)
-    setLastPoint(null)
-  }
-
-  const clearCanvas = () => {
-    const canvas = canvasRef.current
-    if (!canvas) return
-    const ctx = canvas.getContext('2d')
-    if (ctx) {
-      ctx.clearRect(0, 0, canvas.width, canvas.height)
-    }
-  }
-
-  const undoLastAction = () => {
-    if (drawingHistory.length === 0) {
-      clearCanvas()
-      return
-    }
-
-    const canvas = canvasRef.current
-    if (!canvas) return
-    
-    const ctx = canvas.getContext('2d')
-    if (!ctx) return
-
-    // Remove the last action
-    const newHistory = [...drawingHistory]
-    newHistory.pop()
-    setDrawingHistory(newHistory)
-
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height)
-
-    // Redraw from history
-    if (newHistory.length > 0) {
-      const img = new Image()
-      img.src = newHistory[newHistory.length - 1]
-      img.onload = () => {
-        ctx.drawImage(img, 0, 0)
-      }
-    }
   }
 
   const handleToolClick = (tool: string, color?: string) => {
@@ -244,6 +199,75 @@ export default function AnimalCrossingPostcard() {
     ))
   }
 
+  // The compose state as a postcard document. The server renders the card,
+  // so stickers go in postcard coordinates rather than on-screen pixels.
+  const toDocument = (): PostcardDocument => {
+    const containerWidth = postcardRef.current?.offsetWidth || 1200
+    const containerHeight = postcardRef.current?.offsetHeight || 400
+    return {
+      version: POSTCARD_DOCUMENT_VERSION,
+      ...cardStyle,
+      text: message.trim(),
+      stickers: placedStickers.map(sticker => ({
+        id: sticker.id,
+        name: sticker.type === 'emoji' ? sticker.content : 'Sticker',
+        ...(sticker.type === 'emoji' ? { emoji: sticker.content } : { imageUrl: sticker.content }),
+        type: 'user',
+        x: (sticker.x + sticker.width / 2) * POSTCARD_WIDTH / containerWidth,
+        y: (sticker.y + sticker.height / 2) * POSTCARD_HEIGHT / containerHeight,
+        size: Math.max(sticker.width * POSTCARD_WIDTH / containerWidth, sticker.height * POSTCARD_HEIGHT / containerHeight),
+        rotation: 0,
+        scale: 1
+      })),
+      drawing
+    }
+  }
+
+  const loadDocument = (postcard: PostcardDocument) => {
+    const containerWidth = postcardRef.current?.offsetWidth || 1200
+    const containerHeight = postcardRef.current?.offsetHeight || 400
+    setMessage(postcard.text)
+    setCardStyle({ title: postcard.title, background: postcard.background, font: postcard.font })
+    dispatchDrawing({ type: 'load', drawing: postcard.drawing })
+    setPlacedStickers(postcard.stickers.map(sticker => {
+      const width = sticker.size * sticker.scale * containerWidth / POSTCARD_WIDTH
+      const height = sticker.size * sticker.scale * containerHeight / POSTCARD_HEIGHT
+      return {
+        id: sticker.id,
+        content: sticker.emoji ?? sticker.imageUrl ?? '',
+        type: sticker.emoji ? 'emoji' as const : 'image' as const,
+        x: sticker.x * containerWidth / POSTCARD_WIDTH - width / 2,
+        y: sticker.y * containerHeight / POSTCARD_HEIGHT - height / 2,
+        width,
+        height
+      }
+    }))
+    setSelectedSticker(null)
+  }
+
+  const handleExport = () => {
+    const blob = new Blob([exportPostcardDocument(toDocument())], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'postcard.json'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const result = importPostcardDocument(await file.text())
+    if (!result.isValid || !result.document) {
+      alert(`Could not import postcard: ${result.errors[0]}`)
+      return
+    }
+    loadDocument(result.document)
+  }
+
   const handleSendPostcard = async () => {
     if (!message.trim()) {
       alert('Please write a message before sending your postcard!')
@@ -259,10 +283,6 @@ export default function AnimalCrossingPostcard() {
         return
       }
 
-      // Get canvas data
-      const canvas = canvasRef.current
-      const canvasData = canvas?.toDataURL('image/png') || null
-
       const response = await fetch('/api/messages/send', {
         method: 'POST',
         headers: {
@@ -270,11 +290,9 @@ export default function AnimalCrossingPostcard() {
           'Authorization': `Bearer ${authToken}`,
         },
         body: JSON.stringify({
-          title: 'Journal Entry',
-          content: message.trim(),
           locationSharing: 'state',
           message_type: 'postcard',
-          canvas_data: canvasData
+          postcard: toDocument()
         }),
       })
 
@@ -285,8 +303,8 @@ export default function AnimalCrossingPostcard() {
 
       // Success! Clear the form
       setMessage("")
-      clearCanvas()
-      setDrawingHistory([])
+      dispatchDrawing({ type: 'clear' })
+      setPlacedStickers([])
 
       // Navigate to inbox
       router.push('/inbox')
@@ -335,14 +353,23 @@ export default function AnimalCrossingPostcard() {
         </div>
         {/* Top toolbar - cute and compact */}
         <div className="bg-journal-paper/95 backdrop-blur-sm px-6 py-3 rounded-full border-4 border-white shadow-lg flex items-center gap-3">
-          {/* Undo button */}
+          {/* Undo and redo buttons */}
           <button 
-            onClick={undoLastAction}
-            className="w-10 h-10 rounded-full bg-white hover:bg-journal-button-light border-2 border-journal-accent/30 flex items-center justify-center hover:scale-110 transition-all"
+            onClick={() => dispatchDrawing({ type: 'undo' })}
+            disabled={drawingHistory.strokes.length === 0}
+            className="w-10 h-10 rounded-full bg-white hover:bg-journal-button-light border-2 border-journal-accent/30 flex items-center justify-center hover:scale-110 transition-all disabled:opacity-40 disabled:hover:scale-100"
             title="Undo"
           >
             <RotateCcw className="w-4 h-4 text-journal-accent" />
           </button>
+          <button 
+            onClick={() => dispatchDrawing({ type: 'redo' })}
+            disabled={drawingHistory.undone.length === 0}
+            className="w-10 h-10 rounded-full bg-white hover:bg-journal-button-light border-2 border-journal-accent/30 flex items-center justify-center hover:scale-110 transition-all disabled:opacity-40 disabled:hover:scale-100"
+            title="Redo"
+          >
+            <RotateCw className="w-4 h-4 text-journal-accent" />
+          </button>
 
           <div className="w-px h-8 bg-journal-accent/20" /> {/* Divider */}
 
@@ -455,6 +482,39 @@ export default function AnimalCrossingPostcard() {
 
           <div className="w-px h-8 bg-journal-accent/20" /> {/* Divider */}
 
+          <button
+            onClick={() => setShowTemplates(true)}
+            className="w-10 h-10 rounded-full bg-white hover:bg-journal-button-light border-2 border-journal-accent/30 flex items-center justify-center hover:scale-110 transition-all"
+            title="Start from a template"
+          >
+            <LayoutTemplate className="w-4 h-4 text-journal-accent" />
+          </button>
+
+          {/* Import and export the postcard as a JSON document */}
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="w-10 h-10 rounded-full bg-white hover:bg-journal-button-light border-2 border-journal-accent/30 flex items-center justify-center hover:scale-110 transition-all"
+            title="Import postcard"
+          >
+            <Upload className="w-4 h-4 text-journal-accent" />
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImport}
+          />
+          <button
+            onClick={handleExport}
+            className="w-10 h-10 rounded-full bg-white hover:bg-journal-button-light border-2 border-journal-accent/30 flex items-center justify-center hover:scale-110 transition-all"
+            title="Export postcard"
+          >
+            <Download className="w-4 h-4 text-journal-accent" />
+          </button>
+
+          <div className="w-px h-8 bg-journal-accent/20" /> {/* Divider */}
+
           {/* Sticker button */}
           <button
             onClick={() => setShowStickerPalette(!showStickerPalette)}
@@ -518,10 +578,8 @@ export default function AnimalCrossingPostcard() {
                 }
               }}
             >
-              <canvas
-                ref={canvasRef}
-                width={1200}
-                height={400}
+              <PostcardDrawingCanvas
+                drawing={drawing}
                 onMouseDown={startDrawing}
                 onMouseMove={draw}
                 onMouseUp={stopDrawing}
@@ -572,7 +630,7 @@ export default function AnimalCrossingPostcard() {
                   onChange={(e) => setMessage(e.target.value)}
                   placeholder="Write your message here..."
                   className="w-full bg-transparent text-3xl leading-relaxed font-black text-primary resize-none outline-none border-none text-center"
-                  style={{ fontFamily: "'SL Minoel', inherit", color: '#666', maxHeight: 'calc(1.5em * 6)' }}
+                  style={{ fontFamily: cardStyle.font ? POSTCARD_FONTS[cardStyle.font].family : "'SL Minoel', inherit", color: '#666', maxHeight: 'calc(1.5em * 6)' }}
                   rows={6}
                 />
               </div>
@@ -607,6 +665,15 @@ export default function AnimalCrossingPostcard() {
         onToggle={() => setShowStickerPalette(!showStickerPalette)}
         onDragStart={handleStickerDragStart}
       />
+
+      <PostcardTemplatePicker
+        isOpen={showTemplates}
+        onClose={() => setShowTemplates(false)}
+        onSelect={template => {
+          loadDocument(postcardDocumentFromTemplate(template))
+          setShowTemplates(false)
+        }}
+      />
     </div>
   )
 }
@@ -0,0 +1,66 @@
+'use client';
+
+import React, { useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { MacWindow } from './MacWindow';
+import { MacButton } from './MacButton';
+import { useAuth } from '@/hooks/useAuth';
+
+/**
+ * Shown when this browser's device was removed from its account, so the
+ * courier decides between recovering that account and starting over
+ */
+export function DeviceSignedOutNotice() {
+  const { deviceSignedOut, startNewAccount } = useAuth();
+  const pathname = usePathname();
+  const router = useRouter();
+  const [starting, setStarting] = useState(false);
+
+  if (!deviceSignedOut || pathname === '/recover') return null;
+
+  const handleStartOver = async () => {
+    setStarting(true);
+    await startNewAccount();
+    setStarting(false);
+  };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0,0,0,0.6)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1100,
+      backdropFilter: 'blur(2px)'
+    }}>
+      <MacWindow title="🔒 Signed Out" width="420px">
+        <div style={{
+          display: 'flex',
+          flexDirection: 'column',
+          padding: '16px',
+          gap: '12px',
+          fontFamily: '"ChicagoFLF", "Chicago", monospace'
+        }}>
+          <p style={{ fontSize: '12px', lineHeight: 1.4 }}>
+            This browser was removed from its courier account. Use one of your recovery
+            codes to get your honks back, or start over with a new courier ID.
+          </p>
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px' }}>
+            <MacButton variant="small" onClick={handleStartOver} disabled={starting}>
+              {starting ? 'Starting...' : 'Start a new account'}
+            </MacButton>
+            <MacButton variant="small" onClick={() => router.push('/recover')}>
+              Use a recovery code
+            </MacButton>
+          </div>
+        </div>
+      </MacWindow>
+    </div>
+  );
+}
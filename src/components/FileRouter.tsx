@@ -15,8 +15,10 @@ const pages: Page[] = [
   { name: 'Compose', path: '/compose' },
   { name: 'Conversations', path: '/conversations' },
   { name: 'Demo', path: '/demo' },
+  { name: 'Drafts', path: '/drafts' },
   { name: 'Inbox', path: '/inbox' },
   { name: 'Postcard', path: '/postcard' },
+  { name: 'Postcard Maker', path: '/postcard/maker' },
   { name: 'Postmail', path: '/postmail' },
   { name: 'Profile', path: '/profile' },
   { name: 'Ranking', path: '/ranking' },
@@ -0,0 +1,36 @@
+"use client"
+
+import { ComponentPropsWithoutRef, useEffect, useRef } from 'react'
+import { PostcardDrawing } from '@/types'
+import { POSTCARD_HEIGHT, POSTCARD_WIDTH } from '@/utils/postcard'
+import { replayPostcardDrawing } from '@/utils/postcardDrawing'
+
+interface PostcardDrawingCanvasProps extends ComponentPropsWithoutRef<'canvas'> {
+  drawing?: PostcardDrawing
+  /** Canvas pixels per postcard unit; CSS decides the displayed size */
+  scale?: number
+}
+
+/**
+ * Transparent canvas that replays a postcard's drawing layer stroke by
+ * stroke. Used both while composing and when the card is read.
+ */
+export function PostcardDrawingCanvas({ drawing, scale = 2, ...canvasProps }: PostcardDrawingCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d')
+    if (ctx) {
+      replayPostcardDrawing(ctx, drawing, scale)
+    }
+  }, [drawing, scale])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={POSTCARD_WIDTH * scale}
+      height={POSTCARD_HEIGHT * scale}
+      {...canvasProps}
+    />
+  )
+}
@@ -1,11 +1,13 @@
 'use client';
 
 import React, { useRef, useEffect } from 'react';
+import Image from 'next/image';
 import { HonkMessage } from '@/types';
+import { POSTCARD_HEIGHT, POSTCARD_WIDTH } from '@/utils/postcard';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 
 interface PostcardGalleryProps {
-  messages: (HonkMessage & { sender_username?: string })[];
+  messages: (HonkMessage & { sender_username?: string; postcard_image_url?: string })[];
   onMessageClick: (message: HonkMessage) => void;
   searchQuery?: string;
   statusFilter?: string;
@@ -264,7 +266,18 @@ export default function PostcardGallery({
             </span>
           </div>
 
-          {/* Main content area */}
+          {!isDummy && message.postcard_image_url ? (
+            // Server-rendered card: strokes, stickers and text exactly as sent
+            <Image
+              src={message.postcard_image_url}
+              alt={message.title || 'Postcard'}
+              width={POSTCARD_WIDTH}
+              height={POSTCARD_HEIGHT}
+              unoptimized
+              style={{ width: '100%', height: '100%', objectFit: 'cover', display: 'block' }}
+            />
+          ) : (
+          // Main content area
           <div style={{ padding: '24px', height: '100%', display: 'flex', flexDirection: 'column', position: 'relative' }}>
             {/* Message content */}
             <div style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center', position: 'relative' }}>
@@ -427,6 +440,7 @@ export default function PostcardGallery({
               </div>
             </div>
           </div>
+          )}
 
           {/* Vintage Mac decorative corners */}
           <div style={{
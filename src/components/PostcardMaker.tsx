@@ -1,9 +1,17 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import Cookies from 'js-cookie';
 import { MacWindow } from './MacWindow';
 import { MacButton } from './MacButton';
 import { StickerUploader } from './StickerUploader';
+import { PostcardTemplatePicker } from './PostcardTemplatePicker';
 import { useRouter } from 'next/navigation';
+import { stickerClient } from '@/lib/sticker-client';
+import { useDraftAutosave } from '@/hooks/useDraftAutosave';
+import { DEFAULT_POSTCARD_TEMPLATE } from '@/lib/postcard-templates';
+import { DraftSummary, LocationSharing, PostcardDocument, PostcardTemplate, StickerSummary } from '@/types';
+import { POSTCARD_BACKGROUNDS, POSTCARD_FONTS } from '@/utils/postcard';
+import { POSTCARD_DOCUMENT_VERSION } from '@/utils/postcardDocument';
+import { emptyPostcardDrawing } from '@/utils/postcardDrawing';
 
 interface Sticker {
   id: string;
@@ -22,10 +30,15 @@ interface PostcardData {
   message: string;
   location: string;
   recipient: string;
-  shareState: string;
+  locationSharing: LocationSharing;
 }
 
-export const PostcardMaker: React.FC = () => {
+interface PostcardMakerProps {
+  /** Saved draft to resume */
+  draftId?: string;
+}
+
+export const PostcardMaker: React.FC<PostcardMakerProps> = ({ draftId }) => {
   const router = useRouter();
   const [showStickers, setShowStickers] = useState(true); // Open by default
   const [showStickerUploader, setShowStickerUploader] = useState(false);
@@ -36,7 +49,7 @@ export const PostcardMaker: React.FC = () => {
     message: '',
     location: '',
     recipient: 'Someone Special',
-    shareState: 'Share State'
+    locationSharing: 'state'
   });
   const [draggedSticker, setDraggedSticker] = useState<string | null>(null);
   const [selectedSticker, setSelectedSticker] = useState<string | null>(null);
@@ -51,23 +64,45 @@ export const PostcardMaker: React.FC = () => {
     initialY?: number
   } | null>(null);
   const postcardRef = useRef<HTMLDivElement>(null);
-  const [availableStickers, setAvailableStickers] = useState([
-    { id: 'apple1', name: 'Apple Juice', emoji: '🧃', color: '#90EE90', type: 'default' as const },
-    { id: 'apple2', name: 'Apple Juice', emoji: '🧃', color: '#98FB98', type: 'default' as const },
-    { id: 'apple3', name: 'Apple Juice', emoji: '🧃', color: '#87CEEB', type: 'default' as const },
-    { id: 'heart', name: 'Heart', emoji: '💖', color: '#FFB6C1', type: 'default' as const },
-    { id: 'star', name: 'Star', emoji: '⭐', color: '#FFD700', type: 'default' as const },
-    { id: 'leaf', name: 'Leaf', emoji: '🍂', color: '#DEB887', type: 'default' as const },
-    { id: 'pumpkin', name: 'Pumpkin', emoji: '🎃', color: '#FF7F50', type: 'default' as const },
-    { id: 'coffee', name: 'Coffee', emoji: '☕', color: '#D2691E', type: 'default' as const }
-  ]);
+  // New postcards start by picking a template; resumed drafts skip the picker
+  const [showTemplates, setShowTemplates] = useState(!draftId);
+  const [template, setTemplate] = useState<PostcardTemplate>(DEFAULT_POSTCARD_TEMPLATE);
+  const availableStickers = template.palette.map(sticker => ({ ...sticker, type: 'default' as const }));
   const [userStickers, setUserStickers] = useState<Array<{ id: string; name: string; imageUrl: string; type: 'user' }>>([]);
 
+  // "Your Creations" holds the stickers you made plus the shared ones you favorited
+  useEffect(() => {
+    const toUserSticker = (sticker: StickerSummary) => ({
+      id: sticker.id,
+      name: sticker.name,
+      imageUrl: sticker.image_url,
+      type: 'user' as const
+    });
+
+    Promise.all([stickerClient.list('mine'), stickerClient.list('favorites')])
+      .then(([mine, favorites]) => {
+        const mineIds = new Set(mine.map(sticker => sticker.id));
+        setUserStickers([
+          ...mine.map(toUserSticker),
+          ...favorites.filter(sticker => !mineIds.has(sticker.id)).map(toUserSticker)
+        ]);
+      })
+      .catch(error => console.error('Failed to load stickers:', error));
+  }, []);
+
   const handleCreateUserSticker = (newSticker: { id: string; name: string; imageUrl: string; type: 'user' }) => {
-    setUserStickers(prev => [...prev, newSticker]);
+    setUserStickers(prev => [newSticker, ...prev]);
     setShowStickerUploader(false);
   };
 
+  const applyTemplate = (picked: PostcardTemplate) => {
+    setTemplate(picked);
+    setStickers(picked.stickers.map(sticker => ({ ...sticker })));
+    setSelectedSticker(null);
+    setPostcard(prev => ({ ...prev, message: picked.suggested_text }));
+    setShowTemplates(false);
+  };
+
   const handleStickerDragStart = (stickerId: string) => {
     setDraggedSticker(stickerId);
   };
@@ -261,10 +296,55 @@ export const PostcardMaker: React.FC = () => {
       message: '',
       location: '',
       recipient: 'Someone Special',
-      shareState: 'Share State'
+      locationSharing: 'state'
     });
   };
 
+  const toDocument = (): PostcardDocument => ({
+    version: POSTCARD_DOCUMENT_VERSION,
+    title: template.suggested_title,
+    text: postcard.message.trim(),
+    background: template.background,
+    font: template.font,
+    stickers: stickers.map(sticker => ({
+      id: sticker.id,
+      name: sticker.name,
+      ...(sticker.emoji && { emoji: sticker.emoji }),
+      ...(sticker.imageUrl && { imageUrl: sticker.imageUrl }),
+      type: sticker.type,
+      x: sticker.x,
+      y: sticker.y,
+      size: sticker.size,
+      rotation: sticker.rotation,
+      scale: sticker.scale
+    })),
+    drawing: emptyPostcardDrawing()
+  });
+
+  const handleResume = useCallback((draft: DraftSummary) => {
+    setPostcard({
+      message: draft.content,
+      location: '',
+      recipient: draft.recipient_name ?? 'Someone Special',
+      locationSharing: draft.location_sharing
+    });
+    setStickers(draft.sticker_data);
+  }, []);
+
+  const autosave = useDraftAutosave(
+    (postcard.message.trim() || stickers.length > 0) && !isLoading
+      ? {
+          kind: 'postcard',
+          title: template.suggested_title,
+          content: postcard.message,
+          location_sharing: postcard.locationSharing,
+          recipient_name: postcard.recipient,
+          sticker_data: toDocument().stickers
+        }
+      : null,
+    { draftId, onResume: handleResume }
+  );
+
   const handleSendPostcard = async () => {
     if (!postcard.message.trim()) {
       alert('Please write a message before sending your postcard!');
@@ -286,22 +366,10 @@ export const PostcardMaker: React.FC = () => {
           'Authorization': `Bearer ${authToken}`,
         },
         body: JSON.stringify({
-          title: 'Fall Postcard',
-          content: postcard.message.trim(),
-          locationSharing: 'state', // Default for testing
+          locationSharing: postcard.locationSharing,
           message_type: 'postcard',
-          sticker_data: stickers.map(sticker => ({
-            id: sticker.id,
-            name: sticker.name,
-            emoji: sticker.emoji,
-            imageUrl: sticker.imageUrl,
-            type: sticker.type,
-            x: sticker.x,
-            y: sticker.y,
-            size: sticker.size,
-            rotation: sticker.rotation,
-            scale: sticker.scale
-          }))
+          postcard: toDocument(),
+          ...(autosave.draftId && { draft_id: autosave.draftId })
         }),
       });
 
@@ -314,6 +382,7 @@ export const PostcardMaker: React.FC = () => {
 
       // Success! Clear the form
       clearPostcard();
+      autosave.reset();
 
       // Navigate to inbox
       router.push('/inbox');
@@ -477,7 +546,7 @@ export const PostcardMaker: React.FC = () => {
                   marginBottom: activeTab === 'available' ? '-2px' : '0'
                 }}
               >
-                🎃 Fall Collection
+                🎨 {template.name}
               </button>
               <button
                 onClick={() => setActiveTab('yours')}
@@ -693,6 +762,32 @@ export const PostcardMaker: React.FC = () => {
               backgroundColor: '#DEB887',
               borderRadius: '4px 4px 0 0'
             }}>
+              {/* Template picker button */}
+              <button
+                onClick={() => setShowTemplates(true)}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor = '#f0f0f0';
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = '#fff';
+                }}
+                style={{
+                  fontSize: '11px',
+                  fontFamily: '"PixelFont", "Chicago", monospace',
+                  padding: '2px 6px',
+                  border: '1px solid #000',
+                  backgroundColor: '#fff',
+                  color: '#000',
+                  cursor: 'pointer',
+                  borderRadius: '0',
+                  minWidth: '60px',
+                  transition: 'background-color 0.1s ease'
+                }}
+                title="Start over from a template"
+              >
+                🗂 Templates
+              </button>
+
               {/* Small toggle button for stickers */}
               <button
                 onClick={() => setShowStickers(!showStickers)}
@@ -785,8 +880,8 @@ export const PostcardMaker: React.FC = () => {
               style={{
                 width: '620px',
                 height: '385px',
-                border: '4px solid #8B4513',
-                backgroundColor: '#ffffff',
+                border: `4px solid ${POSTCARD_BACKGROUNDS[template.background].border}`,
+                backgroundColor: POSTCARD_BACKGROUNDS[template.background].fill,
                 position: 'relative',
                 padding: '24px',
                 margin: '0 auto',
@@ -809,7 +904,7 @@ export const PostcardMaker: React.FC = () => {
                     border: 'none',
                     background: 'transparent',
                     fontSize: '18px',
-                    fontFamily: '"PixelFont", "Orbitron", monospace',
+                    fontFamily: POSTCARD_FONTS[template.font].family,
                     textAlign: 'center',
                     width: '100%',
                     color: '#000000',
@@ -1107,8 +1202,8 @@ export const PostcardMaker: React.FC = () => {
                 <div style={{ textAlign: 'right' }}>
                   <div style={{ marginBottom: '8px' }}>
                     <select
-                      value={postcard.shareState}
-                      onChange={(e) => setPostcard(prev => ({ ...prev, shareState: e.target.value }))}
+                      value={postcard.locationSharing}
+                      onChange={(e) => setPostcard(prev => ({ ...prev, locationSharing: e.target.value as LocationSharing }))}
                       onClick={(e) => e.stopPropagation()}
                       style={{
                         border: '2px solid black',
@@ -1120,10 +1215,9 @@ export const PostcardMaker: React.FC = () => {
                         borderRadius: '0'
                       }}
                     >
-                      <option>Share State</option>
-                      <option>Public</option>
-                      <option>Private</option>
-                      <option>Friends Only</option>
+                      <option value="state">Share State</option>
+                      <option value="country">Share Country</option>
+                      <option value="anonymous">Anonymous</option>
                     </select>
                   </div>
                   <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
@@ -1185,6 +1279,9 @@ export const PostcardMaker: React.FC = () => {
                 <span>📎 {stickers.length} stickers</span>
                 <span>📝 {postcard.message.length} chars</span>
                 <span>📏 {postcard.message.split('\n').length} lines</span>
+                {autosave.status === 'saving' && <span>💾 Saving draft...</span>}
+                {autosave.status === 'saved' && <span>💾 Draft saved</span>}
+                {autosave.status === 'error' && <span>⚠️ Couldn&apos;t save draft</span>}
               </div>
               <div style={{ fontSize: '10px', color: '#666', maxWidth: '300px', textAlign: 'right' }}>
                 {selectedSticker ? (
@@ -1206,6 +1303,12 @@ export const PostcardMaker: React.FC = () => {
         onClose={() => setShowStickerUploader(false)}
         onCreateSticker={handleCreateUserSticker}
       />
+
+      <PostcardTemplatePicker
+        isOpen={showTemplates}
+        onClose={() => setShowTemplates(false)}
+        onSelect={applyTemplate}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { MacWindow } from './MacWindow';
+import { MacButton } from './MacButton';
+import { templateClient } from '@/lib/template-client';
+import { PostcardTemplateCollectionListing, PostcardTemplateListing } from '@/types';
+import { POSTCARD_BACKGROUNDS, POSTCARD_FONTS } from '@/utils/postcard';
+
+interface PostcardTemplatePickerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelect: (template: PostcardTemplateListing) => void;
+}
+
+const MAX_PREVIEW_STICKERS = 4;
+
+/**
+ * Choose a template to start a postcard from. Seasonal collections only
+ * appear in season, and premium templates stay locked until the Elite
+ * Explorer rank.
+ */
+export const PostcardTemplatePicker: React.FC<PostcardTemplatePickerProps> = ({
+  isOpen,
+  onClose,
+  onSelect
+}) => {
+  const [collections, setCollections] = useState<PostcardTemplateCollectionListing[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || collections) return;
+
+    templateClient.list()
+      .then(setCollections)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load templates'));
+  }, [isOpen, collections]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0,0,0,0.6)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000,
+      backdropFilter: 'blur(2px)'
+    }}>
+      <MacWindow title="🗂 Postcard Templates" width="560px" height="520px">
+        <div style={{
+          display: 'flex',
+          flexDirection: 'column',
+          height: '100%',
+          padding: '16px',
+          gap: '12px',
+          overflowY: 'auto',
+          fontFamily: '"ChicagoFLF", "Chicago", monospace'
+        }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <span style={{ fontSize: '14px', fontWeight: 'bold' }}>Start from a template</span>
+            <MacButton onClick={onClose} style={{ fontSize: '12px', padding: '2px 8px' }}>
+              Start blank
+            </MacButton>
+          </div>
+
+          {error && <p style={{ color: '#B00020', fontSize: '12px' }}>{error}</p>}
+          {!collections && !error && <p style={{ fontSize: '12px' }}>Loading templates...</p>}
+
+          {collections?.map(collection => (
+            <section key={collection.id}>
+              <h3 style={{ fontSize: '13px', fontWeight: 'bold', marginBottom: '6px' }}>
+                {collection.name}
+                {collection.season && <span style={{ fontWeight: 'normal', color: '#666' }}> · limited time</span>}
+              </h3>
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '8px' }}>
+                {collection.templates.map(template => {
+                  const colors = POSTCARD_BACKGROUNDS[template.background];
+                  return (
+                    <button
+                      key={template.id}
+                      type="button"
+                      disabled={template.locked}
+                      onClick={() => onSelect(template)}
+                      title={template.locked ? 'Reach the Elite Explorer rank to unlock premium templates' : template.description}
+                      style={{
+                        textAlign: 'left',
+                        padding: '8px',
+                        border: `2px solid ${colors.border}`,
+                        backgroundColor: colors.fill,
+                        cursor: template.locked ? 'not-allowed' : 'pointer',
+                        opacity: template.locked ? 0.6 : 1
+                      }}
+                    >
+                      <div style={{ fontSize: '13px', fontWeight: 'bold' }}>
+                        {template.locked && '🔒 '}{template.name}
+                      </div>
+                      <div style={{ fontSize: '12px', fontFamily: POSTCARD_FONTS[template.font].family, margin: '4px 0' }}>
+                        {template.suggested_title}
+                      </div>
+                      <div style={{ fontSize: '10px', color: '#444' }}>{template.description}</div>
+                      <div style={{ fontSize: '16px', marginTop: '4px', minHeight: '20px' }}>
+                        {template.locked
+                          ? <span style={{ fontSize: '10px' }}>✨ Premium · Elite Explorer</span>
+                          : template.palette.slice(0, MAX_PREVIEW_STICKERS).map(sticker => sticker.emoji).join(' ')}
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            </section>
+          ))}
+        </div>
+      </MacWindow>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+'use client';
+
+import React from 'react';
+import { usePathname } from 'next/navigation';
+import { MacWindow } from './MacWindow';
+import { MacButton } from './MacButton';
+import { useAuth } from '@/hooks/useAuth';
+
+function downloadCodes(codes: string[]) {
+  const text = [
+    'Honk! account recovery codes',
+    '',
+    'Each code signs you back in once at /recover if you lose this browser.',
+    'Keep them somewhere safe.',
+    '',
+    ...codes
+  ].join('\n');
+
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'honk-recovery-codes.txt';
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Shows a new account's recovery codes once, with a download, so the
+ * courier can get back in after clearing their cookies
+ */
+export function RecoveryCodesNotice() {
+  const { recoveryCodes, dismissRecoveryCodes } = useAuth();
+  const pathname = usePathname();
+
+  // Someone recovering an old account doesn't need codes for the one this visit created
+  if (!recoveryCodes || pathname === '/recover') return null;
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0,0,0,0.6)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1100,
+      backdropFilter: 'blur(2px)'
+    }}>
+      <MacWindow title="🔑 Recovery Codes" width="420px">
+        <div style={{
+          display: 'flex',
+          flexDirection: 'column',
+          padding: '16px',
+          gap: '12px',
+          fontFamily: '"ChicagoFLF", "Chicago", monospace'
+        }}>
+          <p style={{ fontSize: '12px', lineHeight: 1.4 }}>
+            Your courier ID lives in this browser. If you clear your cookies or lose this
+            device, any one of these codes gets your honks back. Each code works once, and
+            they won&apos;t be shown again.
+          </p>
+
+          <ol style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(2, 1fr)',
+            gap: '4px 16px',
+            padding: '8px 12px',
+            border: '2px solid #000',
+            backgroundColor: '#fff',
+            fontSize: '14px',
+            listStyle: 'none'
+          }}>
+            {recoveryCodes.map(code => <li key={code}>{code}</li>)}
+          </ol>
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px' }}>
+            <MacButton variant="small" onClick={() => downloadCodes(recoveryCodes)}>
+              Download
+            </MacButton>
+            <MacButton variant="small" onClick={dismissRecoveryCodes}>
+              I&apos;ve saved them
+            </MacButton>
+          </div>
+        </div>
+      </MacWindow>
+    </div>
+  );
+}
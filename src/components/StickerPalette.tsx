@@ -1,8 +1,11 @@
 "use client"
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
+import Image from 'next/image'
 import { StickerEditor } from './StickerEditor'
 import { Grid, List } from 'lucide-react'
+import { stickerClient } from '@/lib/sticker-client'
+import { StickerSummary } from '@/types'
 
 interface StickerPaletteProps {
   isOpen: boolean
@@ -14,8 +17,18 @@ interface UserSticker {
   id: string
   name: string
   imageUrl: string
+  favorited?: boolean
+  favoriteCount?: number
 }
 
+const toUserSticker = (sticker: StickerSummary): UserSticker => ({
+  id: sticker.id,
+  name: sticker.name,
+  imageUrl: sticker.image_url,
+  favorited: sticker.favorited,
+  favoriteCount: sticker.favorite_count
+})
+
 const DEFAULT_STICKERS = [
   { id: 'sticker1', emoji: '', imageUrl: '/sticker.png', name: 'Sticker 1' },
   { id: 'sticker2', emoji: '', imageUrl: '/sticker.png', name: 'Sticker 2' },
@@ -32,6 +45,8 @@ export const StickerPalette: React.FC<StickerPaletteProps> = ({
 }) => {
   const [activeTab, setActiveTab] = useState<'community' | 'private'>('community')
   const [userStickers, setUserStickers] = useState<UserSticker[]>([])
+  const [communityStickers, setCommunityStickers] = useState<UserSticker[]>([])
+  const [uploadError, setUploadError] = useState<string | null>(null)
   const [showEditor, setShowEditor] = useState(false)
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
   const [imagePreview, setImagePreview] = useState<string | null>(null)
@@ -52,29 +67,55 @@ export const StickerPalette: React.FC<StickerPaletteProps> = ({
     }
   }
 
-  const handleStickerEdited = (editedImageUrl: string, stickerName: string, isPublic: boolean) => {
-    const newSticker: UserSticker = {
-      id: `custom-${Date.now()}`,
-      name: stickerName,
-      imageUrl: editedImageUrl
-    }
-    
-    if (isPublic) {
-      // TODO: Save to database as community sticker
-      console.log('Saving to community:', newSticker)
-      // For now, just add to local state
-    } else {
-      // Save to private stickers
-      setUserStickers(prev => [...prev, newSticker])
+  useEffect(() => {
+    if (!isOpen) return
+
+    Promise.all([stickerClient.list('mine'), stickerClient.list('public')])
+      .then(([mine, shared]) => {
+        setUserStickers(mine.map(toUserSticker))
+        setCommunityStickers(shared.map(toUserSticker))
+      })
+      .catch(error => console.error('Failed to load stickers:', error))
+  }, [isOpen])
+
+  const handleStickerEdited = async (editedImageUrl: string, stickerName: string, isPublic: boolean) => {
+    try {
+      const saved = toUserSticker(await stickerClient.upload(stickerName, editedImageUrl, isPublic))
+      setUserStickers(prev => [saved, ...prev])
+      if (isPublic) {
+        setCommunityStickers(prev => [...prev, saved])
+      }
+      setUploadError(null)
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : 'Failed to save sticker')
     }
-    
+
     setShowEditor(false)
     setSelectedFile(null)
     setImagePreview(null)
   }
 
-  const handleDeleteSticker = (stickerId: string) => {
-    setUserStickers(prev => prev.filter(s => s.id !== stickerId))
+  const handleDeleteSticker = async (stickerId: string) => {
+    try {
+      await stickerClient.remove(stickerId)
+      setUserStickers(prev => prev.filter(s => s.id !== stickerId))
+      setCommunityStickers(prev => prev.filter(s => s.id !== stickerId))
+    } catch (error) {
+      console.error('Failed to delete sticker:', error)
+    }
+  }
+
+  const handleToggleFavorite = async (sticker: UserSticker) => {
+    const favorited = !sticker.favorited
+    try {
+      await stickerClient.setFavorite(sticker.id, favorited)
+      setCommunityStickers(prev => prev.map(s => s.id === sticker.id
+        ? { ...s, favorited, favoriteCount: (s.favoriteCount ?? 0) + (favorited ? 1 : -1) }
+        : s
+      ))
+    } catch (error) {
+      console.error('Failed to update favorite:', error)
+    }
   }
 
   if (!isOpen) {
@@ -151,7 +192,7 @@ export const StickerPalette: React.FC<StickerPaletteProps> = ({
               }`}
               style={{ fontFamily: "'Comic Sans MS', cursive" }}
             >
-              Community ({DEFAULT_STICKERS.length})
+              Community ({DEFAULT_STICKERS.length + communityStickers.length})
             </button>
             <button
               onClick={() => setActiveTab('private')}
@@ -179,6 +220,11 @@ export const StickerPalette: React.FC<StickerPaletteProps> = ({
               />
               <span style={{ fontFamily: "'Comic Sans MS', cursive" }}>📸 Upload Sticker</span>
             </label>
+            {uploadError && (
+              <p className="text-xs text-red-600 mt-2 text-center" style={{ fontFamily: "'Comic Sans MS', cursive" }}>
+                {uploadError}
+              </p>
+            )}
           </div>
         )}
 
@@ -205,26 +251,65 @@ export const StickerPalette: React.FC<StickerPaletteProps> = ({
           `}</style>
           <div className={viewMode === 'grid' ? 'grid grid-cols-2 gap-4' : 'flex flex-col gap-3'}>
             {activeTab === 'community' ? (
-              DEFAULT_STICKERS
-                .filter(sticker => sticker.name.toLowerCase().includes(searchQuery.toLowerCase()))
-                .map((sticker) => (
-                <div
-                  key={sticker.id}
-                  draggable
-                  onDragStart={() => onDragStart(sticker.id, 'image', sticker.imageUrl)}
-                  className={`flex ${viewMode === 'grid' ? 'flex-col' : 'flex-row'} items-center gap-2 cursor-grab active:cursor-grabbing hover:scale-110 transition-transform`}
-                >
-                  <img
-                    src={sticker.imageUrl}
-                    alt={sticker.name}
-                    className={`object-contain drop-shadow-lg ${viewMode === 'grid' ? 'w-32 h-32' : 'w-20 h-20'}`}
-                    draggable={false}
-                  />
-                  <div className="text-xs text-journal-button text-center font-semibold" style={{ fontFamily: "'Comic Sans MS', cursive" }}>
-                    {sticker.name}
+              <>
+                {DEFAULT_STICKERS
+                  .filter(sticker => sticker.name.toLowerCase().includes(searchQuery.toLowerCase()))
+                  .map((sticker) => (
+                  <div
+                    key={sticker.id}
+                    draggable
+                    onDragStart={() => onDragStart(sticker.id, 'image', sticker.imageUrl)}
+                    className={`flex ${viewMode === 'grid' ? 'flex-col' : 'flex-row'} items-center gap-2 cursor-grab active:cursor-grabbing hover:scale-110 transition-transform`}
+                  >
+                    <Image
+                      src={sticker.imageUrl}
+                      alt={sticker.name}
+                      width={viewMode === 'grid' ? 128 : 80}
+                      height={viewMode === 'grid' ? 128 : 80}
+                      unoptimized
+                      className={`object-contain drop-shadow-lg ${viewMode === 'grid' ? 'w-32 h-32' : 'w-20 h-20'}`}
+                      draggable={false}
+                    />
+                    <div className="text-xs text-journal-button text-center font-semibold" style={{ fontFamily: "'Comic Sans MS', cursive" }}>
+                      {sticker.name}
+                    </div>
                   </div>
-                </div>
-              ))
+                ))}
+                {communityStickers
+                  .filter(sticker => sticker.name.toLowerCase().includes(searchQuery.toLowerCase()))
+                  .map((sticker) => (
+                  <div
+                    key={sticker.id}
+                    className={`relative group flex ${viewMode === 'grid' ? 'flex-col' : 'flex-row'} items-center gap-2`}
+                  >
+                    <div
+                      draggable
+                      onDragStart={() => onDragStart(sticker.id, 'image', sticker.imageUrl)}
+                      className="cursor-grab active:cursor-grabbing hover:scale-110 transition-transform"
+                    >
+                      <Image
+                        src={sticker.imageUrl}
+                        alt={sticker.name}
+                        width={viewMode === 'grid' ? 128 : 80}
+                        height={viewMode === 'grid' ? 128 : 80}
+                        unoptimized
+                        className={`object-contain drop-shadow-lg ${viewMode === 'grid' ? 'w-32 h-32' : 'w-20 h-20'}`}
+                        draggable={false}
+                      />
+                    </div>
+                    <button
+                      onClick={() => handleToggleFavorite(sticker)}
+                      title={sticker.favorited ? 'Remove from favorites' : 'Add to favorites'}
+                      className="absolute -top-2 -right-2 h-6 px-1 bg-white hover:bg-journal-highlight/40 rounded-full text-xs font-bold shadow-md z-10"
+                    >
+                      {sticker.favorited ? '★' : '☆'} {sticker.favoriteCount ?? 0}
+                    </button>
+                    <div className={`text-xs text-journal-button font-semibold truncate ${viewMode === 'grid' ? 'text-center w-full' : 'flex-1'}`} style={{ fontFamily: "'Comic Sans MS', cursive" }}>
+                      {sticker.name}
+                    </div>
+                  </div>
+                ))}
+              </>
             ) : userStickers.length > 0 ? (
               userStickers
                 .filter(sticker => sticker.name.toLowerCase().includes(searchQuery.toLowerCase()))
@@ -238,9 +323,12 @@ export const StickerPalette: React.FC<StickerPaletteProps> = ({
                     onDragStart={() => onDragStart(sticker.id, 'image', sticker.imageUrl)}
                     className="cursor-grab active:cursor-grabbing hover:scale-110 transition-transform"
                   >
-                    <img
+                    <Image
                       src={sticker.imageUrl}
                       alt={sticker.name}
+                      width={viewMode === 'grid' ? 128 : 80}
+                      height={viewMode === 'grid' ? 128 : 80}
+                      unoptimized
                       className={`object-contain drop-shadow-lg ${viewMode === 'grid' ? 'w-32 h-32' : 'w-20 h-20'}`}
                       draggable={false}
                     />
@@ -2,11 +2,12 @@ import React, { useState, useRef } from 'react';
 import { MacWindow } from './MacWindow';
 import { MacButton } from './MacButton';
 import { StickerEditor } from './StickerEditor';
+import { stickerClient } from '@/lib/sticker-client';
 
 interface StickerUploaderProps {
   isOpen: boolean;
   onClose: () => void;
-  onCreateSticker: (sticker: { id: string; name: string; imageUrl: string; type: 'user' }) => void;
+  onCreateSticker: (sticker: { id: string; name: string; imageUrl: string; type: 'user'; isPublic: boolean }) => void;
 }
 
 export const StickerUploader: React.FC<StickerUploaderProps> = ({
@@ -17,6 +18,7 @@ export const StickerUploader: React.FC<StickerUploaderProps> = ({
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [showEditor, setShowEditor] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -41,22 +43,32 @@ export const StickerUploader: React.FC<StickerUploaderProps> = ({
     }
   };
 
-  const handleStickerEdited = (editedImageUrl: string, stickerName: string) => {
-    const newSticker = {
-      id: `user-${Date.now()}`,
-      name: stickerName,
-      imageUrl: editedImageUrl,
-      type: 'user' as const
-    };
-    
-    onCreateSticker(newSticker);
+  const handleStickerEdited = async (editedImageUrl: string, stickerName: string, isPublic: boolean) => {
+    try {
+      // Store the sticker server-side so it survives reloads and can be shared
+      const saved = await stickerClient.upload(stickerName, editedImageUrl, isPublic);
+      onCreateSticker({
+        id: saved.id,
+        name: saved.name,
+        imageUrl: saved.image_url,
+        type: 'user' as const,
+        isPublic: saved.is_public
+      });
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : 'Failed to save sticker');
+      setShowEditor(false);
+      return;
+    }
+
     setShowEditor(false);
     setSelectedFile(null);
     setImagePreview(null);
+    setUploadError(null);
     onClose();
   };
 
   const resetUploader = () => {
+    setUploadError(null);
     setSelectedFile(null);
     setImagePreview(null);
     setShowEditor(false);
@@ -294,6 +306,18 @@ export const StickerUploader: React.FC<StickerUploaderProps> = ({
                 <div style={{ color: '#666' }}>📏 Size: {Math.round((selectedFile?.size || 0) / 1024)}KB</div>
               </div>
 
+              {uploadError && (
+                <div style={{
+                  fontSize: '12px',
+                  fontFamily: '"ChicagoFLF", "Chicago", monospace',
+                  color: '#b00020',
+                  marginBottom: '12px',
+                  textAlign: 'center'
+                }}>
+                  ⚠️ {uploadError}
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div style={{
                 display: 'flex',
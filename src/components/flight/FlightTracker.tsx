@@ -13,6 +13,7 @@ import {
   Wifi, 
   WifiOff, 
   RefreshCw,
+  RotateCcw,
   Cloud,
   CloudRain,
   Zap,
@@ -23,6 +24,7 @@ interface FlightTrackerProps {
   messageId: string;
   userId?: string;
   onDelivered?: (progress: FlightProgress) => void;
+  onReturned?: (progress: FlightProgress) => void;
   showConnectionStatus?: boolean;
 }
 
@@ -33,9 +35,10 @@ export function FlightTracker({
   messageId, 
   userId, 
   onDelivered,
+  onReturned,
   showConnectionStatus = true 
 }: FlightTrackerProps) {
-  const { progress, isDelivered, error, isSubscribed, refresh } = useFlightProgress(messageId, userId);
+  const { progress, isDelivered, isFailed, error, isSubscribed, refresh } = useFlightProgress(messageId, userId);
   const { status, reconnect, isConnected } = useWebSocketStatus();
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
 
@@ -53,6 +56,13 @@ export function FlightTracker({
     }
   }, [isDelivered, progress, onDelivered]);
 
+  // Call onReturned callback when the flight fails and the honk heads home
+  useEffect(() => {
+    if (isFailed && progress && onReturned) {
+      onReturned(progress);
+    }
+  }, [isFailed, progress, onReturned]);
+
   // Get weather icon based on weather type
   const getWeatherIcon = (weatherType: string) => {
     switch (weatherType) {
@@ -87,6 +97,18 @@ export function FlightTracker({
     }
   };
 
+  // Format how long a holding duck keeps circling before it gives up
+  const formatHoldRemaining = (expiresAt: Date) => {
+    const diff = new Date(expiresAt).getTime() - Date.now();
+    if (diff <= 0) {
+      return 'Deciding whether to reroute or turn back';
+    }
+
+    const hours = Math.floor(diff / (1000 * 60 * 60));
+    const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
+    return hours > 0 ? `Waiting up to ${hours}h ${minutes}m more` : `Waiting up to ${minutes}m more`;
+  };
+
   // Format coordinates for display
   const formatCoordinates = (lat: number, lng: number) => {
     return `${lat.toFixed(4)}°, ${lng.toFixed(4)}°`;
@@ -132,13 +154,18 @@ export function FlightTracker({
     );
   }
 
+  const isReturned = isFailed || progress.status === 'failed';
+  const isHolding = !isReturned && progress.status === 'holding';
+
   return (
     <Card className="w-full max-w-md">
       <CardHeader>
         <CardTitle className="flex items-center justify-between">
           <div className="flex items-center gap-2">
-            <Plane className={`h-5 w-5 ${isDelivered ? 'text-green-600' : 'text-blue-600'}`} />
-            {isDelivered ? 'Message Delivered!' : 'Duck in Flight'}
+            <Plane className={`h-5 w-5 ${
+              isDelivered ? 'text-green-600' : isReturned ? 'text-red-600' : isHolding ? 'text-amber-500 animate-pulse' : 'text-blue-600'
+            }`} />
+            {isDelivered ? 'Message Delivered!' : isReturned ? 'Returned to Sender' : isHolding ? 'Holding for Weather' : 'Duck in Flight'}
           </div>
           {showConnectionStatus && (
             <div className="flex items-center gap-1">
@@ -162,7 +189,7 @@ export function FlightTracker({
           <div className="w-full bg-gray-200 rounded-full h-2">
             <div 
               className={`h-2 rounded-full transition-all duration-500 ${
-                isDelivered ? 'bg-green-500' : 'bg-blue-500'
+                isDelivered ? 'bg-green-500' : isReturned ? 'bg-red-400' : isHolding ? 'bg-amber-400' : 'bg-blue-500'
               }`}
               style={{ width: `${progress.progress_percentage}%` }}
             />
@@ -186,8 +213,22 @@ export function FlightTracker({
           </div>
         </div>
 
+        {/* Holding Pattern */}
+        {isHolding && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+            <p className="text-sm font-medium text-amber-800">
+              🌀 Circling until the storm eases
+            </p>
+            {progress.hold_expires_at && (
+              <p className="text-xs text-amber-700 mt-1">
+                {formatHoldRemaining(progress.hold_expires_at)}
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Estimated Arrival */}
-        {!isDelivered && (
+        {!isDelivered && !isReturned && (
           <div className="flex items-center gap-2">
             <Clock className="h-4 w-4 text-gray-500" />
             <div>
@@ -249,6 +290,19 @@ export function FlightTracker({
           </Button>
         )}
 
+        {/* Returned to Sender */}
+        {isReturned && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-sm font-medium text-red-800 flex items-center gap-2">
+              <RotateCcw className="h-4 w-4" />
+              Your duck couldn&apos;t get through and is bringing the message home.
+            </p>
+            {progress.failure_reason && (
+              <p className="text-xs text-red-600 mt-1">{progress.failure_reason}</p>
+            )}
+          </div>
+        )}
+
         {/* Delivery Status */}
         {isDelivered && (
           <div className="bg-green-50 border border-green-200 rounded-lg p-3">
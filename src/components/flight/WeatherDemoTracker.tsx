@@ -22,7 +22,7 @@ const WeatherMap = dynamic(
   () => import('./WeatherMap'),
   { ssr: false }
 );
-import { clientFlightEngine } from '@/services/clientFlightEngine';
+import { clientFlightClock, clientFlightEngine } from '@/services/clientFlightEngine';
 import { weatherService } from '@/services/weather';
 import { GeolocationService } from '@/services/geolocation';
 
@@ -57,6 +57,11 @@ const DEMO_LOCATIONS = {
   }
 };
 
+/**
+ * Simulated seconds per real second offered by the demo
+ */
+const TIME_WARP_OPTIONS = [1000, 3600, 10000, 36000];
+
 /**
  * Weather demo flight tracker component
  */
@@ -66,6 +71,7 @@ export function WeatherDemoTracker() {
   const [demoId, setDemoId] = useState<string>('');
   const [userLocation, setUserLocation] = useState<LocationData | null>(null);
   const [destinationCity, setDestinationCity] = useState<string>('London');
+  const [timeWarp, setTimeWarp] = useState<number>(clientFlightClock.timeWarp);
   const [weatherEvents, setWeatherEvents] = useState<WeatherEvent[]>([]);
   const [flightLogs, setFlightLogs] = useState<Array<{
     timestamp: Date;
@@ -89,6 +95,12 @@ export function WeatherDemoTracker() {
     getUserLocation();
   }, []);
 
+  // Change how fast simulated time runs for the next flight
+  const selectTimeWarp = (warp: number) => {
+    clientFlightClock.setTimeWarp(warp);
+    setTimeWarp(warp);
+  };
+
   // Start a demo flight
   const startDemoFlight = async () => {
     if (!userLocation) return;
@@ -199,8 +211,7 @@ export function WeatherDemoTracker() {
 
   // Format remaining time
   const formatTimeRemaining = (date: Date) => {
-    const now = new Date();
-    const diff = date.getTime() - now.getTime();
+    const diff = date.getTime() - clientFlightClock.now();
     
     if (diff <= 0) return 'Arriving now';
 
@@ -260,6 +271,26 @@ export function WeatherDemoTracker() {
                       ))}
                   </div>
                 </div>
+
+                <div className="space-y-2">
+                  <div className="text-sm font-medium">Time Warp:</div>
+                  <div className="grid grid-cols-4 gap-2">
+                    {TIME_WARP_OPTIONS.map((warp) => (
+                      <Button
+                        key={warp}
+                        variant={timeWarp === warp ? 'default' : 'ghost'}
+                        size="sm"
+                        onClick={() => selectTimeWarp(warp)}
+                        className="w-full"
+                      >
+                        {warp.toLocaleString()}×
+                      </Button>
+                    ))}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    A 10-hour flight lands in {Math.round((10 * 60 * 60) / timeWarp)}s
+                  </div>
+                </div>
                 
                 <Button 
                   onClick={startDemoFlight}
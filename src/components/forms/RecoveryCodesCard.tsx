@@ -0,0 +1,45 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+export function RecoveryCodesCard() {
+  const { regenerateRecoveryCodes } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRegenerate = async () => {
+    setLoading(true);
+    setError(null);
+
+    if (!await regenerateRecoveryCodes()) {
+      setError('Failed to generate recovery codes. Please try again.');
+    }
+    setLoading(false);
+  };
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto mt-6">
+      <CardHeader>
+        <CardTitle>Account Recovery</CardTitle>
+        <CardDescription>
+          Recovery codes get you back into this account from a new browser. New codes replace your old ones.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Button variant="ghost" className="w-full" onClick={handleRegenerate} disabled={loading}>
+          {loading ? 'Generating...' : 'Generate New Recovery Codes'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -13,17 +13,34 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { DraftSaveStatus, useDraftAutosave } from '@/hooks/useDraftAutosave';
+import { DraftSummary, RoutePreview } from '@/types';
 
+export interface ComposedHonk {
+  title: string;
+  content: string;
+  locationSharing: 'state' | 'country' | 'anonymous';
+  draft_id?: string; // Autosaved draft, deleted by the server once sent
+}
+
+/** Autosave settings; replies carry who they answer */
+export interface ComposeHonkDraft {
+  /** Saved draft to resume */
+  id?: string;
+  kind: 'honk' | 'reply';
+  recipient_id?: string;
+  reply_to_message_id?: string;
+}
 
 export interface ComposeHonkProps {
-  onSend: (message: {
-    title: string;
-    content: string;
-    locationSharing: 'state' | 'country' | 'anonymous';
-  }) => Promise<void>;
+  onSend: (message: ComposedHonk) => Promise<void>;
+  /** Fetch a route preview to confirm before sending; resolve null to send straight away */
+  onPreview?: (message: ComposedHonk) => Promise<RoutePreview | null>;
   characterLimit?: number;
   titleLimit?: number;
   isLoading?: boolean;
+  /** Autosave to /api/drafts as the user types */
+  draft?: ComposeHonkDraft;
 }
 
 interface ValidationErrors {
@@ -32,17 +49,62 @@ interface ValidationErrors {
   locationSharing?: string;
 }
 
+const WEATHER_ICONS: Record<string, string> = {
+  clear: '☀️',
+  rain: '🌧️',
+  storm: '⛈️',
+  wind: '💨'
+};
+
+const DRAFT_STATUS_LABELS: Record<Exclude<DraftSaveStatus, 'idle'>, string> = {
+  loading: 'Loading draft...',
+  saving: 'Saving draft...',
+  saved: 'Draft saved',
+  error: "Couldn't save draft"
+};
+
+function formatDuration(ms: number): string {
+  const hours = Math.floor(ms / (1000 * 60 * 60));
+  const minutes = Math.floor((ms % (1000 * 60 * 60)) / (1000 * 60));
+  return `${hours}h ${minutes}m`;
+}
+
 export function ComposeHonk({
   onSend,
+  onPreview,
   characterLimit = 280,
   titleLimit = 100,
   isLoading = false,
+  draft,
 }: ComposeHonkProps) {
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
   const [locationSharing, setLocationSharing] = useState<'state' | 'country' | 'anonymous'>('state');
   const [errors, setErrors] = useState<ValidationErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [preview, setPreview] = useState<RoutePreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const handleResume = useCallback((saved: DraftSummary) => {
+    setTitle(saved.title);
+    setContent(saved.content);
+    setLocationSharing(saved.location_sharing);
+  }, []);
+
+  const hasText = Boolean(title.trim() || content.trim());
+  const autosave = useDraftAutosave(
+    draft && hasText && !isSubmitting
+      ? {
+          kind: draft.kind,
+          title,
+          content,
+          location_sharing: locationSharing,
+          recipient_id: draft.recipient_id,
+          reply_to_message_id: draft.reply_to_message_id
+        }
+      : null,
+    { draftId: draft?.id, onResume: handleResume }
+  );
 
   const validateMessage = useCallback((): ValidationErrors => {
     const newErrors: ValidationErrors = {};
@@ -108,20 +170,41 @@ export function ComposeHonk({
       return;
     }
 
+    const message: ComposedHonk = {
+      title: title.trim(),
+      content: content.trim(),
+      locationSharing,
+      ...(autosave.draftId && { draft_id: autosave.draftId }),
+    };
+
+    // Show the flight plan first when previews are available
+    if (onPreview && !preview) {
+      setIsPreviewing(true);
+      try {
+        const routePreview = await onPreview(message);
+        if (routePreview) {
+          setPreview(routePreview);
+          return;
+        }
+      } catch (error) {
+        console.error('Failed to preview route:', error);
+      } finally {
+        setIsPreviewing(false);
+      }
+    }
+
     setIsSubmitting(true);
     
     try {
-      await onSend({
-        title: title.trim(),
-        content: content.trim(),
-        locationSharing,
-      });
+      await onSend(message);
       
       // Reset form on successful send
       setTitle('');
       setContent('');
       setLocationSharing('state');
       setErrors({});
+      setPreview(null);
+      autosave.reset();
     } catch (error) {
       // Error handling is managed by parent component
       console.error('Failed to send message:', error);
@@ -130,7 +213,60 @@ export function ComposeHonk({
     }
   };
 
-  const isFormDisabled = isLoading || isSubmitting;
+  const renderPreview = (routePreview: RoutePreview) => {
+    const weatherCounts = routePreview.weather.reduce<Record<string, number>>((counts, event) => {
+      counts[event.type] = (counts[event.type] ?? 0) + 1;
+      return counts;
+    }, {});
+
+    return (
+      <div className="rounded-lg border border-blue-200 bg-blue-50/50 p-4 space-y-3 text-sm">
+        <h3 className="font-semibold text-base">Flight Preview 🗺️</h3>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <div className="text-muted-foreground">Distance</div>
+            <div className="font-medium">{Math.round(routePreview.total_distance).toLocaleString()} km</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Expected flight time</div>
+            <div className="font-medium">
+              {formatDuration(routePreview.eta.min_duration_ms)} – {formatDuration(routePreview.eta.max_duration_ms)}
+            </div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Terrain</div>
+            <ul>
+              {routePreview.terrain.map(share => (
+                <li key={share.terrain} className="capitalize">
+                  {share.terrain} {Math.round(share.percentage)}%
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Forecast</div>
+            {Object.keys(weatherCounts).length > 0 ? (
+              <ul>
+                {Object.entries(weatherCounts).map(([type, count]) => (
+                  <li key={type} className="capitalize">
+                    {WEATHER_ICONS[type] ?? '🌤️'} {type} ×{count}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div>No forecast available</div>
+            )}
+          </div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Predicted journey points</div>
+          <div className="font-medium">{routePreview.journey_points.total_points.toLocaleString()}</div>
+        </div>
+      </div>
+    );
+  };
+
+  const isFormDisabled = isLoading || isSubmitting || isPreviewing || autosave.status === 'loading';
   const remainingChars = characterLimit - content.length;
   const remainingTitleChars = titleLimit - title.length;
 
@@ -140,6 +276,11 @@ export function ComposeHonk({
         <CardTitle className="text-2xl font-bold text-center">
           Send a Honk! 🦆
         </CardTitle>
+        {draft && autosave.status !== 'idle' && (
+          <p className="text-center text-sm text-muted-foreground" role="status">
+            {DRAFT_STATUS_LABELS[autosave.status]}
+          </p>
+        )}
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-6">
@@ -152,7 +293,7 @@ export function ComposeHonk({
               placeholder="Give your honk a catchy title..."
               value={title}
               onChange={handleTitleChange}
-              disabled={isFormDisabled}
+              disabled={isFormDisabled || preview !== null}
               className={errors.title ? 'border-red-500' : ''}
               maxLength={titleLimit + 10} // Allow slight overflow for better UX
             />
@@ -176,7 +317,7 @@ export function ComposeHonk({
               placeholder="What's on your mind? Share your thoughts with the world..."
               value={content}
               onChange={handleContentChange}
-              disabled={isFormDisabled}
+              disabled={isFormDisabled || preview !== null}
               className={errors.content ? 'border-red-500' : ''}
               rows={4}
               maxLength={characterLimit + 10} // Allow slight overflow for better UX
@@ -199,7 +340,7 @@ export function ComposeHonk({
             <Select
               value={locationSharing}
               onValueChange={handleLocationSharingChange}
-              disabled={isFormDisabled}
+              disabled={isFormDisabled || preview !== null}
             >
               <SelectTrigger className={errors.locationSharing ? 'border-red-500' : ''}>
                 <SelectValue placeholder="Choose how to share your location" />
@@ -221,15 +362,33 @@ export function ComposeHonk({
             )}
           </div>
 
+          {preview && renderPreview(preview)}
+
           {/* Send Button */}
-          <div className="flex justify-center pt-4">
+          <div className="flex justify-center gap-3 pt-4">
+            {preview && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="lg"
+                onClick={() => setPreview(null)}
+                disabled={isFormDisabled}
+              >
+                Edit Honk
+              </Button>
+            )}
             <Button
               type="submit"
               size="lg"
               disabled={isFormDisabled || remainingChars < 0 || remainingTitleChars < 0}
               className="min-w-[200px]"
             >
-              {isSubmitting ? (
+              {isPreviewing ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
+                  Planning Route...
+                </>
+              ) : isSubmitting ? (
                 <>
                   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
                   Sending Honk...
@@ -239,6 +398,8 @@ export function ComposeHonk({
                   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
                   Loading...
                 </>
+              ) : preview ? (
+                'Confirm & Send 🚀'
               ) : (
                 'Send Honk! 🚀'
               )}
@@ -1,14 +1,20 @@
 'use client';
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useRef } from 'react';
 import Cookies from 'js-cookie';
-import { ComposeHonk } from './ComposeHonk';
+import { ComposeHonk, ComposedHonk } from './ComposeHonk';
+import { RoutePreview } from '@/types';
+
+interface ComposeHonkExampleProps {
+    /** Fetch a route preview to confirm before sending; resolve null to send straight away */
+    onPreview?: (message: ComposedHonk) => Promise<RoutePreview | null>;
+}
 
 /**
  * Example usage of the ComposeHonk component
  * This demonstrates how to integrate the component with a message sending service
  */
-export function ComposeHonkExample() {
+export function ComposeHonkExample({ onPreview }: ComposeHonkExampleProps = {}) {
     const authToken = useMemo(() => {
         const tokenFromCookie = typeof document !== 'undefined' ? Cookies.get('honk_auth_token') : undefined;
         if (tokenFromCookie && tokenFromCookie.trim()) {
@@ -25,11 +31,24 @@ export function ComposeHonkExample() {
         return null;
     }, []);
 
-    const handleSendMessage = async (messageData: {
-        title: string;
-        content: string;
-        locationSharing: 'state' | 'country' | 'anonymous';
-    }) => {
+    // Resuming from the drafts list lands here with ?draft=<id>
+    const draftId = useMemo(() => {
+        if (typeof window === 'undefined') {
+            return undefined;
+        }
+        return new URLSearchParams(window.location.search).get('draft') ?? undefined;
+    }, []);
+
+    // The previewed route is only meaningful if the honk flies to the same recipient
+    const previewRecipientId = useRef<string | undefined>(undefined);
+
+    const handlePreview = async (messageData: ComposedHonk): Promise<RoutePreview | null> => {
+        const preview = onPreview ? await onPreview(messageData) : null;
+        previewRecipientId.current = preview?.recipient_id;
+        return preview;
+    };
+
+    const handleSendMessage = async (messageData: ComposedHonk) => {
         try {
             if (!authToken) {
                 throw new Error('Courier ID missing. Please refresh and try again.');
@@ -41,7 +60,7 @@ export function ComposeHonkExample() {
                     'Content-Type': 'application/json',
                     'Authorization': `Bearer ${authToken}`,
                 },
-                body: JSON.stringify(messageData),
+                body: JSON.stringify({ ...messageData, recipient_id: previewRecipientId.current }),
             });
 
             if (!response.ok) {
@@ -66,8 +85,10 @@ export function ComposeHonkExample() {
         <div className="container mx-auto py-8">
             <ComposeHonk
                 onSend={handleSendMessage}
+                onPreview={onPreview && handlePreview}
                 characterLimit={280}
                 titleLimit={100}
+                draft={{ kind: 'honk', id: draftId }}
             />
         </div>
     );
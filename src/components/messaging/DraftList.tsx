@@ -0,0 +1,132 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { draftClient, draftResumeUrl } from '@/lib/draft-client';
+import { DraftKind, DraftSummary } from '@/types';
+import { FileText, Loader2, Trash2 } from 'lucide-react';
+
+const KIND_LABELS: Record<DraftKind, string> = {
+  honk: '🦆 Honk',
+  reply: '↩️ Reply',
+  postcard: '📮 Postcard'
+};
+
+const MAX_PREVIEW_STICKERS = 6;
+
+function StickerStrip({ draft }: { draft: DraftSummary }) {
+  if (draft.sticker_data.length === 0) {
+    return null;
+  }
+
+  const extra = draft.sticker_data.length - MAX_PREVIEW_STICKERS;
+  return (
+    <div className="flex items-center gap-1" aria-label={`${draft.sticker_data.length} stickers`}>
+      {draft.sticker_data.slice(0, MAX_PREVIEW_STICKERS).map(sticker => (
+        sticker.emoji ? (
+          <span key={sticker.id} className="text-lg">{sticker.emoji}</span>
+        ) : sticker.imageUrl ? (
+          <Image
+            key={sticker.id}
+            src={sticker.imageUrl}
+            alt={sticker.name}
+            width={20}
+            height={20}
+            unoptimized
+            className="h-5 w-5 object-contain"
+          />
+        ) : null
+      ))}
+      {extra > 0 && <span className="text-xs text-gray-500">+{extra}</span>}
+    </div>
+  );
+}
+
+/**
+ * The user's unsent honks, replies and postcards with a preview of each,
+ * linking back to the composer they were started in
+ */
+export function DraftList() {
+  const [drafts, setDrafts] = useState<DraftSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    draftClient.list()
+      .then(setDrafts)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load drafts'));
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await draftClient.remove(id);
+      setDrafts(prev => prev?.filter(draft => draft.id !== id) ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete draft');
+    }
+  };
+
+  if (error) {
+    return <p className="text-center text-red-600">{error}</p>;
+  }
+
+  if (!drafts) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (drafts.length === 0) {
+    return (
+      <div className="text-center text-gray-600 py-12">
+        <FileText className="h-10 w-10 mx-auto mb-3 text-gray-400" />
+        <p>No drafts yet. Anything you start composing is saved here automatically.</p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="space-y-3">
+      {drafts.map(draft => (
+        <li key={draft.id}>
+          <Card>
+            <CardContent className="p-4 flex items-start justify-between gap-4">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className="text-xs">{KIND_LABELS[draft.kind]}</Badge>
+                  <span className="text-xs text-gray-500">
+                    Edited {new Date(draft.updated_at).toLocaleString()}
+                  </span>
+                </div>
+                <h3 className="font-semibold text-gray-900 truncate">{draft.title || 'Untitled'}</h3>
+                <p className="text-sm text-gray-700 truncate">{draft.preview || 'Nothing written yet'}</p>
+                {draft.recipient_name && (
+                  <p className="text-xs text-gray-500">To: {draft.recipient_name}</p>
+                )}
+                <StickerStrip draft={draft} />
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <Link href={draftResumeUrl(draft)}>
+                  <Button size="sm">Resume</Button>
+                </Link>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleDelete(draft.id)}
+                  aria-label={`Delete draft ${draft.title || 'Untitled'}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </li>
+      ))}
+    </ul>
+  );
+}
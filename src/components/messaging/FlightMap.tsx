@@ -5,11 +5,20 @@ import L from 'leaflet';
 import '../../styles/leaflet.css';
 import { LocationData, RouteWaypoint } from '@/types';
 
+/** An extra point of interest along the flight, such as a weather encounter */
+export interface FlightMapMarker {
+  id: string;
+  position: LocationData;
+  icon: string;
+  label: string;
+}
+
 interface FlightMapProps {
   currentPosition: LocationData;
   startLocation: LocationData;
   endLocation: LocationData;
   waypoints?: RouteWaypoint[];
+  markers?: FlightMapMarker[];
   className?: string;
 }
 
@@ -18,6 +27,7 @@ export function FlightMap({
   startLocation,
   endLocation,
   waypoints = [],
+  markers = [],
   className = ''
 }: FlightMapProps) {
   const mapRef = useRef<L.Map | null>(null);
@@ -128,6 +138,18 @@ export function FlightMap({
       animate: true
     }).addTo(mapRef.current);
 
+    // Points of interest along the way
+    for (const marker of markers) {
+      L.marker([marker.position.latitude, marker.position.longitude], {
+        icon: L.divIcon({
+          html: marker.icon,
+          className: 'start-marker',
+          iconSize: [24, 24],
+          iconAnchor: [12, 12]
+        })
+      }).bindTooltip(marker.label).addTo(mapRef.current);
+    }
+
     // Add current position marker (duck)
     const duckMarker = L.marker([currentPosition.latitude, currentPosition.longitude], {
       icon: L.divIcon({
@@ -147,7 +169,7 @@ export function FlightMap({
     ]);
     mapRef.current.fitBounds(bounds, { padding: [50, 50] });
 
-  }, [currentPosition, startLocation, endLocation, waypoints]);
+  }, [currentPosition, startLocation, endLocation, waypoints, markers]);
 
   return (
     <div className={`relative ${className}`}>
@@ -13,7 +13,7 @@ const Progress = ({ value, className }: { value: number; className?: string }) =
     />
   </div>
 );
-import { clientFlightEngine } from '@/services/clientFlightEngine';
+import { clientFlightClock, clientFlightEngine } from '@/services/clientFlightEngine';
 import { LocationData, FlightProgress, WeatherEvent } from '@/types';
 import { GeolocationService } from '@/services/geolocation';
 import { weatherService } from '@/services/weather';
@@ -399,7 +399,7 @@ export function FlightTracker({
                     <div className="text-gray-600">ETA</div>
                     <div className="font-semibold">
                       {formatDuration(
-                        new Date(flightProgress.estimated_arrival).getTime() - Date.now()
+                        new Date(flightProgress.estimated_arrival).getTime() - clientFlightClock.now()
                       )}
                     </div>
                   </div>
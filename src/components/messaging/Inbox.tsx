@@ -234,13 +234,22 @@ export function Inbox() {
               <span className="text-4xl">📬</span>
               <span>Your Postcards</span>
             </h1>
-            <button
-              onClick={() => router.push('/postcard')}
-              className="px-6 py-3 bg-journal-accent hover:bg-journal-accent/90 text-white rounded-full font-semibold transition-all shadow-lg hover:shadow-xl hover:scale-105 flex items-center gap-2"
-            >
-              <span className="text-xl">✉️</span>
-              <span>New Postcard</span>
-            </button>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => router.push('/scrapbook')}
+                className="px-6 py-3 bg-white hover:bg-gray-50 border-2 border-journal-accent/20 text-journal-accent rounded-full font-semibold transition-all shadow-lg hover:shadow-xl flex items-center gap-2"
+              >
+                <span className="text-xl">📒</span>
+                <span>Scrapbook</span>
+              </button>
+              <button
+                onClick={() => router.push('/postcard')}
+                className="px-6 py-3 bg-journal-accent hover:bg-journal-accent/90 text-white rounded-full font-semibold transition-all shadow-lg hover:shadow-xl hover:scale-105 flex items-center gap-2"
+              >
+                <span className="text-xl">✉️</span>
+                <span>New Postcard</span>
+              </button>
+            </div>
           </div>
             
             {/* Filters/Search Bar */}
@@ -6,6 +6,7 @@ import Cookies from 'js-cookie';
 import { useAuth } from '@/contexts/AuthContext';
 import { HonkMessage } from '@/types';
 import ParallaxCanvas from '@/components/ParallaxCanvas';
+import { PostcardDrawingCanvas } from '@/components/PostcardDrawingCanvas';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import { motion, useMotionValue, useTransform } from 'motion/react';
 
@@ -389,6 +390,15 @@ function PostcardDisplay({
       }}
     >
       <div className="relative h-full w-full bg-gradient-to-br from-journal-paper to-white">
+        {/* Freehand drawing, under the message text like on the compose screen */}
+        {postcard.drawing_data && postcard.drawing_data.strokes.length > 0 && (
+          <PostcardDrawingCanvas
+            drawing={postcard.drawing_data}
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            style={{ objectFit: 'contain' }}
+          />
+        )}
+
         {/* Postcard border effect - Red and Blue stripes like actual postcard */}
         <div 
           className="absolute inset-0 pointer-events-none"
@@ -24,6 +24,13 @@ export function InboxMessage({ message, onClick }: InboxMessageProps) {
         </Badge>
       );
     }
+    if (message.status === 'returned') {
+      return (
+        <Badge variant="secondary" className="bg-red-100 text-red-800">
+          ↩️ Returned
+        </Badge>
+      );
+    }
     return (
       <Badge variant="default" className="bg-green-100 text-green-800">
         ✅ Delivered
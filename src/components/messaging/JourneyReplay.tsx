@@ -0,0 +1,201 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { journeyReplayClient } from '@/lib/journey-replay-client';
+import { replayMarkersUpTo, replayPositionAt } from '@/utils/journeyReplay';
+import { JourneyReplayData } from '@/types';
+import { Loader2, Pause, Play, RotateCcw } from 'lucide-react';
+
+// Leaflet needs window, so the map only loads in the browser
+const FlightMap = dynamic(() => import('./FlightMap').then(mod => mod.FlightMap), {
+  ssr: false,
+  loading: () => <div className="h-[400px] bg-gray-100 rounded-lg flex items-center justify-center">Loading map...</div>
+});
+
+/** Seconds a whole flight takes to replay at 1× */
+const REPLAY_SECONDS = 30;
+const TICK_MS = 100;
+const SPEEDS = [0.5, 1, 2, 4];
+
+const formatFlightTime = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+interface JourneyReplayProps {
+  messageId: string;
+}
+
+/**
+ * Replays a delivered honk's flight on the map, with a timeline of the
+ * weather and reroutes it met and the points each part of it earned
+ */
+export function JourneyReplay({ messageId }: JourneyReplayProps) {
+  const [replay, setReplay] = useState<JourneyReplayData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [selectedItem, setSelectedItem] = useState<number | null>(null);
+
+  useEffect(() => {
+    journeyReplayClient.get(messageId)
+      .then(setReplay)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load journey replay'));
+  }, [messageId]);
+
+  const duration = replay?.timeline.duration_ms ?? 0;
+
+  useEffect(() => {
+    if (!playing || duration === 0) return;
+
+    const step = (duration / (REPLAY_SECONDS * 1000)) * TICK_MS * speed;
+    const timer = setInterval(() => setElapsed(prev => Math.min(prev + step, duration)), TICK_MS);
+    return () => clearInterval(timer);
+  }, [playing, speed, duration]);
+
+  useEffect(() => {
+    if (duration > 0 && elapsed >= duration) setPlaying(false);
+  }, [elapsed, duration]);
+
+  const passed = useMemo(() => (replay ? replayMarkersUpTo(replay.timeline, elapsed) : []), [replay, elapsed]);
+  const position = useMemo(
+    () => (replay ? replayPositionAt(replay.route, replay.timeline, elapsed) : null),
+    [replay, elapsed]
+  );
+  // Weather and reroutes appear on the map as the duck reaches them
+  const mapMarkers = useMemo(() => passed
+    .filter(marker => marker.kind === 'weather' || marker.kind === 'reroute')
+    .map(marker => ({ id: marker.id, position: marker.position, icon: marker.icon, label: marker.label })), [passed]);
+
+  if (error) {
+    return <p className="text-center text-red-600 py-6">{error}</p>;
+  }
+  if (!replay || !position) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  const current = passed[passed.length - 1];
+  const highlighted = new Set(selectedItem !== null ? replay.points.breakdown[selectedItem].marker_ids : []);
+
+  const togglePlaying = () => {
+    if (!playing && elapsed >= duration) setElapsed(0);
+    setPlaying(!playing);
+  };
+
+  const seek = (offset: number) => {
+    setPlaying(false);
+    setElapsed(offset);
+  };
+
+  const selectItem = (index: number) => {
+    setSelectedItem(selectedItem === index ? null : index);
+    const first = replay.timeline.markers.find(marker => replay.points.breakdown[index].marker_ids.includes(marker.id));
+    if (first) seek(first.offset_ms);
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">🎬 Journey Replay</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <FlightMap
+          currentPosition={position}
+          startLocation={replay.origin}
+          endLocation={replay.destination}
+          waypoints={replay.route}
+          markers={mapMarkers}
+        />
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" onClick={togglePlaying} aria-label={playing ? 'Pause' : 'Play'}>
+            {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => seek(0)} aria-label="Restart">
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+          <div className="flex gap-1" role="group" aria-label="Replay speed">
+            {SPEEDS.map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={option === speed ? 'default' : 'ghost'}
+                onClick={() => setSpeed(option)}
+              >
+                {option}×
+              </Button>
+            ))}
+          </div>
+          <span className="ml-auto text-sm text-gray-600">
+            {formatFlightTime(elapsed)} / {formatFlightTime(duration)}
+          </span>
+        </div>
+
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={Math.max(duration / 1000, 1)}
+          value={elapsed}
+          onChange={event => seek(Number(event.target.value))}
+          className="w-full"
+          aria-label="Replay position"
+        />
+
+        {/* Timeline of everything the flight met */}
+        <div className="relative h-8 rounded bg-gray-100">
+          {replay.timeline.markers.map(marker => (
+            <button
+              key={marker.id}
+              type="button"
+              onClick={() => seek(marker.offset_ms)}
+              title={`${marker.label} · ${formatFlightTime(marker.offset_ms)}`}
+              aria-label={marker.label}
+              className={`absolute top-1/2 -translate-x-1/2 -translate-y-1/2 rounded-full px-1 text-lg leading-none ${
+                highlighted.has(marker.id) ? 'bg-yellow-200 ring-2 ring-yellow-400' : ''
+              } ${marker.offset_ms > elapsed ? 'opacity-40' : ''}`}
+              style={{ left: `${duration > 0 ? (marker.offset_ms / duration) * 100 : 0}%` }}
+            >
+              {marker.icon}
+            </button>
+          ))}
+        </div>
+
+        {current && (
+          <p className="text-sm text-gray-700">
+            {current.icon} {current.label}
+          </p>
+        )}
+
+        <div>
+          <h4 className="font-semibold mb-2">Points Earned · {replay.points.total}</h4>
+          <ul className="space-y-1">
+            {replay.points.breakdown.map((item, index) => (
+              <li key={item.label}>
+                <button
+                  type="button"
+                  onClick={() => selectItem(index)}
+                  className={`w-full text-left text-sm rounded px-2 py-1 ${
+                    selectedItem === index
+                      ? 'bg-yellow-100'
+                      : current && item.marker_ids.includes(current.id) ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  {item.label}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,8 +6,10 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
+import { PostcardDrawingCanvas } from '@/components/PostcardDrawingCanvas';
+import { JourneyReplay } from '@/components/messaging/JourneyReplay';
 import { formatDistanceToNow, format } from 'date-fns';
-import { ArrowLeft, Reply, MapPin, Clock, Award } from 'lucide-react';
+import { ArrowLeft, Reply, MapPin, Clock, Award, Play } from 'lucide-react';
 
 interface MessageDetailViewProps {
   message: HonkMessage & { sender_username?: string; sender_rank?: string };
@@ -23,6 +25,7 @@ export function MessageDetailView({
   currentUserId 
 }: MessageDetailViewProps) {
   const [isReplying, setIsReplying] = useState(false);
+  const [showReplay, setShowReplay] = useState(false);
 
   const handleReply = () => {
     if (onReply) {
@@ -55,10 +58,18 @@ export function MessageDetailView({
     return (
       <Card className="mt-6">
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <MapPin className="h-5 w-5" />
-            Journey Information
-          </CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <MapPin className="h-5 w-5" />
+              Journey Information
+            </CardTitle>
+            {message.status === 'delivered' && !showReplay && (
+              <Button variant="ghost" size="sm" onClick={() => setShowReplay(true)}>
+                <Play className="h-4 w-4 mr-2" />
+                Replay journey
+              </Button>
+            )}
+          </div>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -209,6 +220,17 @@ export function MessageDetailView({
               {message.content}
             </p>
           </div>
+
+          {message.drawing_data && message.drawing_data.strokes.length > 0 && (
+            <div className="mt-6 rounded-lg border bg-white overflow-hidden" style={{ aspectRatio: '600 / 375' }}>
+              <PostcardDrawingCanvas
+                drawing={message.drawing_data}
+                className="w-full h-full"
+                aria-label="Postcard drawing"
+                role="img"
+              />
+            </div>
+          )}
           
           {message.delivered_at && (
             <div className="mt-6 p-4 bg-green-50 rounded-lg border border-green-200">
@@ -231,6 +253,8 @@ export function MessageDetailView({
       {/* Journey Information */}
       {renderJourneyInfo()}
 
+      {showReplay && <JourneyReplay messageId={message.id} />}
+
       {/* Delivery Timestamps */}
       {(message.created_at || message.delivered_at) && (
         <Card className="mt-6">
@@ -1,8 +1,8 @@
 'use client';
 
 import React, { useState } from 'react';
-import { HonkMessage } from '@/types';
-import { ComposeHonk } from './ComposeHonk';
+import { HonkMessage, RoutePreview } from '@/types';
+import { ComposeHonk, ComposedHonk } from './ComposeHonk';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -17,24 +17,28 @@ interface ReplyComposeProps {
     locationSharing: 'state' | 'country' | 'anonymous';
     recipient_id: string;
     reply_to_message_id: string;
+    draft_id?: string;
   }) => Promise<void>;
+  onPreview?: (replyData: ComposedHonk & { recipient_id: string }) => Promise<RoutePreview | null>;
   onCancel: () => void;
   isLoading?: boolean;
+  /** Autosave the reply to /api/drafts, resuming `draftId` if given */
+  autosave?: boolean;
+  draftId?: string;
 }
 
 export function ReplyCompose({ 
   originalMessage, 
   onSend, 
+  onPreview,
   onCancel, 
-  isLoading = false 
+  isLoading = false,
+  autosave = false,
+  draftId
 }: ReplyComposeProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const handleSend = async (messageData: {
-    title: string;
-    content: string;
-    locationSharing: 'state' | 'country' | 'anonymous';
-  }) => {
+  const handleSend = async (messageData: ComposedHonk) => {
     setIsSubmitting(true);
     try {
       await onSend({
@@ -47,6 +51,10 @@ export function ReplyCompose({
     }
   };
 
+  const handlePreview = onPreview
+    ? (messageData: ComposedHonk) => onPreview({ ...messageData, recipient_id: originalMessage.sender_id })
+    : undefined;
+
   const renderLocationInfo = () => {
     const senderLocation = originalMessage.sender_location;
     if (!senderLocation || senderLocation.is_anonymous) {
@@ -127,9 +135,16 @@ export function ReplyCompose({
         <h2 className="text-xl font-semibold mb-4">Your Reply</h2>
         <ComposeHonk
           onSend={handleSend}
+          onPreview={handlePreview}
           characterLimit={280}
           titleLimit={100}
           isLoading={isLoading || isSubmitting}
+          draft={autosave ? {
+            id: draftId,
+            kind: 'reply',
+            recipient_id: originalMessage.sender_id,
+            reply_to_message_id: originalMessage.id
+          } : undefined}
         />
       </div>
     </div>
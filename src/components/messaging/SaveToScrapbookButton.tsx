@@ -0,0 +1,50 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { scrapbookClient } from '@/lib/scrapbook-client';
+import { BookmarkCheck, BookmarkPlus } from 'lucide-react';
+
+/**
+ * Keeps a delivered honk in the recipient's scrapbook
+ */
+export function SaveToScrapbookButton({ messageId }: { messageId: string }) {
+  const [saved, setSaved] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await scrapbookClient.add(messageId);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save to scrapbook');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (saved) {
+    return (
+      <Link href="/scrapbook">
+        <Button size="sm" variant="ghost">
+          <BookmarkCheck className="h-4 w-4 mr-2" />
+          Saved to scrapbook
+        </Button>
+      </Link>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center gap-2">
+      <Button size="sm" variant="ghost" onClick={save} disabled={saving}>
+        <BookmarkPlus className="h-4 w-4 mr-2" />
+        Save to scrapbook
+      </Button>
+      {error && <span className="text-sm text-red-600">{error}</span>}
+    </span>
+  );
+}
@@ -0,0 +1,238 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import PostcardGallery from '@/components/PostcardGallery';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { groupScrapbookCards, scrapbookClient, ScrapbookGrouping } from '@/lib/scrapbook-client';
+import { getLocationDisplayString } from '@/utils/location';
+import { HonkMessage, ScrapbookCard } from '@/types';
+import { BookHeart, Download, Loader2, Pin, PinOff, Trash2, X } from 'lucide-react';
+
+const parseTags = (text: string) => text.split(',').map(tag => tag.trim()).filter(Boolean);
+
+/**
+ * Tags, pin and removal for the card picked from a shelf
+ */
+function EntryEditor({
+  card,
+  onChange,
+  onRemove,
+  onClose
+}: {
+  card: ScrapbookCard;
+  onChange: (card: ScrapbookCard) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}) {
+  const [tagText, setTagText] = useState(card.tags.join(', '));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => setTagText(card.tags.join(', ')), [card]);
+
+  const save = async (changes: { tags?: string[]; pinned?: boolean }) => {
+    setSaving(true);
+    setError(null);
+    try {
+      onChange(await scrapbookClient.update(card.id, changes));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update entry');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    try {
+      await scrapbookClient.remove(card.id);
+      onRemove(card.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove entry');
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h3 className="font-semibold text-gray-900 truncate">{card.message.title || 'Untitled'}</h3>
+            <p className="text-xs text-gray-500">
+              From {card.message.sender_username || 'Anonymous'} in {getLocationDisplayString(card.message.sender_location)}
+              {' · '}saved {new Date(card.created_at).toLocaleDateString()}
+            </p>
+          </div>
+          <Button size="sm" variant="ghost" onClick={onClose} aria-label="Close">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <form
+          className="flex gap-2"
+          onSubmit={event => {
+            event.preventDefault();
+            save({ tags: parseTags(tagText) });
+          }}
+        >
+          <Input
+            value={tagText}
+            onChange={event => setTagText(event.target.value)}
+            placeholder="Tags, separated by commas"
+            aria-label="Tags"
+          />
+          <Button type="submit" size="sm" disabled={saving}>Save tags</Button>
+        </form>
+
+        <div className="flex gap-2">
+          <Button size="sm" variant="ghost" disabled={saving} onClick={() => save({ pinned: !card.pinned })}>
+            {card.pinned ? <PinOff className="h-4 w-4 mr-2" /> : <Pin className="h-4 w-4 mr-2" />}
+            {card.pinned ? 'Unpin' : 'Pin'}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={remove}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Remove from scrapbook
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Saved honks on shelves by country or tag, with pinned cards first and a
+ * tag search across the whole scrapbook
+ */
+export function Scrapbook() {
+  const [cards, setCards] = useState<ScrapbookCard[] | null>(null);
+  const [grouping, setGrouping] = useState<ScrapbookGrouping>('country');
+  const [tagFilter, setTagFilter] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (tag?: string) => {
+    try {
+      setCards(await scrapbookClient.list(tag));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load scrapbook');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const pinned = useMemo(() => cards?.filter(card => card.pinned) ?? [], [cards]);
+  const shelves = useMemo(() => groupScrapbookCards(cards ?? [], grouping), [cards, grouping]);
+  const selected = cards?.find(card => card.id === selectedId) ?? null;
+
+  const selectMessage = (list: ScrapbookCard[]) => (message: HonkMessage) =>
+    setSelectedId(list.find(card => card.message_id === message.id)?.id ?? null);
+
+  const replaceCard = (updated: ScrapbookCard) =>
+    setCards(prev => prev?.map(card => (card.id === updated.id ? updated : card)) ?? null);
+
+  const removeCard = (id: string) => {
+    setCards(prev => prev?.filter(card => card.id !== id) ?? null);
+    setSelectedId(null);
+  };
+
+  const exportScrapbook = async () => {
+    try {
+      await scrapbookClient.download();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export scrapbook');
+    }
+  };
+
+  const shelf = (label: string, list: ScrapbookCard[]) => (
+    <section key={label} className="space-y-2">
+      <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+        {label}
+        <Badge variant="secondary" className="text-xs">{list.length}</Badge>
+      </h2>
+      <div className="h-[460px] relative rounded-2xl bg-white/40">
+        <PostcardGallery
+          messages={list.map(card => card.message)}
+          onMessageClick={selectMessage(list)}
+          bend={2}
+          textColor="#000000"
+          borderRadius={0.02}
+          scrollSpeed={1.2}
+          scrollEase={0.08}
+        />
+      </div>
+    </section>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <form
+          className="flex flex-1 min-w-[240px] gap-2"
+          onSubmit={event => {
+            event.preventDefault();
+            setCards(null);
+            load(tagFilter.trim() || undefined);
+          }}
+        >
+          <Input
+            value={tagFilter}
+            onChange={event => setTagFilter(event.target.value)}
+            placeholder="Search by tag"
+            aria-label="Search by tag"
+          />
+          <Button type="submit" size="sm">Search</Button>
+        </form>
+        <select
+          value={grouping}
+          onChange={event => setGrouping(event.target.value as ScrapbookGrouping)}
+          className="px-3 py-2 border rounded-md bg-white text-sm"
+          aria-label="Group by"
+        >
+          <option value="country">Group by country</option>
+          <option value="tag">Group by tag</option>
+        </select>
+        <Button size="sm" variant="ghost" onClick={exportScrapbook}>
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </div>
+
+      {error && <p className="text-center text-red-600">{error}</p>}
+
+      {selected && (
+        <EntryEditor
+          card={selected}
+          onChange={replaceCard}
+          onRemove={removeCard}
+          onClose={() => setSelectedId(null)}
+        />
+      )}
+
+      {!cards && !error && (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        </div>
+      )}
+
+      {cards && cards.length === 0 && (
+        <div className="text-center text-gray-600 py-12">
+          <BookHeart className="h-10 w-10 mx-auto mb-3 text-gray-400" />
+          <p>
+            {tagFilter.trim()
+              ? 'No saved honks carry that tag.'
+              : 'Nothing saved yet. Keep a delivered honk from its reply page to start your scrapbook.'}
+          </p>
+        </div>
+      )}
+
+      {pinned.length > 0 && shelf('📌 Pinned', pinned)}
+      {shelves.map(group => shelf(group.label, group.cards))}
+    </div>
+  );
+}
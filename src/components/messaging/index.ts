@@ -11,4 +11,5 @@ export { MessageDetailView } from './MessageDetailView';
 export { InboxFiltersComponent } from './InboxFilters';
 export type { ComposeHonkProps } from './ComposeHonk';
 export type { InboxFilters } from './InboxFilters';
-export { ComposeHonkExample } from './ComposeHonkExample';
\ No newline at end of file
+export { ComposeHonkExample } from './ComposeHonkExample';
+export { DraftList } from './DraftList';
\ No newline at end of file
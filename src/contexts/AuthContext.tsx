@@ -1,25 +1,40 @@
 'use client';
 
-import React, { createContext, useContext, useEffect, useState, ReactNode, useCallback } from 'react';
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode, useCallback } from 'react';
 import Cookies from 'js-cookie';
-import { AuthUser, LoginCredentials, RegisterCredentials, AuthResponse, UserProfile } from '@/types';
+import { AuthUser, LoginCredentials, RegisterCredentials, AuthResponse, UserProfile, SessionTokens } from '@/types';
 
 interface AuthContextType {
   user: AuthUser | null;
   loading: boolean;
   login: (credentials: LoginCredentials) => Promise<AuthResponse>;
   register: (credentials: RegisterCredentials) => Promise<AuthResponse>;
-  logout: () => void;
+  logout: () => Promise<void>;
+  logoutEverywhere: () => Promise<void>;
   updateProfile: (profile: Partial<UserProfile>) => Promise<boolean>;
   refreshUser: () => Promise<void>;
   generateLinkCode: () => Promise<{ code: string; expiresIn: number } | null>;
   linkDevice: (code: string) => Promise<boolean>;
+  recoverAccount: (code: string) => Promise<AuthResponse>;
+  /** Recovery codes to show the user once, after sign-up or regeneration */
+  recoveryCodes: string[] | null;
+  regenerateRecoveryCodes: () => Promise<boolean>;
+  dismissRecoveryCodes: () => void;
+  /** This browser's stored device secret was refused, e.g. because the device was removed */
+  deviceSignedOut: boolean;
+  /** Forget this browser's old device secret and sign in to a brand-new account */
+  startNewAccount: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 const TOKEN_COOKIE_NAME = 'honk_auth_token';
 const TOKEN_STORAGE_KEY = 'auth_token';
+const REFRESH_TOKEN_STORAGE_KEY = 'honk_refresh_token';
+// Identifies this browser to /api/auth/device so it finds its account again
+const DEVICE_SECRET_STORAGE_KEY = 'honk_device_secret';
+// Renew the access token this long before it expires
+const REFRESH_MARGIN_MS = 60 * 1000;
 const COOKIE_OPTIONS = {
   expires: 7, // 7 days
   secure: process.env.NODE_ENV === 'production',
@@ -38,6 +53,32 @@ const persistToken = (token: string | null) => {
   }
 };
 
+const persistRefreshToken = (refreshToken: string | null) => {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  if (refreshToken) {
+    window.localStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, refreshToken);
+  } else {
+    window.localStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
+  }
+};
+
+const getStoredRefreshToken = () =>
+  typeof window === 'undefined' ? null : window.localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+
+// Device secrets are issued by the server; browsers only keep the one they were given
+const getDeviceSecret = () => window.localStorage.getItem(DEVICE_SECRET_STORAGE_KEY) ?? undefined;
+
+const persistDeviceSecret = (deviceSecret: string | undefined) => {
+  if (deviceSecret) {
+    window.localStorage.setItem(DEVICE_SECRET_STORAGE_KEY, deviceSecret);
+  }
+};
+
+const forgetDeviceSecret = () => window.localStorage.removeItem(DEVICE_SECRET_STORAGE_KEY);
+
 const getStoredToken = () => {
   const cookieToken = Cookies.get(TOKEN_COOKIE_NAME);
   if (cookieToken) {
@@ -61,77 +102,180 @@ interface AuthProviderProps {
 export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState(true);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [deviceSignedOut, setDeviceSignedOut] = useState(false);
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Initialize auth state on mount
   useEffect(() => {
     initializeAuth();
+    return () => {
+      if (refreshTimer.current) clearTimeout(refreshTimer.current);
+    };
   }, []);
 
+  const clearSession = () => {
+    if (refreshTimer.current) clearTimeout(refreshTimer.current);
+    Cookies.remove(TOKEN_COOKIE_NAME);
+    persistToken(null);
+    persistRefreshToken(null);
+  };
+
+  const storeSession = (tokens: Partial<SessionTokens> & { token: string }) => {
+    Cookies.set(TOKEN_COOKIE_NAME, tokens.token, COOKIE_OPTIONS);
+    persistToken(tokens.token);
+    if (tokens.refreshToken) {
+      persistRefreshToken(tokens.refreshToken);
+    }
+
+    if (refreshTimer.current) clearTimeout(refreshTimer.current);
+    if (tokens.expiresIn) {
+      const delay = Math.max(tokens.expiresIn * 1000 - REFRESH_MARGIN_MS, 0);
+      refreshTimer.current = setTimeout(() => {
+        refreshSession().then(refreshed => {
+          if (!refreshed) {
+            setUser(null);
+            clearSession();
+          }
+        });
+      }, delay);
+    }
+  };
+
+  /**
+   * Swap the stored refresh token for a new access token. Resolves the new
+   * access token, or null if the session is over.
+   */
+  const refreshSession = async (): Promise<string | null> => {
+    const refreshToken = getStoredRefreshToken();
+    if (!refreshToken) {
+      return null;
+    }
+
+    try {
+      const response = await fetch('/api/auth/refresh', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        if (data.success && data.token) {
+          storeSession(data);
+          return data.token;
+        }
+      }
+    } catch (error) {
+      console.error('Session refresh error:', error);
+    }
+
+    return null;
+  };
+
+  const verifyToken = async (token: string): Promise<AuthUser | null> => {
+    const response = await fetch('/api/auth/verify', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ token }),
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      if (data.success && data.user) {
+        return data.user;
+      }
+    }
+    return null;
+  };
+
   const getDeviceInfo = () => {
     return {
       userAgent: navigator.userAgent,
       screenResolution: `${screen.width}x${screen.height}`,
       timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
       language: navigator.language,
-      platform: navigator.platform
+      platform: navigator.platform,
+      deviceSecret: getDeviceSecret()
     };
   };
 
+  /**
+   * Sign in by this browser's device secret, creating an account on a first
+   * visit. A refused secret is not replaced: the user chooses between
+   * recovering their account and starting a new one.
+   */
+  const signInDevice = async () => {
+    try {
+      const deviceInfo = getDeviceInfo();
+      const response = await fetch('/api/auth/device', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(deviceInfo),
+      });
+
+      if (response.status === 401) {
+        setDeviceSignedOut(true);
+        return;
+      }
+
+      if (response.ok) {
+        const data = await response.json();
+        if (data.success && data.user && data.token) {
+          setUser(data.user);
+          setDeviceSignedOut(false);
+          storeSession(data);
+          persistDeviceSecret(data.deviceSecret);
+          if (data.recoveryCodes) {
+            setRecoveryCodes(data.recoveryCodes);
+          }
+        }
+      }
+    } catch (deviceAuthError) {
+      console.error('Device auth error:', deviceAuthError);
+    }
+  };
+
   const initializeAuth = async () => {
     try {
       const token = Cookies.get(TOKEN_COOKIE_NAME);
       if (token) {
         // Try to verify existing token
-        const response = await fetch('/api/auth/verify', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ token }),
-        });
-
-        if (response.ok) {
-          const data = await response.json();
-          if (data.success && data.user) {
-            setUser(data.user);
-            persistToken(token);
-            setLoading(false);
-            return;
-          }
+        const existingUser = await verifyToken(token);
+        if (existingUser) {
+          setUser(existingUser);
+          persistToken(token);
+          // The remaining lifetime is unknown, so renew straight away
+          await refreshSession();
+          setLoading(false);
+          return;
         }
+      }
 
-        // Token is invalid, remove it
-        Cookies.remove(TOKEN_COOKIE_NAME);
-        persistToken(null);
+      // The access token is missing or expired; renew it if the session is still live
+      const refreshedToken = await refreshSession();
+      const refreshedUser = refreshedToken ? await verifyToken(refreshedToken) : null;
+      if (refreshedUser) {
+        setUser(refreshedUser);
+        setLoading(false);
+        return;
       }
 
-      // No valid token, try seamless device authentication
-      try {
-        const deviceInfo = getDeviceInfo();
-        const response = await fetch('/api/auth/device', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(deviceInfo),
-        });
+      // Token is invalid, remove it
+      clearSession();
 
-        if (response.ok) {
-          const data = await response.json();
-          if (data.success && data.user && data.token) {
-            setUser(data.user);
-            Cookies.set(TOKEN_COOKIE_NAME, data.token, COOKIE_OPTIONS);
-            persistToken(data.token);
-          }
-        }
-      } catch (deviceAuthError) {
-        console.error('Device auth error:', deviceAuthError);
-      }
+      // No valid token, try seamless device authentication
+      await signInDevice();
 
     } catch (error) {
       console.error('Auth initialization error:', error);
-      Cookies.remove(TOKEN_COOKIE_NAME);
-      persistToken(null);
+      clearSession();
     } finally {
       setLoading(false);
     }
@@ -158,12 +302,29 @@ export function AuthProvider({ children }: AuthProviderProps) {
     };
   };
 
-  const logout = () => {
-    setUser(null);
-    Cookies.remove(TOKEN_COOKIE_NAME);
-    persistToken(null);
+  const endSession = async (everywhere: boolean) => {
+    const token = getStoredToken();
+    try {
+      await fetch('/api/auth/logout', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ refreshToken: getStoredRefreshToken() ?? undefined, everywhere }),
+      });
+    } catch (error) {
+      console.error('Logout error:', error);
+    } finally {
+      setUser(null);
+      clearSession();
+    }
   };
 
+  const logout = () => endSession(false);
+
+  const logoutEverywhere = () => endSession(true);
+
   const updateProfile = async (profile: Partial<UserProfile>): Promise<boolean> => {
     try {
       const token = Cookies.get(TOKEN_COOKIE_NAME);
@@ -264,8 +425,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
         const data = await response.json();
         if (data.success && data.user && data.token) {
           setUser(data.user);
-          Cookies.set(TOKEN_COOKIE_NAME, data.token, COOKIE_OPTIONS);
-          persistToken(data.token);
+          storeSession(data);
+          persistDeviceSecret(data.deviceSecret);
           return true;
         }
       }
@@ -277,16 +438,86 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  const recoverAccount = async (code: string): Promise<AuthResponse> => {
+    try {
+      const response = await fetch('/api/auth/recover', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ code, userAgent: navigator.userAgent }),
+      });
+
+      const data = await response.json();
+      if (response.ok && data.success && data.user && data.token) {
+        setUser(data.user);
+        storeSession(data);
+        persistDeviceSecret(data.deviceSecret);
+        setRecoveryCodes(null);
+        setDeviceSignedOut(false);
+        return { success: true, user: data.user, message: data.message };
+      }
+
+      return { success: false, message: data.message || 'Failed to recover account' };
+    } catch (error) {
+      console.error('Account recovery error:', error);
+      return { success: false, message: 'Failed to recover account' };
+    }
+  };
+
+  const regenerateRecoveryCodes = async (): Promise<boolean> => {
+    try {
+      const token = getStoredToken();
+      if (!token) {
+        return false;
+      }
+
+      const response = await fetch('/api/auth/recovery-codes', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        if (data.success && data.recoveryCodes) {
+          setRecoveryCodes(data.recoveryCodes);
+          return true;
+        }
+      }
+
+      return false;
+    } catch (error) {
+      console.error('Regenerate recovery codes error:', error);
+      return false;
+    }
+  };
+
+  const dismissRecoveryCodes = () => setRecoveryCodes(null);
+
+  const startNewAccount = async () => {
+    forgetDeviceSecret();
+    await signInDevice();
+  };
+
   const value: AuthContextType = {
     user,
     loading,
     login,
     register,
     logout,
+    logoutEverywhere,
     updateProfile,
     refreshUser,
     generateLinkCode,
     linkDevice,
+    recoverAccount,
+    recoveryCodes,
+    regenerateRecoveryCodes,
+    dismissRecoveryCodes,
+    deviceSignedOut,
+    startNewAccount,
   };
 
   return (
@@ -224,7 +224,7 @@ export async function demoFlightEngineIntegration(): Promise<void> {
     }
     
     // Cleanup
-    flightEngine.cancelFlight(messageId);
+    await flightEngine.cancelFlight(messageId);
     console.log('\n✅ Demo completed successfully!');
     
   } catch (error) {
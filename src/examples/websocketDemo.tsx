@@ -90,7 +90,7 @@ export function WebSocketDemo() {
   // Stop the current flight
   const stopFlight = () => {
     if (messageId) {
-      flightEngine.cancelFlight(messageId);
+      void flightEngine.cancelFlight(messageId);
       setMessageId(null);
     }
   };
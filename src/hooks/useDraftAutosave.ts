@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { draftClient, DraftFields } from '@/lib/draft-client';
+import { DraftSummary } from '@/types';
+
+export type DraftSaveStatus = 'idle' | 'loading' | 'saving' | 'saved' | 'error';
+
+interface DraftAutosaveOptions {
+  /** Saved draft to resume; a new draft is created on the first save otherwise */
+  draftId?: string;
+  /** Called with the saved draft once it has loaded */
+  onResume?: (draft: DraftSummary) => void;
+  delayMs?: number;
+}
+
+/**
+ * Autosave a composer to /api/drafts, debounced so a save only goes out
+ * once typing pauses. Pass null fields to save nothing (an empty form, or
+ * while sending).
+ */
+export function useDraftAutosave(
+  fields: DraftFields | null,
+  { draftId, onResume, delayMs = 1500 }: DraftAutosaveOptions = {}
+) {
+  const [currentId, setCurrentId] = useState(draftId);
+  const [status, setStatus] = useState<DraftSaveStatus>(draftId ? 'loading' : 'idle');
+  const idRef = useRef(draftId);
+  // Failed saves are retried on the next edit rather than in a loop
+  const lastAttempted = useRef<string | null>(null);
+  // Saves run one at a time so the first save's id is known to the next
+  const pending = useRef<Promise<void>>(Promise.resolve());
+  const onResumeRef = useRef(onResume);
+  onResumeRef.current = onResume;
+
+  useEffect(() => {
+    if (!draftId) return;
+    let cancelled = false;
+
+    idRef.current = draftId;
+    setCurrentId(draftId);
+    setStatus('loading');
+    draftClient.get(draftId)
+      .then(draft => {
+        if (cancelled) return;
+        onResumeRef.current?.(draft);
+        setStatus('saved');
+      })
+      .catch(error => {
+        if (cancelled) return;
+        // Start a fresh draft rather than saving over one we could not read
+        console.error('Failed to load draft:', error);
+        idRef.current = undefined;
+        setCurrentId(undefined);
+        setStatus('error');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [draftId]);
+
+  const serialized = fields ? JSON.stringify(fields) : null;
+
+  useEffect(() => {
+    if (!serialized || serialized === lastAttempted.current || status === 'loading') return;
+
+    const timer = setTimeout(() => {
+      lastAttempted.current = serialized;
+      pending.current = pending.current.then(async () => {
+        setStatus('saving');
+        try {
+          const saved = await draftClient.save(JSON.parse(serialized), idRef.current);
+          idRef.current = saved.id;
+          setCurrentId(saved.id);
+          setStatus('saved');
+        } catch (error) {
+          console.error('Failed to save draft:', error);
+          setStatus('error');
+        }
+      });
+    }, delayMs);
+
+    return () => clearTimeout(timer);
+  }, [serialized, status, delayMs]);
+
+  /** Forget the draft once its message is sent; the server deletes it */
+  const reset = useCallback(() => {
+    idRef.current = undefined;
+    lastAttempted.current = null;
+    setCurrentId(undefined);
+    setStatus('idle');
+  }, []);
+
+  return { draftId: currentId, status, reset };
+}
@@ -71,6 +71,7 @@ export function useWebSocket(userId?: string) {
 export function useFlightProgress(messageId: string | null, userId?: string) {
   const [progress, setProgress] = useState<FlightProgress | null>(null);
   const [isDelivered, setIsDelivered] = useState(false);
+  const [isFailed, setIsFailed] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isSubscribed, setIsSubscribed] = useState(false);
 
@@ -78,6 +79,7 @@ export function useFlightProgress(messageId: string | null, userId?: string) {
     if (!messageId) {
       setProgress(null);
       setIsDelivered(false);
+      setIsFailed(false);
       setIsSubscribed(false);
       return;
     }
@@ -93,6 +95,12 @@ export function useFlightProgress(messageId: string | null, userId?: string) {
       setError(null);
     };
 
+    const handleFailed = (flightProgress: FlightProgress) => {
+      setProgress(flightProgress);
+      setIsFailed(true);
+      setError(null);
+    };
+
     const handleError = (errorMessage: string) => {
       setError(errorMessage);
     };
@@ -100,6 +108,7 @@ export function useFlightProgress(messageId: string | null, userId?: string) {
     // Register callbacks
     webSocketService.onFlightProgress(messageId, handleProgress);
     webSocketService.onFlightDelivered(messageId, handleDelivered);
+    webSocketService.onFlightFailed(messageId, handleFailed);
     webSocketService.onError(handleError);
 
     // Subscribe to flight
@@ -110,6 +119,7 @@ export function useFlightProgress(messageId: string | null, userId?: string) {
     return () => {
       webSocketService.removeFlightProgressCallback(messageId, handleProgress);
       webSocketService.removeFlightDeliveredCallback(messageId, handleDelivered);
+      webSocketService.removeFlightFailedCallback(messageId, handleFailed);
       webSocketService.removeErrorCallback(handleError);
       webSocketService.unsubscribeFromFlight(messageId);
       setIsSubscribed(false);
@@ -128,6 +138,7 @@ export function useFlightProgress(messageId: string | null, userId?: string) {
   return {
     progress,
     isDelivered,
+    isFailed,
     error,
     isSubscribed,
     refresh
@@ -6,6 +6,8 @@ const TOKEN_COOKIE_NAME = 'honk_auth_token';
 
 export interface AuthenticatedRequest extends NextRequest {
   user?: AuthUser;
+  sessionId?: string;
+  deviceId?: string;
 }
 
 function extractToken(request: NextRequest): string | null {
@@ -36,9 +38,9 @@ export function withAuth(handler: (req: AuthenticatedRequest) => Promise<NextRes
         );
       }
 
-      const user = authService.verifyToken(token);
+      const session = await authService.verifySession(token);
 
-      if (!user) {
+      if (!session) {
         return NextResponse.json(
           { success: false, message: 'Invalid or expired courier session' },
           { status: 401 }
@@ -47,7 +49,9 @@ export function withAuth(handler: (req: AuthenticatedRequest) => Promise<NextRes
 
       // Add user to request object
       const authenticatedRequest = request as AuthenticatedRequest;
-      authenticatedRequest.user = user;
+      authenticatedRequest.user = session.user;
+      authenticatedRequest.sessionId = session.sessionId;
+      authenticatedRequest.deviceId = session.deviceId;
 
       return handler(authenticatedRequest);
     } catch (error) {
@@ -71,22 +75,25 @@ export function getAuthenticatedUser(request: AuthenticatedRequest): AuthUser {
 }
 
 /**
- * Authenticate a request and return user info
+ * Authenticate a request and return user info, plus the session and
+ * device the access token was issued to
  */
-export async function authMiddleware(request: NextRequest): Promise<{ success: boolean; user?: AuthUser }> {
+export async function authMiddleware(
+  request: NextRequest
+): Promise<{ success: boolean; user?: AuthUser; sessionId?: string; deviceId?: string }> {
   try {
     const token = extractToken(request);
     if (!token) {
       return { success: false };
     }
 
-    const user = authService.verifyToken(token);
+    const session = await authService.verifySession(token);
 
-    if (!user) {
+    if (!session) {
       return { success: false };
     }
 
-    return { success: true, user };
+    return { success: true, user: session.user, sessionId: session.sessionId, deviceId: session.deviceId };
   } catch (error) {
     console.error('Auth middleware error:', error);
     return { success: false };
@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server';
+
+/**
+ * How many reverse proxies sit in front of the app (TRUSTED_PROXY_HOPS,
+ * default 1). Each appends the address it received the request from to
+ * X-Forwarded-For, so only that many entries from the right can be trusted;
+ * anything further left was sent by the client.
+ */
+export function trustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+  return Number.isInteger(hops) && hops >= 0 ? hops : 1;
+}
+
+/**
+ * The client's address as recorded by the outermost trusted proxy, or null
+ * when it can't be told: no proxies are trusted, or the request didn't come
+ * through all of them
+ */
+export function clientAddress(request: NextRequest, hops: number = trustedProxyHops()): string | null {
+  if (hops === 0) {
+    return null;
+  }
+
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  return forwarded.length >= hops ? forwarded[forwarded.length - hops] : null;
+}
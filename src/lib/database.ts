@@ -1,12 +1,70 @@
-﻿/**
- * Supabase Database Manager
- * Complete replacement for SQLite - uses Supabase PostgreSQL
- */
-import { supabaseAdmin } from './supabase';
-import { User, HonkMessage, Conversation } from '@/types';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import {
+  User,
+  UserRow,
+  HonkMessage,
+  MessageRow,
+  Conversation,
+  ConversationRow,
+  UserReward,
+  UserRewardRow,
+  FlightRecord,
+  FlightRow,
+  DeliveryTier,
+  FlightStatus,
+  FlightEvent,
+  FlightEventRow,
+  FlightEventType,
+  NotificationRecord,
+  NotificationRow,
+  NotificationType,
+  PostcardRecord,
+  PostcardRow,
+  DraftKind,
+  DraftRecord,
+  DraftRow,
+  LocationSharing,
+  UserDevice,
+  UserDeviceRow,
+  SessionRecord,
+  SessionRow,
+  RecoveryCodeRecord,
+  RecoveryCodeRow,
+  ScrapbookEntry,
+  ScrapbookEntryRow,
+} from '@/types';
+import { readPostcardDrawing } from '@/utils/postcardDrawing';
+
+export const DEFAULT_DB_PATH = path.join(process.cwd(), 'data', 'honk.db');
+
+/** Parse a JSON column, falling back when the value is missing or malformed */
+function parseJson<T>(value: string | null | undefined, fallback: T): T {
+  if (value === null || value === undefined || value === '') {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function toIso(value: Date | string | undefined | null): string | null {
+  if (!value) return null;
+  return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+}
 
+/**
+ * SQLite connection manager.
+ * Owns the single better-sqlite3 handle and the row <-> domain transforms
+ * shared by the SQLite repository and the migration scripts.
+ */
 class DatabaseManager {
   private static instance: DatabaseManager;
+  private db: Database.Database | null = null;
 
   private constructor() {}
 
@@ -17,261 +75,320 @@ class DatabaseManager {
     return DatabaseManager.instance;
   }
 
-  public connect() {
-    return supabaseAdmin;
-  }
+  /** Open the database file (idempotent while a connection is open) */
+  public connect(dbPath: string = process.env.HONK_SQLITE_PATH || DEFAULT_DB_PATH): Database.Database {
+    if (this.db) {
+      return this.db;
+    }
 
-  public getDatabase() {
-    return supabaseAdmin;
-  }
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
 
-  public close() {}
-
-  async createUser(user: Partial<User>): Promise<User> {
-    const { data, error } = await supabaseAdmin
-      .from('users')
-      .insert({
-        id: user.id,
-        username: user.username!,
-        password_hash: user.password_hash!,
-        current_location: user.current_location || null,
-        opt_out_random: user.opt_out_random || false,
-      })
-      .select()
-      .single();
-
-    if (error) throw error;
-    return this.rowToUser(data);
-  }
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
 
-  async getUserById(id: string): Promise<User | null> {
-    const { data, error } = await supabaseAdmin
-      .from('users')
-      .select('*')
-      .eq('id', id)
-      .single();
+    return this.db;
+  }
 
-    if (error) {
-      if (error.code === 'PGRST116') return null;
-      throw error;
+  public getDatabase(): Database.Database {
+    if (!this.db) {
+      throw new Error('Database not connected');
     }
-    return this.rowToUser(data);
+    return this.db;
   }
 
-  async getUserByUsername(username: string): Promise<User | null> {
-    const { data, error } = await supabaseAdmin
-      .from('users')
-      .select('*')
-      .eq('username', username)
-      .single();
+  public isConnected(): boolean {
+    return this.db !== null;
+  }
 
-    if (error) {
-      if (error.code === 'PGRST116') return null;
-      throw error;
+  public close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
     }
-    return this.rowToUser(data);
   }
 
-  async updateUser(id: string, updates: Partial<User>): Promise<void> {
-    const updateData: any = { last_active: new Date().toISOString() };
-    if (updates.username) updateData.username = updates.username;
-    if (updates.current_location !== undefined) updateData.current_location = updates.current_location;
-    if (updates.opt_out_random !== undefined) updateData.opt_out_random = updates.opt_out_random;
-
-    const { error } = await supabaseAdmin
-      .from('users')
-      .update(updateData)
-      .eq('id', id);
-
-    if (error) throw error;
+  public userToRow(user: Partial<User> & { device_fingerprint?: string | null }): Partial<UserRow> & { device_fingerprint?: string | null } {
+    return {
+      id: user.id,
+      email: user.email,
+      username: user.username,
+      password_hash: user.password_hash,
+      created_at: toIso(user.created_at) ?? undefined,
+      last_active: toIso(user.last_active) ?? undefined,
+      total_journey_points: user.total_journey_points,
+      current_rank: user.current_rank,
+      location_sharing_preference: user.location_sharing_preference,
+      opt_out_random: user.opt_out_random === undefined ? undefined : user.opt_out_random ? 1 : 0,
+      current_location: user.current_location ? JSON.stringify(user.current_location) : null,
+      total_flights_sent: user.total_flights_sent,
+      total_flights_received: user.total_flights_received,
+      total_distance_traveled: user.total_distance_traveled,
+      countries_visited: user.countries_visited ? JSON.stringify(user.countries_visited) : undefined,
+      states_visited: user.states_visited ? JSON.stringify(user.states_visited) : undefined,
+      achievements: user.achievements ? JSON.stringify(user.achievements) : undefined,
+      time_zone: user.time_zone,
+      device_fingerprint: user.device_fingerprint,
+    };
   }
 
-  async getAllUsers(): Promise<User[]> {
-    const { data, error } = await supabaseAdmin
-      .from('users')
-      .select('*')
-      .order('created_at', { ascending: false });
-
-    if (error) throw error;
-    return data.map(row => this.rowToUser(row));
+  public rowToUser(row: Partial<UserRow> & Pick<UserRow, 'id'>): User {
+    return {
+      id: row.id,
+      email: row.email ?? '',
+      username: row.username ?? '',
+      password_hash: row.password_hash ?? '',
+      created_at: new Date(row.created_at ?? Date.now()),
+      last_active: new Date(row.last_active ?? Date.now()),
+      total_journey_points: row.total_journey_points ?? 0,
+      current_rank: row.current_rank ?? 'Fledgling Courier',
+      location_sharing_preference: (row.location_sharing_preference ?? 'state') as User['location_sharing_preference'],
+      opt_out_random: Boolean(row.opt_out_random),
+      current_location: parseJson(row.current_location, undefined),
+      total_flights_sent: row.total_flights_sent ?? 0,
+      total_flights_received: row.total_flights_received ?? 0,
+      total_distance_traveled: row.total_distance_traveled ?? 0,
+      countries_visited: parseJson<string[]>(row.countries_visited, []),
+      states_visited: parseJson<string[]>(row.states_visited, []),
+      achievements: parseJson<string[]>(row.achievements, []),
+      time_zone: row.time_zone ?? undefined,
+    };
   }
 
-  async createMessage(message: Partial<HonkMessage>): Promise<HonkMessage> {
-    const { data, error } = await supabaseAdmin
-      .from('messages')
-      .insert({
-        id: message.id,
-        sender_id: message.sender_id!,
-        recipient_id: message.recipient_id!,
-        title: message.title!,
-        content: message.content!,
-        sender_location: message.sender_location,
-        recipient_location: message.recipient_location,
-        status: message.status || 'flying',
-        delivered_at: message.delivered_at?.toISOString() || null,
-        journey_data: message.journey_data || null,
-        message_type: message.message_type || 'regular',
-        sticker_data: message.sticker_data || [],
-      })
-      .select()
-      .single();
-
-    if (error) throw error;
-    return this.rowToMessage(data);
+  public messageToRow(message: Partial<HonkMessage>): Partial<MessageRow> {
+    return {
+      id: message.id,
+      sender_id: message.sender_id,
+      recipient_id: message.recipient_id ?? null,
+      title: message.title,
+      content: message.content,
+      sender_location: message.sender_location ? JSON.stringify(message.sender_location) : undefined,
+      recipient_location: message.recipient_location ? JSON.stringify(message.recipient_location) : null,
+      status: message.status,
+      created_at: toIso(message.created_at) ?? undefined,
+      delivered_at: toIso(message.delivered_at),
+      journey_data: message.journey_data ? JSON.stringify(message.journey_data) : null,
+      message_type: message.message_type ?? 'regular',
+      sticker_data: JSON.stringify(message.sticker_data ?? []),
+      drawing_data: message.drawing_data ? JSON.stringify(message.drawing_data) : null,
+      postcard_background: message.postcard_background ?? null,
+      postcard_font: message.postcard_font ?? null,
+      scheduled_for: toIso(message.scheduled_for),
+      scheduled_timezone: message.scheduled_timezone ?? null,
+      delivery_tier: message.delivery_tier ?? 'standard',
+    };
   }
 
-  async getMessageById(id: string): Promise<HonkMessage | null> {
-    const { data, error } = await supabaseAdmin
-      .from('messages')
-      .select('*')
-      .eq('id', id)
-      .single();
-
-    if (error) {
-      if (error.code === 'PGRST116') return null;
-      throw error;
-    }
-    return this.rowToMessage(data);
+  public rowToMessage(row: MessageRow): HonkMessage {
+    return {
+      id: row.id,
+      sender_id: row.sender_id,
+      recipient_id: row.recipient_id,
+      title: row.title,
+      content: row.content,
+      sender_location: parseJson(row.sender_location, { latitude: 0, longitude: 0, is_anonymous: true }),
+      recipient_location: parseJson(row.recipient_location, undefined),
+      status: row.status as HonkMessage['status'],
+      created_at: new Date(row.created_at),
+      delivered_at: row.delivered_at ? new Date(row.delivered_at) : undefined,
+      journey_data: parseJson(row.journey_data, undefined),
+      message_type: (row.message_type || 'regular') as HonkMessage['message_type'],
+      sticker_data: parseJson(row.sticker_data, []),
+      drawing_data: readPostcardDrawing(parseJson(row.drawing_data, undefined)),
+      postcard_background: (row.postcard_background ?? undefined) as HonkMessage['postcard_background'],
+      postcard_font: (row.postcard_font ?? undefined) as HonkMessage['postcard_font'],
+      scheduled_for: row.scheduled_for ? new Date(row.scheduled_for) : undefined,
+      scheduled_timezone: row.scheduled_timezone ?? undefined,
+      delivery_tier: (row.delivery_tier || 'standard') as DeliveryTier,
+    };
   }
 
-  async getMessagesBySenderId(senderId: string): Promise<HonkMessage[]> {
-    const { data, error } = await supabaseAdmin
-      .from('messages')
-      .select('*')
-      .eq('sender_id', senderId)
-      .order('created_at', { ascending: false });
-
-    if (error) throw error;
-    return data.map(row => this.rowToMessage(row));
+  public conversationToRow(conversation: Conversation): ConversationRow {
+    return {
+      id: conversation.id,
+      user1_id: conversation.user1_id,
+      user2_id: conversation.user2_id,
+      message_ids: JSON.stringify(conversation.message_ids),
+      created_at: conversation.created_at.toISOString(),
+      last_message_at: conversation.last_message_at.toISOString(),
+    };
   }
 
-  async getMessagesByRecipientId(recipientId: string): Promise<HonkMessage[]> {
-    const { data, error } = await supabaseAdmin
-      .from('messages')
-      .select('*')
-      .eq('recipient_id', recipientId)
-      .order('created_at', { ascending: false });
-
-    if (error) throw error;
-    return data.map(row => this.rowToMessage(row));
+  public rowToConversation(row: ConversationRow): Conversation {
+    return {
+      id: row.id,
+      user1_id: row.user1_id,
+      user2_id: row.user2_id,
+      message_ids: parseJson<string[]>(row.message_ids, []),
+      created_at: new Date(row.created_at),
+      last_message_at: new Date(row.last_message_at),
+    };
   }
 
-  async updateMessageStatus(id: string, status: 'flying' | 'delivered' | 'read'): Promise<void> {
-    const updates: any = { status };
-    if (status === 'delivered' && !updates.delivered_at) {
-      updates.delivered_at = new Date().toISOString();
-    }
-
-    const { error } = await supabaseAdmin
-      .from('messages')
-      .update(updates)
-      .eq('id', id);
-
-    if (error) throw error;
+  public rowToUserReward(row: UserRewardRow): UserReward {
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      reward_type: row.reward_type,
+      reward_id: row.reward_id,
+      unlocked_at: new Date(row.unlocked_at),
+    };
   }
 
-  async getFlyingMessages(): Promise<HonkMessage[]> {
-    const { data, error } = await supabaseAdmin
-      .from('messages')
-      .select('*')
-      .eq('status', 'flying')
-      .order('created_at', { ascending: true });
-
-    if (error) throw error;
-    return data.map(row => this.rowToMessage(row));
+  public flightToRow(flight: FlightRecord): FlightRow {
+    return {
+      id: flight.id,
+      message_id: flight.message_id,
+      status: flight.status,
+      route: JSON.stringify(flight.route),
+      total_distance: flight.total_distance,
+      estimated_duration: flight.estimated_duration,
+      progress_percentage: flight.progress_percentage,
+      current_position: JSON.stringify(flight.current_position),
+      speed_kmh: flight.speed_kmh,
+      weather_events: JSON.stringify(flight.weather_events),
+      delivery_tier: flight.delivery_tier,
+      started_at: flight.started_at.toISOString(),
+      updated_at: flight.updated_at.toISOString(),
+      estimated_arrival: toIso(flight.estimated_arrival),
+    };
   }
 
-  async getOrCreateConversation(user1Id: string, user2Id: string): Promise<string> {
-    const [sortedUser1, sortedUser2] = [user1Id, user2Id].sort();
-
-    const { data: existing } = await supabaseAdmin
-      .from('conversations')
-      .select('id')
-      .eq('user1_id', sortedUser1)
-      .eq('user2_id', sortedUser2)
-      .single();
-
-    if (existing) return existing.id;
-
-    const { data: created, error } = await supabaseAdmin
-      .from('conversations')
-      .insert({ user1_id: sortedUser1, user2_id: sortedUser2 })
-      .select('id')
-      .single();
+  public rowToFlight(row: FlightRow): FlightRecord {
+    return {
+      id: row.id,
+      message_id: row.message_id,
+      status: row.status as FlightStatus,
+      route: parseJson(row.route, []),
+      total_distance: row.total_distance,
+      estimated_duration: row.estimated_duration,
+      progress_percentage: row.progress_percentage,
+      current_position: parseJson(row.current_position, { latitude: 0, longitude: 0, is_anonymous: true }),
+      speed_kmh: row.speed_kmh,
+      weather_events: parseJson(row.weather_events, []),
+      delivery_tier: (row.delivery_tier || 'standard') as DeliveryTier,
+      started_at: new Date(row.started_at),
+      updated_at: new Date(row.updated_at),
+      estimated_arrival: new Date(row.estimated_arrival ?? row.updated_at),
+    };
+  }
 
-    if (error) throw error;
-    return created.id;
+  public flightEventToRow(event: FlightEvent): FlightEventRow {
+    return {
+      id: event.id,
+      flight_id: event.flight_id,
+      message_id: event.message_id,
+      type: event.type,
+      occurred_at: event.occurred_at.toISOString(),
+      position: JSON.stringify(event.position),
+      progress_percentage: event.progress_percentage,
+      details: JSON.stringify(event.details),
+    };
   }
 
-  async getConversationsByUserId(userId: string): Promise<Conversation[]> {
-    const { data, error } = await supabaseAdmin
-      .from('conversations')
-      .select('*')
-      .or(`user1_id.eq.${userId},user2_id.eq.${userId}`)
-      .order('last_message_at', { ascending: false, nullsFirst: false });
+  public rowToFlightEvent(row: FlightEventRow): FlightEvent {
+    return {
+      id: row.id,
+      flight_id: row.flight_id,
+      message_id: row.message_id,
+      type: row.type as FlightEventType,
+      occurred_at: new Date(row.occurred_at),
+      position: parseJson(row.position, { latitude: 0, longitude: 0, is_anonymous: true }),
+      progress_percentage: row.progress_percentage,
+      details: parseJson(row.details, {}),
+    };
+  }
 
-    if (error) throw error;
-    return data.map(row => this.rowToConversation(row));
+  public rowToNotification(row: NotificationRow): NotificationRecord {
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      type: row.type as NotificationType,
+      title: row.title,
+      body: row.body,
+      metadata: parseJson(row.metadata, undefined),
+      created_at: new Date(row.created_at),
+      read_at: row.read_at ? new Date(row.read_at) : undefined,
+    };
   }
 
-  public rowToUser(row: any): User {
+  public rowToPostcard(row: PostcardRow): PostcardRecord {
     return {
       id: row.id,
-      email: '',
-      username: row.username,
-      password_hash: row.password_hash,
+      message_id: row.message_id,
+      title: row.title,
+      description: row.description,
+      image_url: row.image_url ?? undefined,
+      location: parseJson(row.location, { latitude: 0, longitude: 0, is_anonymous: true }),
+      weather_snapshot: parseJson(row.weather_snapshot, undefined),
       created_at: new Date(row.created_at),
-      last_active: new Date(row.last_active),
-      current_location: row.current_location,
-      opt_out_random: row.opt_out_random,
-      total_journey_points: 0,
-      current_rank: '0',
-      location_sharing_preference: 'state' as const,
-      total_flights_sent: 0,
-      total_flights_received: 0,
-      total_distance_traveled: 0,
-      countries_visited: [],
-      states_visited: [],
-      achievements: [],
     };
   }
 
-  public rowToMessage(row: any): HonkMessage {
+  public rowToDraft(row: DraftRow): DraftRecord {
     return {
       id: row.id,
-      sender_id: row.sender_id,
-      recipient_id: row.recipient_id,
+      owner_id: row.owner_id,
+      kind: row.kind as DraftKind,
       title: row.title,
       content: row.content,
-      sender_location: row.sender_location,
-      recipient_location: row.recipient_location,
-      status: row.status,
+      location_sharing: row.location_sharing as LocationSharing,
+      recipient_id: row.recipient_id ?? undefined,
+      reply_to_message_id: row.reply_to_message_id ?? undefined,
+      recipient_name: row.recipient_name ?? undefined,
+      sticker_data: parseJson(row.sticker_data, []),
       created_at: new Date(row.created_at),
-      delivered_at: row.delivered_at ? new Date(row.delivered_at) : undefined,
-      journey_data: row.journey_data,
-      message_type: row.message_type || 'regular',
-      sticker_data: row.sticker_data || [],
+      updated_at: new Date(row.updated_at),
     };
   }
 
-  private rowToConversation(row: any): Conversation {
+  public rowToUserDevice(row: UserDeviceRow): UserDevice {
     return {
       id: row.id,
-      user1_id: row.user1_id,
-      user2_id: row.user2_id,
-      message_ids: [],
+      user_id: row.user_id,
+      name: row.name,
+      user_agent: row.user_agent,
+      fingerprint: row.fingerprint ?? undefined,
       created_at: new Date(row.created_at),
-      last_message_at: row.last_message_at ? new Date(row.last_message_at) : new Date(row.created_at),
+      last_seen_at: new Date(row.last_seen_at),
     };
   }
 
-  public prepare(sql: string) {
-    console.warn('Direct SQL not supported with Supabase');
-    return { get: () => null, all: () => [], run: () => ({}) };
+  public rowToSession(row: SessionRow): SessionRecord {
+    return {
+      id: row.id,
+      family_id: row.family_id,
+      user_id: row.user_id,
+      device_id: row.device_id ?? undefined,
+      token_hash: row.token_hash,
+      created_at: new Date(row.created_at),
+      expires_at: new Date(row.expires_at),
+      rotated_at: row.rotated_at ? new Date(row.rotated_at) : undefined,
+      revoked_at: row.revoked_at ? new Date(row.revoked_at) : undefined,
+    };
   }
 
-  public pragma(pragma: string) {
-    return this;
+  public rowToRecoveryCode(row: RecoveryCodeRow): RecoveryCodeRecord {
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      code_hash: row.code_hash,
+      created_at: new Date(row.created_at),
+      used_at: row.used_at ? new Date(row.used_at) : undefined,
+    };
+  }
+
+  public rowToScrapbookEntry(row: ScrapbookEntryRow): ScrapbookEntry {
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      message_id: row.message_id,
+      tags: parseJson<string[]>(row.tags, []),
+      pinned: Boolean(row.pinned),
+      created_at: new Date(row.created_at),
+    };
   }
 }
 
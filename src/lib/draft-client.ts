@@ -0,0 +1,73 @@
+import Cookies from 'js-cookie';
+import { DraftKind, DraftSummary, LocationSharing, StickerData } from '@/types';
+
+/** What a composer sends to /api/drafts */
+export interface DraftFields {
+  kind: DraftKind;
+  title: string;
+  content: string;
+  location_sharing: LocationSharing;
+  recipient_id?: string;
+  reply_to_message_id?: string;
+  recipient_name?: string;
+  sticker_data?: StickerData[];
+}
+
+function authHeaders(): HeadersInit {
+  const token = Cookies.get('honk_auth_token') || localStorage.getItem('auth_token');
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {})
+  };
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: authHeaders() });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Draft request failed (${response.status})`);
+  }
+  return body as T;
+}
+
+/**
+ * Where to pick a draft back up
+ */
+export function draftResumeUrl(draft: Pick<DraftSummary, 'id' | 'kind' | 'recipient_id' | 'reply_to_message_id'>): string {
+  switch (draft.kind) {
+    case 'reply':
+      return `/reply?reply_to=${encodeURIComponent(draft.reply_to_message_id ?? '')}`
+        + `&recipient_id=${encodeURIComponent(draft.recipient_id ?? '')}&draft=${draft.id}`;
+    case 'postcard':
+      return `/postcard/maker?draft=${draft.id}`;
+    default:
+      return `/compose?draft=${draft.id}`;
+  }
+}
+
+/**
+ * Browser-side calls to /api/drafts
+ */
+export const draftClient = {
+  async list(): Promise<DraftSummary[]> {
+    const { drafts } = await request<{ drafts: DraftSummary[] }>('/api/drafts');
+    return drafts;
+  },
+
+  async get(id: string): Promise<DraftSummary> {
+    const { draft } = await request<{ draft: DraftSummary }>(`/api/drafts/${id}`);
+    return draft;
+  },
+
+  /** Create the draft on its first save, then keep saving over it */
+  async save(fields: DraftFields, id?: string): Promise<DraftSummary> {
+    const { draft } = id
+      ? await request<{ draft: DraftSummary }>(`/api/drafts/${id}`, { method: 'PUT', body: JSON.stringify(fields) })
+      : await request<{ draft: DraftSummary }>('/api/drafts', { method: 'POST', body: JSON.stringify(fields) });
+    return draft;
+  },
+
+  async remove(id: string): Promise<void> {
+    await request(`/api/drafts/${id}`, { method: 'DELETE' });
+  }
+};
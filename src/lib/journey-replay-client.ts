@@ -0,0 +1,24 @@
+import Cookies from 'js-cookie';
+import { JourneyReplayData } from '@/types';
+
+function authHeaders(): HeadersInit {
+  const token = Cookies.get('honk_auth_token') || localStorage.getItem('auth_token');
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {})
+  };
+}
+
+/**
+ * Browser-side call to /api/messages/[id]/replay
+ */
+export const journeyReplayClient = {
+  async get(messageId: string): Promise<JourneyReplayData> {
+    const response = await fetch(`/api/messages/${messageId}/replay`, { headers: authHeaders() });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(body.error || `Journey replay request failed (${response.status})`);
+    }
+    return body.replay as JourneyReplayData;
+  }
+};
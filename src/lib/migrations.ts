@@ -382,6 +382,444 @@ export const migrations: Migration[] = [
       db.exec('DROP TABLE IF EXISTS device_link_codes;');
     }
   },
+  {
+    version: 15,
+    name: 'add_message_scheduling',
+    up: (db: Database) => {
+      // SQLite cannot alter a CHECK constraint, so rebuild messages to allow
+      // the 'scheduled' status. Foreign keys are off while migrations run, so
+      // dropping the old table leaves flights, postcards and scrapbook
+      // entries untouched.
+      db.exec(`
+        CREATE TABLE messages_new (
+          id TEXT PRIMARY KEY,
+          sender_id TEXT NOT NULL,
+          recipient_id TEXT,
+          title TEXT NOT NULL CHECK (length(title) <= 100),
+          content TEXT NOT NULL CHECK (length(content) <= 280),
+          sender_location TEXT NOT NULL,
+          recipient_location TEXT,
+          status TEXT NOT NULL DEFAULT 'flying' CHECK (status IN ('scheduled', 'flying', 'delivered')),
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          delivered_at TEXT,
+          journey_data TEXT,
+          sticker_data TEXT DEFAULT '[]',
+          message_type TEXT DEFAULT 'regular' CHECK (message_type IN ('regular', 'postcard')),
+          scheduled_for TEXT,
+          scheduled_timezone TEXT,
+          FOREIGN KEY (sender_id) REFERENCES users(id) ON DELETE CASCADE,
+          FOREIGN KEY (recipient_id) REFERENCES users(id) ON DELETE SET NULL
+        );
+
+        INSERT INTO messages_new (
+          id, sender_id, recipient_id, title, content, sender_location, recipient_location,
+          status, created_at, delivered_at, journey_data, sticker_data, message_type
+        )
+        SELECT
+          id, sender_id, recipient_id, title, content, sender_location, recipient_location,
+          status, created_at, delivered_at, journey_data, sticker_data, message_type
+        FROM messages;
+
+        DROP TABLE messages;
+        ALTER TABLE messages_new RENAME TO messages;
+
+        CREATE INDEX IF NOT EXISTS idx_messages_sender_id ON messages(sender_id);
+        CREATE INDEX IF NOT EXISTS idx_messages_recipient_id ON messages(recipient_id);
+        CREATE INDEX IF NOT EXISTS idx_messages_status ON messages(status);
+        CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at);
+        CREATE INDEX IF NOT EXISTS idx_messages_scheduled_for ON messages(scheduled_for) WHERE status = 'scheduled';
+      `);
+
+      const columns = db.prepare("PRAGMA table_info(users)").all() as Array<{ name: string }>;
+      if (!columns.some(column => column.name === 'time_zone')) {
+        db.exec(`ALTER TABLE users ADD COLUMN time_zone TEXT;`);
+      }
+    },
+    down: (db: Database) => {
+      // The widened CHECK and new columns remain; drop honks that never launched
+      db.exec(`
+        DROP INDEX IF EXISTS idx_messages_scheduled_for;
+        DELETE FROM messages WHERE status = 'scheduled';
+      `);
+    }
+  },
+  {
+    version: 16,
+    name: 'add_delivery_tiers',
+    up: (db: Database) => {
+      const tierColumn = `delivery_tier TEXT NOT NULL DEFAULT 'standard' CHECK (delivery_tier IN ('standard', 'priority', 'express'))`;
+
+      for (const table of ['messages', 'flights']) {
+        const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+        if (!columns.some(column => column.name === 'delivery_tier')) {
+          db.exec(`ALTER TABLE ${table} ADD COLUMN ${tierColumn};`);
+        }
+      }
+    },
+    down: () => {
+      // SQLite doesn't support DROP COLUMN, so columns remain
+      console.log('Columns remain in place on rollback due to SQLite limitations.');
+    }
+  },
+
+  {
+    version: 17,
+    name: 'create_sticker_library',
+    up: (db: Database) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS stickers (
+          id TEXT PRIMARY KEY,
+          owner_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          mime_type TEXT NOT NULL,
+          width INTEGER NOT NULL,
+          height INTEGER NOT NULL,
+          byte_size INTEGER NOT NULL,
+          image_data BLOB NOT NULL,
+          is_public INTEGER NOT NULL DEFAULT 0 CHECK (is_public IN (0, 1)),
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          FOREIGN KEY (owner_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+
+        CREATE TABLE IF NOT EXISTS sticker_favorites (
+          sticker_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          PRIMARY KEY (sticker_id, user_id),
+          FOREIGN KEY (sticker_id) REFERENCES stickers(id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_stickers_owner_id ON stickers(owner_id);
+        CREATE INDEX IF NOT EXISTS idx_stickers_public ON stickers(is_public, created_at);
+        CREATE INDEX IF NOT EXISTS idx_sticker_favorites_user_id ON sticker_favorites(user_id);
+      `);
+    },
+    down: (db: Database) => {
+      db.exec(`
+        DROP TABLE IF EXISTS sticker_favorites;
+        DROP TABLE IF EXISTS stickers;
+      `);
+    }
+  },
+
+  {
+    version: 18,
+    name: 'add_postcard_artwork',
+    up: (db: Database) => {
+      const messageColumns = new Set(
+        (db.prepare('PRAGMA table_info(messages)').all() as Array<{ name: string }>).map(column => column.name)
+      );
+      if (!messageColumns.has('drawing_data')) {
+        db.exec('ALTER TABLE messages ADD COLUMN drawing_data TEXT;');
+      }
+      if (!messageColumns.has('postcard_background')) {
+        db.exec('ALTER TABLE messages ADD COLUMN postcard_background TEXT;');
+      }
+
+      const postcardColumns = db.prepare('PRAGMA table_info(postcards)').all() as Array<{ name: string }>;
+      if (!postcardColumns.some(column => column.name === 'image_data')) {
+        db.exec('ALTER TABLE postcards ADD COLUMN image_data BLOB;');
+      }
+    },
+    down: () => {
+      // SQLite doesn't support DROP COLUMN, so columns remain
+      console.log('Columns remain in place on rollback due to SQLite limitations.');
+    }
+  },
+
+  {
+    version: 19,
+    name: 'create_drafts_table',
+    up: (db: Database) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS drafts (
+          id TEXT PRIMARY KEY,
+          owner_id TEXT NOT NULL,
+          kind TEXT NOT NULL CHECK (kind IN ('honk', 'reply', 'postcard')),
+          title TEXT NOT NULL DEFAULT '',
+          content TEXT NOT NULL DEFAULT '',
+          location_sharing TEXT NOT NULL DEFAULT 'state' CHECK (location_sharing IN ('state', 'country', 'anonymous')),
+          recipient_id TEXT,
+          reply_to_message_id TEXT,
+          recipient_name TEXT,
+          sticker_data TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+          FOREIGN KEY (owner_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_drafts_owner_updated ON drafts(owner_id, updated_at);
+      `);
+    },
+    down: (db: Database) => {
+      db.exec('DROP TABLE IF EXISTS drafts;');
+    }
+  },
+
+  {
+    version: 20,
+    name: 'add_postcard_font',
+    up: (db: Database) => {
+      const columns = db.prepare('PRAGMA table_info(messages)').all() as Array<{ name: string }>;
+      if (!columns.some(column => column.name === 'postcard_font')) {
+        db.exec('ALTER TABLE messages ADD COLUMN postcard_font TEXT;');
+      }
+    },
+    down: () => {
+      // SQLite doesn't support DROP COLUMN, so columns remain
+      console.log('Columns remain in place on rollback due to SQLite limitations.');
+    }
+  },
+
+  {
+    version: 21,
+    name: 'create_user_devices_table',
+    up: (db: Database) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS user_devices (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          user_agent TEXT NOT NULL DEFAULT '',
+          fingerprint TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          last_seen_at TEXT NOT NULL DEFAULT (datetime('now')),
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_user_devices_user_id ON user_devices(user_id);
+        CREATE INDEX IF NOT EXISTS idx_user_devices_fingerprint ON user_devices(fingerprint);
+      `);
+    },
+    down: (db: Database) => {
+      db.exec('DROP TABLE IF EXISTS user_devices;');
+    }
+  },
+
+  {
+    version: 22,
+    name: 'create_sessions_table',
+    up: (db: Database) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          family_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          device_id TEXT,
+          token_hash TEXT NOT NULL UNIQUE,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          expires_at TEXT NOT NULL,
+          rotated_at TEXT,
+          revoked_at TEXT,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_sessions_family_id ON sessions(family_id);
+        CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
+        CREATE INDEX IF NOT EXISTS idx_sessions_device_id ON sessions(device_id);
+      `);
+    },
+    down: (db: Database) => {
+      db.exec('DROP TABLE IF EXISTS sessions;');
+    }
+  },
+
+  {
+    version: 23,
+    name: 'create_recovery_codes_table',
+    up: (db: Database) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS recovery_codes (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          code_hash TEXT NOT NULL UNIQUE,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          used_at TEXT,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_recovery_codes_user_id ON recovery_codes(user_id);
+      `);
+    },
+    down: (db: Database) => {
+      db.exec('DROP TABLE IF EXISTS recovery_codes;');
+    }
+  },
+
+  {
+    version: 24,
+    name: 'key_rate_limit_events_by_subject',
+    up: (db: Database) => {
+      // Unauthenticated routes are throttled by client address, so events
+      // are keyed by a subject instead of referencing a user
+      db.exec(`
+        CREATE TABLE rate_limit_events_new (
+          id TEXT PRIMARY KEY,
+          subject TEXT NOT NULL,
+          action TEXT NOT NULL,
+          occurred_at TEXT NOT NULL DEFAULT (datetime('now')),
+          metadata TEXT
+        );
+
+        INSERT INTO rate_limit_events_new (id, subject, action, occurred_at, metadata)
+        SELECT id, 'user:' || user_id, action, occurred_at, metadata FROM rate_limit_events;
+
+        DROP TABLE rate_limit_events;
+        ALTER TABLE rate_limit_events_new RENAME TO rate_limit_events;
+
+        CREATE INDEX IF NOT EXISTS idx_rate_limit_subject_action ON rate_limit_events(subject, action, occurred_at);
+      `);
+    },
+    down: (db: Database) => {
+      db.exec(`
+        CREATE TABLE rate_limit_events_old (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          action TEXT NOT NULL,
+          occurred_at TEXT NOT NULL DEFAULT (datetime('now')),
+          metadata TEXT,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+
+        INSERT INTO rate_limit_events_old (id, user_id, action, occurred_at, metadata)
+        SELECT id, substr(subject, 6), action, occurred_at, metadata FROM rate_limit_events
+        WHERE subject LIKE 'user:%' AND substr(subject, 6) IN (SELECT id FROM users);
+
+        DROP TABLE rate_limit_events;
+        ALTER TABLE rate_limit_events_old RENAME TO rate_limit_events;
+
+        CREATE INDEX IF NOT EXISTS idx_rate_limit_user_action ON rate_limit_events(user_id, action);
+        CREATE INDEX IF NOT EXISTS idx_rate_limit_occurred_at ON rate_limit_events(occurred_at);
+      `);
+    }
+  },
+
+  {
+    version: 25,
+    name: 'create_flight_events_table',
+    up: (db: Database) => {
+      // Append-only; flights keep only their latest state, this keeps how they got there
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS flight_events (
+          id TEXT PRIMARY KEY,
+          flight_id TEXT NOT NULL,
+          message_id TEXT NOT NULL,
+          type TEXT NOT NULL CHECK (type IN ('departed', 'weather_changed', 'rerouted', 'held', 'resumed', 'delivered', 'failed')),
+          occurred_at TEXT NOT NULL DEFAULT (datetime('now')),
+          position TEXT NOT NULL,
+          progress_percentage REAL NOT NULL DEFAULT 0,
+          details TEXT NOT NULL DEFAULT '{}',
+          FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_flight_events_message_id ON flight_events(message_id, occurred_at);
+      `);
+    },
+    down: (db: Database) => {
+      db.exec('DROP TABLE IF EXISTS flight_events;');
+    }
+  },
+
+  {
+    version: 26,
+    name: 'add_returned_message_status',
+    up: (db: Database) => {
+      // Rebuild messages again so honks whose flight fails can be returned to
+      // their sender. Foreign keys are off while migrations run.
+      db.exec(`
+        CREATE TABLE messages_new (
+          id TEXT PRIMARY KEY,
+          sender_id TEXT NOT NULL,
+          recipient_id TEXT,
+          title TEXT NOT NULL CHECK (length(title) <= 100),
+          content TEXT NOT NULL CHECK (length(content) <= 280),
+          sender_location TEXT NOT NULL,
+          recipient_location TEXT,
+          status TEXT NOT NULL DEFAULT 'flying' CHECK (status IN ('scheduled', 'flying', 'delivered', 'returned')),
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          delivered_at TEXT,
+          journey_data TEXT,
+          sticker_data TEXT DEFAULT '[]',
+          message_type TEXT DEFAULT 'regular' CHECK (message_type IN ('regular', 'postcard')),
+          scheduled_for TEXT,
+          scheduled_timezone TEXT,
+          delivery_tier TEXT NOT NULL DEFAULT 'standard' CHECK (delivery_tier IN ('standard', 'priority', 'express')),
+          drawing_data TEXT,
+          postcard_background TEXT,
+          postcard_font TEXT,
+          FOREIGN KEY (sender_id) REFERENCES users(id) ON DELETE CASCADE,
+          FOREIGN KEY (recipient_id) REFERENCES users(id) ON DELETE SET NULL
+        );
+
+        INSERT INTO messages_new (
+          id, sender_id, recipient_id, title, content, sender_location, recipient_location,
+          status, created_at, delivered_at, journey_data, sticker_data, message_type,
+          scheduled_for, scheduled_timezone, delivery_tier, drawing_data, postcard_background, postcard_font
+        )
+        SELECT
+          id, sender_id, recipient_id, title, content, sender_location, recipient_location,
+          status, created_at, delivered_at, journey_data, sticker_data, message_type,
+          scheduled_for, scheduled_timezone, delivery_tier, drawing_data, postcard_background, postcard_font
+        FROM messages;
+
+        DROP TABLE messages;
+        ALTER TABLE messages_new RENAME TO messages;
+
+        CREATE INDEX IF NOT EXISTS idx_messages_sender_id ON messages(sender_id);
+        CREATE INDEX IF NOT EXISTS idx_messages_recipient_id ON messages(recipient_id);
+        CREATE INDEX IF NOT EXISTS idx_messages_status ON messages(status);
+        CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at);
+        CREATE INDEX IF NOT EXISTS idx_messages_scheduled_for ON messages(scheduled_for) WHERE status = 'scheduled';
+      `);
+    },
+    down: (db: Database) => {
+      // The widened CHECK remains; put returned honks back in the air
+      db.exec(`UPDATE messages SET status = 'flying' WHERE status = 'returned';`);
+    }
+  },
+
+  {
+    version: 27,
+    name: 'unique_device_fingerprints',
+    up: (db: Database) => {
+      // A fingerprint must name one device. Where several share one, only the
+      // most recently seen keeps it; the others stop being recognized by it.
+      db.exec(`
+        UPDATE user_devices
+        SET fingerprint = NULL
+        WHERE id IN (
+          SELECT id FROM (
+            SELECT id, ROW_NUMBER() OVER (PARTITION BY fingerprint ORDER BY last_seen_at DESC) AS position
+            FROM user_devices
+            WHERE fingerprint IS NOT NULL
+          )
+          WHERE position > 1
+        );
+
+        DROP INDEX IF EXISTS idx_user_devices_fingerprint;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_user_devices_fingerprint ON user_devices(fingerprint);
+      `);
+    },
+    down: (db: Database) => {
+      db.exec(`
+        DROP INDEX IF EXISTS idx_user_devices_fingerprint;
+        CREATE INDEX IF NOT EXISTS idx_user_devices_fingerprint ON user_devices(fingerprint);
+      `);
+    }
+  },
+
+  {
+    version: 28,
+    name: 'add_link_code_failed_attempts',
+    up: (db: Database) => {
+      db.exec('ALTER TABLE device_link_codes ADD COLUMN failed_attempts INTEGER NOT NULL DEFAULT 0;');
+    },
+    down: () => {
+      // SQLite doesn't support DROP COLUMN, so the column remains
+      console.log('Columns remain in place on rollback due to SQLite limitations.');
+    }
+  },
 
 ];
 
@@ -416,19 +854,46 @@ export class MigrationRunner {
 
     console.log(`Running ${pendingMigrations.length} migrations...`);
 
-    this.db.transaction(() => {
-      for (const migration of pendingMigrations) {
-        console.log(`Applying migration ${migration.version}: ${migration.name}`);
-        migration.up(this.db);
-        
-        // Record the migration
-        this.db.prepare('INSERT INTO schema_version (version) VALUES (?)').run(migration.version);
-      }
-    })();
+    this.withoutForeignKeys(() => {
+      this.db.transaction(() => {
+        for (const migration of pendingMigrations) {
+          console.log(`Applying migration ${migration.version}: ${migration.name}`);
+          migration.up(this.db);
+
+          // Record the migration
+          this.db.prepare('INSERT INTO schema_version (version) VALUES (?)').run(migration.version);
+        }
+
+        this.assertForeignKeys();
+      })();
+    });
 
     console.log('All migrations completed successfully');
   }
 
+  /**
+   * Run with foreign key enforcement off so migrations can rebuild tables
+   * (the pragma is a no-op inside a transaction, so it wraps the transaction)
+   */
+  private withoutForeignKeys(run: () => void): void {
+    const enabled = this.db.pragma('foreign_keys', { simple: true }) === 1;
+    if (enabled) this.db.pragma('foreign_keys = OFF');
+
+    try {
+      run();
+    } finally {
+      if (enabled) this.db.pragma('foreign_keys = ON');
+    }
+  }
+
+  /** Abort the migration if a rebuild left dangling references */
+  private assertForeignKeys(): void {
+    const violations = this.db.pragma('foreign_key_check') as unknown[];
+    if (violations.length > 0) {
+      throw new Error(`Migration left ${violations.length} foreign key violation(s)`);
+    }
+  }
+
   private ensureSchemaVersionTable(): void {
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS schema_version (
@@ -0,0 +1,14 @@
+import { PostcardTemplate } from '@/types';
+import { validateTemplateCollection } from '@/utils/postcardTemplates';
+import autumn from './autumn.json';
+import everyday from './everyday.json';
+import holidays from './holidays.json';
+
+/**
+ * Template collections in the order they are offered. Add a seasonal set
+ * by dropping a JSON file in this directory and listing it here.
+ */
+export const POSTCARD_TEMPLATE_DATA: unknown[] = [everyday, autumn, holidays];
+
+/** What a new postcard starts as before a template is picked */
+export const DEFAULT_POSTCARD_TEMPLATE: PostcardTemplate = validateTemplateCollection(everyday).collection!.templates[0];
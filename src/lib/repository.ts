@@ -0,0 +1,379 @@
+import {
+  User,
+  HonkMessage,
+  Conversation,
+  UserReward,
+  FlightRecord,
+  FlightStatus,
+  FlightEvent,
+  NotificationRecord,
+  PostcardRecord,
+  StickerRecord,
+  StickerImageType,
+  DraftRecord,
+  JourneyData,
+  UserDevice,
+  SessionRecord,
+  RecoveryCodeRecord,
+  RateLimitEvent,
+  ScrapbookEntry,
+} from '@/types';
+import { SqliteHonkRepository } from './sqlite-repository';
+import { SupabaseHonkRepository } from './supabase-repository';
+
+export type StorageDriver = 'sqlite' | 'supabase';
+
+export type MessageWithSender = HonkMessage & {
+  sender_username?: string;
+  sender_rank?: string;
+};
+
+export type ConversationWithParticipants = Conversation & {
+  user1_username?: string;
+  user2_username?: string;
+};
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+}
+
+export interface InboxQuery {
+  status?: HonkMessage['status'] | null;
+  search?: string | null;
+  sortBy: 'created_at' | 'delivered_at' | 'title';
+  sortOrder: 'asc' | 'desc';
+  limit: number;
+  offset: number;
+}
+
+export type NewUser = Pick<User, 'id' | 'username'> &
+  Partial<Omit<User, 'id' | 'username'>> & {
+    device_fingerprint?: string | null;
+  };
+
+export type UserUpdate = Partial<
+  Pick<
+    User,
+    | 'username'
+    | 'location_sharing_preference'
+    | 'opt_out_random'
+    | 'current_location'
+    | 'last_active'
+    | 'total_journey_points'
+    | 'current_rank'
+    | 'countries_visited'
+    | 'states_visited'
+    | 'achievements'
+    | 'time_zone'
+  >
+> & {
+  device_fingerprint?: string | null;
+};
+
+export type ScheduledMessageUpdate = Partial<
+  Pick<HonkMessage, 'title' | 'content' | 'scheduled_for' | 'scheduled_timezone'>
+>;
+
+export interface UserStatIncrements {
+  total_journey_points?: number;
+  total_flights_sent?: number;
+  total_flights_received?: number;
+  total_distance_traveled?: number;
+}
+
+export interface DeviceLinkCodeRecord {
+  id: string;
+  user_id: string;
+  code: string;
+  created_at: Date;
+  expires_at: Date;
+  used: boolean;
+}
+
+/** A sticker with its owner and how many users favorited it */
+export type StickerListing = StickerRecord & {
+  owner_username?: string;
+  favorite_count: number;
+  favorited: boolean;
+};
+
+export interface StickerImage {
+  mime_type: StickerImageType;
+  data: Buffer;
+}
+
+/** Draft fields a composer can change */
+export type DraftUpdate = Partial<
+  Pick<
+    DraftRecord,
+    | 'title'
+    | 'content'
+    | 'location_sharing'
+    | 'recipient_id'
+    | 'reply_to_message_id'
+    | 'recipient_name'
+    | 'sticker_data'
+  >
+> & {
+  updated_at: Date;
+};
+
+export interface UserStore {
+  findById(id: string): Promise<User | null>;
+  findByEmail(email: string): Promise<User | null>;
+  findByUsername(username: string): Promise<User | null>;
+  findByDeviceFingerprint(fingerprint: string): Promise<User | null>;
+  create(user: NewUser): Promise<User>;
+  /** Apply a partial update; resolves false when the user does not exist */
+  update(id: string, updates: UserUpdate): Promise<boolean>;
+  /** Atomically add to the counters and bump last_active */
+  incrementStats(id: string, increments: UserStatIncrements, at?: Date): Promise<void>;
+  listOthers(userId: string): Promise<User[]>;
+  /** Users active since `since` that have a known location */
+  listActiveWithLocation(since: Date): Promise<User[]>;
+  listByPoints(limit: number): Promise<User[]>;
+}
+
+export interface MessageStore {
+  create(message: HonkMessage): Promise<void>;
+  findById(id: string): Promise<HonkMessage | null>;
+  /** A message the user sent or received, joined with the sender's profile */
+  findForParticipant(id: string, userId: string): Promise<MessageWithSender | null>;
+  findManyWithSender(ids: string[]): Promise<MessageWithSender[]>;
+  listInbox(recipientId: string, query: InboxQuery): Promise<Page<MessageWithSender>>;
+  /** Flip a flying message to delivered; resolves false if it was not flying */
+  markDelivered(id: string, deliveredAt: Date): Promise<boolean>;
+  /** Flip a flying message to returned; resolves false if it was not flying */
+  markReturned(id: string): Promise<boolean>;
+  updateStatus(id: string, status: HonkMessage['status']): Promise<void>;
+  updateJourneyData(id: string, journeyData: JourneyData): Promise<void>;
+  /** Flying messages whose persisted flight has already completed */
+  listAwaitingDelivery(): Promise<string[]>;
+  /** Honks waiting to launch, soonest first; all senders when omitted */
+  listScheduled(senderId?: string): Promise<HonkMessage[]>;
+  /** A sender's delivered honks, in the order they arrived */
+  listDeliveredBySender(senderId: string): Promise<HonkMessage[]>;
+  /** Everyone who has had at least one honk delivered */
+  listDeliveredSenders(): Promise<string[]>;
+  /** Edit a honk that has not launched yet; resolves false otherwise */
+  updateScheduled(id: string, updates: ScheduledMessageUpdate): Promise<boolean>;
+  /** Flip a scheduled honk to flying; resolves false if it was not scheduled */
+  markLaunched(id: string): Promise<boolean>;
+  /** Delete a honk that has not launched yet; resolves false otherwise */
+  deleteScheduled(id: string): Promise<boolean>;
+}
+
+export interface ConversationStore {
+  findForParticipant(id: string, userId: string): Promise<Conversation | null>;
+  findBetween(userA: string, userB: string): Promise<Conversation | null>;
+  listForUser(userId: string, limit: number, offset: number): Promise<Page<ConversationWithParticipants>>;
+  create(conversation: Conversation): Promise<void>;
+  appendMessage(id: string, messageId: string, at: Date): Promise<void>;
+}
+
+export interface FlightStore {
+  /** Insert or replace the checkpoint for a flight */
+  save(flight: FlightRecord): Promise<void>;
+  findByMessageId(messageId: string): Promise<FlightRecord | null>;
+  listByStatus(statuses: FlightStatus[]): Promise<FlightRecord[]>;
+}
+
+export interface FlightEventStore {
+  /** Add to a flight's log; events are never changed or removed */
+  append(event: FlightEvent): Promise<void>;
+  /** A flight's events, oldest first */
+  listForMessage(messageId: string): Promise<FlightEvent[]>;
+}
+
+export interface NotificationStore {
+  create(notification: NotificationRecord): Promise<void>;
+  listForUser(userId: string, limit: number): Promise<NotificationRecord[]>;
+  markRead(id: string, readAt: Date): Promise<void>;
+}
+
+export interface PostcardStore {
+  create(postcard: PostcardRecord): Promise<void>;
+  findById(id: string): Promise<PostcardRecord | null>;
+  findByMessageId(messageId: string): Promise<PostcardRecord | null>;
+  findByMessageIds(messageIds: string[]): Promise<PostcardRecord[]>;
+  /** Store the rendered PNG and the URL it is served from */
+  saveImage(id: string, image: Buffer, imageUrl: string): Promise<void>;
+  findImage(id: string): Promise<Buffer | null>;
+}
+
+export interface RewardStore {
+  listForUser(userId: string): Promise<UserReward[]>;
+  has(userId: string, rewardType: string, rewardId: string): Promise<boolean>;
+  /** Record a reward; resolves false when it was already unlocked */
+  unlock(userId: string, rewardType: string, rewardId: string, at?: Date): Promise<boolean>;
+}
+
+export interface DeviceLinkCodeStore {
+  /** Store a code, replacing any outstanding codes for the same user */
+  replaceForUser(record: DeviceLinkCodeRecord): Promise<void>;
+  findValid(code: string, now: Date): Promise<DeviceLinkCodeRecord | null>;
+  markUsed(id: string): Promise<void>;
+  /**
+   * Count a wrong guess against every code still open at `now`, since any of
+   * them could have been its target, and use up codes that reach `maxMisses`
+   */
+  recordMiss(now: Date, maxMisses: number): Promise<void>;
+  deleteExpired(now: Date): Promise<void>;
+}
+
+export interface UserDeviceStore {
+  create(device: UserDevice): Promise<void>;
+  findById(id: string): Promise<UserDevice | null>;
+  /** Fingerprints are unique, so at most one device matches */
+  findByFingerprint(fingerprint: string): Promise<UserDevice | null>;
+  /** The user's devices, most recently seen first */
+  listByUser(userId: string): Promise<UserDevice[]>;
+  /** Rename a device the user owns; resolves false otherwise */
+  rename(id: string, userId: string, name: string): Promise<boolean>;
+  touch(id: string, at: Date): Promise<void>;
+  /** Delete a device the user owns; resolves false otherwise */
+  delete(id: string, userId: string): Promise<boolean>;
+}
+
+export interface SessionStore {
+  create(session: SessionRecord): Promise<void>;
+  findByTokenHash(tokenHash: string): Promise<SessionRecord | null>;
+  /** Mark a live token as exchanged; resolves false if it already was, or was revoked */
+  rotate(id: string, at: Date): Promise<boolean>;
+  /** Whether any token in the family is still unrevoked and unexpired */
+  isFamilyActive(familyId: string, now: Date): Promise<boolean>;
+  revokeFamily(familyId: string, at: Date): Promise<void>;
+  revokeByUser(userId: string, at: Date): Promise<void>;
+  revokeByDevice(deviceId: string, at: Date): Promise<void>;
+}
+
+export interface RecoveryCodeStore {
+  /** Store a new set of codes, replacing any the user already had */
+  replaceForUser(userId: string, codes: RecoveryCodeRecord[]): Promise<void>;
+  /** Mark an unused code as used; resolves null if there is no such code */
+  redeem(codeHash: string, at: Date): Promise<RecoveryCodeRecord | null>;
+  countUnused(userId: string): Promise<number>;
+}
+
+/** Events counted in a rate limit window, before the new request */
+export interface RateLimitWindow {
+  count: number;
+  oldest: Date | null;
+  /** Whether the new request fit in the window and was recorded */
+  recorded: boolean;
+}
+
+export interface RateLimitStore {
+  /**
+   * In one transaction: drop the subject's events for the action at or
+   * before `since`, count the rest, and record `event` if fewer than `limit`
+   * remain. Concurrent requests can't all pass the count before any is
+   * recorded.
+   */
+  take(event: RateLimitEvent, since: Date, limit: number): Promise<RateLimitWindow>;
+}
+
+export interface StickerStore {
+  create(sticker: StickerRecord, image: Buffer): Promise<void>;
+  findById(id: string): Promise<StickerRecord | null>;
+  findImage(id: string): Promise<StickerImage | null>;
+  countByOwner(ownerId: string): Promise<number>;
+  /** The owner's stickers, newest first */
+  listByOwner(ownerId: string): Promise<StickerListing[]>;
+  /** Stickers the user favorited, most recently favorited first */
+  listFavorites(userId: string): Promise<StickerListing[]>;
+  /** Shared stickers, most favorited first, flagged with the viewer's favorites */
+  listPublic(viewerId: string, limit: number, offset: number): Promise<Page<StickerListing>>;
+  /** Resolves false when the user already favorited the sticker */
+  favorite(stickerId: string, userId: string, at?: Date): Promise<boolean>;
+  /** Resolves false when the user had not favorited the sticker */
+  unfavorite(stickerId: string, userId: string): Promise<boolean>;
+  /** Delete a sticker the user owns; resolves false otherwise */
+  delete(id: string, ownerId: string): Promise<boolean>;
+}
+
+/** What a user can change about a saved honk */
+export type ScrapbookUpdate = Partial<Pick<ScrapbookEntry, 'tags' | 'pinned'>>;
+
+export interface DraftStore {
+  create(draft: DraftRecord): Promise<void>;
+  findById(id: string): Promise<DraftRecord | null>;
+  /** The owner's drafts, most recently edited first */
+  listByOwner(ownerId: string): Promise<DraftRecord[]>;
+  countByOwner(ownerId: string): Promise<number>;
+  /** Update a draft the user owns; resolves null otherwise */
+  update(id: string, ownerId: string, update: DraftUpdate): Promise<DraftRecord | null>;
+  /** Delete a draft the user owns; resolves false otherwise */
+  delete(id: string, ownerId: string): Promise<boolean>;
+}
+
+export interface ScrapbookStore {
+  /** Save an entry; resolves false when the user already kept that message */
+  add(entry: ScrapbookEntry): Promise<boolean>;
+  findById(id: string): Promise<ScrapbookEntry | null>;
+  findByMessage(userId: string, messageId: string): Promise<ScrapbookEntry | null>;
+  /** Pinned entries first, then newest; only entries carrying `tag` when given */
+  listForUser(userId: string, tag?: string): Promise<ScrapbookEntry[]>;
+  /** Update an entry the user owns; resolves null otherwise */
+  update(id: string, userId: string, update: ScrapbookUpdate): Promise<ScrapbookEntry | null>;
+  /** Delete an entry the user owns; resolves false otherwise */
+  delete(id: string, userId: string): Promise<boolean>;
+}
+
+/**
+ * Storage boundary for the app.
+ * Routes and services talk to this instead of a specific database so the
+ * same code runs against the local SQLite file and hosted Postgres.
+ */
+export interface HonkRepository {
+  readonly driver: StorageDriver;
+  users: UserStore;
+  messages: MessageStore;
+  conversations: ConversationStore;
+  flights: FlightStore;
+  flightEvents: FlightEventStore;
+  notifications: NotificationStore;
+  postcards: PostcardStore;
+  rewards: RewardStore;
+  deviceLinkCodes: DeviceLinkCodeStore;
+  devices: UserDeviceStore;
+  sessions: SessionStore;
+  recoveryCodes: RecoveryCodeStore;
+  rateLimits: RateLimitStore;
+  stickers: StickerStore;
+  drafts: DraftStore;
+  scrapbook: ScrapbookStore;
+}
+
+/**
+ * Pick the storage driver from the environment.
+ * HONK_STORAGE_DRIVER wins; otherwise a configured service role key means
+ * we are deployed against Supabase, and everything else uses SQLite.
+ */
+export function resolveStorageDriver(env: NodeJS.ProcessEnv = process.env): StorageDriver {
+  const configured = env.HONK_STORAGE_DRIVER?.toLowerCase();
+  if (configured === 'sqlite' || configured === 'supabase') {
+    return configured;
+  }
+  return env.SUPABASE_SERVICE_ROLE_KEY ? 'supabase' : 'sqlite';
+}
+
+export function createRepository(driver: StorageDriver = resolveStorageDriver()): HonkRepository {
+  return driver === 'supabase' ? new SupabaseHonkRepository() : new SqliteHonkRepository();
+}
+
+let repository: HonkRepository | null = null;
+
+/** Shared repository for the configured driver */
+export function getRepository(): HonkRepository {
+  if (!repository) {
+    repository = createRepository();
+  }
+  return repository;
+}
+
+/** Swap the shared repository (tests and scripts) */
+export function setRepository(next: HonkRepository | null): void {
+  repository = next;
+}
@@ -0,0 +1,98 @@
+import Cookies from 'js-cookie';
+import { ScrapbookCard } from '@/types';
+
+export type ScrapbookGrouping = 'country' | 'tag';
+
+/** Cards that share a country or a tag */
+export interface ScrapbookGroup {
+  label: string;
+  cards: ScrapbookCard[];
+}
+
+function authHeaders(): HeadersInit {
+  const token = Cookies.get('honk_auth_token') || localStorage.getItem('auth_token');
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {})
+  };
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: authHeaders() });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Scrapbook request failed (${response.status})`);
+  }
+  return body as T;
+}
+
+/**
+ * Sort cards into shelves by the country they came from, or by tag. A card
+ * with several tags sits on each of their shelves.
+ */
+export function groupScrapbookCards(cards: ScrapbookCard[], by: ScrapbookGrouping): ScrapbookGroup[] {
+  const groups = new Map<string, ScrapbookCard[]>();
+  const place = (label: string, card: ScrapbookCard) => groups.set(label, [...(groups.get(label) ?? []), card]);
+
+  for (const card of cards) {
+    if (by === 'country') {
+      place(card.message.sender_location?.country || 'Somewhere unknown', card);
+    } else if (card.tags.length === 0) {
+      place('Untagged', card);
+    } else {
+      card.tags.forEach(tag => place(`#${tag}`, card));
+    }
+  }
+
+  return [...groups.entries()]
+    .map(([label, grouped]) => ({ label, cards: grouped }))
+    .sort((a, b) => b.cards.length - a.cards.length || a.label.localeCompare(b.label));
+}
+
+/**
+ * Browser-side calls to /api/scrapbook
+ */
+export const scrapbookClient = {
+  async list(tag?: string): Promise<ScrapbookCard[]> {
+    const query = tag ? `?tag=${encodeURIComponent(tag)}` : '';
+    const { entries } = await request<{ entries: ScrapbookCard[] }>(`/api/scrapbook${query}`);
+    return entries;
+  },
+
+  async add(messageId: string): Promise<ScrapbookCard> {
+    const { entry } = await request<{ entry: ScrapbookCard }>('/api/scrapbook', {
+      method: 'POST',
+      body: JSON.stringify({ messageId })
+    });
+    return entry;
+  },
+
+  async update(id: string, changes: { tags?: string[]; pinned?: boolean }): Promise<ScrapbookCard> {
+    const { entry } = await request<{ entry: ScrapbookCard }>(`/api/scrapbook/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes)
+    });
+    return entry;
+  },
+
+  async remove(id: string): Promise<void> {
+    await request(`/api/scrapbook/${id}`, { method: 'DELETE' });
+  },
+
+  /** Save the export as a file; the route needs the auth header, so a plain link won't do */
+  async download(): Promise<void> {
+    const response = await fetch('/api/scrapbook/export', { headers: authHeaders() });
+    if (!response.ok) {
+      throw new Error(`Scrapbook export failed (${response.status})`);
+    }
+
+    const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1]
+      ?? 'honk-scrapbook.json';
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+};
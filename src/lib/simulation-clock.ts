@@ -0,0 +1,216 @@
+/**
+ * Time and randomness shared by the flight simulation.
+ * FlightEngine, ClientFlightEngine, MessageDeliveryService and the weather
+ * wind model read the clock and RNG from here instead of Date.now(),
+ * setInterval and Math.random, so tests can replay flights deterministically
+ * and the demo can fast-forward them.
+ */
+
+export type TimerHandle = ReturnType<typeof setTimeout> | number;
+
+/**
+ * Source of simulated time. Timer delays are in simulated milliseconds.
+ */
+export interface SimulationClock {
+  /** Simulated milliseconds since the epoch */
+  now(): number;
+  /** How many simulated milliseconds pass per real millisecond */
+  readonly timeWarp: number;
+  setTimeout(callback: () => void, delayMs: number): TimerHandle;
+  clearTimeout(handle: TimerHandle | undefined): void;
+  setInterval(callback: () => void, intervalMs: number): TimerHandle;
+  clearInterval(handle: TimerHandle | undefined): void;
+}
+
+/** Returns a float in [0, 1), like Math.random */
+export type RandomSource = () => number;
+
+export interface Simulation {
+  clock: SimulationClock;
+  random: RandomSource;
+}
+
+/**
+ * Wall-clock time, optionally sped up.
+ * With a time warp of 3600 a 10-hour flight plays out in 10 seconds.
+ */
+export class SystemClock implements SimulationClock {
+  private warp: number;
+  private realOrigin: number;
+  private simulatedOrigin: number;
+
+  constructor(timeWarp: number = 1) {
+    this.warp = SystemClock.validateWarp(timeWarp);
+    this.realOrigin = Date.now();
+    this.simulatedOrigin = this.realOrigin;
+  }
+
+  get timeWarp(): number {
+    return this.warp;
+  }
+
+  /** Change speed without jumping the simulated time */
+  setTimeWarp(timeWarp: number): void {
+    const current = this.now();
+    this.warp = SystemClock.validateWarp(timeWarp);
+    this.realOrigin = Date.now();
+    this.simulatedOrigin = current;
+  }
+
+  now(): number {
+    return this.simulatedOrigin + (Date.now() - this.realOrigin) * this.warp;
+  }
+
+  setTimeout(callback: () => void, delayMs: number): TimerHandle {
+    return setTimeout(callback, delayMs / this.warp);
+  }
+
+  clearTimeout(handle: TimerHandle | undefined): void {
+    if (handle !== undefined) clearTimeout(handle as ReturnType<typeof setTimeout>);
+  }
+
+  setInterval(callback: () => void, intervalMs: number): TimerHandle {
+    return setInterval(callback, intervalMs / this.warp);
+  }
+
+  clearInterval(handle: TimerHandle | undefined): void {
+    if (handle !== undefined) clearInterval(handle as ReturnType<typeof setInterval>);
+  }
+
+  private static validateWarp(timeWarp: number): number {
+    if (!Number.isFinite(timeWarp) || timeWarp <= 0) {
+      throw new Error(`Invalid time warp: ${timeWarp}`);
+    }
+    return timeWarp;
+  }
+}
+
+interface ManualTimer {
+  callback: () => void;
+  dueAt: number;
+  intervalMs?: number;
+}
+
+/**
+ * Clock that only moves when told to. Timers fire in order during advance(),
+ * which yields between them so async timer callbacks settle before the next
+ * one runs.
+ */
+export class ManualClock implements SimulationClock {
+  readonly timeWarp = 1;
+  private current: number;
+  private timers: Map<number, ManualTimer> = new Map();
+  private nextId = 1;
+
+  constructor(start: number | Date = 0) {
+    this.current = start instanceof Date ? start.getTime() : start;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  setTimeout(callback: () => void, delayMs: number): TimerHandle {
+    return this.schedule({ callback, dueAt: this.current + Math.max(0, delayMs) });
+  }
+
+  clearTimeout(handle: TimerHandle | undefined): void {
+    if (typeof handle === 'number') this.timers.delete(handle);
+  }
+
+  setInterval(callback: () => void, intervalMs: number): TimerHandle {
+    const step = Math.max(1, intervalMs);
+    return this.schedule({ callback, dueAt: this.current + step, intervalMs: step });
+  }
+
+  clearInterval(handle: TimerHandle | undefined): void {
+    this.clearTimeout(handle);
+  }
+
+  /** Number of timers still scheduled */
+  pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  /**
+   * Move time forward by `ms`, firing every timer that falls due on the way
+   */
+  async advance(ms: number): Promise<void> {
+    const target = this.current + ms;
+
+    for (let next = this.nextDue(target); next; next = this.nextDue(target)) {
+      const [id, timer] = next;
+      this.current = timer.dueAt;
+
+      if (timer.intervalMs) {
+        timer.dueAt += timer.intervalMs;
+      } else {
+        this.timers.delete(id);
+      }
+
+      timer.callback();
+      await flushPromises();
+    }
+
+    this.current = target;
+  }
+
+  private schedule(timer: ManualTimer): number {
+    const id = this.nextId++;
+    this.timers.set(id, timer);
+    return id;
+  }
+
+  private nextDue(limit: number): [number, ManualTimer] | null {
+    let earliest: [number, ManualTimer] | null = null;
+    for (const entry of this.timers) {
+      if (entry[1].dueAt > limit) continue;
+      if (!earliest || entry[1].dueAt < earliest[1].dueAt) {
+        earliest = entry;
+      }
+    }
+    return earliest;
+  }
+}
+
+/** Let pending promise chains run to completion */
+function flushPromises(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32).
+ * The same seed always yields the same sequence.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const defaultSimulation = (): Simulation => ({
+  clock: new SystemClock(),
+  random: Math.random
+});
+
+let simulation: Simulation = defaultSimulation();
+
+/** Clock and RNG used by services that were not given their own */
+export function getSimulation(): Simulation {
+  return simulation;
+}
+
+/** Swap the shared clock and/or RNG (tests and demos) */
+export function setSimulation(next: Partial<Simulation>): void {
+  simulation = { ...simulation, ...next };
+}
+
+/** Back to wall-clock time and Math.random */
+export function resetSimulation(): void {
+  simulation = defaultSimulation();
+}
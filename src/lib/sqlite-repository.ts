@@ -0,0 +1,1250 @@
+import type Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import { dbManager } from './database';
+import { MigrationRunner } from './migrations';
+import {
+  User,
+  UserRow,
+  HonkMessage,
+  MessageRow,
+  Conversation,
+  ConversationRow,
+  UserReward,
+  UserRewardRow,
+  FlightRecord,
+  FlightRow,
+  FlightStatus,
+  FlightEvent,
+  FlightEventRow,
+  NotificationRecord,
+  NotificationRow,
+  PostcardRecord,
+  PostcardRow,
+  StickerRecord,
+  StickerRow,
+  StickerImageType,
+  DraftRecord,
+  DraftRow,
+  JourneyData,
+  UserDevice,
+  UserDeviceRow,
+  SessionRecord,
+  SessionRow,
+  RecoveryCodeRecord,
+  RecoveryCodeRow,
+  RateLimitEvent,
+  ScrapbookEntry,
+  ScrapbookEntryRow,
+} from '@/types';
+import type {
+  HonkRepository,
+  UserStore,
+  MessageStore,
+  ConversationStore,
+  FlightStore,
+  FlightEventStore,
+  NotificationStore,
+  PostcardStore,
+  RewardStore,
+  DeviceLinkCodeStore,
+  UserDeviceStore,
+  SessionStore,
+  RecoveryCodeStore,
+  RateLimitStore,
+  RateLimitWindow,
+  StickerStore,
+  DraftStore,
+  ScrapbookStore,
+  NewUser,
+  UserUpdate,
+  UserStatIncrements,
+  MessageWithSender,
+  ConversationWithParticipants,
+  InboxQuery,
+  Page,
+  DeviceLinkCodeRecord,
+  ScheduledMessageUpdate,
+  StickerListing,
+  StickerImage,
+  DraftUpdate,
+  ScrapbookUpdate,
+} from './repository';
+
+type SenderColumns = { sender_username?: string; sender_rank?: string };
+
+/**
+ * Resolve the open connection, opening and migrating the default database
+ * the first time a request needs it.
+ */
+function connection(): Database.Database {
+  try {
+    return dbManager.getDatabase();
+  } catch {
+    const db = dbManager.connect();
+    new MigrationRunner(db).runMigrations();
+    return db;
+  }
+}
+
+function withSender(row: MessageRow & SenderColumns): MessageWithSender {
+  return {
+    ...dbManager.rowToMessage(row),
+    sender_username: row.sender_username,
+    sender_rank: row.sender_rank,
+  };
+}
+
+const USER_UPDATE_COLUMNS = [
+  'username',
+  'location_sharing_preference',
+  'opt_out_random',
+  'current_location',
+  'last_active',
+  'total_journey_points',
+  'current_rank',
+  'countries_visited',
+  'states_visited',
+  'achievements',
+  'time_zone',
+  'device_fingerprint',
+] as const;
+
+const SCHEDULED_UPDATE_COLUMNS = ['title', 'content', 'scheduled_for', 'scheduled_timezone'] as const;
+
+/** Bind a domain value to its SQLite column representation */
+function toColumnValue(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value;
+}
+
+class SqliteUserStore implements UserStore {
+  async findById(id: string): Promise<User | null> {
+    return this.findOne('SELECT * FROM users WHERE id = ?', id);
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    return this.findOne('SELECT * FROM users WHERE email = ?', email);
+  }
+
+  async findByUsername(username: string): Promise<User | null> {
+    return this.findOne('SELECT * FROM users WHERE username = ?', username);
+  }
+
+  async findByDeviceFingerprint(fingerprint: string): Promise<User | null> {
+    return this.findOne('SELECT * FROM users WHERE device_fingerprint = ?', fingerprint);
+  }
+
+  async create(user: NewUser): Promise<User> {
+    const now = new Date();
+    const row = dbManager.userToRow({
+      total_journey_points: 0,
+      current_rank: 'Fledgling Courier',
+      location_sharing_preference: 'state',
+      opt_out_random: false,
+      created_at: now,
+      last_active: now,
+      ...user,
+    });
+
+    const columns = Object.entries(row).filter(([, value]) => value !== undefined);
+    connection()
+      .prepare(`
+        INSERT INTO users (${columns.map(([column]) => column).join(', ')})
+        VALUES (${columns.map(() => '?').join(', ')})
+      `)
+      .run(...columns.map(([, value]) => value));
+
+    const created = await this.findById(user.id);
+    if (!created) {
+      throw new Error('Failed to create user');
+    }
+    return created;
+  }
+
+  async update(id: string, updates: UserUpdate): Promise<boolean> {
+    const assignments: string[] = [];
+    const values: unknown[] = [];
+
+    for (const column of USER_UPDATE_COLUMNS) {
+      const value = updates[column];
+      if (value === undefined) continue;
+      assignments.push(`${column} = ?`);
+      values.push(toColumnValue(value));
+    }
+
+    if (assignments.length === 0) {
+      return (await this.findById(id)) !== null;
+    }
+
+    const result = connection()
+      .prepare(`UPDATE users SET ${assignments.join(', ')} WHERE id = ?`)
+      .run(...values, id);
+    return result.changes > 0;
+  }
+
+  async incrementStats(id: string, increments: UserStatIncrements, at: Date = new Date()): Promise<void> {
+    const assignments = Object.entries(increments)
+      .filter(([, amount]) => amount)
+      .map(([column, amount]) => `${column} = ${column} + ${Number(amount)}`);
+
+    connection()
+      .prepare(`UPDATE users SET ${[...assignments, 'last_active = ?'].join(', ')} WHERE id = ?`)
+      .run(at.toISOString(), id);
+  }
+
+  async listOthers(userId: string): Promise<User[]> {
+    const rows = connection()
+      .prepare('SELECT * FROM users WHERE id != ? ORDER BY username ASC')
+      .all(userId) as UserRow[];
+    return rows.map(row => dbManager.rowToUser(row));
+  }
+
+  async listActiveWithLocation(since: Date): Promise<User[]> {
+    const rows = connection()
+      .prepare(`
+        SELECT * FROM users
+        WHERE last_active >= ?
+        AND current_location IS NOT NULL
+      `)
+      .all(since.toISOString()) as UserRow[];
+    return rows.map(row => dbManager.rowToUser(row));
+  }
+
+  async listByPoints(limit: number): Promise<User[]> {
+    const rows = connection()
+      .prepare('SELECT * FROM users ORDER BY total_journey_points DESC LIMIT ?')
+      .all(limit) as UserRow[];
+    return rows.map(row => dbManager.rowToUser(row));
+  }
+
+  private findOne(sql: string, value: string): User | null {
+    const row = connection().prepare(sql).get(value) as UserRow | undefined;
+    return row ? dbManager.rowToUser(row) : null;
+  }
+}
+
+class SqliteMessageStore implements MessageStore {
+  async create(message: HonkMessage): Promise<void> {
+    const row = dbManager.messageToRow(message);
+    connection()
+      .prepare(`
+        INSERT INTO messages (
+          id, sender_id, recipient_id, title, content,
+          sender_location, recipient_location, status, created_at,
+          delivered_at, journey_data, message_type, sticker_data,
+          drawing_data, postcard_background, postcard_font,
+          scheduled_for, scheduled_timezone, delivery_tier
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        row.id,
+        row.sender_id,
+        row.recipient_id,
+        row.title,
+        row.content,
+        row.sender_location,
+        row.recipient_location,
+        row.status,
+        row.created_at,
+        row.delivered_at,
+        row.journey_data,
+        row.message_type,
+        row.sticker_data,
+        row.drawing_data,
+        row.postcard_background,
+        row.postcard_font,
+        row.scheduled_for,
+        row.scheduled_timezone,
+        row.delivery_tier
+      );
+  }
+
+  async findById(id: string): Promise<HonkMessage | null> {
+    const row = connection().prepare('SELECT * FROM messages WHERE id = ?').get(id) as MessageRow | undefined;
+    return row ? dbManager.rowToMessage(row) : null;
+  }
+
+  async findForParticipant(id: string, userId: string): Promise<MessageWithSender | null> {
+    const row = connection()
+      .prepare(`
+        SELECT m.*,
+               u.username as sender_username,
+               u.current_rank as sender_rank
+        FROM messages m
+        LEFT JOIN users u ON m.sender_id = u.id
+        WHERE m.id = ?
+        AND (m.sender_id = ? OR (m.recipient_id = ? AND m.status != 'scheduled'))
+      `)
+      .get(id, userId, userId) as (MessageRow & SenderColumns) | undefined;
+    return row ? withSender(row) : null;
+  }
+
+  async findManyWithSender(ids: string[]): Promise<MessageWithSender[]> {
+    if (ids.length === 0) return [];
+
+    const rows = connection()
+      .prepare(`
+        SELECT m.*, u.username as sender_username, u.current_rank as sender_rank
+        FROM messages m
+        LEFT JOIN users u ON m.sender_id = u.id
+        WHERE m.id IN (${ids.map(() => '?').join(',')})
+        ORDER BY m.created_at ASC
+      `)
+      .all(...ids) as (MessageRow & SenderColumns)[];
+    return rows.map(withSender);
+  }
+
+  async listInbox(recipientId: string, query: InboxQuery): Promise<Page<MessageWithSender>> {
+    let whereClause = "WHERE m.recipient_id = ? AND m.status != 'scheduled'";
+    const params: unknown[] = [recipientId];
+
+    if (query.status) {
+      whereClause += ' AND m.status = ?';
+      params.push(query.status);
+    }
+
+    if (query.search) {
+      whereClause += ' AND (m.title LIKE ? OR m.content LIKE ?)';
+      params.push(`%${query.search}%`, `%${query.search}%`);
+    }
+
+    const db = connection();
+    const countRow = db
+      .prepare(`SELECT COUNT(*) as total FROM messages m ${whereClause}`)
+      .get(...params) as { total: number } | undefined;
+
+    const rows = db
+      .prepare(`
+        SELECT m.*, u.username as sender_username
+        FROM messages m
+        LEFT JOIN users u ON m.sender_id = u.id
+        ${whereClause}
+        ORDER BY m.${query.sortBy} ${query.sortOrder === 'asc' ? 'ASC' : 'DESC'}
+        LIMIT ? OFFSET ?
+      `)
+      .all(...params, query.limit, query.offset) as (MessageRow & SenderColumns)[];
+
+    return { items: rows.map(withSender), total: countRow?.total ?? 0 };
+  }
+
+  async markDelivered(id: string, deliveredAt: Date): Promise<boolean> {
+    const result = connection()
+      .prepare(`
+        UPDATE messages
+        SET status = 'delivered', delivered_at = ?
+        WHERE id = ? AND status = 'flying'
+      `)
+      .run(deliveredAt.toISOString(), id);
+    return result.changes > 0;
+  }
+
+  async markReturned(id: string): Promise<boolean> {
+    const result = connection()
+      .prepare("UPDATE messages SET status = 'returned' WHERE id = ? AND status = 'flying'")
+      .run(id);
+    return result.changes > 0;
+  }
+
+  async updateStatus(id: string, status: HonkMessage['status']): Promise<void> {
+    connection().prepare('UPDATE messages SET status = ? WHERE id = ?').run(status, id);
+  }
+
+  async updateJourneyData(id: string, journeyData: JourneyData): Promise<void> {
+    connection()
+      .prepare('UPDATE messages SET journey_data = ? WHERE id = ?')
+      .run(JSON.stringify(journeyData), id);
+  }
+
+  async listAwaitingDelivery(): Promise<string[]> {
+    const rows = connection()
+      .prepare(`
+        SELECT id FROM messages
+        WHERE status = 'flying'
+        AND id IN (
+          SELECT message_id FROM flights
+          WHERE status = 'delivered' OR progress_percentage >= 100
+        )
+      `)
+      .all() as { id: string }[];
+    return rows.map(row => row.id);
+  }
+
+  async listScheduled(senderId?: string): Promise<HonkMessage[]> {
+    const rows = connection()
+      .prepare(`
+        SELECT * FROM messages
+        WHERE status = 'scheduled'
+        ${senderId ? 'AND sender_id = ?' : ''}
+        ORDER BY scheduled_for ASC
+      `)
+      .all(...(senderId ? [senderId] : [])) as MessageRow[];
+    return rows.map(row => dbManager.rowToMessage(row));
+  }
+
+  async listDeliveredBySender(senderId: string): Promise<HonkMessage[]> {
+    const rows = connection()
+      .prepare(`
+        SELECT * FROM messages
+        WHERE sender_id = ? AND status = 'delivered'
+        ORDER BY delivered_at ASC
+      `)
+      .all(senderId) as MessageRow[];
+    return rows.map(row => dbManager.rowToMessage(row));
+  }
+
+  async listDeliveredSenders(): Promise<string[]> {
+    const rows = connection()
+      .prepare(`SELECT DISTINCT sender_id FROM messages WHERE status = 'delivered'`)
+      .all() as { sender_id: string }[];
+    return rows.map(row => row.sender_id);
+  }
+
+  async updateScheduled(id: string, updates: ScheduledMessageUpdate): Promise<boolean> {
+    const assignments: string[] = [];
+    const values: unknown[] = [];
+
+    for (const column of SCHEDULED_UPDATE_COLUMNS) {
+      const value = updates[column];
+      if (value === undefined) continue;
+      assignments.push(`${column} = ?`);
+      values.push(toColumnValue(value));
+    }
+
+    const result = connection()
+      .prepare(`
+        UPDATE messages
+        SET ${[...assignments, 'status = status'].join(', ')}
+        WHERE id = ? AND status = 'scheduled'
+      `)
+      .run(...values, id);
+    return result.changes > 0;
+  }
+
+  async markLaunched(id: string): Promise<boolean> {
+    const result = connection()
+      .prepare(`
+        UPDATE messages
+        SET status = 'flying'
+        WHERE id = ? AND status = 'scheduled'
+      `)
+      .run(id);
+    return result.changes > 0;
+  }
+
+  async deleteScheduled(id: string): Promise<boolean> {
+    const result = connection()
+      .prepare("DELETE FROM messages WHERE id = ? AND status = 'scheduled'")
+      .run(id);
+    return result.changes > 0;
+  }
+}
+
+class SqliteConversationStore implements ConversationStore {
+  async findForParticipant(id: string, userId: string): Promise<Conversation | null> {
+    const row = connection()
+      .prepare(`
+        SELECT * FROM conversations
+        WHERE id = ? AND (user1_id = ? OR user2_id = ?)
+      `)
+      .get(id, userId, userId) as ConversationRow | undefined;
+    return row ? dbManager.rowToConversation(row) : null;
+  }
+
+  async findBetween(userA: string, userB: string): Promise<Conversation | null> {
+    const row = connection()
+      .prepare(`
+        SELECT * FROM conversations
+        WHERE (user1_id = ? AND user2_id = ?) OR (user1_id = ? AND user2_id = ?)
+      `)
+      .get(userA, userB, userB, userA) as ConversationRow | undefined;
+    return row ? dbManager.rowToConversation(row) : null;
+  }
+
+  async listForUser(userId: string, limit: number, offset: number): Promise<Page<ConversationWithParticipants>> {
+    const db = connection();
+    const countRow = db
+      .prepare('SELECT COUNT(*) as total FROM conversations WHERE user1_id = ? OR user2_id = ?')
+      .get(userId, userId) as { total: number } | undefined;
+
+    const rows = db
+      .prepare(`
+        SELECT
+          c.*,
+          u1.username as user1_username,
+          u2.username as user2_username
+        FROM conversations c
+        LEFT JOIN users u1 ON c.user1_id = u1.id
+        LEFT JOIN users u2 ON c.user2_id = u2.id
+        WHERE c.user1_id = ? OR c.user2_id = ?
+        ORDER BY c.last_message_at DESC
+        LIMIT ? OFFSET ?
+      `)
+      .all(userId, userId, limit, offset) as (ConversationRow & { user1_username?: string; user2_username?: string })[];
+
+    return {
+      items: rows.map(row => ({
+        ...dbManager.rowToConversation(row),
+        user1_username: row.user1_username,
+        user2_username: row.user2_username,
+      })),
+      total: countRow?.total ?? 0,
+    };
+  }
+
+  async create(conversation: Conversation): Promise<void> {
+    const row = dbManager.conversationToRow(conversation);
+    connection()
+      .prepare(`
+        INSERT INTO conversations (id, user1_id, user2_id, message_ids, created_at, last_message_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `)
+      .run(row.id, row.user1_id, row.user2_id, row.message_ids, row.created_at, row.last_message_at);
+  }
+
+  async appendMessage(id: string, messageId: string, at: Date): Promise<void> {
+    const db = connection();
+    db.transaction(() => {
+      const row = db.prepare('SELECT * FROM conversations WHERE id = ?').get(id) as ConversationRow | undefined;
+      if (!row) {
+        throw new Error(`Conversation ${id} not found`);
+      }
+
+      const messageIds = dbManager.rowToConversation(row).message_ids;
+      messageIds.push(messageId);
+
+      db.prepare('UPDATE conversations SET message_ids = ?, last_message_at = ? WHERE id = ?')
+        .run(JSON.stringify(messageIds), at.toISOString(), id);
+    })();
+  }
+}
+
+class SqliteFlightStore implements FlightStore {
+  async save(flight: FlightRecord): Promise<void> {
+    const row = dbManager.flightToRow(flight);
+    connection()
+      .prepare(`
+        INSERT INTO flights (
+          id, message_id, status, route, total_distance, estimated_duration,
+          progress_percentage, current_position, speed_kmh, weather_events,
+          delivery_tier, started_at, updated_at, estimated_arrival
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(message_id) DO UPDATE SET
+          status = excluded.status,
+          route = excluded.route,
+          total_distance = excluded.total_distance,
+          estimated_duration = excluded.estimated_duration,
+          progress_percentage = excluded.progress_percentage,
+          current_position = excluded.current_position,
+          speed_kmh = excluded.speed_kmh,
+          weather_events = excluded.weather_events,
+          updated_at = excluded.updated_at,
+          estimated_arrival = excluded.estimated_arrival
+      `)
+      .run(
+        row.id,
+        row.message_id,
+        row.status,
+        row.route,
+        row.total_distance,
+        row.estimated_duration,
+        row.progress_percentage,
+        row.current_position,
+        row.speed_kmh,
+        row.weather_events,
+        row.delivery_tier,
+        row.started_at,
+        row.updated_at,
+        row.estimated_arrival
+      );
+  }
+
+  async findByMessageId(messageId: string): Promise<FlightRecord | null> {
+    const row = connection().prepare('SELECT * FROM flights WHERE message_id = ?').get(messageId) as FlightRow | undefined;
+    return row ? dbManager.rowToFlight(row) : null;
+  }
+
+  async listByStatus(statuses: FlightStatus[]): Promise<FlightRecord[]> {
+    if (statuses.length === 0) return [];
+
+    const rows = connection()
+      .prepare(`
+        SELECT * FROM flights
+        WHERE status IN (${statuses.map(() => '?').join(',')})
+        ORDER BY started_at ASC
+      `)
+      .all(...statuses) as FlightRow[];
+    return rows.map(row => dbManager.rowToFlight(row));
+  }
+}
+
+class SqliteFlightEventStore implements FlightEventStore {
+  async append(event: FlightEvent): Promise<void> {
+    const row = dbManager.flightEventToRow(event);
+    connection()
+      .prepare(`
+        INSERT INTO flight_events (id, flight_id, message_id, type, occurred_at, position, progress_percentage, details)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        row.id,
+        row.flight_id,
+        row.message_id,
+        row.type,
+        row.occurred_at,
+        row.position,
+        row.progress_percentage,
+        row.details
+      );
+  }
+
+  async listForMessage(messageId: string): Promise<FlightEvent[]> {
+    // rowid breaks ties between events logged in the same millisecond
+    const rows = connection()
+      .prepare('SELECT * FROM flight_events WHERE message_id = ? ORDER BY occurred_at ASC, rowid ASC')
+      .all(messageId) as FlightEventRow[];
+    return rows.map(row => dbManager.rowToFlightEvent(row));
+  }
+}
+
+class SqliteNotificationStore implements NotificationStore {
+  async create(notification: NotificationRecord): Promise<void> {
+    connection()
+      .prepare(`
+        INSERT INTO notifications (id, user_id, type, title, body, metadata, created_at, read_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        notification.id,
+        notification.user_id,
+        notification.type,
+        notification.title,
+        notification.body,
+        notification.metadata ? JSON.stringify(notification.metadata) : null,
+        notification.created_at.toISOString(),
+        notification.read_at ? notification.read_at.toISOString() : null
+      );
+  }
+
+  async listForUser(userId: string, limit: number): Promise<NotificationRecord[]> {
+    const rows = connection()
+      .prepare(`
+        SELECT * FROM notifications
+        WHERE user_id = ?
+        ORDER BY created_at DESC
+        LIMIT ?
+      `)
+      .all(userId, limit) as NotificationRow[];
+    return rows.map(row => dbManager.rowToNotification(row));
+  }
+
+  async markRead(id: string, readAt: Date): Promise<void> {
+    connection().prepare('UPDATE notifications SET read_at = ? WHERE id = ?').run(readAt.toISOString(), id);
+  }
+}
+
+/** Postcard columns without the rendered image bytes */
+const POSTCARD_COLUMNS = 'id, message_id, title, description, image_url, location, weather_snapshot, created_at';
+
+class SqlitePostcardStore implements PostcardStore {
+  async create(postcard: PostcardRecord): Promise<void> {
+    connection()
+      .prepare(`
+        INSERT INTO postcards (id, message_id, title, description, image_url, location, weather_snapshot, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        postcard.id,
+        postcard.message_id,
+        postcard.title,
+        postcard.description,
+        postcard.image_url ?? null,
+        JSON.stringify(postcard.location),
+        postcard.weather_snapshot ? JSON.stringify(postcard.weather_snapshot) : null,
+        postcard.created_at.toISOString()
+      );
+  }
+
+  async findById(id: string): Promise<PostcardRecord | null> {
+    const row = connection().prepare(`SELECT ${POSTCARD_COLUMNS} FROM postcards WHERE id = ?`).get(id) as PostcardRow | undefined;
+    return row ? dbManager.rowToPostcard(row) : null;
+  }
+
+  async findByMessageId(messageId: string): Promise<PostcardRecord | null> {
+    const row = connection().prepare(`SELECT ${POSTCARD_COLUMNS} FROM postcards WHERE message_id = ?`).get(messageId) as PostcardRow | undefined;
+    return row ? dbManager.rowToPostcard(row) : null;
+  }
+
+  async findByMessageIds(messageIds: string[]): Promise<PostcardRecord[]> {
+    if (messageIds.length === 0) return [];
+    const rows = connection()
+      .prepare(`SELECT ${POSTCARD_COLUMNS} FROM postcards WHERE message_id IN (${messageIds.map(() => '?').join(', ')})`)
+      .all(...messageIds) as PostcardRow[];
+    return rows.map(row => dbManager.rowToPostcard(row));
+  }
+
+  async saveImage(id: string, image: Buffer, imageUrl: string): Promise<void> {
+    connection().prepare('UPDATE postcards SET image_data = ?, image_url = ? WHERE id = ?').run(image, imageUrl, id);
+  }
+
+  async findImage(id: string): Promise<Buffer | null> {
+    const row = connection().prepare('SELECT image_data FROM postcards WHERE id = ?').get(id) as
+      | { image_data: Buffer | null }
+      | undefined;
+    return row?.image_data ?? null;
+  }
+}
+
+class SqliteRewardStore implements RewardStore {
+  async listForUser(userId: string): Promise<UserReward[]> {
+    const rows = connection()
+      .prepare('SELECT * FROM user_rewards WHERE user_id = ? ORDER BY unlocked_at DESC')
+      .all(userId) as UserRewardRow[];
+    return rows.map(row => dbManager.rowToUserReward(row));
+  }
+
+  async has(userId: string, rewardType: string, rewardId: string): Promise<boolean> {
+    const row = connection()
+      .prepare(`
+        SELECT id FROM user_rewards
+        WHERE user_id = ? AND reward_type = ? AND reward_id = ?
+      `)
+      .get(userId, rewardType, rewardId);
+    return Boolean(row);
+  }
+
+  async unlock(userId: string, rewardType: string, rewardId: string, at: Date = new Date()): Promise<boolean> {
+    const result = connection()
+      .prepare(`
+        INSERT OR IGNORE INTO user_rewards (id, user_id, reward_type, reward_id, unlocked_at)
+        VALUES (?, ?, ?, ?, ?)
+      `)
+      .run(uuidv4(), userId, rewardType, rewardId, at.toISOString());
+    return result.changes > 0;
+  }
+}
+
+class SqliteDeviceLinkCodeStore implements DeviceLinkCodeStore {
+  async replaceForUser(record: DeviceLinkCodeRecord): Promise<void> {
+    const db = connection();
+    db.transaction(() => {
+      db.prepare('DELETE FROM device_link_codes WHERE user_id = ?').run(record.user_id);
+      db.prepare(`
+        INSERT INTO device_link_codes (id, user_id, code, created_at, expires_at, used)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(
+        record.id,
+        record.user_id,
+        record.code,
+        record.created_at.toISOString(),
+        record.expires_at.toISOString(),
+        record.used ? 1 : 0
+      );
+    })();
+  }
+
+  async findValid(code: string, now: Date): Promise<DeviceLinkCodeRecord | null> {
+    const row = connection()
+      .prepare(`
+        SELECT * FROM device_link_codes
+        WHERE code = ? AND used = 0 AND expires_at > ?
+      `)
+      .get(code, now.toISOString()) as
+      | { id: string; user_id: string; code: string; created_at: string; expires_at: string; used: number }
+      | undefined;
+
+    return row
+      ? {
+          id: row.id,
+          user_id: row.user_id,
+          code: row.code,
+          created_at: new Date(row.created_at),
+          expires_at: new Date(row.expires_at),
+          used: Boolean(row.used),
+        }
+      : null;
+  }
+
+  async markUsed(id: string): Promise<void> {
+    connection().prepare('UPDATE device_link_codes SET used = 1 WHERE id = ?').run(id);
+  }
+
+  async recordMiss(now: Date, maxMisses: number): Promise<void> {
+    connection()
+      .prepare(`
+        UPDATE device_link_codes
+        SET failed_attempts = failed_attempts + 1, used = failed_attempts + 1 >= ?
+        WHERE used = 0 AND expires_at > ?
+      `)
+      .run(maxMisses, now.toISOString());
+  }
+
+  async deleteExpired(now: Date): Promise<void> {
+    connection().prepare('DELETE FROM device_link_codes WHERE expires_at < ?').run(now.toISOString());
+  }
+}
+
+class SqliteUserDeviceStore implements UserDeviceStore {
+  async create(device: UserDevice): Promise<void> {
+    connection()
+      .prepare(`
+        INSERT INTO user_devices (id, user_id, name, user_agent, fingerprint, created_at, last_seen_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        device.id,
+        device.user_id,
+        device.name,
+        device.user_agent,
+        device.fingerprint ?? null,
+        device.created_at.toISOString(),
+        device.last_seen_at.toISOString()
+      );
+  }
+
+  async findById(id: string): Promise<UserDevice | null> {
+    const row = connection().prepare('SELECT * FROM user_devices WHERE id = ?').get(id) as UserDeviceRow | undefined;
+    return row ? dbManager.rowToUserDevice(row) : null;
+  }
+
+  async findByFingerprint(fingerprint: string): Promise<UserDevice | null> {
+    const row = connection()
+      .prepare('SELECT * FROM user_devices WHERE fingerprint = ?')
+      .get(fingerprint) as UserDeviceRow | undefined;
+    return row ? dbManager.rowToUserDevice(row) : null;
+  }
+
+  async listByUser(userId: string): Promise<UserDevice[]> {
+    const rows = connection()
+      .prepare('SELECT * FROM user_devices WHERE user_id = ? ORDER BY last_seen_at DESC')
+      .all(userId) as UserDeviceRow[];
+    return rows.map(row => dbManager.rowToUserDevice(row));
+  }
+
+  async rename(id: string, userId: string, name: string): Promise<boolean> {
+    const result = connection()
+      .prepare('UPDATE user_devices SET name = ? WHERE id = ? AND user_id = ?')
+      .run(name, id, userId);
+    return result.changes > 0;
+  }
+
+  async touch(id: string, at: Date): Promise<void> {
+    connection().prepare('UPDATE user_devices SET last_seen_at = ? WHERE id = ?').run(at.toISOString(), id);
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    const result = connection().prepare('DELETE FROM user_devices WHERE id = ? AND user_id = ?').run(id, userId);
+    return result.changes > 0;
+  }
+}
+
+class SqliteSessionStore implements SessionStore {
+  async create(session: SessionRecord): Promise<void> {
+    connection()
+      .prepare(`
+        INSERT INTO sessions (id, family_id, user_id, device_id, token_hash, created_at, expires_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        session.id,
+        session.family_id,
+        session.user_id,
+        session.device_id ?? null,
+        session.token_hash,
+        session.created_at.toISOString(),
+        session.expires_at.toISOString()
+      );
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<SessionRecord | null> {
+    const row = connection().prepare('SELECT * FROM sessions WHERE token_hash = ?').get(tokenHash) as SessionRow | undefined;
+    return row ? dbManager.rowToSession(row) : null;
+  }
+
+  async rotate(id: string, at: Date): Promise<boolean> {
+    const result = connection()
+      .prepare('UPDATE sessions SET rotated_at = ? WHERE id = ? AND rotated_at IS NULL AND revoked_at IS NULL')
+      .run(at.toISOString(), id);
+    return result.changes > 0;
+  }
+
+  async isFamilyActive(familyId: string, now: Date): Promise<boolean> {
+    const row = connection()
+      .prepare('SELECT 1 FROM sessions WHERE family_id = ? AND revoked_at IS NULL AND expires_at > ? LIMIT 1')
+      .get(familyId, now.toISOString());
+    return row !== undefined;
+  }
+
+  async revokeFamily(familyId: string, at: Date): Promise<void> {
+    connection()
+      .prepare('UPDATE sessions SET revoked_at = ? WHERE family_id = ? AND revoked_at IS NULL')
+      .run(at.toISOString(), familyId);
+  }
+
+  async revokeByUser(userId: string, at: Date): Promise<void> {
+    connection()
+      .prepare('UPDATE sessions SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL')
+      .run(at.toISOString(), userId);
+  }
+
+  async revokeByDevice(deviceId: string, at: Date): Promise<void> {
+    connection()
+      .prepare('UPDATE sessions SET revoked_at = ? WHERE device_id = ? AND revoked_at IS NULL')
+      .run(at.toISOString(), deviceId);
+  }
+}
+
+class SqliteRecoveryCodeStore implements RecoveryCodeStore {
+  async replaceForUser(userId: string, codes: RecoveryCodeRecord[]): Promise<void> {
+    const db = connection();
+    const insert = db.prepare(`
+      INSERT INTO recovery_codes (id, user_id, code_hash, created_at)
+      VALUES (?, ?, ?, ?)
+    `);
+    db.transaction(() => {
+      db.prepare('DELETE FROM recovery_codes WHERE user_id = ?').run(userId);
+      for (const code of codes) {
+        insert.run(code.id, userId, code.code_hash, code.created_at.toISOString());
+      }
+    })();
+  }
+
+  async redeem(codeHash: string, at: Date): Promise<RecoveryCodeRecord | null> {
+    const row = connection()
+      .prepare('UPDATE recovery_codes SET used_at = ? WHERE code_hash = ? AND used_at IS NULL RETURNING *')
+      .get(at.toISOString(), codeHash) as RecoveryCodeRow | undefined;
+    return row ? dbManager.rowToRecoveryCode(row) : null;
+  }
+
+  async countUnused(userId: string): Promise<number> {
+    const row = connection()
+      .prepare('SELECT COUNT(*) AS count FROM recovery_codes WHERE user_id = ? AND used_at IS NULL')
+      .get(userId) as { count: number };
+    return row.count;
+  }
+}
+
+class SqliteRateLimitStore implements RateLimitStore {
+  async take(event: RateLimitEvent, since: Date, limit: number): Promise<RateLimitWindow> {
+    const db = connection();
+    // IMMEDIATE takes the write lock up front, so other connections wait
+    // rather than counting alongside this one
+    return db.transaction(() => {
+      db.prepare('DELETE FROM rate_limit_events WHERE subject = ? AND action = ? AND occurred_at <= ?')
+        .run(event.subject, event.action, since.toISOString());
+
+      const row = db
+        .prepare(`
+          SELECT COUNT(*) AS count, MIN(occurred_at) AS oldest FROM rate_limit_events
+          WHERE subject = ? AND action = ?
+        `)
+        .get(event.subject, event.action) as { count: number; oldest: string | null };
+      const window = { count: row.count, oldest: row.oldest ? new Date(row.oldest) : null };
+
+      if (window.count >= limit) {
+        return { ...window, recorded: false };
+      }
+
+      db.prepare('INSERT INTO rate_limit_events (id, subject, action, occurred_at, metadata) VALUES (?, ?, ?, ?, ?)')
+        .run(
+          event.id,
+          event.subject,
+          event.action,
+          event.occurred_at.toISOString(),
+          event.metadata ? JSON.stringify(event.metadata) : null
+        );
+      return { ...window, recorded: true };
+    }).immediate();
+  }
+}
+
+type StickerListingRow = StickerRow & { owner_username: string | null; favorite_count: number; favorited: number };
+
+/** Sticker columns plus owner and favorites, leaving out the image bytes */
+const STICKER_LISTING_SELECT = `
+  SELECT s.id, s.owner_id, s.name, s.mime_type, s.width, s.height, s.byte_size, s.is_public, s.created_at,
+    u.username AS owner_username,
+    (SELECT COUNT(*) FROM sticker_favorites f WHERE f.sticker_id = s.id) AS favorite_count,
+    EXISTS (SELECT 1 FROM sticker_favorites f WHERE f.sticker_id = s.id AND f.user_id = @viewer) AS favorited
+  FROM stickers s
+  LEFT JOIN users u ON u.id = s.owner_id
+`;
+
+function rowToSticker(row: StickerRow): StickerRecord {
+  return {
+    id: row.id,
+    owner_id: row.owner_id,
+    name: row.name,
+    mime_type: row.mime_type as StickerImageType,
+    width: row.width,
+    height: row.height,
+    byte_size: row.byte_size,
+    is_public: Boolean(row.is_public),
+    created_at: new Date(row.created_at),
+  };
+}
+
+function rowToStickerListing(row: StickerListingRow): StickerListing {
+  return {
+    ...rowToSticker(row),
+    owner_username: row.owner_username ?? undefined,
+    favorite_count: row.favorite_count,
+    favorited: Boolean(row.favorited),
+  };
+}
+
+class SqliteStickerStore implements StickerStore {
+  async create(sticker: StickerRecord, image: Buffer): Promise<void> {
+    connection()
+      .prepare(`
+        INSERT INTO stickers (id, owner_id, name, mime_type, width, height, byte_size, image_data, is_public, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        sticker.id,
+        sticker.owner_id,
+        sticker.name,
+        sticker.mime_type,
+        sticker.width,
+        sticker.height,
+        sticker.byte_size,
+        image,
+        sticker.is_public ? 1 : 0,
+        sticker.created_at.toISOString()
+      );
+  }
+
+  async findById(id: string): Promise<StickerRecord | null> {
+    const row = connection()
+      .prepare(`
+        SELECT id, owner_id, name, mime_type, width, height, byte_size, is_public, created_at
+        FROM stickers WHERE id = ?
+      `)
+      .get(id) as StickerRow | undefined;
+    return row ? rowToSticker(row) : null;
+  }
+
+  async findImage(id: string): Promise<StickerImage | null> {
+    const row = connection()
+      .prepare('SELECT mime_type, image_data FROM stickers WHERE id = ?')
+      .get(id) as { mime_type: string; image_data: Buffer } | undefined;
+    return row ? { mime_type: row.mime_type as StickerImageType, data: row.image_data } : null;
+  }
+
+  async countByOwner(ownerId: string): Promise<number> {
+    const row = connection().prepare('SELECT COUNT(*) AS count FROM stickers WHERE owner_id = ?').get(ownerId) as { count: number };
+    return row.count;
+  }
+
+  async listByOwner(ownerId: string): Promise<StickerListing[]> {
+    const rows = connection()
+      .prepare(`${STICKER_LISTING_SELECT} WHERE s.owner_id = @viewer ORDER BY s.created_at DESC`)
+      .all({ viewer: ownerId }) as StickerListingRow[];
+    return rows.map(rowToStickerListing);
+  }
+
+  async listFavorites(userId: string): Promise<StickerListing[]> {
+    const rows = connection()
+      .prepare(`
+        ${STICKER_LISTING_SELECT}
+        JOIN sticker_favorites mine ON mine.sticker_id = s.id AND mine.user_id = @viewer
+        WHERE s.is_public = 1 OR s.owner_id = @viewer
+        ORDER BY mine.created_at DESC
+      `)
+      .all({ viewer: userId }) as StickerListingRow[];
+    return rows.map(rowToStickerListing);
+  }
+
+  async listPublic(viewerId: string, limit: number, offset: number): Promise<Page<StickerListing>> {
+    const db = connection();
+    const rows = db
+      .prepare(`
+        ${STICKER_LISTING_SELECT}
+        WHERE s.is_public = 1
+        ORDER BY favorite_count DESC, s.created_at DESC
+        LIMIT @limit OFFSET @offset
+      `)
+      .all({ viewer: viewerId, limit, offset }) as StickerListingRow[];
+    const { total } = db.prepare('SELECT COUNT(*) AS total FROM stickers WHERE is_public = 1').get() as { total: number };
+
+    return { items: rows.map(rowToStickerListing), total };
+  }
+
+  async favorite(stickerId: string, userId: string, at: Date = new Date()): Promise<boolean> {
+    const result = connection()
+      .prepare('INSERT OR IGNORE INTO sticker_favorites (sticker_id, user_id, created_at) VALUES (?, ?, ?)')
+      .run(stickerId, userId, at.toISOString());
+    return result.changes > 0;
+  }
+
+  async unfavorite(stickerId: string, userId: string): Promise<boolean> {
+    const result = connection()
+      .prepare('DELETE FROM sticker_favorites WHERE sticker_id = ? AND user_id = ?')
+      .run(stickerId, userId);
+    return result.changes > 0;
+  }
+
+  async delete(id: string, ownerId: string): Promise<boolean> {
+    // Favorites go with it through ON DELETE CASCADE
+    const result = connection().prepare('DELETE FROM stickers WHERE id = ? AND owner_id = ?').run(id, ownerId);
+    return result.changes > 0;
+  }
+}
+
+const DRAFT_UPDATE_COLUMNS = [
+  'title',
+  'content',
+  'location_sharing',
+  'recipient_id',
+  'reply_to_message_id',
+  'recipient_name',
+  'sticker_data',
+  'updated_at',
+] as const;
+
+class SqliteDraftStore implements DraftStore {
+  async create(draft: DraftRecord): Promise<void> {
+    connection()
+      .prepare(`
+        INSERT INTO drafts (
+          id, owner_id, kind, title, content, location_sharing,
+          recipient_id, reply_to_message_id, recipient_name, sticker_data,
+          created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        draft.id,
+        draft.owner_id,
+        draft.kind,
+        draft.title,
+        draft.content,
+        draft.location_sharing,
+        draft.recipient_id ?? null,
+        draft.reply_to_message_id ?? null,
+        draft.recipient_name ?? null,
+        JSON.stringify(draft.sticker_data),
+        draft.created_at.toISOString(),
+        draft.updated_at.toISOString()
+      );
+  }
+
+  async findById(id: string): Promise<DraftRecord | null> {
+    const row = connection().prepare('SELECT * FROM drafts WHERE id = ?').get(id) as DraftRow | undefined;
+    return row ? dbManager.rowToDraft(row) : null;
+  }
+
+  async listByOwner(ownerId: string): Promise<DraftRecord[]> {
+    const rows = connection()
+      .prepare('SELECT * FROM drafts WHERE owner_id = ? ORDER BY updated_at DESC')
+      .all(ownerId) as DraftRow[];
+    return rows.map(row => dbManager.rowToDraft(row));
+  }
+
+  async countByOwner(ownerId: string): Promise<number> {
+    const row = connection().prepare('SELECT COUNT(*) AS count FROM drafts WHERE owner_id = ?').get(ownerId) as { count: number };
+    return row.count;
+  }
+
+  async update(id: string, ownerId: string, update: DraftUpdate): Promise<DraftRecord | null> {
+    // A key present but undefined clears the column
+    const columns = DRAFT_UPDATE_COLUMNS.filter(column => column in update);
+    const result = connection()
+      .prepare(`UPDATE drafts SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE id = ? AND owner_id = ?`)
+      .run(...columns.map(column => toColumnValue(update[column])), id, ownerId);
+    return result.changes > 0 ? this.findById(id) : null;
+  }
+
+  async delete(id: string, ownerId: string): Promise<boolean> {
+    const result = connection().prepare('DELETE FROM drafts WHERE id = ? AND owner_id = ?').run(id, ownerId);
+    return result.changes > 0;
+  }
+}
+
+const SCRAPBOOK_UPDATE_COLUMNS = ['tags', 'pinned'] as const;
+
+class SqliteScrapbookStore implements ScrapbookStore {
+  async add(entry: ScrapbookEntry): Promise<boolean> {
+    const result = connection()
+      .prepare(`
+        INSERT OR IGNORE INTO scrapbook_entries (id, user_id, message_id, tags, pinned, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        entry.id,
+        entry.user_id,
+        entry.message_id,
+        JSON.stringify(entry.tags),
+        entry.pinned ? 1 : 0,
+        entry.created_at.toISOString()
+      );
+    return result.changes > 0;
+  }
+
+  async findById(id: string): Promise<ScrapbookEntry | null> {
+    const row = connection().prepare('SELECT * FROM scrapbook_entries WHERE id = ?').get(id) as ScrapbookEntryRow | undefined;
+    return row ? dbManager.rowToScrapbookEntry(row) : null;
+  }
+
+  async findByMessage(userId: string, messageId: string): Promise<ScrapbookEntry | null> {
+    const row = connection()
+      .prepare('SELECT * FROM scrapbook_entries WHERE user_id = ? AND message_id = ?')
+      .get(userId, messageId) as ScrapbookEntryRow | undefined;
+    return row ? dbManager.rowToScrapbookEntry(row) : null;
+  }
+
+  async listForUser(userId: string, tag?: string): Promise<ScrapbookEntry[]> {
+    const rows = connection()
+      .prepare(`
+        SELECT * FROM scrapbook_entries
+        WHERE user_id = ?
+        ${tag ? 'AND EXISTS (SELECT 1 FROM json_each(scrapbook_entries.tags) WHERE value = ?)' : ''}
+        ORDER BY pinned DESC, created_at DESC
+      `)
+      .all(...(tag ? [userId, tag] : [userId])) as ScrapbookEntryRow[];
+    return rows.map(row => dbManager.rowToScrapbookEntry(row));
+  }
+
+  async update(id: string, userId: string, update: ScrapbookUpdate): Promise<ScrapbookEntry | null> {
+    const columns = SCRAPBOOK_UPDATE_COLUMNS.filter(column => update[column] !== undefined);
+    if (columns.length === 0) {
+      const entry = await this.findById(id);
+      return entry?.user_id === userId ? entry : null;
+    }
+
+    const result = connection()
+      .prepare(`UPDATE scrapbook_entries SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE id = ? AND user_id = ?`)
+      .run(...columns.map(column => toColumnValue(update[column])), id, userId);
+    return result.changes > 0 ? this.findById(id) : null;
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    const result = connection().prepare('DELETE FROM scrapbook_entries WHERE id = ? AND user_id = ?').run(id, userId);
+    return result.changes > 0;
+  }
+}
+
+/**
+ * HonkRepository backed by the local better-sqlite3 database.
+ * The connection is looked up on every call so tests can swap it out.
+ */
+export class SqliteHonkRepository implements HonkRepository {
+  readonly driver = 'sqlite' as const;
+  users = new SqliteUserStore();
+  messages = new SqliteMessageStore();
+  conversations = new SqliteConversationStore();
+  flights = new SqliteFlightStore();
+  flightEvents = new SqliteFlightEventStore();
+  notifications = new SqliteNotificationStore();
+  postcards = new SqlitePostcardStore();
+  rewards = new SqliteRewardStore();
+  deviceLinkCodes = new SqliteDeviceLinkCodeStore();
+  devices = new SqliteUserDeviceStore();
+  sessions = new SqliteSessionStore();
+  recoveryCodes = new SqliteRecoveryCodeStore();
+  rateLimits = new SqliteRateLimitStore();
+  stickers = new SqliteStickerStore();
+  drafts = new SqliteDraftStore();
+  scrapbook = new SqliteScrapbookStore();
+}
@@ -0,0 +1,47 @@
+import Cookies from 'js-cookie';
+import { StickerSummary } from '@/types';
+
+export type StickerScope = 'mine' | 'favorites' | 'public';
+
+function authHeaders(): HeadersInit {
+  const token = Cookies.get('honk_auth_token') || localStorage.getItem('auth_token');
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {})
+  };
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: authHeaders() });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Sticker request failed (${response.status})`);
+  }
+  return body as T;
+}
+
+/**
+ * Browser-side calls to the /api/stickers library
+ */
+export const stickerClient = {
+  async list(scope: StickerScope): Promise<StickerSummary[]> {
+    const { stickers } = await request<{ stickers: StickerSummary[] }>(`/api/stickers?scope=${scope}`);
+    return stickers;
+  },
+
+  async upload(name: string, image: string, isPublic: boolean): Promise<StickerSummary> {
+    const { sticker } = await request<{ sticker: StickerSummary }>('/api/stickers', {
+      method: 'POST',
+      body: JSON.stringify({ name, image, is_public: isPublic })
+    });
+    return sticker;
+  },
+
+  async remove(id: string): Promise<void> {
+    await request(`/api/stickers/${id}`, { method: 'DELETE' });
+  },
+
+  async setFavorite(id: string, favorited: boolean): Promise<void> {
+    await request(`/api/stickers/${id}/favorite`, { method: favorited ? 'POST' : 'DELETE' });
+  }
+};
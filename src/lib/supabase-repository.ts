@@ -0,0 +1,1421 @@
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from './supabase';
+import {
+  User,
+  HonkMessage,
+  Conversation,
+  UserReward,
+  FlightRecord,
+  FlightStatus,
+  FlightEvent,
+  FlightEventDetails,
+  FlightEventType,
+  NotificationRecord,
+  NotificationType,
+  PostcardRecord,
+  StickerRecord,
+  DraftRecord,
+  JourneyData,
+  LocationData,
+  DeliveryTier,
+  PostcardBackground,
+  PostcardFont,
+  RouteWaypoint,
+  StickerData,
+  WeatherEvent,
+  UserDevice,
+  SessionRecord,
+  RecoveryCodeRecord,
+  RateLimitEvent,
+  ScrapbookEntry,
+} from '@/types';
+import type {
+  HonkRepository,
+  UserStore,
+  MessageStore,
+  ConversationStore,
+  FlightStore,
+  FlightEventStore,
+  NotificationStore,
+  PostcardStore,
+  RewardStore,
+  DeviceLinkCodeStore,
+  UserDeviceStore,
+  SessionStore,
+  RecoveryCodeStore,
+  RateLimitStore,
+  RateLimitWindow,
+  StickerStore,
+  DraftStore,
+  ScrapbookStore,
+  NewUser,
+  UserUpdate,
+  UserStatIncrements,
+  MessageWithSender,
+  ConversationWithParticipants,
+  InboxQuery,
+  Page,
+  DeviceLinkCodeRecord,
+  ScheduledMessageUpdate,
+  StickerListing,
+  StickerImage,
+  DraftUpdate,
+  ScrapbookUpdate,
+} from './repository';
+import { readPostcardDrawing } from '@/utils/postcardDrawing';
+
+// Postgres rows come back with JSONB already decoded, so these are loose
+// records rather than the SQLite *Row string types. Columns are narrowed
+// as they are read.
+type PgRow = Record<string, unknown>;
+
+const NO_ROWS = 'PGRST116';
+const UNKNOWN_LOCATION: LocationData = { latitude: 0, longitude: 0, is_anonymous: true };
+const SENDER_JOIN = 'sender:users!messages_sender_id_fkey(username, current_rank)';
+const POSTCARD_COLUMNS = 'id, message_id, title, description, image_url, location, weather_snapshot, created_at';
+const STICKER_COLUMNS = 'id, owner_id, name, mime_type, width, height, byte_size, is_public, created_at';
+
+function check(error: PostgrestError | null): void {
+  if (error) throw error;
+}
+
+function maybeOne<T>(data: PgRow | null, error: PostgrestError | null, map: (row: PgRow) => T): T | null {
+  if (error) {
+    if (error.code === NO_ROWS) return null;
+    throw error;
+  }
+  return data ? map(data) : null;
+}
+
+/** A text column, empty when null */
+function text(value: unknown): string {
+  return value == null ? '' : String(value);
+}
+
+/** A nullable text column */
+function optionalText(value: unknown): string | undefined {
+  return value == null ? undefined : String(value);
+}
+
+/** A nullable foreign key that stays null rather than undefined */
+function nullableText(value: unknown): string | null {
+  return value == null ? null : String(value);
+}
+
+function timestamp(value: unknown): Date {
+  return new Date(value as string);
+}
+
+function optionalTimestamp(value: unknown): Date | undefined {
+  return value ? new Date(value as string) : undefined;
+}
+
+/** A JSONB column, already decoded by PostgREST */
+function jsonb<T>(value: unknown, fallback: T): T {
+  return (value ?? fallback) as T;
+}
+
+function rowToUser(row: PgRow): User {
+  return {
+    id: text(row.id),
+    email: text(row.email),
+    username: text(row.username),
+    password_hash: text(row.password_hash),
+    created_at: timestamp(row.created_at),
+    last_active: timestamp(row.last_active),
+    total_journey_points: Number(row.total_journey_points ?? 0),
+    current_rank: optionalText(row.current_rank) ?? 'Fledgling Courier',
+    location_sharing_preference: jsonb<User['location_sharing_preference']>(row.location_sharing_preference, 'state'),
+    opt_out_random: Boolean(row.opt_out_random),
+    current_location: jsonb<LocationData | undefined>(row.current_location, undefined),
+    total_flights_sent: Number(row.total_flights_sent ?? 0),
+    total_flights_received: Number(row.total_flights_received ?? 0),
+    total_distance_traveled: Number(row.total_distance_traveled ?? 0),
+    countries_visited: jsonb<string[]>(row.countries_visited, []),
+    states_visited: jsonb<string[]>(row.states_visited, []),
+    achievements: jsonb<string[]>(row.achievements, []),
+    time_zone: optionalText(row.time_zone),
+  };
+}
+
+function userToRow(user: Partial<NewUser>): PgRow {
+  const row: PgRow = Object.fromEntries(Object.entries(user).filter(([, value]) => value !== undefined));
+  for (const key of ['created_at', 'last_active'] as const) {
+    const value = user[key];
+    if (value instanceof Date) row[key] = value.toISOString();
+  }
+  return row;
+}
+
+function rowToMessage(row: PgRow): MessageWithSender {
+  const sender = row.sender as { username?: string; current_rank?: string } | null | undefined;
+  return {
+    id: text(row.id),
+    sender_id: text(row.sender_id),
+    recipient_id: nullableText(row.recipient_id),
+    title: text(row.title),
+    content: text(row.content),
+    sender_location: jsonb<LocationData>(row.sender_location, UNKNOWN_LOCATION),
+    recipient_location: jsonb<LocationData | undefined>(row.recipient_location, undefined),
+    status: row.status as HonkMessage['status'],
+    created_at: timestamp(row.created_at),
+    delivered_at: optionalTimestamp(row.delivered_at),
+    journey_data: jsonb<JourneyData | undefined>(row.journey_data, undefined),
+    message_type: jsonb<HonkMessage['message_type']>(row.message_type, 'regular'),
+    sticker_data: jsonb<StickerData[]>(row.sticker_data, []),
+    drawing_data: readPostcardDrawing(row.drawing_data),
+    postcard_background: jsonb<PostcardBackground | undefined>(row.postcard_background, undefined),
+    postcard_font: jsonb<PostcardFont | undefined>(row.postcard_font, undefined),
+    scheduled_for: optionalTimestamp(row.scheduled_for),
+    scheduled_timezone: optionalText(row.scheduled_timezone),
+    delivery_tier: jsonb<DeliveryTier>(row.delivery_tier, 'standard'),
+    ...(sender
+      ? { sender_username: sender.username, sender_rank: sender.current_rank }
+      : {}),
+  };
+}
+
+function rowToConversation(row: PgRow): Conversation {
+  return {
+    id: text(row.id),
+    user1_id: text(row.user1_id),
+    user2_id: text(row.user2_id),
+    message_ids: jsonb<string[]>(row.message_ids, []),
+    created_at: timestamp(row.created_at),
+    last_message_at: timestamp(row.last_message_at ?? row.created_at),
+  };
+}
+
+function rowToFlight(row: PgRow): FlightRecord {
+  return {
+    id: text(row.id),
+    message_id: text(row.message_id),
+    status: row.status as FlightStatus,
+    route: jsonb<RouteWaypoint[]>(row.route, []),
+    total_distance: Number(row.total_distance),
+    estimated_duration: Number(row.estimated_duration),
+    progress_percentage: Number(row.progress_percentage),
+    current_position: jsonb<LocationData>(row.current_position, UNKNOWN_LOCATION),
+    speed_kmh: Number(row.speed_kmh),
+    weather_events: jsonb<WeatherEvent[]>(row.weather_events, []),
+    delivery_tier: jsonb<DeliveryTier>(row.delivery_tier, 'standard'),
+    started_at: timestamp(row.started_at),
+    updated_at: timestamp(row.updated_at),
+    estimated_arrival: timestamp(row.estimated_arrival ?? row.updated_at),
+  };
+}
+
+function rowToFlightEvent(row: PgRow): FlightEvent {
+  return {
+    id: text(row.id),
+    flight_id: text(row.flight_id),
+    message_id: text(row.message_id),
+    type: row.type as FlightEventType,
+    occurred_at: timestamp(row.occurred_at),
+    position: jsonb<LocationData>(row.position, UNKNOWN_LOCATION),
+    progress_percentage: Number(row.progress_percentage),
+    details: jsonb<FlightEventDetails>(row.details, {}),
+  };
+}
+
+function rowToNotification(row: PgRow): NotificationRecord {
+  return {
+    id: text(row.id),
+    user_id: text(row.user_id),
+    type: row.type as NotificationType,
+    title: text(row.title),
+    body: text(row.body),
+    metadata: jsonb<Record<string, unknown> | undefined>(row.metadata, undefined),
+    created_at: timestamp(row.created_at),
+    read_at: optionalTimestamp(row.read_at),
+  };
+}
+
+function rowToPostcard(row: PgRow): PostcardRecord {
+  return {
+    id: text(row.id),
+    message_id: text(row.message_id),
+    title: text(row.title),
+    description: text(row.description),
+    image_url: optionalText(row.image_url),
+    location: jsonb<LocationData>(row.location, UNKNOWN_LOCATION),
+    weather_snapshot: jsonb<WeatherEvent | undefined>(row.weather_snapshot, undefined),
+    created_at: timestamp(row.created_at),
+  };
+}
+
+function rowToSticker(row: PgRow): StickerRecord {
+  return {
+    id: text(row.id),
+    owner_id: text(row.owner_id),
+    name: text(row.name),
+    mime_type: row.mime_type as StickerRecord['mime_type'],
+    width: Number(row.width),
+    height: Number(row.height),
+    byte_size: Number(row.byte_size),
+    is_public: Boolean(row.is_public),
+    created_at: timestamp(row.created_at),
+  };
+}
+
+function rowToDraft(row: PgRow): DraftRecord {
+  return {
+    id: text(row.id),
+    owner_id: text(row.owner_id),
+    kind: row.kind as DraftRecord['kind'],
+    title: text(row.title),
+    content: text(row.content),
+    location_sharing: row.location_sharing as DraftRecord['location_sharing'],
+    recipient_id: optionalText(row.recipient_id),
+    reply_to_message_id: optionalText(row.reply_to_message_id),
+    recipient_name: optionalText(row.recipient_name),
+    sticker_data: jsonb<StickerData[]>(row.sticker_data, []),
+    created_at: timestamp(row.created_at),
+    updated_at: timestamp(row.updated_at),
+  };
+}
+
+function rowToScrapbookEntry(row: PgRow): ScrapbookEntry {
+  return {
+    id: text(row.id),
+    user_id: text(row.user_id),
+    message_id: text(row.message_id),
+    tags: jsonb<string[]>(row.tags, []),
+    pinned: Boolean(row.pinned),
+    created_at: timestamp(row.created_at),
+  };
+}
+
+function rowToUserDevice(row: PgRow): UserDevice {
+  return {
+    id: text(row.id),
+    user_id: text(row.user_id),
+    name: text(row.name),
+    user_agent: text(row.user_agent),
+    fingerprint: optionalText(row.fingerprint),
+    created_at: timestamp(row.created_at),
+    last_seen_at: timestamp(row.last_seen_at),
+  };
+}
+
+function rowToSession(row: PgRow): SessionRecord {
+  return {
+    id: text(row.id),
+    family_id: text(row.family_id),
+    user_id: text(row.user_id),
+    device_id: optionalText(row.device_id),
+    token_hash: text(row.token_hash),
+    created_at: timestamp(row.created_at),
+    expires_at: timestamp(row.expires_at),
+    rotated_at: optionalTimestamp(row.rotated_at),
+    revoked_at: optionalTimestamp(row.revoked_at),
+  };
+}
+
+function rowToRecoveryCode(row: PgRow): RecoveryCodeRecord {
+  return {
+    id: text(row.id),
+    user_id: text(row.user_id),
+    code_hash: text(row.code_hash),
+    created_at: timestamp(row.created_at),
+    used_at: optionalTimestamp(row.used_at),
+  };
+}
+
+function rowToReward(row: PgRow): UserReward {
+  return {
+    id: text(row.id),
+    user_id: text(row.user_id),
+    reward_type: row.reward_type as UserReward['reward_type'],
+    reward_id: text(row.reward_id),
+    unlocked_at: timestamp(row.unlocked_at),
+  };
+}
+
+class SupabaseUserStore implements UserStore {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async findById(id: string): Promise<User | null> {
+    return this.findOne('id', id);
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    return this.findOne('email', email);
+  }
+
+  async findByUsername(username: string): Promise<User | null> {
+    return this.findOne('username', username);
+  }
+
+  async findByDeviceFingerprint(fingerprint: string): Promise<User | null> {
+    return this.findOne('device_fingerprint', fingerprint);
+  }
+
+  async create(user: NewUser): Promise<User> {
+    const { data, error } = await this.client.from('users').insert(userToRow(user)).select().single();
+    check(error);
+    return rowToUser(data);
+  }
+
+  async update(id: string, updates: UserUpdate): Promise<boolean> {
+    const row = userToRow(updates);
+    if (Object.keys(row).length === 0) {
+      return (await this.findById(id)) !== null;
+    }
+
+    const { data, error } = await this.client.from('users').update(row).eq('id', id).select('id');
+    check(error);
+    return (data ?? []).length > 0;
+  }
+
+  async incrementStats(id: string, increments: UserStatIncrements, at: Date = new Date()): Promise<void> {
+    const { error } = await this.client.rpc('increment_user_stats', {
+      p_user_id: id,
+      p_journey_points: increments.total_journey_points ?? 0,
+      p_flights_sent: increments.total_flights_sent ?? 0,
+      p_flights_received: increments.total_flights_received ?? 0,
+      p_distance: increments.total_distance_traveled ?? 0,
+      p_at: at.toISOString(),
+    });
+    check(error);
+  }
+
+  async listOthers(userId: string): Promise<User[]> {
+    const { data, error } = await this.client
+      .from('users')
+      .select('*')
+      .neq('id', userId)
+      .order('username', { ascending: true });
+    check(error);
+    return (data ?? []).map(rowToUser);
+  }
+
+  async listActiveWithLocation(since: Date): Promise<User[]> {
+    const { data, error } = await this.client
+      .from('users')
+      .select('*')
+      .gte('last_active', since.toISOString())
+      .not('current_location', 'is', null);
+    check(error);
+    return (data ?? []).map(rowToUser);
+  }
+
+  async listByPoints(limit: number): Promise<User[]> {
+    const { data, error } = await this.client
+      .from('users')
+      .select('*')
+      .order('total_journey_points', { ascending: false })
+      .limit(limit);
+    check(error);
+    return (data ?? []).map(rowToUser);
+  }
+
+  private async findOne(column: string, value: string): Promise<User | null> {
+    const { data, error } = await this.client.from('users').select('*').eq(column, value).single();
+    return maybeOne(data, error, rowToUser);
+  }
+}
+
+class SupabaseMessageStore implements MessageStore {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(message: HonkMessage): Promise<void> {
+    const { error } = await this.client.from('messages').insert({
+      ...message,
+      created_at: message.created_at.toISOString(),
+      delivered_at: message.delivered_at?.toISOString() ?? null,
+      recipient_location: message.recipient_location ?? null,
+      journey_data: message.journey_data ?? null,
+      drawing_data: message.drawing_data ?? null,
+      postcard_background: message.postcard_background ?? null,
+      postcard_font: message.postcard_font ?? null,
+      scheduled_for: message.scheduled_for?.toISOString() ?? null,
+      scheduled_timezone: message.scheduled_timezone ?? null,
+      delivery_tier: message.delivery_tier ?? 'standard',
+    });
+    check(error);
+  }
+
+  async findById(id: string): Promise<HonkMessage | null> {
+    const { data, error } = await this.client.from('messages').select('*').eq('id', id).single();
+    return maybeOne(data, error, rowToMessage);
+  }
+
+  async findForParticipant(id: string, userId: string): Promise<MessageWithSender | null> {
+    const { data, error } = await this.client
+      .from('messages')
+      .select(`*, ${SENDER_JOIN}`)
+      .eq('id', id)
+      .or(`sender_id.eq.${userId},and(recipient_id.eq.${userId},status.neq.scheduled)`)
+      .single();
+    return maybeOne(data, error, rowToMessage);
+  }
+
+  async findManyWithSender(ids: string[]): Promise<MessageWithSender[]> {
+    if (ids.length === 0) return [];
+
+    const { data, error } = await this.client
+      .from('messages')
+      .select(`*, ${SENDER_JOIN}`)
+      .in('id', ids)
+      .order('created_at', { ascending: true });
+    check(error);
+    return (data ?? []).map(rowToMessage);
+  }
+
+  async listInbox(recipientId: string, query: InboxQuery): Promise<Page<MessageWithSender>> {
+    let request = this.client
+      .from('messages')
+      .select(`*, ${SENDER_JOIN}`, { count: 'exact' })
+      .eq('recipient_id', recipientId)
+      .neq('status', 'scheduled');
+
+    if (query.status) {
+      request = request.eq('status', query.status);
+    }
+
+    if (query.search) {
+      const pattern = `%${query.search}%`;
+      request = request.or(`title.ilike.${pattern},content.ilike.${pattern}`);
+    }
+
+    const { data, error, count } = await request
+      .order(query.sortBy, { ascending: query.sortOrder === 'asc' })
+      .range(query.offset, query.offset + query.limit - 1);
+    check(error);
+
+    return { items: (data ?? []).map(rowToMessage), total: count ?? 0 };
+  }
+
+  async markDelivered(id: string, deliveredAt: Date): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('messages')
+      .update({ status: 'delivered', delivered_at: deliveredAt.toISOString() })
+      .eq('id', id)
+      .eq('status', 'flying')
+      .select('id');
+    check(error);
+    return (data ?? []).length > 0;
+  }
+
+  async markReturned(id: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('messages')
+      .update({ status: 'returned' })
+      .eq('id', id)
+      .eq('status', 'flying')
+      .select('id');
+    check(error);
+    return (data ?? []).length > 0;
+  }
+
+  async updateStatus(id: string, status: HonkMessage['status']): Promise<void> {
+    const { error } = await this.client.from('messages').update({ status }).eq('id', id);
+    check(error);
+  }
+
+  async updateJourneyData(id: string, journeyData: JourneyData): Promise<void> {
+    const { error } = await this.client.from('messages').update({ journey_data: journeyData }).eq('id', id);
+    check(error);
+  }
+
+  async listAwaitingDelivery(): Promise<string[]> {
+    const { data: flights, error: flightError } = await this.client
+      .from('flights')
+      .select('message_id')
+      .or('status.eq.delivered,progress_percentage.gte.100');
+    check(flightError);
+
+    const messageIds = (flights ?? []).map(row => row.message_id as string);
+    if (messageIds.length === 0) return [];
+
+    const { data, error } = await this.client
+      .from('messages')
+      .select('id')
+      .eq('status', 'flying')
+      .in('id', messageIds);
+    check(error);
+    return (data ?? []).map(row => row.id as string);
+  }
+
+  async listScheduled(senderId?: string): Promise<HonkMessage[]> {
+    let request = this.client.from('messages').select('*').eq('status', 'scheduled');
+    if (senderId) {
+      request = request.eq('sender_id', senderId);
+    }
+
+    const { data, error } = await request.order('scheduled_for', { ascending: true });
+    check(error);
+    return (data ?? []).map(rowToMessage);
+  }
+
+  async listDeliveredBySender(senderId: string): Promise<HonkMessage[]> {
+    const { data, error } = await this.client
+      .from('messages')
+      .select('*')
+      .eq('sender_id', senderId)
+      .eq('status', 'delivered')
+      .order('delivered_at', { ascending: true });
+    check(error);
+    return (data ?? []).map(rowToMessage);
+  }
+
+  async listDeliveredSenders(): Promise<string[]> {
+    const { data, error } = await this.client
+      .from('messages')
+      .select('sender_id')
+      .eq('status', 'delivered');
+    check(error);
+    return [...new Set((data ?? []).map(row => row.sender_id as string))];
+  }
+
+  async updateScheduled(id: string, updates: ScheduledMessageUpdate): Promise<boolean> {
+    const row: PgRow = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+    if (updates.scheduled_for) row.scheduled_for = updates.scheduled_for.toISOString();
+
+    const { data, error } = await this.client
+      .from('messages')
+      .update(row)
+      .eq('id', id)
+      .eq('status', 'scheduled')
+      .select('id');
+    check(error);
+    return (data ?? []).length > 0;
+  }
+
+  async markLaunched(id: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('messages')
+      .update({ status: 'flying' })
+      .eq('id', id)
+      .eq('status', 'scheduled')
+      .select('id');
+    check(error);
+    return (data ?? []).length > 0;
+  }
+
+  async deleteScheduled(id: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('messages')
+      .delete()
+      .eq('id', id)
+      .eq('status', 'scheduled')
+      .select('id');
+    check(error);
+    return (data ?? []).length > 0;
+  }
+}
+
+class SupabaseConversationStore implements ConversationStore {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async findForParticipant(id: string, userId: string): Promise<Conversation | null> {
+    const { data, error } = await this.client
+      .from('conversations')
+      .select('*')
+      .eq('id', id)
+      .or(`user1_id.eq.${userId},user2_id.eq.${userId}`)
+      .single();
+    return maybeOne(data, error, rowToConversation);
+  }
+
+  async findBetween(userA: string, userB: string): Promise<Conversation | null> {
+    const { data, error } = await this.client
+      .from('conversations')
+      .select('*')
+      .or(`and(user1_id.eq.${userA},user2_id.eq.${userB}),and(user1_id.eq.${userB},user2_id.eq.${userA})`)
+      .limit(1)
+      .maybeSingle();
+    return maybeOne(data, error, rowToConversation);
+  }
+
+  async listForUser(userId: string, limit: number, offset: number): Promise<Page<ConversationWithParticipants>> {
+    const { data, error, count } = await this.client
+      .from('conversations')
+      .select(
+        '*, user1:users!conversations_user1_id_fkey(username), user2:users!conversations_user2_id_fkey(username)',
+        { count: 'exact' }
+      )
+      .or(`user1_id.eq.${userId},user2_id.eq.${userId}`)
+      .order('last_message_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+    check(error);
+
+    return {
+      items: (data ?? []).map(row => ({
+        ...rowToConversation(row),
+        user1_username: row.user1?.username,
+        user2_username: row.user2?.username,
+      })),
+      total: count ?? 0,
+    };
+  }
+
+  async create(conversation: Conversation): Promise<void> {
+    const { error } = await this.client.from('conversations').insert({
+      ...conversation,
+      created_at: conversation.created_at.toISOString(),
+      last_message_at: conversation.last_message_at.toISOString(),
+    });
+    check(error);
+  }
+
+  async appendMessage(id: string, messageId: string, at: Date): Promise<void> {
+    const { error } = await this.client.rpc('append_conversation_message', {
+      p_conversation_id: id,
+      p_message_id: messageId,
+      p_at: at.toISOString(),
+    });
+    check(error);
+  }
+}
+
+class SupabaseFlightStore implements FlightStore {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async save(flight: FlightRecord): Promise<void> {
+    const { error } = await this.client.from('flights').upsert(
+      {
+        ...flight,
+        started_at: flight.started_at.toISOString(),
+        updated_at: flight.updated_at.toISOString(),
+        estimated_arrival: flight.estimated_arrival.toISOString(),
+      },
+      { onConflict: 'message_id' }
+    );
+    check(error);
+  }
+
+  async findByMessageId(messageId: string): Promise<FlightRecord | null> {
+    const { data, error } = await this.client.from('flights').select('*').eq('message_id', messageId).maybeSingle();
+    return maybeOne(data, error, rowToFlight);
+  }
+
+  async listByStatus(statuses: FlightStatus[]): Promise<FlightRecord[]> {
+    if (statuses.length === 0) return [];
+
+    const { data, error } = await this.client
+      .from('flights')
+      .select('*')
+      .in('status', statuses)
+      .order('started_at', { ascending: true });
+    check(error);
+    return (data ?? []).map(rowToFlight);
+  }
+}
+
+class SupabaseFlightEventStore implements FlightEventStore {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async append(event: FlightEvent): Promise<void> {
+    const { error } = await this.client.from('flight_events').insert({
+      ...event,
+      occurred_at: event.occurred_at.toISOString(),
+    });
+    check(error);
+  }
+
+  async listForMessage(messageId: string): Promise<FlightEvent[]> {
+    const { data, error } = await this.client
+      .from('flight_events')
+      .select('*')
+      .eq('message_id', messageId)
+      .order('occurred_at', { ascending: true })
+      .order('seq', { ascending: true });
+    check(error);
+    return (data ?? []).map(rowToFlightEvent);
+  }
+}
+
+class SupabaseNotificationStore implements NotificationStore {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(notification: NotificationRecord): Promise<void> {
+    const { error } = await this.client.from('notifications').insert({
+      ...notification,
+      metadata: notification.metadata ?? null,
+      created_at: notification.created_at.toISOString(),
+      read_at: notification.read_at?.toISOString() ?? null,
+    });
+    check(error);
+  }
+
+  async listForUser(userId: string, limit: number): Promise<NotificationRecord[]> {
+    const { data, error } = await this.client
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    check(error);
+    return (data ?? []).map(rowToNotification);
+  }
+
+  async markRead(id: string, readAt: Date): Promise<void> {
+    const { error } = await this.client.from('notifications').update({ read_at: readAt.toISOString() }).eq('id', id);
+    check(error);
+  }
+}
+
+class SupabasePostcardStore implements PostcardStore {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(postcard: PostcardRecord): Promise<void> {
+    const { error } = await this.client.from('postcards').insert({
+      ...postcard,
+      image_url: postcard.image_url ?? null,
+      weather_snapshot: postcard.weather_snapshot ?? null,
+      created_at: postcard.created_at.toISOString(),
+    });
+    check(error);
+  }
+
+  async findById(id: string): Promise<PostcardRecord | null> {
+    const { data, error } = await this.client.from('postcards').select(POSTCARD_COLUMNS).eq('id', id).maybeSingle();
+    return maybeOne(data, error, rowToPostcard);
+  }
+
+  async findByMessageId(messageId: string): Promise<PostcardRecord | null> {
+    const { data, error } = await this.client.from('postcards').select(POSTCARD_COLUMNS).eq('message_id', messageId).maybeSingle();
+    return maybeOne(data, error, rowToPostcard);
+  }
+
+  async findByMessageIds(messageIds: string[]): Promise<PostcardRecord[]> {
+    if (messageIds.length === 0) return [];
+    const { data, error } = await this.client.from('postcards').select(POSTCARD_COLUMNS).in('message_id', messageIds);
+    check(error);
+    return (data ?? []).map(rowToPostcard);
+  }
+
+  async saveImage(id: string, image: Buffer, imageUrl: string): Promise<void> {
+    const { error } = await this.client
+      .from('postcards')
+      .update({ image_data: `\\x${image.toString('hex')}`, image_url: imageUrl })
+      .eq('id', id);
+    check(error);
+  }
+
+  async findImage(id: string): Promise<Buffer | null> {
+    const { data, error } = await this.client.from('postcards').select('image_data').eq('id', id).maybeSingle();
+    const hex = maybeOne(data, error, row => row.image_data as string | null);
+    return hex ? Buffer.from(hex.replace(/^\\x/, ''), 'hex') : null;
+  }
+}
+
+class SupabaseRewardStore implements RewardStore {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async listForUser(userId: string): Promise<UserReward[]> {
+    const { data, error } = await this.client
+      .from('user_rewards')
+      .select('*')
+      .eq('user_id', userId)
+      .order('unlocked_at', { ascending: false });
+    check(error);
+    return (data ?? []).map(rowToReward);
+  }
+
+  async has(userId: string, rewardType: string, rewardId: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('user_rewards')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('reward_type', rewardType)
+      .eq('reward_id', rewardId)
+      .maybeSingle();
+    check(error);
+    return Boolean(data);
+  }
+
+  async unlock(userId: string, rewardType: string, rewardId: string, at: Date = new Date()): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('user_rewards')
+      .upsert(
+        {
+          id: uuidv4(),
+          user_id: userId,
+          reward_type: rewardType,
+          reward_id: rewardId,
+          unlocked_at: at.toISOString(),
+        },
+        { onConflict: 'user_id,reward_type,reward_id', ignoreDuplicates: true }
+      )
+      .select('id');
+    check(error);
+    return (data ?? []).length > 0;
+  }
+}
+
+class SupabaseDeviceLinkCodeStore implements DeviceLinkCodeStore {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async replaceForUser(record: DeviceLinkCodeRecord): Promise<void> {
+    const { error: deleteError } = await this.client.from('device_link_codes').delete().eq('user_id', record.user_id);
+    check(deleteError);
+
+    const { error } = await this.client.from('device_link_codes').insert({
+      ...record,
+      created_at: record.created_at.toISOString(),
+      expires_at: record.expires_at.toISOString(),
+    });
+    check(error);
+  }
+
+  async findValid(code: string, now: Date): Promise<DeviceLinkCodeRecord | null> {
+    const { data, error } = await this.client
+      .from('device_link_codes')
+      .select('*')
+      .eq('code', code)
+      .eq('used', false)
+      .gt('expires_at', now.toISOString())
+      .limit(1)
+      .maybeSingle();
+
+    return maybeOne(data, error, row => ({
+      id: text(row.id),
+      user_id: text(row.user_id),
+      code: text(row.code),
+      created_at: timestamp(row.created_at),
+      expires_at: timestamp(row.expires_at),
+      used: Boolean(row.used),
+    }));
+  }
+
+  async markUsed(id: string): Promise<void> {
+    const { error } = await this.client.from('device_link_codes').update({ used: true }).eq('id', id);
+    check(error);
+  }
+
+  async recordMiss(now: Date, maxMisses: number): Promise<void> {
+    const { error } = await this.client.rpc('record_link_code_miss', {
+      p_now: now.toISOString(),
+      p_max_misses: maxMisses,
+    });
+    check(error);
+  }
+
+  async deleteExpired(now: Date): Promise<void> {
+    const { error } = await this.client.from('device_link_codes').delete().lt('expires_at', now.toISOString());
+    check(error);
+  }
+}
+
+class SupabaseUserDeviceStore implements UserDeviceStore {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(device: UserDevice): Promise<void> {
+    const { error } = await this.client.from('user_devices').insert({
+      ...device,
+      fingerprint: device.fingerprint ?? null,
+      created_at: device.created_at.toISOString(),
+      last_seen_at: device.last_seen_at.toISOString(),
+    });
+    check(error);
+  }
+
+  async findById(id: string): Promise<UserDevice | null> {
+    const { data, error } = await this.client.from('user_devices').select('*').eq('id', id).maybeSingle();
+    return maybeOne(data, error, rowToUserDevice);
+  }
+
+  async findByFingerprint(fingerprint: string): Promise<UserDevice | null> {
+    const { data, error } = await this.client
+      .from('user_devices')
+      .select('*')
+      .eq('fingerprint', fingerprint)
+      .maybeSingle();
+    return maybeOne(data, error, rowToUserDevice);
+  }
+
+  async listByUser(userId: string): Promise<UserDevice[]> {
+    const { data, error } = await this.client
+      .from('user_devices')
+      .select('*')
+      .eq('user_id', userId)
+      .order('last_seen_at', { ascending: false });
+    check(error);
+    return (data ?? []).map(rowToUserDevice);
+  }
+
+  async rename(id: string, userId: string, name: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('user_devices')
+      .update({ name })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+    check(error);
+    return (data ?? []).length > 0;
+  }
+
+  async touch(id: string, at: Date): Promise<void> {
+    const { error } = await this.client.from('user_devices').update({ last_seen_at: at.toISOString() }).eq('id', id);
+    check(error);
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('user_devices')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+    check(error);
+    return (data ?? []).length > 0;
+  }
+}
+
+class SupabaseSessionStore implements SessionStore {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(session: SessionRecord): Promise<void> {
+    const { error } = await this.client.from('sessions').insert({
+      id: session.id,
+      family_id: session.family_id,
+      user_id: session.user_id,
+      device_id: session.device_id ?? null,
+      token_hash: session.token_hash,
+      created_at: session.created_at.toISOString(),
+      expires_at: session.expires_at.toISOString(),
+    });
+    check(error);
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<SessionRecord | null> {
+    const { data, error } = await this.client.from('sessions').select('*').eq('token_hash', tokenHash).maybeSingle();
+    return maybeOne(data, error, rowToSession);
+  }
+
+  async rotate(id: string, at: Date): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('sessions')
+      .update({ rotated_at: at.toISOString() })
+      .eq('id', id)
+      .is('rotated_at', null)
+      .is('revoked_at', null)
+      .select('id');
+    check(error);
+    return (data ?? []).length > 0;
+  }
+
+  async isFamilyActive(familyId: string, now: Date): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('sessions')
+      .select('id')
+      .eq('family_id', familyId)
+      .is('revoked_at', null)
+      .gt('expires_at', now.toISOString())
+      .limit(1);
+    check(error);
+    return (data ?? []).length > 0;
+  }
+
+  async revokeFamily(familyId: string, at: Date): Promise<void> {
+    const { error } = await this.client
+      .from('sessions')
+      .update({ revoked_at: at.toISOString() })
+      .eq('family_id', familyId)
+      .is('revoked_at', null);
+    check(error);
+  }
+
+  async revokeByUser(userId: string, at: Date): Promise<void> {
+    const { error } = await this.client
+      .from('sessions')
+      .update({ revoked_at: at.toISOString() })
+      .eq('user_id', userId)
+      .is('revoked_at', null);
+    check(error);
+  }
+
+  async revokeByDevice(deviceId: string, at: Date): Promise<void> {
+    const { error } = await this.client
+      .from('sessions')
+      .update({ revoked_at: at.toISOString() })
+      .eq('device_id', deviceId)
+      .is('revoked_at', null);
+    check(error);
+  }
+}
+
+class SupabaseRecoveryCodeStore implements RecoveryCodeStore {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async replaceForUser(userId: string, codes: RecoveryCodeRecord[]): Promise<void> {
+    const { error: deleteError } = await this.client.from('recovery_codes').delete().eq('user_id', userId);
+    check(deleteError);
+
+    const { error } = await this.client.from('recovery_codes').insert(codes.map(code => ({
+      id: code.id,
+      user_id: userId,
+      code_hash: code.code_hash,
+      created_at: code.created_at.toISOString(),
+    })));
+    check(error);
+  }
+
+  async redeem(codeHash: string, at: Date): Promise<RecoveryCodeRecord | null> {
+    const { data, error } = await this.client
+      .from('recovery_codes')
+      .update({ used_at: at.toISOString() })
+      .eq('code_hash', codeHash)
+      .is('used_at', null)
+      .select('*')
+      .maybeSingle();
+    return maybeOne(data, error, rowToRecoveryCode);
+  }
+
+  async countUnused(userId: string): Promise<number> {
+    const { count, error } = await this.client
+      .from('recovery_codes')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('used_at', null);
+    check(error);
+    return count ?? 0;
+  }
+}
+
+class SupabaseRateLimitStore implements RateLimitStore {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async take(event: RateLimitEvent, since: Date, limit: number): Promise<RateLimitWindow> {
+    const { data, error } = await this.client
+      .rpc('take_rate_limit', {
+        p_id: event.id,
+        p_subject: event.subject,
+        p_action: event.action,
+        p_occurred_at: event.occurred_at.toISOString(),
+        p_metadata: event.metadata ?? null,
+        p_since: since.toISOString(),
+        p_limit: limit,
+      })
+      .single();
+    check(error);
+
+    const row = (data ?? {}) as PgRow;
+    return {
+      count: Number(row.event_count ?? 0),
+      oldest: row.oldest ? timestamp(row.oldest) : null,
+      recorded: Boolean(row.recorded),
+    };
+  }
+}
+
+class SupabaseStickerStore implements StickerStore {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(sticker: StickerRecord, image: Buffer): Promise<void> {
+    const { error } = await this.client.from('stickers').insert({
+      ...sticker,
+      // bytea goes over PostgREST as a hex literal
+      image_data: `\\x${image.toString('hex')}`,
+      created_at: sticker.created_at.toISOString(),
+    });
+    check(error);
+  }
+
+  async findById(id: string): Promise<StickerRecord | null> {
+    const { data, error } = await this.client.from('stickers').select(STICKER_COLUMNS).eq('id', id).maybeSingle();
+    return maybeOne(data, error, rowToSticker);
+  }
+
+  async findImage(id: string): Promise<StickerImage | null> {
+    const { data, error } = await this.client.from('stickers').select('mime_type, image_data').eq('id', id).maybeSingle();
+    return maybeOne(data, error, row => ({
+      mime_type: row.mime_type as StickerImage['mime_type'],
+      data: Buffer.from(String(row.image_data).replace(/^\\x/, ''), 'hex'),
+    }));
+  }
+
+  async countByOwner(ownerId: string): Promise<number> {
+    const { count, error } = await this.client
+      .from('stickers')
+      .select('id', { count: 'exact', head: true })
+      .eq('owner_id', ownerId);
+    check(error);
+    return count ?? 0;
+  }
+
+  async listByOwner(ownerId: string): Promise<StickerListing[]> {
+    const { data, error } = await this.client
+      .from('sticker_listings')
+      .select('*')
+      .eq('owner_id', ownerId)
+      .order('created_at', { ascending: false });
+    check(error);
+    return this.withFavorited(data ?? [], ownerId);
+  }
+
+  async listFavorites(userId: string): Promise<StickerListing[]> {
+    const { data: favorites, error: favoritesError } = await this.client
+      .from('sticker_favorites')
+      .select('sticker_id')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+    check(favoritesError);
+
+    const ids = (favorites ?? []).map(row => row.sticker_id as string);
+    if (ids.length === 0) return [];
+
+    const { data, error } = await this.client
+      .from('sticker_listings')
+      .select('*')
+      .in('id', ids)
+      .or(`is_public.eq.true,owner_id.eq.${userId}`);
+    check(error);
+
+    const byId = new Map((data ?? []).map(row => [row.id as string, row]));
+    const rows = ids.map(id => byId.get(id)).filter((row): row is PgRow => Boolean(row));
+    return rows.map(row => this.toListing(row, true));
+  }
+
+  async listPublic(viewerId: string, limit: number, offset: number): Promise<Page<StickerListing>> {
+    const { data, error, count } = await this.client
+      .from('sticker_listings')
+      .select('*', { count: 'exact' })
+      .eq('is_public', true)
+      .order('favorite_count', { ascending: false })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+    check(error);
+    return { items: await this.withFavorited(data ?? [], viewerId), total: count ?? 0 };
+  }
+
+  async favorite(stickerId: string, userId: string, at: Date = new Date()): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('sticker_favorites')
+      .upsert(
+        { sticker_id: stickerId, user_id: userId, created_at: at.toISOString() },
+        { onConflict: 'sticker_id,user_id', ignoreDuplicates: true }
+      )
+      .select('sticker_id');
+    check(error);
+    return (data ?? []).length > 0;
+  }
+
+  async unfavorite(stickerId: string, userId: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('sticker_favorites')
+      .delete()
+      .eq('sticker_id', stickerId)
+      .eq('user_id', userId)
+      .select('sticker_id');
+    check(error);
+    return (data ?? []).length > 0;
+  }
+
+  async delete(id: string, ownerId: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('stickers')
+      .delete()
+      .eq('id', id)
+      .eq('owner_id', ownerId)
+      .select('id');
+    check(error);
+    return (data ?? []).length > 0;
+  }
+
+  private toListing(row: PgRow, favorited: boolean): StickerListing {
+    return {
+      ...rowToSticker(row),
+      owner_username: optionalText(row.owner_username),
+      favorite_count: Number(row.favorite_count ?? 0),
+      favorited,
+    };
+  }
+
+  /** Flag the rows the viewer has favorited */
+  private async withFavorited(rows: PgRow[], viewerId: string): Promise<StickerListing[]> {
+    if (rows.length === 0) return [];
+
+    const { data, error } = await this.client
+      .from('sticker_favorites')
+      .select('sticker_id')
+      .eq('user_id', viewerId)
+      .in('sticker_id', rows.map(row => row.id));
+    check(error);
+
+    const favorited = new Set((data ?? []).map(row => row.sticker_id as string));
+    return rows.map(row => this.toListing(row, favorited.has(text(row.id))));
+  }
+}
+
+class SupabaseDraftStore implements DraftStore {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(draft: DraftRecord): Promise<void> {
+    const { error } = await this.client.from('drafts').insert({
+      ...draft,
+      recipient_id: draft.recipient_id ?? null,
+      reply_to_message_id: draft.reply_to_message_id ?? null,
+      recipient_name: draft.recipient_name ?? null,
+      created_at: draft.created_at.toISOString(),
+      updated_at: draft.updated_at.toISOString(),
+    });
+    check(error);
+  }
+
+  async findById(id: string): Promise<DraftRecord | null> {
+    const { data, error } = await this.client.from('drafts').select('*').eq('id', id).maybeSingle();
+    return maybeOne(data, error, rowToDraft);
+  }
+
+  async listByOwner(ownerId: string): Promise<DraftRecord[]> {
+    const { data, error } = await this.client
+      .from('drafts')
+      .select('*')
+      .eq('owner_id', ownerId)
+      .order('updated_at', { ascending: false });
+    check(error);
+    return (data ?? []).map(rowToDraft);
+  }
+
+  async countByOwner(ownerId: string): Promise<number> {
+    const { count, error } = await this.client
+      .from('drafts')
+      .select('id', { count: 'exact', head: true })
+      .eq('owner_id', ownerId);
+    check(error);
+    return count ?? 0;
+  }
+
+  async update(id: string, ownerId: string, update: DraftUpdate): Promise<DraftRecord | null> {
+    // A key present but undefined clears the column
+    const values = Object.fromEntries(
+      Object.entries(update).map(([column, value]) => [column, value instanceof Date ? value.toISOString() : value ?? null])
+    );
+    const { data, error } = await this.client
+      .from('drafts')
+      .update(values)
+      .eq('id', id)
+      .eq('owner_id', ownerId)
+      .select('*')
+      .maybeSingle();
+    return maybeOne(data, error, rowToDraft);
+  }
+
+  async delete(id: string, ownerId: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('drafts')
+      .delete()
+      .eq('id', id)
+      .eq('owner_id', ownerId)
+      .select('id');
+    check(error);
+    return (data ?? []).length > 0;
+  }
+}
+
+class SupabaseScrapbookStore implements ScrapbookStore {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async add(entry: ScrapbookEntry): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('scrapbook_entries')
+      .upsert(
+        { ...entry, created_at: entry.created_at.toISOString() },
+        { onConflict: 'user_id,message_id', ignoreDuplicates: true }
+      )
+      .select('id');
+    check(error);
+    return (data ?? []).length > 0;
+  }
+
+  async findById(id: string): Promise<ScrapbookEntry | null> {
+    const { data, error } = await this.client.from('scrapbook_entries').select('*').eq('id', id).maybeSingle();
+    return maybeOne(data, error, rowToScrapbookEntry);
+  }
+
+  async findByMessage(userId: string, messageId: string): Promise<ScrapbookEntry | null> {
+    const { data, error } = await this.client
+      .from('scrapbook_entries')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('message_id', messageId)
+      .maybeSingle();
+    return maybeOne(data, error, rowToScrapbookEntry);
+  }
+
+  async listForUser(userId: string, tag?: string): Promise<ScrapbookEntry[]> {
+    let request = this.client.from('scrapbook_entries').select('*').eq('user_id', userId);
+    if (tag) {
+      // tags is JSONB, so the containment value is a JSON array rather than a Postgres one
+      request = request.contains('tags', JSON.stringify([tag]));
+    }
+
+    const { data, error } = await request
+      .order('pinned', { ascending: false })
+      .order('created_at', { ascending: false });
+    check(error);
+    return (data ?? []).map(rowToScrapbookEntry);
+  }
+
+  async update(id: string, userId: string, update: ScrapbookUpdate): Promise<ScrapbookEntry | null> {
+    const values = Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined));
+    const { data, error } = await this.client
+      .from('scrapbook_entries')
+      .update(values)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('*')
+      .maybeSingle();
+    return maybeOne(data, error, rowToScrapbookEntry);
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('scrapbook_entries')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+    check(error);
+    return (data ?? []).length > 0;
+  }
+}
+
+/**
+ * HonkRepository backed by Supabase Postgres.
+ * Uses the service-role client, so it must only run on the server.
+ * See SUPABASE_SCHEMA.md for the tables and RPC functions it expects.
+ */
+export class SupabaseHonkRepository implements HonkRepository {
+  readonly driver = 'supabase' as const;
+  users: SupabaseUserStore;
+  messages: SupabaseMessageStore;
+  conversations: SupabaseConversationStore;
+  flights: SupabaseFlightStore;
+  flightEvents: SupabaseFlightEventStore;
+  notifications: SupabaseNotificationStore;
+  postcards: SupabasePostcardStore;
+  rewards: SupabaseRewardStore;
+  deviceLinkCodes: SupabaseDeviceLinkCodeStore;
+  devices: SupabaseUserDeviceStore;
+  sessions: SupabaseSessionStore;
+  recoveryCodes: SupabaseRecoveryCodeStore;
+  rateLimits: SupabaseRateLimitStore;
+  stickers: SupabaseStickerStore;
+  drafts: SupabaseDraftStore;
+  scrapbook: SupabaseScrapbookStore;
+
+  constructor(client: SupabaseClient = supabaseAdmin) {
+    this.users = new SupabaseUserStore(client);
+    this.messages = new SupabaseMessageStore(client);
+    this.conversations = new SupabaseConversationStore(client);
+    this.flights = new SupabaseFlightStore(client);
+    this.flightEvents = new SupabaseFlightEventStore(client);
+    this.notifications = new SupabaseNotificationStore(client);
+    this.postcards = new SupabasePostcardStore(client);
+    this.rewards = new SupabaseRewardStore(client);
+    this.deviceLinkCodes = new SupabaseDeviceLinkCodeStore(client);
+    this.devices = new SupabaseUserDeviceStore(client);
+    this.sessions = new SupabaseSessionStore(client);
+    this.recoveryCodes = new SupabaseRecoveryCodeStore(client);
+    this.rateLimits = new SupabaseRateLimitStore(client);
+    this.stickers = new SupabaseStickerStore(client);
+    this.drafts = new SupabaseDraftStore(client);
+    this.scrapbook = new SupabaseScrapbookStore(client);
+  }
+}
@@ -0,0 +1,19 @@
+import Cookies from 'js-cookie';
+import { PostcardTemplateCollectionListing } from '@/types';
+
+/**
+ * Browser-side calls to /api/templates
+ */
+export const templateClient = {
+  async list(): Promise<PostcardTemplateCollectionListing[]> {
+    const token = Cookies.get('honk_auth_token') || localStorage.getItem('auth_token');
+    const response = await fetch('/api/templates', {
+      headers: token ? { Authorization: `Bearer ${token}` } : {}
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(body.error || `Template request failed (${response.status})`);
+    }
+    return body.collections;
+  }
+};
@@ -0,0 +1,654 @@
+// ============================================================================
+// BUNDLED TERRAIN DATASET
+// ============================================================================
+// Hand-simplified, low-resolution outlines (roughly 1° accuracy) used by the
+// TerrainLookup service. Everything ships with the app so routing works
+// offline. Coordinates are [longitude, latitude]; no polygon crosses the
+// antimeridian.
+
+export type GeoPolygon = Array<[number, number]>;
+
+export interface GeoRegion {
+  name: string;
+  polygon: GeoPolygon;
+}
+
+export interface UrbanArea {
+  name: string;
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+}
+
+/**
+ * Continents and major islands. Anything outside these is open water.
+ */
+export const LAND_REGIONS: GeoRegion[] = [
+  {
+    name: 'North America',
+    polygon: [
+      [-168, 65.6], [-166, 68.9], [-156.8, 71.3], [-141, 69.6], [-128, 70.2], [-115, 68.9],
+      [-108, 68.5], [-95, 68.5], [-86, 66.5], [-78, 62.5], [-73, 62], [-69.5, 59], [-65, 60.3],
+      [-61, 56.5], [-57, 53.5], [-55.7, 52], [-57, 51.4], [-64, 50.2], [-66.5, 50], [-70, 47.5],
+      [-65, 49.2], [-64.8, 47.5], [-61, 45.6], [-60, 46.2], [-63.5, 44.6], [-66, 43.8], [-70, 43.7],
+      [-70.5, 41.8], [-74, 40.5], [-75.5, 38.8], [-76, 37], [-75.5, 35.3], [-78, 33.9], [-81, 31.8],
+      [-80.9, 28.5], [-80.1, 26.5], [-80.4, 25.2], [-81.8, 25.9], [-82.7, 27.7], [-84.3, 30],
+      [-87.5, 30.3], [-89.5, 30.2], [-89.2, 29.1], [-91.5, 29.5], [-94.7, 29.3], [-97.2, 27.8],
+      [-97.4, 25.9], [-97.7, 22], [-96.2, 19.2], [-94.5, 18.2], [-91.3, 18.6], [-90.4, 21],
+      [-87.1, 21.5], [-87.5, 18.4], [-88.2, 15.8], [-86, 16], [-83.2, 15], [-83.7, 11], [-83, 10],
+      [-79.5, 9.6], [-77.4, 8.7], [-78.3, 7.5], [-80, 7.3], [-82.8, 8.2], [-85.7, 10], [-87.5, 13],
+      [-91.4, 13.9], [-94.3, 16], [-96.5, 15.7], [-99.9, 16.8], [-105.3, 20.3], [-105.7, 22.5],
+      [-108, 25], [-112.2, 29.6], [-114.8, 31.8], [-113, 29], [-110, 24], [-109.9, 22.9],
+      [-112, 24.8], [-114, 28], [-116.7, 31.8], [-117.2, 32.7], [-118.4, 34], [-120.6, 34.6],
+      [-122.5, 37.7], [-124.2, 40.4], [-124.5, 42.8], [-124, 46.2], [-124.7, 48.4], [-127.5, 50.5],
+      [-130, 54.5], [-134, 58], [-137, 59], [-141.5, 60], [-146, 61], [-150, 61], [-152, 60],
+      [-154, 58], [-157, 57], [-162, 55], [-164.5, 54.5], [-158.5, 58.8], [-162, 60],
+      [-164.9, 60.9], [-165, 62.5], [-164.5, 63.2], [-161, 64.5], [-166, 64.5]
+    ]
+  },
+  {
+    name: 'Baffin Island',
+    polygon: [
+      [-65, 62], [-72, 63.5], [-78, 64.5], [-74, 68.5], [-81, 69.6], [-90, 71.5], [-85, 73.6],
+      [-78, 72.7], [-72, 71.5], [-68, 70], [-62, 67], [-61.5, 66.6]
+    ]
+  },
+  {
+    name: 'Victoria Island',
+    polygon: [[-118, 69], [-101, 69.2], [-101, 70.5], [-106, 73], [-115.5, 73.5], [-119.5, 71.4]]
+  },
+  {
+    name: 'Ellesmere Island',
+    polygon: [
+      [-80, 74.5], [-92, 74.7], [-96, 76], [-90, 79.5], [-86, 81.5], [-70, 83], [-62, 82.3],
+      [-70, 79], [-78, 76.5]
+    ]
+  },
+  {
+    name: 'Greenland',
+    polygon: [
+      [-73, 78], [-68, 76], [-58, 75.8], [-54.5, 72], [-53, 68], [-51, 64], [-48, 61],
+      [-43.5, 59.8], [-42, 62], [-40, 64.5], [-33, 67.5], [-22, 70.5], [-18, 75], [-19, 79.5],
+      [-12, 81.5], [-30, 83.5], [-50, 82.5], [-60, 82], [-67, 80.5]
+    ]
+  },
+  {
+    name: 'Newfoundland',
+    polygon: [[-59.4, 47.6], [-55.5, 46.7], [-52.7, 47.5], [-53, 49.5], [-55.5, 51.6], [-57.5, 50.7], [-59, 48.5]]
+  },
+  {
+    name: 'Cuba',
+    polygon: [[-85, 21.9], [-82, 22.9], [-80, 23.2], [-74.1, 20.2], [-77.7, 19.8], [-80.5, 21.8], [-82.5, 21.6]]
+  },
+  {
+    name: 'Hispaniola',
+    polygon: [[-74.5, 18.4], [-72.7, 19.9], [-69.9, 19.7], [-68.3, 18.6], [-71.4, 17.6], [-74.4, 18.1]]
+  },
+  {
+    name: 'South America',
+    polygon: [
+      [-77.4, 8.7], [-75.5, 10.5], [-72, 12.2], [-71.5, 10.8], [-68, 10.5], [-64, 10.7],
+      [-61.8, 10.5], [-60.7, 8.6], [-57.1, 6], [-54, 5.7], [-51.5, 4.5], [-50, 1.8], [-49.5, -0.5],
+      [-48.5, -1.4], [-44.5, -2.5], [-40, -2.8], [-37, -4.8], [-35.2, -5.5], [-34.8, -8], [-38.5, -13],
+      [-39, -17.5], [-40.5, -20.5], [-42, -23], [-44.5, -23.3], [-48.5, -26.3], [-48.5, -28.5],
+      [-50.8, -31], [-53.3, -33.8], [-56, -34.9], [-57.5, -36.5], [-57.5, -38.2], [-62.3, -38.9],
+      [-62.7, -41], [-64, -42.5], [-65.5, -45], [-67.5, -46.5], [-65.8, -47.8], [-69, -51.5],
+      [-68.6, -52.6], [-65.5, -55], [-70, -55.3], [-74.5, -52.5], [-75.3, -48.5], [-74, -44],
+      [-73.5, -41.8], [-73.5, -37.2], [-71.7, -33], [-71.5, -28], [-70.4, -23.5], [-70.3, -18.3],
+      [-76.2, -13.9], [-78, -10.8], [-79.9, -6.9], [-81.3, -4.7], [-80, -2.3], [-80.9, -1],
+      [-80, 0.9], [-78.9, 1.4], [-77.5, 3.9], [-77.4, 6.6], [-78, 7.7]
+    ]
+  },
+  {
+    name: 'Eurasia',
+    polygon: [
+      [-5.6, 36], [-6.4, 36.8], [-8.9, 37], [-8.8, 38.5], [-9.5, 38.8], [-8.7, 41], [-8.9, 42.5],
+      [-9.3, 43], [-7.7, 43.8], [-3.8, 43.5], [-1.5, 43.4], [-1.2, 46], [-2.5, 47.3], [-4.7, 48.4],
+      [-1.6, 48.7], [-1.3, 49.7], [1.5, 50.1], [2.5, 51.1], [4, 51.9], [4.8, 53], [7, 53.6],
+      [8.9, 54], [8.1, 55.5], [8.1, 56.6], [10.6, 57.7], [11.9, 57.7], [11.2, 59.1], [10, 59],
+      [8, 58.1], [5.6, 58.9], [5, 60.5], [5, 62], [8, 63.5], [10.5, 64.5], [12.5, 66.5], [14, 67.5],
+      [16, 68.5], [18.5, 69.8], [23, 70.8], [28, 71], [31, 70.3], [33, 69.4], [41, 67.2], [44, 66.2],
+      [44, 68.5], [53, 68.5], [60, 69.5], [68, 69.5], [69, 72.5], [72, 72.8], [80, 73.5], [87, 75],
+      [100, 76.5], [104.3, 77.7], [112, 76], [113.5, 73.5], [120, 73], [128, 72.5], [130, 71],
+      [140, 72.5], [150, 71.5], [160, 69.7], [170, 70], [180, 68.9], [180, 65], [177.5, 64.7],
+      [179, 62.5], [174, 61.8], [170, 60], [164, 60], [163, 58], [162, 56], [160, 53], [156.7, 51],
+      [156, 57.5], [155, 59.5], [150, 59.5], [143, 59.3], [140.5, 58.5], [137, 54.5], [141, 53],
+      [141.3, 52], [140.5, 48.5], [138, 46.5], [133, 42.8], [130.7, 42.3], [129.5, 40.5],
+      [128.5, 38.5], [129.4, 36], [129, 35.1], [126.5, 34.4], [126.5, 37.5], [125, 37.8],
+      [124.3, 39.9], [121.2, 38.8], [121.8, 40.9], [119.5, 39.9], [117.7, 39], [118.8, 37.6],
+      [122.6, 37.4], [120, 35.8], [120.7, 33], [121.9, 31], [121.7, 28.2], [119.6, 25.6],
+      [117, 23.5], [114, 22.3], [110.5, 21], [110, 20.3], [108.5, 21.6], [106.7, 20.7],
+      [105.7, 18.8], [107, 16.5], [109.2, 13], [109, 11.4], [106.7, 10.4], [104.8, 8.6], [105, 10],
+      [103.5, 10.5], [102.3, 12.2], [100.9, 13.3], [100, 12.7], [99.2, 10], [100.3, 8.4],
+      [101.3, 6.9], [103.4, 4.5], [104.2, 1.4], [103.3, 1.3], [101.3, 2.8], [100.3, 5.4], [98.3, 8],
+      [98.3, 11], [97.6, 16.5], [94.3, 16], [94.5, 18.5], [92.3, 20.7], [91.8, 22.3], [90, 21.9],
+      [87, 21.5], [85.5, 19.8], [82.3, 16.6], [80.2, 13.1], [79.8, 10.3], [77.5, 8.1], [76.2, 10],
+      [74.8, 12.9], [73.5, 16], [72.8, 19], [72.6, 21.5], [69, 22.4], [67, 24.8], [61.6, 25.2],
+      [57.3, 25.8], [56.3, 27.2], [54, 26.6], [51.5, 27.9], [50.2, 29.5], [48, 30], [48.5, 28],
+      [50.1, 26.2], [51.5, 25.3], [54.5, 24.2], [56, 24.9], [56.3, 26.3], [57, 24], [59.8, 22.5],
+      [58, 20.4], [55, 17], [52, 15.8], [48.5, 14], [45, 12.8], [43.5, 12.7], [42.6, 15.3], [40, 20],
+      [38.5, 23.6], [35, 28], [35, 29.5], [34.3, 31.3], [34.9, 32.8], [35.8, 34.5], [35.9, 36.8],
+      [34, 36.3], [30.5, 36.5], [28, 36.8], [26.3, 38.3], [26.5, 40], [26.2, 40.6], [24, 40.8],
+      [22.9, 40.6], [23, 39.5], [23, 38], [23.2, 36.5], [22.5, 36.4], [21.7, 36.8], [21.3, 38.3],
+      [20.3, 39.5], [19.4, 40.4], [19.4, 41.8], [18.5, 42.4], [16.5, 43.5], [15.2, 44.2],
+      [13.6, 45.1], [13.6, 45.7], [12.3, 45.4], [12.4, 44.2], [13.6, 43.5], [16, 41.9], [18.5, 40.2],
+      [17.2, 40.5], [16.5, 39.5], [17.1, 39], [16.1, 38], [15.6, 38], [15.8, 39.8], [14.9, 40.3],
+      [14.2, 40.8], [12, 41.9], [11, 42.5], [10.2, 43.9], [8.8, 44.4], [7.5, 43.8], [6, 43.1],
+      [4.5, 43.4], [3.1, 43], [3.2, 41.9], [2.2, 41.4], [0.9, 41], [-0.3, 39.4], [0.2, 38.7],
+      [-0.7, 37.6], [-2, 36.7], [-4.4, 36.7]
+    ]
+  },
+  {
+    name: 'Chukotka',
+    polygon: [[-180, 65], [-180, 68.9], [-174, 67], [-169.7, 66.1], [-172, 64.4], [-178, 65]]
+  },
+  {
+    name: 'Great Britain',
+    polygon: [
+      [-5.7, 50], [-3, 50.7], [1.4, 51.2], [1.7, 52.6], [0.3, 53.4], [-0.1, 54.5], [-1.6, 55.6],
+      [-2, 57.6], [-3.1, 58.6], [-5, 58.6], [-6.2, 57.5], [-5.6, 56], [-4.9, 55], [-3, 54.4],
+      [-3, 53.3], [-4.7, 52.8], [-5.3, 51.7], [-3, 51.3], [-5, 51]
+    ]
+  },
+  {
+    name: 'Ireland',
+    polygon: [[-6, 52.2], [-6.2, 53.9], [-5.5, 54.6], [-7.3, 55.4], [-8.5, 54.5], [-10, 54.2], [-9.5, 52.6], [-10.3, 51.9], [-8.4, 51.6]]
+  },
+  {
+    name: 'Iceland',
+    polygon: [[-22, 63.8], [-24, 65.5], [-22, 66.4], [-16, 66.5], [-13.5, 65.2], [-15, 64.2], [-18, 63.4]]
+  },
+  {
+    name: 'Svalbard',
+    polygon: [[11, 78.5], [16, 80], [27, 80.2], [22, 77.5], [16, 76.5], [12, 78]]
+  },
+  {
+    name: 'Novaya Zemlya',
+    polygon: [[52, 71.5], [55, 73.5], [60, 76], [68, 76.9], [62, 74.5], [56, 71]]
+  },
+  {
+    name: 'Sicily',
+    polygon: [[12.4, 37.8], [15.6, 38.3], [15.1, 36.7]]
+  },
+  {
+    name: 'Sardinia',
+    polygon: [[8.2, 41], [9.8, 40.9], [9.6, 39.1], [8.4, 39]]
+  },
+  {
+    name: 'Corsica',
+    polygon: [[8.6, 42], [9.4, 43], [9.5, 41.4]]
+  },
+  {
+    name: 'Cyprus',
+    polygon: [[32.3, 35.1], [34.6, 35.7], [34, 34.6], [32.5, 34.7]]
+  },
+  {
+    name: 'Africa',
+    polygon: [
+      [-5.9, 35.8], [-2, 35.1], [1, 36.5], [3, 36.8], [8.6, 36.9], [10.2, 37.2], [11.1, 36.9],
+      [10.5, 35.7], [11.1, 35.2], [10.1, 33.9], [11.5, 33.1], [15.2, 32.3], [19, 30.3], [20.1, 32.1],
+      [22, 32.9], [25, 31.6], [29, 30.9], [32.3, 31.3], [34.2, 31.3], [34.9, 29.5], [34.3, 27.8],
+      [32.6, 29.9], [32.7, 28], [33.8, 27], [35.5, 24], [37.2, 21], [37.2, 19.6], [38.5, 18],
+      [39.5, 15.5], [41.7, 13.5], [43.3, 11.8], [44.5, 10.4], [47.5, 11.2], [51.3, 11.8],
+      [51, 10.4], [49, 6], [47, 4.2], [45.3, 2], [42.5, -0.5], [41.5, -1.7], [40, -3.3], [39.7, -4],
+      [39.2, -6.8], [40.4, -10.5], [40.6, -14.5], [40, -16], [36.5, -18.8], [34.8, -19.8],
+      [35.5, -22], [35.5, -24], [32.6, -26], [32.9, -28.5], [31, -29.9], [28, -32.8], [25.6, -34],
+      [22, -34.2], [20, -34.8], [18.4, -34.3], [18.2, -32], [17, -29], [15.2, -27], [14.5, -23],
+      [13, -20], [11.8, -17.3], [12.3, -13.5], [13.3, -9], [12.2, -6], [11.8, -4.5], [9.3, -1],
+      [9.5, 2], [9.7, 4], [8.5, 4.5], [6, 4.3], [4.4, 6.4], [3.4, 6.4], [1, 6], [-2, 4.8],
+      [-4, 5.2], [-7.5, 4.4], [-9.5, 5.5], [-11.5, 7], [-13.2, 8.5], [-15, 10.9], [-16.7, 12.4],
+      [-17.5, 14.7], [-16.5, 16], [-16.1, 19], [-17, 21], [-15, 24], [-13, 27.5], [-9.8, 29.8],
+      [-9.6, 30.4], [-9.8, 32], [-7.6, 33.6], [-6.8, 34]
+    ]
+  },
+  {
+    name: 'Madagascar',
+    polygon: [[49.3, -12], [50.5, -15.5], [49.5, -17.5], [47.2, -24.8], [45.1, -25.5], [43.7, -23.5], [44, -20], [44.4, -16.3], [47, -15], [48, -13.5]]
+  },
+  {
+    name: 'Sri Lanka',
+    polygon: [[79.9, 9.8], [80.3, 9.8], [81.9, 7.5], [80.6, 5.9], [79.8, 6.9]]
+  },
+  {
+    name: 'Hainan',
+    polygon: [[108.6, 19.2], [110, 20.1], [111, 19.6], [109.5, 18.2]]
+  },
+  {
+    name: 'Taiwan',
+    polygon: [[121.5, 25.3], [121.9, 24.6], [120.8, 21.9], [120.1, 23], [121, 25]]
+  },
+  {
+    name: 'Honshu',
+    polygon: [
+      [130.9, 34], [132, 35.5], [135.5, 35.6], [136.7, 37.3], [138.5, 37.8], [140, 39.5], [140, 41.2],
+      [141.5, 41.4], [141.9, 39.5], [141, 38.3], [140.9, 36], [140, 35], [138.8, 34.6], [136.8, 34.5],
+      [135.8, 33.5], [135.1, 34.6], [133, 34.4]
+    ]
+  },
+  {
+    name: 'Kyushu',
+    polygon: [[129.8, 33.5], [131, 33.9], [132, 33], [131.3, 31.4], [130.2, 31.2], [129.6, 32.8]]
+  },
+  {
+    name: 'Shikoku',
+    polygon: [[132.2, 33.9], [134.6, 34.2], [134.7, 33.8], [133, 32.8]]
+  },
+  {
+    name: 'Hokkaido',
+    polygon: [[140, 41.4], [140.3, 43.3], [141.7, 45.4], [145.3, 44.3], [145.8, 43.4], [143.3, 42], [141, 41.8]]
+  },
+  {
+    name: 'Sakhalin',
+    polygon: [[142, 46], [143.5, 46.5], [142.9, 49], [143.2, 51.5], [142.5, 54.3], [141.8, 53], [142.2, 50], [141.9, 48]]
+  },
+  {
+    name: 'Luzon',
+    polygon: [[120.6, 18.5], [122.2, 18.5], [122, 16.2], [124, 13], [121, 13.8], [120, 14.8], [120.4, 16.3]]
+  },
+  {
+    name: 'Mindanao',
+    polygon: [[122, 7], [125.5, 9.7], [126.5, 7.2], [125.4, 5.6], [124, 6.9]]
+  },
+  {
+    name: 'Borneo',
+    polygon: [
+      [109, 1.8], [109.6, -1], [110.3, -3], [114.5, -4], [116.3, -3], [117.6, 0.5], [119, 1],
+      [118, 4.5], [119.3, 5.3], [117, 7], [115.5, 5], [113.5, 3.8], [111, 2]
+    ]
+  },
+  {
+    name: 'Sumatra',
+    polygon: [[95.3, 5.6], [97.5, 5.2], [100, 2.5], [103.8, -1], [106, -3.2], [105.8, -5.9], [104.5, -5.9], [102.3, -4], [100.4, -1], [98.7, 1.6], [96, 3.8]]
+  },
+  {
+    name: 'Java',
+    polygon: [[105.2, -6.8], [106.8, -6], [110.4, -6.9], [112.7, -6.9], [114.6, -7.7], [114.4, -8.7], [110, -8.2], [106.4, -7.4]]
+  },
+  {
+    name: 'Sulawesi',
+    polygon: [
+      [119.4, -5.5], [118.8, -2.8], [119.8, 0.1], [120.8, 1.2], [125, 1.5], [121, 0.4], [123.3, -0.9],
+      [121.3, -1.9], [122.8, -4.8], [120.4, -5.6]
+    ]
+  },
+  {
+    name: 'New Guinea',
+    polygon: [
+      [131, -1.5], [134, -0.9], [137.8, -1.5], [141, -2.6], [145.8, -5.2], [147.5, -6.1], [150, -10.3],
+      [147, -10], [147.2, -9.5], [144, -7.8], [141, -9.1], [138, -8.4], [137.8, -5.2], [135, -4.4],
+      [132, -2.8]
+    ]
+  },
+  {
+    name: 'Australia',
+    polygon: [
+      [113.6, -22], [114.1, -21.8], [116.7, -20.6], [121, -19.5], [122.2, -17.9], [123.6, -16.3],
+      [125, -14.5], [127.7, -14.2], [129.5, -14.9], [130.3, -12.4], [132.6, -11.4], [136, -12],
+      [136.8, -12.2], [135.8, -15], [139.5, -17.4], [141.5, -15], [141.6, -12.5], [142.5, -10.7],
+      [143.5, -14], [145.4, -16.9], [146.8, -19.3], [149.2, -21.1], [150.8, -23], [153.1, -25],
+      [153.6, -28.2], [153, -31], [151.2, -33.9], [150, -37.5], [147.5, -38], [144.9, -37.9],
+      [143.5, -38.8], [140.6, -38], [138, -35.7], [137.7, -33], [135.8, -34.8], [134.2, -32.7],
+      [131, -31.5], [126, -32.3], [123.5, -33.9], [118, -35], [115, -34.3], [115.7, -32], [114.9, -29],
+      [113.4, -26]
+    ]
+  },
+  {
+    name: 'Tasmania',
+    polygon: [[144.6, -40.7], [148.3, -40.9], [148, -43.2], [146.8, -43.6], [145.2, -42.2]]
+  },
+  {
+    name: 'New Zealand North Island',
+    polygon: [[172.7, -34.4], [174.8, -36.9], [178.5, -37.7], [177.9, -39.3], [176.9, -39.6], [174.8, -41.3], [173.8, -39.3], [174.6, -37]]
+  },
+  {
+    name: 'New Zealand South Island',
+    polygon: [[172.7, -40.5], [174.2, -41.7], [172.7, -43.8], [171.2, -44.5], [169.2, -46.6], [166.5, -46], [168, -44], [171, -42.5], [172.1, -40.9]]
+  },
+  {
+    name: 'Antarctica',
+    polygon: [
+      [180, -78], [170, -72], [160, -70], [140, -66.5], [110, -66], [90, -66.5], [70, -68], [60, -67],
+      [40, -69], [20, -70], [0, -70], [-20, -72], [-40, -77], [-55, -74], [-60, -70], [-62, -65],
+      [-57, -63.5], [-65, -66.5], [-68, -70], [-75, -72], [-100, -73], [-120, -74], [-140, -75.5],
+      [-160, -78], [-180, -78], [-180, -90], [180, -90]
+    ]
+  }
+];
+
+/**
+ * Enclosed seas, bays and large lakes cut out of the land outlines
+ */
+export const INLAND_WATERS: GeoRegion[] = [
+  {
+    name: 'Hudson Bay',
+    polygon: [
+      [-94.5, 59], [-94.3, 61], [-90.8, 63.5], [-86, 64.5], [-81, 64], [-78, 62.3], [-77, 60.5],
+      [-77.8, 58], [-76.9, 56], [-79, 54.5], [-79, 51.3], [-81, 51.8], [-82.3, 55], [-88, 56.5],
+      [-92.4, 57]
+    ]
+  },
+  {
+    name: 'Lake Superior',
+    polygon: [[-92, 46.7], [-89, 48.5], [-85, 47.9], [-84.5, 46.5], [-87.5, 46.4]]
+  },
+  {
+    name: 'Lake Michigan',
+    polygon: [[-87.3, 41.65], [-87.55, 42.2], [-87.7, 43], [-87.4, 44.4], [-86.8, 45.8], [-85.5, 45.8], [-86.3, 44.5], [-86.3, 43.2], [-86.5, 42.2]]
+  },
+  {
+    name: 'Lake Huron',
+    polygon: [[-84.5, 45.9], [-81, 46], [-80, 44.5], [-82.5, 43], [-83.5, 44]]
+  },
+  {
+    name: 'Baltic Sea',
+    polygon: [
+      [10.5, 57.6], [11.8, 57.6], [12.6, 56.1], [12.7, 55.6], [14.3, 55.5], [16.4, 56.2], [16.6, 57.5],
+      [18.2, 59.2], [18.9, 59.9], [17.1, 60.7], [17.5, 62.3], [19.6, 63.5], [22, 65.8], [25.4, 65],
+      [21.3, 63], [21.3, 61.3], [22.5, 60.2], [26, 60.4], [30, 59.9], [23.5, 59.2], [23.5, 58.5],
+      [24.3, 57.1], [23.5, 57.2], [21, 56.8], [21.1, 55.7], [18.6, 54.8], [14.3, 54], [10.9, 54.4],
+      [10, 55], [10.2, 56.5]
+    ]
+  },
+  {
+    name: 'White Sea',
+    polygon: [[33.5, 66.5], [34.8, 64.5], [37.5, 63.8], [40.5, 64.5], [43.5, 66.2], [41, 66.5], [36.5, 66.3]]
+  },
+  {
+    name: 'Black Sea',
+    polygon: [
+      [28, 41.6], [29.1, 41.2], [31.5, 41.2], [35, 42], [38, 41], [41.5, 41.5], [41.7, 42.6],
+      [39.5, 44], [37.5, 44.7], [35.5, 45.1], [33.5, 44.4], [32.5, 45.4], [31, 46.6], [29.7, 45.2],
+      [28.6, 43.4]
+    ]
+  },
+  {
+    name: 'Caspian Sea',
+    polygon: [
+      [46.7, 44.5], [47.5, 45.5], [49, 46.5], [51.5, 47], [53, 46.8], [53, 45.3], [51.3, 44.5],
+      [51, 43], [52.7, 42], [53, 40], [54, 38], [53.9, 37], [51, 36.7], [49, 37.5], [49.4, 40.3],
+      [48, 42], [47.5, 43]
+    ]
+  }
+];
+
+/**
+ * High ground, including the Greenland and Antarctic ice sheets. Only
+ * consulted over land, so outlines may spill into the sea.
+ */
+export const MOUNTAIN_REGIONS: GeoRegion[] = [
+  {
+    name: 'Rocky Mountains',
+    polygon: [
+      [-116, 49], [-114, 45], [-112.5, 42], [-112, 39], [-108, 35.5], [-105, 35.5], [-104.8, 38.5],
+      [-105.2, 41], [-107, 44], [-109, 45.5], [-111, 48], [-113, 49]
+    ]
+  },
+  {
+    name: 'Canadian Rockies and Coast Mountains',
+    polygon: [[-123, 49], [-114, 49], [-119, 53], [-128, 59], [-135, 60], [-141, 61], [-137, 58.5], [-130, 55], [-125, 51]]
+  },
+  {
+    name: 'Alaska Range',
+    polygon: [[-152, 62], [-145, 63.5], [-141, 61.5], [-150, 61.5]]
+  },
+  {
+    name: 'Sierra Nevada and Cascades',
+    polygon: [[-121.5, 49], [-120.5, 45], [-118, 36], [-119.5, 35.8], [-121.7, 40.5], [-122.5, 45], [-122, 49]]
+  },
+  {
+    name: 'Sierra Madre Occidental',
+    polygon: [[-108.5, 30], [-105.5, 29], [-103.5, 23], [-104.5, 21.5], [-107, 25]]
+  },
+  {
+    name: 'Andes',
+    polygon: [
+      [-75.5, 10], [-77, 5], [-78.8, 0], [-79.5, -5], [-77.5, -10], [-74, -15], [-70.5, -18.5],
+      [-70, -25], [-71, -30], [-71.5, -35], [-72, -40], [-73, -45], [-73.5, -50], [-72, -53],
+      [-71, -52], [-71, -45], [-70.5, -40], [-69.5, -35], [-69, -30], [-66, -25], [-65, -20],
+      [-66, -17], [-69, -14], [-73, -10], [-76.5, -6], [-77, -2], [-76.5, 1], [-74.5, 4], [-72, 7],
+      [-71.5, 10]
+    ]
+  },
+  {
+    name: 'Alps',
+    polygon: [[5.5, 44], [7.5, 43.8], [9, 45.8], [12, 46], [14.5, 46.3], [16, 47.5], [13, 47.8], [10, 47.6], [7, 46.6], [6, 46.3]]
+  },
+  {
+    name: 'Pyrenees',
+    polygon: [[-1.8, 43.2], [3.2, 42.5], [2, 42.2], [-1.5, 42.7]]
+  },
+  {
+    name: 'Scandinavian Mountains',
+    polygon: [[5.8, 59], [7, 62.5], [12, 65], [15, 67], [18, 68.5], [20, 69.3], [21, 68.5], [17, 66.5], [14, 64], [12.5, 62], [9.5, 60.5], [7.5, 59]]
+  },
+  {
+    name: 'Atlas Mountains',
+    polygon: [[-9.5, 30.5], [-5, 33.5], [-2, 34], [3, 36], [9, 36.7], [9.5, 35.5], [3, 35], [-4, 32], [-8, 30.5]]
+  },
+  {
+    name: 'Ethiopian Highlands',
+    polygon: [[36, 14.5], [39.5, 14.5], [41, 10], [40.5, 7], [38, 5.5], [35.5, 7.5], [35, 11]]
+  },
+  {
+    name: 'Caucasus',
+    polygon: [[37.5, 44.5], [42, 43.8], [48, 41.8], [46, 41], [42, 42.5]]
+  },
+  {
+    name: 'Zagros',
+    polygon: [[44, 37.5], [48, 34], [52, 30.5], [57, 27.5], [58.5, 28.5], [53.5, 32], [49, 36], [46, 38.5]]
+  },
+  {
+    name: 'Himalaya and Tibetan Plateau',
+    polygon: [
+      [69, 35], [71.5, 37.5], [73, 39.5], [76, 37.5], [80, 36], [86, 36.5], [92, 36.5], [97, 36],
+      [102, 34.5], [103.5, 31], [101.5, 27], [98, 27.5], [93, 27], [88, 26.9], [84, 27.5],
+      [80.5, 28.8], [77, 30.5], [74.5, 32.5], [71.5, 34]
+    ]
+  },
+  {
+    name: 'Tian Shan',
+    polygon: [[70, 41.5], [76, 42.5], [80, 43], [86, 43.6], [95, 43.5], [94, 42.5], [86, 42], [80, 41.5], [76, 40.3], [70, 40.5]]
+  },
+  {
+    name: 'Altai and Sayan',
+    polygon: [[85, 51.5], [90, 52], [98, 52], [100, 50], [95, 48], [90, 47.5], [86, 49]]
+  },
+  {
+    name: 'Southern Alps',
+    polygon: [[172.5, -42], [171.5, -43.5], [169.5, -45], [168.5, -44.5], [171, -42.5]]
+  },
+  {
+    name: 'Greenland Ice Sheet',
+    polygon: [[-50, 65], [-45, 61.5], [-40, 65.5], [-25, 71], [-22, 78], [-30, 81.5], [-55, 80.5], [-60, 78], [-55, 74], [-51, 69]]
+  },
+  {
+    name: 'Antarctic Ice Sheet',
+    polygon: [[-180, -60], [180, -60], [180, -90], [-180, -90]]
+  }
+];
+
+/**
+ * Arid regions. Only consulted over land.
+ */
+export const DESERT_REGIONS: GeoRegion[] = [
+  {
+    name: 'Sahara',
+    polygon: [
+      [-17, 21], [-13, 27.5], [-8, 29.5], [-2, 31.5], [3, 31.5], [9, 31], [10, 32.5], [15, 31],
+      [20, 30.5], [25, 30.5], [30, 30], [32, 29.5], [34.5, 30.5], [37, 22], [38.5, 17.5],
+      [36, 15.5], [32, 15.5], [25, 15.5], [16, 15], [10, 16], [4, 16.5], [-5, 16], [-12, 16.5],
+      [-16.5, 16.5]
+    ]
+  },
+  {
+    name: 'Arabian Desert',
+    polygon: [
+      [34.5, 30], [36, 32.5], [38, 35.5], [41, 35.5], [43, 33], [47.5, 30.5], [48.5, 28], [50, 26],
+      [51.5, 24.5], [55.5, 23], [57.5, 21], [55, 17.5], [52, 17], [46, 16.5], [43, 17.5],
+      [41, 19.5], [39.5, 22], [37.5, 25], [35.5, 28]
+    ]
+  },
+  {
+    name: 'Iranian Deserts',
+    polygon: [[52, 36], [57, 36.5], [61, 35], [61, 29], [58.5, 28.5], [53.5, 32]]
+  },
+  {
+    name: 'Thar',
+    polygon: [[69, 24], [70, 29.5], [73.5, 29.5], [74, 26.5], [72, 24.5]]
+  },
+  {
+    name: 'Karakum and Kyzylkum',
+    polygon: [[52.5, 41.5], [55, 45], [61, 45.5], [66, 44], [67, 41], [64, 38], [61, 36.5], [56, 38], [53.5, 39]]
+  },
+  {
+    name: 'Taklamakan',
+    polygon: [[76, 37.5], [78, 40.5], [84, 41.5], [89, 40.5], [89, 38], [84, 36.8], [79, 36.8]]
+  },
+  {
+    name: 'Gobi',
+    polygon: [[90, 44], [96, 45.5], [103, 45], [110, 45.5], [114, 44], [112, 41.5], [106, 40], [100, 40], [96, 41], [92, 42]]
+  },
+  {
+    name: 'Kalahari and Namib',
+    polygon: [[13, -18], [14, -22], [15, -27], [17, -29], [20, -28.5], [24, -27], [25, -23], [24, -19], [21, -18], [16, -17]]
+  },
+  {
+    name: 'Australian Outback',
+    polygon: [
+      [114, -23], [119, -20.5], [125, -19], [131, -18], [137, -20], [141, -23], [143, -27], [142, -31],
+      [138, -31], [134, -30.5], [128, -31.8], [124, -31], [121, -30], [117, -27]
+    ]
+  },
+  {
+    name: 'North American Deserts',
+    polygon: [
+      [-120, 42], [-113, 42], [-112.5, 39], [-111, 34], [-109, 31.5], [-106, 31.8], [-104, 30],
+      [-103, 26], [-106, 27], [-110, 28], [-114, 30], [-115.5, 32.6], [-116.5, 34], [-118, 35.5],
+      [-118.5, 37.5]
+    ]
+  },
+  {
+    name: 'Atacama',
+    polygon: [[-71, -18], [-69.5, -18], [-69.5, -27], [-71.2, -27]]
+  }
+];
+
+/**
+ * Dense forest. Only consulted over land.
+ */
+export const FOREST_REGIONS: GeoRegion[] = [
+  {
+    name: 'North American Boreal Forest',
+    polygon: [
+      [-165, 60], [-152, 67], [-135, 68], [-115, 65], [-100, 61], [-92, 58], [-80, 57], [-75, 56],
+      [-62, 56], [-55, 52], [-60, 47], [-68, 45], [-76, 45.5], [-84, 46], [-95, 48.5], [-104, 53.5],
+      [-117, 54], [-125, 56], [-140, 60], [-155, 59]
+    ]
+  },
+  {
+    name: 'Pacific Northwest',
+    polygon: [[-124.5, 40], [-124.5, 49], [-121.5, 49], [-121.5, 40]]
+  },
+  {
+    name: 'Eastern Woodlands',
+    polygon: [[-95, 33], [-95, 30], [-81, 30], [-77, 38.5], [-74, 41], [-70, 42], [-67, 45], [-72, 45.5], [-79, 42], [-82, 39.5], [-88, 37], [-93, 34.5]]
+  },
+  {
+    name: 'Amazon Rainforest',
+    polygon: [
+      [-79, -4], [-75, 2], [-70, 4], [-62, 5], [-55, 4], [-51, 1], [-48, -1.5], [-46, -5], [-48, -9],
+      [-56, -12], [-62, -13.5], [-68, -13], [-73, -9], [-76, -6]
+    ]
+  },
+  {
+    name: 'Congo Rainforest',
+    polygon: [[8.5, 4], [10, 6], [16, 5], [23, 5], [28, 4.5], [30, 1], [30, -3], [27, -7], [22, -7.5], [17, -6], [12, -5], [9, -2], [9.5, 2]]
+  },
+  {
+    name: 'Guinean Forest',
+    polygon: [[-13, 9.5], [-8, 8], [-3, 7.5], [2, 7.5], [2, 6], [-3, 4.8], [-8, 4.3], [-13, 7.5]]
+  },
+  {
+    name: 'Southeast Asian Rainforest',
+    polygon: [[96, 26], [101, 22], [105, 22.5], [108, 21], [109, 12], [105, 9], [100, 13.5], [98, 8], [104, 1], [96, 5], [94, 16]]
+  },
+  {
+    name: 'Indonesian and New Guinean Rainforest',
+    polygon: [[94, 6], [120, 8], [127, 6], [132, 0], [150, -5], [151, -10.5], [141, -9.5], [134, -4.5], [125, -9], [115, -9], [105, -7], [99, -3]]
+  },
+  {
+    name: 'Eurasian Taiga',
+    polygon: [
+      [12, 59], [18, 60], [22, 60], [30, 61], [45, 62], [60, 60], [80, 58], [100, 57], [120, 55],
+      [135, 52], [140, 55], [150, 60], [160, 64], [160, 68], [140, 70], [120, 70], [100, 70], [80, 67],
+      [65, 66], [55, 66], [40, 66.5], [30, 68], [20, 68], [15, 64]
+    ]
+  }
+];
+
+/**
+ * Major metropolitan areas, treated as urban terrain within their radius
+ */
+export const URBAN_AREAS: UrbanArea[] = [
+  { name: 'New York', latitude: 40.71, longitude: -74.01, radiusKm: 40 },
+  { name: 'Los Angeles', latitude: 34.05, longitude: -118.24, radiusKm: 45 },
+  { name: 'Chicago', latitude: 41.88, longitude: -87.63, radiusKm: 35 },
+  { name: 'Houston', latitude: 29.76, longitude: -95.37, radiusKm: 35 },
+  { name: 'Dallas', latitude: 32.78, longitude: -96.8, radiusKm: 35 },
+  { name: 'Washington', latitude: 38.91, longitude: -77.04, radiusKm: 25 },
+  { name: 'Philadelphia', latitude: 39.95, longitude: -75.17, radiusKm: 25 },
+  { name: 'Atlanta', latitude: 33.75, longitude: -84.39, radiusKm: 30 },
+  { name: 'Miami', latitude: 25.76, longitude: -80.19, radiusKm: 25 },
+  { name: 'Boston', latitude: 42.36, longitude: -71.06, radiusKm: 25 },
+  { name: 'San Francisco Bay Area', latitude: 37.6, longitude: -122.2, radiusKm: 40 },
+  { name: 'Seattle', latitude: 47.61, longitude: -122.33, radiusKm: 25 },
+  { name: 'Toronto', latitude: 43.65, longitude: -79.38, radiusKm: 30 },
+  { name: 'Montreal', latitude: 45.5, longitude: -73.57, radiusKm: 20 },
+  { name: 'Mexico City', latitude: 19.43, longitude: -99.13, radiusKm: 35 },
+  { name: 'São Paulo', latitude: -23.55, longitude: -46.63, radiusKm: 40 },
+  { name: 'Rio de Janeiro', latitude: -22.91, longitude: -43.17, radiusKm: 30 },
+  { name: 'Buenos Aires', latitude: -34.6, longitude: -58.38, radiusKm: 35 },
+  { name: 'Lima', latitude: -12.05, longitude: -77.04, radiusKm: 25 },
+  { name: 'Bogotá', latitude: 4.71, longitude: -74.07, radiusKm: 20 },
+  { name: 'Santiago', latitude: -33.45, longitude: -70.67, radiusKm: 20 },
+  { name: 'London', latitude: 51.51, longitude: -0.13, radiusKm: 35 },
+  { name: 'Paris', latitude: 48.86, longitude: 2.35, radiusKm: 30 },
+  { name: 'Rhine-Ruhr', latitude: 51.45, longitude: 7.01, radiusKm: 35 },
+  { name: 'Berlin', latitude: 52.52, longitude: 13.4, radiusKm: 20 },
+  { name: 'Madrid', latitude: 40.42, longitude: -3.7, radiusKm: 20 },
+  { name: 'Barcelona', latitude: 41.39, longitude: 2.17, radiusKm: 15 },
+  { name: 'Milan', latitude: 45.46, longitude: 9.19, radiusKm: 20 },
+  { name: 'Rome', latitude: 41.9, longitude: 12.5, radiusKm: 15 },
+  { name: 'Amsterdam', latitude: 52.37, longitude: 4.9, radiusKm: 15 },
+  { name: 'Moscow', latitude: 55.76, longitude: 37.62, radiusKm: 35 },
+  { name: 'Saint Petersburg', latitude: 59.94, longitude: 30.31, radiusKm: 20 },
+  { name: 'Istanbul', latitude: 41.01, longitude: 28.98, radiusKm: 30 },
+  { name: 'Cairo', latitude: 30.04, longitude: 31.24, radiusKm: 30 },
+  { name: 'Lagos', latitude: 6.52, longitude: 3.38, radiusKm: 30 },
+  { name: 'Kinshasa', latitude: -4.44, longitude: 15.27, radiusKm: 20 },
+  { name: 'Johannesburg', latitude: -26.2, longitude: 28.05, radiusKm: 35 },
+  { name: 'Nairobi', latitude: -1.29, longitude: 36.82, radiusKm: 15 },
+  { name: 'Tehran', latitude: 35.69, longitude: 51.39, radiusKm: 25 },
+  { name: 'Riyadh', latitude: 24.71, longitude: 46.68, radiusKm: 20 },
+  { name: 'Dubai', latitude: 25.2, longitude: 55.27, radiusKm: 20 },
+  { name: 'Karachi', latitude: 24.86, longitude: 67.0, radiusKm: 25 },
+  { name: 'Delhi', latitude: 28.61, longitude: 77.21, radiusKm: 35 },
+  { name: 'Mumbai', latitude: 19.08, longitude: 72.88, radiusKm: 25 },
+  { name: 'Kolkata', latitude: 22.57, longitude: 88.36, radiusKm: 25 },
+  { name: 'Bangalore', latitude: 12.97, longitude: 77.59, radiusKm: 20 },
+  { name: 'Dhaka', latitude: 23.81, longitude: 90.41, radiusKm: 20 },
+  { name: 'Bangkok', latitude: 13.76, longitude: 100.5, radiusKm: 30 },
+  { name: 'Jakarta', latitude: -6.21, longitude: 106.85, radiusKm: 30 },
+  { name: 'Manila', latitude: 14.6, longitude: 120.98, radiusKm: 25 },
+  { name: 'Ho Chi Minh City', latitude: 10.82, longitude: 106.63, radiusKm: 20 },
+  { name: 'Singapore', latitude: 1.35, longitude: 103.82, radiusKm: 15 },
+  { name: 'Beijing', latitude: 39.9, longitude: 116.41, radiusKm: 35 },
+  { name: 'Shanghai', latitude: 31.23, longitude: 121.47, radiusKm: 35 },
+  { name: 'Pearl River Delta', latitude: 22.8, longitude: 113.6, radiusKm: 50 },
+  { name: 'Chongqing', latitude: 29.56, longitude: 106.55, radiusKm: 25 },
+  { name: 'Seoul', latitude: 37.57, longitude: 126.98, radiusKm: 30 },
+  { name: 'Tokyo', latitude: 35.68, longitude: 139.69, radiusKm: 45 },
+  { name: 'Osaka', latitude: 34.69, longitude: 135.5, radiusKm: 30 },
+  { name: 'Sydney', latitude: -33.87, longitude: 151.21, radiusKm: 30 },
+  { name: 'Melbourne', latitude: -37.81, longitude: 144.96, radiusKm: 30 }
+];
@@ -0,0 +1,243 @@
+import { AchievementEvent, AchievementMetric, AchievementRule, HonkMessage } from '@/types';
+import { getRepository } from '@/lib/repository';
+import { getSimulation, Simulation, SimulationClock } from '@/lib/simulation-clock';
+import { calculateDistance, getDistanceCategory } from '@/utils/distance';
+import { US_STATES } from '@/utils/constants';
+import { notificationService } from './notifications';
+
+/** Reward type achievement unlocks are stored under in user_rewards */
+export const ACHIEVEMENT_REWARD_TYPE = 'achievement';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Achievement definitions; adding one is a matter of picking a metric and a threshold
+ */
+export const ACHIEVEMENT_RULES: AchievementRule[] = [
+  {
+    id: 'first_flight',
+    name: 'First Flight',
+    description: 'Have your first honk delivered',
+    icon: '🐣',
+    events: ['message.delivered'],
+    metric: 'honks_delivered',
+    threshold: 1
+  },
+  {
+    id: 'across_the_pond',
+    name: 'Across the Pond',
+    description: 'Deliver a honk to another continent',
+    icon: '🌍',
+    events: ['journey.completed'],
+    metric: 'intercontinental_honks',
+    threshold: 1
+  },
+  {
+    id: 'storm_chaser',
+    name: 'Storm Chaser',
+    description: 'Deliver five honks through storms',
+    icon: '⛈️',
+    events: ['journey.completed'],
+    metric: 'storms_survived',
+    threshold: 5
+  },
+  {
+    id: 'fifty_states',
+    name: 'From Sea to Shining Sea',
+    description: 'Deliver honks to all 50 US states',
+    icon: '🇺🇸',
+    events: ['message.delivered'],
+    metric: 'us_states_reached',
+    threshold: US_STATES.length
+  },
+  {
+    id: 'thirty_day_streak',
+    name: 'Daily Duck',
+    description: 'Send honks on 30 days in a row',
+    icon: '🔥',
+    events: ['message.delivered'],
+    metric: 'longest_streak_days',
+    threshold: 30
+  }
+];
+
+/**
+ * Achievement configuration
+ */
+interface AchievementConfig {
+  rules: AchievementRule[];
+}
+
+/**
+ * Default achievement configuration
+ */
+const DEFAULT_CONFIG: AchievementConfig = {
+  rules: ACHIEVEMENT_RULES
+};
+
+/** An achievement newly recorded for a user */
+export interface AchievementUnlock {
+  rule: AchievementRule;
+  unlocked_at: Date;
+}
+
+/**
+ * Running totals while replaying a courier's deliveries in order
+ */
+class AchievementTally {
+  private values: Record<AchievementMetric, number> = {
+    honks_delivered: 0,
+    intercontinental_honks: 0,
+    storms_survived: 0,
+    us_states_reached: 0,
+    longest_streak_days: 0
+  };
+  private statesReached = new Set<string>();
+  private sendingDays = new Set<number>();
+
+  add(message: HonkMessage): void {
+    this.values.honks_delivered++;
+
+    const destination = message.recipient_location;
+    const distance = message.journey_data?.total_distance
+      ?? (destination ? calculateDistance(message.sender_location, destination) : 0);
+    if (getDistanceCategory(distance) === 'intercontinental') {
+      this.values.intercontinental_honks++;
+    }
+
+    if (message.journey_data?.weather_events.some(event => event.type === 'storm')) {
+      this.values.storms_survived++;
+    }
+
+    const state = destination?.state;
+    if (state && (US_STATES as readonly string[]).includes(state)
+      && (!destination.country || destination.country === 'United States')) {
+      this.statesReached.add(state);
+      this.values.us_states_reached = this.statesReached.size;
+    }
+
+    this.addSendingDay(Math.floor(message.created_at.getTime() / DAY_MS));
+  }
+
+  get(metric: AchievementMetric): number {
+    return this.values[metric];
+  }
+
+  /** Deliveries can arrive out of sending order, so measure the run around the new day */
+  private addSendingDay(day: number): void {
+    if (this.sendingDays.has(day)) return;
+    this.sendingDays.add(day);
+
+    let first = day;
+    let last = day;
+    while (this.sendingDays.has(first - 1)) first--;
+    while (this.sendingDays.has(last + 1)) last++;
+    this.values.longest_streak_days = Math.max(this.values.longest_streak_days, last - first + 1);
+  }
+}
+
+/**
+ * Unlocks achievements by replaying a courier's delivered honks against
+ * declarative rules. Replaying the whole history keeps evaluation
+ * idempotent and dates backfilled unlocks to the delivery that earned them.
+ */
+export class AchievementService {
+  private config: AchievementConfig;
+  private simulation: Partial<Simulation>;
+
+  constructor(config: Partial<AchievementConfig> = {}, simulation: Partial<Simulation> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.simulation = simulation;
+  }
+
+  private get clock(): SimulationClock {
+    return this.simulation.clock ?? getSimulation().clock;
+  }
+
+  getRule(id: string): AchievementRule | undefined {
+    return this.config.rules.find(rule => rule.id === id);
+  }
+
+  /**
+   * Check the rules that listen for an event and unlock any the user has earned
+   */
+  async evaluate(userId: string, event: AchievementEvent): Promise<AchievementUnlock[]> {
+    const rules = this.config.rules.filter(rule => rule.events.includes(event));
+    return this.unlockEarned(userId, rules);
+  }
+
+  /**
+   * Check every rule against existing history; all users when none is given
+   */
+  async backfill(userId?: string): Promise<AchievementUnlock[]> {
+    const userIds = userId ? [userId] : await getRepository().messages.listDeliveredSenders();
+    const unlocks: AchievementUnlock[] = [];
+
+    for (const id of userIds) {
+      unlocks.push(...await this.unlockEarned(id, this.config.rules));
+    }
+    return unlocks;
+  }
+
+  private async unlockEarned(userId: string, rules: AchievementRule[]): Promise<AchievementUnlock[]> {
+    if (rules.length === 0) return [];
+
+    const repository = getRepository();
+    const earned = await this.findEarned(userId, rules);
+    const unlocks: AchievementUnlock[] = [];
+
+    for (const unlock of earned) {
+      if (await repository.rewards.unlock(userId, ACHIEVEMENT_REWARD_TYPE, unlock.rule.id, unlock.unlocked_at)) {
+        unlocks.push(unlock);
+        notificationService.createRewardUnlockedNotification(
+          userId,
+          `${unlock.rule.icon} ${unlock.rule.name}`,
+          ACHIEVEMENT_REWARD_TYPE
+        );
+      }
+    }
+
+    if (unlocks.length > 0) {
+      await this.recordOnProfile(userId, unlocks);
+    }
+    return unlocks;
+  }
+
+  /**
+   * Replay deliveries in arrival order, noting when each rule's threshold was first reached
+   */
+  private async findEarned(userId: string, rules: AchievementRule[]): Promise<AchievementUnlock[]> {
+    const deliveries = await getRepository().messages.listDeliveredBySender(userId);
+    const tally = new AchievementTally();
+    const earned: AchievementUnlock[] = [];
+    let pending = rules;
+
+    for (const message of deliveries) {
+      tally.add(message);
+      const reached = pending.filter(rule => tally.get(rule.metric) >= rule.threshold);
+      if (reached.length === 0) continue;
+
+      const unlockedAt = message.delivered_at ?? new Date(this.clock.now());
+      earned.push(...reached.map(rule => ({ rule, unlocked_at: unlockedAt })));
+      pending = pending.filter(rule => !reached.includes(rule));
+      if (pending.length === 0) break;
+    }
+
+    return earned;
+  }
+
+  /** Keep the profile's achievement list in step with user_rewards */
+  private async recordOnProfile(userId: string, unlocks: AchievementUnlock[]): Promise<void> {
+    const repository = getRepository();
+    const user = await repository.users.findById(userId);
+    if (!user) return;
+
+    const achievements = [...new Set([...user.achievements, ...unlocks.map(unlock => unlock.rule.id)])];
+    await repository.users.update(userId, { achievements });
+  }
+}
+
+/**
+ * Singleton instance of the achievement service
+ */
+export const achievementService = new AchievementService();
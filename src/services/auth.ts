@@ -1,30 +1,35 @@
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
-import { dbManager } from '@/lib/database';
+import { getRepository } from '@/lib/repository';
 import { 
   User, 
   AuthUser, 
   LoginCredentials, 
   RegisterCredentials, 
   AuthResponse,
-  UserProfile,
-  UserRow 
+  UserProfile
 } from '@/types';
+import { DeviceRegistration, deviceService } from './devices';
+import { sessionService } from './sessions';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'honk-secret-key-change-in-production';
-const JWT_EXPIRES_IN = '7d';
 const SALT_ROUNDS = 12;
 
+/** Who an access token belongs to, and the session and device it was issued to */
+export interface AuthSession {
+  user: AuthUser;
+  sessionId: string;
+  deviceId?: string;
+}
+
 export class AuthService {
-  private get db() {
-    return dbManager.getDatabase();
+  private get repository() {
+    return getRepository();
   }
 
   /**
    * Register a new user
    */
-  async register(credentials: RegisterCredentials): Promise<AuthResponse> {
+  async register(credentials: RegisterCredentials, device: DeviceRegistration = {}): Promise<AuthResponse> {
     try {
       // Validate input
       const validation = this.validateRegistration(credentials);
@@ -36,7 +41,7 @@ export class AuthService {
       }
 
       // Check if user already exists
-      const existingUser = this.findUserByEmail(credentials.email);
+      const existingUser = await this.findUserByEmail(credentials.email);
       if (existingUser) {
         return {
           success: false,
@@ -44,7 +49,7 @@ export class AuthService {
         };
       }
 
-      const existingUsername = this.findUserByUsername(credentials.username);
+      const existingUsername = await this.findUserByUsername(credentials.username);
       if (existingUsername) {
         return {
           success: false,
@@ -56,46 +61,23 @@ export class AuthService {
       const passwordHash = await bcrypt.hash(credentials.password, SALT_ROUNDS);
 
       // Create user
-      const userId = uuidv4();
-      const now = new Date().toISOString();
-      
-      const insertUser = this.db.prepare(`
-        INSERT INTO users (
-          id, email, username, password_hash, created_at, last_active,
-          total_journey_points, current_rank, location_sharing_preference, opt_out_random
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `);
-
-      insertUser.run(
-        userId,
-        credentials.email,
-        credentials.username,
-        passwordHash,
-        now,
-        now,
-        0,
-        'Fledgling Courier',
-        credentials.location_sharing_preference || 'state',
-        0
-      );
-
-      // Get the created user
-      const user = this.findUserById(userId);
-      if (!user) {
-        return {
-          success: false,
-          message: 'Failed to create user'
-        };
-      }
-
-      // Generate JWT token
-      const token = this.generateToken(user);
+      const user = await this.repository.users.create({
+        id: uuidv4(),
+        email: credentials.email,
+        username: credentials.username,
+        password_hash: passwordHash,
+        location_sharing_preference: credentials.location_sharing_preference || 'state'
+      });
+
+      // Start a session bound to this device
+      const { id: deviceId } = await deviceService.register(user.id, device);
+      const tokens = await sessionService.issue(user.id, deviceId);
       const authUser = this.userToAuthUser(user);
 
       return {
         success: true,
         user: authUser,
-        token,
+        ...tokens,
         message: 'User registered successfully'
       };
 
@@ -111,10 +93,10 @@ export class AuthService {
   /**
    * Login user
    */
-  async login(credentials: LoginCredentials): Promise<AuthResponse> {
+  async login(credentials: LoginCredentials, device: DeviceRegistration = {}): Promise<AuthResponse> {
     try {
       // Find user by email
-      const user = this.findUserByEmail(credentials.email);
+      const user = await this.findUserByEmail(credentials.email);
       if (!user) {
         return {
           success: false,
@@ -132,16 +114,17 @@ export class AuthService {
       }
 
       // Update last active
-      this.updateLastActive(user.id);
+      await this.updateLastActive(user.id);
 
-      // Generate JWT token
-      const token = this.generateToken(user);
+      // Start a session bound to this device
+      const { id: deviceId } = await deviceService.register(user.id, device);
+      const tokens = await sessionService.issue(user.id, deviceId);
       const authUser = this.userToAuthUser(user);
 
       return {
         success: true,
         user: authUser,
-        token,
+        ...tokens,
         message: 'Login successful'
       };
 
@@ -157,19 +140,35 @@ export class AuthService {
   /**
    * Verify JWT token and get user
    */
-  verifyToken(token: string): AuthUser | null {
+  async verifyToken(token: string): Promise<AuthUser | null> {
+    return (await this.verifySession(token))?.user ?? null;
+  }
+
+  /**
+   * Verify an access token and get the user, session and device it was
+   * issued to. Tokens for a signed-out session or revoked device are rejected.
+   */
+  async verifySession(token: string): Promise<AuthSession | null> {
     try {
-      const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
-      const user = this.findUserById(decoded.userId);
+      const claims = await sessionService.verifyAccessToken(token);
+      if (!claims) {
+        return null;
+      }
+
+      const user = await this.findUserById(claims.userId);
       
       if (!user) {
         return null;
       }
 
+      if (claims.deviceId && !await deviceService.resolveSession(claims.deviceId, user.id)) {
+        return null;
+      }
+
       // Update last active
-      this.updateLastActive(user.id);
+      await this.updateLastActive(user.id);
 
-      return this.userToAuthUser(user);
+      return { user: this.userToAuthUser(user), sessionId: claims.sessionId, deviceId: claims.deviceId };
     } catch (error) {
       console.error('Token verification error:', error);
       return null;
@@ -179,45 +178,22 @@ export class AuthService {
   /**
    * Update user profile
    */
-  updateProfile(userId: string, profile: Partial<UserProfile>): boolean {
+  async updateProfile(userId: string, profile: Partial<UserProfile>): Promise<boolean> {
     try {
-      const updates: string[] = [];
-      const values: (string | number)[] = [];
-
       if (profile.username !== undefined) {
         // Check if username is already taken by another user
-        const existingUser = this.findUserByUsername(profile.username);
+        const existingUser = await this.findUserByUsername(profile.username);
         if (existingUser && existingUser.id !== userId) {
           return false;
         }
-        updates.push('username = ?');
-        values.push(profile.username);
       }
 
-      if (profile.location_sharing_preference !== undefined) {
-        updates.push('location_sharing_preference = ?');
-        values.push(profile.location_sharing_preference);
-      }
-
-      if (profile.opt_out_random !== undefined) {
-        updates.push('opt_out_random = ?');
-        values.push(profile.opt_out_random ? 1 : 0);
-      }
-
-      if (profile.current_location !== undefined) {
-        updates.push('current_location = ?');
-        values.push(JSON.stringify(profile.current_location));
-      }
-
-      if (updates.length === 0) {
-        return true; // Nothing to update
-      }
-
-      values.push(userId);
-      const updateQuery = `UPDATE users SET ${updates.join(', ')} WHERE id = ?`;
-      
-      const result = this.db.prepare(updateQuery).run(...values);
-      return result.changes > 0;
+      return await this.repository.users.update(userId, {
+        username: profile.username,
+        location_sharing_preference: profile.location_sharing_preference,
+        opt_out_random: profile.opt_out_random,
+        current_location: profile.current_location
+      });
 
     } catch (error) {
       console.error('Profile update error:', error);
@@ -228,61 +204,49 @@ export class AuthService {
   /**
    * Get user profile
    */
-  getUserProfile(userId: string): AuthUser | null {
-    const user = this.findUserById(userId);
+  async getUserProfile(userId: string): Promise<AuthUser | null> {
+    const user = await this.findUserById(userId);
     return user ? this.userToAuthUser(user) : null;
   }
 
   /**
    * Private helper methods
    */
-  private findUserByEmail(email: string): User | null {
+  private async findUserByEmail(email: string): Promise<User | null> {
     try {
-      const row = this.db.prepare('SELECT * FROM users WHERE email = ?').get(email) as UserRow | undefined;
-      return row ? dbManager.rowToUser(row) : null;
+      return await this.repository.users.findByEmail(email);
     } catch (error) {
       console.error('Find user by email error:', error);
       return null;
     }
   }
 
-  private findUserByUsername(username: string): User | null {
+  private async findUserByUsername(username: string): Promise<User | null> {
     try {
-      const row = this.db.prepare('SELECT * FROM users WHERE username = ?').get(username) as UserRow | undefined;
-      return row ? dbManager.rowToUser(row) : null;
+      return await this.repository.users.findByUsername(username);
     } catch (error) {
       console.error('Find user by username error:', error);
       return null;
     }
   }
 
-  private findUserById(id: string): User | null {
+  private async findUserById(id: string): Promise<User | null> {
     try {
-      const row = this.db.prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow | undefined;
-      return row ? dbManager.rowToUser(row) : null;
+      return await this.repository.users.findById(id);
     } catch (error) {
       console.error('Find user by id error:', error);
       return null;
     }
   }
 
-  private updateLastActive(userId: string): void {
+  private async updateLastActive(userId: string): Promise<void> {
     try {
-      const now = new Date().toISOString();
-      this.db.prepare('UPDATE users SET last_active = ? WHERE id = ?').run(now, userId);
+      await this.repository.users.update(userId, { last_active: new Date() });
     } catch (error) {
       console.error('Update last active error:', error);
     }
   }
 
-  private generateToken(user: User): string {
-    return jwt.sign(
-      { userId: user.id },
-      JWT_SECRET,
-      { expiresIn: JWT_EXPIRES_IN }
-    );
-  }
-
   private userToAuthUser(user: User): AuthUser {
     return {
       id: user.id,
@@ -294,7 +258,8 @@ export class AuthService {
       current_rank: user.current_rank,
       location_sharing_preference: user.location_sharing_preference,
       opt_out_random: user.opt_out_random,
-      current_location: user.current_location
+      current_location: user.current_location,
+      time_zone: user.time_zone
     };
   }
 
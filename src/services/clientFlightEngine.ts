@@ -7,6 +7,28 @@ import {
   JourneyData
 } from '@/types';
 import { calculateDistance, calculateBearing, calculateDestination } from '@/utils/distance';
+import {
+  getSimulation,
+  RandomSource,
+  Simulation,
+  SimulationClock,
+  SystemClock,
+  TimerHandle
+} from '@/lib/simulation-clock';
+import { weatherService } from './weather';
+import { SyntheticWeatherProvider } from './weatherProviders';
+
+/** Duck cruising speed, matching the server flight engine */
+const BASE_SPEED_KMH = 50;
+
+/** Real milliseconds between UI updates, whatever the time warp */
+const UPDATE_INTERVAL_MS = 200;
+
+/** Real milliseconds a completed flight stays queryable */
+const COMPLETED_RETENTION_MS = 5000;
+
+/** Default demo speed-up: a 10-hour flight lands in under 4 seconds */
+export const DEMO_TIME_WARP = 10000;
 
 /**
  * Simplified flight engine for client-side demo use
@@ -16,8 +38,23 @@ export class ClientFlightEngine {
     record: FlightRecord;
     startTime: number;
     callback?: (progress: FlightProgress) => void;
-    timer?: NodeJS.Timeout;
+    timer?: TimerHandle;
   }> = new Map();
+  private simulation: Partial<Simulation>;
+  private weather: SyntheticWeatherProvider;
+
+  constructor(simulation: Partial<Simulation> = {}) {
+    this.simulation = simulation;
+    this.weather = new SyntheticWeatherProvider({}, simulation);
+  }
+
+  private get clock(): SimulationClock {
+    return this.simulation.clock ?? getSimulation().clock;
+  }
+
+  private get random(): RandomSource {
+    return this.simulation.random ?? getSimulation().random;
+  }
 
   /**
    * Initialize a new flight with simplified routing
@@ -28,6 +65,8 @@ export class ClientFlightEngine {
     endLocation: LocationData
   ): Promise<FlightRecord | null> {
     try {
+      const startedAt = this.clock.now();
+
       // Calculate simple route (direct path with waypoints)
       const totalDistance = calculateDistance(startLocation, endLocation);
       const bearing = calculateBearing(startLocation, endLocation);
@@ -46,17 +85,16 @@ export class ClientFlightEngine {
         waypoints.push({
           latitude: location.latitude,
           longitude: location.longitude,
-          altitude: 1000 + Math.random() * 2000, // Random altitude between 1-3km
-          timestamp: new Date(Date.now() + i * 60000)
+          altitude: 1000 + this.random() * 2000, // Random altitude between 1-3km
+          timestamp: new Date(startedAt + i * 60000)
         });
       }
 
-      // Generate random weather
-      const initialWeather = this.generateRandomWeather(startLocation);
+      // Synthetic weather, so the demo works offline
+      const initialWeather = this.generateWeather(startLocation);
       
-      // Calculate estimated duration (base speed 5000 km/h for demo)
-      const baseSpeed = 5000; // 100x faster than normal for demo
-      const weatherSpeed = baseSpeed * (initialWeather?.speed_modifier || 1);
+      // Calculate estimated duration in simulated time
+      const weatherSpeed = BASE_SPEED_KMH * initialWeather.speed_modifier;
       const estimatedDuration = (totalDistance / weatherSpeed) * 60 * 60 * 1000; // ms
 
       // Create flight record
@@ -70,16 +108,17 @@ export class ClientFlightEngine {
         progress_percentage: 0,
         current_position: startLocation,
         speed_kmh: weatherSpeed,
-        weather_events: initialWeather ? [initialWeather] : [],
-        started_at: new Date(),
-        updated_at: new Date(),
-        estimated_arrival: new Date(Date.now() + estimatedDuration)
+        weather_events: [initialWeather],
+        delivery_tier: 'standard',
+        started_at: new Date(startedAt),
+        updated_at: new Date(startedAt),
+        estimated_arrival: new Date(startedAt + estimatedDuration)
       };
 
       // Store active flight
       this.activeFlights.set(messageId, {
         record: flightRecord,
-        startTime: Date.now()
+        startTime: startedAt
       });
 
       // Start progress simulation
@@ -99,9 +138,10 @@ export class ClientFlightEngine {
     const flight = this.activeFlights.get(messageId);
     if (!flight) return;
 
-    const updateInterval = 200; // Update every 0.2 seconds for super fast demo
-    
-    const timer = setInterval(() => {
+    // Timers run on simulated time; scale so the UI refresh rate stays constant
+    const updateInterval = UPDATE_INTERVAL_MS * this.clock.timeWarp;
+
+    const timer = this.clock.setInterval(() => {
       this.updateFlightProgress(messageId);
     }, updateInterval);
 
@@ -115,12 +155,12 @@ export class ClientFlightEngine {
     const flight = this.activeFlights.get(messageId);
     if (!flight || flight.record.status !== 'enroute') return;
 
-    const now = Date.now();
+    const now = this.clock.now();
     const elapsed = now - flight.startTime;
     const totalDuration = flight.record.estimated_duration;
     
-    // Calculate progress (0-100%) with 100x speed multiplier for demo
-    let progress = (elapsed / totalDuration) * 100 * 100; // 100x speed multiplier
+    // Calculate progress (0-100%)
+    let progress = (elapsed / totalDuration) * 100;
     progress = Math.min(100, progress);
 
     // Update position along route
@@ -140,17 +180,15 @@ export class ClientFlightEngine {
     );
 
     if (!lastPosition || significantMove) {
-      const newWeather = this.generateRandomWeather(newPosition);
-      if (newWeather) {
-        flight.record.weather_events.push(newWeather);
-        flight.record.speed_kmh = 50 * newWeather.speed_modifier;
-      }
+      const newWeather = this.generateWeather(newPosition);
+      flight.record.weather_events.push(newWeather);
+      flight.record.speed_kmh = BASE_SPEED_KMH * newWeather.speed_modifier;
     }
 
     // Update flight record
     flight.record.progress_percentage = progress;
     flight.record.current_position = newPosition;
-    flight.record.updated_at = new Date();
+    flight.record.updated_at = new Date(now);
 
     // Check if flight is complete
     if (progress >= 100) {
@@ -229,41 +267,11 @@ export class ClientFlightEngine {
   }
 
   /**
-   * Generate random weather for demo purposes
+   * Weather from the synthetic storm systems at the current simulated time
    */
-  private generateRandomWeather(location: LocationData): WeatherEvent | null {
-    const weatherTypes = ['clear', 'rain', 'storm', 'wind'] as const;
-    const type = weatherTypes[Math.floor(Math.random() * weatherTypes.length)];
-    
-    let speed_modifier = 1.0;
-    let intensity = Math.random();
-
-    switch (type) {
-      case 'clear':
-        speed_modifier = 1.0;
-        intensity = 0;
-        break;
-      case 'rain':
-        speed_modifier = 0.75;
-        intensity = 0.3 + Math.random() * 0.4;
-        break;
-      case 'storm':
-        speed_modifier = 0.5;
-        intensity = 0.6 + Math.random() * 0.4;
-        break;
-      case 'wind':
-        speed_modifier = 0.75 + Math.random() * 0.5; // 0.75 to 1.25
-        intensity = 0.2 + Math.random() * 0.6;
-        break;
-    }
-
-    return {
-      type,
-      intensity,
-      speed_modifier,
-      location,
-      timestamp: new Date()
-    };
+  private generateWeather(location: LocationData): WeatherEvent {
+    const reading = this.weather.readingAt(location, new Date(this.clock.now()));
+    return weatherService.toWeatherEvent(reading, location);
   }
 
   /**
@@ -276,7 +284,7 @@ export class ClientFlightEngine {
     // Update status
     flight.record.status = 'delivered';
     flight.record.progress_percentage = 100;
-    flight.record.updated_at = new Date();
+    flight.record.updated_at = new Date(this.clock.now());
 
     // Final callback
     if (flight.callback) {
@@ -291,14 +299,12 @@ export class ClientFlightEngine {
     }
 
     // Clean up
-    if (flight.timer) {
-      clearInterval(flight.timer);
-    }
+    this.clock.clearInterval(flight.timer);
 
     // Remove from active flights after a delay
-    setTimeout(() => {
+    this.clock.setTimeout(() => {
       this.activeFlights.delete(messageId);
-    }, 5000);
+    }, COMPLETED_RETENTION_MS * this.clock.timeWarp);
   }
 
   /**
@@ -329,10 +335,7 @@ export class ClientFlightEngine {
     if (!flight) return false;
 
     flight.record.status = 'failed';
-    
-    if (flight.timer) {
-      clearInterval(flight.timer);
-    }
+    this.clock.clearInterval(flight.timer);
     
     this.activeFlights.delete(messageId);
     return true;
@@ -413,15 +416,18 @@ export class ClientFlightEngine {
    */
   cleanup(): void {
     for (const [messageId, flight] of this.activeFlights) {
-      if (flight.timer) {
-        clearInterval(flight.timer);
-      }
+      this.clock.clearInterval(flight.timer);
     }
     this.activeFlights.clear();
   }
 }
 
+/**
+ * Time-warped clock driving the demo engine
+ */
+export const clientFlightClock = new SystemClock(DEMO_TIME_WARP);
+
 /**
  * Singleton instance of the client flight engine
  */
-export const clientFlightEngine = new ClientFlightEngine();
\ No newline at end of file
+export const clientFlightEngine = new ClientFlightEngine({ clock: clientFlightClock });
\ No newline at end of file
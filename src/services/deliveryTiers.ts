@@ -0,0 +1,73 @@
+import { DeliveryTier, User, WeatherEvent } from '@/types';
+import { RankingService } from './ranking';
+
+/**
+ * How a delivery tier flies
+ */
+export interface DeliveryTierConfig {
+  label: string;
+  speedMultiplier: number; // Applied to the engine's base speed
+  weatherSensitivity: number; // 1 = full weather effect, 0 = ignores weather
+  routeCostWeight: number; // 1 = prefer easy terrain, 0 = shortest distance
+  requiredReward: string | null; // Rank reward that unlocks the tier
+}
+
+export const DELIVERY_TIERS: Record<DeliveryTier, DeliveryTierConfig> = {
+  standard: {
+    label: 'Standard',
+    speedMultiplier: 1.0,
+    weatherSensitivity: 1.0,
+    routeCostWeight: 1.0,
+    requiredReward: null
+  },
+  priority: {
+    label: 'Priority',
+    speedMultiplier: 1.5,
+    weatherSensitivity: 0.6,
+    routeCostWeight: 0.5,
+    requiredReward: 'priority_delivery'
+  },
+  express: {
+    label: 'Express',
+    speedMultiplier: 2.5,
+    weatherSensitivity: 0.3,
+    routeCostWeight: 0,
+    requiredReward: 'express_delivery'
+  }
+};
+
+export const DEFAULT_DELIVERY_TIER: DeliveryTier = 'standard';
+
+/**
+ * Type guard for tier names coming from requests or storage
+ */
+export function isDeliveryTier(value: unknown): value is DeliveryTier {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(DELIVERY_TIERS, value);
+}
+
+/**
+ * Whether a user's rank rewards unlock a delivery tier
+ */
+export function canUseDeliveryTier(
+  user: Pick<User, 'total_journey_points'>,
+  tier: DeliveryTier
+): boolean {
+  const { requiredReward } = DELIVERY_TIERS[tier];
+  return requiredReward === null || RankingService.hasRankReward(user.total_journey_points, requiredReward);
+}
+
+/**
+ * Delivery tiers a user can pick from
+ */
+export function getAvailableDeliveryTiers(user: Pick<User, 'total_journey_points'>): DeliveryTier[] {
+  return (Object.keys(DELIVERY_TIERS) as DeliveryTier[]).filter(tier => canUseDeliveryTier(user, tier));
+}
+
+/**
+ * Weather speed modifier as felt by a tier: less sensitive tiers are pulled
+ * proportionally closer to calm-air speed (1.0)
+ */
+export function getTierWeatherModifier(weather: WeatherEvent | null, tier: DeliveryTier): number {
+  if (!weather) return 1.0;
+  return 1 + (weather.speed_modifier - 1) * DELIVERY_TIERS[tier].weatherSensitivity;
+}
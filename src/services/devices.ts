@@ -0,0 +1,182 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getRepository } from '@/lib/repository';
+import { getSimulation, Simulation, SimulationClock } from '@/lib/simulation-clock';
+import { DeviceSummary, UserDevice } from '@/types';
+
+/** What is known about a device when it signs in */
+export interface DeviceRegistration {
+  userAgent?: string;
+  fingerprint?: string;
+  name?: string;
+}
+
+/**
+ * Device configuration
+ */
+interface DeviceConfig {
+  maxNameLength: number;
+  maxUserAgentLength: number;
+  /** Last-seen times are only written when they move by at least this much */
+  lastSeenResolutionMs: number;
+}
+
+/**
+ * Default device configuration
+ */
+const DEFAULT_CONFIG: DeviceConfig = {
+  maxNameLength: 50,
+  maxUserAgentLength: 512,
+  lastSeenResolutionMs: 60 * 1000
+};
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Windows/, 'Windows'],
+  [/Linux/, 'Linux']
+];
+
+/**
+ * Rejected device request, carrying the HTTP status routes should return
+ */
+export class DeviceError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'DeviceError';
+  }
+}
+
+/**
+ * A readable name for a device from its user agent, like "Chrome on macOS"
+ */
+export function defaultDeviceName(userAgent: string): string {
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? 'Unknown device';
+}
+
+/**
+ * Shape a device for API responses
+ */
+export function toDeviceSummary(device: UserDevice, currentDeviceId?: string): DeviceSummary {
+  return {
+    id: device.id,
+    name: device.name,
+    user_agent: device.user_agent,
+    created_at: device.created_at.toISOString(),
+    last_seen_at: device.last_seen_at.toISOString(),
+    current: device.id === currentDeviceId
+  };
+}
+
+/**
+ * The browsers and apps signed in to each account. Session tokens name the
+ * device they were issued to, so revoking a device signs it out.
+ */
+export class DeviceService {
+  private config: DeviceConfig;
+  private simulation: Partial<Simulation>;
+
+  constructor(config: Partial<DeviceConfig> = {}, simulation: Partial<Simulation> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.simulation = simulation;
+  }
+
+  private get clock(): SimulationClock {
+    return this.simulation.clock ?? getSimulation().clock;
+  }
+
+  private validateName(name: unknown): string {
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new DeviceError('Device name is required');
+    }
+    if (name.trim().length > this.config.maxNameLength) {
+      throw new DeviceError(`Device name must be ${this.config.maxNameLength} characters or less`);
+    }
+    return name.trim();
+  }
+
+  /**
+   * Record a device signing in to an account
+   */
+  async register(userId: string, registration: DeviceRegistration = {}): Promise<UserDevice> {
+    const userAgent = (registration.userAgent ?? '').slice(0, this.config.maxUserAgentLength);
+    const now = new Date(this.clock.now());
+    const device: UserDevice = {
+      id: uuidv4(),
+      user_id: userId,
+      name: registration.name ? this.validateName(registration.name) : defaultDeviceName(userAgent),
+      user_agent: userAgent,
+      fingerprint: registration.fingerprint,
+      created_at: now,
+      last_seen_at: now
+    };
+    await getRepository().devices.create(device);
+
+    return device;
+  }
+
+  async findByFingerprint(fingerprint: string): Promise<UserDevice | null> {
+    return getRepository().devices.findByFingerprint(fingerprint);
+  }
+
+  async list(userId: string): Promise<UserDevice[]> {
+    return getRepository().devices.listByUser(userId);
+  }
+
+  async rename(id: string, userId: string, name: unknown): Promise<UserDevice> {
+    const repository = getRepository();
+    if (!await repository.devices.rename(id, userId, this.validateName(name))) {
+      throw new DeviceError('Device not found', 404);
+    }
+    return (await repository.devices.findById(id))!;
+  }
+
+  /**
+   * Unlink a device and sign out its sessions. Its access token stops
+   * working on the next request.
+   */
+  async revoke(id: string, userId: string): Promise<void> {
+    const repository = getRepository();
+    if (!await repository.devices.delete(id, userId)) {
+      throw new DeviceError('Device not found', 404);
+    }
+    await repository.sessions.revokeByDevice(id, new Date(this.clock.now()));
+  }
+
+  /**
+   * The device a session token was issued to, or null once it has been
+   * revoked. Marks the device as seen.
+   */
+  async resolveSession(deviceId: string, userId: string): Promise<UserDevice | null> {
+    const repository = getRepository();
+    const device = await repository.devices.findById(deviceId);
+    if (!device || device.user_id !== userId) {
+      return null;
+    }
+
+    const now = new Date(this.clock.now());
+    if (now.getTime() - device.last_seen_at.getTime() >= this.config.lastSeenResolutionMs) {
+      await repository.devices.touch(device.id, now);
+      device.last_seen_at = now;
+    }
+    return device;
+  }
+}
+
+/**
+ * Singleton instance of the device service
+ */
+export const deviceService = new DeviceService();
@@ -0,0 +1,221 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DraftUpdate, getRepository } from '@/lib/repository';
+import { getSimulation, Simulation, SimulationClock } from '@/lib/simulation-clock';
+import { DraftKind, DraftRecord, DraftSummary, LocationSharing } from '@/types';
+import { validatePostcardStickers } from '@/utils/postcardDocument';
+
+/** What a composer autosaves */
+export interface DraftInput {
+  kind: DraftKind;
+  title?: string;
+  content?: string;
+  location_sharing?: LocationSharing;
+  recipient_id?: string;
+  reply_to_message_id?: string;
+  recipient_name?: string;
+  sticker_data?: unknown;
+}
+
+/**
+ * Draft configuration
+ */
+interface DraftConfig {
+  maxDraftsPerUser: number;
+  maxTitleLength: number;
+  maxContentLength: number;
+  maxRecipientNameLength: number;
+  previewLength: number;
+}
+
+/**
+ * Default draft configuration
+ */
+const DEFAULT_CONFIG: DraftConfig = {
+  maxDraftsPerUser: 50,
+  maxTitleLength: 200,
+  maxContentLength: 5000,
+  maxRecipientNameLength: 100,
+  previewLength: 80
+};
+
+export const DRAFT_KINDS: DraftKind[] = ['honk', 'reply', 'postcard'];
+const LOCATION_SHARING: LocationSharing[] = ['state', 'country', 'anonymous'];
+
+/**
+ * Rejected draft request, carrying the HTTP status routes should return
+ */
+export class DraftError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'DraftError';
+  }
+}
+
+/**
+ * A one-line snippet of the draft for the drafts list
+ */
+export function draftPreview(draft: Pick<DraftRecord, 'title' | 'content'>, length = DEFAULT_CONFIG.previewLength): string {
+  const text = (draft.content.trim() || draft.title.trim()).replace(/\s+/g, ' ');
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+}
+
+/**
+ * Shape a stored draft for API responses
+ */
+export function toDraftSummary(draft: DraftRecord): DraftSummary {
+  return {
+    id: draft.id,
+    kind: draft.kind,
+    title: draft.title,
+    content: draft.content,
+    location_sharing: draft.location_sharing,
+    recipient_id: draft.recipient_id,
+    reply_to_message_id: draft.reply_to_message_id,
+    recipient_name: draft.recipient_name,
+    sticker_data: draft.sticker_data,
+    preview: draftPreview(draft),
+    created_at: draft.created_at.toISOString(),
+    updated_at: draft.updated_at.toISOString()
+  };
+}
+
+/**
+ * Unsent honks, replies and postcards, saved as the user composes so
+ * nothing is lost when they navigate away
+ */
+export class DraftService {
+  private config: DraftConfig;
+  private simulation: Partial<Simulation>;
+
+  constructor(config: Partial<DraftConfig> = {}, simulation: Partial<Simulation> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.simulation = simulation;
+  }
+
+  private get clock(): SimulationClock {
+    return this.simulation.clock ?? getSimulation().clock;
+  }
+
+  /**
+   * Check the composer's fields. Drafts may be unfinished, so nothing is
+   * required beyond what a reply needs to know who it answers.
+   */
+  private validate(kind: DraftKind, input: Omit<DraftInput, 'kind'>): Omit<DraftUpdate, 'updated_at'> {
+    const text = (value: unknown, field: string, maxLength: number): string | undefined => {
+      if (value === undefined || value === null) return undefined;
+      if (typeof value !== 'string') {
+        throw new DraftError(`${field} must be a string`);
+      }
+      if (value.length > maxLength) {
+        throw new DraftError(`${field} must be ${maxLength} characters or less`);
+      }
+      return value;
+    };
+
+    const locationSharing = input.location_sharing ?? 'state';
+    if (!LOCATION_SHARING.includes(locationSharing)) {
+      throw new DraftError("location_sharing must be 'state', 'country' or 'anonymous'");
+    }
+
+    const recipientId = text(input.recipient_id, 'recipient_id', 100);
+    const replyToMessageId = text(input.reply_to_message_id, 'reply_to_message_id', 100);
+    if (kind === 'reply' && (!recipientId || !replyToMessageId)) {
+      throw new DraftError('Reply drafts need recipient_id and reply_to_message_id');
+    }
+
+    const stickers = validatePostcardStickers(input.sticker_data ?? []);
+    if (!stickers.isValid) {
+      throw new DraftError(stickers.errors[0]);
+    }
+
+    return {
+      title: text(input.title, 'title', this.config.maxTitleLength) ?? '',
+      content: text(input.content, 'content', this.config.maxContentLength) ?? '',
+      location_sharing: locationSharing,
+      recipient_id: recipientId,
+      reply_to_message_id: replyToMessageId,
+      recipient_name: text(input.recipient_name, 'recipient_name', this.config.maxRecipientNameLength),
+      sticker_data: stickers.stickers!
+    };
+  }
+
+  async list(ownerId: string): Promise<DraftRecord[]> {
+    return getRepository().drafts.listByOwner(ownerId);
+  }
+
+  async get(id: string, ownerId: string): Promise<DraftRecord> {
+    const draft = await getRepository().drafts.findById(id);
+    // Someone else's draft looks the same as a missing one
+    if (!draft || draft.owner_id !== ownerId) {
+      throw new DraftError('Draft not found', 404);
+    }
+    return draft;
+  }
+
+  async create(ownerId: string, input: DraftInput): Promise<DraftRecord> {
+    if (!DRAFT_KINDS.includes(input.kind)) {
+      throw new DraftError("kind must be 'honk', 'reply' or 'postcard'");
+    }
+    const fields = this.validate(input.kind, input);
+
+    const repository = getRepository();
+    if (await repository.drafts.countByOwner(ownerId) >= this.config.maxDraftsPerUser) {
+      throw new DraftError(`You can keep at most ${this.config.maxDraftsPerUser} drafts`, 409);
+    }
+
+    const now = new Date(this.clock.now());
+    const draft: DraftRecord = {
+      id: uuidv4(),
+      owner_id: ownerId,
+      kind: input.kind,
+      title: fields.title ?? '',
+      content: fields.content ?? '',
+      location_sharing: fields.location_sharing ?? 'state',
+      recipient_id: fields.recipient_id,
+      reply_to_message_id: fields.reply_to_message_id,
+      recipient_name: fields.recipient_name,
+      sticker_data: fields.sticker_data ?? [],
+      created_at: now,
+      updated_at: now
+    };
+    await repository.drafts.create(draft);
+
+    return draft;
+  }
+
+  /**
+   * Replace a draft's fields with the composer's latest state. The kind a
+   * draft was started as never changes.
+   */
+  async update(id: string, ownerId: string, input: Omit<DraftInput, 'kind'>): Promise<DraftRecord> {
+    const existing = await this.get(id, ownerId);
+    const fields = this.validate(existing.kind, input);
+
+    const updated = await getRepository().drafts.update(id, ownerId, {
+      ...fields,
+      updated_at: new Date(this.clock.now())
+    });
+    if (!updated) {
+      throw new DraftError('Draft not found', 404);
+    }
+    return updated;
+  }
+
+  async delete(id: string, ownerId: string): Promise<void> {
+    if (!await getRepository().drafts.delete(id, ownerId)) {
+      throw new DraftError('Draft not found', 404);
+    }
+  }
+
+  /**
+   * Drop the draft a message was sent from. Already-deleted drafts are fine.
+   */
+  async discard(id: string, ownerId: string): Promise<boolean> {
+    return getRepository().drafts.delete(id, ownerId);
+  }
+}
+
+/**
+ * Singleton instance of the draft service
+ */
+export const draftService = new DraftService();
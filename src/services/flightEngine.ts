@@ -1,13 +1,20 @@
+import { v4 as uuidv4 } from 'uuid';
 import { 
   LocationData, 
   FlightProgress, 
   WeatherEvent, 
   FlightRecord,
+  FlightEventDetails,
+  FlightEventType,
   RouteWaypoint,
-  JourneyData
+  JourneyData,
+  DeliveryTier
 } from '@/types';
-import { flightRoutingService, PathResult } from './routing';
+import { flightRoutingService, PathResult, TerrainType, weatherCellsFromEvents } from './routing';
 import { weatherService } from './weather';
+import { DELIVERY_TIERS, DEFAULT_DELIVERY_TIER, getTierWeatherModifier } from './deliveryTiers';
+import { getRepository } from '@/lib/repository';
+import { getSimulation, Simulation, SimulationClock, TimerHandle } from '@/lib/simulation-clock';
 import { calculateDistance, calculateBearing, calculateDestination } from '@/utils/distance';
 
 /**
@@ -18,6 +25,7 @@ interface FlightEngineConfig {
   updateIntervalMs: number;
   weatherCheckIntervalMs: number;
   maxFlightDurationHours: number;
+  maxHoldMs: number;
 }
 
 /**
@@ -27,9 +35,47 @@ const DEFAULT_CONFIG: FlightEngineConfig = {
   baseSpeedKmh: 50, // Base duck flight speed
   updateIntervalMs: 30000, // Update every 30 seconds
   weatherCheckIntervalMs: 300000, // Check weather every 5 minutes
-  maxFlightDurationHours: 48 // Maximum flight duration
+  maxFlightDurationHours: 48, // Maximum flight duration
+  maxHoldMs: 7200000 // Circle for at most 2 hours before rerouting or giving up
 };
 
+/**
+ * Distance flown over one kind of terrain
+ */
+export interface TerrainShare {
+  terrain: TerrainType;
+  distance_km: number;
+  percentage: number;
+}
+
+/**
+ * What a flight would look like if launched now
+ */
+export interface FlightPreview {
+  route: PathResult;
+  delivery_tier: DeliveryTier;
+  terrain: TerrainShare[];
+  weather: WeatherEvent[];
+  min_duration_ms: number;
+  max_duration_ms: number;
+  earliest_arrival: Date;
+  latest_arrival: Date;
+}
+
+/**
+ * Number of times waypoint arrival times are refined against the forecast
+ */
+const FORECAST_PASSES = 2;
+
+/**
+ * A route stamped with expected arrival times and the forecast each leg meets
+ */
+interface LegPlan {
+  waypoints: RouteWaypoint[];
+  legWeather: Array<WeatherEvent | null>; // Leg i starts at waypoints[i]
+  durationMs: number;
+}
+
 /**
  * Active flight tracking data
  */
@@ -37,10 +83,13 @@ interface ActiveFlight {
   record: FlightRecord;
   route: PathResult;
   currentWeather: WeatherEvent | null;
+  legWeather: Array<WeatherEvent | null>;
+  currentLeg: number;
   lastWeatherCheck: number;
   lastUpdate: number;
-  updateTimer?: NodeJS.Timeout;
-  weatherTimer?: NodeJS.Timeout;
+  heldSince?: number;
+  updateTimer?: TimerHandle;
+  weatherTimer?: TimerHandle;
 }
 
 /**
@@ -50,9 +99,15 @@ export class FlightEngine {
   private config: FlightEngineConfig;
   private activeFlights: Map<string, ActiveFlight> = new Map();
   private flightCallbacks: Map<string, (progress: FlightProgress) => void> = new Map();
+  private simulation: Partial<Simulation>;
 
-  constructor(config: Partial<FlightEngineConfig> = {}) {
+  constructor(config: Partial<FlightEngineConfig> = {}, simulation: Partial<Simulation> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.simulation = simulation;
+  }
+
+  private get clock(): SimulationClock {
+    return this.simulation.clock ?? getSimulation().clock;
   }
 
   /**
@@ -61,51 +116,63 @@ export class FlightEngine {
   async initializeFlight(
     messageId: string,
     startLocation: LocationData,
-    endLocation: LocationData
+    endLocation: LocationData,
+    deliveryTier: DeliveryTier = DEFAULT_DELIVERY_TIER
   ): Promise<FlightRecord | null> {
     try {
-      // Calculate initial route
-      const route = flightRoutingService.calculateRoute(startLocation, endLocation);
+      // Calculate initial route, weighing terrain as the tier prefers
+      const route = flightRoutingService.calculateRoute(
+        startLocation,
+        endLocation,
+        DELIVERY_TIERS[deliveryTier].routeCostWeight
+      );
       if (!route) {
         console.error('Failed to calculate route for flight:', messageId);
         return null;
       }
 
-      // Get initial weather conditions
+      // Get initial weather conditions and the forecast along the way
       const initialWeather = await weatherService.fetchWeatherData(startLocation);
+      const startedAt = this.clock.now();
+      const plan = await this.planLegs(route, startedAt, initialWeather, deliveryTier);
 
       // Create flight record
       const flightRecord: FlightRecord = {
         id: `flight_${messageId}`,
         message_id: messageId,
         status: 'enroute',
-        route: route.waypoints,
+        route: plan.waypoints,
         total_distance: route.totalDistance,
-        estimated_duration: this.calculateEstimatedDuration(
-          route.totalDistance, 
-          initialWeather
-        ),
+        estimated_duration: plan.durationMs,
         progress_percentage: 0,
         current_position: startLocation,
-        speed_kmh: this.calculateCurrentSpeed(initialWeather),
+        speed_kmh: this.calculateCurrentSpeed(initialWeather, deliveryTier),
         weather_events: initialWeather ? [initialWeather] : [],
-        started_at: new Date(),
-        updated_at: new Date(),
-        estimated_arrival: new Date(
-          Date.now() + this.calculateEstimatedDuration(route.totalDistance, initialWeather)
-        )
+        delivery_tier: deliveryTier,
+        started_at: new Date(startedAt),
+        updated_at: new Date(startedAt),
+        estimated_arrival: new Date(startedAt + plan.durationMs)
       };
 
       // Create active flight tracking
       const activeFlight: ActiveFlight = {
         record: flightRecord,
-        route,
+        route: { ...route, waypoints: plan.waypoints },
         currentWeather: initialWeather,
-        lastWeatherCheck: Date.now(),
-        lastUpdate: Date.now()
+        legWeather: plan.legWeather,
+        currentLeg: 0,
+        lastWeatherCheck: startedAt,
+        lastUpdate: startedAt
       };
 
       this.activeFlights.set(messageId, activeFlight);
+      await this.checkpoint(flightRecord);
+      await this.logEvent(activeFlight, 'departed', {
+        weather: initialWeather,
+        route: plan.waypoints,
+        estimated_arrival: flightRecord.estimated_arrival.toISOString(),
+        delivery_tier: deliveryTier
+      });
 
       // Start flight monitoring
       this.startFlightMonitoring(messageId);
@@ -117,6 +184,70 @@ export class FlightEngine {
     }
   }
 
+  /**
+   * Plan a flight without launching it: route, the forecast each leg meets
+   * and an arrival window between calm air and the forecast holding.
+   * Nothing is tracked or persisted.
+   */
+  async previewFlight(
+    startLocation: LocationData,
+    endLocation: LocationData,
+    deliveryTier: DeliveryTier = DEFAULT_DELIVERY_TIER
+  ): Promise<FlightPreview | null> {
+    const route = flightRoutingService.calculateRoute(
+      startLocation,
+      endLocation,
+      DELIVERY_TIERS[deliveryTier].routeCostWeight
+    );
+    if (!route) return null;
+
+    const now = this.clock.now();
+    const departureWeather = await weatherService.fetchWeatherData(startLocation);
+    const plan = await this.planLegs(route, now, departureWeather, deliveryTier);
+
+    const calmSpeed = this.calculateCurrentSpeed(null, deliveryTier);
+    let minDuration = 0;
+    let maxDuration = 0;
+    this.calculateLegDistances(route).forEach((distance, index) => {
+      const speed = this.calculateCurrentSpeed(plan.legWeather[index], deliveryTier);
+      minDuration += (distance / Math.max(speed, calmSpeed)) * 60 * 60 * 1000;
+      maxDuration += (distance / Math.min(speed, calmSpeed)) * 60 * 60 * 1000;
+    });
+    const weather = plan.legWeather.filter((event): event is WeatherEvent => event !== null);
+
+    return {
+      route: { ...route, waypoints: plan.waypoints },
+      delivery_tier: deliveryTier,
+      terrain: this.calculateTerrainShares(route),
+      weather,
+      min_duration_ms: minDuration,
+      max_duration_ms: maxDuration,
+      earliest_arrival: new Date(now + minDuration),
+      latest_arrival: new Date(now + maxDuration)
+    };
+  }
+
+  /**
+   * Split a route's distance by the terrain each leg departs from
+   */
+  private calculateTerrainShares(route: PathResult): TerrainShare[] {
+    const distances = new Map<TerrainType, number>();
+    for (let i = 0; i < route.path.length - 1; i++) {
+      const from = route.path[i];
+      const legDistance = calculateDistance(from.location, route.path[i + 1].location);
+      distances.set(from.terrain, (distances.get(from.terrain) ?? 0) + legDistance);
+    }
+
+    const total = Array.from(distances.values()).reduce((sum, distance) => sum + distance, 0);
+    return Array.from(distances.entries())
+      .map(([terrain, distance]) => ({
+        terrain,
+        distance_km: distance,
+        percentage: total > 0 ? (distance / total) * 100 : 0
+      }))
+      .sort((a, b) => b.distance_km - a.distance_km);
+  }
+
   /**
    * Start monitoring an active flight
    */
@@ -128,12 +259,12 @@ export class FlightEngine {
     this.stopFlightMonitoring(messageId);
 
     // Start progress update timer
-    flight.updateTimer = setInterval(() => {
+    flight.updateTimer = this.clock.setInterval(() => {
       this.updateFlightProgress(messageId);
     }, this.config.updateIntervalMs);
 
     // Start weather monitoring timer
-    flight.weatherTimer = setInterval(() => {
+    flight.weatherTimer = this.clock.setInterval(() => {
       this.checkWeatherUpdates(messageId);
     }, this.config.weatherCheckIntervalMs);
   }
@@ -146,12 +277,12 @@ export class FlightEngine {
     if (!flight) return;
 
     if (flight.updateTimer) {
-      clearInterval(flight.updateTimer);
+      this.clock.clearInterval(flight.updateTimer);
       flight.updateTimer = undefined;
     }
 
     if (flight.weatherTimer) {
-      clearInterval(flight.weatherTimer);
+      this.clock.clearInterval(flight.weatherTimer);
       flight.weatherTimer = undefined;
     }
   }
@@ -164,11 +295,11 @@ export class FlightEngine {
     if (!flight || flight.record.status !== 'enroute') return;
 
     try {
-      const now = Date.now();
+      const now = this.clock.now();
       const timeSinceLastUpdate = now - flight.lastUpdate;
       
       // Calculate distance traveled since last update
-      const currentSpeed = this.calculateCurrentSpeed(flight.currentWeather);
+      const currentSpeed = this.calculateCurrentSpeed(flight.currentWeather, flight.record.delivery_tier);
       const distanceTraveled = (currentSpeed * timeSinceLastUpdate) / (1000 * 60 * 60); // Convert to km
 
       // Update current position along route
@@ -183,9 +314,26 @@ export class FlightEngine {
       flight.record.current_position = newPosition.position;
       flight.record.progress_percentage = Math.min(newPosition.progress, 100); // Ensure we don't exceed 100%
       flight.record.speed_kmh = currentSpeed;
-      flight.record.updated_at = new Date();
+      flight.record.updated_at = new Date(now);
       flight.lastUpdate = now;
 
+      // Entering a new leg brings the weather forecast for it
+      const leg = this.findLegIndex(flight.route.waypoints, flight.record.progress_percentage);
+      if (leg > flight.currentLeg) {
+        flight.currentLeg = leg;
+        const forecast = flight.legWeather[leg];
+        if (forecast && forecast !== flight.currentWeather) {
+          const previousWeather = flight.currentWeather;
+          flight.currentWeather = forecast;
+          flight.record.weather_events.push(forecast);
+          await this.logEvent(flight, 'weather_changed', {
+            weather: forecast,
+            previous_weather: previousWeather,
+            reason: 'Entered a new leg'
+          });
+        }
+      }
+
       // Log detailed progress
       console.log(`
 🦆 Flight ${messageId} Update:
@@ -213,23 +361,12 @@ export class FlightEngine {
         return;
       }
 
-      // Update estimated arrival based on current conditions
-      const remainingDistance = flight.record.total_distance * (1 - flight.record.progress_percentage / 100);
-      const remainingTime = (remainingDistance / currentSpeed) * 60 * 60 * 1000; // Convert to ms
+      // Update estimated arrival based on current conditions and the forecast ahead
+      const remainingTime = this.estimateRemainingDuration(flight, currentSpeed);
       flight.record.estimated_arrival = new Date(now + remainingTime);
+      await this.checkpoint(flight.record);
 
-      // Notify progress callback if registered
-      const callback = this.flightCallbacks.get(messageId);
-      if (callback) {
-        const progress: FlightProgress = {
-          message_id: messageId,
-          current_position: flight.record.current_position,
-          progress_percentage: flight.record.progress_percentage,
-          estimated_arrival: flight.record.estimated_arrival,
-          current_weather: flight.currentWeather || undefined
-        };
-        callback(progress);
-      }
+      this.notifyProgress(flight);
 
     } catch (error) {
       console.error('Error updating flight progress:', error);
@@ -367,19 +504,153 @@ export class FlightEngine {
     return totalDistance;
   }
 
+  /**
+   * Stamp each waypoint with its expected arrival time and sample the
+   * forecast each leg meets. The first leg flies in the weather observed at
+   * departure; legs without a forecast fall back to it as well.
+   */
+  private async planLegs(
+    route: PathResult,
+    departureMs: number,
+    departureWeather: WeatherEvent | null,
+    deliveryTier: DeliveryTier
+  ): Promise<LegPlan> {
+    const distances = this.calculateLegDistances(route);
+    let legWeather: Array<WeatherEvent | null> = distances.map(() => null);
+    let waypoints = route.waypoints;
+    let durationMs = 0;
+
+    for (let pass = 0; pass <= FORECAST_PASSES; pass++) {
+      if (pass > 0) {
+        const forecast = await weatherService.fetchWeatherAlongRoute(waypoints);
+        legWeather = distances.map((_, index) => forecast[index] ?? null);
+      }
+      if (departureWeather) {
+        legWeather[0] = departureWeather;
+      }
+
+      let elapsed = 0;
+      const legDurations = distances.map((distance, index) => {
+        const speed = this.calculateCurrentSpeed(legWeather[index] ?? departureWeather, deliveryTier);
+        return (distance / speed) * 60 * 60 * 1000;
+      });
+      waypoints = route.waypoints.map((waypoint, index) => {
+        if (index > 0) elapsed += legDurations[index - 1] ?? 0;
+        return { ...waypoint, timestamp: new Date(departureMs + elapsed) };
+      });
+      durationMs = legDurations.reduce((sum, duration) => sum + duration, 0);
+    }
+
+    return { waypoints, legWeather, durationMs };
+  }
+
+  /**
+   * Length of each leg between waypoints, scaled so the legs add up to the
+   * route's total distance
+   */
+  private calculateLegDistances(route: PathResult): number[] {
+    if (route.waypoints.length < 2) {
+      return [route.totalDistance];
+    }
+
+    const distances = route.waypoints.slice(0, -1).map((waypoint, index) =>
+      calculateDistance(this.toLocation(waypoint), this.toLocation(route.waypoints[index + 1]))
+    );
+    const sum = distances.reduce((total, distance) => total + distance, 0);
+    return sum > 0
+      ? distances.map(distance => (distance / sum) * route.totalDistance)
+      : distances.map(() => route.totalDistance / distances.length);
+  }
+
+  /**
+   * Index of the leg a flight is on at the given progress
+   */
+  private findLegIndex(waypoints: RouteWaypoint[], progressPercentage: number): number {
+    if (waypoints.length < 2) return 0;
+
+    const distances = waypoints.slice(0, -1).map((waypoint, index) =>
+      calculateDistance(this.toLocation(waypoint), this.toLocation(waypoints[index + 1]))
+    );
+    const along = (progressPercentage / 100) * distances.reduce((sum, distance) => sum + distance, 0);
+
+    let accumulated = 0;
+    for (let i = 0; i < distances.length; i++) {
+      accumulated += distances[i];
+      if (along < accumulated) return i;
+    }
+    return distances.length - 1;
+  }
+
+  /**
+   * Time left to fly: the rest of the current leg at the current speed,
+   * later legs at the speed their forecast allows
+   */
+  private estimateRemainingDuration(flight: ActiveFlight, currentSpeed: number): number {
+    const distances = this.calculateLegDistances(flight.route);
+    const total = distances.reduce((sum, distance) => sum + distance, 0);
+    const scale = total > 0 ? flight.record.total_distance / total : 0;
+    const along = (flight.record.progress_percentage / 100) * total;
+
+    let start = 0;
+    let remainingMs = 0;
+    distances.forEach((distance, index) => {
+      const end = start + distance;
+      const remaining = Math.max(0, end - Math.max(along, start)) * scale;
+      if (remaining > 0) {
+        const speed = index === flight.currentLeg
+          ? currentSpeed
+          : this.calculateCurrentSpeed(
+            flight.legWeather[index] ?? flight.currentWeather,
+            flight.record.delivery_tier
+          );
+        remainingMs += (remaining / speed) * 60 * 60 * 1000;
+      }
+      start = end;
+    });
+    return remainingMs;
+  }
+
+  /**
+   * Forecast each leg of an already-timed route meets
+   */
+  private async sampleLegWeather(waypoints: RouteWaypoint[]): Promise<Array<WeatherEvent | null>> {
+    try {
+      const forecast = await weatherService.fetchWeatherAlongRoute(waypoints);
+      return forecast.slice(0, Math.max(waypoints.length - 1, 1));
+    } catch (error) {
+      console.error('Error sampling forecast along route:', error);
+      return [];
+    }
+  }
+
+  private toLocation(waypoint: RouteWaypoint): LocationData {
+    return { latitude: waypoint.latitude, longitude: waypoint.longitude, is_anonymous: false };
+  }
+
   /**
    * Check for weather updates and adjust flight accordingly
    */
   private async checkWeatherUpdates(messageId: string): Promise<void> {
     const flight = this.activeFlights.get(messageId);
-    if (!flight || flight.record.status !== 'enroute') return;
+    if (!flight || (flight.record.status !== 'enroute' && flight.record.status !== 'holding')) return;
 
     try {
-      const now = Date.now();
+      const now = this.clock.now();
       
       // Get current weather at flight position
-      const newWeather = await weatherService.fetchWeatherData(flight.record.current_position);
-      
+      let newWeather: WeatherEvent | null = null;
+      try {
+        newWeather = await weatherService.fetchWeatherData(flight.record.current_position);
+      } catch (error) {
+        console.error(`Error fetching weather for flight ${messageId}:`, error);
+      }
+
+      // Holds run out on time even while weather reports are unavailable
+      if (flight.record.status === 'holding') {
+        await this.updateHold(flight, newWeather);
+        return;
+      }
+
       if (newWeather) {
         // Check if weather has changed significantly
         const hasSignificantChange = !flight.currentWeather || 
@@ -387,17 +658,25 @@ export class FlightEngine {
 
         if (hasSignificantChange) {
           // Update weather
+          const previousWeather = flight.currentWeather;
           flight.currentWeather = newWeather;
           flight.record.weather_events.push(newWeather);
           flight.lastWeatherCheck = now;
+          await this.logEvent(flight, 'weather_changed', {
+            weather: newWeather,
+            previous_weather: previousWeather,
+            reason: 'Conditions changed en route'
+          });
 
-          // Check if route recalculation is needed
+          // Severe weather puts the duck in a holding pattern until it eases
           if (weatherService.shouldRecalculateRoute(newWeather)) {
-            await this.recalculateRoute(messageId);
+            await this.holdFlight(flight, 'Severe weather ahead');
+            return;
           }
 
           // Update speed based on new weather
-          flight.record.speed_kmh = this.calculateCurrentSpeed(newWeather);
+          flight.record.speed_kmh = this.calculateCurrentSpeed(newWeather, flight.record.delivery_tier);
+          await this.checkpoint(flight.record);
         }
       }
     } catch (error) {
@@ -406,11 +685,12 @@ export class FlightEngine {
   }
 
   /**
-   * Recalculate route due to weather conditions
+   * Recalculate route due to weather conditions. Resolves false when there
+   * is no way around the weather.
    */
-  private async recalculateRoute(messageId: string): Promise<void> {
+  private async recalculateRoute(messageId: string): Promise<boolean> {
     const flight = this.activeFlights.get(messageId);
-    if (!flight) return;
+    if (!flight) return false;
 
     try {
       // Get destination from original route
@@ -421,30 +701,56 @@ export class FlightEngine {
         is_anonymous: false
       };
 
-      // Calculate new route from current position
+      // Calculate new route from current position, steering around the storm
       const newRoute = flightRoutingService.recalculateRoute(
         flight.record.current_position,
-        destinationLocation
+        destinationLocation,
+        undefined,
+        DELIVERY_TIERS[flight.record.delivery_tier].routeCostWeight,
+        weatherCellsFromEvents([flight.currentWeather])
       );
 
       if (newRoute) {
-        // Update flight with new route
-        const remainingDistance = newRoute.totalDistance;
-        const totalOriginalDistance = flight.record.total_distance;
-        const completedDistance = totalOriginalDistance - remainingDistance;
-        
-        flight.route = newRoute;
-        flight.record.route = newRoute.waypoints;
-        flight.record.progress_percentage = (completedDistance / totalOriginalDistance) * 100;
+        const previousRoute = flight.record.route;
+        const previousArrival = flight.record.estimated_arrival;
+
+        // The journey is now what has been flown plus the detour from here
+        const completedDistance = (flight.record.progress_percentage / 100) * flight.record.total_distance;
+        const totalDistance = completedDistance + newRoute.totalDistance;
+
+        const now = this.clock.now();
+        const plan = await this.planLegs(newRoute, now, flight.currentWeather, flight.record.delivery_tier);
+
+        // Keep the legs already flown so progress still measures the whole journey
+        const flownWaypoints = previousRoute.slice(0, flight.currentLeg + 1);
+        const waypoints = [...flownWaypoints, ...plan.waypoints];
+
+        flight.route = { ...newRoute, totalDistance, waypoints };
+        flight.record.route = waypoints;
+        flight.record.total_distance = totalDistance;
+        flight.record.progress_percentage = totalDistance > 0 ? (completedDistance / totalDistance) * 100 : 0;
+        flight.legWeather = [...flight.legWeather.slice(0, flownWaypoints.length), ...plan.legWeather];
+        flight.currentLeg = flownWaypoints.length;
         
-        // Recalculate estimated arrival
-        const remainingTime = this.calculateEstimatedDuration(remainingDistance, flight.currentWeather);
-        flight.record.estimated_arrival = new Date(Date.now() + remainingTime);
+        // Recalculate estimated arrival against the forecast along the new route
+        flight.record.estimated_arrival = new Date(now + plan.durationMs);
         
         console.log(`Route recalculated for flight ${messageId} due to weather conditions`);
+        await this.logEvent(flight, 'rerouted', {
+          weather: flight.currentWeather,
+          previous_route: previousRoute,
+          route: plan.waypoints,
+          previous_estimated_arrival: previousArrival.toISOString(),
+          estimated_arrival: flight.record.estimated_arrival.toISOString(),
+          reason: 'Severe weather did not ease'
+        });
+        this.notifyProgress(flight);
+        return true;
       }
+      return false;
     } catch (error) {
       console.error('Error recalculating route:', error);
+      return false;
     }
   }
 
@@ -459,18 +765,26 @@ export class FlightEngine {
       // Update flight status
       flight.record.status = 'delivered';
       flight.record.progress_percentage = 100;
-      flight.record.updated_at = new Date();
+      flight.record.updated_at = new Date(this.clock.now());
 
       // Stop monitoring
       this.stopFlightMonitoring(messageId);
 
+      // Persist completion before delivery so a failed delivery can be recovered
+      await this.checkpoint(flight.record);
+      await this.logEvent(flight, 'delivered', {
+        weather: flight.currentWeather,
+        duration_ms: flight.record.updated_at.getTime() - flight.record.started_at.getTime()
+      });
+
       // Create final progress object
       const finalProgress: FlightProgress = {
         message_id: messageId,
         current_position: flight.record.current_position,
         progress_percentage: 100,
         estimated_arrival: flight.record.updated_at,
-        current_weather: flight.currentWeather || undefined
+        current_weather: flight.currentWeather || undefined,
+        status: 'delivered'
       };
 
       // Notify completion callback
@@ -505,43 +819,85 @@ export class FlightEngine {
   }
 
   /**
-   * Calculate current flight speed based on weather and terrain
+   * Calculate current flight speed based on delivery tier, weather and terrain
    */
-  private calculateCurrentSpeed(weather: WeatherEvent | null): number {
+  private calculateCurrentSpeed(
+    weather: WeatherEvent | null,
+    deliveryTier: DeliveryTier = DEFAULT_DELIVERY_TIER
+  ): number {
+    const tier = DELIVERY_TIERS[deliveryTier];
+    const tierWeather = weather && {
+      ...weather,
+      speed_modifier: getTierWeatherModifier(weather, deliveryTier)
+    };
+
     return weatherService.calculateFlightSpeed(
-      this.config.baseSpeedKmh,
-      weather,
+      this.config.baseSpeedKmh * tier.speedMultiplier,
+      tierWeather,
       1.0 // Terrain modifier would come from routing service
     );
   }
 
-  /**
-   * Calculate estimated flight duration
-   */
-  private calculateEstimatedDuration(
-    distanceKm: number, 
-    weather: WeatherEvent | null
-  ): number {
-    const speed = this.calculateCurrentSpeed(weather);
-    return (distanceKm / speed) * 60 * 60 * 1000; // Convert to milliseconds
-  }
-
   /**
    * Get current flight progress
    */
   getFlightProgress(messageId: string): FlightProgress | null {
     const flight = this.activeFlights.get(messageId);
-    if (!flight) return null;
+    return flight ? this.toProgress(flight) : null;
+  }
 
+  /**
+   * Progress as pushed to subscribers, with the hold deadline while holding
+   */
+  private toProgress(flight: ActiveFlight, failureReason?: string): FlightProgress {
     return {
-      message_id: messageId,
+      message_id: flight.record.message_id,
       current_position: flight.record.current_position,
       progress_percentage: flight.record.progress_percentage,
       estimated_arrival: flight.record.estimated_arrival,
-      current_weather: flight.currentWeather || undefined
+      current_weather: flight.currentWeather || undefined,
+      status: flight.record.status,
+      hold_expires_at: flight.record.status === 'holding' ? new Date(this.holdExpiresAt(flight)) : undefined,
+      failure_reason: failureReason
     };
   }
 
+  /**
+   * Push the flight's latest state to its progress callback, if any
+   */
+  private notifyProgress(flight: ActiveFlight, failureReason?: string): void {
+    const callback = this.flightCallbacks.get(flight.record.message_id);
+    if (callback) {
+      callback(this.toProgress(flight, failureReason));
+    }
+  }
+
+  /**
+   * Get flight progress, falling back to the persisted checkpoint for
+   * flights that are no longer tracked in memory (completed or pre-restart)
+   */
+  async loadFlightProgress(messageId: string): Promise<FlightProgress | null> {
+    const activeProgress = this.getFlightProgress(messageId);
+    if (activeProgress) return activeProgress;
+
+    try {
+      const record = await getRepository().flights.findByMessageId(messageId);
+      if (!record) return null;
+
+      return {
+        message_id: messageId,
+        current_position: record.current_position,
+        progress_percentage: record.progress_percentage,
+        estimated_arrival: record.estimated_arrival,
+        current_weather: record.weather_events[record.weather_events.length - 1],
+        status: record.status
+      };
+    } catch (error) {
+      console.error(`Error loading flight progress for ${messageId}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Get flight record
    */
@@ -565,17 +921,21 @@ export class FlightEngine {
   }
 
   /**
-   * Cancel an active flight
+   * Cancel an active flight. Resolves once the cancellation is saved.
    */
-  cancelFlight(messageId: string): boolean {
+  async cancelFlight(messageId: string): Promise<boolean> {
     const flight = this.activeFlights.get(messageId);
     if (!flight) return false;
 
     flight.record.status = 'failed';
+    flight.record.updated_at = new Date(this.clock.now());
     this.stopFlightMonitoring(messageId);
     this.activeFlights.delete(messageId);
     this.flightCallbacks.delete(messageId);
 
+    await this.checkpoint(flight.record);
+    await this.logEvent(flight, 'failed', { reason: 'Cancelled' });
+
     return true;
   }
 
@@ -628,6 +988,201 @@ export class FlightEngine {
     return points;
   }
 
+  /**
+   * Rehydrate enroute and holding flights from storage after a restart.
+   * Each flight is fast-forwarded by the clock time since its last
+   * checkpoint, so flights that landed while the server was down complete
+   * immediately. Returns the number of flights restored.
+   */
+  async restoreFlights(): Promise<number> {
+    let records: FlightRecord[];
+    try {
+      records = await getRepository().flights.listByStatus(['enroute', 'holding']);
+    } catch (error) {
+      console.error('Error loading persisted flights:', error);
+      return 0;
+    }
+
+    let restored = 0;
+    for (const record of records) {
+      const messageId = record.message_id;
+      if (this.activeFlights.has(messageId)) continue;
+
+      const lastCheckpoint = record.updated_at.getTime();
+      this.activeFlights.set(messageId, {
+        record,
+        route: {
+          path: [],
+          totalDistance: record.total_distance,
+          totalCost: record.total_distance,
+          waypoints: record.route
+        },
+        currentWeather: record.weather_events[record.weather_events.length - 1] ?? null,
+        legWeather: await this.sampleLegWeather(record.route),
+        currentLeg: this.findLegIndex(record.route, record.progress_percentage),
+        lastWeatherCheck: lastCheckpoint,
+        lastUpdate: lastCheckpoint,
+        // Held flights don't checkpoint until they resume, so this is when they stopped
+        heldSince: record.status === 'holding' ? lastCheckpoint : undefined
+      });
+      restored++;
+
+      // Catch up on the distance flown while we were down
+      await this.updateFlightProgress(messageId);
+
+      if (this.activeFlights.has(messageId)) {
+        this.startFlightMonitoring(messageId);
+      }
+    }
+
+    if (restored > 0) {
+      console.log(`Restored ${restored} persisted flight(s)`);
+    }
+    return restored;
+  }
+
+  /**
+   * Stop a flight where it is until the weather eases
+   */
+  private async holdFlight(flight: ActiveFlight, reason: string): Promise<void> {
+    const now = this.clock.now();
+    flight.record.status = 'holding';
+    flight.record.updated_at = new Date(now);
+    flight.heldSince = now;
+    await this.checkpoint(flight.record);
+    await this.logEvent(flight, 'held', {
+      weather: flight.currentWeather,
+      hold_expires_at: new Date(this.holdExpiresAt(flight)).toISOString(),
+      reason
+    });
+    this.notifyProgress(flight);
+  }
+
+  /**
+   * When a holding flight stops waiting for the weather to ease
+   */
+  private holdExpiresAt(flight: ActiveFlight): number {
+    return (flight.heldSince ?? flight.record.updated_at.getTime()) + this.config.maxHoldMs;
+  }
+
+  /**
+   * Decide what a holding flight does next. It carries on once the weather
+   * eases; otherwise it circles until the hold runs out, then looks for a
+   * way around before the honk is returned to its sender. `weather` is null
+   * when no report could be fetched.
+   */
+  private async updateHold(flight: ActiveFlight, weather: WeatherEvent | null): Promise<void> {
+    if (weather && !weatherService.shouldRecalculateRoute(weather)) {
+      await this.resumeFlight(flight, weather);
+      return;
+    }
+    if (this.clock.now() < this.holdExpiresAt(flight)) return;
+
+    if (weather) {
+      flight.currentWeather = weather;
+    }
+    if (await this.recalculateRoute(flight.record.message_id)) {
+      await this.resumeFlight(flight, flight.currentWeather);
+    } else {
+      await this.failFlight(flight, 'Held too long in severe weather');
+    }
+  }
+
+  /**
+   * Send a held flight on its way again. No distance is flown for the time spent holding.
+   */
+  private async resumeFlight(flight: ActiveFlight, weather: WeatherEvent | null): Promise<void> {
+    const now = this.clock.now();
+    const heldMs = now - (flight.heldSince ?? flight.record.updated_at.getTime());
+
+    flight.record.status = 'enroute';
+    flight.currentWeather = weather;
+    if (weather) {
+      flight.record.weather_events.push(weather);
+    }
+    flight.heldSince = undefined;
+    flight.lastUpdate = now;
+    flight.lastWeatherCheck = now;
+    flight.record.speed_kmh = this.calculateCurrentSpeed(weather, flight.record.delivery_tier);
+    flight.record.estimated_arrival = new Date(now + this.estimateRemainingDuration(flight, flight.record.speed_kmh));
+    flight.record.updated_at = new Date(now);
+
+    await this.checkpoint(flight.record);
+    await this.logEvent(flight, 'resumed', {
+      weather,
+      held_ms: heldMs,
+      estimated_arrival: flight.record.estimated_arrival.toISOString()
+    });
+    this.notifyProgress(flight);
+  }
+
+  /**
+   * Give up on a flight and return its honk to the sender
+   */
+  private async failFlight(flight: ActiveFlight, reason: string): Promise<void> {
+    const messageId = flight.record.message_id;
+    const now = this.clock.now();
+    const heldMs = flight.heldSince !== undefined ? now - flight.heldSince : undefined;
+
+    flight.record.status = 'failed';
+    flight.record.updated_at = new Date(now);
+    this.stopFlightMonitoring(messageId);
+
+    await this.checkpoint(flight.record);
+    await this.logEvent(flight, 'failed', { weather: flight.currentWeather, held_ms: heldMs, reason });
+    this.notifyProgress(flight, reason);
+
+    this.activeFlights.delete(messageId);
+    this.flightCallbacks.delete(messageId);
+
+    await this.triggerReturnToSender(messageId, reason);
+    console.log(`Flight ${messageId} failed: ${reason}`);
+  }
+
+  /**
+   * Send a failed flight's honk back to its sender
+   */
+  private async triggerReturnToSender(messageId: string, reason: string): Promise<void> {
+    try {
+      const { messageDeliveryService } = await import('./messageDelivery');
+      await messageDeliveryService.returnToSender(messageId, reason);
+    } catch (error) {
+      console.error(`Error returning message ${messageId} to sender:`, error);
+    }
+  }
+
+  /**
+   * Append to the flight's event log. Like checkpoints, a failed write is
+   * reported and the flight carries on.
+   */
+  private async logEvent(flight: ActiveFlight, type: FlightEventType, details: FlightEventDetails = {}): Promise<void> {
+    try {
+      await getRepository().flightEvents.append({
+        id: uuidv4(),
+        flight_id: flight.record.id,
+        message_id: flight.record.message_id,
+        type,
+        occurred_at: new Date(this.clock.now()),
+        position: flight.record.current_position,
+        progress_percentage: flight.record.progress_percentage,
+        details
+      });
+    } catch (error) {
+      console.error(`Error logging ${type} event for flight ${flight.record.message_id}:`, error);
+    }
+  }
+
+  /**
+   * Persist the current flight state so it survives restarts
+   */
+  private async checkpoint(record: FlightRecord): Promise<void> {
+    try {
+      await getRepository().flights.save(record);
+    } catch (error) {
+      console.error(`Error checkpointing flight ${record.message_id}:`, error);
+    }
+  }
+
   /**
    * Cleanup method to stop all active flights
    */
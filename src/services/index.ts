@@ -2,11 +2,26 @@
 export * from './auth';
 export * from './geolocation';
 export * from './userMatching';
+export * from './terrainLookup';
 export * from './routing';
+export * from './weatherProviders';
 export * from './weather';
 export * from './flightEngine';
+export * from './deliveryTiers';
 export * from './websocket';
 export * from './notifications';
 export * from './messageDelivery';
+export * from './messageScheduler';
+export * from './stickers';
+export * from './drafts';
+export * from './scrapbook';
+export * from './devices';
+export * from './sessions';
+export * from './recovery';
+export * from './rateLimit';
+export * from './postcardRenderer';
+export * from './postcardTemplates';
 export * from './tailwindAlgorithm';
-export * from './ranking';
\ No newline at end of file
+export * from './ranking';
+export * from './achievements';
+export * from './journeyReplay';
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { getRepository } from '@/lib/repository';
+import { buildReplayTimeline } from '@/utils/journeyReplay';
+import { HonkMessage, JourneyReplayData, ReplayPointsItem, RouteWaypoint, User } from '@/types';
+import { RankingService } from './ranking';
+
+/**
+ * Rejected replay request, carrying the HTTP status routes should return
+ */
+export class JourneyReplayError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'JourneyReplayError';
+  }
+}
+
+/**
+ * Replays of delivered flights from their stored route and weather, with
+ * the points breakdown tied to the moments on the timeline that earned it
+ */
+export class JourneyReplayService {
+  /**
+   * Build the replay of a delivered honk for its sender or recipient
+   */
+  async getReplay(messageId: string, userId: string): Promise<JourneyReplayData> {
+    const repository = getRepository();
+    const message = await repository.messages.findForParticipant(messageId, userId);
+    if (!message) {
+      throw new JourneyReplayError('Message not found', 404);
+    }
+    if (message.status !== 'delivered' || !message.journey_data || !message.recipient_location) {
+      throw new JourneyReplayError('Only delivered honks have a journey to replay', 409);
+    }
+
+    const sender = await repository.users.findById(message.sender_id);
+    if (!sender) {
+      throw new JourneyReplayError('Message not found', 404);
+    }
+
+    const journey = message.journey_data;
+    const route = this.replayRoute(message);
+    const timeline = buildReplayTimeline(route, journey.weather_events, journey.estimated_duration);
+    const points = RankingService.calculateJourneyPoints(
+      journey,
+      message.sender_location,
+      message.recipient_location,
+      await this.senderBeforeDelivery(sender, message)
+    );
+
+    const weatherMarkers = timeline.markers
+      .filter(marker => marker.weather && RankingService.isAdverseWeather(marker.weather))
+      .map(marker => marker.id);
+    // calculateJourneyPoints only writes a breakdown line for the parts it awarded, in this order
+    const parts: Array<{ points: number; marker_ids: string[] }> = [
+      { points: points.base_points, marker_ids: ['departure', 'arrival'] },
+      { points: points.weather_bonus, marker_ids: weatherMarkers },
+      { points: points.distance_bonus, marker_ids: ['departure', 'arrival'] },
+      { points: points.location_bonus, marker_ids: ['arrival'] }
+    ].filter((part, index) => index === 0 || part.points > 0);
+    const breakdown: ReplayPointsItem[] = parts.map((part, index) => ({ label: points.breakdown[index], ...part }));
+
+    return {
+      message_id: message.id,
+      origin: message.sender_location,
+      destination: message.recipient_location,
+      route,
+      timeline,
+      points: { total: points.total_points, breakdown }
+    };
+  }
+
+  /**
+   * The stored route, or a straight line from sender to recipient for
+   * journeys recorded without waypoints
+   */
+  private replayRoute(message: HonkMessage): RouteWaypoint[] {
+    const route = message.journey_data!.route;
+    if (route.length >= 2) return route;
+
+    const departed = message.created_at;
+    const delivered = message.delivered_at ?? new Date(departed.getTime() + message.journey_data!.estimated_duration);
+    return [
+      { latitude: message.sender_location.latitude, longitude: message.sender_location.longitude, altitude: 0, timestamp: departed },
+      { latitude: message.recipient_location!.latitude, longitude: message.recipient_location!.longitude, altitude: 0, timestamp: delivered }
+    ];
+  }
+
+  /**
+   * The sender as they were when this honk landed, so the new location bonus
+   * counts places this delivery reached first
+   */
+  private async senderBeforeDelivery(sender: User, message: HonkMessage): Promise<User> {
+    const deliveredAt = message.delivered_at?.getTime() ?? Infinity;
+    const earlier = (await getRepository().messages.listDeliveredBySender(sender.id))
+      .filter(other => other.id !== message.id && (other.delivered_at?.getTime() ?? 0) < deliveredAt);
+    const earlierCountries = new Set(earlier.map(other => other.recipient_location?.country));
+    const earlierStates = new Set(earlier.map(other => other.recipient_location?.state));
+    const { country, state } = message.recipient_location!;
+
+    return {
+      ...sender,
+      countries_visited: sender.countries_visited.filter(visited => visited !== country || earlierCountries.has(visited)),
+      states_visited: sender.states_visited.filter(visited => visited !== state || earlierStates.has(visited))
+    };
+  }
+}
+
+/**
+ * Singleton instance of the journey replay service
+ */
+export const journeyReplayService = new JourneyReplayService();
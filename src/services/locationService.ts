@@ -86,7 +86,9 @@ export class LocationService {
         },
         body: JSON.stringify({
           userId,
-          location
+          location,
+          // Lets scheduled honks land at the right local time
+          time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone
         }),
       });
 
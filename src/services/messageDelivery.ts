@@ -1,9 +1,11 @@
 import { HonkMessage, FlightProgress, NotificationRecord, User } from '@/types';
-import { dbManager } from '@/lib/database';
+import { getRepository } from '@/lib/repository';
+import { getSimulation, Simulation, SimulationClock, TimerHandle } from '@/lib/simulation-clock';
 import { notificationService } from './notifications';
 import { flightEngine } from './flightEngine';
 import { webSocketService } from './websocket';
 import { RankingService } from './ranking';
+import { achievementService } from './achievements';
 
 /**
  * Configuration for message delivery service
@@ -42,13 +44,19 @@ interface DeliveryAttempt {
 export class MessageDeliveryService {
   private config: DeliveryConfig;
   private pendingDeliveries: Map<string, DeliveryAttempt> = new Map();
-  private retryTimers: Map<string, NodeJS.Timeout> = new Map();
+  private retryTimers: Map<string, TimerHandle> = new Map();
+  private simulation: Partial<Simulation>;
 
-  constructor(config: Partial<DeliveryConfig> = {}) {
+  constructor(config: Partial<DeliveryConfig> = {}, simulation: Partial<Simulation> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.simulation = simulation;
     this.setupFlightCompletionHandler();
   }
 
+  private get clock(): SimulationClock {
+    return this.simulation.clock ?? getSimulation().clock;
+  }
+
   /**
    * Set up handler for flight completion events
    */
@@ -77,84 +85,95 @@ export class MessageDeliveryService {
     }
   }
 
+  /**
+   * Return a honk to its sender after its flight failed
+   */
+  async returnToSender(messageId: string, reason: string): Promise<boolean> {
+    const repository = getRepository();
+
+    try {
+      this.cancelDeliveryRetries(messageId);
+
+      const returned = await repository.messages.markReturned(messageId);
+      if (!returned) {
+        console.log(`Message ${messageId} was not in flight, nothing to return`);
+        return false;
+      }
+
+      const message = await repository.messages.findById(messageId);
+      if (message) {
+        notificationService.createFlightReturnedNotification(message.sender_id, messageId, message.title, reason);
+      }
+
+      console.log(`Message ${messageId} returned to sender: ${reason}`);
+      return true;
+    } catch (error) {
+      console.error(`Error returning message ${messageId} to sender:`, error);
+      return false;
+    }
+  }
+
   /**
    * Deliver a message to the recipient
    */
   async deliverMessage(messageId: string, flightProgress: FlightProgress): Promise<boolean> {
-    const db = dbManager.getDatabase();
-    
-    try {
-      // Start transaction for atomic delivery
-      return db.transaction(() => {
-        // Get message details
-        const messageRow = db.prepare(`
-          SELECT * FROM messages WHERE id = ?
-        `).get(messageId);
-
-        if (!messageRow) {
-          throw new Error(`Message ${messageId} not found`);
-        }
+    const repository = getRepository();
 
-        const message = dbManager.rowToMessage(messageRow);
+    try {
+      // Get message details
+      const message = await repository.messages.findById(messageId);
 
-        // Check if message is already delivered
-        if (message.status === 'delivered') {
-          console.log(`Message ${messageId} already delivered`);
-          return true;
-        }
+      if (!message) {
+        throw new Error(`Message ${messageId} not found`);
+      }
 
-        // Update message status to delivered with timestamp
-        const deliveredAt = new Date();
-        const updateResult = db.prepare(`
-          UPDATE messages 
-          SET status = 'delivered', delivered_at = ?
-          WHERE id = ? AND status = 'flying'
-        `).run(deliveredAt.toISOString(), messageId);
+      // Check if message is already delivered
+      if (message.status === 'delivered') {
+        console.log(`Message ${messageId} already delivered`);
+        return true;
+      }
 
-        if (updateResult.changes === 0) {
-          throw new Error(`Failed to update message status for ${messageId}`);
-        }
+      // Update message status to delivered with timestamp; only a flying
+      // message can be flipped, so concurrent deliveries cannot both win
+      const delivered = await repository.messages.markDelivered(messageId, new Date(this.clock.now()));
 
-        // Get recipient information for notifications
-        if (message.recipient_id) {
-          const recipientRow = db.prepare(`
-            SELECT * FROM users WHERE id = ?
-          `).get(message.recipient_id);
+      if (!delivered) {
+        throw new Error(`Failed to update message status for ${messageId}`);
+      }
 
-          if (recipientRow) {
-            const recipient = dbManager.rowToUser(recipientRow);
-            
-            // Get sender information for notification
-            const senderRow = db.prepare(`
-              SELECT * FROM users WHERE id = ?
-            `).get(message.sender_id);
+      // Get recipient information for notifications
+      if (message.recipient_id) {
+        const recipient = await repository.users.findById(message.recipient_id);
 
-            const sender = senderRow ? dbManager.rowToUser(senderRow) : null;
+        if (recipient) {
+          // Get sender information for notification
+          const sender = await repository.users.findById(message.sender_id);
 
-            // Create delivery notification for recipient
-            this.createDeliveryNotification(recipient, message, sender);
+          // Create delivery notification for recipient
+          this.createDeliveryNotification(recipient, message, sender);
 
-            // Create delivery confirmation notification for sender
-            this.createDeliveryConfirmationNotification(message.sender_id, flightProgress);
+          // Create delivery confirmation notification for sender
+          this.createDeliveryConfirmationNotification(message.sender_id, flightProgress);
 
-            // Update recipient's flight statistics
-            this.updateRecipientStatistics(recipient, message);
+          // Update recipient's flight statistics
+          await this.updateRecipientStatistics(recipient, message);
 
-            // Send real-time notification via WebSocket
-            this.sendRealTimeNotification(recipient.id, message, flightProgress);
-          }
+          // Send real-time notification via WebSocket
+          this.sendRealTimeNotification(recipient.id, message, flightProgress);
         }
+      }
 
-        // Update journey data with final delivery information
-        this.updateJourneyData(messageId, flightProgress);
+      // Update journey data with final delivery information
+      await this.updateJourneyData(messageId, flightProgress);
 
-        // Award journey points to sender for completed delivery
-        this.awardJourneyPoints(messageId);
+      // Award journey points to sender for completed delivery
+      this.awardJourneyPoints(messageId);
 
-        console.log(`Message ${messageId} delivered successfully`);
-        return true;
-      })();
+      // Check the sender's delivery-driven achievements
+      await this.evaluateAchievements(message.sender_id);
 
+      console.log(`Message ${messageId} delivered successfully`);
+      return true;
     } catch (error) {
       console.error(`Error delivering message ${messageId}:`, error);
       return false;
@@ -191,21 +210,14 @@ export class MessageDeliveryService {
   /**
    * Update recipient's flight statistics
    */
-  private updateRecipientStatistics(recipient: User, message: HonkMessage): void {
-    const db = dbManager.getDatabase();
-    
+  private async updateRecipientStatistics(recipient: User, message: HonkMessage): Promise<void> {
     try {
       // Update total flights received
-      db.prepare(`
-        UPDATE users 
-        SET total_flights_received = total_flights_received + 1,
-            last_active = ?
-        WHERE id = ?
-      `).run(new Date().toISOString(), recipient.id);
+      await getRepository().users.incrementStats(recipient.id, { total_flights_received: 1 });
 
       // Update location statistics if journey data is available
       if (message.journey_data && message.sender_location) {
-        this.updateLocationStatistics(recipient.id, message.sender_location);
+        await this.updateLocationStatistics(recipient.id, message.sender_location);
       }
 
     } catch (error) {
@@ -216,14 +228,12 @@ export class MessageDeliveryService {
   /**
    * Update location statistics for user
    */
-  private updateLocationStatistics(userId: string, senderLocation: any): void {
-    const db = dbManager.getDatabase();
+  private async updateLocationStatistics(userId: string, senderLocation: any): Promise<void> {
+    const repository = getRepository();
     
     try {
-      const userRow = db.prepare('SELECT * FROM users WHERE id = ?').get(userId);
-      if (!userRow) return;
-
-      const user = dbManager.rowToUser(userRow);
+      const user = await repository.users.findById(userId);
+      if (!user) return;
       
       // Add new countries/states visited based on sender location
       const updatedCountries = [...user.countries_visited];
@@ -238,15 +248,10 @@ export class MessageDeliveryService {
       }
 
       // Update user statistics
-      db.prepare(`
-        UPDATE users 
-        SET countries_visited = ?, states_visited = ?
-        WHERE id = ?
-      `).run(
-        JSON.stringify(updatedCountries),
-        JSON.stringify(updatedStates),
-        userId
-      );
+      await repository.users.update(userId, {
+        countries_visited: updatedCountries,
+        states_visited: updatedStates
+      });
 
       // Award bonus points for new locations (Requirement 6.4)
       const newLocations = (updatedCountries.length - user.countries_visited.length) + 
@@ -254,11 +259,7 @@ export class MessageDeliveryService {
       
       if (newLocations > 0) {
         const bonusPoints = newLocations * 500; // 500 points per new location
-        db.prepare(`
-          UPDATE users 
-          SET total_journey_points = total_journey_points + ?
-          WHERE id = ?
-        `).run(bonusPoints, userId);
+        await repository.users.incrementStats(userId, { total_journey_points: bonusPoints });
 
         // Create reward notification
         notificationService.createRewardUnlockedNotification(
@@ -288,7 +289,7 @@ export class MessageDeliveryService {
           messageId: message.id,
           title: message.title,
           senderId: message.sender_id,
-          deliveredAt: new Date().toISOString(),
+          deliveredAt: new Date(this.clock.now()).toISOString(),
           flightProgress
         }
       });
@@ -336,39 +337,46 @@ export class MessageDeliveryService {
     }
   }
 
+  /**
+   * Unlock achievements earned by a delivery
+   */
+  private async evaluateAchievements(senderId: string): Promise<void> {
+    try {
+      await achievementService.evaluate(senderId, 'message.delivered');
+    } catch (error) {
+      console.error(`Error evaluating achievements for ${senderId}:`, error);
+    }
+  }
+
   /**
    * Get sender ID for a message
    */
   private async getSenderId(messageId: string): Promise<string> {
-    const db = dbManager.getDatabase();
-    const messageRow = db.prepare('SELECT sender_id FROM messages WHERE id = ?').get(messageId);
-    return messageRow?.sender_id || '';
+    const message = await getRepository().messages.findById(messageId);
+    return message?.sender_id || '';
   }
 
   /**
    * Update journey data with final delivery information
    */
-  private updateJourneyData(messageId: string, flightProgress: FlightProgress): void {
-    const db = dbManager.getDatabase();
+  private async updateJourneyData(messageId: string, flightProgress: FlightProgress): Promise<void> {
+    const repository = getRepository();
     
     try {
       // Get current journey data
-      const messageRow = db.prepare('SELECT journey_data FROM messages WHERE id = ?').get(messageId);
-      if (!messageRow || !messageRow.journey_data) return;
+      const message = await repository.messages.findById(messageId);
+      if (!message || !message.journey_data) return;
 
-      const journeyData = JSON.parse(messageRow.journey_data);
-      
       // Update with final delivery information
-      journeyData.current_progress = 100;
-      journeyData.delivered_at = new Date().toISOString();
-      journeyData.final_position = flightProgress.current_position;
+      const journeyData = {
+        ...message.journey_data,
+        current_progress: 100,
+        delivered_at: new Date(this.clock.now()).toISOString(),
+        final_position: flightProgress.current_position
+      };
 
       // Update in database
-      db.prepare(`
-        UPDATE messages 
-        SET journey_data = ?
-        WHERE id = ?
-      `).run(JSON.stringify(journeyData), messageId);
+      await repository.messages.updateJourneyData(messageId, journeyData);
 
     } catch (error) {
       console.error(`Error updating journey data for ${messageId}:`, error);
@@ -391,12 +399,13 @@ export class MessageDeliveryService {
     // Calculate retry delay with exponential backoff
     const baseDelay = this.config.retryDelayMs * Math.pow(this.config.retryBackoffMultiplier, attemptCount - 1);
     const retryDelay = Math.min(baseDelay, this.config.maxRetryDelayMs);
-    const nextRetry = new Date(Date.now() + retryDelay);
+    const now = this.clock.now();
+    const nextRetry = new Date(now + retryDelay);
 
     const deliveryAttempt: DeliveryAttempt = {
       messageId,
       attemptCount,
-      lastAttempt: new Date(),
+      lastAttempt: new Date(now),
       nextRetry,
       error: existing?.error
     };
@@ -405,16 +414,14 @@ export class MessageDeliveryService {
 
     // Clear existing timer
     const existingTimer = this.retryTimers.get(messageId);
-    if (existingTimer) {
-      clearTimeout(existingTimer);
-    }
+    this.clock.clearTimeout(existingTimer);
 
     // Schedule retry
-    const timer = setTimeout(async () => {
+    const timer = this.clock.setTimeout(async () => {
       console.log(`Retrying delivery for message ${messageId} (attempt ${attemptCount})`);
       
       // Get current flight progress
-      const flightProgress = flightEngine.getFlightProgress(messageId);
+      const flightProgress = await flightEngine.loadFlightProgress(messageId);
       if (flightProgress && flightProgress.progress_percentage >= 100) {
         const success = await this.deliverMessage(messageId, flightProgress);
         
@@ -439,21 +446,15 @@ export class MessageDeliveryService {
    * Mark delivery as permanently failed
    */
   private async markDeliveryFailed(messageId: string): Promise<void> {
-    const db = dbManager.getDatabase();
+    const repository = getRepository();
     
     try {
       // Update message status to indicate delivery failure
-      db.prepare(`
-        UPDATE messages 
-        SET status = 'flying'
-        WHERE id = ?
-      `).run(messageId);
+      await repository.messages.updateStatus(messageId, 'flying');
 
       // Get message details for sender notification
-      const messageRow = db.prepare('SELECT * FROM messages WHERE id = ?').get(messageId);
-      if (messageRow) {
-        const message = dbManager.rowToMessage(messageRow);
-        
+      const message = await repository.messages.findById(messageId);
+      if (message) {
         // Notify sender of delivery failure
         notificationService.createNotification(
           message.sender_id,
@@ -468,7 +469,7 @@ export class MessageDeliveryService {
       this.pendingDeliveries.delete(messageId);
       const timer = this.retryTimers.get(messageId);
       if (timer) {
-        clearTimeout(timer);
+        this.clock.clearTimeout(timer);
         this.retryTimers.delete(messageId);
       }
 
@@ -498,7 +499,7 @@ export class MessageDeliveryService {
   cancelDeliveryRetries(messageId: string): boolean {
     const timer = this.retryTimers.get(messageId);
     if (timer) {
-      clearTimeout(timer);
+      this.clock.clearTimeout(timer);
       this.retryTimers.delete(messageId);
     }
 
@@ -512,22 +513,12 @@ export class MessageDeliveryService {
    * Process all pending deliveries (useful for startup recovery)
    */
   async processPendingDeliveries(): Promise<void> {
-    const db = dbManager.getDatabase();
-    
     try {
       // Find messages that should be delivered but aren't
-      const undeliveredMessages = db.prepare(`
-        SELECT id FROM messages 
-        WHERE status = 'flying' 
-        AND id IN (
-          SELECT message_id FROM flights 
-          WHERE status = 'delivered' OR progress_percentage >= 100
-        )
-      `).all();
-
-      for (const row of undeliveredMessages) {
-        const messageId = row.id;
-        const flightProgress = flightEngine.getFlightProgress(messageId);
+      const undeliveredMessages = await getRepository().messages.listAwaitingDelivery();
+
+      for (const messageId of undeliveredMessages) {
+        const flightProgress = await flightEngine.loadFlightProgress(messageId);
         
         if (flightProgress && flightProgress.progress_percentage >= 100) {
           console.log(`Processing pending delivery for message ${messageId}`);
@@ -544,7 +535,7 @@ export class MessageDeliveryService {
    */
   cleanup(): void {
     for (const timer of this.retryTimers.values()) {
-      clearTimeout(timer);
+      this.clock.clearTimeout(timer);
     }
     this.retryTimers.clear();
     this.pendingDeliveries.clear();
@@ -0,0 +1,306 @@
+import { HonkMessage, User } from '@/types';
+import { getRepository, ScheduledMessageUpdate } from '@/lib/repository';
+import { getSimulation, Simulation, SimulationClock, TimerHandle } from '@/lib/simulation-clock';
+import { parseScheduledTime, resolveUserTimeZone } from '@/utils/timezone';
+import { flightEngine } from './flightEngine';
+import { messageDeliveryService } from './messageDelivery';
+import { RankingService } from './ranking';
+
+/** Rank reward that unlocks scheduled honks (Veteran Voyager) */
+export const SCHEDULING_REWARD = 'message_scheduling';
+
+/** Longest delay a single timer can hold before setTimeout overflows */
+const MAX_TIMER_DELAY_MS = 2147483647;
+
+/** Whose wall clock a bare local schedule time is read in */
+export type ScheduleTimeZone = 'sender' | 'recipient';
+
+export interface ScheduleRequest {
+  scheduled_for: string;
+  time_zone?: ScheduleTimeZone;
+}
+
+export interface ResolvedSchedule {
+  scheduledFor: Date;
+  timeZone: string;
+}
+
+type ScheduleParticipant = Pick<User, 'time_zone' | 'current_location'>;
+
+/**
+ * Scheduler configuration
+ */
+interface SchedulerConfig {
+  minLeadTimeMs: number;
+  maxLeadTimeMs: number;
+  maxLaunchRetries: number;
+  launchRetryDelayMs: number;
+  launchRetryBackoffMultiplier: number;
+  maxLaunchRetryDelayMs: number;
+}
+
+/**
+ * Default scheduler configuration
+ */
+const DEFAULT_CONFIG: SchedulerConfig = {
+  minLeadTimeMs: 60 * 1000, // At least a minute out
+  maxLeadTimeMs: 30 * 24 * 60 * 60 * 1000, // At most 30 days out
+  maxLaunchRetries: 3,
+  launchRetryDelayMs: 60 * 1000, // 1 minute before the first retry
+  launchRetryBackoffMultiplier: 2,
+  maxLaunchRetryDelayMs: 10 * 60 * 1000 // 10 minutes max delay
+};
+
+/**
+ * Rejected schedule request, carrying the HTTP status routes should return
+ */
+export class SchedulingError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'SchedulingError';
+  }
+}
+
+/**
+ * Holds scheduled honks on the ground until their launch time, then hands
+ * them to the flight engine
+ */
+export class MessageScheduler {
+  private config: SchedulerConfig;
+  private timers: Map<string, TimerHandle> = new Map();
+  private launchRetries: Map<string, number> = new Map();
+  private simulation: Partial<Simulation>;
+
+  constructor(config: Partial<SchedulerConfig> = {}, simulation: Partial<Simulation> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.simulation = simulation;
+  }
+
+  private get clock(): SimulationClock {
+    return this.simulation.clock ?? getSimulation().clock;
+  }
+
+  /**
+   * Whether the user's rank unlocks scheduling
+   */
+  canSchedule(user: Pick<User, 'total_journey_points'>): boolean {
+    return RankingService.hasRankReward(user.total_journey_points, SCHEDULING_REWARD);
+  }
+
+  /**
+   * Check the rank gate and turn a schedule request into a launch instant.
+   * Bare local times are read in the sender's or recipient's time zone
+   * (recipient by default, i.e. "8am their time").
+   */
+  resolveSchedule(
+    request: ScheduleRequest,
+    sender: ScheduleParticipant & Pick<User, 'total_journey_points'>,
+    recipient: ScheduleParticipant
+  ): ResolvedSchedule {
+    if (!this.canSchedule(sender)) {
+      throw new SchedulingError('Scheduling unlocks at the Veteran Voyager rank', 403);
+    }
+
+    const zone = request.time_zone ?? 'recipient';
+    if (zone !== 'sender' && zone !== 'recipient') {
+      throw new SchedulingError("time_zone must be 'sender' or 'recipient'");
+    }
+
+    const timeZone = resolveUserTimeZone(zone === 'sender' ? sender : recipient);
+    const scheduledFor = typeof request.scheduled_for === 'string'
+      ? parseScheduledTime(request.scheduled_for, timeZone)
+      : null;
+
+    if (!scheduledFor) {
+      throw new SchedulingError('scheduled_for must be an ISO date-time');
+    }
+
+    const leadTime = scheduledFor.getTime() - this.clock.now();
+    if (leadTime < this.config.minLeadTimeMs) {
+      throw new SchedulingError('scheduled_for must be at least a minute in the future');
+    }
+    if (leadTime > this.config.maxLeadTimeMs) {
+      throw new SchedulingError('scheduled_for must be within the next 30 days');
+    }
+
+    return { scheduledFor, timeZone };
+  }
+
+  /**
+   * Arm the launch timer for a stored scheduled honk
+   */
+  arm(message: HonkMessage): void {
+    this.disarm(message.id);
+    if (message.status !== 'scheduled' || !message.scheduled_for) return;
+
+    const delay = message.scheduled_for.getTime() - this.clock.now();
+    if (delay <= 0) {
+      void this.launch(message.id);
+      return;
+    }
+
+    // Long waits are chained so a 30-day schedule does not overflow the timer
+    const timer = this.clock.setTimeout(() => {
+      this.timers.delete(message.id);
+      if (delay > MAX_TIMER_DELAY_MS) {
+        this.arm(message);
+      } else {
+        void this.launch(message.id);
+      }
+    }, Math.min(delay, MAX_TIMER_DELAY_MS));
+
+    this.timers.set(message.id, timer);
+  }
+
+  /**
+   * Apply edits to a scheduled honk and re-arm it for its (new) launch time.
+   * Resolves null when the honk has already launched.
+   */
+  async update(messageId: string, updates: ScheduledMessageUpdate): Promise<HonkMessage | null> {
+    const repository = getRepository();
+    const updated = await repository.messages.updateScheduled(messageId, updates);
+    if (!updated) return null;
+
+    const message = await repository.messages.findById(messageId);
+    if (message) {
+      this.arm(message);
+    }
+    return message;
+  }
+
+  /**
+   * Cancel a scheduled honk before it launches
+   */
+  async cancel(messageId: string): Promise<boolean> {
+    this.disarm(messageId);
+    this.launchRetries.delete(messageId);
+    return getRepository().messages.deleteScheduled(messageId);
+  }
+
+  /**
+   * Launch a scheduled honk now. Resolves false if it was already launched
+   * or cancelled, or if its flight could not take off. A honk that fails to
+   * take off is put back on the ground and retried with backoff; one that
+   * can never fly is returned to its sender.
+   */
+  async launch(messageId: string): Promise<boolean> {
+    this.disarm(messageId);
+
+    const repository = getRepository();
+    let launched = false;
+    try {
+      const message = await repository.messages.findById(messageId);
+      if (!message || message.status !== 'scheduled') return false;
+
+      // Only one caller can flip scheduled -> flying
+      launched = await repository.messages.markLaunched(messageId);
+      if (!launched) return false;
+
+      if (!message.recipient_location) {
+        this.launchRetries.delete(messageId);
+        await messageDeliveryService.returnToSender(messageId, 'The recipient has no location to fly to');
+        return false;
+      }
+
+      const flight = await flightEngine.initializeFlight(
+        messageId,
+        message.sender_location,
+        message.recipient_location,
+        message.delivery_tier
+      );
+      if (!flight) {
+        throw new Error('Flight could not be initialized');
+      }
+
+      this.launchRetries.delete(messageId);
+      console.log(`Scheduled honk ${messageId} launched`);
+      return true;
+    } catch (error) {
+      console.error(`Error launching scheduled honk ${messageId}:`, error);
+      if (launched) {
+        await this.retryLaunch(messageId);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Ground a honk whose flight failed to take off and try again later,
+   * returning it to its sender once the retries run out
+   */
+  private async retryLaunch(messageId: string): Promise<void> {
+    const retry = (this.launchRetries.get(messageId) ?? 0) + 1;
+    if (retry > this.config.maxLaunchRetries) {
+      console.error(`Max launch retries exceeded for scheduled honk ${messageId}, returning it`);
+      this.launchRetries.delete(messageId);
+      await messageDeliveryService.returnToSender(messageId, 'The flight could not take off');
+      return;
+    }
+
+    try {
+      await getRepository().messages.updateStatus(messageId, 'scheduled');
+    } catch (error) {
+      console.error(`Error returning honk ${messageId} to the schedule:`, error);
+      return;
+    }
+
+    const baseDelay = this.config.launchRetryDelayMs * Math.pow(this.config.launchRetryBackoffMultiplier, retry - 1);
+    const delay = Math.min(baseDelay, this.config.maxLaunchRetryDelayMs);
+    this.launchRetries.set(messageId, retry);
+
+    const timer = this.clock.setTimeout(() => {
+      this.timers.delete(messageId);
+      void this.launch(messageId);
+    }, delay);
+    this.timers.set(messageId, timer);
+
+    console.log(`Retrying launch of scheduled honk ${messageId} in ${delay}ms (retry ${retry}/${this.config.maxLaunchRetries})`);
+  }
+
+  /**
+   * Re-arm every stored scheduled honk after a restart; honks whose launch
+   * time passed while the server was down launch immediately.
+   * Returns the number of honks armed.
+   */
+  async restoreScheduled(): Promise<number> {
+    try {
+      const scheduled = await getRepository().messages.listScheduled();
+      scheduled.forEach(message => this.arm(message));
+      return scheduled.length;
+    } catch (error) {
+      console.error('Error restoring scheduled honks:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Whether a launch timer is armed for a honk
+   */
+  isArmed(messageId: string): boolean {
+    return this.timers.has(messageId);
+  }
+
+  private disarm(messageId: string): void {
+    const timer = this.timers.get(messageId);
+    if (timer !== undefined) {
+      this.clock.clearTimeout(timer);
+      this.timers.delete(messageId);
+    }
+  }
+
+  /**
+   * Cleanup method to clear all timers
+   */
+  cleanup(): void {
+    for (const timer of this.timers.values()) {
+      this.clock.clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.launchRetries.clear();
+  }
+}
+
+/**
+ * Singleton instance of the message scheduler
+ */
+export const messageScheduler = new MessageScheduler();
@@ -149,6 +149,23 @@ export class NotificationService {
     );
   }
 
+  /**
+   * Create notification for a honk that came back undelivered
+   */
+  createFlightReturnedNotification(userId: string, messageId: string, messageTitle: string, reason: string): NotificationRecord {
+    return this.createNotification(
+      userId,
+      'flight.returned',
+      'Returned to Sender 🦆',
+      `Your duck couldn't get "${messageTitle}" through and flew it home. ${reason}.`,
+      {
+        messageId,
+        messageTitle,
+        reason
+      }
+    );
+  }
+
   /**
    * Create message received notification
    */
@@ -0,0 +1,262 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import { getRepository } from '@/lib/repository';
+import { getSimulation, Simulation, SimulationClock } from '@/lib/simulation-clock';
+import { HonkMessage, PostcardDocument, PostcardDrawing, PostcardRecord, PostcardStroke, StickerData } from '@/types';
+import {
+  DEFAULT_POSTCARD_FONT,
+  POSTCARD_BACKGROUNDS,
+  POSTCARD_FONTS,
+  POSTCARD_HEIGHT,
+  POSTCARD_MAX_LINES,
+  POSTCARD_WIDTH,
+  wrapPostcardLines
+} from '@/utils/postcard';
+import { postcardDocumentFromMessage } from '@/utils/postcardDocument';
+import { POSTCARD_PEN_OPACITY, tracePostcardStroke } from '@/utils/postcardDrawing';
+import { decodeStickerImage } from './stickers';
+
+export interface PostcardRenderOptions {
+  /** Shown in the "From" line along the bottom of the card */
+  senderName?: string;
+}
+
+/**
+ * Renderer configuration
+ */
+interface RendererConfig {
+  /** Output pixels per card unit; 2 gives a 1200x750 PNG */
+  scale: number;
+  /** Where sticker paths like /sticker.png are read from */
+  publicDir: string;
+}
+
+/**
+ * Default renderer configuration
+ */
+const DEFAULT_CONFIG: RendererConfig = {
+  scale: 2,
+  publicDir: path.join(process.cwd(), 'public')
+};
+
+const STICKER_API_PATH = /^\/api\/stickers\/([\w-]+)\/image$/;
+const PUBLIC_IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+
+/**
+ * Where a stored postcard's image is served from
+ */
+export function postcardImageUrl(id: string): string {
+  return `/api/postcards/${id}/image`;
+}
+
+/** Fixed precision so the same document always produces the same SVG */
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters are not allowed in XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+/**
+ * SVG path data for a stroke, traced exactly as the canvas replays it
+ */
+function strokePath(points: PostcardStroke['points']): string {
+  const commands: string[] = [];
+  tracePostcardStroke({
+    moveTo: (x, y) => commands.push(`M${num(x)} ${num(y)}`),
+    lineTo: (x, y) => commands.push(`L${num(x)} ${num(y)}`),
+    quadraticCurveTo: (cpx, cpy, x, y) => commands.push(`Q${num(cpx)} ${num(cpy)} ${num(x)} ${num(y)}`)
+  }, points);
+  return commands.join(' ');
+}
+
+/**
+ * The drawing layer as SVG. An eraser stroke masks out everything drawn
+ * before it, so each one wraps the layer so far in a mask.
+ */
+function drawingLayer(drawing: PostcardDrawing): string {
+  let layer = '';
+  drawing.strokes.forEach((stroke, index) => {
+    const attributes = `d="${strokePath(stroke.points)}" fill="none" stroke-width="${num(stroke.width)}" stroke-linecap="round" stroke-linejoin="round"`;
+    if (stroke.tool === 'eraser') {
+      layer = [
+        `<mask id="erase-${index}" maskUnits="userSpaceOnUse" x="0" y="0" width="${POSTCARD_WIDTH}" height="${POSTCARD_HEIGHT}">`,
+        `<rect x="0" y="0" width="${POSTCARD_WIDTH}" height="${POSTCARD_HEIGHT}" fill="#fff"/>`,
+        `<path ${attributes} stroke="#000"/>`,
+        '</mask>',
+        `<g mask="url(#erase-${index})">${layer}</g>`
+      ].join('\n');
+    } else {
+      layer += `\n<path ${attributes} stroke="${escapeXml(stroke.color)}" stroke-opacity="${POSTCARD_PEN_OPACITY}"/>`;
+    }
+  });
+  return layer;
+}
+
+/**
+ * Draws postcard documents server-side: background, message
+ * text, hand-drawn strokes and stickers, in the PostcardMaker's coordinates
+ */
+export class PostcardRenderer {
+  private config: RendererConfig;
+  private simulation: Partial<Simulation>;
+
+  constructor(config: Partial<RendererConfig> = {}, simulation: Partial<Simulation> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.simulation = simulation;
+  }
+
+  private get clock(): SimulationClock {
+    return this.simulation.clock ?? getSimulation().clock;
+  }
+
+  /**
+   * Build the card as SVG. Sticker images are inlined as data URLs so the
+   * output depends only on the document and stored assets.
+   */
+  async buildSvg(document: PostcardDocument, options: PostcardRenderOptions = {}): Promise<string> {
+    const background = POSTCARD_BACKGROUNDS[document.background];
+    const width = POSTCARD_WIDTH * this.config.scale;
+    const height = POSTCARD_HEIGHT * this.config.scale;
+
+    const parts: string[] = [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${POSTCARD_WIDTH} ${POSTCARD_HEIGHT}">`,
+      `<rect x="0" y="0" width="${POSTCARD_WIDTH}" height="${POSTCARD_HEIGHT}" fill="${background.fill}"/>`,
+      `<rect x="4" y="4" width="${POSTCARD_WIDTH - 8}" height="${POSTCARD_HEIGHT - 8}" fill="none" stroke="${background.border}" stroke-width="2"/>`,
+      // Same stacking as the compose screen: drawing, then stickers, then text
+      drawingLayer(document.drawing),
+      ...(await Promise.all(document.stickers.map(sticker => this.renderSticker(sticker)))),
+      this.renderText(document, options),
+      '</svg>'
+    ];
+
+    return parts.filter(Boolean).join('\n');
+  }
+
+  /**
+   * Render the card to PNG
+   */
+  async render(document: PostcardDocument, options: PostcardRenderOptions = {}): Promise<Buffer> {
+    const svg = await this.buildSvg(document, options);
+    return sharp(Buffer.from(svg)).png({ compressionLevel: 9 }).toBuffer();
+  }
+
+  /**
+   * Render a postcard message and store the PNG on its postcards row,
+   * creating the row the first time
+   */
+  async renderAndStore(message: HonkMessage): Promise<PostcardRecord> {
+    const repository = getRepository();
+
+    let postcard = await repository.postcards.findByMessageId(message.id);
+    if (!postcard) {
+      postcard = {
+        id: uuidv4(),
+        message_id: message.id,
+        title: message.title,
+        description: message.content,
+        location: message.sender_location,
+        created_at: new Date(this.clock.now())
+      };
+      await repository.postcards.create(postcard);
+    }
+
+    const sender = await repository.users.findById(message.sender_id);
+    const image = await this.render(postcardDocumentFromMessage(message), { senderName: sender?.username });
+    const imageUrl = postcardImageUrl(postcard.id);
+    await repository.postcards.saveImage(postcard.id, image, imageUrl);
+
+    return { ...postcard, image_url: imageUrl };
+  }
+
+  private renderText(document: PostcardDocument, options: PostcardRenderOptions): string {
+    const lines = wrapPostcardLines(document.text).slice(0, POSTCARD_MAX_LINES);
+    const lineHeight = 26;
+    const top = (POSTCARD_HEIGHT - 40) / 2 - (lines.length * lineHeight) / 2 + lineHeight * 0.75;
+    const fontFamily = POSTCARD_FONTS[document.font ?? DEFAULT_POSTCARD_FONT].family;
+
+    const parts = [
+      `<text x="24" y="32" font-family='${fontFamily}' font-size="14" fill="#666">${escapeXml(document.title)}</text>`,
+      `<text font-family='${fontFamily}' font-size="18" fill="#000" text-anchor="middle">`,
+      ...lines.map((line, index) =>
+        `<tspan x="${POSTCARD_WIDTH / 2}" y="${num(top + index * lineHeight)}">${escapeXml(line)}</tspan>`
+      ),
+      '</text>'
+    ];
+
+    if (options.senderName) {
+      parts.push(
+        `<text x="${POSTCARD_WIDTH / 2}" y="${POSTCARD_HEIGHT - 24}" font-family='${fontFamily}' font-size="12" fill="#333" text-anchor="middle">From: ${escapeXml(options.senderName)}</text>`
+      );
+    }
+
+    return parts.join('\n');
+  }
+
+  private async renderSticker(sticker: StickerData): Promise<string> {
+    const size = (sticker.size || 40) * (sticker.scale || 1);
+    const transform = `translate(${num(sticker.x)} ${num(sticker.y)}) rotate(${num(sticker.rotation || 0)})`;
+
+    if (sticker.imageUrl) {
+      const href = await this.resolveStickerImage(sticker.imageUrl);
+      if (!href) return '';
+      return `<g transform="${transform}"><image x="${num(-size / 2)}" y="${num(-size / 2)}" width="${num(size)}" height="${num(size)}" preserveAspectRatio="xMidYMid meet" href="${href}"/></g>`;
+    }
+
+    if (sticker.emoji) {
+      return `<g transform="${transform}"><text x="0" y="0" font-size="${num(size * 0.8)}" text-anchor="middle" dominant-baseline="central">${escapeXml(sticker.emoji)}</text></g>`;
+    }
+
+    return '';
+  }
+
+  /**
+   * Turn a sticker's image URL into an inline data URL. Only our own
+   * assets are used; anything else is left off the card.
+   */
+  private async resolveStickerImage(imageUrl: string): Promise<string | null> {
+    try {
+      if (imageUrl.startsWith('data:')) {
+        const image = decodeStickerImage(imageUrl);
+        return `data:${image.mime_type};base64,${image.data.toString('base64')}`;
+      }
+
+      const stored = STICKER_API_PATH.exec(imageUrl);
+      if (stored) {
+        const image = await getRepository().stickers.findImage(stored[1]);
+        return image ? `data:${image.mime_type};base64,${image.data.toString('base64')}` : null;
+      }
+
+      if (imageUrl.startsWith('/')) {
+        const filePath = path.resolve(this.config.publicDir, `.${decodeURIComponent(imageUrl.split('?')[0])}`);
+        const type = PUBLIC_IMAGE_TYPES[path.extname(filePath).toLowerCase()];
+        if (!type || !filePath.startsWith(this.config.publicDir + path.sep)) return null;
+        return `data:${type};base64,${(await readFile(filePath)).toString('base64')}`;
+      }
+    } catch (error) {
+      console.error('Skipping postcard sticker image:', error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Singleton instance of the postcard renderer
+ */
+export const postcardRenderer = new PostcardRenderer();
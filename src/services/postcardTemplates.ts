@@ -0,0 +1,106 @@
+import { getSimulation, Simulation, SimulationClock } from '@/lib/simulation-clock';
+import { POSTCARD_TEMPLATE_DATA } from '@/lib/postcard-templates';
+import {
+  PostcardTemplate,
+  PostcardTemplateCollection,
+  PostcardTemplateCollectionListing,
+  PostcardTemplateListing,
+  User
+} from '@/types';
+import { isCollectionInSeason, validateTemplateCollection } from '@/utils/postcardTemplates';
+import { RankingService } from './ranking';
+
+/** Rank reward that unlocks premium templates */
+export const PREMIUM_TEMPLATE_REWARD = 'premium_postcards';
+
+/**
+ * Template configuration
+ */
+interface PostcardTemplateConfig {
+  /** Raw collection data, as read from src/lib/postcard-templates */
+  collections: unknown[];
+}
+
+/**
+ * Default template configuration
+ */
+const DEFAULT_CONFIG: PostcardTemplateConfig = {
+  collections: POSTCARD_TEMPLATE_DATA
+};
+
+/**
+ * Validate raw collection data, failing loudly on a broken data file
+ */
+export function loadTemplateCollections(data: unknown[]): PostcardTemplateCollection[] {
+  const collections = data.map(entry => {
+    const result = validateTemplateCollection(entry);
+    if (!result.isValid) {
+      throw new Error(`Invalid postcard template data: ${result.errors[0]}`);
+    }
+    return result.collection!;
+  });
+
+  const ids = new Set<string>();
+  for (const collection of collections) {
+    if (ids.has(collection.id)) {
+      throw new Error(`Invalid postcard template data: more than one collection ${collection.id}`);
+    }
+    ids.add(collection.id);
+  }
+  return collections;
+}
+
+/**
+ * Only the preview of a template the user has not unlocked
+ */
+function lockedTemplate(template: PostcardTemplate): PostcardTemplate {
+  return { ...template, suggested_text: '', palette: [], stickers: [] };
+}
+
+/**
+ * Postcard templates bundled in collections, some only offered during
+ * their season and some unlocked by rank
+ */
+export class PostcardTemplateService {
+  private collections: PostcardTemplateCollection[];
+  private simulation: Partial<Simulation>;
+
+  constructor(config: Partial<PostcardTemplateConfig> = {}, simulation: Partial<Simulation> = {}) {
+    this.collections = loadTemplateCollections({ ...DEFAULT_CONFIG, ...config }.collections);
+    this.simulation = simulation;
+  }
+
+  private get clock(): SimulationClock {
+    return this.simulation.clock ?? getSimulation().clock;
+  }
+
+  /**
+   * Collections in season right now. Premium templates are locked unless
+   * the user's rank has unlocked premium postcards.
+   */
+  listAvailable(user: Pick<User, 'total_journey_points'>): PostcardTemplateCollectionListing[] {
+    const now = new Date(this.clock.now());
+    const unlocked = RankingService.hasRankReward(user.total_journey_points, PREMIUM_TEMPLATE_REWARD);
+
+    return this.collections
+      .filter(collection => isCollectionInSeason(collection, now))
+      .map(collection => ({
+        id: collection.id,
+        name: collection.name,
+        ...(collection.season && { season: collection.season }),
+        templates: collection.templates.map((template): PostcardTemplateListing => {
+          const locked = template.premium && !unlocked;
+          return {
+            ...(locked ? lockedTemplate(template) : template),
+            collection_id: collection.id,
+            locked
+          };
+        })
+      }));
+  }
+}
+
+/**
+ * Singleton instance of the postcard template service
+ */
+export const postcardTemplateService = new PostcardTemplateService();
@@ -1,6 +1,7 @@
 import { User, JourneyData, WeatherEvent, LocationData, UserReward, AviatorRankDefinition } from '@/types';
-import { dbManager } from '@/lib/database';
+import { getRepository } from '@/lib/repository';
 import { calculateDistance } from './geolocation';
+import { achievementService } from './achievements';
 
 // Aviator rank definitions with progression thresholds
 export const AVIATOR_RANKS: AviatorRankDefinition[] = [
@@ -58,10 +59,7 @@ export class RankingService {
 
     // Weather bonus: 25% extra for adverse weather conditions
     let weather_bonus = 0;
-    const adverseWeatherEvents = journeyData.weather_events.filter(
-      event => event.type === 'storm' || event.type === 'rain' || 
-      (event.type === 'wind' && event.intensity > 0.7)
-    );
+    const adverseWeatherEvents = journeyData.weather_events.filter(event => this.isAdverseWeather(event));
     
     if (adverseWeatherEvents.length > 0) {
       weather_bonus = Math.floor(base_points * BONUS_CONFIG.WEATHER_BONUS_MULTIPLIER);
@@ -95,6 +93,14 @@ export class RankingService {
     };
   }
 
+  /**
+   * Weather that earns the weather bonus: storms, rain and strong wind
+   */
+  public static isAdverseWeather(event: WeatherEvent): boolean {
+    return event.type === 'storm' || event.type === 'rain' ||
+      (event.type === 'wind' && event.intensity > 0.7);
+  }
+
   /**
    * Check if the recipient location introduces new countries or states for the user
    */
@@ -120,15 +126,14 @@ export class RankingService {
     pointsEarned: number,
     newLocations: { countries: string[], states: string[] }
   ): Promise<RankAdvancement | null> {
-    const db = dbManager.getDatabase();
+    const repository = getRepository();
     
     // Get current user data
-    const userRow = db.prepare('SELECT * FROM users WHERE id = ?').get(userId);
-    if (!userRow) {
+    const user = await repository.users.findById(userId);
+    if (!user) {
       throw new Error('User not found');
     }
 
-    const user = dbManager.rowToUser(userRow);
     const previousRank = user.current_rank;
     const previousPoints = user.total_journey_points;
     const newTotalPoints = previousPoints + pointsEarned;
@@ -142,24 +147,13 @@ export class RankingService {
     const rankChanged = newRank.name !== previousRank;
 
     // Update user in database
-    const updateStmt = db.prepare(`
-      UPDATE users 
-      SET total_journey_points = ?, 
-          current_rank = ?,
-          countries_visited = ?,
-          states_visited = ?,
-          last_active = ?
-      WHERE id = ?
-    `);
-
-    updateStmt.run(
-      newTotalPoints,
-      newRank.name,
-      JSON.stringify(updatedCountries),
-      JSON.stringify(updatedStates),
-      new Date().toISOString(),
-      userId
-    );
+    await repository.users.update(userId, {
+      total_journey_points: newTotalPoints,
+      current_rank: newRank.name,
+      countries_visited: updatedCountries,
+      states_visited: updatedStates,
+      last_active: new Date()
+    });
 
     // If rank advanced, unlock new rewards
     let rewardsUnlocked: string[] = [];
@@ -194,27 +188,30 @@ export class RankingService {
     return currentRank;
   }
 
+  /**
+   * Whether a point total has earned a rank reward; Legendary Aviators
+   * ('all_features') have every reward
+   */
+  public static hasRankReward(points: number, reward: string): boolean {
+    const rank = this.getRankForPoints(points);
+    return AVIATOR_RANKS
+      .filter(candidate => candidate.min_points <= rank.min_points)
+      .some(candidate => candidate.rewards.includes(reward) || candidate.rewards.includes('all_features'));
+  }
+
   /**
    * Unlock rewards for a new rank
    */
   private static async unlockRankRewards(userId: string, rank: AviatorRankDefinition): Promise<string[]> {
-    const db = dbManager.getDatabase();
-    const insertRewardStmt = db.prepare(`
-      INSERT INTO user_rewards (user_id, reward_type, reward_id, unlocked_at)
-      VALUES (?, ?, ?, ?)
-    `);
-
+    const repository = getRepository();
     const unlockedRewards: string[] = [];
 
     for (const reward of rank.rewards) {
       // Check if reward is already unlocked
-      const existingReward = db.prepare(`
-        SELECT id FROM user_rewards 
-        WHERE user_id = ? AND reward_type = 'rank_reward' AND reward_id = ?
-      `).get(userId, reward);
+      const alreadyUnlocked = await repository.rewards.has(userId, 'rank_reward', reward);
 
-      if (!existingReward) {
-        insertRewardStmt.run(userId, 'rank_reward', reward, new Date().toISOString());
+      if (!alreadyUnlocked) {
+        await repository.rewards.unlock(userId, 'rank_reward', reward);
         unlockedRewards.push(reward);
       }
     }
@@ -233,15 +230,14 @@ export class RankingService {
     points_needed: number;
     achievements: UserReward[];
   }> {
-    const db = dbManager.getDatabase();
+    const repository = getRepository();
     
     // Get user data
-    const userRow = db.prepare('SELECT * FROM users WHERE id = ?').get(userId);
-    if (!userRow) {
+    const user = await repository.users.findById(userId);
+    if (!user) {
       throw new Error('User not found');
     }
 
-    const user = dbManager.rowToUser(userRow);
     const currentRank = this.getRankForPoints(user.total_journey_points);
     
     // Find next rank
@@ -261,11 +257,7 @@ export class RankingService {
     }
 
     // Get user achievements/rewards
-    const rewardRows = db.prepare(`
-      SELECT * FROM user_rewards WHERE user_id = ? ORDER BY unlocked_at DESC
-    `).all(userId);
-
-    const achievements = rewardRows.map(row => dbManager.rowToUserReward(row));
+    const achievements = await repository.rewards.listForUser(userId);
 
     return {
       user,
@@ -284,24 +276,17 @@ export class RankingService {
     rank: number;
     user: Pick<User, 'id' | 'username' | 'total_journey_points' | 'current_rank' | 'countries_visited' | 'states_visited'>;
   }[]> {
-    const db = dbManager.getDatabase();
-    
-    const rows = db.prepare(`
-      SELECT id, username, total_journey_points, current_rank, countries_visited, states_visited
-      FROM users 
-      ORDER BY total_journey_points DESC 
-      LIMIT ?
-    `).all(limit);
-
-    return rows.map((row, index) => ({
+    const users = await getRepository().users.listByPoints(limit);
+
+    return users.map((user, index) => ({
       rank: index + 1,
       user: {
-        id: row.id,
-        username: row.username,
-        total_journey_points: row.total_journey_points,
-        current_rank: row.current_rank,
-        countries_visited: JSON.parse(row.countries_visited || '[]'),
-        states_visited: JSON.parse(row.states_visited || '[]')
+        id: user.id,
+        username: user.username,
+        total_journey_points: user.total_journey_points,
+        current_rank: user.current_rank,
+        countries_visited: user.countries_visited,
+        states_visited: user.states_visited
       }
     }));
   }
@@ -313,22 +298,19 @@ export class RankingService {
     messageId: string,
     journeyData: JourneyData
   ): Promise<RankAdvancement | null> {
-    const db = dbManager.getDatabase();
+    const repository = getRepository();
     
     // Get message and user data
-    const messageRow = db.prepare('SELECT * FROM messages WHERE id = ?').get(messageId);
-    if (!messageRow) {
+    const message = await repository.messages.findById(messageId);
+    if (!message) {
       throw new Error('Message not found');
     }
 
-    const message = dbManager.rowToMessage(messageRow);
-    const userRow = db.prepare('SELECT * FROM users WHERE id = ?').get(message.sender_id);
-    if (!userRow) {
+    const user = await repository.users.findById(message.sender_id);
+    if (!user) {
       throw new Error('Sender not found');
     }
 
-    const user = dbManager.rowToUser(userRow);
-
     // Calculate points
     const pointsCalc = this.calculateJourneyPoints(
       journeyData,
@@ -353,11 +335,7 @@ export class RankingService {
     };
 
     // Update message with journey points
-    db.prepare(`
-      UPDATE messages 
-      SET journey_data = ? 
-      WHERE id = ?
-    `).run(JSON.stringify(updatedJourneyData), messageId);
+    await repository.messages.updateJourneyData(messageId, updatedJourneyData);
 
     // Update user points and check for rank advancement
     const advancement = await this.updateUserPoints(
@@ -366,6 +344,13 @@ export class RankingService {
       { countries: newCountries, states: newStates }
     );
 
+    // Journey-driven achievements shouldn't cost the sender their points
+    try {
+      await achievementService.evaluate(message.sender_id, 'journey.completed');
+    } catch (error) {
+      console.error(`Error evaluating achievements for ${message.sender_id}:`, error);
+    }
+
     return advancement;
   }
 }
@@ -0,0 +1,113 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getRepository } from '@/lib/repository';
+import { getSimulation, Simulation, SimulationClock } from '@/lib/simulation-clock';
+import { RateLimitAction, RateLimitResult } from '@/types';
+
+/** How many requests an action allows within a sliding window */
+export interface RateLimitPolicy {
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * Per-action limits
+ */
+export const RATE_LIMIT_POLICIES: Record<RateLimitAction, RateLimitPolicy> = {
+  'message.send': { limit: 30, windowMs: 60 * 60 * 1000 },
+  'auth.generate_code': { limit: 5, windowMs: 10 * 60 * 1000 },
+  // Link codes are six digits, so guesses per address are kept far below brute-force range
+  'auth.link_device': { limit: 10, windowMs: 15 * 60 * 1000 },
+  'auth.recover': { limit: 10, windowMs: 60 * 60 * 1000 }
+};
+
+/**
+ * Rate limit configuration
+ */
+interface RateLimitConfig {
+  policies: Record<RateLimitAction, RateLimitPolicy>;
+}
+
+/**
+ * Default rate limit configuration
+ */
+const DEFAULT_CONFIG: RateLimitConfig = {
+  policies: RATE_LIMIT_POLICIES
+};
+
+/** Rate limit subject for a signed-in user */
+export function userSubject(userId: string): string {
+  return `user:${userId}`;
+}
+
+/** Rate limit subject for an unauthenticated client */
+export function addressSubject(address: string): string {
+  return `ip:${address}`;
+}
+
+/**
+ * Headers for a rate-limited response: Retry-After on a 429, plus the
+ * limit and what is left of it
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    ...(!result.allowed && { 'Retry-After': String(result.retryAfterSeconds) })
+  };
+}
+
+/**
+ * Sliding-window rate limiter. Each allowed request is recorded in
+ * rate_limit_events; a request is refused once its subject already has
+ * `limit` events for the action inside the window.
+ */
+export class RateLimitService {
+  private config: RateLimitConfig;
+  private simulation: Partial<Simulation>;
+
+  constructor(config: Partial<RateLimitConfig> = {}, simulation: Partial<Simulation> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.simulation = simulation;
+  }
+
+  private get clock(): SimulationClock {
+    return this.simulation.clock ?? getSimulation().clock;
+  }
+
+  /**
+   * Count a request against the subject's limit for the action. Refused
+   * requests are not recorded, so they don't push the window back.
+   */
+  async consume(action: RateLimitAction, subject: string): Promise<RateLimitResult> {
+    const policy = this.config.policies[action];
+    const now = this.clock.now();
+    const window = await getRepository().rateLimits.take(
+      { id: uuidv4(), subject, action, occurred_at: new Date(now) },
+      new Date(now - policy.windowMs),
+      policy.limit
+    );
+
+    if (!window.recorded) {
+      // A slot frees up once the oldest event in the window ages out
+      const freesAt = (window.oldest?.getTime() ?? now) + policy.windowMs;
+      return {
+        allowed: false,
+        limit: policy.limit,
+        remaining: 0,
+        retryAfterSeconds: Math.max(1, Math.ceil((freesAt - now) / 1000))
+      };
+    }
+
+    return {
+      allowed: true,
+      limit: policy.limit,
+      remaining: policy.limit - window.count - 1,
+      retryAfterSeconds: 0
+    };
+  }
+}
+
+/**
+ * Singleton instance of the rate limit service
+ */
+export const rateLimitService = new RateLimitService();
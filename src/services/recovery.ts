@@ -0,0 +1,111 @@
+import { createHash, randomInt } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getRepository } from '@/lib/repository';
+import { getSimulation, Simulation, SimulationClock } from '@/lib/simulation-clock';
+
+/** Easy to read back and type: no 0/O, 1/I/L or U */
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTVWXYZ23456789';
+const CODE_GROUP_LENGTH = 5;
+
+/**
+ * Recovery configuration
+ */
+interface RecoveryConfig {
+  codeCount: number;
+}
+
+/**
+ * Default recovery configuration
+ */
+const DEFAULT_CONFIG: RecoveryConfig = {
+  codeCount: 10
+};
+
+/**
+ * Rejected recovery attempt, carrying the HTTP status routes should return
+ */
+export class RecoveryError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'RecoveryError';
+  }
+}
+
+/**
+ * Canonical form of a typed code: case, spaces and dashes don't matter
+ */
+export function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '');
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+function generateCode(): string {
+  const characters = Array.from(
+    { length: CODE_GROUP_LENGTH * 2 },
+    () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]
+  ).join('');
+  return `${characters.slice(0, CODE_GROUP_LENGTH)}-${characters.slice(CODE_GROUP_LENGTH)}`;
+}
+
+/**
+ * One-time codes that sign a user back in once they have lost every
+ * device, for accounts that were created without an email or password
+ */
+export class RecoveryService {
+  private config: RecoveryConfig;
+  private simulation: Partial<Simulation>;
+
+  constructor(config: Partial<RecoveryConfig> = {}, simulation: Partial<Simulation> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.simulation = simulation;
+  }
+
+  private get clock(): SimulationClock {
+    return this.simulation.clock ?? getSimulation().clock;
+  }
+
+  /**
+   * Issue a fresh set of codes, replacing the user's old ones. The codes
+   * are only ever returned here.
+   */
+  async generate(userId: string): Promise<string[]> {
+    const createdAt = new Date(this.clock.now());
+    const codes = Array.from({ length: this.config.codeCount }, generateCode);
+
+    await getRepository().recoveryCodes.replaceForUser(userId, codes.map(code => ({
+      id: uuidv4(),
+      user_id: userId,
+      code_hash: hashRecoveryCode(code),
+      created_at: createdAt
+    })));
+
+    return codes;
+  }
+
+  /**
+   * Use up a code, resolving the account it belongs to
+   */
+  async redeem(code: string): Promise<string> {
+    if (!normalizeRecoveryCode(code)) {
+      throw new RecoveryError('Recovery code is required');
+    }
+
+    const record = await getRepository().recoveryCodes.redeem(hashRecoveryCode(code), new Date(this.clock.now()));
+    if (!record) {
+      throw new RecoveryError('Invalid or already used recovery code', 401);
+    }
+    return record.user_id;
+  }
+
+  async remaining(userId: string): Promise<number> {
+    return getRepository().recoveryCodes.countUnused(userId);
+  }
+}
+
+/**
+ * Singleton instance of the recovery service
+ */
+export const recoveryService = new RecoveryService();
@@ -1,17 +1,8 @@
-import { LocationData, RouteWaypoint } from '@/types';
-import { calculateDistance, calculateBearing, calculateDestination } from '@/utils/distance';
+import { LocationData, RouteWaypoint, WeatherEvent } from '@/types';
+import { calculateDistance, calculateBearing, calculateDestination, calculateMidpoint } from '@/utils/distance';
+import { terrainLookup, TerrainType } from './terrainLookup';
 
-/**
- * Terrain types that affect flight difficulty
- */
-export enum TerrainType {
-  OCEAN = 'ocean',
-  LAND = 'land',
-  MOUNTAIN = 'mountain',
-  DESERT = 'desert',
-  FOREST = 'forest',
-  URBAN = 'urban'
-}
+export { TerrainType } from './terrainLookup';
 
 /**
  * Terrain difficulty modifiers for flight speed
@@ -42,12 +33,30 @@ export interface GraphEdge {
   from: string;
   to: string;
   distance: number;
-  cost: number;
+  cost: number; // Terrain-adjusted cost plus weather_penalty
   terrain_modifier: number;
+  weather_penalty: number;
+}
+
+/**
+ * Circular patch of bad weather that makes edges through it more expensive
+ */
+export interface WeatherCell {
+  location: LocationData;
+  radiusKm: number;
+  speed_modifier: number; // Flight speed multiplier inside the cell (< 1 slows)
+}
+
+/**
+ * Options for planning a route through the corridor graph
+ */
+export interface RouteOptions {
+  avoidAreas?: LocationData[];
+  weatherCells?: WeatherCell[];
 }
 
 /**
- * Result of Dijkstra's algorithm pathfinding
+ * Result of A* pathfinding
  */
 export interface PathResult {
   path: GraphNode[];
@@ -57,11 +66,104 @@ export interface PathResult {
 }
 
 /**
- * Flight routing service implementing Dijkstra's algorithm
+ * Shape of the search grid laid around the great-circle corridor
+ */
+interface CorridorConfig {
+  stepKm: number; // Spacing between rows along the great circle
+  lanes: number; // Lanes either side of the great circle
+  minLaneSpacingKm: number;
+  maxLaneSpacingKm: number;
+  laneSpacingRatio: number; // Lane spacing as a share of the route length
+  avoidRadiusKm: number;
+}
+
+/**
+ * Default corridor: ±4 lanes up to 150km apart, so long routes can swing
+ * up to 600km off the great circle around mountains and storms
+ */
+const DEFAULT_CORRIDOR: CorridorConfig = {
+  stepKm: 300,
+  lanes: 4,
+  minLaneSpacingKm: 25,
+  maxLaneSpacingKm: 150,
+  laneSpacingRatio: 0.04,
+  avoidRadiusKm: 100
+};
+
+/** Radius given to weather cells built from point weather reports */
+const DEFAULT_WEATHER_CELL_RADIUS_KM = 150;
+
+/**
+ * Weather cells for the reports that slow a duck down
+ */
+export function weatherCellsFromEvents(
+  events: Array<WeatherEvent | null | undefined>,
+  radiusKm: number = DEFAULT_WEATHER_CELL_RADIUS_KM
+): WeatherCell[] {
+  return events
+    .filter((event): event is WeatherEvent => !!event && event.speed_modifier < 1)
+    .map(event => ({
+      location: event.location,
+      radiusKm,
+      speed_modifier: event.speed_modifier
+    }));
+}
+
+/**
+ * Binary min-heap keyed by priority, for the A* open set
+ */
+class MinHeap {
+  private items: Array<{ id: string; priority: number }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(id: string, priority: number): void {
+    this.items.push({ id, priority });
+    let index = this.items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.items[parent].priority <= this.items[index].priority) break;
+      [this.items[parent], this.items[index]] = [this.items[index], this.items[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): { id: string; priority: number } | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length > 0 && last) {
+      this.items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < this.items.length && this.items[left].priority < this.items[smallest].priority) smallest = left;
+        if (right < this.items.length && this.items[right].priority < this.items[smallest].priority) smallest = right;
+        if (smallest === index) break;
+        [this.items[smallest], this.items[index]] = [this.items[index], this.items[smallest]];
+        index = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * Flight routing service: A* over a lat/lon grid laid around the
+ * great-circle corridor, so routes can detour around terrain and weather
  */
 export class FlightRoutingService {
   private nodes: Map<string, GraphNode> = new Map();
   private edges: Map<string, GraphEdge[]> = new Map();
+  private weatherCells: WeatherCell[] = [];
+  private config: CorridorConfig;
+
+  constructor(config: Partial<CorridorConfig> = {}) {
+    this.config = { ...DEFAULT_CORRIDOR, ...config };
+  }
 
   /**
    * Generate waypoints along a great circle route between two points
@@ -132,10 +234,11 @@ export class FlightRoutingService {
   /**
    * Build graph data structure with nodes and weighted edges
    */
-  buildGraph(waypoints: GraphNode[]): void {
+  buildGraph(waypoints: GraphNode[], weatherCells: WeatherCell[] = []): void {
     // Clear existing graph
     this.nodes.clear();
     this.edges.clear();
+    this.weatherCells = weatherCells;
     
     // Add all nodes
     waypoints.forEach(node => {
@@ -173,16 +276,18 @@ export class FlightRoutingService {
     const distance = calculateDistance(from.location, to.location);
     const terrainModifier = this.calculateTerrainModifier(from.terrain, to.terrain);
     const altitudeModifier = this.calculateAltitudeModifier(from.altitude, to.altitude);
+    const weatherPenalty = this.calculateWeatherPenalty(from, to, distance);
     
-    // Cost considers distance, terrain difficulty, and altitude changes
-    const cost = distance / (terrainModifier * altitudeModifier);
+    // Cost considers distance, terrain difficulty, altitude changes and weather
+    const cost = distance / (terrainModifier * altitudeModifier) + weatherPenalty;
     
     const edge: GraphEdge = {
       from: from.id,
       to: to.id,
       distance,
       cost,
-      terrain_modifier: terrainModifier
+      terrain_modifier: terrainModifier,
+      weather_penalty: weatherPenalty
     };
     
     const fromEdges = this.edges.get(from.id) || [];
@@ -191,9 +296,119 @@ export class FlightRoutingService {
   }
 
   /**
-   * Implement Dijkstra's algorithm for optimal path finding
+   * Extra cost of flying an edge through weather cells: the time lost to the
+   * slower speed, expressed as kilometres
+   */
+  private calculateWeatherPenalty(from: GraphNode, to: GraphNode, distance: number): number {
+    if (this.weatherCells.length === 0) return 0;
+
+    const midpoint = calculateMidpoint(from.location, to.location);
+    return this.weatherCells.reduce((penalty, cell) => {
+      if (calculateDistance(midpoint, cell.location) > cell.radiusKm) return penalty;
+      const speedModifier = Math.max(cell.speed_modifier, 0.05);
+      return penalty + distance * (1 / speedModifier - 1);
+    }, 0);
+  }
+
+  /**
+   * Lay a grid of nodes around the great circle from start to end: one row
+   * every `stepKm`, each row spreading lanes perpendicular to the local
+   * heading. Nodes link forward to the three nearest lanes of the next row
+   * and sideways to their neighbours. Nodes inside avoid areas are left out.
+   * Returns the start and end node ids.
    */
-  findOptimalPath(startId: string, endId: string): PathResult | null {
+  buildCorridorGraph(
+    start: LocationData,
+    end: LocationData,
+    options: RouteOptions = {}
+  ): { startId: string; endId: string } {
+    this.nodes.clear();
+    this.edges.clear();
+    this.weatherCells = options.weatherCells ?? [];
+
+    const totalDistance = calculateDistance(start, end);
+    const rows = Math.max(1, Math.ceil(totalDistance / this.config.stepKm));
+    const rowSpacing = totalDistance / rows;
+    const laneSpacing = Math.min(
+      this.config.maxLaneSpacingKm,
+      Math.max(this.config.minLaneSpacingKm, totalDistance * this.config.laneSpacingRatio)
+    );
+    const initialBearing = calculateBearing(start, end);
+    const avoidAreas = options.avoidAreas ?? [];
+
+    const isAvoided = (location: LocationData) =>
+      avoidAreas.some(area => calculateDistance(location, area) < this.config.avoidRadiusKm);
+
+    const grid: Array<Map<number, GraphNode>> = [];
+    for (let row = 0; row <= rows; row++) {
+      const lanes = new Map<number, GraphNode>();
+      const isEndpoint = row === 0 || row === rows;
+      const center = row === 0 ? start
+        : row === rows ? end
+        : calculateDestination(start, row * rowSpacing, initialBearing);
+
+      if (isEndpoint) {
+        lanes.set(0, this.createNode(`corridor_${row}_0`, center));
+      } else {
+        const heading = calculateBearing(center, end);
+        for (let lane = -this.config.lanes; lane <= this.config.lanes; lane++) {
+          const location = lane === 0
+            ? center
+            : calculateDestination(center, Math.abs(lane) * laneSpacing, (heading + (lane > 0 ? 90 : 270)) % 360);
+          if (isAvoided(location)) continue;
+          lanes.set(lane, this.createNode(`corridor_${row}_${lane}`, location));
+        }
+      }
+
+      lanes.forEach(node => {
+        this.nodes.set(node.id, node);
+        this.edges.set(node.id, []);
+      });
+      grid.push(lanes);
+    }
+
+    for (let row = 0; row <= rows; row++) {
+      grid[row].forEach((node, lane) => {
+        // Sideways, to widen a detour
+        [lane - 1, lane + 1].forEach(side => {
+          const neighbour = grid[row].get(side);
+          if (neighbour) this.addEdge(node, neighbour);
+        });
+
+        if (row === rows) return;
+        const nextRow = grid[row + 1];
+        if (row + 1 === rows) {
+          // Every lane of the last row converges on the destination
+          const destination = nextRow.get(0);
+          if (destination && Math.abs(lane) <= 1) this.addEdge(node, destination);
+          return;
+        }
+        [lane - 1, lane, lane + 1].forEach(next => {
+          const neighbour = nextRow.get(next);
+          if (neighbour) this.addEdge(node, neighbour);
+        });
+      });
+    }
+
+    return { startId: grid[0].get(0)!.id, endId: grid[rows].get(0)!.id };
+  }
+
+  private createNode(id: string, location: LocationData): GraphNode {
+    return {
+      id,
+      location,
+      terrain: this.getTerrainType(location),
+      altitude: this.calculateAltitude(location)
+    };
+  }
+
+  /**
+   * A* search for the optimal path, guided by great-circle distance to the
+   * destination. `costWeight` blends edge weights between pure distance (0)
+   * and terrain-adjusted cost (1); weather penalties always apply. The
+   * result's totalCost uses the blend.
+   */
+  findOptimalPath(startId: string, endId: string, costWeight: number = 1): PathResult | null {
     if (!this.nodes.has(startId) || !this.nodes.has(endId)) {
       return null;
     }
@@ -214,59 +429,47 @@ export class FlightRoutingService {
       };
     }
 
-    // Initialize distances and previous nodes
-    const distances = new Map<string, number>();
-    const previous = new Map<string, string | null>();
-    const unvisited = new Set<string>();
-
-    // Set initial distances
-    for (const nodeId of this.nodes.keys()) {
-      distances.set(nodeId, nodeId === startId ? 0 : Infinity);
-      previous.set(nodeId, null);
-      unvisited.add(nodeId);
-    }
+    const endLocation = this.nodes.get(endId)!.location;
+    const minCostPerKm = this.calculateMinCostPerKm(costWeight);
+    const heuristic = (nodeId: string) =>
+      calculateDistance(this.nodes.get(nodeId)!.location, endLocation) * minCostPerKm;
 
-    while (unvisited.size > 0) {
-      // Find unvisited node with minimum distance
-      let currentNode: string | null = null;
-      let minDistance = Infinity;
-      
-      for (const nodeId of unvisited) {
-        const distance = distances.get(nodeId) || Infinity;
-        if (distance < minDistance) {
-          minDistance = distance;
-          currentNode = nodeId;
-        }
-      }
-
-      if (currentNode === null || minDistance === Infinity) {
-        break; // No path exists
-      }
+    // Best known cost from the start, and the node we reached each one from
+    const distances = new Map<string, number>([[startId, 0]]);
+    const previous = new Map<string, string | null>([[startId, null]]);
+    const closed = new Set<string>();
+    const open = new MinHeap();
+    open.push(startId, heuristic(startId));
 
-      unvisited.delete(currentNode);
+    while (open.size > 0) {
+      const { id: currentNode } = open.pop()!;
+      if (closed.has(currentNode)) continue; // Stale heap entry
+      closed.add(currentNode);
 
       // If we reached the destination, we can stop
       if (currentNode === endId) {
         break;
       }
 
-      // Update distances to neighbors
+      const currentDistance = distances.get(currentNode)!;
       const edges = this.edges.get(currentNode) || [];
       for (const edge of edges) {
-        if (unvisited.has(edge.to)) {
-          const newDistance = minDistance + edge.cost;
-          const currentDistance = distances.get(edge.to) || Infinity;
-          
-          if (newDistance < currentDistance) {
-            distances.set(edge.to, newDistance);
-            previous.set(edge.to, currentNode);
-          }
+        if (closed.has(edge.to)) continue;
+
+        const terrainCost = edge.cost - edge.weather_penalty;
+        const edgeWeight = edge.distance + (terrainCost - edge.distance) * costWeight + edge.weather_penalty;
+        const newDistance = currentDistance + edgeWeight;
+
+        if (newDistance < (distances.get(edge.to) ?? Infinity)) {
+          distances.set(edge.to, newDistance);
+          previous.set(edge.to, currentNode);
+          open.push(edge.to, newDistance + heuristic(edge.to));
         }
       }
     }
 
     // Check if we found a path to the destination
-    if (distances.get(endId) === Infinity) {
+    if (!distances.has(endId)) {
       return null;
     }
 
@@ -303,7 +506,16 @@ export class FlightRoutingService {
   }
 
   /**
-   * Reconstruct the optimal path from Dijkstra's algorithm results
+   * Lowest possible blended cost per km (open water, no climbs, no weather),
+   * which keeps the A* heuristic from overestimating
+   */
+  private calculateMinCostPerKm(costWeight: number): number {
+    const bestTerrainModifier = Math.max(...Object.values(TERRAIN_MODIFIERS));
+    return Math.max(0, 1 + (1 / bestTerrainModifier - 1) * costWeight);
+  }
+
+  /**
+   * Reconstruct the optimal path from A* search results
    */
   private reconstructPath(
     previous: Map<string, string | null>,
@@ -337,111 +549,17 @@ export class FlightRoutingService {
   }
 
   /**
-   * Calculate terrain type based on location (simplified implementation)
+   * Terrain under a location, from the bundled terrain dataset
    */
   private getTerrainType(location: LocationData): TerrainType {
-    // Simplified terrain detection based on coordinates
-    // In a real implementation, this would use geographic data services
-    
-    const { latitude, longitude } = location;
-    
-    // Ocean detection (very simplified)
-    if (this.isOverOcean(latitude, longitude)) {
-      return TerrainType.OCEAN;
-    }
-    
-    // Mountain ranges (simplified detection)
-    if (this.isOverMountains(latitude, longitude)) {
-      return TerrainType.MOUNTAIN;
-    }
-    
-    // Desert regions (simplified detection)
-    if (this.isOverDesert(latitude, longitude)) {
-      return TerrainType.DESERT;
-    }
-    
-    // Default to land
-    return TerrainType.LAND;
-  }
-
-  /**
-   * Simplified ocean detection
-   */
-  private isOverOcean(latitude: number, longitude: number): boolean {
-    // Very basic ocean detection - in reality would use geographic data
-    // Atlantic Ocean (more specific bounds)
-    if (longitude > -60 && longitude < -10 && latitude > 10 && latitude < 60) {
-      return true;
-    }
-    // Pacific Ocean (more specific bounds)
-    if ((longitude > 140 || longitude < -140) && Math.abs(latitude) < 60) {
-      return true;
-    }
-    // Indian Ocean
-    if (longitude > 60 && longitude < 100 && latitude > -40 && latitude < 20) {
-      return true;
-    }
-    return false;
+    return terrainLookup.getTerrainType(location);
   }
 
   /**
-   * Simplified mountain detection
-   */
-  private isOverMountains(latitude: number, longitude: number): boolean {
-    // Rocky Mountains (more specific)
-    if (longitude > -115 && longitude < -105 && latitude > 35 && latitude < 45) {
-      return true;
-    }
-    // Alps (more specific)
-    if (longitude > 6 && longitude < 14 && latitude > 45.5 && latitude < 47.5) {
-      return true;
-    }
-    // Himalayas (more specific)
-    if (longitude > 75 && longitude < 85 && latitude > 27 && latitude < 32) {
-      return true;
-    }
-    return false;
-  }
-
-  /**
-   * Simplified desert detection
-   */
-  private isOverDesert(latitude: number, longitude: number): boolean {
-    // Sahara (more specific)
-    if (longitude > -5 && longitude < 25 && latitude > 18 && latitude < 28) {
-      return true;
-    }
-    // Arabian Desert (more specific)
-    if (longitude > 38 && longitude < 52 && latitude > 18 && latitude < 28) {
-      return true;
-    }
-    // Southwestern US deserts (more specific, avoid overlap with mountains)
-    if (longitude > -118 && longitude < -108 && latitude > 28 && latitude < 38) {
-      return true;
-    }
-    return false;
-  }
-
-  /**
-   * Calculate altitude based on terrain type
+   * Flying altitude over a location's terrain
    */
   private calculateAltitude(location: LocationData): number {
-    const terrain = this.getTerrainType(location);
-    
-    switch (terrain) {
-      case TerrainType.OCEAN:
-        return 100; // Low altitude over water
-      case TerrainType.MOUNTAIN:
-        return 3000; // High altitude over mountains
-      case TerrainType.DESERT:
-        return 1000; // Medium altitude over desert
-      case TerrainType.FOREST:
-        return 500; // Low-medium altitude over forest
-      case TerrainType.URBAN:
-        return 800; // Medium altitude over cities
-      default:
-        return 600; // Default altitude for land
-    }
+    return terrainLookup.getAltitude(location);
   }
 
   /**
@@ -469,9 +587,16 @@ export class FlightRoutingService {
   }
 
   /**
-   * Calculate optimal route between two locations
+   * Calculate optimal route between two locations. Lower `costWeight`
+   * trades easy terrain for a shorter path (see findOptimalPath); weather
+   * cells push the route around storms.
    */
-  calculateRoute(start: LocationData, end: LocationData): PathResult | null {
+  calculateRoute(
+    start: LocationData,
+    end: LocationData,
+    costWeight: number = 1,
+    weatherCells: WeatherCell[] = []
+  ): PathResult | null {
     try {
       console.log(`
 🗺️ Calculating route:
@@ -479,142 +604,110 @@ export class FlightRoutingService {
    To: [${end.latitude.toFixed(4)}, ${end.longitude.toFixed(4)}]
       `);
 
-      // Generate waypoints along great circle route
-      const waypoints = this.generateWaypoints(start, end);
-      
-      if (waypoints.length === 0) {
-        console.log('❌ Failed to generate waypoints');
-        return null;
-      }
+      return this.planRoute(start, end, costWeight, { weatherCells });
+    } catch (error) {
+      console.error('Error calculating route:', error);
+      return null;
+    }
+  }
 
-      console.log(`
-📍 Generated ${waypoints.length} waypoints along great circle route
-   Initial terrain types:
-   - Start: ${waypoints[0].terrain} (${waypoints[0].altitude}m)
-   - End: ${waypoints[waypoints.length - 1].terrain} (${waypoints[waypoints.length - 1].altitude}m)
-      `);
+  /**
+   * Plan a route: direct for hops shorter than one corridor row, otherwise
+   * A* over the corridor grid
+   */
+  private planRoute(
+    start: LocationData,
+    end: LocationData,
+    costWeight: number,
+    options: RouteOptions
+  ): PathResult | null {
+    const totalDistance = calculateDistance(start, end);
 
-      // For simple cases (2 waypoints), return direct route
-      if (waypoints.length === 2) {
-        const totalDistance = calculateDistance(start, end);
-        const routeWaypoints: RouteWaypoint[] = waypoints.map((node, index) => ({
-          latitude: node.location.latitude,
-          longitude: node.location.longitude,
-          altitude: node.altitude,
-          timestamp: new Date(Date.now() + index * 60000)
-        }));
+    // For simple cases, return direct route
+    if (totalDistance <= this.config.stepKm) {
+      const waypoints = this.generateWaypoints(start, end, this.config.stepKm);
+      const routeWaypoints: RouteWaypoint[] = waypoints.map((node, index) => ({
+        latitude: node.location.latitude,
+        longitude: node.location.longitude,
+        altitude: node.altitude,
+        timestamp: new Date(Date.now() + index * 60000)
+      }));
 
-        console.log(`
+      console.log(`
 🛫 Using direct route:
    Distance: ${totalDistance.toFixed(2)}km
-   Terrain: ${waypoints[0].terrain} → ${waypoints[1].terrain}
-   Altitude: ${waypoints[0].altitude}m → ${waypoints[1].altitude}m
-        `);
-
-        return {
-          path: waypoints,
-          totalDistance,
-          totalCost: totalDistance, // Simple cost = distance for direct routes
-          waypoints: routeWaypoints
-        };
-      }
-      
-      console.log(`
-🔄 Complex route detected, analyzing terrain and building route graph...
+   Terrain: ${waypoints[0].terrain} → ${waypoints[waypoints.length - 1].terrain}
+   Altitude: ${waypoints[0].altitude}m → ${waypoints[waypoints.length - 1].altitude}m
       `);
 
-      // Build graph with waypoints
-      this.buildGraph(waypoints);
-      
-      // Find optimal path using Dijkstra's algorithm
-      const startId = waypoints[0].id;
-      const endId = waypoints[waypoints.length - 1].id;
-      
+      return {
+        path: waypoints,
+        totalDistance,
+        totalCost: totalDistance, // Simple cost = distance for direct routes
+        waypoints: routeWaypoints
+      };
+    }
+
+    const { startId, endId } = this.buildCorridorGraph(start, end, options);
+    const terrains = Array.from(this.nodes.values()).map(node => node.terrain);
+
+    console.log(`
+🧮 Running A* over the route corridor:
+   - Grid nodes: ${this.nodes.size}
+   - Considering terrain types: ${Array.from(new Set(terrains)).join(', ')}
+   - Weather cells: ${this.weatherCells.length}
+    `);
+
+    const result = this.findOptimalPath(startId, endId, costWeight);
+
+    if (result) {
       console.log(`
-🧮 Running Dijkstra's algorithm:
-   - Analyzing ${waypoints.length} waypoints
-   - Considering terrain types: ${Array.from(new Set(waypoints.map(w => w.terrain))).join(', ')}
-   - Altitude range: ${Math.min(...waypoints.map(w => w.altitude))}m to ${Math.max(...waypoints.map(w => w.altitude))}m
-      `);
-      
-      const result = this.findOptimalPath(startId, endId);
-      
-      if (result) {
-        console.log(`
 ✅ Route calculation complete:
-   - Total distance: ${result.totalDistance.toFixed(2)}km
+   - Total distance: ${result.totalDistance.toFixed(2)}km (great circle ${totalDistance.toFixed(2)}km)
    - Waypoints used: ${result.path.length}
    - Terrain changes: ${result.path.map(node => node.terrain).join(' → ')}
-   - Average altitude: ${(result.path.reduce((sum, node) => sum + node.altitude, 0) / result.path.length).toFixed(0)}m
-        `);
-      } else {
-        console.log('❌ Failed to find optimal path');
-      }
-      
-      return result;
-    } catch (error) {
-      console.error('Error calculating route:', error);
-      return null;
+      `);
+    } else {
+      console.log('❌ Failed to find optimal path');
     }
+
+    return result;
   }
 
   /**
-   * Recalculate route with updated conditions (for weather changes)
+   * Recalculate route with updated conditions (for weather changes).
+   * Grid nodes within 100km of an avoid area are dropped; if that leaves no
+   * way through, the route ignores the avoid areas.
    */
   recalculateRoute(
     currentPosition: LocationData,
     destination: LocationData,
-    avoidAreas?: LocationData[]
+    avoidAreas?: LocationData[],
+    costWeight: number = 1,
+    weatherCells: WeatherCell[] = []
   ): PathResult | null {
     console.log(`
 🔄 Recalculating route due to conditions:
    From: [${currentPosition.latitude.toFixed(4)}, ${currentPosition.longitude.toFixed(4)}]
    To: [${destination.latitude.toFixed(4)}, ${destination.longitude.toFixed(4)}]
    Avoid areas: ${avoidAreas ? avoidAreas.length : 0}
+   Weather cells: ${weatherCells.length}
     `);
 
-    // Generate new waypoints from current position
-    const waypoints = this.generateWaypoints(currentPosition, destination);
-    
-    // Filter out waypoints in avoid areas if specified
-    if (avoidAreas && avoidAreas.length > 0) {
-      console.log(`
-⚠️ Avoiding areas:
-   ${avoidAreas.map((area, i) => 
-     `${i + 1}. [${area.latitude.toFixed(4)}, ${area.longitude.toFixed(4)}]`
-   ).join('\n   ')}
-      `);
-
-      const filteredWaypoints = waypoints.filter(waypoint => {
-        const isAvoided = avoidAreas.some(avoidArea => {
-          const distance = calculateDistance(waypoint.location, avoidArea);
-          return distance < 100; // Avoid areas within 100km
-        });
-        
-        if (isAvoided) {
-          console.log(`🚫 Avoiding waypoint at [${waypoint.location.latitude.toFixed(4)}, ${waypoint.location.longitude.toFixed(4)}]`);
+    try {
+      if (avoidAreas && avoidAreas.length > 0) {
+        const avoiding = this.planRoute(currentPosition, destination, costWeight, { avoidAreas, weatherCells });
+        if (avoiding) {
+          return avoiding;
         }
-        
-        return !isAvoided;
-      });
-      
-      console.log(`
-📊 Route adjustment:
-   Original waypoints: ${waypoints.length}
-   After filtering: ${filteredWaypoints.length}
-      `);
-      
-      // If we filtered out too many waypoints, use original route
-      if (filteredWaypoints.length < 2) {
-        console.log('⚠️ Too many waypoints filtered out, reverting to original route');
-        return this.calculateRoute(currentPosition, destination);
+        console.log('⚠️ No way around the avoided areas, reverting to original route');
       }
-      
-      this.buildGraph(filteredWaypoints);
-      return this.findOptimalPath(filteredWaypoints[0].id, filteredWaypoints[filteredWaypoints.length - 1].id);
+
+      return this.planRoute(currentPosition, destination, costWeight, { weatherCells });
+    } catch (error) {
+      console.error('Error recalculating route:', error);
+      return null;
     }
-    
-    return this.calculateRoute(currentPosition, destination);
   }
 }
 
@@ -0,0 +1,193 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getRepository, ScrapbookUpdate } from '@/lib/repository';
+import { getSimulation, Simulation, SimulationClock } from '@/lib/simulation-clock';
+import { ScrapbookCard, ScrapbookEntry } from '@/types';
+import { postcardImageUrl } from './postcardRenderer';
+
+/** What a user sends to retag or pin an entry */
+export interface ScrapbookInput {
+  tags?: unknown;
+  pinned?: unknown;
+}
+
+/** A user's whole scrapbook, as downloaded */
+export interface ScrapbookExport {
+  exported_at: string;
+  entries: ScrapbookCard[];
+}
+
+/**
+ * Scrapbook configuration
+ */
+interface ScrapbookConfig {
+  maxTagsPerEntry: number;
+  maxTagLength: number;
+}
+
+/**
+ * Default scrapbook configuration
+ */
+const DEFAULT_CONFIG: ScrapbookConfig = {
+  maxTagsPerEntry: 10,
+  maxTagLength: 30
+};
+
+/**
+ * Rejected scrapbook request, carrying the HTTP status routes should return
+ */
+export class ScrapbookError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ScrapbookError';
+  }
+}
+
+/**
+ * Canonical form of a tag, so "#Beach Days" and "beach-days" match
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Delivered honks a recipient keeps, tagged and pinned, apart from the inbox
+ */
+export class ScrapbookService {
+  private config: ScrapbookConfig;
+  private simulation: Partial<Simulation>;
+
+  constructor(config: Partial<ScrapbookConfig> = {}, simulation: Partial<Simulation> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.simulation = simulation;
+  }
+
+  private get clock(): SimulationClock {
+    return this.simulation.clock ?? getSimulation().clock;
+  }
+
+  private validateTags(tags: unknown): string[] {
+    if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+      throw new ScrapbookError('tags must be an array of strings');
+    }
+
+    const normalized = [...new Set((tags as string[]).map(normalizeTag).filter(Boolean))];
+    if (normalized.length > this.config.maxTagsPerEntry) {
+      throw new ScrapbookError(`An entry can have at most ${this.config.maxTagsPerEntry} tags`);
+    }
+    if (normalized.some(tag => tag.length > this.config.maxTagLength)) {
+      throw new ScrapbookError(`Tags must be ${this.config.maxTagLength} characters or less`);
+    }
+    return normalized;
+  }
+
+  /**
+   * Keep a delivered honk. Saving one that is already kept returns the
+   * existing entry.
+   */
+  async add(userId: string, messageId: unknown): Promise<{ entry: ScrapbookCard; created: boolean }> {
+    if (typeof messageId !== 'string' || !messageId) {
+      throw new ScrapbookError('messageId is required');
+    }
+
+    const repository = getRepository();
+    const message = await repository.messages.findById(messageId);
+    // Only the recipient can keep a honk; anyone else's looks like a missing one
+    if (!message || message.recipient_id !== userId) {
+      throw new ScrapbookError('Message not found', 404);
+    }
+    if (message.status !== 'delivered') {
+      throw new ScrapbookError('Only delivered honks can be saved to the scrapbook');
+    }
+
+    const created = await repository.scrapbook.add({
+      id: uuidv4(),
+      user_id: userId,
+      message_id: messageId,
+      tags: [],
+      pinned: false,
+      created_at: new Date(this.clock.now())
+    });
+
+    const entry = await repository.scrapbook.findByMessage(userId, messageId);
+    const [card] = await this.toCards(entry ? [entry] : []);
+    if (!card) {
+      throw new ScrapbookError('Message not found', 404);
+    }
+    return { entry: card, created };
+  }
+
+  async list(userId: string, tag?: string | null): Promise<ScrapbookCard[]> {
+    const entries = await getRepository().scrapbook.listForUser(userId, tag ? normalizeTag(tag) || undefined : undefined);
+    return this.toCards(entries);
+  }
+
+  /**
+   * Retag or pin an entry. Tags replace the entry's old ones.
+   */
+  async update(id: string, userId: string, input: ScrapbookInput): Promise<ScrapbookCard> {
+    const update: ScrapbookUpdate = {};
+    if (input.tags !== undefined) {
+      update.tags = this.validateTags(input.tags);
+    }
+    if (input.pinned !== undefined) {
+      if (typeof input.pinned !== 'boolean') {
+        throw new ScrapbookError('pinned must be true or false');
+      }
+      update.pinned = input.pinned;
+    }
+    if (update.tags === undefined && update.pinned === undefined) {
+      throw new ScrapbookError('Nothing to update; send tags or pinned');
+    }
+
+    const entry = await getRepository().scrapbook.update(id, userId, update);
+    if (!entry) {
+      throw new ScrapbookError('Scrapbook entry not found', 404);
+    }
+    const [card] = await this.toCards([entry]);
+    return card;
+  }
+
+  async remove(id: string, userId: string): Promise<void> {
+    if (!await getRepository().scrapbook.delete(id, userId)) {
+      throw new ScrapbookError('Scrapbook entry not found', 404);
+    }
+  }
+
+  async export(userId: string): Promise<ScrapbookExport> {
+    return {
+      exported_at: new Date(this.clock.now()).toISOString(),
+      entries: await this.list(userId)
+    };
+  }
+
+  /**
+   * Join entries with their honks and rendered postcard images, keeping the entries' order
+   */
+  private async toCards(entries: ScrapbookEntry[]): Promise<ScrapbookCard[]> {
+    if (entries.length === 0) return [];
+
+    const repository = getRepository();
+    const messageIds = entries.map(entry => entry.message_id);
+    const messages = new Map((await repository.messages.findManyWithSender(messageIds)).map(message => [message.id, message]));
+    const postcards = await repository.postcards.findByMessageIds(messageIds);
+    const imageUrls = new Map(postcards.map(postcard => [postcard.message_id, postcardImageUrl(postcard.id)]));
+
+    return entries.flatMap(entry => {
+      const message = messages.get(entry.message_id);
+      if (!message) return [];
+      return [{
+        id: entry.id,
+        message_id: entry.message_id,
+        tags: entry.tags,
+        pinned: entry.pinned,
+        created_at: entry.created_at.toISOString(),
+        message: imageUrls.has(message.id) ? { ...message, postcard_image_url: imageUrls.get(message.id) } : message
+      }];
+    });
+  }
+}
+
+/**
+ * Singleton instance of the scrapbook service
+ */
+export const scrapbookService = new ScrapbookService();
@@ -1,7 +1,9 @@
 import { v4 as uuidv4 } from 'uuid';
 import { createHash, randomBytes } from 'crypto';
-import { dbManager } from '@/lib/database';
-import { User, AuthUser } from '@/types';
+import { getRepository } from '@/lib/repository';
+import { User, AuthUser, UserDevice } from '@/types';
+import { deviceService } from './devices';
+import { recoveryService } from './recovery';
 
 interface DeviceInfo {
   userAgent: string;
@@ -9,37 +11,73 @@ interface DeviceInfo {
   timezone: string;
   language: string;
   platform: string;
+  deviceSecret?: string; // Secret issued at this browser's last sign-in; only used to recognize it
 }
 
-interface DeviceLinkCode {
-  id: string;
-  user_id: string;
-  code: string;
-  created_at: Date;
-  expires_at: Date;
-  used: boolean;
+/** A device that just signed in, and the secret it should keep to be recognized next time */
+interface DeviceSignIn {
+  user: AuthUser;
+  device: UserDevice;
+  deviceSecret: string;
+}
+
+/**
+ * Wrong guesses an open link code survives. Codes are six digits, so this
+ * keeps the odds of guessing any one of them negligible.
+ */
+export const MAX_LINK_CODE_MISSES = 10;
+
+/**
+ * Rejected device sign-in, carrying the HTTP status routes should return
+ */
+export class DeviceAuthError extends Error {
+  constructor(message: string, public status: number = 401) {
+    super(message);
+    this.name = 'DeviceAuthError';
+  }
+}
+
+/**
+ * Whether a client-supplied device secret is well formed
+ */
+export function isDeviceSecret(value: unknown): value is string {
+  return typeof value === 'string' && /^[A-Za-z0-9_-]{32,128}$/.test(value);
 }
 
 export class SeamlessAuthService {
-  private get db() {
-    return dbManager.getDatabase();
+  private get repository() {
+    return getRepository();
   }
 
   /**
-   * Generate a unique device fingerprint
+   * Generate a secret for a new device. Secrets are only ever issued here,
+   * never taken from the client, so no two devices can share a fingerprint.
    */
-  private generateDeviceFingerprint(deviceInfo: DeviceInfo): string {
-    const fingerprint = [
-      deviceInfo.userAgent,
-      deviceInfo.screenResolution,
-      deviceInfo.timezone,
-      deviceInfo.language,
-      deviceInfo.platform,
-      // Add some randomness to prevent exact duplicates
-      Date.now().toString()
-    ].join('|');
-    
-    return createHash('sha256').update(fingerprint).digest('hex');
+  private generateDeviceSecret(): string {
+    return randomBytes(32).toString('base64url');
+  }
+
+  /**
+   * Stable fingerprint for a device: the hash of its secret, so the secret
+   * itself is never stored
+   */
+  private deviceFingerprint(deviceSecret: string): string {
+    return createHash('sha256').update(deviceSecret).digest('hex');
+  }
+
+  /**
+   * Register the device a user just signed in from, issuing its secret
+   */
+  private async registerDevice(
+    user: User,
+    deviceInfo: Pick<DeviceInfo, 'userAgent'>
+  ): Promise<DeviceSignIn> {
+    const deviceSecret = this.generateDeviceSecret();
+    const device = await deviceService.register(user.id, {
+      userAgent: deviceInfo.userAgent,
+      fingerprint: this.deviceFingerprint(deviceSecret)
+    });
+    return { user: this.userToAuthUser(user), device, deviceSecret };
   }
 
   /**
@@ -66,58 +104,50 @@ export class SeamlessAuthService {
   }
 
   /**
-   * Create or get user automatically based on device
+   * Sign a browser in by its device secret, or create an account for a
+   * browser that has none yet. New accounts get their recovery codes, which
+   * are not shown again. A secret whose device was removed is refused rather
+   * than quietly replaced by a new account, so the user can recover instead.
    */
-  async getOrCreateUser(deviceInfo: DeviceInfo): Promise<{ user: AuthUser; isNew: boolean }> {
+  async getOrCreateUser(
+    deviceInfo: DeviceInfo
+  ): Promise<DeviceSignIn & { isNew: boolean; recoveryCodes?: string[] }> {
     try {
-      const deviceFingerprint = this.generateDeviceFingerprint(deviceInfo);
-      
-      // Check if user exists with this device fingerprint
-      const existingUser = this.db.prepare(`
-        SELECT * FROM users WHERE device_fingerprint = ?
-      `).get(deviceFingerprint) as any;
+      if (deviceInfo.deviceSecret) {
+        // Check if this browser's secret belongs to a known device
+        const knownDevice = await deviceService.findByFingerprint(this.deviceFingerprint(deviceInfo.deviceSecret));
+        const existingUser = knownDevice ? await this.findUserById(knownDevice.user_id) : null;
+        if (!knownDevice || !existingUser) {
+          throw new DeviceAuthError('This browser is no longer signed in to its account');
+        }
 
-      if (existingUser) {
         // Update last active
-        this.updateLastActive(existingUser.id);
-        const user = dbManager.rowToUser(existingUser);
-        return { user: this.userToAuthUser(user), isNew: false };
+        await this.updateLastActive(existingUser.id);
+        return {
+          user: this.userToAuthUser(existingUser),
+          device: knownDevice,
+          deviceSecret: deviceInfo.deviceSecret,
+          isNew: false
+        };
       }
 
       // Create new user
       const userId = this.generateSecureUserId();
-      const now = new Date().toISOString();
       const username = `User${userId.substring(0, 8)}`;
 
-      const insertUser = this.db.prepare(`
-        INSERT INTO users (
-          id, username, device_fingerprint, created_at, last_active,
-          total_journey_points, current_rank, location_sharing_preference, opt_out_random
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `);
-
-      insertUser.run(
-        userId,
-        username,
-        deviceFingerprint,
-        now,
-        now,
-        0,
-        'Fledgling Courier',
-        'state',
-        0
-      );
-
-      // Get the created user
-      const newUser = this.findUserById(userId);
-      if (!newUser) {
-        throw new Error('Failed to create user');
-      }
+      const newUser = await this.repository.users.create({
+        id: userId,
+        username
+      });
+      const signIn = await this.registerDevice(newUser, deviceInfo);
+      const recoveryCodes = await recoveryService.generate(newUser.id);
 
-      return { user: this.userToAuthUser(newUser), isNew: true };
+      return { ...signIn, isNew: true, recoveryCodes };
 
     } catch (error) {
-      console.error('Error creating/getting user:', error);
+      if (!(error instanceof DeviceAuthError)) {
+        console.error('Error creating/getting user:', error);
+      }
       throw error;
     }
   }
@@ -131,23 +161,15 @@ export class SeamlessAuthService {
       const now = new Date();
       const expiresAt = new Date(now.getTime() + 10 * 60 * 1000); // 10 minutes
 
-      // Delete any existing codes for this user
-      this.db.prepare('DELETE FROM device_link_codes WHERE user_id = ?').run(userId);
-
-      // Insert new code
-      const insertCode = this.db.prepare(`
-        INSERT INTO device_link_codes (id, user_id, code, created_at, expires_at, used)
-        VALUES (?, ?, ?, ?, ?, ?)
-      `);
-
-      insertCode.run(
-        uuidv4(),
-        userId,
+      // Replace any existing codes for this user
+      await this.repository.deviceLinkCodes.replaceForUser({
+        id: uuidv4(),
+        user_id: userId,
         code,
-        now.toISOString(),
-        expiresAt.toISOString(),
-        false
-      );
+        created_at: now,
+        expires_at: expiresAt,
+        used: false
+      });
 
       return code;
     } catch (error) {
@@ -159,65 +181,81 @@ export class SeamlessAuthService {
   /**
    * Link device using 6-digit code
    */
-  async linkDeviceWithCode(code: string, deviceInfo: DeviceInfo): Promise<{ user: AuthUser; success: boolean }> {
+  async linkDeviceWithCode(
+    code: string,
+    deviceInfo: DeviceInfo
+  ): Promise<Partial<DeviceSignIn> & { success: boolean }> {
     try {
       const now = new Date();
       
       // Find valid code
-      const linkCode = this.db.prepare(`
-        SELECT * FROM device_link_codes 
-        WHERE code = ? AND used = 0 AND expires_at > ?
-      `).get(code, now.toISOString()) as any;
+      const linkCode = await this.repository.deviceLinkCodes.findValid(code, now);
 
       if (!linkCode) {
+        await this.repository.deviceLinkCodes.recordMiss(now, MAX_LINK_CODE_MISSES);
         throw new Error('Invalid or expired code');
       }
 
       // Mark code as used
-      this.db.prepare('UPDATE device_link_codes SET used = 1 WHERE id = ?').run(linkCode.id);
+      await this.repository.deviceLinkCodes.markUsed(linkCode.id);
 
       // Get user
-      const user = this.findUserById(linkCode.user_id);
+      const user = await this.findUserById(linkCode.user_id);
       if (!user) {
         throw new Error('User not found');
       }
 
-      // Update user's device fingerprint to include new device
-      const newFingerprint = this.generateDeviceFingerprint(deviceInfo);
-      this.db.prepare(`
-        UPDATE users SET device_fingerprint = ?, last_active = ? WHERE id = ?
-      `).run(newFingerprint, now.toISOString(), user.id);
+      // Add the new device alongside the account's other devices
+      const signIn = await this.registerDevice(user, deviceInfo);
+      await this.repository.users.update(user.id, { last_active: now });
 
-      return { user: this.userToAuthUser(user), success: true };
+      return { ...signIn, success: true };
     } catch (error) {
       console.error('Error linking device:', error);
-      return { user: null as any, success: false };
+      return { success: false };
     }
   }
 
+  /**
+   * Sign in to an account with one of its recovery codes, adding this
+   * browser as a new device
+   */
+  async recoverAccount(
+    code: string,
+    deviceInfo: Pick<DeviceInfo, 'userAgent'>
+  ): Promise<DeviceSignIn & { remainingCodes: number }> {
+    const userId = await recoveryService.redeem(code);
+    const user = await this.findUserById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const signIn = await this.registerDevice(user, deviceInfo);
+    await this.updateLastActive(user.id);
+
+    return { ...signIn, remainingCodes: await recoveryService.remaining(user.id) };
+  }
+
   /**
    * Clean up expired codes
    */
   async cleanupExpiredCodes(): Promise<void> {
-    const now = new Date();
-    this.db.prepare('DELETE FROM device_link_codes WHERE expires_at < ?').run(now.toISOString());
+    await this.repository.deviceLinkCodes.deleteExpired(new Date());
   }
 
   // Private helper methods
-  private findUserById(id: string): User | null {
+  private async findUserById(id: string): Promise<User | null> {
     try {
-      const row = this.db.prepare('SELECT * FROM users WHERE id = ?').get(id) as any;
-      return row ? dbManager.rowToUser(row) : null;
+      return await this.repository.users.findById(id);
     } catch (error) {
       console.error('Find user by id error:', error);
       return null;
     }
   }
 
-  private updateLastActive(userId: string): void {
+  private async updateLastActive(userId: string): Promise<void> {
     try {
-      const now = new Date().toISOString();
-      this.db.prepare('UPDATE users SET last_active = ? WHERE id = ?').run(now, userId);
+      await this.repository.users.update(userId, { last_active: new Date() });
     } catch (error) {
       console.error('Update last active error:', error);
     }
@@ -240,7 +278,8 @@ export class SeamlessAuthService {
       total_distance_traveled: user.total_distance_traveled || 0,
       countries_visited: user.countries_visited || [],
       states_visited: user.states_visited || [],
-      achievements: user.achievements || []
+      achievements: user.achievements || [],
+      time_zone: user.time_zone
     };
   }
 }
@@ -0,0 +1,193 @@
+import { createHash, randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { getRepository } from '@/lib/repository';
+import { getSimulation, Simulation, SimulationClock } from '@/lib/simulation-clock';
+import { SessionTokens } from '@/types';
+
+/** Only ever used outside production, where JWT_SECRET is required */
+const DEVELOPMENT_JWT_SECRET = 'honk-development-secret';
+
+/** Claims in an access token */
+export interface AccessClaims {
+  userId: string;
+  sessionId: string; // The refresh token family the access token was issued from
+  deviceId?: string;
+}
+
+/**
+ * Session configuration
+ */
+interface SessionConfig {
+  accessTokenTtlSeconds: number;
+  refreshTokenTtlMs: number;
+}
+
+/**
+ * Default session configuration
+ */
+const DEFAULT_CONFIG: SessionConfig = {
+  accessTokenTtlSeconds: 15 * 60,
+  refreshTokenTtlMs: 30 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Rejected refresh or sign-out, carrying the HTTP status routes should return
+ */
+export class SessionError extends Error {
+  constructor(message: string, public status: number = 401) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+/**
+ * The secret access tokens are signed with. Production refuses to fall
+ * back to a built-in secret.
+ */
+export function jwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET must be set in production');
+  }
+  return DEVELOPMENT_JWT_SECRET;
+}
+
+/**
+ * Refresh tokens are only stored as their SHA-256 hash
+ */
+export function hashRefreshToken(refreshToken: string): string {
+  return createHash('sha256').update(refreshToken).digest('hex');
+}
+
+/**
+ * Short-lived access tokens renewed by rotating refresh tokens. Every
+ * refresh token descended from one sign-in shares a family; presenting a
+ * token that was already exchanged revokes the whole family, since either
+ * the holder or a thief is replaying it.
+ */
+export class SessionService {
+  private config: SessionConfig;
+  private simulation: Partial<Simulation>;
+
+  constructor(config: Partial<SessionConfig> = {}, simulation: Partial<Simulation> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.simulation = simulation;
+  }
+
+  private get clock(): SimulationClock {
+    return this.simulation.clock ?? getSimulation().clock;
+  }
+
+  /**
+   * Start a new session for a sign-in
+   */
+  async issue(userId: string, deviceId?: string): Promise<SessionTokens> {
+    return this.createTokens(userId, uuidv4(), deviceId);
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token
+   */
+  async refresh(refreshToken: string): Promise<SessionTokens> {
+    const repository = getRepository();
+    const session = await repository.sessions.findByTokenHash(hashRefreshToken(refreshToken));
+    if (!session) {
+      throw new SessionError('Invalid refresh token');
+    }
+    if (session.revoked_at) {
+      throw new SessionError('Session has been signed out');
+    }
+
+    const now = new Date(this.clock.now());
+    if (session.expires_at <= now) {
+      throw new SessionError('Refresh token has expired');
+    }
+
+    if (!await repository.sessions.rotate(session.id, now)) {
+      console.warn(`Refresh token reuse detected, revoking session ${session.family_id}`);
+      await repository.sessions.revokeFamily(session.family_id, now);
+      throw new SessionError('Refresh token was already used; please sign in again');
+    }
+
+    return this.createTokens(session.user_id, session.family_id, session.device_id);
+  }
+
+  /**
+   * Decode an access token, or null if it is invalid, expired or its
+   * session has been revoked
+   */
+  async verifyAccessToken(token: string): Promise<AccessClaims | null> {
+    let claims: AccessClaims;
+    try {
+      claims = jwt.verify(token, jwtSecret(), {
+        clockTimestamp: Math.floor(this.clock.now() / 1000)
+      }) as AccessClaims;
+    } catch {
+      return null;
+    }
+
+    // Tokens issued before sessions were tracked cannot be revoked, so they are not accepted
+    if (!claims.sessionId) {
+      return null;
+    }
+
+    const active = await getRepository().sessions.isFamilyActive(claims.sessionId, new Date(this.clock.now()));
+    return active ? claims : null;
+  }
+
+  /**
+   * Sign out one session
+   */
+  async revoke(sessionId: string): Promise<void> {
+    await getRepository().sessions.revokeFamily(sessionId, new Date(this.clock.now()));
+  }
+
+  /**
+   * Sign out the session a refresh token belongs to
+   */
+  async revokeRefreshToken(refreshToken: string): Promise<void> {
+    const session = await getRepository().sessions.findByTokenHash(hashRefreshToken(refreshToken));
+    if (!session) {
+      throw new SessionError('Invalid refresh token');
+    }
+    await this.revoke(session.family_id);
+  }
+
+  /**
+   * Sign out every session the user has, on every device
+   */
+  async revokeAll(userId: string): Promise<void> {
+    await getRepository().sessions.revokeByUser(userId, new Date(this.clock.now()));
+  }
+
+  private async createTokens(userId: string, familyId: string, deviceId?: string): Promise<SessionTokens> {
+    const now = this.clock.now();
+    const refreshToken = randomBytes(32).toString('base64url');
+
+    await getRepository().sessions.create({
+      id: uuidv4(),
+      family_id: familyId,
+      user_id: userId,
+      device_id: deviceId,
+      token_hash: hashRefreshToken(refreshToken),
+      created_at: new Date(now),
+      expires_at: new Date(now + this.config.refreshTokenTtlMs)
+    });
+
+    const claims: AccessClaims = { userId, sessionId: familyId, ...(deviceId && { deviceId }) };
+    const token = jwt.sign(
+      { ...claims, iat: Math.floor(now / 1000) },
+      jwtSecret(),
+      { expiresIn: this.config.accessTokenTtlSeconds }
+    );
+
+    return { token, refreshToken, expiresIn: this.config.accessTokenTtlSeconds };
+  }
+}
+
+/**
+ * Singleton instance of the session service
+ */
+export const sessionService = new SessionService();
@@ -0,0 +1,289 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getRepository, Page, StickerImage, StickerListing } from '@/lib/repository';
+import { getSimulation, Simulation, SimulationClock } from '@/lib/simulation-clock';
+import { StickerImageType, StickerRecord, StickerSummary } from '@/types';
+
+export interface StickerUpload {
+  name: string;
+  /** Base64 data URL, as produced by the sticker editor's canvas */
+  image: string;
+  is_public?: boolean;
+}
+
+export interface DecodedStickerImage {
+  mime_type: StickerImageType;
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Sticker library configuration
+ */
+interface StickerConfig {
+  maxBytes: number;
+  maxDimension: number;
+  maxNameLength: number;
+  maxStickersPerUser: number;
+}
+
+/**
+ * Default sticker library configuration
+ */
+const DEFAULT_CONFIG: StickerConfig = {
+  maxBytes: 1024 * 1024,
+  maxDimension: 1024,
+  maxNameLength: 40,
+  maxStickersPerUser: 100
+};
+
+const DATA_URL_PATTERN = /^data:([\w.+-]+\/[\w.+-]+);base64,([A-Za-z0-9+/=\s]+)$/;
+
+/**
+ * Rejected sticker request, carrying the HTTP status routes should return
+ */
+export class StickerError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'StickerError';
+  }
+}
+
+/**
+ * Work out the image format from its leading bytes, ignoring whatever
+ * type the upload claimed
+ */
+export function sniffStickerImageType(data: Buffer): StickerImageType | null {
+  if (data.length >= 8 && data.readUInt32BE(0) === 0x89504e47 && data.readUInt32BE(4) === 0x0d0a1a0a) {
+    return 'image/png';
+  }
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (data.length >= 6 && /^GIF8[79]a$/.test(data.toString('ascii', 0, 6))) {
+    return 'image/gif';
+  }
+  if (data.length >= 12 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  return null;
+}
+
+/**
+ * Read pixel dimensions from the image header without decoding the image
+ */
+export function readStickerImageSize(data: Buffer, type: StickerImageType): { width: number; height: number } | null {
+  try {
+    switch (type) {
+      case 'image/png':
+        // IHDR is always the first chunk
+        return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+
+      case 'image/gif':
+        return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+
+      case 'image/jpeg': {
+        let offset = 2;
+        while (offset + 9 < data.length) {
+          if (data[offset] !== 0xff) return null;
+          const marker = data[offset + 1];
+          // Start-of-frame markers carry the size; C4, C8 and CC are other tables
+          if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+          }
+          offset += 2 + data.readUInt16BE(offset + 2);
+        }
+        return null;
+      }
+
+      case 'image/webp': {
+        const chunk = data.toString('ascii', 12, 16);
+        if (chunk === 'VP8 ') {
+          return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+        }
+        if (chunk === 'VP8L') {
+          const bits = data.readUInt32LE(21);
+          return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+        }
+        if (chunk === 'VP8X') {
+          return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+        }
+        return null;
+      }
+    }
+  } catch {
+    // Truncated header
+    return null;
+  }
+}
+
+/**
+ * Decode and check an uploaded sticker image against the size and
+ * dimension limits
+ */
+export function decodeStickerImage(
+  dataUrl: string,
+  limits: Pick<StickerConfig, 'maxBytes' | 'maxDimension'> = DEFAULT_CONFIG
+): DecodedStickerImage {
+  const match = typeof dataUrl === 'string' ? DATA_URL_PATTERN.exec(dataUrl) : null;
+  if (!match) {
+    throw new StickerError('image must be a base64 data URL');
+  }
+
+  // Base64 packs 3 bytes into 4 characters; refuse before decoding anything huge
+  const encoded = match[2].replace(/\s/g, '');
+  if (Math.floor(encoded.length * 3 / 4) > limits.maxBytes + 2) {
+    throw new StickerError(`Sticker images must be ${Math.round(limits.maxBytes / 1024)}KB or smaller`, 413);
+  }
+
+  const data = Buffer.from(encoded, 'base64');
+  if (data.length > limits.maxBytes) {
+    throw new StickerError(`Sticker images must be ${Math.round(limits.maxBytes / 1024)}KB or smaller`, 413);
+  }
+
+  const mimeType = sniffStickerImageType(data);
+  if (!mimeType) {
+    throw new StickerError('Stickers must be PNG, JPEG, GIF or WebP images');
+  }
+
+  const size = readStickerImageSize(data, mimeType);
+  if (!size || size.width === 0 || size.height === 0) {
+    throw new StickerError('Could not read the sticker image');
+  }
+  if (size.width > limits.maxDimension || size.height > limits.maxDimension) {
+    throw new StickerError(`Sticker images must be at most ${limits.maxDimension}x${limits.maxDimension} pixels`);
+  }
+
+  return { mime_type: mimeType, data, ...size };
+}
+
+/**
+ * Where a stored sticker's image is served from
+ */
+export function stickerImageUrl(id: string): string {
+  return `/api/stickers/${id}/image`;
+}
+
+/**
+ * Shape a stored sticker for API responses
+ */
+export function toStickerSummary(sticker: StickerListing): StickerSummary {
+  return {
+    id: sticker.id,
+    name: sticker.name,
+    image_url: stickerImageUrl(sticker.id),
+    width: sticker.width,
+    height: sticker.height,
+    is_public: sticker.is_public,
+    owner_id: sticker.owner_id,
+    owner_username: sticker.owner_username,
+    favorite_count: sticker.favorite_count,
+    favorited: sticker.favorited,
+    created_at: sticker.created_at.toISOString()
+  };
+}
+
+/**
+ * Custom stickers uploaded by couriers, kept private or shared with
+ * everyone through the public library
+ */
+export class StickerService {
+  private config: StickerConfig;
+  private simulation: Partial<Simulation>;
+
+  constructor(config: Partial<StickerConfig> = {}, simulation: Partial<Simulation> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.simulation = simulation;
+  }
+
+  private get clock(): SimulationClock {
+    return this.simulation.clock ?? getSimulation().clock;
+  }
+
+  /**
+   * Validate and store a new sticker for the user
+   */
+  async upload(ownerId: string, upload: StickerUpload): Promise<StickerListing> {
+    const name = typeof upload.name === 'string' ? upload.name.trim() : '';
+    if (!name) {
+      throw new StickerError('name is required');
+    }
+    if (name.length > this.config.maxNameLength) {
+      throw new StickerError(`name must be ${this.config.maxNameLength} characters or less`);
+    }
+
+    const image = decodeStickerImage(upload.image, this.config);
+
+    const repository = getRepository();
+    if (await repository.stickers.countByOwner(ownerId) >= this.config.maxStickersPerUser) {
+      throw new StickerError(`You can keep at most ${this.config.maxStickersPerUser} stickers`, 409);
+    }
+
+    const sticker: StickerRecord = {
+      id: uuidv4(),
+      owner_id: ownerId,
+      name,
+      mime_type: image.mime_type,
+      width: image.width,
+      height: image.height,
+      byte_size: image.data.length,
+      is_public: upload.is_public === true,
+      created_at: new Date(this.clock.now())
+    };
+    await repository.stickers.create(sticker, image.data);
+
+    return { ...sticker, favorite_count: 0, favorited: false };
+  }
+
+  async listMine(userId: string): Promise<StickerListing[]> {
+    return getRepository().stickers.listByOwner(userId);
+  }
+
+  async listFavorites(userId: string): Promise<StickerListing[]> {
+    return getRepository().stickers.listFavorites(userId);
+  }
+
+  async listPublic(viewerId: string, limit: number, offset: number): Promise<Page<StickerListing>> {
+    return getRepository().stickers.listPublic(viewerId, limit, offset);
+  }
+
+  /**
+   * Favorite a public sticker (or one of the user's own)
+   */
+  async favorite(stickerId: string, userId: string): Promise<void> {
+    const repository = getRepository();
+    const sticker = await repository.stickers.findById(stickerId);
+    if (!sticker || (!sticker.is_public && sticker.owner_id !== userId)) {
+      throw new StickerError('Sticker not found', 404);
+    }
+    await repository.stickers.favorite(stickerId, userId, new Date(this.clock.now()));
+  }
+
+  async unfavorite(stickerId: string, userId: string): Promise<void> {
+    await getRepository().stickers.unfavorite(stickerId, userId);
+  }
+
+  /**
+   * Delete one of the user's stickers
+   */
+  async delete(stickerId: string, userId: string): Promise<void> {
+    const repository = getRepository();
+    const sticker = await repository.stickers.findById(stickerId);
+    if (!sticker) {
+      throw new StickerError('Sticker not found', 404);
+    }
+    if (sticker.owner_id !== userId) {
+      throw new StickerError('Only the sticker owner can delete it', 403);
+    }
+    await repository.stickers.delete(stickerId, userId);
+  }
+
+  async getImage(stickerId: string): Promise<StickerImage | null> {
+    return getRepository().stickers.findImage(stickerId);
+  }
+}
+
+/**
+ * Singleton instance of the sticker service
+ */
+export const stickerService = new StickerService();
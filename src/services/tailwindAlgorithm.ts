@@ -1,5 +1,5 @@
 import { LocationData, User } from '@/types';
-import { dbManager } from '@/lib/database';
+import { getRepository } from '@/lib/repository';
 
 /**
  * Tailwind Algorithm for selecting random message recipients
@@ -10,23 +10,13 @@ class TailwindAlgorithm {
    * Find eligible recipients for random message delivery
    */
   async findEligibleRecipients(senderId: string, senderLocation: LocationData): Promise<User[]> {
-    const db = dbManager.getDatabase();
-    
     // Get active users who haven't opted out of random messages
     // Exclude users inactive for more than 14 days
     const fourteenDaysAgo = new Date();
     fourteenDaysAgo.setDate(fourteenDaysAgo.getDate() - 14);
     
-    const stmt = db.prepare(`
-      SELECT * FROM users 
-      WHERE id != ? 
-        AND opt_out_random = 0 
-        AND last_active > ?
-        AND current_location IS NOT NULL
-    `);
-    
-    const rows = stmt.all(senderId, fourteenDaysAgo.toISOString());
-    const users = rows.map((row: any) => dbManager.rowToUser(row));
+    const activeUsers = await getRepository().users.listActiveWithLocation(fourteenDaysAgo);
+    const users = activeUsers.filter(user => user.id !== senderId && !user.opt_out_random);
     
     // Filter out users that are too close (less than 500km)
     const eligibleUsers = users.filter(user => {
@@ -0,0 +1,169 @@
+import { LocationData } from '@/types';
+import {
+  DESERT_REGIONS,
+  FOREST_REGIONS,
+  GeoPolygon,
+  GeoRegion,
+  INLAND_WATERS,
+  LAND_REGIONS,
+  MOUNTAIN_REGIONS,
+  URBAN_AREAS,
+  UrbanArea
+} from '@/lib/terrain-data';
+import { calculateDistance } from '@/utils/distance';
+
+/**
+ * Terrain types that affect flight difficulty
+ */
+export enum TerrainType {
+  OCEAN = 'ocean',
+  LAND = 'land',
+  MOUNTAIN = 'mountain',
+  DESERT = 'desert',
+  FOREST = 'forest',
+  URBAN = 'urban'
+}
+
+/**
+ * Typical flying altitude over each terrain, in meters
+ */
+export const TERRAIN_ALTITUDES: Record<TerrainType, number> = {
+  [TerrainType.OCEAN]: 100,     // Low altitude over water
+  [TerrainType.LAND]: 600,      // Default altitude for land
+  [TerrainType.MOUNTAIN]: 3000, // High altitude over mountains
+  [TerrainType.DESERT]: 1000,   // Medium altitude over desert
+  [TerrainType.FOREST]: 500,    // Low-medium altitude over forest
+  [TerrainType.URBAN]: 800      // Medium altitude over cities
+};
+
+/**
+ * Polygon with its bounding box, so most lookups skip the ray cast
+ */
+interface IndexedPolygon {
+  polygon: GeoPolygon;
+  minLon: number;
+  maxLon: number;
+  minLat: number;
+  maxLat: number;
+}
+
+/**
+ * Terrain lookup backed by the bundled low-resolution dataset in
+ * `@/lib/terrain-data`. Works anywhere on the globe without network access.
+ */
+export class TerrainLookup {
+  private land: IndexedPolygon[];
+  private inlandWaters: IndexedPolygon[];
+  private mountains: IndexedPolygon[];
+  private deserts: IndexedPolygon[];
+  private forests: IndexedPolygon[];
+  private urbanAreas: UrbanArea[];
+
+  constructor() {
+    this.land = this.indexRegions(LAND_REGIONS);
+    this.inlandWaters = this.indexRegions(INLAND_WATERS);
+    this.mountains = this.indexRegions(MOUNTAIN_REGIONS);
+    this.deserts = this.indexRegions(DESERT_REGIONS);
+    this.forests = this.indexRegions(FOREST_REGIONS);
+    this.urbanAreas = URBAN_AREAS;
+  }
+
+  /**
+   * Terrain under a location. Water wins over land, then cities, mountains,
+   * deserts and forests; everything else is plain land.
+   */
+  getTerrainType(location: LocationData): TerrainType {
+    const longitude = this.normalizeLongitude(location.longitude);
+    const { latitude } = location;
+
+    if (!this.isLand(longitude, latitude)) {
+      return TerrainType.OCEAN;
+    }
+    if (this.isUrban(location)) {
+      return TerrainType.URBAN;
+    }
+    if (this.containsPoint(this.mountains, longitude, latitude)) {
+      return TerrainType.MOUNTAIN;
+    }
+    if (this.containsPoint(this.deserts, longitude, latitude)) {
+      return TerrainType.DESERT;
+    }
+    if (this.containsPoint(this.forests, longitude, latitude)) {
+      return TerrainType.FOREST;
+    }
+    return TerrainType.LAND;
+  }
+
+  /**
+   * Whether a location is over open water (oceans, seas and large lakes)
+   */
+  isOverWater(location: LocationData): boolean {
+    return !this.isLand(this.normalizeLongitude(location.longitude), location.latitude);
+  }
+
+  /**
+   * Flying altitude over a location, in meters
+   */
+  getAltitude(location: LocationData): number {
+    return TERRAIN_ALTITUDES[this.getTerrainType(location)];
+  }
+
+  private isLand(longitude: number, latitude: number): boolean {
+    return this.containsPoint(this.land, longitude, latitude)
+      && !this.containsPoint(this.inlandWaters, longitude, latitude);
+  }
+
+  private isUrban(location: LocationData): boolean {
+    return this.urbanAreas.some(area => calculateDistance(location, {
+      latitude: area.latitude,
+      longitude: area.longitude,
+      is_anonymous: false
+    }) <= area.radiusKm);
+  }
+
+  private containsPoint(polygons: IndexedPolygon[], longitude: number, latitude: number): boolean {
+    return polygons.some(indexed =>
+      longitude >= indexed.minLon && longitude <= indexed.maxLon &&
+      latitude >= indexed.minLat && latitude <= indexed.maxLat &&
+      this.pointInPolygon(indexed.polygon, longitude, latitude)
+    );
+  }
+
+  /**
+   * Even-odd ray casting test
+   */
+  private pointInPolygon(polygon: GeoPolygon, longitude: number, latitude: number): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const [lonI, latI] = polygon[i];
+      const [lonJ, latJ] = polygon[j];
+      const crosses = (latI > latitude) !== (latJ > latitude)
+        && longitude < ((lonJ - lonI) * (latitude - latI)) / (latJ - latI) + lonI;
+      if (crosses) inside = !inside;
+    }
+    return inside;
+  }
+
+  private indexRegions(regions: GeoRegion[]): IndexedPolygon[] {
+    return regions.map(({ polygon }) => {
+      const longitudes = polygon.map(([lon]) => lon);
+      const latitudes = polygon.map(([, lat]) => lat);
+      return {
+        polygon,
+        minLon: Math.min(...longitudes),
+        maxLon: Math.max(...longitudes),
+        minLat: Math.min(...latitudes),
+        maxLat: Math.max(...latitudes)
+      };
+    });
+  }
+
+  private normalizeLongitude(longitude: number): number {
+    return ((((longitude + 180) % 360) + 360) % 360) - 180;
+  }
+}
+
+/**
+ * Singleton instance of the terrain lookup
+ */
+export const terrainLookup = new TerrainLookup();
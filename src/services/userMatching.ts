@@ -1,6 +1,6 @@
 import { User, LocationData } from '@/types';
 import { calculateDistance, isTooBoringDistance, getDistanceWeight } from '@/utils/distance';
-import { dbManager } from '@/lib/database';
+import { getRepository } from '@/lib/repository';
 
 export interface EligibleUser {
   user: User;
@@ -90,18 +90,10 @@ export class UserMatchingService {
    * Requirement 2.3: Exclude users inactive for more than 14 days
    */
   private static async getAllActiveUsers(): Promise<User[]> {
-    const db = dbManager.getDatabase();
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - this.INACTIVE_THRESHOLD_DAYS);
 
-    const stmt = db.prepare(`
-      SELECT * FROM users 
-      WHERE last_active >= ? 
-      AND current_location IS NOT NULL
-    `);
-
-    const rows = stmt.all(cutoffDate.toISOString());
-    return rows.map(row => dbManager.rowToUser(row));
+    return getRepository().users.listActiveWithLocation(cutoffDate);
   }
 
   /**
@@ -268,16 +260,12 @@ export class UserMatchingService {
     }
 
     try {
-      const db = dbManager.getDatabase();
-      const stmt = db.prepare('SELECT * FROM users WHERE id = ?');
-      const row = stmt.get(recipientId);
+      const user = await getRepository().users.findById(recipientId);
 
-      if (!row) {
+      if (!user) {
         return { isValid: false, reason: 'Recipient not found' };
       }
 
-      const user = dbManager.rowToUser(row);
-
       if (user.opt_out_random) {
         return { isValid: false, reason: 'Recipient has opted out of random messages' };
       }
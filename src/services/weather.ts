@@ -1,4 +1,7 @@
-import { LocationData, WeatherEvent } from '@/types';
+import { LocationData, RouteWaypoint, WeatherEvent } from '@/types';
+import { getSimulation, RandomSource, Simulation } from '@/lib/simulation-clock';
+import { terrainLookup, TerrainType } from './terrainLookup';
+import { createWeatherProvider, WeatherProvider, WeatherReading } from './weatherProviders';
 
 /**
  * Weather condition types that affect flight speed
@@ -21,30 +24,28 @@ export const WEATHER_SPEED_MODIFIERS: Record<WeatherCondition, number> = {
 };
 
 /**
- * Open-Meteo API response interface
+ * Share of the wind's effect felt over each terrain: open water and bare
+ * ground are fully exposed, trees and buildings break it up
  */
-export interface OpenMeteoResponse {
-  latitude: number;
-  longitude: number;
-  generationtime_ms: number;
-  utc_offset_seconds: number;
-  timezone: string;
-  timezone_abbreviation: string;
-  elevation: number;
-  current_weather: {
-    temperature: number;
-    windspeed: number;
-    winddirection: number;
-    weathercode: number;
-    time: string;
-  };
-}
+export const TERRAIN_WIND_EXPOSURE: Record<TerrainType, number> = {
+  [TerrainType.OCEAN]: 1.0,
+  [TerrainType.DESERT]: 1.0,
+  [TerrainType.MOUNTAIN]: 1.0,
+  [TerrainType.LAND]: 0.85,
+  [TerrainType.FOREST]: 0.7,
+  [TerrainType.URBAN]: 0.7
+};
+
+/**
+ * Spacing of hourly forecast samples
+ */
+const FORECAST_STEP_MS = 60 * 60 * 1000;
 
 /**
  * Cached weather data
  */
-interface CachedWeatherData {
-  data: WeatherEvent;
+interface CachedWeatherData<T = WeatherEvent> {
+  data: T;
   timestamp: number;
   expiresAt: number;
 }
@@ -53,12 +54,20 @@ interface CachedWeatherData {
  * Weather service for fetching and processing weather data
  */
 export class WeatherService {
-  private baseUrl: string = 'https://api.open-meteo.com/v1/forecast';
+  private provider: WeatherProvider;
   private cache: Map<string, CachedWeatherData> = new Map();
+  private forecastCache: Map<string, CachedWeatherData<WeatherEvent[]>> = new Map();
   private cacheTimeout: number = 10 * 60 * 1000; // 10 minutes cache
+  private forecastCacheTimeout: number = 60 * 60 * 1000; // Forecasts refresh hourly
+  private simulation: Partial<Simulation>;
 
-  constructor() {
-    // No API key needed for Open-Meteo!
+  constructor(simulation: Partial<Simulation> = {}, provider?: WeatherProvider) {
+    this.simulation = simulation;
+    this.provider = provider ?? createWeatherProvider(undefined, simulation);
+  }
+
+  private get random(): RandomSource {
+    return this.simulation.random ?? getSimulation().random;
   }
 
   /**
@@ -74,18 +83,12 @@ export class WeatherService {
         return cached.data;
       }
 
-      // Fetch from Open-Meteo API (no API key needed!)
-      const url = `${this.baseUrl}?latitude=${location.latitude}&longitude=${location.longitude}&current_weather=true&timezone=auto&temperature_unit=fahrenheit`;
-
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        console.warn(`Weather API request failed: ${response.status} ${response.statusText}`);
+      const reading = await this.provider.fetchCurrent(location);
+      if (!reading) {
         return null;
       }
 
-      const data: OpenMeteoResponse = await response.json();
-      const weatherEvent = this.parseOpenMeteoResponse(data, location);
+      const weatherEvent = this.toWeatherEvent(reading, location);
 
       // Cache the result
       this.cacheWeatherData(cacheKey, weatherEvent);
@@ -98,14 +101,12 @@ export class WeatherService {
   }
 
   /**
-   * Parse Open-Meteo API response into WeatherEvent
+   * Classify a provider reading into a WeatherEvent
    */
-  private parseOpenMeteoResponse(data: OpenMeteoResponse, location: LocationData): WeatherEvent {
-    const current = data.current_weather;
-    const weatherCode = current.weathercode;
-    const windSpeedKmh = current.windspeed; // Already in km/h
-    const windDirection = current.winddirection;
-    const temperature = current.temperature;
+  toWeatherEvent(reading: WeatherReading, location: LocationData): WeatherEvent {
+    const weatherCode = reading.weatherCode;
+    const windSpeedKmh = reading.windSpeed; // Already in km/h
+    const windDirection = reading.windDirection;
 
     // Determine weather type and intensity based on WMO weather codes
     let type: WeatherCondition;
@@ -213,7 +214,7 @@ export class WeatherService {
       type = WeatherCondition.WIND;
       intensity = Math.min(1.0, windSpeedKmh / 50); // Normalize to 0-1
       // Wind affects speed by ±25% based on direction (simplified)
-      speedModifier = 1.0 + this.calculateWindEffect(windDirection, windSpeedKmh);
+      speedModifier = 1.0 + this.calculateWindEffect(windDirection, windSpeedKmh, location);
         } else {
           // Default to clear weather
           type = WeatherCondition.CLEAR;
@@ -227,41 +228,32 @@ export class WeatherService {
       intensity,
       speed_modifier: speedModifier,
       location,
-      timestamp: new Date(),
+      timestamp: reading.time,
       details: {
-        temperature: current.temperature,
-        windSpeed: current.windspeed,
-        windDirection: current.winddirection,
-        weatherCode: current.weathercode
+        temperature: reading.temperature,
+        windSpeed: reading.windSpeed,
+        windDirection: reading.windDirection,
+        weatherCode: reading.weatherCode
       }
     };
   }
 
   /**
    * Calculate wind effect on flight speed
-   * Simplified model: headwind reduces speed, tailwind increases it
+   * Simplified model: headwind reduces speed, tailwind increases it.
+   * Sheltered terrain under the location damps the effect.
    */
-  private calculateWindEffect(windDirection: number, windSpeedKmh: number): number {
+  private calculateWindEffect(windDirection: number, windSpeedKmh: number, location?: LocationData): number {
     // Simplified calculation - in reality would need flight direction
     // For now, use wind speed to determine effect magnitude
     const maxEffect = 0.25; // ±25% as per requirement 3.7
     const normalizedSpeed = Math.min(windSpeedKmh / 50, 1.0);
+    const exposure = location ? TERRAIN_WIND_EXPOSURE[terrainLookup.getTerrainType(location)] : 1.0;
 
     // Random factor to simulate varying wind effects
-    const randomFactor = (Math.random() - 0.5) * 2; // -1 to 1
-
-    return randomFactor * maxEffect * normalizedSpeed;
-  }
+    const randomFactor = (this.random() - 0.5) * 2; // -1 to 1
 
-  /**
-   * Simplified ocean detection for weather patterns
-   */
-  private isOverOcean(latitude: number, longitude: number): boolean {
-    // Very basic ocean detection - same as routing service
-    if (longitude > -60 && longitude < -10 && latitude > 10 && latitude < 60) return true;
-    if ((longitude > 140 || longitude < -140) && Math.abs(latitude) < 60) return true;
-    if (longitude > 60 && longitude < 100 && latitude > -40 && latitude < 20) return true;
-    return false;
+    return randomFactor * maxEffect * normalizedSpeed * exposure;
   }
 
   /**
@@ -296,6 +288,80 @@ export class WeatherService {
         this.cache.delete(key);
       }
     }
+    for (const [key, cached] of this.forecastCache.entries()) {
+      if (now >= cached.expiresAt) {
+        this.forecastCache.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Fetch the hourly forecast for a location as time-indexed WeatherEvents.
+   * Returns an empty list when the forecast is unavailable.
+   */
+  async fetchForecast(location: LocationData): Promise<WeatherEvent[]> {
+    try {
+      const cacheKey = this.getCacheKey(location);
+      const cached = this.forecastCache.get(cacheKey);
+
+      if (cached && Date.now() < cached.expiresAt) {
+        return cached.data;
+      }
+
+      const readings = await this.provider.fetchHourly(location);
+      if (readings.length === 0) {
+        return [];
+      }
+
+      const forecast = readings.map(reading => this.toWeatherEvent(reading, location));
+
+      const now = Date.now();
+      this.forecastCache.set(cacheKey, {
+        data: forecast,
+        timestamp: now,
+        expiresAt: now + this.forecastCacheTimeout
+      });
+
+      return forecast;
+    } catch (error) {
+      console.error('Error fetching weather forecast:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Pick the forecast hour closest to a moment, or null when the moment is
+   * outside the forecast's range
+   */
+  sampleForecast(forecast: WeatherEvent[], at: Date): WeatherEvent | null {
+    let closest: WeatherEvent | null = null;
+    let closestGap = Infinity;
+
+    for (const event of forecast) {
+      const gap = Math.abs(event.timestamp.getTime() - at.getTime());
+      if (gap < closestGap) {
+        closest = event;
+        closestGap = gap;
+      }
+    }
+
+    return closestGap <= FORECAST_STEP_MS ? closest : null;
+  }
+
+  /**
+   * Forecast weather at each waypoint for the time the flight is expected to
+   * pass it. Entries are null where no forecast covers the waypoint.
+   */
+  async fetchWeatherAlongRoute(waypoints: RouteWaypoint[]): Promise<Array<WeatherEvent | null>> {
+    return Promise.all(waypoints.map(async waypoint => {
+      const forecast = await this.fetchForecast({
+        latitude: waypoint.latitude,
+        longitude: waypoint.longitude,
+        is_anonymous: false
+      });
+      // Timestamps read back from storage arrive as strings
+      return this.sampleForecast(forecast, new Date(waypoint.timestamp));
+    }));
   }
 
   /**
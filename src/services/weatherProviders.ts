@@ -0,0 +1,384 @@
+import { LocationData } from '@/types';
+import { createSeededRandom, getSimulation, Simulation, SimulationClock } from '@/lib/simulation-clock';
+import { calculateBearing, calculateDestination, calculateDistance } from '@/utils/distance';
+import bundledRecording from '@/lib/weather-recording.json';
+
+/**
+ * Default Open-Meteo endpoint; override with OPEN_METEO_BASE_URL to point the
+ * client at a local fixture server
+ */
+const DEFAULT_OPEN_METEO_URL = 'https://api.open-meteo.com/v1/forecast';
+
+/**
+ * How far ahead hourly forecasts reach
+ */
+const FORECAST_DAYS = 7;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Raw conditions at one place and time, before they are classified into a
+ * WeatherEvent
+ */
+export interface WeatherReading {
+  time: Date;
+  temperature: number; // °F
+  windSpeed: number; // km/h
+  windDirection: number; // Degrees the wind blows from
+  weatherCode: number; // WMO weather interpretation code
+}
+
+export type WeatherProviderName = 'open-meteo' | 'fixture' | 'synthetic';
+
+/**
+ * Source of weather readings for WeatherService
+ */
+export interface WeatherProvider {
+  readonly name: WeatherProviderName;
+  /** Conditions right now, or null when unavailable */
+  fetchCurrent(location: LocationData): Promise<WeatherReading | null>;
+  /** Hourly readings from the current hour onwards; empty when unavailable */
+  fetchHourly(location: LocationData): Promise<WeatherReading[]>;
+}
+
+/**
+ * Open-Meteo current weather response
+ */
+export interface OpenMeteoResponse {
+  latitude: number;
+  longitude: number;
+  generationtime_ms: number;
+  utc_offset_seconds: number;
+  timezone: string;
+  timezone_abbreviation: string;
+  elevation: number;
+  current_weather: {
+    temperature: number;
+    windspeed: number;
+    winddirection: number;
+    weathercode: number;
+    time: string;
+  };
+}
+
+/**
+ * Open-Meteo hourly forecast response (requested with timeformat=unixtime)
+ */
+export interface OpenMeteoForecastResponse {
+  latitude: number;
+  longitude: number;
+  generationtime_ms: number;
+  utc_offset_seconds: number;
+  timezone: string;
+  timezone_abbreviation: string;
+  elevation: number;
+  hourly: {
+    time: number[];
+    temperature_2m: number[];
+    weathercode: number[];
+    windspeed_10m: number[];
+    winddirection_10m: number[];
+  };
+}
+
+/**
+ * One or more recorded Open-Meteo hourly responses
+ */
+export type WeatherRecording = OpenMeteoForecastResponse | OpenMeteoForecastResponse[];
+
+/**
+ * Readings recorded at one place
+ */
+interface RecordedStation {
+  location: LocationData;
+  readings: WeatherReading[];
+}
+
+/**
+ * Live weather from the Open-Meteo API (no API key needed)
+ */
+export class OpenMeteoProvider implements WeatherProvider {
+  readonly name = 'open-meteo' as const;
+  private baseUrl: string;
+
+  constructor(baseUrl: string = process.env.OPEN_METEO_BASE_URL || DEFAULT_OPEN_METEO_URL) {
+    this.baseUrl = baseUrl;
+  }
+
+  async fetchCurrent(location: LocationData): Promise<WeatherReading | null> {
+    const url = `${this.baseUrl}?latitude=${location.latitude}&longitude=${location.longitude}&current_weather=true&timezone=auto&temperature_unit=fahrenheit`;
+
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      console.warn(`Weather API request failed: ${response.status} ${response.statusText}`);
+      return null;
+    }
+
+    const data: OpenMeteoResponse = await response.json();
+    const current = data.current_weather;
+    return {
+      time: new Date(),
+      temperature: current.temperature,
+      windSpeed: current.windspeed,
+      windDirection: current.winddirection,
+      weatherCode: current.weathercode
+    };
+  }
+
+  async fetchHourly(location: LocationData): Promise<WeatherReading[]> {
+    const url = `${this.baseUrl}?latitude=${location.latitude}&longitude=${location.longitude}&hourly=temperature_2m,weathercode,windspeed_10m,winddirection_10m&forecast_days=${FORECAST_DAYS}&timeformat=unixtime&temperature_unit=fahrenheit`;
+
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      console.warn(`Weather forecast request failed: ${response.status} ${response.statusText}`);
+      return [];
+    }
+
+    const data: OpenMeteoForecastResponse = await response.json();
+    return parseHourlyReadings(data);
+  }
+}
+
+/**
+ * Replays recorded Open-Meteo forecasts on a loop, shifted to the present.
+ * Each location gets the recording nearest to it.
+ */
+export class FixtureWeatherProvider implements WeatherProvider {
+  readonly name = 'fixture' as const;
+  private stations: RecordedStation[];
+  private simulation: Partial<Simulation>;
+
+  constructor(
+    recording: WeatherRecording = bundledRecording,
+    simulation: Partial<Simulation> = {}
+  ) {
+    const responses = Array.isArray(recording) ? recording : [recording];
+    this.stations = responses
+      .map(response => ({
+        location: { latitude: response.latitude, longitude: response.longitude, is_anonymous: false },
+        readings: parseHourlyReadings(response)
+      }))
+      .filter(station => station.readings.length > 0);
+    this.simulation = simulation;
+  }
+
+  private get clock(): SimulationClock {
+    return this.simulation.clock ?? getSimulation().clock;
+  }
+
+  async fetchCurrent(location: LocationData): Promise<WeatherReading | null> {
+    const station = this.findStation(location);
+    if (!station) return null;
+
+    const reading = this.replayAt(station.readings, this.clock.now());
+    return { ...reading, time: new Date(this.clock.now()) };
+  }
+
+  async fetchHourly(location: LocationData): Promise<WeatherReading[]> {
+    const station = this.findStation(location);
+    if (!station) return [];
+
+    const firstHour = Math.floor(this.clock.now() / HOUR_MS) * HOUR_MS;
+    return Array.from({ length: FORECAST_DAYS * 24 }, (_, hour) =>
+      this.replayAt(station.readings, firstHour + hour * HOUR_MS)
+    );
+  }
+
+  /**
+   * The recorded hour that lines up with a moment, looping the recording
+   */
+  private replayAt(readings: WeatherReading[], at: number): WeatherReading {
+    const recordedHour = Math.floor(readings[0].time.getTime() / HOUR_MS);
+    const index = ((Math.floor(at / HOUR_MS) - recordedHour) % readings.length + readings.length) % readings.length;
+    return { ...readings[index], time: new Date(Math.floor(at / HOUR_MS) * HOUR_MS) };
+  }
+
+  private findStation(location: LocationData): RecordedStation | null {
+    let nearest: RecordedStation | null = null;
+    let nearestDistance = Infinity;
+    for (const station of this.stations) {
+      const distance = calculateDistance(location, station.location);
+      if (distance < nearestDistance) {
+        nearest = station;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+}
+
+/**
+ * A storm system drifting across the globe, reborn at its origin when its
+ * lifetime runs out
+ */
+interface StormSystem {
+  origin: LocationData;
+  heading: number; // Degrees
+  speedKmh: number;
+  radiusKm: number;
+  peakIntensity: number; // 0-1
+  lifetimeHours: number;
+  phaseHours: number;
+}
+
+export interface SyntheticWeatherOptions {
+  seed: number;
+  systemCount: number;
+}
+
+const DEFAULT_SYNTHETIC_OPTIONS: SyntheticWeatherOptions = {
+  seed: 1,
+  systemCount: 60
+};
+
+/**
+ * Deterministic made-up weather: seeded storm systems ride the westerlies
+ * and trade winds, with thunderstorms at their core, a rain shield around it
+ * and a windy front on the leading edge. The same seed and time always give
+ * the same weather, so demos and tests replay exactly.
+ */
+export class SyntheticWeatherProvider implements WeatherProvider {
+  readonly name = 'synthetic' as const;
+  private systems: StormSystem[];
+  private simulation: Partial<Simulation>;
+
+  constructor(options: Partial<SyntheticWeatherOptions> = {}, simulation: Partial<Simulation> = {}) {
+    const { seed, systemCount } = { ...DEFAULT_SYNTHETIC_OPTIONS, ...options };
+    const random = createSeededRandom(seed);
+    this.systems = Array.from({ length: systemCount }, () => {
+      const latitude = (random() < 0.5 ? -1 : 1) * (10 + random() * 55);
+      const westerlies = Math.abs(latitude) > 30;
+      return {
+        origin: { latitude, longitude: random() * 360 - 180, is_anonymous: false },
+        heading: (westerlies ? 60 : 240) + random() * 60,
+        speedKmh: 20 + random() * 40,
+        radiusKm: 400 + random() * 800,
+        peakIntensity: 0.5 + random() * 0.5,
+        lifetimeHours: 48 + random() * 96,
+        phaseHours: random() * 144
+      };
+    });
+    this.simulation = simulation;
+  }
+
+  private get clock(): SimulationClock {
+    return this.simulation.clock ?? getSimulation().clock;
+  }
+
+  async fetchCurrent(location: LocationData): Promise<WeatherReading | null> {
+    return this.readingAt(location, new Date(this.clock.now()));
+  }
+
+  async fetchHourly(location: LocationData): Promise<WeatherReading[]> {
+    const firstHour = Math.floor(this.clock.now() / HOUR_MS) * HOUR_MS;
+    return Array.from({ length: FORECAST_DAYS * 24 }, (_, hour) =>
+      this.readingAt(location, new Date(firstHour + hour * HOUR_MS))
+    );
+  }
+
+  /**
+   * Weather at a place and time
+   */
+  readingAt(location: LocationData, time: Date): WeatherReading {
+    const hours = time.getTime() / HOUR_MS;
+    const absLatitude = Math.abs(location.latitude);
+
+    // Strongest storm system overhead, if any
+    let strength = 0;
+    let stormCenter: LocationData | null = null;
+    for (const system of this.systems) {
+      const age = ((hours + system.phaseHours) % system.lifetimeHours + system.lifetimeHours) % system.lifetimeHours;
+      const center = {
+        ...calculateDestination(system.origin, system.speedKmh * age, system.heading),
+        is_anonymous: false
+      };
+      const distance = calculateDistance(location, center);
+      if (distance >= system.radiusKm) continue;
+
+      // Fronts run ahead of the low, so the leading side is rougher
+      const offset = Math.abs(((calculateBearing(center, location) - system.heading + 540) % 360) - 180);
+      const front = offset < 90 ? 1.2 : 0.8;
+      const lifeCycle = Math.sin((Math.PI * age) / system.lifetimeHours);
+      const influence = system.peakIntensity * lifeCycle * front * (1 - distance / system.radiusKm);
+      if (influence > strength) {
+        strength = influence;
+        stormCenter = center;
+      }
+    }
+
+    const temperature = 85 - 0.9 * absLatitude - strength * 10;
+    const prevailingDirection = absLatitude > 30 ? 270 : 90; // Westerlies or trade winds
+    const windSpeed = 8 + 12 * Math.abs(Math.sin((absLatitude * Math.PI) / 60)) + strength * 60;
+    const windDirection = stormCenter
+      ? (calculateBearing(stormCenter, location) + (location.latitude >= 0 ? 90 : 270)) % 360
+      : prevailingDirection;
+
+    return {
+      time,
+      temperature: Math.round(temperature * 10) / 10,
+      windSpeed: Math.round(windSpeed * 10) / 10,
+      windDirection: Math.round(windDirection),
+      weatherCode: this.weatherCodeFor(strength, temperature, location, hours)
+    };
+  }
+
+  private weatherCodeFor(strength: number, temperature: number, location: LocationData, hours: number): number {
+    const freezing = temperature <= 32;
+    if (strength > 0.9) return 99;
+    if (strength > 0.8) return 96;
+    if (strength > 0.65) return 95;
+    if (strength > 0.35) {
+      const level = strength > 0.55 ? 2 : strength > 0.45 ? 1 : 0;
+      return (freezing ? 71 : 61) + level * 2;
+    }
+    if (strength > 0.15) return strength > 0.25 ? 53 : 51;
+    if (strength > 0) return 3;
+
+    // Fair weather clouds drift slowly with latitude, longitude and time
+    const cloudiness = (Math.sin(location.latitude * 0.3 + hours * 0.05) + Math.cos(location.longitude * 0.2) + 2) / 4;
+    return Math.min(2, Math.floor(cloudiness * 3));
+  }
+}
+
+/**
+ * Turn an Open-Meteo hourly response into readings
+ */
+function parseHourlyReadings(data: OpenMeteoForecastResponse): WeatherReading[] {
+  const hourly = data.hourly;
+  return hourly.time.map((time, index) => ({
+    time: new Date(time * 1000),
+    temperature: hourly.temperature_2m[index],
+    windSpeed: hourly.windspeed_10m[index],
+    windDirection: hourly.winddirection_10m[index],
+    weatherCode: hourly.weathercode[index]
+  }));
+}
+
+/**
+ * Pick the weather provider from the environment.
+ * HONK_WEATHER_PROVIDER selects 'fixture' or 'synthetic'; everything else
+ * uses Open-Meteo.
+ */
+export function resolveWeatherProvider(env: NodeJS.ProcessEnv = process.env): WeatherProviderName {
+  const configured = env.HONK_WEATHER_PROVIDER?.toLowerCase();
+  if (configured === 'fixture' || configured === 'synthetic') {
+    return configured;
+  }
+  return 'open-meteo';
+}
+
+export function createWeatherProvider(
+  name: WeatherProviderName = resolveWeatherProvider(),
+  simulation: Partial<Simulation> = {}
+): WeatherProvider {
+  switch (name) {
+    case 'fixture':
+      return new FixtureWeatherProvider(bundledRecording, simulation);
+    case 'synthetic':
+      return new SyntheticWeatherProvider({}, simulation);
+    default:
+      return new OpenMeteoProvider();
+  }
+}
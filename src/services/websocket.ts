@@ -9,7 +9,7 @@ interface WebSocketMessage {
 }
 
 interface WebSocketResponse {
-  type: 'flight.progress' | 'flight.delivered' | 'error' | 'pong' | 'subscribed' | 'unsubscribed';
+  type: 'flight.progress' | 'flight.delivered' | 'flight.failed' | 'error' | 'pong' | 'subscribed' | 'unsubscribed';
   messageId?: string;
   data?: unknown;
   error?: string;
@@ -18,6 +18,7 @@ interface WebSocketResponse {
 // Event callback types
 type FlightProgressCallback = (progress: FlightProgress) => void;
 type FlightDeliveredCallback = (progress: FlightProgress) => void;
+type FlightFailedCallback = (progress: FlightProgress) => void;
 type ErrorCallback = (error: string) => void;
 type ConnectionCallback = (connected: boolean) => void;
 
@@ -39,6 +40,7 @@ export class WebSocketService {
   // Event callbacks
   private flightProgressCallbacks = new Map<string, FlightProgressCallback[]>();
   private flightDeliveredCallbacks = new Map<string, FlightDeliveredCallback[]>();
+  private flightFailedCallbacks = new Map<string, FlightFailedCallback[]>();
   private errorCallbacks: ErrorCallback[] = [];
   private connectionCallbacks: ConnectionCallback[] = [];
 
@@ -205,6 +207,7 @@ export class WebSocketService {
     // Clean up callbacks
     this.flightProgressCallbacks.delete(messageId);
     this.flightDeliveredCallbacks.delete(messageId);
+    this.flightFailedCallbacks.delete(messageId);
   }
 
   /**
@@ -227,6 +230,16 @@ export class WebSocketService {
     this.flightDeliveredCallbacks.get(messageId)!.push(callback);
   }
 
+  /**
+   * Add flight failed callback
+   */
+  onFlightFailed(messageId: string, callback: FlightFailedCallback): void {
+    if (!this.flightFailedCallbacks.has(messageId)) {
+      this.flightFailedCallbacks.set(messageId, []);
+    }
+    this.flightFailedCallbacks.get(messageId)!.push(callback);
+  }
+
   /**
    * Add error callback
    */
@@ -273,6 +286,22 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Remove flight failed callback
+   */
+  removeFlightFailedCallback(messageId: string, callback: FlightFailedCallback): void {
+    const callbacks = this.flightFailedCallbacks.get(messageId);
+    if (callbacks) {
+      const index = callbacks.indexOf(callback);
+      if (index > -1) {
+        callbacks.splice(index, 1);
+      }
+      if (callbacks.length === 0) {
+        this.flightFailedCallbacks.delete(messageId);
+      }
+    }
+  }
+
   /**
    * Remove error callback
    */
@@ -326,6 +355,14 @@ export class WebSocketService {
         }
         break;
 
+      case 'flight.failed':
+        if (message.messageId && message.data) {
+          this.notifyFlightFailedCallbacks(message.messageId, message.data as FlightProgress);
+          // Failed flights are returned to sender, so there is nothing more to follow
+          this.subscribedFlights.delete(message.messageId);
+        }
+        break;
+
       case 'error':
         if (message.error) {
           this.notifyErrorCallbacks(message.error);
@@ -444,6 +481,22 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Notify flight failed callbacks
+   */
+  private notifyFlightFailedCallbacks(messageId: string, progress: FlightProgress): void {
+    const callbacks = this.flightFailedCallbacks.get(messageId);
+    if (callbacks) {
+      callbacks.forEach(callback => {
+        try {
+          callback(progress);
+        } catch (error) {
+          console.error('Error in flight failed callback:', error);
+        }
+      });
+    }
+  }
+
   /**
    * Notify error callbacks
    */
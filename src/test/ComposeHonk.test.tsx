@@ -1,7 +1,8 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { ComposeHonk } from '@/components/messaging/ComposeHonk';
+import { RoutePreview } from '@/types';
 
 // Mock the UI components
 vi.mock('@/components/ui/button', () => ({
@@ -297,4 +298,137 @@ describe('ComposeHonk Component', () => {
     expect(screen.getByText('150 characters remaining')).toBeInTheDocument(); // Title counter
     expect(screen.getByText('500 characters remaining')).toBeInTheDocument(); // Content counter
   });
+
+  describe('route preview', () => {
+    const routePreview: RoutePreview = {
+      delivery_tier: 'standard',
+      route: [],
+      total_distance: 5585,
+      terrain: [
+        { terrain: 'ocean', distance_km: 4000, percentage: 71.6 },
+        { terrain: 'land', distance_km: 1585, percentage: 28.4 }
+      ],
+      weather: [],
+      eta: {
+        earliest: '2024-06-01T12:00:00.000Z',
+        latest: '2024-06-02T00:00:00.000Z',
+        min_duration_ms: 90 * 60 * 60 * 1000,
+        max_duration_ms: 120 * 60 * 60 * 1000
+      },
+      journey_points: { total_points: 6981, breakdown: [] }
+    };
+
+    const fillForm = async () => {
+      await user.type(screen.getByLabelText('Title'), 'Test Title');
+      await user.type(screen.getByLabelText('Message'), 'Test message content');
+      await user.click(screen.getByRole('button', { name: /send honk/i }));
+    };
+
+    it('should show the flight plan and wait for confirmation', async () => {
+      const mockOnPreview = vi.fn().mockResolvedValue(routePreview);
+      mockOnSend.mockResolvedValue(undefined);
+
+      render(<ComposeHonk onSend={mockOnSend} onPreview={mockOnPreview} />);
+      await fillForm();
+
+      expect(await screen.findByText('Flight Preview 🗺️')).toBeInTheDocument();
+      expect(screen.getByText('5,585 km')).toBeInTheDocument();
+      expect(screen.getByText('90h 0m – 120h 0m')).toBeInTheDocument();
+      expect(screen.getByText('6,981')).toBeInTheDocument();
+      expect(mockOnSend).not.toHaveBeenCalled();
+
+      await user.click(screen.getByRole('button', { name: /confirm & send/i }));
+
+      await waitFor(() => {
+        expect(mockOnSend).toHaveBeenCalledWith({
+          title: 'Test Title',
+          content: 'Test message content',
+          locationSharing: 'state',
+        });
+      });
+    });
+
+    it('should go back to editing without sending', async () => {
+      render(<ComposeHonk onSend={mockOnSend} onPreview={vi.fn().mockResolvedValue(routePreview)} />);
+      await fillForm();
+
+      await user.click(await screen.findByRole('button', { name: /edit honk/i }));
+
+      expect(screen.queryByText('Flight Preview 🗺️')).not.toBeInTheDocument();
+      expect(screen.getByLabelText('Title')).not.toBeDisabled();
+      expect(mockOnSend).not.toHaveBeenCalled();
+    });
+
+    it('should send straight away when no preview is available', async () => {
+      mockOnSend.mockResolvedValue(undefined);
+
+      render(<ComposeHonk onSend={mockOnSend} onPreview={vi.fn().mockResolvedValue(null)} />);
+      await fillForm();
+
+      await waitFor(() => {
+        expect(mockOnSend).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
+
+  describe('drafts', () => {
+    const savedDraft = {
+      id: 'draft-1',
+      kind: 'honk',
+      title: 'Half written',
+      content: 'Where was I',
+      location_sharing: 'country',
+      sticker_data: [],
+      preview: 'Where was I',
+      created_at: '2024-06-01T00:00:00.000Z',
+      updated_at: '2024-06-01T00:00:00.000Z'
+    };
+
+    const respond = (body: unknown) => Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve(body) });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should resume a saved draft and send it with the draft id', async () => {
+      const fetchMock = vi.fn((url: string, init?: RequestInit) =>
+        respond({ draft: init?.method === 'PUT' ? { ...savedDraft, ...JSON.parse(String(init.body)) } : savedDraft })
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      mockOnSend.mockResolvedValue(undefined);
+
+      render(<ComposeHonk onSend={mockOnSend} draft={{ kind: 'honk', id: 'draft-1' }} />);
+
+      expect(await screen.findByDisplayValue('Half written')).toBeInTheDocument();
+      expect(screen.getByDisplayValue('Where was I')).toBeInTheDocument();
+      expect(fetchMock).toHaveBeenCalledWith('/api/drafts/draft-1', expect.anything());
+
+      fireEvent.change(screen.getByLabelText('Message'), { target: { value: 'Where was I? Oh yes' } });
+      await waitFor(() => {
+        expect(fetchMock).toHaveBeenCalledWith('/api/drafts/draft-1', expect.objectContaining({ method: 'PUT' }));
+      }, { timeout: 3000 });
+
+      await user.click(screen.getByRole('button', { name: /send honk/i }));
+
+      await waitFor(() => {
+        expect(mockOnSend).toHaveBeenCalledWith({
+          title: 'Half written',
+          content: 'Where was I? Oh yes',
+          locationSharing: 'country',
+          draft_id: 'draft-1'
+        });
+      });
+    });
+
+    it('should not autosave without a draft', async () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+
+      render(<ComposeHonk onSend={mockOnSend} />);
+      fireEvent.change(screen.getByLabelText('Title'), { target: { value: 'Just passing' } });
+      await new Promise(resolve => setTimeout(resolve, 1700));
+
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
 });
\ No newline at end of file
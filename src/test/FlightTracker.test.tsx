@@ -235,6 +235,52 @@ describe('FlightTracker Component', () => {
     expect(mockOnDelivered).toHaveBeenCalledWith(deliveredProgress);
   });
 
+  it('should show a holding pattern with how long the duck will keep waiting', () => {
+    vi.mocked(useFlightProgress).mockReturnValue({
+      progress: {
+        ...mockFlightProgress,
+        status: 'holding',
+        hold_expires_at: new Date(Date.now() + 90 * 60 * 1000 + 30000)
+      },
+      isDelivered: false,
+      isFailed: false,
+      error: null,
+      isSubscribed: true,
+      refresh: vi.fn()
+    });
+
+    render(<FlightTracker messageId="msg123" />);
+
+    expect(screen.getByText('Holding for Weather')).toBeInTheDocument();
+    expect(screen.getByText('🌀 Circling until the storm eases')).toBeInTheDocument();
+    expect(screen.getByText('Waiting up to 1h 30m more')).toBeInTheDocument();
+  });
+
+  it('should show flights returned to sender and call onReturned', () => {
+    const mockOnReturned = vi.fn();
+    const failedProgress: FlightProgress = {
+      ...mockFlightProgress,
+      status: 'failed',
+      failure_reason: 'Held too long in severe weather'
+    };
+
+    vi.mocked(useFlightProgress).mockReturnValue({
+      progress: failedProgress,
+      isDelivered: false,
+      isFailed: true,
+      error: null,
+      isSubscribed: true,
+      refresh: vi.fn()
+    });
+
+    render(<FlightTracker messageId="msg123" onReturned={mockOnReturned} />);
+
+    expect(screen.getByText('Returned to Sender')).toBeInTheDocument();
+    expect(screen.getByText('Held too long in severe weather')).toBeInTheDocument();
+    expect(screen.queryByText('Estimated Arrival')).not.toBeInTheDocument();
+    expect(mockOnReturned).toHaveBeenCalledWith(failedProgress);
+  });
+
   it('should format coordinates correctly', () => {
     const progressWithPreciseCoords = {
       ...mockFlightProgress,
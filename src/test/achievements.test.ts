@@ -0,0 +1,176 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi, MockInstance } from 'vitest';
+import { dbManager } from '@/lib/database';
+import { MigrationRunner } from '@/lib/migrations';
+import { SqliteHonkRepository } from '@/lib/sqlite-repository';
+import { NewUser, setRepository } from '@/lib/repository';
+import { achievementService } from '@/services/achievements';
+import { MessageDeliveryService } from '@/services/messageDelivery';
+import { notificationService } from '@/services/notifications';
+import { US_STATES } from '@/utils/constants';
+import { FlightProgress, HonkMessage, JourneyData, LocationData, NotificationRecord, WeatherEvent } from '@/types';
+
+const NEW_YORK: LocationData = { latitude: 40.7128, longitude: -74.006, state: 'New York', country: 'United States', is_anonymous: false };
+const BOSTON: LocationData = { latitude: 42.3601, longitude: -71.0589, state: 'Massachusetts', country: 'United States', is_anonymous: false };
+const SYDNEY: LocationData = { latitude: -33.8688, longitude: 151.2093, state: 'New South Wales', country: 'Australia', is_anonymous: false };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date('2024-03-01T12:00:00Z');
+
+function newUser(id: string): NewUser {
+  return { id, username: id, email: `${id}@example.com`, password_hash: 'hash', current_location: NEW_YORK };
+}
+
+function journey(totalDistance: number, weather: WeatherEvent['type'][] = []): JourneyData {
+  return {
+    route: [],
+    total_distance: totalDistance,
+    estimated_duration: 3600000,
+    weather_events: weather.map(type => ({
+      type,
+      intensity: 0.8,
+      speed_modifier: 0.5,
+      location: NEW_YORK,
+      timestamp: START,
+      details: {} as WeatherEvent['details']
+    })),
+    current_progress: 100,
+    journey_points_earned: 0
+  };
+}
+
+let messageCount = 0;
+
+function delivered(senderId: string, overrides: Partial<HonkMessage> = {}): HonkMessage {
+  messageCount++;
+  return {
+    id: `message-${messageCount}`,
+    sender_id: senderId,
+    recipient_id: 'bob',
+    title: 'Honk',
+    content: 'Hello from the sky',
+    sender_location: NEW_YORK,
+    recipient_location: BOSTON,
+    status: 'delivered',
+    created_at: START,
+    delivered_at: new Date(START.getTime() + messageCount * 60 * 1000),
+    journey_data: journey(306),
+    message_type: 'regular',
+    sticker_data: [],
+    ...overrides
+  };
+}
+
+describe('Achievements', () => {
+  let repository: SqliteHonkRepository;
+  let rewardNotification: MockInstance<typeof notificationService.createRewardUnlockedNotification>;
+
+  const unlockedIds = async (userId: string) =>
+    (await repository.rewards.listForUser(userId))
+      .filter(reward => reward.reward_type === 'achievement')
+      .map(reward => reward.reward_id)
+      .sort();
+
+  beforeEach(async () => {
+    const db = dbManager.connect(':memory:');
+    new MigrationRunner(db).runMigrations();
+    repository = new SqliteHonkRepository();
+    setRepository(repository);
+    await repository.users.create(newUser('alice'));
+    await repository.users.create(newUser('bob'));
+
+    rewardNotification = vi.spyOn(notificationService, 'createRewardUnlockedNotification')
+      .mockImplementation(() => ({}) as NotificationRecord);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    setRepository(null);
+    dbManager.close();
+  });
+
+  it('should unlock an achievement once its threshold is reached and notify once', async () => {
+    for (let storm = 0; storm < 4; storm++) {
+      await repository.messages.create(delivered('alice', { journey_data: journey(306, ['rain', 'storm', 'storm']) }));
+    }
+    expect(await achievementService.evaluate('alice', 'journey.completed')).toEqual([]);
+
+    await repository.messages.create(delivered('alice', { journey_data: journey(306, ['storm']) }));
+    const unlocks = await achievementService.evaluate('alice', 'journey.completed');
+
+    expect(unlocks.map(unlock => unlock.rule.id)).toEqual(['storm_chaser']);
+    expect(await unlockedIds('alice')).toEqual(['storm_chaser']);
+    expect((await repository.users.findById('alice'))!.achievements).toEqual(['storm_chaser']);
+    expect(rewardNotification).toHaveBeenCalledWith('alice', '⛈️ Storm Chaser', 'achievement');
+
+    expect(await achievementService.evaluate('alice', 'journey.completed')).toEqual([]);
+    expect(rewardNotification).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only check the rules listening for an event', async () => {
+    await repository.messages.create(delivered('alice', { recipient_location: SYDNEY, journey_data: journey(15990) }));
+
+    const onDelivery = await achievementService.evaluate('alice', 'message.delivered');
+    expect(onDelivery.map(unlock => unlock.rule.id)).toEqual(['first_flight']);
+
+    const onJourney = await achievementService.evaluate('alice', 'journey.completed');
+    expect(onJourney.map(unlock => unlock.rule.id)).toEqual(['across_the_pond']);
+    expect((await repository.users.findById('alice'))!.achievements).toEqual(['first_flight', 'across_the_pond']);
+  });
+
+  it('should backfill existing history, dated to the delivery that earned each achievement', async () => {
+    // Thirty consecutive sending days, delivered out of order
+    const streak = Array.from({ length: 30 }, (_, day) => delivered('alice', {
+      created_at: new Date(START.getTime() + day * DAY_MS),
+      delivered_at: new Date(START.getTime() + (day % 2 === 0 ? 40 : 35) * DAY_MS + day * 1000)
+    }));
+    for (const message of streak) {
+      await repository.messages.create(message);
+    }
+
+    // Every state but Georgia; the country of the same name doesn't count
+    for (const state of US_STATES.filter(state => state !== 'Georgia')) {
+      await repository.messages.create(delivered('bob', { recipient_location: { ...BOSTON, state } }));
+    }
+    await repository.messages.create(delivered('bob', {
+      recipient_location: { ...BOSTON, state: 'Georgia', country: 'Georgia' }
+    }));
+    expect(await achievementService.backfill('bob')).toEqual([
+      expect.objectContaining({ rule: expect.objectContaining({ id: 'first_flight' }) })
+    ]);
+    const lastState = delivered('bob', { recipient_location: { ...BOSTON, state: 'Georgia' } });
+    await repository.messages.create(lastState);
+
+    const unlocks = await achievementService.backfill();
+
+    expect(unlocks.map(unlock => unlock.rule.id).sort()).toEqual(['fifty_states', 'first_flight', 'thirty_day_streak']);
+    expect(await unlockedIds('alice')).toEqual(['first_flight', 'thirty_day_streak']);
+    expect(await unlockedIds('bob')).toEqual(['fifty_states', 'first_flight']);
+
+    // The streak completes with the last even day to land, day 28 at day 40
+    const rewards = await repository.rewards.listForUser('alice');
+    expect(rewards.find(reward => reward.reward_id === 'thirty_day_streak')!.unlocked_at)
+      .toEqual(streak[28].delivered_at);
+    expect(rewards.find(reward => reward.reward_id === 'first_flight')!.unlocked_at)
+      .toEqual(streak[1].delivered_at);
+    expect((await repository.rewards.listForUser('bob')).find(reward => reward.reward_id === 'fifty_states')!.unlocked_at)
+      .toEqual(lastState.delivered_at);
+  });
+
+  it('should evaluate achievements when a message is delivered', async () => {
+    const message = delivered('alice', { status: 'flying', delivered_at: undefined });
+    await repository.messages.create(message);
+    const deliveryService = new MessageDeliveryService();
+
+    const success = await deliveryService.deliverMessage(message.id, {
+      message_id: message.id,
+      current_position: BOSTON,
+      progress_percentage: 100,
+      estimated_arrival: START
+    } as FlightProgress);
+
+    expect(success).toBe(true);
+    expect(await unlockedIds('alice')).toEqual(['first_flight']);
+    deliveryService.cleanup();
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DELIVERY_TIERS,
+  canUseDeliveryTier,
+  getAvailableDeliveryTiers,
+  getTierWeatherModifier,
+  isDeliveryTier
+} from '@/services/deliveryTiers';
+import { WeatherEvent } from '@/types';
+
+describe('delivery tiers', () => {
+  it('should unlock tiers with the matching rank rewards', () => {
+    expect(getAvailableDeliveryTiers({ total_journey_points: 0 })).toEqual(['standard']);
+    expect(getAvailableDeliveryTiers({ total_journey_points: 5000 })).toEqual(['standard', 'priority']);
+    expect(getAvailableDeliveryTiers({ total_journey_points: 35000 })).toEqual(['standard', 'priority', 'express']);
+  });
+
+  it('should gate express behind Master Messenger', () => {
+    expect(canUseDeliveryTier({ total_journey_points: 34999 }, 'express')).toBe(false);
+    expect(canUseDeliveryTier({ total_journey_points: 35000 }, 'express')).toBe(true);
+  });
+
+  it('should get faster, less weather-bound and more direct by tier', () => {
+    const { standard, priority, express } = DELIVERY_TIERS;
+
+    expect(priority.speedMultiplier).toBeGreaterThan(standard.speedMultiplier);
+    expect(express.speedMultiplier).toBeGreaterThan(priority.speedMultiplier);
+    expect(express.weatherSensitivity).toBeLessThan(priority.weatherSensitivity);
+    expect(express.routeCostWeight).toBeLessThan(standard.routeCostWeight);
+  });
+
+  it('should damp weather effects by tier sensitivity', () => {
+    const storm = { speed_modifier: 0.5 } as WeatherEvent;
+    const tailwind = { speed_modifier: 1.5 } as WeatherEvent;
+
+    expect(getTierWeatherModifier(storm, 'standard')).toBe(0.5);
+    expect(getTierWeatherModifier(storm, 'express')).toBeCloseTo(0.85);
+    expect(getTierWeatherModifier(tailwind, 'express')).toBeCloseTo(1.15);
+    expect(getTierWeatherModifier(null, 'priority')).toBe(1);
+  });
+
+  it('should only accept known tier names', () => {
+    expect(isDeliveryTier('priority')).toBe(true);
+    expect(isDeliveryTier('warp')).toBe(false);
+    expect(isDeliveryTier('toString')).toBe(false);
+  });
+});
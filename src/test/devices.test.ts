@@ -0,0 +1,168 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import jwt from 'jsonwebtoken';
+import { GET } from '../../app/api/auth/devices/route';
+import { DELETE, PATCH } from '../../app/api/auth/devices/[id]/route';
+import { POST as linkDevice } from '../../app/api/auth/link-device/route';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { dbManager } from '@/lib/database';
+import { MigrationRunner } from '@/lib/migrations';
+import { SqliteHonkRepository } from '@/lib/sqlite-repository';
+import { setRepository } from '@/lib/repository';
+import { ManualClock } from '@/lib/simulation-clock';
+import { AuthService } from '@/services/auth';
+import { defaultDeviceName, DeviceService } from '@/services/devices';
+import { SeamlessAuthService } from '@/services/seamlessAuth';
+import { jwtSecret } from '@/services/sessions';
+
+const CHROME_MAC = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const SAFARI_IPHONE = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+
+function request(url: string, token: string, method = 'GET', body?: unknown): NextRequest {
+  return new NextRequest(url, {
+    method,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+}
+
+const params = (id: string) => ({ params: { id } });
+
+describe('Device management', () => {
+  let repository: SqliteHonkRepository;
+  const authService = new AuthService();
+
+  const registerAlice = () => authService.register(
+    { email: 'alice@example.com', username: 'alice', password: 'TestPassword123' },
+    { userAgent: CHROME_MAC }
+  );
+
+  beforeEach(() => {
+    const db = dbManager.connect(':memory:');
+    new MigrationRunner(db).runMigrations();
+    repository = new SqliteHonkRepository();
+    setRepository(repository);
+  });
+
+  afterEach(() => {
+    setRepository(null);
+    dbManager.close();
+  });
+
+  it('should list, rename and revoke linked devices', async () => {
+    const { token, user } = await registerAlice();
+
+    const code = await new SeamlessAuthService().createDeviceLinkCode(user!.id);
+    const linked = await linkDevice(new NextRequest('http://localhost/api/auth/link-device', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        code,
+        userAgent: SAFARI_IPHONE,
+        screenResolution: '390x844',
+        timezone: 'America/New_York',
+        language: 'en-US',
+        platform: 'iPhone'
+      })
+    }));
+    const phoneToken = (await linked.json()).token;
+
+    const listed = await (await GET(request('http://localhost/api/auth/devices', token!))).json();
+    expect(listed.devices).toHaveLength(2);
+    const laptop = listed.devices.find((device: { current: boolean }) => device.current);
+    const phone = listed.devices.find((device: { current: boolean }) => !device.current);
+    expect(laptop).toMatchObject({ name: 'Chrome on macOS', user_agent: CHROME_MAC });
+    expect(phone).toMatchObject({ name: 'Safari on iOS', user_agent: SAFARI_IPHONE });
+
+    const renamed = await PATCH(request(`http://localhost/api/auth/devices/${phone.id}`, token!, 'PATCH', { name: ' My phone ' }), params(phone.id));
+    expect((await renamed.json()).device).toMatchObject({ id: phone.id, name: 'My phone', current: false });
+
+    expect((await authMiddleware(request('http://localhost', phoneToken))).success).toBe(true);
+    const revoked = await DELETE(request(`http://localhost/api/auth/devices/${phone.id}`, token!, 'DELETE'), params(phone.id));
+    expect(revoked.status).toBe(200);
+
+    // The phone's token stops working straight away; the laptop's still works
+    expect((await authMiddleware(request('http://localhost', phoneToken))).success).toBe(false);
+    expect((await GET(request('http://localhost/api/auth/devices', phoneToken))).status).toBe(401);
+    const remaining = await (await GET(request('http://localhost/api/auth/devices', token!))).json();
+    expect(remaining.devices.map((device: { id: string }) => device.id)).toEqual([laptop.id]);
+  });
+
+  it('should keep devices private to their account', async () => {
+    const { token } = await registerAlice();
+    const bob = await authService.register({ email: 'bob@example.com', username: 'bob', password: 'TestPassword123' });
+    const [bobDevice] = await repository.devices.listByUser(bob.user!.id);
+
+    const renamed = await PATCH(request('http://localhost', token!, 'PATCH', { name: 'Mine now' }), params(bobDevice.id));
+    expect(renamed.status).toBe(404);
+    expect((await DELETE(request('http://localhost', token!, 'DELETE'), params(bobDevice.id))).status).toBe(404);
+    expect(await repository.devices.findById(bobDevice.id)).not.toBeNull();
+
+    const blank = await PATCH(request('http://localhost', token!, 'PATCH', { name: '  ' }), params(bobDevice.id));
+    expect(blank.status).toBe(400);
+    expect((await blank.json()).message).toBe('Device name is required');
+  });
+
+  it('should give linked browsers a fresh secret rather than one bound to another account', async () => {
+    const { user } = await registerAlice();
+    const seamless = new SeamlessAuthService();
+    const bob = await seamless.getOrCreateUser({
+      userAgent: SAFARI_IPHONE,
+      screenResolution: '390x844',
+      timezone: 'America/New_York',
+      language: 'en-US',
+      platform: 'iPhone'
+    });
+
+    // Bob's browser links to Alice's account while still holding Bob's secret
+    const code = await seamless.createDeviceLinkCode(user!.id);
+    const linked = await seamless.linkDeviceWithCode(code, {
+      userAgent: SAFARI_IPHONE,
+      screenResolution: '390x844',
+      timezone: 'America/New_York',
+      language: 'en-US',
+      platform: 'iPhone',
+      deviceSecret: bob.deviceSecret
+    });
+    expect(linked.success).toBe(true);
+    expect(linked.deviceSecret).not.toBe(bob.deviceSecret);
+
+    expect((await repository.devices.findByFingerprint(bob.device.fingerprint!))?.user_id).toBe(bob.user.id);
+    await expect(repository.devices.create({ ...linked.device!, id: 'copy', fingerprint: bob.device.fingerprint }))
+      .rejects.toThrow(/UNIQUE/);
+  });
+
+  it('should reject tokens issued before sessions were tracked', async () => {
+    const { user } = await registerAlice();
+    const legacy = jwt.sign({ userId: user!.id }, jwtSecret());
+
+    expect(await authMiddleware(request('http://localhost', legacy))).toEqual({ success: false });
+  });
+
+  it('should only write last-seen times once they move', async () => {
+    const clock = new ManualClock(new Date('2024-06-01T00:00:00Z'));
+    const service = new DeviceService({ lastSeenResolutionMs: 60000 }, { clock });
+    const { user } = await registerAlice();
+    const device = await service.register(user!.id, { userAgent: CHROME_MAC, name: 'Work laptop' });
+    expect(device.name).toBe('Work laptop');
+
+    await clock.advance(30000);
+    await service.resolveSession(device.id, user!.id);
+    expect((await repository.devices.findById(device.id))!.last_seen_at.toISOString()).toBe('2024-06-01T00:00:00.000Z');
+
+    await clock.advance(30000);
+    await service.resolveSession(device.id, user!.id);
+    expect((await repository.devices.findById(device.id))!.last_seen_at.toISOString()).toBe('2024-06-01T00:01:00.000Z');
+
+    expect(await service.resolveSession(device.id, 'someone-else')).toBeNull();
+  });
+
+  it('should name devices from their user agent', () => {
+    expect(defaultDeviceName(CHROME_MAC)).toBe('Chrome on macOS');
+    expect(defaultDeviceName(SAFARI_IPHONE)).toBe('Safari on iOS');
+    expect(defaultDeviceName('Mozilla/5.0 (Windows NT 10.0; Win64; x64) Gecko/20100101 Firefox/121.0')).toBe('Firefox on Windows');
+    expect(defaultDeviceName('Mozilla/5.0 (Windows NT 10.0) Chrome/120.0 Safari/537.36 Edg/120.0')).toBe('Edge on Windows');
+    expect(defaultDeviceName('curl/8.0')).toBe('Unknown device');
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, POST } from '../../app/api/drafts/route';
+import { DELETE, GET as getDraft, PUT } from '../../app/api/drafts/[id]/route';
+import { POST as send } from '../../app/api/messages/send/route';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { dbManager } from '@/lib/database';
+import { MigrationRunner } from '@/lib/migrations';
+import { SqliteHonkRepository } from '@/lib/sqlite-repository';
+import { setRepository } from '@/lib/repository';
+import { draftPreview, DraftService } from '@/services/drafts';
+import { draftResumeUrl } from '@/lib/draft-client';
+import { ManualClock } from '@/lib/simulation-clock';
+
+vi.mock('@/lib/auth-middleware', () => ({
+  authMiddleware: vi.fn()
+}));
+
+const location = { latitude: 40.7128, longitude: -74.006, is_anonymous: false };
+
+const leaf = { id: 'leaf-1', name: 'Leaf', emoji: '🍂', type: 'default', x: 100, y: 80, size: 40, rotation: 15, scale: 1.5 };
+
+function jsonRequest(url: string, method: string, body?: unknown): NextRequest {
+  return new NextRequest(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+}
+
+const params = (id: string) => ({ params: { id } });
+
+describe('Drafts', () => {
+  let repository: SqliteHonkRepository;
+
+  const signIn = (id: string) => {
+    vi.mocked(authMiddleware).mockResolvedValue({
+      success: true,
+      user: { id, username: id, email: `${id}@example.com`, total_journey_points: 0 } as never
+    });
+  };
+
+  beforeEach(async () => {
+    const db = dbManager.connect(':memory:');
+    new MigrationRunner(db).runMigrations();
+    repository = new SqliteHonkRepository();
+    setRepository(repository);
+
+    for (const username of ['alice', 'bob']) {
+      await repository.users.create({
+        id: username,
+        username,
+        email: `${username}@example.com`,
+        password_hash: 'hash',
+        current_location: location
+      });
+    }
+  });
+
+  afterEach(() => {
+    setRepository(null);
+    dbManager.close();
+    vi.mocked(authMiddleware).mockReset();
+  });
+
+  it('should save, resume and list a postcard draft with its stickers', async () => {
+    signIn('alice');
+
+    const created = await POST(jsonRequest('http://localhost/api/drafts', 'POST', {
+      kind: 'postcard',
+      title: 'Fall Postcard',
+      content: 'Wish you were here',
+      location_sharing: 'country',
+      recipient_name: 'Grandma',
+      sticker_data: [leaf]
+    }));
+    expect(created.status).toBe(201);
+    const { draft } = await created.json();
+
+    const saved = await PUT(
+      jsonRequest(`http://localhost/api/drafts/${draft.id}`, 'PUT', {
+        title: 'Fall Postcard',
+        content: 'Wish you were here, with the geese',
+        location_sharing: 'anonymous',
+        recipient_name: 'Grandma',
+        sticker_data: [leaf, { ...leaf, id: 'leaf-2', x: 900 }]
+      }),
+      params(draft.id)
+    );
+    expect(saved.status).toBe(200);
+
+    const resumed = await (await getDraft(jsonRequest(`http://localhost/api/drafts/${draft.id}`, 'GET'), params(draft.id))).json();
+    expect(resumed.draft).toMatchObject({
+      kind: 'postcard',
+      content: 'Wish you were here, with the geese',
+      location_sharing: 'anonymous',
+      recipient_name: 'Grandma',
+      preview: 'Wish you were here, with the geese'
+    });
+    // Stickers are clamped onto the card like a sent postcard's
+    expect(resumed.draft.sticker_data.map((sticker: { x: number }) => sticker.x)).toEqual([100, 600]);
+
+    const { drafts } = await (await GET(jsonRequest('http://localhost/api/drafts', 'GET'))).json();
+    expect(drafts.map((entry: { id: string }) => entry.id)).toEqual([draft.id]);
+  });
+
+  it('should keep drafts private to their owner', async () => {
+    signIn('alice');
+    const { draft } = await (await POST(jsonRequest('http://localhost/api/drafts', 'POST', { kind: 'honk', title: 'Secret' }))).json();
+
+    signIn('bob');
+    expect((await getDraft(jsonRequest('http://localhost', 'GET'), params(draft.id))).status).toBe(404);
+    expect((await PUT(jsonRequest('http://localhost', 'PUT', { title: 'Mine now' }), params(draft.id))).status).toBe(404);
+    expect((await DELETE(jsonRequest('http://localhost', 'DELETE'), params(draft.id))).status).toBe(404);
+    expect((await (await GET(jsonRequest('http://localhost/api/drafts', 'GET'))).json()).drafts).toEqual([]);
+
+    signIn('alice');
+    expect((await DELETE(jsonRequest('http://localhost', 'DELETE'), params(draft.id))).status).toBe(200);
+    expect(await repository.drafts.findById(draft.id)).toBeNull();
+  });
+
+  it('should reject malformed drafts', async () => {
+    signIn('alice');
+    const create = async (body: unknown) => {
+      const response = await POST(jsonRequest('http://localhost/api/drafts', 'POST', body));
+      return { status: response.status, error: (await response.json()).error };
+    };
+
+    expect(await create({ kind: 'letter' })).toEqual({ status: 400, error: "kind must be 'honk', 'reply' or 'postcard'" });
+    expect((await create({ kind: 'reply', content: 'Hi' })).error).toMatch(/recipient_id and reply_to_message_id/);
+    expect((await create({ kind: 'honk', location_sharing: 'everywhere' })).error).toMatch(/location_sharing must be/);
+    expect((await create({ kind: 'postcard', sticker_data: [{ ...leaf, scale: 50 }] })).error).toMatch(/Sticker 1 scale/);
+  });
+
+  it('should cap how many drafts a user keeps', async () => {
+    const service = new DraftService({ maxDraftsPerUser: 1 }, { clock: new ManualClock(new Date('2024-06-01T00:00:00Z')) });
+    const first = await service.create('alice', { kind: 'honk', title: 'One' });
+    expect(first.created_at.toISOString()).toBe('2024-06-01T00:00:00.000Z');
+
+    await expect(service.create('alice', { kind: 'honk', title: 'Two' })).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('should delete the draft once its message is sent', async () => {
+    signIn('alice');
+    const { draft } = await (await POST(jsonRequest('http://localhost/api/drafts', 'POST', {
+      kind: 'reply',
+      title: 'Re: Hello',
+      content: 'Thanks!',
+      recipient_id: 'bob',
+      reply_to_message_id: 'msg-1'
+    }))).json();
+
+    const response = await send(jsonRequest('http://localhost/api/messages/send', 'POST', {
+      title: 'Re: Hello',
+      content: 'Thanks!',
+      locationSharing: 'state',
+      recipient_id: 'bob',
+      sender_location: location,
+      draft_id: draft.id
+    }));
+
+    expect(response.status).toBe(200);
+    expect(await repository.drafts.findById(draft.id)).toBeNull();
+  });
+
+  it('should preview and link back to the right composer', () => {
+    expect(draftPreview({ title: 'Title only', content: '  ' })).toBe('Title only');
+    expect(draftPreview({ title: '', content: 'one\ntwo   three' })).toBe('one two three');
+    expect(draftPreview({ title: '', content: 'x'.repeat(100) }, 10)).toBe(`${'x'.repeat(9)}…`);
+
+    expect(draftResumeUrl({ id: 'd1', kind: 'honk' })).toBe('/compose?draft=d1');
+    expect(draftResumeUrl({ id: 'd2', kind: 'postcard' })).toBe('/postcard/maker?draft=d2');
+    expect(draftResumeUrl({ id: 'd3', kind: 'reply', recipient_id: 'bob', reply_to_message_id: 'm1' }))
+      .toBe('/reply?reply_to=m1&recipient_id=bob&draft=d3');
+  });
+});
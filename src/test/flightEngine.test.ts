@@ -1,9 +1,15 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { FlightEngine } from '@/services/flightEngine';
 import { weatherService } from '@/services/weather';
-import { flightRoutingService } from '@/services/routing';
-import { LocationData, WeatherEvent, FlightProgress } from '@/types';
+import { flightRoutingService, weatherCellsFromEvents } from '@/services/routing';
+import { LocationData, WeatherEvent, FlightProgress, FlightRecord } from '@/types';
 import { WeatherCondition } from '@/services/weather';
+import { dbManager } from '@/lib/database';
+import { MigrationRunner } from '@/lib/migrations';
+import { getRepository } from '@/lib/repository';
+import { ManualClock, setSimulation, resetSimulation } from '@/lib/simulation-clock';
+import { calculateDistance } from '@/utils/distance';
+import { notificationService } from '@/services/notifications';
 
 // Mock the services
 vi.mock('@/services/weather');
@@ -14,6 +20,7 @@ const mockRoutingService = vi.mocked(flightRoutingService);
 
 describe('FlightEngine', () => {
     let flightEngine: FlightEngine;
+    let clock: ManualClock;
 
     const startLocation: LocationData = {
         latitude: 40.7128,
@@ -60,6 +67,9 @@ describe('FlightEngine', () => {
     };
 
     beforeEach(() => {
+        clock = new ManualClock(new Date('2024-06-01T12:00:00Z'));
+        setSimulation({ clock });
+
         flightEngine = new FlightEngine({
             baseSpeedKmh: 50,
             updateIntervalMs: 1000, // Faster for testing
@@ -73,11 +83,13 @@ describe('FlightEngine', () => {
         // Setup default mock implementations
         mockRoutingService.calculateRoute.mockReturnValue(mockRoute);
         mockWeatherService.fetchWeatherData.mockResolvedValue(mockWeather);
+        mockWeatherService.fetchWeatherAlongRoute.mockResolvedValue([]);
         mockWeatherService.calculateFlightSpeed.mockReturnValue(50);
     });
 
     afterEach(() => {
         flightEngine.cleanup();
+        resetSimulation();
     });
 
     describe('initializeFlight', () => {
@@ -99,7 +111,8 @@ describe('FlightEngine', () => {
 
             expect(mockRoutingService.calculateRoute).toHaveBeenCalledWith(
                 startLocation,
-                endLocation
+                endLocation,
+                1
             );
             expect(mockWeatherService.fetchWeatherData).toHaveBeenCalledWith(startLocation);
         });
@@ -173,7 +186,7 @@ describe('FlightEngine', () => {
             await flightEngine.initializeFlight(messageId, startLocation, endLocation);
 
             // Wait a bit for the update timer to trigger
-            await new Promise(resolve => setTimeout(resolve, 1100));
+            await clock.advance(1100);
 
             expect(callback).toHaveBeenCalled();
             const callArgs = callback.mock.calls[0][0] as FlightProgress;
@@ -190,7 +203,7 @@ describe('FlightEngine', () => {
             await flightEngine.initializeFlight(messageId, startLocation, endLocation);
 
             // Wait a bit for potential updates
-            await new Promise(resolve => setTimeout(resolve, 1100));
+            await clock.advance(1100);
 
             expect(callback).not.toHaveBeenCalled();
         });
@@ -201,14 +214,14 @@ describe('FlightEngine', () => {
             const messageId = 'test-message-1';
 
             await flightEngine.initializeFlight(messageId, startLocation, endLocation);
-            const cancelled = flightEngine.cancelFlight(messageId);
+            const cancelled = await flightEngine.cancelFlight(messageId);
 
             expect(cancelled).toBe(true);
             expect(flightEngine.getFlightProgress(messageId)).toBeNull();
         });
 
-        it('should return false for non-existent flight', () => {
-            const cancelled = flightEngine.cancelFlight('non-existent');
+        it('should return false for non-existent flight', async () => {
+            const cancelled = await flightEngine.cancelFlight('non-existent');
             expect(cancelled).toBe(false);
         });
     });
@@ -296,13 +309,13 @@ describe('FlightEngine', () => {
             mockWeatherService.calculateFlightSpeed.mockReturnValue(25);
 
             // Wait for weather check interval
-            await new Promise(resolve => setTimeout(resolve, 2100));
+            await clock.advance(2100);
 
             const record = flightEngine.getFlightRecord(messageId);
             expect(record?.weather_events.length).toBeGreaterThan(1);
         });
 
-        it('should trigger route recalculation for severe weather', async () => {
+        it('should hold in severe weather rather than reroute straight away', async () => {
             const severeStorm: WeatherEvent = {
                 type: WeatherCondition.STORM,
                 intensity: 0.9,
@@ -323,9 +336,229 @@ describe('FlightEngine', () => {
             await flightEngine.initializeFlight(messageId, startLocation, endLocation);
 
             // Wait for weather check
-            await new Promise(resolve => setTimeout(resolve, 2100));
+            await clock.advance(2100);
 
-            expect(mockRoutingService.recalculateRoute).toHaveBeenCalled();
+            expect(flightEngine.getFlightRecord(messageId)?.status).toBe('holding');
+            expect(mockRoutingService.recalculateRoute).not.toHaveBeenCalled();
+        });
+
+        it('should keep the distance already flown when rerouting', async () => {
+            const severeStorm: WeatherEvent = {
+                type: WeatherCondition.STORM,
+                intensity: 0.9,
+                speed_modifier: 0.5,
+                location: startLocation,
+                timestamp: new Date(),
+                details: { temperature: 12, windSpeed: 80, windDirection: 270 }
+            };
+            const detour = {
+                path: [],
+                totalDistance: 6000,
+                totalCost: 6000,
+                waypoints: [
+                    { latitude: 41.5, longitude: -66.5, altitude: 1000, timestamp: new Date() },
+                    { latitude: 55, longitude: -30, altitude: 1000, timestamp: new Date() },
+                    { latitude: endLocation.latitude, longitude: endLocation.longitude, altitude: 1000, timestamp: new Date() }
+                ]
+            };
+
+            mockWeatherService.fetchWeatherData
+                .mockResolvedValueOnce(mockWeather)
+                .mockResolvedValue(severeStorm);
+            mockWeatherService.shouldRecalculateRoute.mockReturnValue(true);
+            mockWeatherService.calculateFlightSpeed.mockReturnValue(1000 * 60 * 60); // 1000km per update
+            mockRoutingService.recalculateRoute.mockReturnValue(detour);
+
+            // The storm at the first check outlasts the hold, so the duck takes the detour at the next
+            flightEngine = new FlightEngine({
+                baseSpeedKmh: 50,
+                updateIntervalMs: 1000,
+                weatherCheckIntervalMs: 2000,
+                maxFlightDurationHours: 48,
+                maxHoldMs: 1000
+            });
+
+            const messageId = 'test-message-1';
+            await flightEngine.initializeFlight(messageId, startLocation, endLocation);
+            await clock.advance(4000);
+
+            const record = flightEngine.getFlightRecord(messageId)!;
+            const flown = (record.progress_percentage / 100) * record.total_distance;
+            expect(mockRoutingService.recalculateRoute).toHaveBeenCalledTimes(1);
+            expect(flown).toBeGreaterThan(1900);
+            expect(record.total_distance).toBeCloseTo(flown + detour.totalDistance);
+            expect(record.progress_percentage).toBeLessThan(100);
+            expect(record.route[0].latitude).toBe(startLocation.latitude);
+            expect(record.route.slice(-3).map(waypoint => waypoint.latitude)).toEqual(
+                detour.waypoints.map(waypoint => waypoint.latitude)
+            );
+        });
+    });
+
+    describe('forecast legs', () => {
+        const hour = 60 * 60 * 1000;
+        const midAtlantic = { latitude: 54, longitude: -40, is_anonymous: false };
+        const forecastStorm: WeatherEvent = {
+            ...mockWeather,
+            type: WeatherCondition.STORM,
+            intensity: 0.8,
+            speed_modifier: 0.5,
+            location: midAtlantic
+        };
+
+        beforeEach(() => {
+            mockRoutingService.calculateRoute.mockReturnValue({
+                ...mockRoute,
+                waypoints: [
+                    mockRoute.waypoints[0],
+                    { ...midAtlantic, altitude: 100, timestamp: new Date() },
+                    mockRoute.waypoints[1]
+                ]
+            });
+            mockWeatherService.fetchWeatherAlongRoute.mockResolvedValue([null, forecastStorm, null]);
+            mockWeatherService.calculateFlightSpeed.mockImplementation(
+                (baseSpeed, weather) => baseSpeed * (weather?.speed_modifier ?? 1)
+            );
+            flightEngine = new FlightEngine({
+                baseSpeedKmh: 558.5,
+                updateIntervalMs: 5 * 60 * 1000,
+                weatherCheckIntervalMs: 48 * hour,
+                maxFlightDurationHours: 48
+            });
+        });
+
+        it('should plan each leg against the forecast it meets', async () => {
+            const firstLeg = calculateDistance(startLocation, midAtlantic);
+            const secondLeg = calculateDistance(midAtlantic, endLocation);
+            const stormLeg = secondLeg * 5585 / (firstLeg + secondLeg);
+
+            const flight = await flightEngine.initializeFlight('test-message-1', startLocation, endLocation);
+
+            expect(flight?.estimated_duration).toBeCloseTo((5585 + stormLeg) / 558.5 * hour, -3);
+            expect(flight?.route[1].timestamp.getTime()).toBeCloseTo(clock.now() + (5585 - stormLeg) / 558.5 * hour, -3);
+            expect(flight?.weather_events).toEqual([mockWeather]);
+        });
+
+        it('should fly into the forecast weather and score it at landing', async () => {
+            await flightEngine.initializeFlight('test-message-1', startLocation, endLocation);
+
+            await clock.advance(7 * hour);
+
+            expect(flightEngine.getFlightProgress('test-message-1')?.current_weather).toBe(forecastStorm);
+            expect(flightEngine.getFlightRecord('test-message-1')?.speed_kmh).toBe(558.5 / 2);
+            // 25% weather bonus for the storm met on the second leg
+            expect(flightEngine.createJourneyData('test-message-1')?.journey_points_earned).toBe(6981);
+        });
+    });
+
+    describe('delivery tiers', () => {
+        const stormWeather: WeatherEvent = {
+            ...mockWeather,
+            type: WeatherCondition.STORM,
+            intensity: 0.8,
+            speed_modifier: 0.5
+        };
+
+        beforeEach(() => {
+            mockWeatherService.fetchWeatherData.mockResolvedValue(stormWeather);
+            mockWeatherService.calculateFlightSpeed.mockImplementation(
+                (baseSpeed, weather) => baseSpeed * (weather?.speed_modifier ?? 1)
+            );
+        });
+
+        it('should fly standard honks at full weather effect', async () => {
+            const flight = await flightEngine.initializeFlight('test-message-1', startLocation, endLocation);
+
+            expect(flight?.delivery_tier).toBe('standard');
+            expect(flight?.speed_kmh).toBe(25);
+        });
+
+        it('should fly express honks faster and shrug off most of the storm', async () => {
+            const flight = await flightEngine.initializeFlight(
+                'test-message-1',
+                startLocation,
+                endLocation,
+                'express'
+            );
+
+            // 50 * 2.5, with 30% of the storm's 50% slowdown
+            expect(flight?.delivery_tier).toBe('express');
+            expect(flight?.speed_kmh).toBeCloseTo(106.25);
+            expect(mockRoutingService.calculateRoute).toHaveBeenCalledWith(startLocation, endLocation, 0);
+        });
+
+        it('should land priority honks between standard and express', async () => {
+            const standard = await flightEngine.initializeFlight('standard-message', startLocation, endLocation);
+            const priority = await flightEngine.initializeFlight(
+                'priority-message',
+                startLocation,
+                endLocation,
+                'priority'
+            );
+
+            expect(priority!.estimated_arrival.getTime()).toBeLessThan(standard!.estimated_arrival.getTime());
+            expect(mockRoutingService.calculateRoute).toHaveBeenLastCalledWith(startLocation, endLocation, 0.5);
+        });
+    });
+
+    describe('previewFlight', () => {
+        const stormWeather: WeatherEvent = {
+            ...mockWeather,
+            type: WeatherCondition.STORM,
+            speed_modifier: 0.5
+        };
+
+        beforeEach(() => {
+            mockWeatherService.fetchWeatherAlongRoute.mockResolvedValue([mockWeather, stormWeather, null]);
+            mockWeatherService.calculateFlightSpeed.mockImplementation(
+                (baseSpeed, weather) => baseSpeed * (weather?.speed_modifier ?? 1)
+            );
+            mockRoutingService.calculateRoute.mockReturnValue({
+                ...mockRoute,
+                waypoints: [
+                    mockRoute.waypoints[0],
+                    { latitude: 54, longitude: -40, altitude: 100, timestamp: new Date() },
+                    mockRoute.waypoints[1]
+                ]
+            });
+        });
+
+        it('should span the arrival window from calm air to the forecast holding', async () => {
+            const midAtlantic = { latitude: 54, longitude: -40, is_anonymous: false };
+            const firstLeg = calculateDistance(startLocation, midAtlantic);
+            const stormLeg = calculateDistance(midAtlantic, endLocation) * 5585 / (firstLeg + calculateDistance(midAtlantic, endLocation));
+            const hour = 60 * 60 * 1000;
+
+            const preview = await flightEngine.previewFlight(startLocation, endLocation);
+
+            expect(preview?.min_duration_ms).toBeCloseTo(5585 / 50 * hour, -3);
+            expect(preview?.max_duration_ms).toBeCloseTo((5585 + stormLeg) / 50 * hour, -3);
+            expect(preview?.earliest_arrival.getTime()).toBe(clock.now() + preview!.min_duration_ms);
+            expect(preview?.weather).toEqual([mockWeather, stormWeather]);
+        });
+
+        it('should sample the forecast at each waypoint\'s expected arrival', async () => {
+            const preview = await flightEngine.previewFlight(startLocation, endLocation);
+            const [departure, midpoint, arrival] = preview!.route.waypoints;
+
+            expect(departure.timestamp.getTime()).toBe(clock.now());
+            expect(midpoint.timestamp.getTime()).toBeGreaterThan(departure.timestamp.getTime());
+            expect(arrival.timestamp.getTime()).toBeCloseTo(clock.now() + preview!.max_duration_ms, -3);
+            expect(mockWeatherService.fetchWeatherAlongRoute.mock.lastCall?.[0][1].timestamp).toEqual(midpoint.timestamp);
+        });
+
+        it('should not launch or persist anything', async () => {
+            await flightEngine.previewFlight(startLocation, endLocation, 'express');
+
+            expect(flightEngine.getActiveFlights()).toHaveLength(0);
+            expect(clock.pendingTimers()).toBe(0);
+            expect(mockRoutingService.calculateRoute).toHaveBeenCalledWith(startLocation, endLocation, 0);
+        });
+
+        it('should return null when no route can be found', async () => {
+            mockRoutingService.calculateRoute.mockReturnValue(null);
+
+            expect(await flightEngine.previewFlight(startLocation, endLocation)).toBeNull();
         });
     });
 
@@ -348,7 +581,7 @@ describe('FlightEngine', () => {
             await fastEngine.initializeFlight(messageId, startLocation, endLocation);
 
             // Wait for several updates
-            await new Promise(resolve => setTimeout(resolve, 500));
+            await clock.advance(500);
 
             expect(callback).toHaveBeenCalled();
 
@@ -380,7 +613,7 @@ describe('FlightEngine', () => {
             await veryFastEngine.initializeFlight(messageId, startLocation, endLocation);
 
             // Wait for several progress updates
-            await new Promise(resolve => setTimeout(resolve, 200));
+            await clock.advance(200);
 
             // Should have received progress callbacks
             expect(callback).toHaveBeenCalled();
@@ -502,7 +735,7 @@ describe('FlightEngine', () => {
             mockWeatherService.fetchWeatherData.mockRejectedValue(new Error('Weather update failed'));
 
             // Wait for weather check interval
-            await new Promise(resolve => setTimeout(resolve, 2100));
+            await clock.advance(2100);
 
             // Flight should still be active
             const progress = flightEngine.getFlightProgress(messageId);
@@ -510,6 +743,367 @@ describe('FlightEngine', () => {
         });
     });
 
+    describe('persistence', () => {
+        const messageId = 'persisted-message';
+
+        const persistedFlight = (hoursSinceCheckpoint: number): FlightRecord => {
+            const checkpointAt = new Date(clock.now() - hoursSinceCheckpoint * 60 * 60 * 1000);
+            return {
+                id: `flight_${messageId}`,
+                message_id: messageId,
+                status: 'enroute',
+                route: mockRoute.waypoints,
+                total_distance: 5585,
+                estimated_duration: 5585 / 50 * 60 * 60 * 1000,
+                progress_percentage: 0,
+                current_position: startLocation,
+                speed_kmh: 50,
+                weather_events: [],
+                delivery_tier: 'standard',
+                started_at: checkpointAt,
+                updated_at: checkpointAt,
+                estimated_arrival: new Date(checkpointAt.getTime() + 5585 / 50 * 60 * 60 * 1000)
+            };
+        };
+
+        beforeEach(async () => {
+            const db = dbManager.connect(':memory:');
+            new MigrationRunner(db).runMigrations();
+
+            const repository = getRepository();
+            await repository.users.create({ id: 'sender', username: 'sender' });
+            await repository.users.create({ id: 'recipient', username: 'recipient' });
+            await repository.messages.create({
+                id: messageId,
+                sender_id: 'sender',
+                recipient_id: 'recipient',
+                title: 'Persisted',
+                content: 'Still flying',
+                sender_location: startLocation,
+                recipient_location: endLocation,
+                status: 'flying',
+                created_at: new Date(),
+                message_type: 'regular',
+                sticker_data: []
+            });
+        });
+
+        afterEach(() => {
+            dbManager.close();
+        });
+
+        const severeStorm: WeatherEvent = {
+            type: WeatherCondition.STORM,
+            intensity: 0.9,
+            speed_modifier: 0.5,
+            location: startLocation,
+            timestamp: new Date(),
+            details: { temperature: 12, windSpeed: 80, windDirection: 270 }
+        };
+
+        it('should checkpoint new flights to storage', async () => {
+            await flightEngine.initializeFlight(messageId, startLocation, endLocation);
+
+            const stored = await getRepository().flights.findByMessageId(messageId);
+
+            expect(stored?.status).toBe('enroute');
+            expect(stored?.total_distance).toBe(5585);
+        });
+
+        it('should restore enroute flights and fast-forward their progress', async () => {
+            await getRepository().flights.save(persistedFlight(10));
+
+            const restored = await flightEngine.restoreFlights();
+
+            const progress = flightEngine.getFlightProgress(messageId);
+            const stored = await getRepository().flights.findByMessageId(messageId);
+            expect(restored).toBe(1);
+            expect(progress?.progress_percentage).toBeGreaterThan(5);
+            expect(progress?.progress_percentage).toBeLessThan(100);
+            expect(stored?.progress_percentage).toBeCloseTo(progress!.progress_percentage);
+        });
+
+        it('should complete flights that landed while the server was down', async () => {
+            await getRepository().flights.save(persistedFlight(200));
+
+            await flightEngine.restoreFlights();
+
+            const stored = await getRepository().flights.findByMessageId(messageId);
+            expect(flightEngine.getFlightProgress(messageId)).toBeNull();
+            expect(stored?.status).toBe('delivered');
+            expect(await getRepository().messages.listAwaitingDelivery()).toEqual([messageId]);
+        });
+
+        it('should not restore flights that are already active', async () => {
+            await flightEngine.initializeFlight(messageId, startLocation, endLocation);
+
+            expect(await flightEngine.restoreFlights()).toBe(0);
+        });
+
+        it('should load progress from storage for flights no longer in memory', async () => {
+            await getRepository().flights.save({ ...persistedFlight(1), status: 'delivered', progress_percentage: 100 });
+
+            const progress = await flightEngine.loadFlightProgress(messageId);
+
+            expect(progress?.progress_percentage).toBe(100);
+            expect(progress?.message_id).toBe(messageId);
+        });
+
+        describe('event log', () => {
+            const eventTypes = async () =>
+                (await getRepository().flightEvents.listForMessage(messageId)).map(event => event.type);
+
+            beforeEach(() => {
+                mockWeatherService.shouldRecalculateRoute.mockImplementation(
+                    weather => weather.type === WeatherCondition.STORM && weather.intensity > 0.7
+                );
+            });
+
+            it('should log departure, weather changes and holds in order', async () => {
+                mockWeatherService.fetchWeatherData
+                    .mockResolvedValueOnce(mockWeather)
+                    .mockResolvedValueOnce(severeStorm);
+
+                await flightEngine.initializeFlight(messageId, startLocation, endLocation);
+                await clock.advance(2100);
+
+                expect(await eventTypes()).toEqual(['departed', 'weather_changed', 'held']);
+                const [departed, weatherChanged, held] = await getRepository().flightEvents.listForMessage(messageId);
+                expect(departed.flight_id).toBe(`flight_${messageId}`);
+                expect(departed.details.delivery_tier).toBe('standard');
+                expect(weatherChanged.details.previous_weather?.type).toBe(WeatherCondition.CLEAR);
+                expect(held.details.weather?.type).toBe(WeatherCondition.STORM);
+                expect(held.occurred_at).toEqual(new Date(clock.now() - 100));
+            });
+
+            it('should hold in severe weather and resume once it eases', async () => {
+                mockWeatherService.fetchWeatherData
+                    .mockResolvedValueOnce(mockWeather)
+                    .mockResolvedValueOnce(severeStorm)
+                    .mockResolvedValueOnce(severeStorm);
+
+                await flightEngine.initializeFlight(messageId, startLocation, endLocation);
+                await clock.advance(2100);
+
+                expect(flightEngine.getFlightRecord(messageId)?.status).toBe('holding');
+                expect((await getRepository().flights.findByMessageId(messageId))?.status).toBe('holding');
+                const heldProgress = flightEngine.getFlightRecord(messageId)!.progress_percentage;
+
+                // Still stormy at the next check, clear at the one after
+                await clock.advance(4000);
+
+                const events = await getRepository().flightEvents.listForMessage(messageId);
+                expect(events.map(event => event.type)).toEqual(['departed', 'weather_changed', 'held', 'resumed']);
+                expect(events[2].details.reason).toBe('Severe weather ahead');
+                expect(mockRoutingService.recalculateRoute).not.toHaveBeenCalled();
+                expect(events[3].details.held_ms).toBe(4000);
+                expect(events[3].progress_percentage).toBe(heldProgress);
+                expect(flightEngine.getFlightRecord(messageId)?.status).toBe('enroute');
+            });
+
+            it('should log cancelled flights as failed', async () => {
+                await flightEngine.initializeFlight(messageId, startLocation, endLocation);
+                await flightEngine.cancelFlight(messageId);
+
+                expect(await eventTypes()).toEqual(['departed', 'failed']);
+                expect((await getRepository().flights.findByMessageId(messageId))?.status).toBe('failed');
+            });
+
+            it('should log deliveries with the time spent in the air', async () => {
+                await getRepository().flights.save(persistedFlight(200));
+                await flightEngine.restoreFlights();
+
+                const [delivered] = await getRepository().flightEvents.listForMessage(messageId);
+                expect(delivered.type).toBe('delivered');
+                expect(delivered.progress_percentage).toBe(100);
+                expect(delivered.details.duration_ms).toBe(200 * 60 * 60 * 1000);
+            });
+        });
+
+        describe('holding patterns', () => {
+            const departure = new Date('2024-06-01T12:00:00Z').getTime();
+            const detour = { ...mockRoute, totalDistance: 5000 };
+
+            beforeEach(() => {
+                // Checks every 2s; a hold that starts at the first check gives out before the fourth
+                flightEngine = new FlightEngine({
+                    baseSpeedKmh: 50,
+                    updateIntervalMs: 1000,
+                    weatherCheckIntervalMs: 2000,
+                    maxFlightDurationHours: 48,
+                    maxHoldMs: 5000
+                });
+                mockWeatherService.shouldRecalculateRoute.mockImplementation(
+                    weather => weather.type === WeatherCondition.STORM && weather.intensity > 0.7
+                );
+                mockWeatherService.fetchWeatherData
+                    .mockResolvedValueOnce(mockWeather)
+                    .mockResolvedValue(severeStorm);
+            });
+
+            afterEach(() => {
+                mockRoutingService.recalculateRoute.mockReset();
+                vi.mocked(weatherCellsFromEvents).mockReset();
+            });
+
+            it('should push the hold to subscribers and keep circling until it runs out', async () => {
+                const updates: FlightProgress[] = [];
+                flightEngine.onFlightProgress(messageId, progress => updates.push(progress));
+
+                await flightEngine.initializeFlight(messageId, startLocation, endLocation);
+                await clock.advance(6100);
+
+                expect(flightEngine.getFlightRecord(messageId)?.status).toBe('holding');
+                expect(mockRoutingService.recalculateRoute).not.toHaveBeenCalled();
+                expect(updates.filter(progress => progress.status === 'holding')).toHaveLength(1);
+                expect(flightEngine.getFlightProgress(messageId)?.hold_expires_at).toEqual(new Date(departure + 7000));
+
+                const [, , held] = await getRepository().flightEvents.listForMessage(messageId);
+                expect(held.details.hold_expires_at).toBe(new Date(departure + 7000).toISOString());
+            });
+
+            it('should look for a way around once the hold runs out', async () => {
+                mockRoutingService.recalculateRoute.mockReturnValue(detour);
+
+                await flightEngine.initializeFlight(messageId, startLocation, endLocation);
+                await clock.advance(8100);
+
+                const events = await getRepository().flightEvents.listForMessage(messageId);
+                expect(events.map(event => event.type)).toEqual(['departed', 'weather_changed', 'held', 'rerouted', 'resumed']);
+                expect(mockRoutingService.recalculateRoute).toHaveBeenCalledTimes(1);
+                expect(events[3].details.previous_route).toHaveLength(2);
+                expect(events[4].details.held_ms).toBe(6000);
+                expect(flightEngine.getFlightRecord(messageId)?.status).toBe('enroute');
+                expect((await getRepository().messages.findById(messageId))?.status).toBe('flying');
+            });
+
+            it('should fail the flight and return the honk to its sender when there is still no way around', async () => {
+                mockRoutingService.recalculateRoute.mockReturnValue(null);
+                const returned = vi.spyOn(notificationService, 'createFlightReturnedNotification');
+                const updates: FlightProgress[] = [];
+                flightEngine.onFlightProgress(messageId, progress => updates.push(progress));
+
+                await flightEngine.initializeFlight(messageId, startLocation, endLocation);
+                await clock.advance(8100);
+
+                const events = await getRepository().flightEvents.listForMessage(messageId);
+                expect(events.map(event => event.type)).toEqual(['departed', 'weather_changed', 'held', 'failed']);
+                expect(events[3].details).toMatchObject({ held_ms: 6000, reason: 'Held too long in severe weather' });
+
+                expect(flightEngine.getFlightRecord(messageId)).toBeNull();
+                expect((await getRepository().flights.findByMessageId(messageId))?.status).toBe('failed');
+                // Returning loads the delivery service, so it lands a little after the clock tick
+                await vi.waitFor(async () =>
+                    expect((await getRepository().messages.findById(messageId))?.status).toBe('returned')
+                );
+                expect(returned).toHaveBeenCalledWith('sender', messageId, 'Persisted', 'Held too long in severe weather');
+                expect(updates[updates.length - 1]).toMatchObject({
+                    status: 'failed',
+                    failure_reason: 'Held too long in severe weather'
+                });
+
+                // Nothing is left flying or ticking
+                await clock.advance(10000);
+                expect(await getRepository().flightEvents.listForMessage(messageId)).toHaveLength(4);
+                returned.mockRestore();
+            });
+
+            it('should still give up on time while weather reports are unavailable', async () => {
+                mockWeatherService.fetchWeatherData.mockReset();
+                mockWeatherService.fetchWeatherData
+                    .mockResolvedValueOnce(mockWeather)
+                    .mockResolvedValueOnce(severeStorm)
+                    .mockRejectedValue(new Error('Weather service unavailable'));
+                mockRoutingService.recalculateRoute.mockReturnValue(null);
+
+                await flightEngine.initializeFlight(messageId, startLocation, endLocation);
+                await clock.advance(8100);
+
+                const events = await getRepository().flightEvents.listForMessage(messageId);
+                expect(events.map(event => event.type)).toEqual(['departed', 'weather_changed', 'held', 'failed']);
+                expect(events[3].details.held_ms).toBe(6000);
+                expect((await getRepository().flights.findByMessageId(messageId))?.status).toBe('failed');
+            });
+
+            it('should fly the real router\'s way around the storm once the hold runs out', async () => {
+                const routing = await vi.importActual<typeof import('@/services/routing')>('@/services/routing');
+                mockRoutingService.recalculateRoute.mockImplementation(
+                    (...args) => routing.flightRoutingService.recalculateRoute(...args)
+                );
+                vi.mocked(weatherCellsFromEvents).mockImplementation(routing.weatherCellsFromEvents);
+
+                await flightEngine.initializeFlight(messageId, startLocation, endLocation);
+                await clock.advance(6100);
+
+                // The storm grounds the duck without asking the router first
+                expect(flightEngine.getFlightRecord(messageId)?.status).toBe('holding');
+                expect(mockRoutingService.recalculateRoute).not.toHaveBeenCalled();
+
+                await clock.advance(2000);
+
+                const events = await getRepository().flightEvents.listForMessage(messageId);
+                expect(events.map(event => event.type)).toEqual(['departed', 'weather_changed', 'held', 'rerouted', 'resumed']);
+                const record = flightEngine.getFlightRecord(messageId)!;
+                expect(record.status).toBe('enroute');
+                expect(record.route.length).toBeGreaterThan(mockRoute.waypoints.length);
+                expect(record.total_distance).toBeGreaterThan(0);
+            });
+        });
+    });
+
+    describe('simulation clock', () => {
+        const tenHours = 10 * 60 * 60 * 1000;
+
+        beforeEach(() => {
+            // 5585km at 558.5km/h is a 10-hour transatlantic honk
+            mockWeatherService.calculateFlightSpeed.mockReturnValue(558.5);
+            flightEngine = new FlightEngine({
+                baseSpeedKmh: 558.5,
+                updateIntervalMs: 5 * 60 * 1000,
+                weatherCheckIntervalMs: 30 * 60 * 1000,
+                maxFlightDurationHours: 48
+            });
+        });
+
+        it('should stamp flights with simulated time', async () => {
+            const flight = await flightEngine.initializeFlight('test-message-1', startLocation, endLocation);
+
+            expect(flight?.started_at.getTime()).toBe(clock.now());
+            expect(flight?.estimated_arrival.getTime()).toBeCloseTo(clock.now() + tenHours, -3);
+        });
+
+        it('should be halfway after five simulated hours', async () => {
+            await flightEngine.initializeFlight('test-message-1', startLocation, endLocation);
+
+            await clock.advance(tenHours / 2);
+
+            const progress = flightEngine.getFlightProgress('test-message-1');
+            expect(progress?.progress_percentage).toBeCloseTo(50, 0);
+        });
+
+        it('should replay a 10-hour flight to delivery', async () => {
+            const callback = vi.fn();
+            flightEngine.onFlightProgress('test-message-1', callback);
+            await flightEngine.initializeFlight('test-message-1', startLocation, endLocation);
+
+            await clock.advance(tenHours);
+
+            const lastProgress = callback.mock.calls[callback.mock.calls.length - 1][0] as FlightProgress;
+            expect(lastProgress.progress_percentage).toBe(100);
+            expect(lastProgress.estimated_arrival.getTime()).toBe(clock.now());
+            expect(flightEngine.getFlightProgress('test-message-1')).toBeNull();
+            expect(clock.pendingTimers()).toBe(0);
+        });
+
+        it('should not update flights between clock ticks', async () => {
+            await flightEngine.initializeFlight('test-message-1', startLocation, endLocation);
+
+            await clock.advance(60 * 1000);
+
+            expect(flightEngine.getFlightProgress('test-message-1')?.progress_percentage).toBe(0);
+        });
+    });
+
     describe('cleanup', () => {
         it('should stop all active flights and clear data', async () => {
             const messageId1 = 'test-message-1';
@@ -564,7 +1158,7 @@ describe('FlightEngine', () => {
             expect(flight?.progress_percentage).toBe(0);
 
             // Wait for flight to complete
-            await new Promise(resolve => setTimeout(resolve, 500));
+            await clock.advance(500);
 
             // Verify we received progress updates
             expect(progressUpdates.length).toBeGreaterThan(0);
@@ -630,7 +1224,7 @@ describe('FlightEngine', () => {
             expect(flight?.speed_kmh).toBe(100); // Initial speed
 
             // Wait for weather check to trigger
-            await new Promise(resolve => setTimeout(resolve, 150));
+            await clock.advance(150);
 
             const record = weatherEngine.getFlightRecord(messageId);
             expect(record?.weather_events.length).toBeGreaterThan(0);
@@ -688,7 +1282,8 @@ describe('FlightEngine', () => {
                 baseSpeedKmh: 100,
                 updateIntervalMs: 50,
                 weatherCheckIntervalMs: 100,
-                maxFlightDurationHours: 1
+                maxFlightDurationHours: 1,
+                maxHoldMs: 100
             });
 
             const messageId = 'route-recalc-test';
@@ -733,8 +1328,8 @@ describe('FlightEngine', () => {
 
             expect(flight).toBeDefined();
 
-            // Wait for weather check and route recalculation
-            await new Promise(resolve => setTimeout(resolve, 150));
+            // Wait for the storm to start a hold and for the hold to run out
+            await clock.advance(250);
 
             // Verify route recalculation was called
             expect(mockRoutingService.recalculateRoute).toHaveBeenCalled();
@@ -773,7 +1368,7 @@ describe('FlightEngine', () => {
             expect(flight?.status).toBe('enroute');
 
             // Wait for flight completion
-            await new Promise(resolve => setTimeout(resolve, 200));
+            await clock.advance(200);
 
             // Should have tracked status progression
             expect(statusUpdates).toContain('enroute');
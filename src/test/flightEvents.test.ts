@@ -0,0 +1,96 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET as listFlightEvents } from '../../app/api/flights/[id]/events/route';
+import { dbManager } from '@/lib/database';
+import { MigrationRunner } from '@/lib/migrations';
+import { SqliteHonkRepository } from '@/lib/sqlite-repository';
+import { setRepository } from '@/lib/repository';
+import { AuthService } from '@/services/auth';
+import { FlightEvent, FlightEventType, LocationData } from '@/types';
+
+const NEW_YORK: LocationData = { latitude: 40.7128, longitude: -74.006, is_anonymous: false };
+const DEPARTURE = new Date('2024-06-01T12:00:00Z');
+
+describe('GET /api/flights/[id]/events', () => {
+  let repository: SqliteHonkRepository;
+  let senderToken: string;
+  let recipientToken: string;
+  let outsiderToken: string;
+
+  const event = (id: string, type: FlightEventType, minutes: number): FlightEvent => ({
+    id,
+    flight_id: 'flight_honk',
+    message_id: 'honk',
+    type,
+    occurred_at: new Date(DEPARTURE.getTime() + minutes * 60 * 1000),
+    position: NEW_YORK,
+    progress_percentage: minutes,
+    details: type === 'resumed' ? { held_ms: 20 * 60 * 1000 } : {}
+  });
+
+  const eventsFor = (id: string, token: string) =>
+    listFlightEvents(new NextRequest(`http://localhost/api/flights/${id}/events`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {}
+    }), { params: { id } });
+
+  beforeEach(async () => {
+    const db = dbManager.connect(':memory:');
+    new MigrationRunner(db).runMigrations();
+    repository = new SqliteHonkRepository();
+    setRepository(repository);
+
+    const authService = new AuthService();
+    const sender = await authService.register({ email: 'sender@example.com', username: 'sender', password: 'TestPassword123' });
+    const recipient = await authService.register({ email: 'recipient@example.com', username: 'recipient', password: 'TestPassword123' });
+    const outsider = await authService.register({ email: 'outsider@example.com', username: 'outsider', password: 'TestPassword123' });
+    senderToken = sender.token!;
+    recipientToken = recipient.token!;
+    outsiderToken = outsider.token!;
+
+    await repository.messages.create({
+      id: 'honk',
+      sender_id: sender.user!.id,
+      recipient_id: recipient.user!.id,
+      title: 'Held over Connecticut',
+      content: 'Took a while',
+      sender_location: NEW_YORK,
+      status: 'flying',
+      created_at: DEPARTURE,
+      message_type: 'regular',
+      sticker_data: []
+    });
+
+    // Logged in the same instant as the hold; the log keeps insertion order
+    await repository.flightEvents.append(event('e1', 'departed', 0));
+    await repository.flightEvents.append(event('e3', 'weather_changed', 10));
+    await repository.flightEvents.append(event('e2', 'held', 10));
+    await repository.flightEvents.append(event('e4', 'resumed', 30));
+  });
+
+  afterEach(() => {
+    setRepository(null);
+    dbManager.close();
+  });
+
+  it('should list a flight\'s events oldest first for its sender and recipient', async () => {
+    const response = await eventsFor('honk', senderToken);
+    expect(response.status).toBe(200);
+    const { events } = await response.json();
+    expect(events.map((logged: FlightEvent) => logged.type)).toEqual(['departed', 'weather_changed', 'held', 'resumed']);
+    expect(events[3]).toMatchObject({
+      flight_id: 'flight_honk',
+      occurred_at: '2024-06-01T12:30:00.000Z',
+      position: NEW_YORK,
+      details: { held_ms: 1200000 }
+    });
+
+    expect((await eventsFor('honk', recipientToken)).status).toBe(200);
+  });
+
+  it('should hide the log from everyone else', async () => {
+    expect((await eventsFor('honk', outsiderToken)).status).toBe(404);
+    expect((await eventsFor('missing', senderToken)).status).toBe(404);
+    expect((await eventsFor('honk', '')).status).toBe(401);
+  });
+});
@@ -0,0 +1,116 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST as initializeFlight } from '../../app/api/flights/initialize/route';
+import { dbManager } from '@/lib/database';
+import { MigrationRunner } from '@/lib/migrations';
+import { SqliteHonkRepository } from '@/lib/sqlite-repository';
+import { setRepository } from '@/lib/repository';
+import { AuthService } from '@/services/auth';
+import { flightEngine } from '@/services/flightEngine';
+import { HonkMessage, LocationData } from '@/types';
+
+vi.mock('@/services/flightEngine', () => ({
+  flightEngine: {
+    initializeFlight: vi.fn(async (messageId: string) => ({ id: `flight_${messageId}`, message_id: messageId }))
+  }
+}));
+
+const NEW_YORK: LocationData = { latitude: 40.7128, longitude: -74.006, is_anonymous: false };
+const LONDON: LocationData = { latitude: 51.5074, longitude: -0.1278, is_anonymous: false };
+
+describe('POST /api/flights/initialize', () => {
+  let repository: SqliteHonkRepository;
+  let senderToken: string;
+  let outsiderToken: string;
+  let senderId: string;
+
+  const takeOff = (messageId: string, token?: string) =>
+    initializeFlight(new NextRequest('http://localhost/api/flights/initialize', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      // Client-supplied locations are ignored in favour of the stored honk's
+      body: JSON.stringify({ messageId, startLocation: LONDON, endLocation: LONDON })
+    }));
+
+  const createHonk = (id: string, overrides: Partial<Pick<HonkMessage, 'status' | 'scheduled_for'>> = {}) => repository.messages.create({
+    id,
+    sender_id: senderId,
+    recipient_id: null,
+    title: 'Across the pond',
+    content: 'Hello London',
+    sender_location: NEW_YORK,
+    recipient_location: LONDON,
+    status: 'flying',
+    created_at: new Date('2024-06-01T12:00:00Z'),
+    message_type: 'regular',
+    sticker_data: [],
+    delivery_tier: 'priority',
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    const db = dbManager.connect(':memory:');
+    new MigrationRunner(db).runMigrations();
+    repository = new SqliteHonkRepository();
+    setRepository(repository);
+
+    const authService = new AuthService();
+    const sender = await authService.register({ email: 'sender@example.com', username: 'sender', password: 'TestPassword123' });
+    const outsider = await authService.register({ email: 'outsider@example.com', username: 'outsider', password: 'TestPassword123' });
+    senderToken = sender.token!;
+    outsiderToken = outsider.token!;
+    senderId = sender.user!.id;
+
+    vi.mocked(flightEngine.initializeFlight).mockClear();
+  });
+
+  afterEach(() => {
+    setRepository(null);
+    dbManager.close();
+  });
+
+  it('should start the flight from the stored honk for its sender', async () => {
+    await createHonk('honk');
+
+    const response = await takeOff('honk', senderToken);
+
+    expect(response.status).toBe(200);
+    expect(flightEngine.initializeFlight).toHaveBeenCalledWith('honk', NEW_YORK, LONDON, 'priority');
+  });
+
+  it('should require the sender to be signed in', async () => {
+    await createHonk('honk');
+
+    expect((await takeOff('honk')).status).toBe(401);
+    expect((await takeOff('honk', outsiderToken)).status).toBe(404);
+    expect(flightEngine.initializeFlight).not.toHaveBeenCalled();
+  });
+
+  it('should refuse honks that are scheduled, finished or already flying', async () => {
+    await createHonk('scheduled', { status: 'scheduled', scheduled_for: new Date('2024-06-02T08:00:00Z') });
+    await createHonk('delivered', { status: 'delivered' });
+    await createHonk('airborne');
+    await repository.flights.save({
+      id: 'flight_airborne',
+      message_id: 'airborne',
+      status: 'enroute',
+      route: [{ latitude: NEW_YORK.latitude, longitude: NEW_YORK.longitude, altitude: 100, timestamp: new Date('2024-06-01T12:00:00Z') }],
+      total_distance: 5570,
+      estimated_duration: 60 * 60 * 1000,
+      progress_percentage: 0,
+      current_position: NEW_YORK,
+      speed_kmh: 80,
+      weather_events: [],
+      delivery_tier: 'priority',
+      started_at: new Date('2024-06-01T12:00:00Z'),
+      updated_at: new Date('2024-06-01T12:00:00Z'),
+      estimated_arrival: new Date('2024-06-01T13:00:00Z')
+    });
+
+    for (const id of ['scheduled', 'delivered', 'airborne']) {
+      expect((await takeOff(id, senderToken)).status).toBe(409);
+    }
+    expect(flightEngine.initializeFlight).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { register } from '../../instrumentation';
+import { dbManager } from '@/lib/database';
+import { MigrationRunner } from '@/lib/migrations';
+import { SqliteHonkRepository } from '@/lib/sqlite-repository';
+import { setRepository } from '@/lib/repository';
+import { flightEngine } from '@/services/flightEngine';
+import { messageScheduler } from '@/services/messageScheduler';
+import { messageDeliveryService } from '@/services/messageDelivery';
+import Database from 'better-sqlite3';
+
+const origin = { latitude: 51.5074, longitude: -0.1278, country: 'UK', is_anonymous: false };
+const destination = { latitude: 40.7128, longitude: -74.006, country: 'United States', is_anonymous: false };
+
+describe('server startup', () => {
+  let db: Database.Database;
+  let repository: SqliteHonkRepository;
+
+  beforeEach(async () => {
+    db = dbManager.connect(':memory:');
+    new MigrationRunner(db).runMigrations();
+    repository = new SqliteHonkRepository();
+    setRepository(repository);
+    vi.stubEnv('NEXT_RUNTIME', 'nodejs');
+
+    for (const [id, username] of [['sender-1', 'alice'], ['recipient-1', 'bob']]) {
+      await repository.users.create({
+        id,
+        username,
+        email: `${username}@example.com`,
+        password_hash: 'hash',
+        current_location: origin
+      });
+    }
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    flightEngine.cleanup();
+    messageScheduler.cleanup();
+    messageDeliveryService.cleanup();
+    setRepository(null);
+    dbManager.close();
+  });
+
+  it('should deliver honks whose flight landed before delivery completed', async () => {
+    db.prepare(`
+      INSERT INTO messages (id, sender_id, recipient_id, title, content, sender_location,
+                           recipient_location, status)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      'message-1', 'sender-1', 'recipient-1', 'Stranded', 'Landed, never handed over',
+      JSON.stringify(origin), JSON.stringify(destination), 'flying'
+    );
+
+    // Checkpointed as delivered, then the process died before delivery ran
+    const now = new Date().toISOString();
+    db.prepare(`
+      INSERT INTO flights (id, message_id, status, route, total_distance, estimated_duration,
+                           progress_percentage, current_position, speed_kmh, weather_events,
+                           started_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      'flight-1', 'message-1', 'delivered', '[]', 5570, 3600000, 100,
+      JSON.stringify(destination), 50, '[]', now, now
+    );
+
+    await register();
+
+    const message = await repository.messages.findById('message-1');
+    expect(message?.status).toBe('delivered');
+  });
+});
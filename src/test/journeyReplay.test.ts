@@ -0,0 +1,179 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET as getReplay } from '../../app/api/messages/[id]/replay/route';
+import { dbManager } from '@/lib/database';
+import { MigrationRunner } from '@/lib/migrations';
+import { SqliteHonkRepository } from '@/lib/sqlite-repository';
+import { setRepository } from '@/lib/repository';
+import { AuthService } from '@/services/auth';
+import { buildReplayTimeline, replayMarkersUpTo, replayPositionAt } from '@/utils/journeyReplay';
+import { HonkMessage, JourneyData, JourneyReplayData, LocationData, RouteWaypoint, WeatherEvent } from '@/types';
+
+const NEW_YORK: LocationData = { latitude: 40.7128, longitude: -74.006, state: 'New York', country: 'United States', is_anonymous: false };
+const BOSTON: LocationData = { latitude: 42.3601, longitude: -71.0589, state: 'Massachusetts', country: 'United States', is_anonymous: false };
+
+const DEPARTURE = new Date('2024-06-01T12:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+function waypoint(latitude: number, longitude: number, hours: number): RouteWaypoint {
+  return { latitude, longitude, altitude: 100, timestamp: new Date(DEPARTURE.getTime() + hours * HOUR_MS) };
+}
+
+function weather(type: WeatherEvent['type'], latitude: number, longitude: number, intensity = 0.8): WeatherEvent {
+  return {
+    type,
+    intensity,
+    speed_modifier: 0.6,
+    location: { latitude, longitude, is_anonymous: false },
+    timestamp: DEPARTURE,
+    details: { temperature: 15, windSpeed: 20, windDirection: 90 }
+  };
+}
+
+// Heads north-east, swings north around a storm, then on to Boston
+const ROUTE = [
+  waypoint(40.7128, -74.006, 0),
+  waypoint(41.2, -73.2, 1),
+  waypoint(42.4, -73.1, 2),
+  waypoint(42.3601, -71.0589, 4)
+];
+
+describe('Journey replay', () => {
+  describe('timeline', () => {
+    it('should place weather and reroutes on the route at their waypoint times', () => {
+      const timeline = buildReplayTimeline(ROUTE, [weather('clear', 40.7, -74), weather('storm', 42.3, -73.2)], 0);
+
+      expect(timeline.duration_ms).toBe(4 * HOUR_MS);
+      expect(timeline.waypoint_offsets).toEqual([0, HOUR_MS, 2 * HOUR_MS, 4 * HOUR_MS]);
+      expect(timeline.markers.map(marker => [marker.id, marker.offset_ms])).toEqual([
+        ['departure', 0],
+        ['weather-0', 0],
+        ['reroute-1', HOUR_MS],
+        ['weather-1', 2 * HOUR_MS],
+        ['arrival', 4 * HOUR_MS]
+      ]);
+      expect(timeline.markers[3]).toMatchObject({ kind: 'weather', icon: '⛈️', label: 'Storm (80% intensity)' });
+    });
+
+    it('should spread untimed routes by distance and interpolate the duck between waypoints', () => {
+      const untimed = [ROUTE[0], { ...ROUTE[3], timestamp: ROUTE[0].timestamp }];
+      const timeline = buildReplayTimeline(untimed, [], 2 * HOUR_MS);
+      expect(timeline.waypoint_offsets).toEqual([0, 2 * HOUR_MS]);
+
+      const halfway = replayPositionAt(untimed, timeline, HOUR_MS);
+      expect(halfway.latitude).toBeCloseTo((NEW_YORK.latitude + BOSTON.latitude) / 2);
+      expect(halfway.longitude).toBeCloseTo((NEW_YORK.longitude + BOSTON.longitude) / 2);
+      expect(replayPositionAt(untimed, timeline, 5 * HOUR_MS)).toMatchObject({ latitude: BOSTON.latitude });
+      expect(replayMarkersUpTo(timeline, HOUR_MS).map(marker => marker.id)).toEqual(['departure']);
+    });
+  });
+
+  describe('GET /api/messages/[id]/replay', () => {
+    let repository: SqliteHonkRepository;
+    let senderToken: string;
+    let senderId: string;
+    let recipientToken: string;
+    let outsiderToken: string;
+    let recipientId: string;
+
+    const replayOf = async (id: string, token: string) =>
+      getReplay(new NextRequest(`http://localhost/api/messages/${id}/replay`, {
+        headers: { Authorization: `Bearer ${token}` }
+      }), { params: { id } });
+
+    const honk = (id: string, journey: JourneyData, overrides: Partial<HonkMessage> = {}): HonkMessage => ({
+      id,
+      sender_id: senderId,
+      recipient_id: recipientId,
+      title: 'Over the storm',
+      content: 'Made it!',
+      sender_location: NEW_YORK,
+      recipient_location: BOSTON,
+      status: 'delivered',
+      created_at: DEPARTURE,
+      delivered_at: new Date(DEPARTURE.getTime() + 4 * HOUR_MS),
+      journey_data: journey,
+      message_type: 'regular',
+      sticker_data: [],
+      ...overrides
+    });
+
+    beforeEach(async () => {
+      const db = dbManager.connect(':memory:');
+      new MigrationRunner(db).runMigrations();
+      repository = new SqliteHonkRepository();
+      setRepository(repository);
+
+      const authService = new AuthService();
+      const sender = await authService.register({ email: 'sender@example.com', username: 'sender', password: 'TestPassword123' });
+      const recipient = await authService.register({ email: 'recipient@example.com', username: 'recipient', password: 'TestPassword123' });
+      const outsider = await authService.register({ email: 'outsider@example.com', username: 'outsider', password: 'TestPassword123' });
+      senderToken = sender.token!;
+      senderId = sender.user!.id;
+      recipientToken = recipient.token!;
+      recipientId = recipient.user!.id;
+      outsiderToken = outsider.token!;
+
+      // Delivery already recorded these; the replay has to work out which were new
+      await repository.users.update(senderId, { countries_visited: ['United States'], states_visited: ['Massachusetts'] });
+    });
+
+    afterEach(() => {
+      setRepository(null);
+      dbManager.close();
+    });
+
+    it('should link the points breakdown to the moments that earned it', async () => {
+      await repository.messages.create(honk('earlier', {
+        route: [], total_distance: 10, estimated_duration: HOUR_MS, weather_events: [], current_progress: 100, journey_points_earned: 10
+      }, { recipient_location: { ...BOSTON, state: 'Rhode Island' }, delivered_at: DEPARTURE }));
+      await repository.messages.create(honk('stormy', {
+        route: ROUTE,
+        total_distance: 306,
+        estimated_duration: 4 * HOUR_MS,
+        weather_events: [weather('clear', 40.7, -74), weather('storm', 42.3, -73.2), weather('wind', 42.35, -71.1, 0.5)],
+        current_progress: 100,
+        journey_points_earned: 382
+      }));
+
+      const response = await replayOf('stormy', recipientToken);
+      expect(response.status).toBe(200);
+      const { replay } = await response.json() as { replay: JourneyReplayData };
+
+      expect(replay.route).toHaveLength(4);
+      expect(replay.timeline.markers.filter(marker => marker.kind === 'reroute')).toHaveLength(1);
+      expect(replay.points.total).toBe(306 + 76 + 500);
+      expect(replay.points.breakdown).toEqual([
+        { label: expect.stringMatching(/^Base: 306 points/), points: 306, marker_ids: ['departure', 'arrival'] },
+        { label: expect.stringMatching(/^Weather bonus: 76 points \(1 adverse/), points: 76, marker_ids: ['weather-1'] },
+        // Massachusetts was new when this honk landed; the country was reached by an earlier one
+        { label: expect.stringMatching(/^New location bonus: 500 points \(Massachusetts\)/), points: 500, marker_ids: ['arrival'] }
+      ]);
+    });
+
+    it('should replay journeys stored without a route as a straight line', async () => {
+      await repository.messages.create(honk('straight', {
+        route: [], total_distance: 306, estimated_duration: HOUR_MS, weather_events: [], current_progress: 100, journey_points_earned: 306
+      }));
+
+      const { replay } = await (await replayOf('straight', senderToken)).json() as { replay: JourneyReplayData };
+      expect(replay.route.map(point => point.latitude)).toEqual([NEW_YORK.latitude, BOSTON.latitude]);
+      expect(replay.timeline.duration_ms).toBe(4 * HOUR_MS);
+      expect(replay.timeline.markers.map(marker => marker.id)).toEqual(['departure', 'arrival']);
+    });
+
+    it('should only replay delivered honks for their sender or recipient', async () => {
+      const journey: JourneyData = {
+        route: ROUTE, total_distance: 306, estimated_duration: 4 * HOUR_MS, weather_events: [], current_progress: 40, journey_points_earned: 0
+      };
+      await repository.messages.create(honk('delivered', journey));
+      await repository.messages.create(honk('flying', journey, { status: 'flying', delivered_at: undefined }));
+
+      expect((await replayOf('delivered', outsiderToken)).status).toBe(404);
+      expect((await replayOf('missing', senderToken)).status).toBe(404);
+      expect((await replayOf('flying', senderToken)).status).toBe(409);
+      expect((await replayOf('delivered', '')).status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MessageScheduler, SchedulingError } from '@/services/messageScheduler';
+import { flightEngine } from '@/services/flightEngine';
+import { dbManager } from '@/lib/database';
+import { MigrationRunner } from '@/lib/migrations';
+import { SqliteHonkRepository } from '@/lib/sqlite-repository';
+import { setRepository } from '@/lib/repository';
+import { ManualClock } from '@/lib/simulation-clock';
+import { parseScheduledTime } from '@/utils/timezone';
+import { HonkMessage } from '@/types';
+
+vi.mock('@/services/flightEngine', () => ({
+  flightEngine: {
+    initializeFlight: vi.fn().mockResolvedValue({ id: 'flight_message-1' })
+  }
+}));
+
+const newYork = {
+  latitude: 40.7128,
+  longitude: -74.006,
+  state: 'New York',
+  country: 'United States',
+  is_anonymous: false
+};
+
+const tokyo = {
+  latitude: 35.6762,
+  longitude: 139.6503,
+  country: 'Japan',
+  is_anonymous: false
+};
+
+const veteran = { total_journey_points: 15000, time_zone: 'Asia/Tokyo', current_location: tokyo };
+const recipient = { time_zone: 'America/New_York', current_location: newYork };
+
+describe('MessageScheduler', () => {
+  let clock: ManualClock;
+  let scheduler: MessageScheduler;
+  let repository: SqliteHonkRepository;
+
+  beforeEach(async () => {
+    const db = dbManager.connect(':memory:');
+    new MigrationRunner(db).runMigrations();
+    repository = new SqliteHonkRepository();
+    setRepository(repository);
+
+    for (const [id, username] of [['user-1', 'alice'], ['user-2', 'bob']]) {
+      await repository.users.create({
+        id,
+        username,
+        email: `${username}@example.com`,
+        password_hash: 'hash',
+        current_location: newYork
+      });
+    }
+
+    clock = new ManualClock(new Date('2024-06-01T00:00:00Z'));
+    scheduler = new MessageScheduler({}, { clock });
+    vi.mocked(flightEngine.initializeFlight).mockClear();
+  });
+
+  afterEach(() => {
+    scheduler.cleanup();
+    setRepository(null);
+    dbManager.close();
+  });
+
+  async function createScheduled(scheduledFor: Date, overrides: Partial<HonkMessage> = {}): Promise<HonkMessage> {
+    const message: HonkMessage = {
+      id: 'message-1',
+      sender_id: 'user-1',
+      recipient_id: 'user-2',
+      title: 'Good morning',
+      content: 'Timed to land with your coffee',
+      sender_location: tokyo,
+      recipient_location: newYork,
+      status: 'scheduled',
+      created_at: new Date(clock.now()),
+      message_type: 'regular',
+      sticker_data: [],
+      scheduled_for: scheduledFor,
+      scheduled_timezone: 'America/New_York',
+      ...overrides
+    };
+    await repository.messages.create(message);
+    return message;
+  }
+
+  describe('resolveSchedule', () => {
+    it('should reject senders below Veteran Voyager', () => {
+      const fledgling = { ...veteran, total_journey_points: 14999 };
+
+      let error: unknown;
+      try {
+        scheduler.resolveSchedule({ scheduled_for: '2024-06-02T08:00' }, fledgling, recipient);
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(SchedulingError);
+      expect((error as SchedulingError).status).toBe(403);
+    });
+
+    it("should read local times in the recipient's time zone by default", () => {
+      const schedule = scheduler.resolveSchedule({ scheduled_for: '2024-06-02T08:00' }, veteran, recipient);
+
+      expect(schedule.timeZone).toBe('America/New_York');
+      expect(schedule.scheduledFor.toISOString()).toBe('2024-06-02T12:00:00.000Z');
+    });
+
+    it("should read local times in the sender's time zone on request", () => {
+      const schedule = scheduler.resolveSchedule(
+        { scheduled_for: '2024-06-02T08:00', time_zone: 'sender' },
+        veteran,
+        recipient
+      );
+
+      expect(schedule.timeZone).toBe('Asia/Tokyo');
+      expect(schedule.scheduledFor.toISOString()).toBe('2024-06-01T23:00:00.000Z');
+    });
+
+    it('should reject times too soon, too far out or unparseable', () => {
+      expect(() => scheduler.resolveSchedule({ scheduled_for: '2024-06-01T00:00:30Z' }, veteran, recipient))
+        .toThrow('at least a minute');
+      expect(() => scheduler.resolveSchedule({ scheduled_for: '2024-08-01T00:00:00Z' }, veteran, recipient))
+        .toThrow('within the next 30 days');
+      expect(() => scheduler.resolveSchedule({ scheduled_for: 'tomorrow morning' }, veteran, recipient))
+        .toThrow('ISO date-time');
+    });
+  });
+
+  describe('launching', () => {
+    it('should launch the flight at the scheduled time', async () => {
+      const message = await createScheduled(new Date('2024-06-01T01:00:00Z'));
+      scheduler.arm(message);
+
+      await clock.advance(59 * 60 * 1000);
+      expect(flightEngine.initializeFlight).not.toHaveBeenCalled();
+
+      await clock.advance(60 * 1000);
+      expect(flightEngine.initializeFlight).toHaveBeenCalledWith('message-1', tokyo, newYork, 'standard');
+      expect((await repository.messages.findById('message-1'))?.status).toBe('flying');
+      expect(scheduler.isArmed('message-1')).toBe(false);
+    });
+
+    it('should re-arm an edited honk for its new launch time', async () => {
+      const message = await createScheduled(new Date('2024-06-01T01:00:00Z'));
+      scheduler.arm(message);
+
+      await scheduler.update('message-1', { scheduled_for: new Date('2024-06-01T03:00:00Z') });
+      await clock.advance(2 * 60 * 60 * 1000);
+      expect(flightEngine.initializeFlight).not.toHaveBeenCalled();
+
+      await clock.advance(60 * 60 * 1000);
+      expect(flightEngine.initializeFlight).toHaveBeenCalledTimes(1);
+    });
+
+    it('should never launch a cancelled honk', async () => {
+      const message = await createScheduled(new Date('2024-06-01T01:00:00Z'));
+      scheduler.arm(message);
+
+      expect(await scheduler.cancel('message-1')).toBe(true);
+      await clock.advance(2 * 60 * 60 * 1000);
+
+      expect(flightEngine.initializeFlight).not.toHaveBeenCalled();
+      expect(await repository.messages.findById('message-1')).toBeNull();
+    });
+
+    it('should launch overdue honks immediately on restore', async () => {
+      await createScheduled(new Date('2024-05-31T23:00:00Z'));
+
+      expect(await scheduler.restoreScheduled()).toBe(1);
+      await clock.advance(0);
+
+      expect(flightEngine.initializeFlight).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ground a honk whose flight fails to take off and launch it on retry', async () => {
+      const message = await createScheduled(new Date('2024-06-01T01:00:00Z'));
+      vi.mocked(flightEngine.initializeFlight).mockResolvedValueOnce(null);
+      scheduler.arm(message);
+
+      await clock.advance(60 * 60 * 1000);
+      expect(flightEngine.initializeFlight).toHaveBeenCalledTimes(1);
+      expect((await repository.messages.findById('message-1'))?.status).toBe('scheduled');
+      expect(scheduler.isArmed('message-1')).toBe(true);
+
+      await clock.advance(60 * 1000);
+      expect(flightEngine.initializeFlight).toHaveBeenCalledTimes(2);
+      expect((await repository.messages.findById('message-1'))?.status).toBe('flying');
+      expect(scheduler.isArmed('message-1')).toBe(false);
+    });
+
+    it('should return a honk to its sender once take-off retries run out', async () => {
+      await createScheduled(new Date('2024-06-01T01:00:00Z'));
+      for (let attempt = 0; attempt < 4; attempt++) {
+        vi.mocked(flightEngine.initializeFlight).mockResolvedValueOnce(null);
+      }
+
+      expect(await scheduler.launch('message-1')).toBe(false);
+      // Retries back off: 1, 2 then 4 minutes
+      await clock.advance(7 * 60 * 1000);
+
+      expect(flightEngine.initializeFlight).toHaveBeenCalledTimes(4);
+      expect((await repository.messages.findById('message-1'))?.status).toBe('returned');
+      expect(scheduler.isArmed('message-1')).toBe(false);
+    });
+
+    it('should return a honk with no recipient location to its sender', async () => {
+      const message = await createScheduled(new Date('2024-06-01T01:00:00Z'), { recipient_location: undefined });
+      scheduler.arm(message);
+
+      await clock.advance(60 * 60 * 1000);
+
+      expect(flightEngine.initializeFlight).not.toHaveBeenCalled();
+      expect((await repository.messages.findById('message-1'))?.status).toBe('returned');
+      expect(scheduler.isArmed('message-1')).toBe(false);
+    });
+  });
+});
+
+describe('parseScheduledTime', () => {
+  it('should keep explicit offsets absolute', () => {
+    expect(parseScheduledTime('2024-06-02T08:00:00+02:00', 'America/New_York')?.toISOString())
+      .toBe('2024-06-02T06:00:00.000Z');
+  });
+
+  it('should follow daylight saving time in the target zone', () => {
+    expect(parseScheduledTime('2024-01-15T08:00', 'America/New_York')?.toISOString())
+      .toBe('2024-01-15T13:00:00.000Z');
+    expect(parseScheduledTime('2024-07-15T08:00', 'America/New_York')?.toISOString())
+      .toBe('2024-07-15T12:00:00.000Z');
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '../../app/api/messages/send/route';
+import { authMiddleware } from '@/lib/auth-middleware';
+import {
+  exportPostcardDocument,
+  importPostcardDocument,
+  validatePostcardDocument
+} from '@/utils/postcardDocument';
+import { PostcardDocument, StickerData } from '@/types';
+
+vi.mock('@/lib/auth-middleware', () => ({
+  authMiddleware: vi.fn()
+}));
+
+const leaf: StickerData = { id: 's1', name: 'Leaf', emoji: '🍂', type: 'default', x: 100, y: 80, size: 40, rotation: 15, scale: 1.5 };
+
+const document = (overrides: Partial<PostcardDocument> = {}): PostcardDocument => ({
+  version: 1,
+  title: 'Fall Postcard',
+  text: 'Greetings from the lake',
+  background: 'autumn',
+  stickers: [leaf],
+  drawing: { version: 1, strokes: [{ tool: 'pen', color: '#000', width: 4, points: [{ x: 1, y: 1 }] }] },
+  ...overrides
+});
+
+describe('Postcard documents', () => {
+  afterEach(() => {
+    vi.mocked(authMiddleware).mockReset();
+  });
+
+  it('should accept a current document and drop unknown fields', () => {
+    const result = validatePostcardDocument({ ...document(), extra: 'ignored', title: '  Fall Postcard ' });
+
+    expect(result.isValid).toBe(true);
+    expect(result.document).toEqual(document());
+  });
+
+  it('should migrate the legacy message payload', () => {
+    const result = validatePostcardDocument({
+      title: 'Old card',
+      content: 'Sent before documents',
+      sticker_data: [leaf],
+      drawing_data: [{ color: '#000', width: 2, points: [{ x: 5, y: 5 }] }]
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.document).toEqual({
+      version: 1,
+      title: 'Old card',
+      text: 'Sent before documents',
+      background: 'paper',
+      stickers: [leaf],
+      drawing: { version: 1, strokes: [{ tool: 'pen', color: '#000', width: 2, points: [{ x: 5, y: 5 }] }] }
+    });
+  });
+
+  it('should reject newer versions and malformed fields', () => {
+    expect(validatePostcardDocument({ ...document(), version: 2 }).errors[0]).toMatch(/newer than this app supports/);
+    expect(validatePostcardDocument({ ...document(), version: 'one' }).errors[0]).toMatch(/whole number/);
+    expect(validatePostcardDocument(document({ text: ' ' })).errors[0]).toMatch(/required/);
+    expect(validatePostcardDocument({ ...document(), background: 'plaid' }).errors[0]).toMatch(/background must be/);
+    expect(validatePostcardDocument({ ...document(), font: 'comic' }).errors[0]).toMatch(/font must be/);
+    expect(validatePostcardDocument(document({ stickers: [{ ...leaf, scale: 50 }] })).errors[0])
+      .toMatch(/Sticker 1 scale must be between/);
+    expect(validatePostcardDocument(document({ stickers: [{ ...leaf, emoji: undefined, imageUrl: 'https://example.com/a.png' }] })).errors[0])
+      .toMatch(/app path or an image data URL/);
+    expect(validatePostcardDocument(document({ stickers: [{ ...leaf, emoji: undefined, imageUrl: '//evil.example/pixel.png' }] })).errors[0])
+      .toMatch(/app path or an image data URL/);
+    expect(validatePostcardDocument(document({ stickers: [{ ...leaf, emoji: undefined, imageUrl: '/\\evil.example/pixel.png' }] })).errors[0])
+      .toMatch(/app path or an image data URL/);
+    expect(validatePostcardDocument({ ...document(), drawing: undefined }).errors[0]).toMatch(/drawing object/);
+  });
+
+  it('should cap the combined size of sticker images on a card', () => {
+    const embedded = (id: string): StickerData => ({
+      ...leaf,
+      id,
+      emoji: undefined,
+      imageUrl: `data:image/png;base64,${'A'.repeat(400 * 1024)}`
+    });
+
+    expect(validatePostcardDocument(document({ stickers: [embedded('a'), embedded('b')] })).isValid).toBe(true);
+    expect(validatePostcardDocument(document({ stickers: [embedded('a'), embedded('b'), embedded('c')] })).errors[0])
+      .toMatch(/too large/);
+    expect(validatePostcardDocument(document({ stickers: [{ ...leaf, emoji: undefined, imageUrl: '/api/stickers/s1/image' }] })).isValid)
+      .toBe(true);
+  });
+
+  it('should round-trip through export and import', () => {
+    expect(importPostcardDocument(exportPostcardDocument(document())).document).toEqual(document());
+    expect(importPostcardDocument('not json').errors).toEqual(['That file is not a postcard document']);
+  });
+
+  it('should require a document when sending a postcard', async () => {
+    vi.mocked(authMiddleware).mockResolvedValue({
+      success: true,
+      user: { id: 'alice', username: 'alice', email: 'alice@example.com', total_journey_points: 0 } as never
+    });
+
+    const response = await POST(new NextRequest('http://localhost/api/messages/send', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title: 'Hi', content: 'Loose fields', locationSharing: 'state', message_type: 'postcard' })
+    }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Postcards must be sent as a postcard document');
+  });
+});
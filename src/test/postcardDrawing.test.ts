@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '../../app/api/messages/send/route';
+import { authMiddleware } from '@/lib/auth-middleware';
+import {
+  EMPTY_DRAWING_HISTORY,
+  POSTCARD_MAX_STROKE_POINTS,
+  postcardDrawingReducer,
+  readPostcardDrawing,
+  replayPostcardDrawing,
+  validatePostcardDrawing
+} from '@/utils/postcardDrawing';
+import { PostcardStroke } from '@/types';
+
+vi.mock('@/lib/auth-middleware', () => ({
+  authMiddleware: vi.fn()
+}));
+
+const pen = (color: string, points: PostcardStroke['points']): PostcardStroke => ({ tool: 'pen', color, width: 4, points });
+
+describe('Postcard drawings', () => {
+  afterEach(() => {
+    vi.mocked(authMiddleware).mockReset();
+  });
+
+  describe('validatePostcardDrawing', () => {
+    it('should accept a versioned drawing and clamp points to the card', () => {
+      const result = validatePostcardDrawing({
+        version: 1,
+        strokes: [
+          pen('#000', [{ x: -3, y: 10 }, { x: 650, y: 400 }]),
+          { tool: 'eraser', color: '#FFFFFF', width: 12, points: [{ x: 5, y: 5 }] }
+        ]
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.drawing!.strokes[0].points).toEqual([{ x: 0, y: 10 }, { x: 600, y: 375 }]);
+      expect(result.drawing!.strokes[1].tool).toBe('eraser');
+    });
+
+    it('should reject unknown versions, tools and malformed strokes', () => {
+      expect(validatePostcardDrawing([pen('#000', [{ x: 1, y: 1 }])]).errors[0]).toMatch(/drawing object/);
+      expect(validatePostcardDrawing({ version: 2, strokes: [] }).errors[0]).toMatch(/Unsupported drawing version/);
+      expect(validatePostcardDrawing({ version: 1, strokes: [{ ...pen('#000', [{ x: 1, y: 1 }]), tool: 'spray' }] }).errors[0])
+        .toMatch(/unknown tool/);
+      expect(validatePostcardDrawing({ version: 1, strokes: [pen('red', [{ x: 1, y: 1 }])] }).errors[0]).toMatch(/hex color/);
+      expect(validatePostcardDrawing({ version: 1, strokes: [{ ...pen('#000', [{ x: 1, y: 1 }]), width: 100 }] }).errors[0])
+        .toMatch(/width must be between/);
+      expect(validatePostcardDrawing({ version: 1, strokes: [pen('#000', [{ x: 'a', y: 1 }] as never)] }).errors[0])
+        .toMatch(/malformed point/);
+    });
+
+    it('should cap the size of a drawing', () => {
+      const longStroke = pen('#000', Array.from({ length: POSTCARD_MAX_STROKE_POINTS + 1 }, (_, i) => ({ x: i % 600, y: 10 })));
+      expect(validatePostcardDrawing({ version: 1, strokes: [longStroke] }).errors[0]).toMatch(/more than 2000 points/);
+
+      const tooMany = Array.from({ length: 201 }, () => pen('#000', [{ x: 1, y: 1 }]));
+      expect(validatePostcardDrawing({ version: 1, strokes: tooMany }).errors[0]).toMatch(/at most 200 strokes/);
+    });
+  });
+
+  it('should upgrade the original unversioned stroke list when reading', () => {
+    expect(readPostcardDrawing([{ color: '#000', width: 2, points: [{ x: 1, y: 1 }] }])).toEqual({
+      version: 1,
+      strokes: [{ tool: 'pen', color: '#000', width: 2, points: [{ x: 1, y: 1 }] }]
+    });
+    expect(readPostcardDrawing({ version: 9, strokes: [] })).toBeUndefined();
+    expect(readPostcardDrawing(undefined)).toBeUndefined();
+  });
+
+  it('should keep undo and redo history while composing', () => {
+    let state = postcardDrawingReducer(EMPTY_DRAWING_HISTORY, { type: 'begin', stroke: pen('#000', [{ x: 1, y: 1 }]) });
+    state = postcardDrawingReducer(state, { type: 'extend', point: { x: 2, y: 2 } });
+    state = postcardDrawingReducer(state, { type: 'begin', stroke: pen('#f00', [{ x: 5, y: 5 }]) });
+
+    state = postcardDrawingReducer(state, { type: 'undo' });
+    expect(state.strokes.map(stroke => stroke.color)).toEqual(['#000']);
+    expect(state.strokes[0].points).toHaveLength(2);
+
+    state = postcardDrawingReducer(state, { type: 'redo' });
+    expect(state.strokes.map(stroke => stroke.color)).toEqual(['#000', '#f00']);
+
+    // Drawing after an undo drops the redo stack
+    state = postcardDrawingReducer(state, { type: 'undo' });
+    state = postcardDrawingReducer(state, { type: 'begin', stroke: pen('#0f0', [{ x: 9, y: 9 }]) });
+    expect(postcardDrawingReducer(state, { type: 'redo' })).toBe(state);
+  });
+
+  it('should replay strokes in order with the eraser cutting through', () => {
+    const calls: string[] = [];
+    const ctx = new Proxy({}, {
+      get: (_target, name: string) => (...args: unknown[]) => calls.push(`${name}(${args.join(',')})`),
+      set: (_target, name: string, value: unknown) => {
+        calls.push(`${name}=${value}`);
+        return true;
+      }
+    }) as unknown as CanvasRenderingContext2D;
+
+    replayPostcardDrawing(ctx, {
+      version: 1,
+      strokes: [
+        pen('#000', [{ x: 10, y: 10 }, { x: 20, y: 30 }]),
+        { tool: 'eraser', color: '#FFFFFF', width: 8, points: [{ x: 15, y: 20 }] }
+      ]
+    }, 2);
+
+    expect(calls).toEqual([
+      'save()', 'setTransform(2,0,0,2,0,0)', 'clearRect(0,0,600,375)', 'lineCap=round', 'lineJoin=round',
+      'globalCompositeOperation=source-over', 'globalAlpha=0.9', 'strokeStyle=#000', 'lineWidth=4',
+      'beginPath()', 'moveTo(10,10)', 'quadraticCurveTo(10,10,15,20)', 'stroke()',
+      'globalCompositeOperation=destination-out', 'globalAlpha=1', 'strokeStyle=#FFFFFF', 'lineWidth=8',
+      'beginPath()', 'moveTo(15,20)', 'lineTo(15,20)', 'stroke()',
+      'restore()'
+    ]);
+  });
+
+  it('should refuse a malformed drawing when sending a postcard', async () => {
+    vi.mocked(authMiddleware).mockResolvedValue({
+      success: true,
+      user: { id: 'alice', username: 'alice', email: 'alice@example.com', total_journey_points: 0 } as never
+    });
+
+    const response = await POST(new NextRequest('http://localhost/api/messages/send', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        locationSharing: 'state',
+        message_type: 'postcard',
+        postcard: {
+          version: 1,
+          title: 'Doodle',
+          text: 'Look!',
+          background: 'paper',
+          stickers: [],
+          drawing: { version: 1, strokes: [{ tool: 'spray', color: '#000', width: 4, points: [{ x: 1, y: 1 }] }] }
+        }
+      })
+    }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/unknown tool/);
+  });
+});
@@ -0,0 +1,147 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import sharp from 'sharp';
+import { GET as getImage } from '../../app/api/postcards/[id]/image/route';
+import { dbManager } from '@/lib/database';
+import { MigrationRunner } from '@/lib/migrations';
+import { SqliteHonkRepository } from '@/lib/sqlite-repository';
+import { setRepository } from '@/lib/repository';
+import { ManualClock } from '@/lib/simulation-clock';
+import { PostcardRenderer, postcardImageUrl } from '@/services/postcardRenderer';
+import { wrapPostcardLines } from '@/utils/postcard';
+import { postcardDocumentFromMessage } from '@/utils/postcardDocument';
+import { HonkMessage } from '@/types';
+
+const location = { latitude: 40.7128, longitude: -74.006, is_anonymous: false };
+
+function postcard(overrides: Partial<HonkMessage> = {}): HonkMessage {
+  return {
+    id: 'card-1',
+    sender_id: 'alice',
+    recipient_id: 'bob',
+    title: 'Fall Postcard',
+    content: 'Greetings from <the> lake & the geese',
+    sender_location: location,
+    recipient_location: location,
+    status: 'flying',
+    created_at: new Date('2024-06-01T00:00:00Z'),
+    message_type: 'postcard',
+    sticker_data: [
+      { id: 's1', name: 'Leaf', emoji: '🍂', type: 'default', x: 100, y: 80, size: 40, rotation: 15, scale: 1.5 }
+    ],
+    drawing_data: {
+      version: 1,
+      strokes: [
+        { tool: 'pen', color: '#ff0000', width: 4, points: [{ x: 10, y: 10 }, { x: 50, y: 30 }, { x: 90, y: 10 }] }
+      ]
+    },
+    postcard_background: 'autumn',
+    ...overrides
+  };
+}
+
+const card = (overrides: Partial<HonkMessage> = {}) => postcardDocumentFromMessage(postcard(overrides));
+
+describe('PostcardRenderer', () => {
+  let repository: SqliteHonkRepository;
+  const renderer = new PostcardRenderer({}, { clock: new ManualClock(new Date('2024-06-01T00:00:00Z')) });
+
+  beforeEach(async () => {
+    const db = dbManager.connect(':memory:');
+    new MigrationRunner(db).runMigrations();
+    repository = new SqliteHonkRepository();
+    setRepository(repository);
+
+    for (const username of ['alice', 'bob']) {
+      await repository.users.create({
+        id: username,
+        username,
+        email: `${username}@example.com`,
+        password_hash: 'hash',
+        current_location: location
+      });
+    }
+  });
+
+  afterEach(() => {
+    setRepository(null);
+    dbManager.close();
+  });
+
+  it('should draw text, strokes and stickers into the SVG', async () => {
+    const svg = await renderer.buildSvg(card(), { senderName: 'alice' });
+
+    expect(svg).toContain('Greetings from &lt;the&gt; lake &amp; the geese');
+    expect(svg).toContain('fill="#F5DEB3"');
+    expect(svg).toContain('<path d="M10 10 Q10 10 30 20 Q50 30 70 20" fill="none" stroke-width="4" stroke-linecap="round" stroke-linejoin="round" stroke="#ff0000"');
+    expect(svg).toContain('translate(100 80) rotate(15)');
+    expect(svg).toContain('From: alice');
+  });
+
+  it('should mask out earlier strokes under an eraser stroke', async () => {
+    const svg = await renderer.buildSvg(card({
+      drawing_data: {
+        version: 1,
+        strokes: [
+          { tool: 'pen', color: '#000000', width: 4, points: [{ x: 10, y: 10 }, { x: 90, y: 10 }] },
+          { tool: 'eraser', color: '#FFFFFF', width: 10, points: [{ x: 50, y: 10 }] },
+          { tool: 'pen', color: '#00ff00', width: 4, points: [{ x: 10, y: 50 }] }
+        ]
+      }
+    }));
+
+    const masked = svg.slice(svg.indexOf('<g mask="url(#erase-1)">'), svg.indexOf('</g>') + 4);
+    expect(masked).toContain('stroke="#000000"');
+    expect(masked).not.toContain('stroke="#00ff00"');
+    expect(svg).toContain('<path d="M50 10 L50 10" fill="none" stroke-width="10" stroke-linecap="round" stroke-linejoin="round" stroke="#000"/>');
+  });
+
+  it('should only inline sticker images from our own assets', async () => {
+    const svg = await renderer.buildSvg(card({
+      sticker_data: [
+        { id: 's1', name: 'Remote', imageUrl: 'https://example.com/duck.png', type: 'user', x: 10, y: 10, size: 40, rotation: 0, scale: 1 },
+        { id: 's2', name: 'Escape', imageUrl: '/../package.json', type: 'user', x: 10, y: 10, size: 40, rotation: 0, scale: 1 }
+      ]
+    }));
+
+    expect(svg).not.toContain('<image');
+  });
+
+  it('should render the same PNG every time', async () => {
+    const first = await renderer.render(card(), { senderName: 'alice' });
+    const second = await renderer.render(card(), { senderName: 'alice' });
+
+    expect(first.equals(second)).toBe(true);
+    expect(await sharp(first).metadata()).toMatchObject({ format: 'png', width: 1200, height: 750 });
+  });
+
+  it('should store the rendered card and serve it from the image route', async () => {
+    const message = postcard();
+    await repository.messages.create(message);
+
+    const stored = await renderer.renderAndStore(message);
+    expect(stored.image_url).toBe(postcardImageUrl(stored.id));
+    expect((await repository.postcards.findByMessageIds([message.id])).map(card => card.id)).toEqual([stored.id]);
+
+    const response = await getImage(new NextRequest(`http://localhost${stored.image_url}`), { params: { id: stored.id } });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('image/png');
+
+    const served = Buffer.from(await response.arrayBuffer());
+    expect(served.equals((await repository.postcards.findImage(stored.id))!)).toBe(true);
+
+    // Rendering again reuses the same postcard row
+    expect((await renderer.renderAndStore(message)).id).toBe(stored.id);
+
+    const missing = await getImage(new NextRequest('http://localhost'), { params: { id: 'nope' } });
+    expect(missing.status).toBe(404);
+  });
+});
+
+describe('wrapPostcardLines', () => {
+  it('should wrap text into postcard lines', () => {
+    expect(wrapPostcardLines('one two three four', 9)).toEqual(['one two', 'three', 'four']);
+    expect(wrapPostcardLines('first\nsecond')).toEqual(['first', 'second']);
+  });
+});
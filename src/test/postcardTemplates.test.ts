@@ -0,0 +1,158 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from '../../app/api/templates/route';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { dbManager } from '@/lib/database';
+import { MigrationRunner } from '@/lib/migrations';
+import { SqliteHonkRepository } from '@/lib/sqlite-repository';
+import { setRepository } from '@/lib/repository';
+import { ManualClock } from '@/lib/simulation-clock';
+import { DEFAULT_POSTCARD_TEMPLATE, POSTCARD_TEMPLATE_DATA } from '@/lib/postcard-templates';
+import { loadTemplateCollections, PostcardTemplateService } from '@/services/postcardTemplates';
+import { PostcardRenderer } from '@/services/postcardRenderer';
+import { postcardMessageFields, validatePostcardDocument } from '@/utils/postcardDocument';
+import { isCollectionInSeason, postcardDocumentFromTemplate, validateTemplateCollection } from '@/utils/postcardTemplates';
+import { PostcardTemplateCollectionListing } from '@/types';
+
+vi.mock('@/lib/auth-middleware', () => ({
+  authMiddleware: vi.fn()
+}));
+
+const location = { latitude: 40.7128, longitude: -74.006, is_anonymous: false };
+
+const collection = (overrides: Record<string, unknown> = {}) => ({
+  id: 'test',
+  name: 'Test',
+  templates: [{ ...DEFAULT_POSTCARD_TEMPLATE }],
+  ...overrides
+});
+
+const onDate = (date: string) => new PostcardTemplateService({}, { clock: new ManualClock(new Date(date)) });
+
+const templateIds = (collections: PostcardTemplateCollectionListing[]) =>
+  collections.flatMap(entry => entry.templates.map(template => `${entry.id}/${template.id}`));
+
+describe('Postcard templates', () => {
+  afterEach(() => {
+    vi.mocked(authMiddleware).mockReset();
+  });
+
+  it('should ship valid template data files', () => {
+    const collections = loadTemplateCollections(POSTCARD_TEMPLATE_DATA);
+
+    expect(collections.map(entry => entry.id)).toEqual(['everyday', 'autumn', 'holidays']);
+    for (const template of collections.flatMap(entry => entry.templates)) {
+      expect(validatePostcardDocument(postcardDocumentFromTemplate(template)).isValid).toBe(true);
+    }
+    expect(collections.some(entry => entry.templates.some(template => template.premium))).toBe(true);
+  });
+
+  it('should reject malformed collections', () => {
+    expect(validateTemplateCollection(collection({ season: { start: '13-01', end: '01-06' } })).errors[0])
+      .toMatch(/MM-DD start and end/);
+    expect(validateTemplateCollection(collection({ templates: [] })).errors[0]).toMatch(/has no templates/);
+    expect(validateTemplateCollection(collection({ templates: [{ ...DEFAULT_POSTCARD_TEMPLATE, font: 'comic' }] })).errors[0])
+      .toMatch(/font must be/);
+    expect(validateTemplateCollection(collection({ templates: [{ ...DEFAULT_POSTCARD_TEMPLATE, palette: [] }] })).errors[0])
+      .toMatch(/needs a sticker palette/);
+    expect(validateTemplateCollection(collection({ templates: [DEFAULT_POSTCARD_TEMPLATE, DEFAULT_POSTCARD_TEMPLATE] })).errors[0])
+      .toMatch(/more than one template cozy/);
+    expect(() => loadTemplateCollections([collection(), collection()])).toThrow(/more than one collection test/);
+  });
+
+  it('should only offer seasonal collections inside their window', () => {
+    const autumn = { season: { start: '09-01', end: '11-30' } };
+    const holidays = { season: { start: '12-01', end: '01-06' } };
+
+    expect(isCollectionInSeason({}, new Date('2024-06-01T00:00:00Z'))).toBe(true);
+    expect(isCollectionInSeason(autumn, new Date('2024-09-01T00:00:00Z'))).toBe(true);
+    expect(isCollectionInSeason(autumn, new Date('2024-11-30T23:59:59Z'))).toBe(true);
+    expect(isCollectionInSeason(autumn, new Date('2024-12-01T00:00:00Z'))).toBe(false);
+    // Holiday windows wrap past the new year
+    expect(isCollectionInSeason(holidays, new Date('2024-12-25T00:00:00Z'))).toBe(true);
+    expect(isCollectionInSeason(holidays, new Date('2025-01-06T12:00:00Z'))).toBe(true);
+    expect(isCollectionInSeason(holidays, new Date('2025-01-07T00:00:00Z'))).toBe(false);
+
+    const user = { total_journey_points: 0 };
+    expect(onDate('2024-06-01T00:00:00Z').listAvailable(user).map(entry => entry.id)).toEqual(['everyday']);
+    expect(onDate('2024-10-15T00:00:00Z').listAvailable(user).map(entry => entry.id)).toEqual(['everyday', 'autumn']);
+    expect(onDate('2025-01-02T00:00:00Z').listAvailable(user).map(entry => entry.id)).toEqual(['everyday', 'holidays']);
+  });
+
+  it('should lock premium templates until the Elite Explorer rank', () => {
+    const service = onDate('2024-10-15T00:00:00Z');
+
+    const locked = service.listAvailable({ total_journey_points: 74999 }).flatMap(entry => entry.templates);
+    const spooky = locked.find(template => template.id === 'spooky')!;
+    expect(spooky).toMatchObject({ collection_id: 'autumn', locked: true, name: 'Spooky Season', suggested_text: '', palette: [], stickers: [] });
+    expect(locked.find(template => template.id === 'harvest')).toMatchObject({ locked: false });
+
+    const unlocked = service.listAvailable({ total_journey_points: 75000 }).flatMap(entry => entry.templates);
+    expect(unlocked.every(template => !template.locked)).toBe(true);
+    expect(unlocked.find(template => template.id === 'spooky')!.stickers).toHaveLength(3);
+  });
+
+  it('should list templates from the API', async () => {
+    vi.mocked(authMiddleware).mockResolvedValue({ success: false } as never);
+    const unauthorized = await GET(new NextRequest('http://localhost/api/templates'));
+    expect(unauthorized.status).toBe(401);
+
+    vi.mocked(authMiddleware).mockResolvedValue({
+      success: true,
+      user: { id: 'alice', username: 'alice', email: 'alice@example.com', total_journey_points: 150000 } as never
+    });
+    const response = await GET(new NextRequest('http://localhost/api/templates'));
+
+    expect(response.status).toBe(200);
+    const { collections } = await response.json();
+    expect(templateIds(collections)).toContain('everyday/cozy');
+    expect(collections.flatMap((entry: PostcardTemplateCollectionListing) => entry.templates)
+      .every((template: { locked: boolean }) => !template.locked)).toBe(true);
+  });
+
+  describe('fonts', () => {
+    let repository: SqliteHonkRepository;
+
+    beforeEach(async () => {
+      const db = dbManager.connect(':memory:');
+      new MigrationRunner(db).runMigrations();
+      repository = new SqliteHonkRepository();
+      setRepository(repository);
+      await repository.users.create({
+        id: 'alice',
+        username: 'alice',
+        email: 'alice@example.com',
+        password_hash: 'hash',
+        current_location: location
+      });
+    });
+
+    afterEach(() => {
+      setRepository(null);
+      dbManager.close();
+    });
+
+    it('should store the template font with the message and render with it', async () => {
+      const document = postcardDocumentFromTemplate(DEFAULT_POSTCARD_TEMPLATE);
+      expect(document).toMatchObject({ background: 'autumn', font: 'pixel', title: 'Cozy Postcard' });
+
+      await repository.messages.create({
+        id: 'card-1',
+        sender_id: 'alice',
+        recipient_id: null,
+        sender_location: location,
+        status: 'flying',
+        created_at: new Date('2024-06-01T00:00:00Z'),
+        message_type: 'postcard',
+        ...postcardMessageFields(document)
+      });
+      const stored = await repository.messages.findById('card-1');
+      expect(stored?.postcard_font).toBe('pixel');
+
+      const renderer = new PostcardRenderer();
+      expect(await renderer.buildSvg(document)).toContain(`font-family='"PixelFont", "Orbitron", monospace'`);
+      expect(await renderer.buildSvg({ ...document, font: undefined })).toContain(`font-family='"ChicagoFLF", "Chicago", monospace'`);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST as generateCode } from '../../app/api/auth/generate-code/route';
+import { POST as linkDevice } from '../../app/api/auth/link-device/route';
+import { POST as sendMessage } from '../../app/api/messages/send/route';
+import { dbManager } from '@/lib/database';
+import { MigrationRunner } from '@/lib/migrations';
+import { SqliteHonkRepository } from '@/lib/sqlite-repository';
+import { setRepository } from '@/lib/repository';
+import { ManualClock } from '@/lib/simulation-clock';
+import { AuthService } from '@/services/auth';
+import { MAX_LINK_CODE_MISSES, SeamlessAuthService } from '@/services/seamlessAuth';
+import { RATE_LIMIT_POLICIES, RateLimitService, rateLimitService, userSubject } from '@/services/rateLimit';
+
+const DEVICE_INFO = {
+  userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+  screenResolution: '390x844',
+  timezone: 'America/New_York',
+  language: 'en-US',
+  platform: 'iPhone'
+};
+
+function post(url: string, body: unknown, headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+}
+
+describe('Rate limiting', () => {
+  let repository: SqliteHonkRepository;
+
+  beforeEach(() => {
+    const db = dbManager.connect(':memory:');
+    new MigrationRunner(db).runMigrations();
+    repository = new SqliteHonkRepository();
+    setRepository(repository);
+  });
+
+  afterEach(() => {
+    setRepository(null);
+    dbManager.close();
+  });
+
+  it('should allow requests up to the limit within a sliding window', async () => {
+    const clock = new ManualClock(new Date('2024-06-01T00:00:00Z'));
+    const limiter = new RateLimitService({
+      policies: { ...RATE_LIMIT_POLICIES, 'auth.generate_code': { limit: 3, windowMs: 60 * 1000 } }
+    }, { clock });
+
+    expect(await limiter.consume('auth.generate_code', 'user:alice')).toEqual({
+      allowed: true, limit: 3, remaining: 2, retryAfterSeconds: 0
+    });
+    await clock.advance(20 * 1000);
+    await limiter.consume('auth.generate_code', 'user:alice');
+    await limiter.consume('auth.generate_code', 'user:alice');
+
+    expect(await limiter.consume('auth.generate_code', 'user:alice')).toEqual({
+      allowed: false, limit: 3, remaining: 0, retryAfterSeconds: 40
+    });
+    // Other subjects and actions have their own windows
+    expect((await limiter.consume('auth.generate_code', 'user:bob')).allowed).toBe(true);
+    expect((await limiter.consume('message.send', 'user:alice')).allowed).toBe(true);
+
+    // The first request ages out of the window, freeing one slot
+    await clock.advance(40 * 1000);
+    expect(await limiter.consume('auth.generate_code', 'user:alice')).toMatchObject({ allowed: true, remaining: 0 });
+    expect((await limiter.consume('auth.generate_code', 'user:alice')).allowed).toBe(false);
+  });
+
+  it('should prune events that left the window', async () => {
+    const clock = new ManualClock(new Date('2024-06-01T00:00:00Z'));
+    const limiter = new RateLimitService({}, { clock });
+
+    await limiter.consume('message.send', 'user:alice');
+    await clock.advance(2 * 60 * 60 * 1000);
+    await limiter.consume('message.send', 'user:alice');
+
+    const rows = dbManager.getDatabase().prepare('SELECT occurred_at FROM rate_limit_events').all();
+    expect(rows).toEqual([{ occurred_at: '2024-06-01T02:00:00.000Z' }]);
+  });
+
+  it('should not let concurrent requests overrun the limit', async () => {
+    const limiter = new RateLimitService({
+      policies: { ...RATE_LIMIT_POLICIES, 'auth.link_device': { limit: 3, windowMs: 60 * 1000 } }
+    });
+
+    const results = await Promise.all(
+      Array.from({ length: 8 }, () => limiter.consume('auth.link_device', 'ip:203.0.113.7'))
+    );
+
+    expect(results.filter(result => result.allowed)).toHaveLength(3);
+    expect(dbManager.getDatabase().prepare('SELECT COUNT(*) AS count FROM rate_limit_events').get()).toEqual({ count: 3 });
+  });
+
+  it('should throttle link code guesses by the address the proxy saw', async () => {
+    const { limit } = RATE_LIMIT_POLICIES['auth.link_device'];
+    // The client controls everything left of the proxy's own entry
+    const guess = (address: string, spoofed: string) => linkDevice(post(
+      'http://localhost/api/auth/link-device',
+      { code: '000000', ...DEVICE_INFO },
+      { 'X-Forwarded-For': `${spoofed}, ${address}` }
+    ));
+
+    for (let attempt = 0; attempt < limit; attempt++) {
+      expect((await guess('203.0.113.7', `10.0.0.${attempt}`)).status).toBe(400);
+    }
+
+    const throttled = await guess('203.0.113.7', '10.0.0.99');
+    expect(throttled.status).toBe(429);
+    expect(Number(throttled.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect(await throttled.json()).toMatchObject({ success: false, message: expect.stringMatching(/Too many attempts/) });
+
+    expect((await guess('198.51.100.2', '10.0.0.1')).status).toBe(400);
+  });
+
+  it('should not put callers without a trusted address in one shared bucket', async () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '0');
+    try {
+      for (let attempt = 0; attempt <= RATE_LIMIT_POLICIES['auth.link_device'].limit; attempt++) {
+        const response = await linkDevice(post(
+          'http://localhost/api/auth/link-device',
+          { code: '000000', ...DEVICE_INFO },
+          { 'X-Forwarded-For': '203.0.113.7' }
+        ));
+        expect(response.status).toBe(400);
+      }
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it('should use up link codes after too many wrong guesses', async () => {
+    const { user } = await new AuthService().register({
+      email: 'alice@example.com',
+      username: 'alice',
+      password: 'TestPassword123'
+    });
+    const code = await new SeamlessAuthService().createDeviceLinkCode(user!.id);
+    const wrongCode = code === '000000' ? '000001' : '000000';
+    const guess = (guessed: string, address: string) => linkDevice(post(
+      'http://localhost/api/auth/link-device',
+      { code: guessed, ...DEVICE_INFO },
+      { 'X-Forwarded-For': address }
+    ));
+
+    // Spread across addresses, so only the per-code cap applies
+    for (let miss = 0; miss < MAX_LINK_CODE_MISSES; miss++) {
+      expect((await guess(wrongCode, `203.0.113.${miss}`)).status).toBe(400);
+    }
+
+    expect((await guess(code, '198.51.100.2')).status).toBe(400);
+  });
+
+  it('should throttle link code generation and sending per user', async () => {
+    const { user, token } = await new AuthService().register({
+      email: 'alice@example.com',
+      username: 'alice',
+      password: 'TestPassword123'
+    });
+    const authorization = { Authorization: `Bearer ${token}` };
+
+    for (let request = 0; request < RATE_LIMIT_POLICIES['auth.generate_code'].limit; request++) {
+      expect((await generateCode(post('http://localhost/api/auth/generate-code', {}, authorization))).status).toBe(200);
+    }
+    const tooManyCodes = await generateCode(post('http://localhost/api/auth/generate-code', {}, authorization));
+    expect(tooManyCodes.status).toBe(429);
+    expect(tooManyCodes.headers.get('Retry-After')).not.toBeNull();
+
+    const { user: bob } = await new AuthService().register({
+      email: 'bob@example.com',
+      username: 'bob',
+      password: 'TestPassword123'
+    });
+    await repository.users.update(bob!.id, {
+      current_location: { latitude: 51.5074, longitude: -0.1278, country: 'United Kingdom', is_anonymous: false }
+    });
+    const honk = { title: 'Hi', content: 'Hello', locationSharing: 'state', recipient_id: bob!.id };
+
+    // Rejected honks don't use up the allowance
+    for (let attempt = 0; attempt <= RATE_LIMIT_POLICIES['message.send'].limit; attempt++) {
+      const invalid = await sendMessage(post('http://localhost/api/messages/send', { ...honk, title: ' ' }, authorization));
+      expect(invalid.status).toBe(400);
+    }
+
+    // Use up the sending allowance directly, then the route refuses
+    for (let sent = 0; sent < RATE_LIMIT_POLICIES['message.send'].limit; sent++) {
+      await rateLimitService.consume('message.send', userSubject(user!.id));
+    }
+    const tooManyHonks = await sendMessage(post('http://localhost/api/messages/send', honk, authorization));
+    expect(tooManyHonks.status).toBe(429);
+    expect(tooManyHonks.headers.get('X-RateLimit-Remaining')).toBe('0');
+    expect((await tooManyHonks.json()).error).toMatch(/Too many honks/);
+  });
+});
@@ -0,0 +1,147 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'crypto';
+import { NextRequest } from 'next/server';
+import { POST as deviceAuth } from '../../app/api/auth/device/route';
+import { POST as recover } from '../../app/api/auth/recover/route';
+import { GET as countCodes, POST as regenerateCodes } from '../../app/api/auth/recovery-codes/route';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { dbManager } from '@/lib/database';
+import { MigrationRunner } from '@/lib/migrations';
+import { SqliteHonkRepository } from '@/lib/sqlite-repository';
+import { setRepository } from '@/lib/repository';
+import { deviceService } from '@/services/devices';
+import { RATE_LIMIT_POLICIES } from '@/services/rateLimit';
+import { normalizeRecoveryCode } from '@/services/recovery';
+
+const DEVICE_INFO = {
+  userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  screenResolution: '1440x900',
+  timezone: 'America/New_York',
+  language: 'en-US',
+  platform: 'MacIntel'
+};
+
+const SECRET = 'a'.repeat(64);
+
+function post(url: string, body: unknown, token?: string, headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}), ...headers },
+    body: JSON.stringify(body)
+  });
+}
+
+const signIn = async (body: Record<string, unknown>) =>
+  (await deviceAuth(post('http://localhost/api/auth/device', { ...DEVICE_INFO, ...body }))).json();
+
+describe('Device secrets and recovery codes', () => {
+  let repository: SqliteHonkRepository;
+
+  beforeEach(() => {
+    const db = dbManager.connect(':memory:');
+    new MigrationRunner(db).runMigrations();
+    repository = new SqliteHonkRepository();
+    setRepository(repository);
+  });
+
+  afterEach(() => {
+    setRepository(null);
+    dbManager.close();
+  });
+
+  it('should find the same account again from the device secret', async () => {
+    const first = await signIn({});
+    expect(first.isNew).toBe(true);
+
+    const again = await signIn({ deviceSecret: first.deviceSecret });
+    expect(again).toMatchObject({ isNew: false, user: { id: first.user.id }, deviceSecret: first.deviceSecret });
+    expect(again.recoveryCodes).toBeUndefined();
+    expect(await repository.devices.listByUser(first.user.id)).toHaveLength(1);
+
+    // The secret is only kept as a hash
+    const [device] = await repository.devices.listByUser(first.user.id);
+    expect(device.fingerprint).not.toContain(first.deviceSecret);
+
+    // A removed device is told so instead of being given a new account
+    await deviceService.revoke(device.id, first.user.id);
+    const revoked = await deviceAuth(post('http://localhost/api/auth/device', { ...DEVICE_INFO, deviceSecret: first.deviceSecret }));
+    expect(revoked.status).toBe(401);
+    expect(await revoked.json()).toMatchObject({ success: false, message: expect.stringMatching(/no longer signed in/) });
+  });
+
+  it('should issue a secret to browsers without one and reject malformed ones', async () => {
+    const first = await signIn({});
+    expect(first.deviceSecret).toMatch(/^[A-Za-z0-9_-]{32,}$/);
+    expect((await signIn({ deviceSecret: first.deviceSecret })).user.id).toBe(first.user.id);
+
+    // Unknown secrets are refused, never adopted or swapped for a new account
+    const chosen = await deviceAuth(post('http://localhost/api/auth/device', { ...DEVICE_INFO, deviceSecret: SECRET }));
+    expect(chosen.status).toBe(401);
+    expect(await repository.devices.findByFingerprint(createHash('sha256').update(SECRET).digest('hex'))).toBeNull();
+
+    const malformed = await deviceAuth(post('http://localhost/api/auth/device', { ...DEVICE_INFO, deviceSecret: 'short' }));
+    expect(malformed.status).toBe(400);
+  });
+
+  it('should recover an account with a one-time code', async () => {
+    const created = await signIn({});
+    expect(created.recoveryCodes).toHaveLength(10);
+    expect(new Set(created.recoveryCodes).size).toBe(10);
+    const [code] = created.recoveryCodes as string[];
+
+    // A new browser after the cookies were cleared
+    const typed = ` ${code.toLowerCase().replace('-', ' ')} `;
+    const response = await recover(post('http://localhost/api/auth/recover', { code: typed }));
+    const body = await response.json();
+    expect(body).toMatchObject({ success: true, user: { id: created.user.id }, remainingCodes: 9 });
+    expect((await authMiddleware(post('http://localhost', {}, body.token))).user?.id).toBe(created.user.id);
+
+    // The new browser is now recognized on its own
+    expect(body.deviceSecret).not.toBe(created.deviceSecret);
+    expect((await signIn({ deviceSecret: body.deviceSecret })).user.id).toBe(created.user.id);
+
+    const reused = await recover(post('http://localhost/api/auth/recover', { code }));
+    expect(reused.status).toBe(401);
+    expect((await recover(post('http://localhost/api/auth/recover', { code: 'AAAAA-AAAAA' }))).status).toBe(401);
+    expect((await recover(post('http://localhost/api/auth/recover', {}))).status).toBe(400);
+  });
+
+  it('should throttle recovery attempts by the address the proxy saw', async () => {
+    const { limit } = RATE_LIMIT_POLICIES['auth.recover'];
+    const attempt = (spoofed: string) => recover(post(
+      'http://localhost/api/auth/recover',
+      { code: 'AAAAA-AAAAA' },
+      undefined,
+      { 'X-Forwarded-For': `${spoofed}, 203.0.113.7` }
+    ));
+
+    for (let guess = 0; guess < limit; guess++) {
+      expect((await attempt(`10.0.0.${guess}`)).status).toBe(401);
+    }
+    const throttled = await attempt('10.0.0.99');
+    expect(throttled.status).toBe(429);
+    expect(throttled.headers.get('Retry-After')).not.toBeNull();
+  });
+
+  it('should replace the codes when new ones are generated', async () => {
+    const created = await signIn({});
+
+    const regenerated = await (await regenerateCodes(post('http://localhost/api/auth/recovery-codes', {}, created.token))).json();
+    expect(regenerated.recoveryCodes).toHaveLength(10);
+
+    expect((await recover(post('http://localhost/api/auth/recover', { code: created.recoveryCodes[0] }))).status).toBe(401);
+    expect((await recover(post('http://localhost/api/auth/recover', { code: regenerated.recoveryCodes[0] }))).status).toBe(200);
+
+    const count = await countCodes(new NextRequest('http://localhost/api/auth/recovery-codes', {
+      headers: { Authorization: `Bearer ${created.token}` }
+    }));
+    expect(await count.json()).toMatchObject({ success: true, remaining: 9 });
+    expect((await regenerateCodes(post('http://localhost/api/auth/recovery-codes', {}))).status).toBe(401);
+  });
+
+  it('should ignore case, spaces and dashes in typed codes', () => {
+    expect(normalizeRecoveryCode(' abcde-fghjk ')).toBe('ABCDEFGHJK');
+    expect(normalizeRecoveryCode('ABCDE FGHJK')).toBe('ABCDEFGHJK');
+  });
+});
@@ -0,0 +1,254 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { dbManager } from '@/lib/database';
+import { MigrationRunner } from '@/lib/migrations';
+import { SqliteHonkRepository } from '@/lib/sqlite-repository';
+import { resolveStorageDriver, NewUser } from '@/lib/repository';
+import { HonkMessage } from '@/types';
+
+const location = {
+  latitude: 40.7128,
+  longitude: -74.006,
+  state: 'New York',
+  country: 'United States',
+  is_anonymous: false
+};
+
+function newUser(id: string, username: string): NewUser {
+  return {
+    id,
+    username,
+    email: `${username}@example.com`,
+    password_hash: 'hash',
+    current_location: location
+  };
+}
+
+function newMessage(id: string, overrides: Partial<HonkMessage> = {}): HonkMessage {
+  return {
+    id,
+    sender_id: 'user-1',
+    recipient_id: 'user-2',
+    title: `Message ${id}`,
+    content: 'Hello from the sky',
+    sender_location: location,
+    status: 'flying',
+    created_at: new Date('2024-01-01T00:00:00Z'),
+    message_type: 'regular',
+    sticker_data: [],
+    ...overrides
+  };
+}
+
+describe('SqliteHonkRepository', () => {
+  let repository: SqliteHonkRepository;
+
+  beforeEach(async () => {
+    const db = dbManager.connect(':memory:');
+    new MigrationRunner(db).runMigrations();
+
+    repository = new SqliteHonkRepository();
+    await repository.users.create(newUser('user-1', 'alice'));
+    await repository.users.create(newUser('user-2', 'bob'));
+  });
+
+  afterEach(() => {
+    dbManager.close();
+  });
+
+  describe('users', () => {
+    it('should create and find users by id, email and username', async () => {
+      const byId = await repository.users.findById('user-1');
+      const byEmail = await repository.users.findByEmail('bob@example.com');
+      const byUsername = await repository.users.findByUsername('alice');
+
+      expect(byId?.username).toBe('alice');
+      expect(byId?.current_location).toEqual(location);
+      expect(byEmail?.id).toBe('user-2');
+      expect(byUsername?.id).toBe('user-1');
+      expect(await repository.users.findById('missing')).toBeNull();
+    });
+
+    it('should apply partial updates and report missing users', async () => {
+      const updated = await repository.users.update('user-1', {
+        opt_out_random: true,
+        countries_visited: ['United States']
+      });
+
+      const user = await repository.users.findById('user-1');
+      expect(updated).toBe(true);
+      expect(user?.opt_out_random).toBe(true);
+      expect(user?.countries_visited).toEqual(['United States']);
+      expect(await repository.users.update('missing', { opt_out_random: true })).toBe(false);
+    });
+
+    it('should increment stats atomically', async () => {
+      await repository.users.incrementStats('user-2', { total_flights_received: 1, total_journey_points: 500 });
+      await repository.users.incrementStats('user-2', { total_flights_received: 1 });
+
+      const user = await repository.users.findById('user-2');
+      expect(user?.total_flights_received).toBe(2);
+      expect(user?.total_journey_points).toBe(500);
+    });
+  });
+
+  describe('messages', () => {
+    it('should only mark flying messages as delivered', async () => {
+      await repository.messages.create(newMessage('message-1'));
+
+      expect(await repository.messages.markDelivered('message-1', new Date())).toBe(true);
+      expect(await repository.messages.markDelivered('message-1', new Date())).toBe(false);
+
+      const message = await repository.messages.findById('message-1');
+      expect(message?.status).toBe('delivered');
+      expect(message?.delivered_at).toBeInstanceOf(Date);
+    });
+
+    it('should only return flying messages to their sender', async () => {
+      await repository.messages.create(newMessage('message-1'));
+      await repository.messages.create(newMessage('message-2'));
+      await repository.messages.markDelivered('message-2', new Date());
+
+      expect(await repository.messages.markReturned('message-1')).toBe(true);
+      expect(await repository.messages.markReturned('message-2')).toBe(false);
+
+      expect((await repository.messages.findById('message-1'))?.status).toBe('returned');
+      expect((await repository.messages.findById('message-2'))?.status).toBe('delivered');
+      expect(await repository.messages.markDelivered('message-1', new Date())).toBe(false);
+    });
+
+    it('should restrict message access to participants', async () => {
+      await repository.messages.create(newMessage('message-1'));
+
+      const forRecipient = await repository.messages.findForParticipant('message-1', 'user-2');
+      const forStranger = await repository.messages.findForParticipant('message-1', 'user-3');
+
+      expect(forRecipient?.sender_username).toBe('alice');
+      expect(forStranger).toBeNull();
+    });
+
+    it('should page, filter and sort the inbox', async () => {
+      await repository.messages.create(newMessage('message-1', { title: 'Bravo' }));
+      await repository.messages.create(newMessage('message-2', { title: 'Alpha', status: 'delivered' }));
+      await repository.messages.create(newMessage('message-3', { title: 'Charlie', recipient_id: 'user-1' }));
+
+      const page = await repository.messages.listInbox('user-2', {
+        sortBy: 'title',
+        sortOrder: 'asc',
+        limit: 1,
+        offset: 0
+      });
+      const flying = await repository.messages.listInbox('user-2', {
+        status: 'flying',
+        sortBy: 'created_at',
+        sortOrder: 'desc',
+        limit: 20,
+        offset: 0
+      });
+
+      expect(page.total).toBe(2);
+      expect(page.items.map(message => message.title)).toEqual(['Alpha']);
+      expect(flying.items.map(message => message.id)).toEqual(['message-1']);
+    });
+
+    it('should store the delivery tier, defaulting to standard', async () => {
+      await repository.messages.create(newMessage('message-1', { delivery_tier: 'express' }));
+      await repository.messages.create(newMessage('message-2'));
+
+      expect((await repository.messages.findById('message-1'))?.delivery_tier).toBe('express');
+      expect((await repository.messages.findById('message-2'))?.delivery_tier).toBe('standard');
+    });
+
+    it('should hide scheduled messages from the recipient until launch', async () => {
+      const scheduledFor = new Date('2024-06-02T12:00:00Z');
+      await repository.messages.create(newMessage('message-1', {
+        status: 'scheduled',
+        scheduled_for: scheduledFor,
+        scheduled_timezone: 'America/New_York'
+      }));
+
+      const inbox = await repository.messages.listInbox('user-2', {
+        sortBy: 'created_at',
+        sortOrder: 'desc',
+        limit: 20,
+        offset: 0
+      });
+      const scheduled = await repository.messages.listScheduled('user-1');
+
+      expect(inbox.total).toBe(0);
+      expect(await repository.messages.findForParticipant('message-1', 'user-2')).toBeNull();
+      expect(await repository.messages.findForParticipant('message-1', 'user-1')).not.toBeNull();
+      expect(scheduled).toHaveLength(1);
+      expect(scheduled[0].scheduled_for).toEqual(scheduledFor);
+      expect(scheduled[0].scheduled_timezone).toBe('America/New_York');
+
+      expect(await repository.messages.markLaunched('message-1')).toBe(true);
+      expect(await repository.messages.markLaunched('message-1')).toBe(false);
+      expect(await repository.messages.findForParticipant('message-1', 'user-2')).not.toBeNull();
+      expect(await repository.messages.listScheduled()).toHaveLength(0);
+    });
+
+    it('should only edit or cancel messages that have not launched', async () => {
+      await repository.messages.create(newMessage('message-1', {
+        status: 'scheduled',
+        scheduled_for: new Date('2024-06-02T12:00:00Z')
+      }));
+      await repository.messages.create(newMessage('message-2'));
+
+      expect(await repository.messages.updateScheduled('message-1', { title: 'Edited' })).toBe(true);
+      expect(await repository.messages.updateScheduled('message-2', { title: 'Edited' })).toBe(false);
+      expect((await repository.messages.findById('message-1'))?.title).toBe('Edited');
+
+      expect(await repository.messages.deleteScheduled('message-2')).toBe(false);
+      expect(await repository.messages.deleteScheduled('message-1')).toBe(true);
+      expect(await repository.messages.findById('message-1')).toBeNull();
+    });
+  });
+
+  describe('conversations', () => {
+    it('should find conversations in either direction and append messages', async () => {
+      await repository.messages.create(newMessage('message-1'));
+      await repository.messages.create(newMessage('message-2', { sender_id: 'user-2', recipient_id: 'user-1' }));
+
+      const now = new Date();
+      await repository.conversations.create({
+        id: 'conversation-1',
+        user1_id: 'user-1',
+        user2_id: 'user-2',
+        message_ids: ['message-1'],
+        created_at: now,
+        last_message_at: now
+      });
+      await repository.conversations.appendMessage('conversation-1', 'message-2', new Date());
+
+      const conversation = await repository.conversations.findBetween('user-2', 'user-1');
+      const page = await repository.conversations.listForUser('user-2', 20, 0);
+
+      expect(conversation?.message_ids).toEqual(['message-1', 'message-2']);
+      expect(page.total).toBe(1);
+      expect(page.items[0].user1_username).toBe('alice');
+    });
+  });
+
+  describe('rewards', () => {
+    it('should unlock each reward only once', async () => {
+      expect(await repository.rewards.unlock('user-1', 'rank_badge', 'sky_navigator')).toBe(true);
+      expect(await repository.rewards.unlock('user-1', 'rank_badge', 'sky_navigator')).toBe(false);
+
+      expect(await repository.rewards.has('user-1', 'rank_badge', 'sky_navigator')).toBe(true);
+      expect(await repository.rewards.listForUser('user-1')).toHaveLength(1);
+    });
+  });
+});
+
+describe('resolveStorageDriver', () => {
+  const env = (vars: Record<string, string>) => ({ NODE_ENV: 'test', ...vars }) as NodeJS.ProcessEnv;
+
+  it('should honour an explicit driver', () => {
+    expect(resolveStorageDriver(env({ HONK_STORAGE_DRIVER: 'sqlite', SUPABASE_SERVICE_ROLE_KEY: 'key' }))).toBe('sqlite');
+  });
+
+  it('should fall back to Supabase when a service role key is configured', () => {
+    expect(resolveStorageDriver(env({ SUPABASE_SERVICE_ROLE_KEY: 'key' }))).toBe('supabase');
+    expect(resolveStorageDriver(env({}))).toBe('sqlite');
+  });
+});
@@ -4,9 +4,12 @@ import {
     TerrainType,
     TERRAIN_MODIFIERS,
     GraphNode,
-    PathResult
+    PathResult,
+    WeatherCell,
+    weatherCellsFromEvents
 } from '@/services/routing';
-import { LocationData } from '@/types';
+import { LocationData, WeatherEvent } from '@/types';
+import { calculateDistance, calculateMidpoint } from '@/utils/distance';
 
 describe('FlightRoutingService', () => {
     let routingService: FlightRoutingService;
@@ -119,7 +122,7 @@ describe('FlightRoutingService', () => {
         });
     });
 
-    describe('findOptimalPath (Dijkstra\'s algorithm)', () => {
+    describe('findOptimalPath (A*)', () => {
         it('should find a path between two points', () => {
             const start: LocationData = { latitude: 40.7128, longitude: -74.0060, is_anonymous: false }; // New York
             const end: LocationData = { latitude: 34.0522, longitude: -118.2437, is_anonymous: false }; // Los Angeles
@@ -150,6 +153,30 @@ describe('FlightRoutingService', () => {
 
             expect(waypoints.length).toBe(2); // Start and end are the same, but we still get 2 waypoints
         });
+
+        it('should trade easy terrain for distance as the cost weight drops', () => {
+            // A climb straight over the mountains, or a longer loop out over the ocean
+            const node = (id: string, latitude: number, longitude: number, terrain: TerrainType, altitude: number): GraphNode => ({
+                id,
+                location: { latitude, longitude, is_anonymous: false },
+                terrain,
+                altitude
+            });
+            routingService.buildGraph([
+                node('w0', 0, 0, TerrainType.MOUNTAIN, 100),
+                node('w1', 0.5, 0.59, TerrainType.OCEAN, 1100),
+                node('w2', 1, 0, TerrainType.MOUNTAIN, 2150),
+                node('w3', 1.5, 0, TerrainType.MOUNTAIN, 2150),
+                node('w4', 2, 0, TerrainType.MOUNTAIN, 2150)
+            ]);
+
+            const easiest = routingService.findOptimalPath('w0', 'w4', 1);
+            const shortest = routingService.findOptimalPath('w0', 'w4', 0);
+
+            expect(easiest!.path.map(waypoint => waypoint.id)).toContain('w1');
+            expect(shortest!.path.map(waypoint => waypoint.id)).not.toContain('w1');
+            expect(shortest!.totalDistance).toBeLessThan(easiest!.totalDistance);
+        });
     });
 
     describe('calculateRoute', () => {
@@ -343,5 +370,82 @@ describe('FlightRoutingService', () => {
             const endTime = Date.now();
             expect(endTime - startTime).toBeLessThan(2000); // Should complete all routes within 2 seconds
         });
+
+        it('should recalculate long intercontinental routes around storms quickly', () => {
+            // recalculateRoute runs inside live flights' weather checks
+            const routes: Array<[LocationData, LocationData]> = [
+                [{ latitude: 40.7128, longitude: -74.0060, is_anonymous: false }, { latitude: 35.6762, longitude: 139.6503, is_anonymous: false }], // New York - Tokyo
+                [{ latitude: 51.5074, longitude: -0.1278, is_anonymous: false }, { latitude: -33.8688, longitude: 151.2093, is_anonymous: false }], // London - Sydney
+                [{ latitude: -23.5505, longitude: -46.6333, is_anonymous: false }, { latitude: 55.7558, longitude: 37.6176, is_anonymous: false }], // São Paulo - Moscow
+                [{ latitude: 40.7128, longitude: -74.0060, is_anonymous: false }, { latitude: -40.7128, longitude: 105.9940, is_anonymous: false }] // Antipodal
+            ];
+
+            routes.forEach(([start, end]) => {
+                const storm: WeatherCell = { location: calculateMidpoint(start, end), radiusKm: 300, speed_modifier: 0.5 };
+
+                const startTime = performance.now();
+                const result = routingService.recalculateRoute(start, end, undefined, 1, [storm]);
+                const elapsed = performance.now() - startTime;
+
+                expect(result).not.toBeNull();
+                expect(elapsed).toBeLessThan(250);
+            });
+        });
+    });
+
+    describe('corridor search', () => {
+        const newYork: LocationData = { latitude: 40.7128, longitude: -74.0060, is_anonymous: false };
+        const london: LocationData = { latitude: 51.5074, longitude: -0.1278, is_anonymous: false };
+
+        const closestApproach = (route: PathResult, location: LocationData) =>
+            Math.min(...route.path.map(node => calculateDistance(node.location, location)));
+
+        it('should stay close to the great circle when nothing is in the way', () => {
+            const result = routingService.calculateRoute(newYork, london);
+
+            expect(result!.totalDistance).toBeLessThan(calculateDistance(newYork, london) * 1.05);
+        });
+
+        it('should detour around a storm cell on the great circle', () => {
+            const storm: WeatherCell = { location: calculateMidpoint(newYork, london), radiusKm: 300, speed_modifier: 0.5 };
+
+            const direct = routingService.calculateRoute(newYork, london);
+            const detour = routingService.calculateRoute(newYork, london, 1, [storm]);
+
+            expect(closestApproach(direct!, storm.location)).toBeLessThan(storm.radiusKm);
+            expect(closestApproach(detour!, storm.location)).toBeGreaterThan(storm.radiusKm);
+            expect(detour!.totalDistance).toBeGreaterThan(direct!.totalDistance);
+        });
+
+        it('should still steer around storms when ignoring terrain', () => {
+            const storm: WeatherCell = { location: calculateMidpoint(newYork, london), radiusKm: 300, speed_modifier: 0.5 };
+
+            const detour = routingService.calculateRoute(newYork, london, 0, [storm]);
+
+            expect(closestApproach(detour!, storm.location)).toBeGreaterThan(storm.radiusKm);
+        });
+
+        it('should keep every waypoint out of avoid areas', () => {
+            const avoidArea = calculateMidpoint(newYork, london);
+
+            const result = routingService.recalculateRoute(newYork, london, [avoidArea]);
+
+            expect(closestApproach(result!, avoidArea)).toBeGreaterThanOrEqual(100);
+        });
+
+        it('should only turn slowing weather into cells', () => {
+            const report = (speed_modifier: number): WeatherEvent => ({
+                type: 'storm',
+                intensity: 0.9,
+                speed_modifier,
+                location: london,
+                timestamp: new Date(),
+                details: { temperature: 50, windSpeed: 40, windDirection: 90, weatherCode: 95 }
+            });
+
+            const cells = weatherCellsFromEvents([report(0.5), report(1.0), null]);
+
+            expect(cells).toEqual([{ location: london, radiusKm: 150, speed_modifier: 0.5 }]);
+        });
     });
-});
\ No newline at end of file
+});
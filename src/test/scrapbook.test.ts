@@ -0,0 +1,150 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET as listScrapbook, POST as saveToScrapbook } from '../../app/api/scrapbook/route';
+import { PATCH as updateEntry, DELETE as removeEntry } from '../../app/api/scrapbook/[id]/route';
+import { GET as exportScrapbook } from '../../app/api/scrapbook/export/route';
+import { dbManager } from '@/lib/database';
+import { MigrationRunner } from '@/lib/migrations';
+import { SqliteHonkRepository } from '@/lib/sqlite-repository';
+import { setRepository } from '@/lib/repository';
+import { AuthService } from '@/services/auth';
+import { normalizeTag } from '@/services/scrapbook';
+import { HonkMessage, LocationData, ScrapbookCard } from '@/types';
+
+const PARIS: LocationData = { latitude: 48.8566, longitude: 2.3522, state: 'Île-de-France', country: 'France', is_anonymous: false };
+const TOKYO: LocationData = { latitude: 35.6762, longitude: 139.6503, state: 'Tokyo', country: 'Japan', is_anonymous: false };
+
+function request(url: string, token?: string, init: { method?: string; body?: unknown } = {}): NextRequest {
+  return new NextRequest(url, {
+    method: init.method ?? 'GET',
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    ...(init.body !== undefined ? { body: JSON.stringify(init.body) } : {})
+  });
+}
+
+describe('Scrapbook', () => {
+  let repository: SqliteHonkRepository;
+  let aliceToken: string;
+  let bobToken: string;
+
+  const honk = (id: string, overrides: Partial<HonkMessage> = {}): HonkMessage => ({
+    id,
+    sender_id: 'sender',
+    recipient_id: 'alice',
+    title: `Honk ${id}`,
+    content: 'Wish you were here',
+    sender_location: PARIS,
+    status: 'delivered',
+    created_at: new Date('2024-05-01T00:00:00Z'),
+    delivered_at: new Date('2024-05-02T00:00:00Z'),
+    message_type: 'postcard',
+    sticker_data: [],
+    ...overrides
+  });
+
+  const save = async (messageId: string, token = aliceToken) =>
+    saveToScrapbook(request('http://localhost/api/scrapbook', token, { method: 'POST', body: { messageId } }));
+
+  const update = async (id: string, body: unknown, token = aliceToken) =>
+    updateEntry(request(`http://localhost/api/scrapbook/${id}`, token, { method: 'PATCH', body }), { params: { id } });
+
+  const list = async (query = '') =>
+    (await (await listScrapbook(request(`http://localhost/api/scrapbook${query}`, aliceToken))).json()).entries as ScrapbookCard[];
+
+  beforeEach(async () => {
+    const db = dbManager.connect(':memory:');
+    new MigrationRunner(db).runMigrations();
+    repository = new SqliteHonkRepository();
+    setRepository(repository);
+
+    const authService = new AuthService();
+    const alice = await authService.register({ email: 'alice@example.com', username: 'alice', password: 'TestPassword123' });
+    const bob = await authService.register({ email: 'bob@example.com', username: 'bob', password: 'TestPassword123' });
+    const sender = await authService.register({ email: 'sender@example.com', username: 'sender', password: 'TestPassword123' });
+    aliceToken = alice.token!;
+    bobToken = bob.token!;
+
+    await repository.messages.create(honk('paris', { sender_id: sender.user!.id, recipient_id: alice.user!.id }));
+    await repository.messages.create(honk('tokyo', {
+      sender_id: sender.user!.id,
+      recipient_id: alice.user!.id,
+      sender_location: TOKYO,
+      created_at: new Date('2024-05-03T00:00:00Z')
+    }));
+    await repository.messages.create(honk('flying', { sender_id: sender.user!.id, recipient_id: alice.user!.id, status: 'flying' }));
+  });
+
+  afterEach(() => {
+    setRepository(null);
+    dbManager.close();
+  });
+
+  it('should save delivered honks once, only for their recipient', async () => {
+    const created = await save('paris');
+    expect(created.status).toBe(201);
+    const { entry } = await created.json();
+    expect(entry).toMatchObject({
+      message_id: 'paris',
+      tags: [],
+      pinned: false,
+      message: { title: 'Honk paris', sender_username: 'sender', sender_location: { country: 'France' } }
+    });
+
+    const again = await save('paris');
+    expect(again.status).toBe(200);
+    expect((await again.json()).entry.id).toBe(entry.id);
+
+    expect((await save('flying')).status).toBe(400);
+    expect((await save('paris', bobToken)).status).toBe(404);
+    expect((await save('missing')).status).toBe(404);
+    expect((await save('paris', '')).status).toBe(401);
+  });
+
+  it('should tag and pin entries, and search by tag', async () => {
+    const paris = (await (await save('paris')).json()).entry as ScrapbookCard;
+    const tokyo = (await (await save('tokyo')).json()).entry as ScrapbookCard;
+
+    const tagged = await update(paris.id, { tags: ['#Beach Days', 'beach-days', 'Favorites'] });
+    expect((await tagged.json()).entry.tags).toEqual(['beach-days', 'favorites']);
+    await update(tokyo.id, { tags: ['favorites'] });
+
+    // Pinned entries come first whenever they were saved
+    expect((await (await update(paris.id, { pinned: true })).json()).entry.pinned).toBe(true);
+    expect((await list()).map(entry => entry.message_id)).toEqual(['paris', 'tokyo']);
+
+    expect((await list('?tag=%23Beach%20Days')).map(entry => entry.message_id)).toEqual(['paris']);
+    expect((await list('?tag=favorites'))).toHaveLength(2);
+    expect((await list('?tag=beach'))).toEqual([]);
+
+    expect((await update(paris.id, { tags: 'beach' })).status).toBe(400);
+    expect((await update(paris.id, { pinned: 'yes' })).status).toBe(400);
+    expect((await update(paris.id, {})).status).toBe(400);
+    expect((await update(paris.id, { pinned: false }, bobToken)).status).toBe(404);
+  });
+
+  it('should export and remove entries', async () => {
+    const paris = (await (await save('paris')).json()).entry as ScrapbookCard;
+    await update(paris.id, { tags: ['france'] });
+
+    const exported = await exportScrapbook(request('http://localhost/api/scrapbook/export', aliceToken));
+    expect(exported.headers.get('Content-Disposition')).toMatch(/attachment; filename="honk-scrapbook-\d{4}-\d{2}-\d{2}\.json"/);
+    expect(await exported.json()).toMatchObject({
+      exported_at: expect.any(String),
+      entries: [{ message_id: 'paris', tags: ['france'], message: { content: 'Wish you were here' } }]
+    });
+
+    const remove = (token: string) =>
+      removeEntry(request(`http://localhost/api/scrapbook/${paris.id}`, token, { method: 'DELETE' }), { params: { id: paris.id } });
+    expect((await remove(bobToken)).status).toBe(404);
+    expect((await remove(aliceToken)).status).toBe(200);
+    expect(await list()).toEqual([]);
+    // The honk itself stays in the inbox
+    expect(await repository.messages.findById('paris')).not.toBeNull();
+  });
+
+  it('should normalize typed tags', () => {
+    expect(normalizeTag('  #Road Trip ')).toBe('road-trip');
+    expect(normalizeTag('##')).toBe('');
+  });
+});
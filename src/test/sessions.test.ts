@@ -0,0 +1,150 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST as deviceAuth } from '../../app/api/auth/device/route';
+import { POST as refresh } from '../../app/api/auth/refresh/route';
+import { POST as logout } from '../../app/api/auth/logout/route';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { dbManager } from '@/lib/database';
+import { MigrationRunner } from '@/lib/migrations';
+import { SqliteHonkRepository } from '@/lib/sqlite-repository';
+import { setRepository } from '@/lib/repository';
+import { ManualClock } from '@/lib/simulation-clock';
+import { AuthService } from '@/services/auth';
+import { deviceService } from '@/services/devices';
+import { hashRefreshToken, jwtSecret, SessionService } from '@/services/sessions';
+
+const DEVICE_INFO = {
+  userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  screenResolution: '1440x900',
+  timezone: 'America/New_York',
+  language: 'en-US',
+  platform: 'MacIntel'
+};
+
+function post(url: string, body: unknown, token?: string): NextRequest {
+  return new NextRequest(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: JSON.stringify(body)
+  });
+}
+
+const isSignedIn = async (token: string) =>
+  (await authMiddleware(new NextRequest('http://localhost', { headers: { Authorization: `Bearer ${token}` } }))).success;
+
+describe('Sessions', () => {
+  let repository: SqliteHonkRepository;
+  const authService = new AuthService();
+
+  const registerAlice = () => authService.register({
+    email: 'alice@example.com',
+    username: 'alice',
+    password: 'TestPassword123'
+  });
+
+  beforeEach(() => {
+    const db = dbManager.connect(':memory:');
+    new MigrationRunner(db).runMigrations();
+    repository = new SqliteHonkRepository();
+    setRepository(repository);
+  });
+
+  afterEach(() => {
+    setRepository(null);
+    dbManager.close();
+    vi.unstubAllEnvs();
+  });
+
+  it('should issue short-lived access tokens with a hashed refresh token', async () => {
+    const response = await deviceAuth(post('http://localhost/api/auth/device', DEVICE_INFO));
+    const body = await response.json();
+
+    expect(body).toMatchObject({ success: true, expiresIn: 900 });
+    expect(await isSignedIn(body.token)).toBe(true);
+
+    const stored = await repository.sessions.findByTokenHash(hashRefreshToken(body.refreshToken));
+    expect(stored).toMatchObject({ user_id: body.user.id, device_id: expect.any(String) });
+    const raw = dbManager.getDatabase().prepare('SELECT token_hash FROM sessions').all() as Array<{ token_hash: string }>;
+    expect(raw.map(row => row.token_hash)).not.toContain(body.refreshToken);
+  });
+
+  it('should rotate refresh tokens and revoke the family when one is reused', async () => {
+    const first = await registerAlice();
+
+    const rotated = await (await refresh(post('http://localhost/api/auth/refresh', { refreshToken: first.refreshToken }))).json();
+    expect(rotated).toMatchObject({ success: true, expiresIn: 900 });
+    expect(rotated.refreshToken).not.toBe(first.refreshToken);
+    expect(await isSignedIn(rotated.token)).toBe(true);
+
+    // Replaying the exchanged token looks like theft: the whole session goes
+    const replayed = await refresh(post('http://localhost/api/auth/refresh', { refreshToken: first.refreshToken }));
+    expect(replayed.status).toBe(401);
+    expect((await replayed.json()).message).toMatch(/already used/);
+
+    expect(await isSignedIn(first.token!)).toBe(false);
+    expect(await isSignedIn(rotated.token)).toBe(false);
+    const afterReuse = await refresh(post('http://localhost/api/auth/refresh', { refreshToken: rotated.refreshToken }));
+    expect(afterReuse.status).toBe(401);
+
+    expect((await refresh(post('http://localhost/api/auth/refresh', { refreshToken: 'made-up' }))).status).toBe(401);
+    expect((await refresh(post('http://localhost/api/auth/refresh', {}))).status).toBe(400);
+  });
+
+  it('should expire access tokens and refresh tokens on schedule', async () => {
+    const clock = new ManualClock(new Date('2024-06-01T00:00:00Z'));
+    const sessions = new SessionService({}, { clock });
+    const { user } = await registerAlice();
+
+    const tokens = await sessions.issue(user!.id);
+    expect(await sessions.verifyAccessToken(tokens.token)).toMatchObject({ userId: user!.id });
+
+    await clock.advance(15 * 60 * 1000);
+    expect(await sessions.verifyAccessToken(tokens.token)).toBeNull();
+    const renewed = await sessions.refresh(tokens.refreshToken);
+    expect(await sessions.verifyAccessToken(renewed.token)).toMatchObject({ userId: user!.id });
+
+    await clock.advance(30 * 24 * 60 * 60 * 1000);
+    await expect(sessions.refresh(renewed.refreshToken)).rejects.toThrow(/expired/);
+  });
+
+  it('should log out one session or every session', async () => {
+    const laptop = await registerAlice();
+    const phone = await authService.login({ email: 'alice@example.com', password: 'TestPassword123' });
+    const tablet = await authService.login({ email: 'alice@example.com', password: 'TestPassword123' });
+
+    const signedOut = await logout(post('http://localhost/api/auth/logout', {}, laptop.token));
+    expect(signedOut.status).toBe(200);
+    expect(await isSignedIn(laptop.token!)).toBe(false);
+    expect((await refresh(post('http://localhost/api/auth/refresh', { refreshToken: laptop.refreshToken }))).status).toBe(401);
+    expect(await isSignedIn(phone.token!)).toBe(true);
+
+    // An expired access token can still sign out with its refresh token
+    expect((await logout(post('http://localhost/api/auth/logout', { refreshToken: tablet.refreshToken }))).status).toBe(200);
+    expect(await isSignedIn(tablet.token!)).toBe(false);
+
+    expect((await logout(post('http://localhost/api/auth/logout', { everywhere: true }))).status).toBe(401);
+    const everywhere = await logout(post('http://localhost/api/auth/logout', { everywhere: true }, phone.token));
+    expect(everywhere.status).toBe(200);
+    expect(await isSignedIn(phone.token!)).toBe(false);
+  });
+
+  it('should sign out the sessions of a revoked device', async () => {
+    const { user, refreshToken } = await registerAlice();
+    const [device] = await repository.devices.listByUser(user!.id);
+
+    await deviceService.revoke(device.id, user!.id);
+
+    const response = await refresh(post('http://localhost/api/auth/refresh', { refreshToken }));
+    expect(response.status).toBe(401);
+  });
+
+  it('should require a JWT secret in production', () => {
+    vi.stubEnv('JWT_SECRET', '');
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(() => jwtSecret()).toThrow(/JWT_SECRET must be set/);
+
+    vi.stubEnv('JWT_SECRET', 'configured');
+    expect(jwtSecret()).toBe('configured');
+  });
+});
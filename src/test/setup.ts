@@ -1 +1,4 @@
 import '@testing-library/jest-dom';
+
+// Never let the lazy SQLite repository open data/honk.db during tests
+process.env.HONK_SQLITE_PATH = ':memory:';
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  ManualClock,
+  SystemClock,
+  createSeededRandom,
+  getSimulation,
+  setSimulation,
+  resetSimulation
+} from '@/lib/simulation-clock';
+
+describe('ManualClock', () => {
+  it('should only move when advanced', async () => {
+    const clock = new ManualClock(new Date('2024-01-01T00:00:00Z'));
+    const start = clock.now();
+
+    await clock.advance(1500);
+
+    expect(clock.now()).toBe(start + 1500);
+  });
+
+  it('should fire timers in due order with the clock at their due time', async () => {
+    const clock = new ManualClock(0);
+    const fired: Array<[string, number]> = [];
+
+    clock.setTimeout(() => fired.push(['late', clock.now()]), 300);
+    clock.setTimeout(() => fired.push(['early', clock.now()]), 100);
+
+    await clock.advance(1000);
+
+    expect(fired).toEqual([['early', 100], ['late', 300]]);
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  it('should repeat intervals until cleared', async () => {
+    const clock = new ManualClock(0);
+    const callback = vi.fn();
+
+    const handle = clock.setInterval(callback, 100);
+    await clock.advance(350);
+    clock.clearInterval(handle);
+    await clock.advance(1000);
+
+    expect(callback).toHaveBeenCalledTimes(3);
+  });
+
+  it('should let async timer callbacks settle before the next timer', async () => {
+    const clock = new ManualClock(0);
+    const order: string[] = [];
+
+    clock.setTimeout(async () => {
+      await Promise.resolve();
+      order.push('first');
+    }, 10);
+    clock.setTimeout(() => order.push('second'), 20);
+
+    await clock.advance(20);
+
+    expect(order).toEqual(['first', 'second']);
+  });
+});
+
+describe('SystemClock', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should run simulated time faster under a time warp', () => {
+    vi.useFakeTimers();
+    const clock = new SystemClock(3600);
+    const start = clock.now();
+
+    vi.advanceTimersByTime(10 * 1000);
+
+    expect(clock.now() - start).toBe(10 * 60 * 60 * 1000);
+  });
+
+  it('should fire timers after the warped delay', () => {
+    vi.useFakeTimers();
+    const clock = new SystemClock(3600);
+    const callback = vi.fn();
+
+    clock.setTimeout(callback, 60 * 60 * 1000);
+    vi.advanceTimersByTime(999);
+    expect(callback).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should change speed without jumping simulated time', () => {
+    vi.useFakeTimers();
+    const clock = new SystemClock(10);
+    const start = clock.now();
+
+    vi.advanceTimersByTime(1000);
+    clock.setTimeWarp(100);
+    vi.advanceTimersByTime(1000);
+
+    expect(clock.now() - start).toBe(10 * 1000 + 100 * 1000);
+  });
+
+  it('should reject invalid time warps', () => {
+    expect(() => new SystemClock(0)).toThrow('Invalid time warp');
+  });
+});
+
+describe('createSeededRandom', () => {
+  it('should produce the same sequence for the same seed', () => {
+    const first = createSeededRandom(42);
+    const second = createSeededRandom(42);
+
+    const firstValues = Array.from({ length: 5 }, () => first());
+    const secondValues = Array.from({ length: 5 }, () => second());
+
+    expect(firstValues).toEqual(secondValues);
+    expect(firstValues.every(value => value >= 0 && value < 1)).toBe(true);
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    expect(createSeededRandom(1)()).not.toBe(createSeededRandom(2)());
+  });
+});
+
+describe('shared simulation', () => {
+  afterEach(() => {
+    resetSimulation();
+  });
+
+  it('should swap the clock and keep the random source', () => {
+    const clock = new ManualClock(0);
+    const random = getSimulation().random;
+
+    setSimulation({ clock });
+
+    expect(getSimulation().clock).toBe(clock);
+    expect(getSimulation().random).toBe(random);
+  });
+
+  it('should reset to wall-clock time', () => {
+    setSimulation({ clock: new ManualClock(0) });
+    resetSimulation();
+
+    expect(getSimulation().clock).toBeInstanceOf(SystemClock);
+    expect(getSimulation().random).toBe(Math.random);
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, POST } from '../../app/api/stickers/route';
+import { DELETE } from '../../app/api/stickers/[id]/route';
+import { POST as favorite } from '../../app/api/stickers/[id]/favorite/route';
+import { GET as getImage } from '../../app/api/stickers/[id]/image/route';
+import { authMiddleware } from '@/lib/auth-middleware';
+import { dbManager } from '@/lib/database';
+import { MigrationRunner } from '@/lib/migrations';
+import { SqliteHonkRepository } from '@/lib/sqlite-repository';
+import { setRepository } from '@/lib/repository';
+import { decodeStickerImage, StickerError, StickerService } from '@/services/stickers';
+import { ManualClock } from '@/lib/simulation-clock';
+
+vi.mock('@/lib/auth-middleware', () => ({
+  authMiddleware: vi.fn()
+}));
+
+const location = { latitude: 40.7128, longitude: -74.006, is_anonymous: false };
+
+/** Just enough of a PNG for the header checks: signature and IHDR */
+function png(width: number, height: number, padding = 0): Buffer {
+  const header = Buffer.alloc(33 + padding);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header, 0);
+  header.writeUInt32BE(13, 8);
+  header.write('IHDR', 12, 'ascii');
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return header;
+}
+
+/** JPEG with an APP0 segment ahead of the frame header */
+function jpeg(width: number, height: number): Buffer {
+  const data = Buffer.alloc(2 + 18 + 19);
+  data.writeUInt16BE(0xffd8, 0);
+  data.writeUInt16BE(0xffe0, 2);
+  data.writeUInt16BE(16, 4);
+  data.writeUInt16BE(0xffc0, 20);
+  data.writeUInt16BE(17, 22);
+  data[24] = 8;
+  data.writeUInt16BE(height, 25);
+  data.writeUInt16BE(width, 27);
+  return data;
+}
+
+const dataUrl = (data: Buffer, type = 'image/png') => `data:${type};base64,${data.toString('base64')}`;
+
+function jsonRequest(url: string, method: string, body?: unknown): NextRequest {
+  return new NextRequest(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+}
+
+describe('Sticker library', () => {
+  let repository: SqliteHonkRepository;
+
+  const signIn = (id: string) => {
+    vi.mocked(authMiddleware).mockResolvedValue({
+      success: true,
+      user: { id, username: id, email: `${id}@example.com`, total_journey_points: 0 } as never
+    });
+  };
+
+  beforeEach(async () => {
+    const db = dbManager.connect(':memory:');
+    new MigrationRunner(db).runMigrations();
+    repository = new SqliteHonkRepository();
+    setRepository(repository);
+
+    for (const username of ['alice', 'bob']) {
+      await repository.users.create({
+        id: username,
+        username,
+        email: `${username}@example.com`,
+        password_hash: 'hash',
+        current_location: location
+      });
+    }
+    signIn('alice');
+  });
+
+  afterEach(() => {
+    setRepository(null);
+    dbManager.close();
+    vi.mocked(authMiddleware).mockReset();
+  });
+
+  describe('image checks', () => {
+    it('should read the real format and size from the image bytes', () => {
+      expect(decodeStickerImage(dataUrl(png(400, 300)))).toMatchObject({ mime_type: 'image/png', width: 400, height: 300 });
+      // Claimed type is ignored in favour of the bytes
+      expect(decodeStickerImage(dataUrl(jpeg(64, 32), 'image/png'))).toMatchObject({ mime_type: 'image/jpeg', width: 64, height: 32 });
+    });
+
+    it('should reject oversized, overlarge and non-image uploads', () => {
+      const limits = { maxBytes: 1024, maxDimension: 512 };
+
+      expect(() => decodeStickerImage(dataUrl(png(100, 100, 2048)), limits)).toThrow(/1KB or smaller/);
+      expect(() => decodeStickerImage(dataUrl(png(513, 100)), limits)).toThrow(/at most 512x512/);
+      expect(() => decodeStickerImage(dataUrl(Buffer.from('<svg></svg>'), 'image/svg+xml'), limits)).toThrow(/PNG, JPEG, GIF or WebP/);
+      expect(() => decodeStickerImage('https://example.com/duck.png', limits)).toThrow(StickerError);
+    });
+
+    it('should cap how many stickers one user keeps', async () => {
+      const service = new StickerService({ maxStickersPerUser: 1 }, { clock: new ManualClock(new Date('2024-06-01T00:00:00Z')) });
+      await service.upload('alice', { name: 'Duck', image: dataUrl(png(10, 10)) });
+
+      await expect(service.upload('alice', { name: 'Goose', image: dataUrl(png(10, 10)) }))
+        .rejects.toMatchObject({ status: 409 });
+    });
+  });
+
+  describe('routes', () => {
+    async function upload(name: string, isPublic: boolean) {
+      const response = await POST(jsonRequest('http://localhost/api/stickers', 'POST', {
+        name,
+        image: dataUrl(png(120, 80)),
+        is_public: isPublic
+      }));
+      return { status: response.status, body: await response.json() };
+    }
+
+    async function list(scope: string) {
+      const response = await GET(new NextRequest(`http://localhost/api/stickers?scope=${scope}`));
+      return response.json();
+    }
+
+    it('should store uploads server-side and serve the image back', async () => {
+      const { status, body } = await upload('  Honk  ', false);
+
+      expect(status).toBe(201);
+      expect(body.sticker).toMatchObject({ name: 'Honk', width: 120, height: 80, is_public: false, owner_id: 'alice' });
+      expect(body.sticker.image_url).toBe(`/api/stickers/${body.sticker.id}/image`);
+
+      const image = await getImage(new NextRequest(`http://localhost${body.sticker.image_url}`), { params: { id: body.sticker.id } });
+      expect(image.status).toBe(200);
+      expect(image.headers.get('Content-Type')).toBe('image/png');
+      expect(Buffer.from(await image.arrayBuffer()).equals(png(120, 80))).toBe(true);
+
+      expect((await list('mine')).stickers.map((sticker: { name: string }) => sticker.name)).toEqual(['Honk']);
+    });
+
+    it('should reject bad uploads with the validation message', async () => {
+      const response = await POST(jsonRequest('http://localhost/api/stickers', 'POST', {
+        name: 'Huge',
+        image: dataUrl(png(2048, 2048))
+      }));
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toMatch(/1024x1024/);
+    });
+
+    it('should only share public stickers and rank them by favorites', async () => {
+      const secret = (await upload('Secret', false)).body.sticker;
+      const shared = (await upload('Shared', true)).body.sticker;
+      const popular = (await upload('Popular', true)).body.sticker;
+
+      signIn('bob');
+      const bobFavorite = await favorite(new NextRequest('http://localhost', { method: 'POST' }), { params: { id: popular.id } });
+      expect(bobFavorite.status).toBe(200);
+
+      const hidden = await favorite(new NextRequest('http://localhost', { method: 'POST' }), { params: { id: secret.id } });
+      expect(hidden.status).toBe(404);
+
+      const library = await list('public');
+      expect(library.stickers.map((sticker: { id: string }) => sticker.id)).toEqual([popular.id, shared.id]);
+      expect(library.stickers[0]).toMatchObject({ favorite_count: 1, favorited: true, owner_username: 'alice' });
+      expect(library.pagination.total).toBe(2);
+
+      expect((await list('favorites')).stickers.map((sticker: { id: string }) => sticker.id)).toEqual([popular.id]);
+      expect((await list('mine')).stickers).toEqual([]);
+    });
+
+    it('should only let the owner delete a sticker', async () => {
+      const sticker = (await upload('Mine', true)).body.sticker;
+
+      signIn('bob');
+      await favorite(new NextRequest('http://localhost', { method: 'POST' }), { params: { id: sticker.id } });
+      const forbidden = await DELETE(new NextRequest('http://localhost', { method: 'DELETE' }), { params: { id: sticker.id } });
+      expect(forbidden.status).toBe(403);
+
+      signIn('alice');
+      const deleted = await DELETE(new NextRequest('http://localhost', { method: 'DELETE' }), { params: { id: sticker.id } });
+      expect(deleted.status).toBe(200);
+
+      signIn('bob');
+      expect((await list('favorites')).stickers).toEqual([]);
+      const image = await getImage(new NextRequest('http://localhost'), { params: { id: sticker.id } });
+      expect(image.status).toBe(404);
+    });
+
+    it('should require a signed-in user and a known scope', async () => {
+      expect((await GET(new NextRequest('http://localhost/api/stickers?scope=everything'))).status).toBe(400);
+
+      vi.mocked(authMiddleware).mockResolvedValue({ success: false });
+      expect((await GET(new NextRequest('http://localhost/api/stickers'))).status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { TerrainLookup, TerrainType, TERRAIN_ALTITUDES } from '@/services/terrainLookup';
+import { LocationData } from '@/types';
+
+const at = (latitude: number, longitude: number): LocationData => ({ latitude, longitude, is_anonymous: false });
+
+describe('TerrainLookup', () => {
+  const lookup = new TerrainLookup();
+
+  describe('getTerrainType', () => {
+    it('should find open water in every ocean', () => {
+      [at(30, -40), at(0, -150), at(-20, 80), at(-50, 0), at(15, 115)].forEach(location => {
+        expect(lookup.getTerrainType(location)).toBe(TerrainType.OCEAN);
+      });
+    });
+
+    it('should treat enclosed seas and large lakes as water', () => {
+      expect(lookup.getTerrainType(at(43, 34))).toBe(TerrainType.OCEAN); // Black Sea
+      expect(lookup.getTerrainType(at(42, 51))).toBe(TerrainType.OCEAN); // Caspian Sea
+      expect(lookup.getTerrainType(at(60, -85))).toBe(TerrainType.OCEAN); // Hudson Bay
+      expect(lookup.getTerrainType(at(47.5, -87.5))).toBe(TerrainType.OCEAN); // Lake Superior
+    });
+
+    it('should produce forest and urban terrain', () => {
+      expect(lookup.getTerrainType(at(-5, -62))).toBe(TerrainType.FOREST); // Amazon
+      expect(lookup.getTerrainType(at(62, 100))).toBe(TerrainType.FOREST); // Siberian taiga
+      expect(lookup.getTerrainType(at(40.7128, -74.006))).toBe(TerrainType.URBAN); // New York
+      expect(lookup.getTerrainType(at(35.6762, 139.6503))).toBe(TerrainType.URBAN); // Tokyo
+    });
+
+    it('should cover mountains and deserts beyond the Americas and Europe', () => {
+      expect(lookup.getTerrainType(at(30, 85))).toBe(TerrainType.MOUNTAIN); // Himalaya
+      expect(lookup.getTerrainType(at(-80, 0))).toBe(TerrainType.MOUNTAIN); // Antarctic ice sheet
+      expect(lookup.getTerrainType(at(-25, 133))).toBe(TerrainType.DESERT); // Outback
+      expect(lookup.getTerrainType(at(43, 105))).toBe(TerrainType.DESERT); // Gobi
+    });
+
+    it('should fall back to plain land', () => {
+      expect(lookup.getTerrainType(at(38, -98))).toBe(TerrainType.LAND); // Kansas
+      expect(lookup.getTerrainType(at(45, 2))).toBe(TerrainType.LAND); // France
+    });
+
+    it('should wrap longitudes past the antimeridian', () => {
+      expect(lookup.getTerrainType(at(23, 375))).toBe(lookup.getTerrainType(at(23, 15)));
+    });
+  });
+
+  it('should derive altitude from terrain', () => {
+    expect(lookup.getAltitude(at(30, 85))).toBe(TERRAIN_ALTITUDES[TerrainType.MOUNTAIN]);
+    expect(lookup.getAltitude(at(30, -40))).toBe(TERRAIN_ALTITUDES[TerrainType.OCEAN]);
+  });
+
+  it('should report water separately from terrain', () => {
+    expect(lookup.isOverWater(at(30, -40))).toBe(true);
+    expect(lookup.isOverWater(at(40.7128, -74.006))).toBe(false);
+  });
+});
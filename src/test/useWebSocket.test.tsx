@@ -20,6 +20,8 @@ vi.mock('@/services/websocket', () => ({
     onFlightDelivered: vi.fn(),
     removeFlightProgressCallback: vi.fn(),
     removeFlightDeliveredCallback: vi.fn(),
+    onFlightFailed: vi.fn(),
+    removeFlightFailedCallback: vi.fn(),
     getStats: vi.fn(() => ({
       connected: false,
       subscribedFlights: 0,
@@ -194,6 +196,39 @@ describe('useFlightProgress Hook', () => {
     expect(result.current.isDelivered).toBe(true);
   });
 
+  it('should handle flights returned to sender', () => {
+    const messageId = 'msg123';
+    let failedCallback: (progress: FlightProgress) => void = () => {};
+
+    vi.mocked(webSocketService.onFlightFailed).mockImplementation((id, callback) => {
+      if (id === messageId) {
+        failedCallback = callback;
+      }
+    });
+
+    const { result, unmount } = renderHook(() => useFlightProgress(messageId));
+
+    const mockProgress: FlightProgress = {
+      message_id: messageId,
+      current_position: { latitude: 40.7128, longitude: -74.0060, is_anonymous: false },
+      progress_percentage: 40,
+      estimated_arrival: new Date(),
+      status: 'failed',
+      failure_reason: 'Held too long in severe weather'
+    };
+
+    act(() => {
+      failedCallback(mockProgress);
+    });
+
+    expect(result.current.progress).toEqual(mockProgress);
+    expect(result.current.isFailed).toBe(true);
+    expect(result.current.isDelivered).toBe(false);
+
+    unmount();
+    expect(webSocketService.removeFlightFailedCallback).toHaveBeenCalledWith(messageId, failedCallback);
+  });
+
   it('should cleanup on unmount', () => {
     const messageId = 'msg123';
     const { unmount } = renderHook(() => useFlightProgress(messageId));
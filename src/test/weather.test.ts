@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import { WeatherService, WeatherCondition, WEATHER_SPEED_MODIFIERS } from '@/services/weather';
+import { WeatherService, WeatherCondition, WEATHER_SPEED_MODIFIERS, TERRAIN_WIND_EXPOSURE } from '@/services/weather';
+import { TerrainType } from '@/services/terrainLookup';
 import { LocationData, WeatherEvent } from '@/types';
+import { createSeededRandom } from '@/lib/simulation-clock';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -271,6 +273,38 @@ describe('WeatherService', () => {
     });
   });
 
+  describe('calculateWindEffect', () => {
+    it('should be reproducible with a seeded random source', () => {
+      const first = new WeatherService({ random: createSeededRandom(7) });
+      const second = new WeatherService({ random: createSeededRandom(7) });
+
+      const firstEffects = [1, 2, 3].map(() => first['calculateWindEffect'](90, 40));
+      const secondEffects = [1, 2, 3].map(() => second['calculateWindEffect'](90, 40));
+
+      expect(firstEffects).toEqual(secondEffects);
+    });
+
+    it('should stay within ±25%', () => {
+      const service = new WeatherService({ random: createSeededRandom(99) });
+
+      for (let i = 0; i < 50; i++) {
+        expect(Math.abs(service['calculateWindEffect'](0, 80))).toBeLessThanOrEqual(0.25);
+      }
+    });
+
+    it('should be damped over sheltered terrain', () => {
+      const overOcean = new WeatherService({ random: createSeededRandom(7) });
+      const overCity = new WeatherService({ random: createSeededRandom(7) });
+      const ocean: LocationData = { latitude: 30, longitude: -40, is_anonymous: false };
+      const newYork: LocationData = { latitude: 40.7128, longitude: -74.006, is_anonymous: false };
+
+      const oceanEffect = overOcean['calculateWindEffect'](90, 40, ocean);
+      const cityEffect = overCity['calculateWindEffect'](90, 40, newYork);
+
+      expect(cityEffect).toBeCloseTo(oceanEffect * TERRAIN_WIND_EXPOSURE[TerrainType.URBAN]);
+    });
+  });
+
   describe('calculateFlightSpeed', () => {
     it('should calculate correct speed with clear weather', () => {
       const baseSpeed = 50;
@@ -0,0 +1,111 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { WeatherService, WeatherCondition } from '@/services/weather';
+import { OpenMeteoProvider } from '@/services/weatherProviders';
+import { createSeededRandom } from '@/lib/simulation-clock';
+import { LocationData, RouteWaypoint } from '@/types';
+
+const fixture = readFileSync(path.join(__dirname, 'fixtures/open-meteo-hourly.json'), 'utf8');
+const forecastStart = Date.parse('2024-06-01T00:00:00Z');
+const hour = 60 * 60 * 1000;
+
+/**
+ * Local stand-in for the Open-Meteo forecast endpoint, serving the hourly
+ * fixture for every location
+ */
+function startFixtureServer(requests: URL[], status: () => number): Promise<Server> {
+  const server = createServer((request, response) => {
+    requests.push(new URL(request.url ?? '/', 'http://localhost'));
+    response.statusCode = status();
+    response.setHeader('Content-Type', 'application/json');
+    response.end(status() === 200 ? fixture : '{"error":true}');
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('WeatherService forecasts', () => {
+  const requests: URL[] = [];
+  let responseStatus = 200;
+  let server: Server;
+  let baseUrl: string;
+  let weatherService: WeatherService;
+
+  const newYork: LocationData = { latitude: 40.7128, longitude: -74.006, is_anonymous: false };
+
+  beforeAll(async () => {
+    server = await startFixtureServer(requests, () => responseStatus);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/forecast`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    responseStatus = 200;
+    weatherService = new WeatherService({ random: createSeededRandom(7) }, new OpenMeteoProvider(baseUrl));
+  });
+
+  it('should parse the hourly forecast into time-indexed events', async () => {
+    const forecast = await weatherService.fetchForecast(newYork);
+
+    expect(forecast).toHaveLength(12);
+    expect(forecast[0].timestamp.getTime()).toBe(forecastStart);
+    expect(forecast[11].timestamp.getTime()).toBe(forecastStart + 11 * hour);
+    expect(forecast.map(event => event.type).slice(0, 9)).toEqual([
+      'clear', 'clear', 'clear', 'clear', 'rain', 'rain', 'rain', 'rain', 'storm'
+    ]);
+    expect(forecast[10].details).toEqual({ temperature: 60.7, windSpeed: 41, windDirection: 260, weatherCode: 96 });
+
+    const query = requests[0].searchParams;
+    expect(query.get('hourly')).toBe('temperature_2m,weathercode,windspeed_10m,winddirection_10m');
+    expect(query.get('timeformat')).toBe('unixtime');
+  });
+
+  it('should sample the hour closest to a moment within the forecast', async () => {
+    const forecast = await weatherService.fetchForecast(newYork);
+
+    expect(weatherService.sampleForecast(forecast, new Date(forecastStart + 5.4 * hour))?.details.weatherCode).toBe(63);
+    expect(weatherService.sampleForecast(forecast, new Date(forecastStart + 8.6 * hour))?.details.weatherCode).toBe(95);
+    expect(weatherService.sampleForecast(forecast, new Date(forecastStart + 13 * hour))).toBeNull();
+    expect(weatherService.sampleForecast([], new Date(forecastStart))).toBeNull();
+  });
+
+  it('should give each waypoint the weather forecast for when the duck gets there', async () => {
+    const waypoints: RouteWaypoint[] = [
+      { latitude: 40.7128, longitude: -74.006, altitude: 800, timestamp: new Date(forecastStart + hour) },
+      { latitude: 45, longitude: -60, altitude: 100, timestamp: new Date(forecastStart + 5 * hour) },
+      { latitude: 50, longitude: -40, altitude: 100, timestamp: new Date(forecastStart + 9 * hour) },
+      { latitude: 52, longitude: -20, altitude: 100, timestamp: new Date(forecastStart + 30 * hour) }
+    ];
+
+    const weather = await weatherService.fetchWeatherAlongRoute(waypoints);
+
+    expect(weather.map(event => event?.type ?? null)).toEqual([
+      WeatherCondition.CLEAR, WeatherCondition.RAIN, WeatherCondition.STORM, null
+    ]);
+    expect(weather[2]?.timestamp.getTime()).toBe(forecastStart + 9 * hour);
+    expect(requests).toHaveLength(4);
+  });
+
+  it('should reuse cached forecasts for the same spot', async () => {
+    await weatherService.fetchForecast(newYork);
+    await weatherService.fetchForecast({ ...newYork, latitude: 40.7131 });
+
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should come back empty when the forecast is unavailable', async () => {
+    responseStatus = 503;
+
+    expect(await weatherService.fetchForecast(newYork)).toEqual([]);
+    expect(await weatherService.fetchWeatherAlongRoute([
+      { latitude: 40.7128, longitude: -74.006, altitude: 800, timestamp: new Date(forecastStart) }
+    ])).toEqual([null]);
+  });
+});
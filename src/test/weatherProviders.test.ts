@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createWeatherProvider,
+  FixtureWeatherProvider,
+  OpenMeteoForecastResponse,
+  OpenMeteoProvider,
+  resolveWeatherProvider,
+  SyntheticWeatherProvider
+} from '@/services/weatherProviders';
+import { WeatherService } from '@/services/weather';
+import { ManualClock } from '@/lib/simulation-clock';
+import { LocationData } from '@/types';
+import recording from './fixtures/open-meteo-hourly.json';
+
+const hour = 60 * 60 * 1000;
+const newYork: LocationData = { latitude: 40.7128, longitude: -74.006, is_anonymous: false };
+const london: LocationData = { latitude: 51.5074, longitude: -0.1278, is_anonymous: false };
+
+/** Every 10 degrees between 60S and 60N */
+const grid: LocationData[] = [];
+for (let latitude = -60; latitude <= 60; latitude += 10) {
+  for (let longitude = -180; longitude < 180; longitude += 10) {
+    grid.push({ latitude, longitude, is_anonymous: false });
+  }
+}
+
+describe('weather providers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('configuration', () => {
+    const env = (vars: Record<string, string>) => ({ NODE_ENV: 'test', ...vars }) as NodeJS.ProcessEnv;
+
+    it('should pick the provider from HONK_WEATHER_PROVIDER', () => {
+      expect(resolveWeatherProvider(env({ HONK_WEATHER_PROVIDER: 'synthetic' }))).toBe('synthetic');
+      expect(resolveWeatherProvider(env({ HONK_WEATHER_PROVIDER: 'Fixture' }))).toBe('fixture');
+      expect(resolveWeatherProvider(env({ HONK_WEATHER_PROVIDER: 'bogus' }))).toBe('open-meteo');
+      expect(resolveWeatherProvider(env({}))).toBe('open-meteo');
+    });
+
+    it('should build each provider by name', () => {
+      expect(createWeatherProvider('open-meteo')).toBeInstanceOf(OpenMeteoProvider);
+      expect(createWeatherProvider('fixture')).toBeInstanceOf(FixtureWeatherProvider);
+      expect(createWeatherProvider('synthetic')).toBeInstanceOf(SyntheticWeatherProvider);
+    });
+  });
+
+  describe('FixtureWeatherProvider', () => {
+    const atlantic = { ...recording, latitude: 47.5, longitude: -35 } as OpenMeteoForecastResponse;
+    const calmAtlantic: OpenMeteoForecastResponse = {
+      ...atlantic,
+      hourly: { ...atlantic.hourly, weathercode: atlantic.hourly.weathercode.map(() => 0) }
+    };
+
+    it('should replay the recorded hour matching the clock', async () => {
+      const clock = new ManualClock(new Date('2024-06-01T05:20:00Z'));
+      const provider = new FixtureWeatherProvider(recording, { clock });
+
+      expect((await provider.fetchCurrent(newYork))?.weatherCode).toBe(63);
+    });
+
+    it('should loop the recording past its end', async () => {
+      const clock = new ManualClock(new Date('2024-06-03T17:00:00Z'));
+      const provider = new FixtureWeatherProvider(recording, { clock });
+
+      // 65 hours in, 5 hours into the fourth pass through the 12-hour recording
+      const hourly = await provider.fetchHourly(newYork);
+      expect(hourly[0].weatherCode).toBe(63);
+      expect(hourly[0].time.getTime()).toBe(clock.now());
+      expect(hourly[1].time.getTime()).toBe(clock.now() + hour);
+      expect(hourly).toHaveLength(7 * 24);
+    });
+
+    it('should use the recording nearest to each location', async () => {
+      const clock = new ManualClock(new Date('2024-06-01T09:00:00Z'));
+      const provider = new FixtureWeatherProvider([recording, calmAtlantic], { clock });
+
+      expect((await provider.fetchCurrent(newYork))?.weatherCode).toBe(95);
+      expect((await provider.fetchCurrent(london))?.weatherCode).toBe(0);
+    });
+  });
+
+  describe('SyntheticWeatherProvider', () => {
+    const noon = new Date('2024-06-01T12:00:00Z');
+
+    it('should give the same weather for the same seed, place and time', () => {
+      const first = new SyntheticWeatherProvider({ seed: 42 });
+      const second = new SyntheticWeatherProvider({ seed: 42 });
+
+      expect(grid.map(location => first.readingAt(location, noon)))
+        .toEqual(grid.map(location => second.readingAt(location, noon)));
+    });
+
+    it('should change with the seed', () => {
+      const first = new SyntheticWeatherProvider({ seed: 1 });
+      const second = new SyntheticWeatherProvider({ seed: 2 });
+
+      const differences = grid.filter(location =>
+        first.readingAt(location, noon).weatherCode !== second.readingAt(location, noon).weatherCode
+      );
+      expect(differences.length).toBeGreaterThan(0);
+    });
+
+    it('should mix fair weather, rain and thunderstorms', () => {
+      const provider = new SyntheticWeatherProvider();
+      const codes = grid.map(location => provider.readingAt(location, noon).weatherCode);
+
+      expect(codes.some(code => code <= 2)).toBe(true);
+      expect(codes.some(code => code >= 51 && code <= 75)).toBe(true);
+      expect(codes.some(code => code >= 95)).toBe(true);
+      expect(codes.filter(code => code <= 3).length).toBeGreaterThan(grid.length / 2);
+    });
+
+    it('should move storm systems over time', () => {
+      const provider = new SyntheticWeatherProvider();
+      const later = new Date(noon.getTime() + 12 * hour);
+      const stormy = (time: Date) => grid
+        .filter(location => provider.readingAt(location, time).weatherCode >= 51)
+        .map(location => `${location.latitude},${location.longitude}`);
+
+      expect(stormy(later)).not.toEqual(stormy(noon));
+    });
+
+    it('should feed WeatherService forecasts without touching the network', async () => {
+      const fetchSpy = vi.fn();
+      vi.stubGlobal('fetch', fetchSpy);
+      const clock = new ManualClock(noon);
+      const service = new WeatherService({ clock }, new SyntheticWeatherProvider({}, { clock }));
+
+      const forecast = await service.fetchForecast(london);
+      const current = await service.fetchWeatherData(london);
+
+      expect(forecast).toHaveLength(7 * 24);
+      expect(forecast[0].timestamp.getTime()).toBe(noon.getTime());
+      expect(current?.details.weatherCode).toBe(forecast[0].details.weatherCode);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+  });
+});
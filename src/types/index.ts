@@ -18,6 +18,7 @@ export interface User {
   countries_visited: string[];
   states_visited: string[];
   achievements: string[];
+  time_zone?: string; // IANA zone reported by the user's device
 }
 
 export interface LocationData {
@@ -41,6 +42,40 @@ export interface StickerData {
   scale: number;
 }
 
+export type PostcardDrawingTool = 'pen' | 'eraser';
+
+/** One stroke drawn on a postcard, in postcard coordinates (600x375) */
+export interface PostcardStroke {
+  tool: PostcardDrawingTool;
+  color: string;
+  width: number;
+  points: Array<{ x: number; y: number }>;
+}
+
+/** Freehand drawing layer of a postcard; strokes are replayed in order */
+export interface PostcardDrawing {
+  version: 1;
+  strokes: PostcardStroke[];
+}
+
+export type PostcardBackground = 'paper' | 'autumn' | 'sky';
+
+export type PostcardFont = 'classic' | 'handwritten' | 'pixel';
+
+/**
+ * Everything that makes up a postcard in one versioned document: what the
+ * compose screen edits, exports and sends, and what the renderer draws
+ */
+export interface PostcardDocument {
+  version: 1;
+  title: string;
+  text: string;
+  background: PostcardBackground;
+  font?: PostcardFont; // Typeface for the title and text; classic when absent
+  stickers: StickerData[];
+  drawing: PostcardDrawing;
+}
+
 export interface HonkMessage {
   id: string;
   sender_id: string;
@@ -49,12 +84,18 @@ export interface HonkMessage {
   content: string;
   sender_location: LocationData;
   recipient_location?: LocationData;
-  status: 'flying' | 'delivered';
+  status: 'scheduled' | 'flying' | 'delivered' | 'returned'; // Returned when the flight fails
   created_at: Date;
   delivered_at?: Date;
   journey_data?: JourneyData;
   message_type: 'regular' | 'postcard';
   sticker_data: StickerData[];
+  drawing_data?: PostcardDrawing; // Freehand drawing layer on postcards
+  postcard_background?: PostcardBackground;
+  postcard_font?: PostcardFont;
+  scheduled_for?: Date; // Launch time for scheduled honks
+  scheduled_timezone?: string; // IANA zone the launch time was chosen in
+  delivery_tier?: DeliveryTier;
 }
 
 export interface JourneyData {
@@ -99,6 +140,9 @@ export interface FlightProgress {
   progress_percentage: number;
   estimated_arrival: Date;
   current_weather?: WeatherEvent;
+  status?: FlightStatus;
+  hold_expires_at?: Date; // When a holding flight stops waiting for the weather
+  failure_reason?: string;
 }
 
 export interface Conversation {
@@ -137,6 +181,7 @@ export interface UserRow {
   countries_visited: string; // JSON string array
   states_visited: string; // JSON string array
   achievements: string; // JSON string array
+  time_zone: string | null;
 }
 
 export interface MessageRow {
@@ -153,6 +198,12 @@ export interface MessageRow {
   journey_data: string | null; // JSON string
   message_type: string;
   sticker_data: string; // JSON string
+  drawing_data: string | null; // JSON string
+  postcard_background: string | null;
+  postcard_font: string | null;
+  scheduled_for: string | null;
+  scheduled_timezone: string | null;
+  delivery_tier: string;
 }
 
 export interface ConversationRow {
@@ -190,6 +241,7 @@ export interface AuthUser {
   countries_visited: string[];
   states_visited: string[];
   achievements: string[];
+  time_zone?: string;
 }
 
 export interface LoginCredentials {
@@ -208,6 +260,8 @@ export interface AuthResponse {
   success: boolean;
   user?: AuthUser;
   token?: string;
+  refreshToken?: string;
+  expiresIn?: number; // Seconds until the access token expires
   message?: string;
 }
 
@@ -243,6 +297,8 @@ export interface AuthValidation {
 
 export type FlightStatus = 'scheduled' | 'enroute' | 'holding' | 'delivered' | 'failed';
 
+export type DeliveryTier = 'standard' | 'priority' | 'express';
+
 export interface FlightRecord {
   id: string;
   message_id: string;
@@ -254,16 +310,75 @@ export interface FlightRecord {
   current_position: LocationData;
   speed_kmh: number;
   weather_events: WeatherEvent[];
+  delivery_tier: DeliveryTier;
   started_at: Date;
   updated_at: Date;
   estimated_arrival: Date;
 }
 
+export type FlightEventType =
+  | 'departed'
+  | 'weather_changed'
+  | 'rerouted'
+  | 'held'
+  | 'resumed'
+  | 'delivered'
+  | 'failed';
+
+/** What the engine knew when it logged a flight event; which fields are set depends on the type */
+export interface FlightEventDetails {
+  weather?: WeatherEvent | null;
+  previous_weather?: WeatherEvent | null;
+  route?: RouteWaypoint[];
+  previous_route?: RouteWaypoint[];
+  estimated_arrival?: string;
+  previous_estimated_arrival?: string;
+  delivery_tier?: DeliveryTier;
+  held_ms?: number; // How long the flight sat holding, on resume, reroute or failure
+  hold_expires_at?: string; // When the hold gives out, on holding
+  duration_ms?: number; // Departure to landing, on delivery
+  reason?: string;
+}
+
+/** One entry in a flight's append-only event log */
+export interface FlightEvent {
+  id: string;
+  flight_id: string;
+  message_id: string;
+  type: FlightEventType;
+  occurred_at: Date;
+  position: LocationData;
+  progress_percentage: number;
+  details: FlightEventDetails;
+}
+
+// Response of POST /api/flights/preview
+export interface RoutePreview {
+  delivery_tier: DeliveryTier;
+  /** Recipient picked by the Tailwind Algorithm when the preview named none */
+  recipient_id?: string;
+  route: RouteWaypoint[];
+  total_distance: number;
+  terrain: Array<{ terrain: string; distance_km: number; percentage: number }>;
+  weather: WeatherEvent[];
+  eta: {
+    earliest: string;
+    latest: string;
+    min_duration_ms: number;
+    max_duration_ms: number;
+  };
+  journey_points: {
+    total_points: number;
+    breakdown: string[];
+  };
+}
+
 export type NotificationType =
   | 'flight.update'
   | 'flight.delivered'
   | 'message.received'
   | 'reward.unlocked'
+  | 'flight.returned'
   | 'system.alert';
 
 export interface NotificationRecord {
@@ -286,6 +401,16 @@ export interface ScrapbookEntry {
   pinned: boolean;
 }
 
+/** A scrapbook entry with the honk it keeps, as the API returns it */
+export interface ScrapbookCard {
+  id: string;
+  message_id: string;
+  tags: string[];
+  pinned: boolean;
+  created_at: string;
+  message: HonkMessage & { sender_username?: string; postcard_image_url?: string };
+}
+
 export interface PostcardRecord {
   id: string;
   message_id: string;
@@ -297,10 +422,193 @@ export interface PostcardRecord {
   weather_snapshot?: WeatherEvent;
 }
 
-export interface RateLimitEvent {
+export type StickerImageType = 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
+
+/**
+ * A custom sticker in the shared library.
+ * The image itself is stored alongside it and served from /api/stickers/[id]/image.
+ */
+export interface StickerRecord {
+  id: string;
+  owner_id: string;
+  name: string;
+  mime_type: StickerImageType;
+  width: number;
+  height: number;
+  byte_size: number;
+  is_public: boolean;
+  created_at: Date;
+}
+
+/** A library sticker as returned by /api/stickers */
+export interface StickerSummary {
+  id: string;
+  name: string;
+  image_url: string;
+  width: number;
+  height: number;
+  is_public: boolean;
+  owner_id: string;
+  owner_username?: string;
+  favorite_count: number;
+  favorited: boolean;
+  created_at: string;
+}
+
+export type LocationSharing = 'state' | 'country' | 'anonymous';
+
+export type DraftKind = 'honk' | 'reply' | 'postcard';
+
+/**
+ * An unsent honk, reply or postcard, autosaved by the composer it was
+ * started in so it survives navigating away
+ */
+export interface DraftRecord {
+  id: string;
+  owner_id: string;
+  kind: DraftKind;
+  title: string;
+  content: string;
+  location_sharing: LocationSharing;
+  recipient_id?: string; // Replies
+  reply_to_message_id?: string; // Replies
+  recipient_name?: string; // Who a postcard is addressed to, as written on the card
+  sticker_data: StickerData[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+/** A draft as returned by /api/drafts, with a snippet for the drafts list */
+export interface DraftSummary extends Omit<DraftRecord, 'owner_id' | 'created_at' | 'updated_at'> {
+  preview: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A sticker offered in a template's palette, ready to drag onto the card */
+export interface PaletteSticker {
+  id: string;
+  name: string;
+  emoji: string;
+  color: string; // Tile colour in the palette
+}
+
+/**
+ * A starting point for a postcard: its background, font, suggested words
+ * and a default sticker arrangement
+ */
+export interface PostcardTemplate {
+  id: string;
+  name: string;
+  description: string;
+  background: PostcardBackground;
+  font: PostcardFont;
+  suggested_title: string;
+  suggested_text: string;
+  palette: PaletteSticker[];
+  stickers: StickerData[];
+  premium: boolean; // Needs the premium_postcards rank reward
+}
+
+/** Yearly window as MM-DD dates, inclusive; may wrap past the new year */
+export interface PostcardTemplateSeason {
+  start: string;
+  end: string;
+}
+
+/** Templates defined together in one data file, such as a seasonal set */
+export interface PostcardTemplateCollection {
+  id: string;
+  name: string;
+  season?: PostcardTemplateSeason; // Always offered when absent
+  templates: PostcardTemplate[];
+}
+
+/** A template as returned by /api/templates; locked ones only carry a preview */
+export interface PostcardTemplateListing extends PostcardTemplate {
+  collection_id: string;
+  locked: boolean;
+}
+
+export interface PostcardTemplateCollectionListing extends Omit<PostcardTemplateCollection, 'templates'> {
+  templates: PostcardTemplateListing[];
+}
+
+/**
+ * A browser or app signed in to an account. Each session token names the
+ * device it was issued to, so removing the device signs it out.
+ */
+export interface UserDevice {
   id: string;
   user_id: string;
-  action: string;
+  name: string; // Friendly name, e.g. "Chrome on macOS"
+  user_agent: string;
+  fingerprint?: string; // Seamless sign-in fingerprint
+  created_at: Date;
+  last_seen_at: Date;
+}
+
+/** A device as returned by /api/auth/devices */
+export interface DeviceSummary {
+  id: string;
+  name: string;
+  user_agent: string;
+  created_at: string;
+  last_seen_at: string;
+  current: boolean; // The device making the request
+}
+
+/**
+ * An issued refresh token. Each refresh rotates the token, and every token
+ * descended from one sign-in shares a family, so revoking the family signs
+ * that session out.
+ */
+export interface SessionRecord {
+  id: string;
+  family_id: string;
+  user_id: string;
+  device_id?: string;
+  token_hash: string; // SHA-256 of the refresh token; the token itself is never stored
+  created_at: Date;
+  expires_at: Date;
+  rotated_at?: Date; // Set once the token has been exchanged for a new one
+  revoked_at?: Date;
+}
+
+/**
+ * A one-time code that signs a user back in after they lose every device.
+ * Only the hash is stored; the codes are shown once when generated.
+ */
+export interface RecoveryCodeRecord {
+  id: string;
+  user_id: string;
+  code_hash: string;
+  created_at: Date;
+  used_at?: Date;
+}
+
+/** A short-lived access token and the refresh token that renews it */
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number; // Seconds until the access token expires
+}
+
+export type RateLimitAction = 'message.send' | 'auth.generate_code' | 'auth.link_device' | 'auth.recover';
+
+/** Outcome of counting a request against its rate limit */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+/** One allowed request, counted against a rate limit */
+export interface RateLimitEvent {
+  id: string;
+  subject: string; // Who is throttled: "user:<id>" or "ip:<address>"
+  action: RateLimitAction;
   occurred_at: Date;
   metadata?: Record<string, unknown>;
 }
@@ -318,6 +626,70 @@ export interface AviatorRankDefinition {
   rewards: string[];
 }
 
+/** Moments after which achievement rules are re-evaluated */
+export type AchievementEvent = 'message.delivered' | 'journey.completed';
+
+/** Running totals over a courier's delivered honks that rules test against */
+export type AchievementMetric =
+  | 'honks_delivered'
+  | 'intercontinental_honks'
+  | 'storms_survived'
+  | 'us_states_reached'
+  | 'longest_streak_days';
+
+/** An achievement unlocks once `metric` reaches `threshold` */
+export interface AchievementRule {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  events: AchievementEvent[];
+  metric: AchievementMetric;
+  threshold: number;
+}
+
+export type ReplayMarkerKind = 'departure' | 'weather' | 'reroute' | 'arrival';
+
+/** Something that happened on a delivered honk's flight, placed on the replay timeline */
+export interface ReplayMarker {
+  id: string;
+  kind: ReplayMarkerKind;
+  /** Milliseconds after departure */
+  offset_ms: number;
+  position: LocationData;
+  icon: string;
+  label: string;
+  weather?: WeatherEvent;
+}
+
+/** The stored route and weather of a delivered flight, laid out over time */
+export interface ReplayTimeline {
+  duration_ms: number;
+  /** Offset of each route waypoint, in step with the route */
+  waypoint_offsets: number[];
+  markers: ReplayMarker[];
+}
+
+/** One line of the points breakdown and the timeline markers that earned it */
+export interface ReplayPointsItem {
+  label: string;
+  points: number;
+  marker_ids: string[];
+}
+
+// Response of GET /api/messages/[id]/replay
+export interface JourneyReplayData {
+  message_id: string;
+  origin: LocationData;
+  destination: LocationData;
+  route: RouteWaypoint[];
+  timeline: ReplayTimeline;
+  points: {
+    total: number;
+    breakdown: ReplayPointsItem[];
+  };
+}
+
 
 export interface FlightRow {
   id: string;
@@ -330,11 +702,23 @@ export interface FlightRow {
   current_position: string;
   speed_kmh: number;
   weather_events: string;
+  delivery_tier: string;
   started_at: string;
   updated_at: string;
   estimated_arrival: string | null;
 }
 
+export interface FlightEventRow {
+  id: string;
+  flight_id: string;
+  message_id: string;
+  type: string;
+  occurred_at: string;
+  position: string; // JSON string
+  progress_percentage: number;
+  details: string; // JSON string
+}
+
 export interface NotificationRow {
   id: string;
   user_id: string;
@@ -366,9 +750,66 @@ export interface PostcardRow {
   created_at: string;
 }
 
-export interface RateLimitRow {
+export interface StickerRow {
+  id: string;
+  owner_id: string;
+  name: string;
+  mime_type: string;
+  width: number;
+  height: number;
+  byte_size: number;
+  is_public: number;
+  created_at: string;
+}
+
+export interface DraftRow {
+  id: string;
+  owner_id: string;
+  kind: string;
+  title: string;
+  content: string;
+  location_sharing: string;
+  recipient_id: string | null;
+  reply_to_message_id: string | null;
+  recipient_name: string | null;
+  sticker_data: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UserDeviceRow {
+  id: string;
+  user_id: string;
+  name: string;
+  user_agent: string;
+  fingerprint: string | null;
+  created_at: string;
+  last_seen_at: string;
+}
+
+export interface SessionRow {
   id: string;
+  family_id: string;
   user_id: string;
+  device_id: string | null;
+  token_hash: string;
+  created_at: string;
+  expires_at: string;
+  rotated_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface RecoveryCodeRow {
+  id: string;
+  user_id: string;
+  code_hash: string;
+  created_at: string;
+  used_at: string | null;
+}
+
+export interface RateLimitRow {
+  id: string;
+  subject: string;
   action: string;
   occurred_at: string;
   metadata: string | null;
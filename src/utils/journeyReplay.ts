@@ -0,0 +1,164 @@
+import { LocationData, ReplayMarker, ReplayTimeline, RouteWaypoint, WeatherEvent } from '@/types';
+import { calculateBearing, calculateDistance } from './distance';
+
+/** How far a leg may turn from the direct line before it counts as a reroute */
+export const REROUTE_THRESHOLD_DEGREES = 30;
+
+const WEATHER_ICONS: Record<WeatherEvent['type'], string> = {
+  clear: '☀️',
+  rain: '🌧️',
+  storm: '⛈️',
+  wind: '💨'
+};
+
+const toLocation = (waypoint: RouteWaypoint): LocationData => ({
+  latitude: waypoint.latitude,
+  longitude: waypoint.longitude,
+  is_anonymous: false
+});
+
+// Stored journeys come back from JSON with string timestamps
+const timeOf = (waypoint: RouteWaypoint) => new Date(waypoint.timestamp).getTime();
+
+const turnBetween = (a: number, b: number) => {
+  const difference = Math.abs(a - b) % 360;
+  return difference > 180 ? 360 - difference : difference;
+};
+
+/**
+ * Milliseconds after departure for each waypoint. Planned arrival times are
+ * used when the route has them; otherwise the duration is spread by distance.
+ */
+function waypointOffsets(route: RouteWaypoint[], estimatedDuration: number): number[] {
+  const times = route.map(timeOf);
+  const timed = times.every((time, index) => !Number.isNaN(time) && (index === 0 || time >= times[index - 1]))
+    && times[times.length - 1] > times[0];
+  if (timed) {
+    return times.map(time => time - times[0]);
+  }
+
+  const travelled = [0];
+  for (let i = 1; i < route.length; i++) {
+    travelled.push(travelled[i - 1] + calculateDistance(toLocation(route[i - 1]), toLocation(route[i])));
+  }
+  const total = travelled[travelled.length - 1];
+  return travelled.map(distance => (total > 0 ? (distance / total) * estimatedDuration : 0));
+}
+
+/**
+ * Index of the waypoint closest to a location
+ */
+function nearestWaypoint(route: RouteWaypoint[], location: LocationData): number {
+  let nearest = 0;
+  let nearestDistance = Infinity;
+  route.forEach((waypoint, index) => {
+    const distance = calculateDistance(toLocation(waypoint), location);
+    if (distance < nearestDistance) {
+      nearest = index;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+}
+
+/**
+ * Lay a delivered flight out over time: when the duck passed each waypoint,
+ * met each weather event and turned off the direct line to its destination.
+ * Rerouting isn't stored, so a reroute is the first leg of each stretch that
+ * heads more than REROUTE_THRESHOLD_DEGREES away from the destination.
+ */
+export function buildReplayTimeline(
+  route: RouteWaypoint[],
+  weatherEvents: WeatherEvent[],
+  estimatedDuration: number
+): ReplayTimeline {
+  if (route.length === 0) {
+    return { duration_ms: 0, waypoint_offsets: [], markers: [] };
+  }
+
+  const offsets = waypointOffsets(route, estimatedDuration);
+  const duration = offsets[offsets.length - 1];
+  const destination = toLocation(route[route.length - 1]);
+
+  const markers: ReplayMarker[] = [{
+    id: 'departure',
+    kind: 'departure',
+    offset_ms: 0,
+    position: toLocation(route[0]),
+    icon: '🛫',
+    label: 'Departure'
+  }];
+
+  weatherEvents.forEach((event, index) => {
+    const waypoint = nearestWaypoint(route, event.location);
+    markers.push({
+      id: `weather-${index}`,
+      kind: 'weather',
+      offset_ms: offsets[waypoint],
+      position: event.location,
+      icon: WEATHER_ICONS[event.type],
+      label: `${event.type[0].toUpperCase()}${event.type.slice(1)} (${Math.round(event.intensity * 100)}% intensity)`,
+      weather: event
+    });
+  });
+
+  let offCourse = false;
+  for (let i = 0; i < route.length - 2; i++) {
+    const from = toLocation(route[i]);
+    const turn = turnBetween(calculateBearing(from, toLocation(route[i + 1])), calculateBearing(from, destination));
+    if (turn > REROUTE_THRESHOLD_DEGREES && !offCourse) {
+      markers.push({
+        id: `reroute-${i}`,
+        kind: 'reroute',
+        offset_ms: offsets[i],
+        position: from,
+        icon: '↪️',
+        label: `Rerouted ${Math.round(turn)}° off the direct line`
+      });
+    }
+    offCourse = turn > REROUTE_THRESHOLD_DEGREES;
+  }
+
+  markers.push({
+    id: 'arrival',
+    kind: 'arrival',
+    offset_ms: duration,
+    position: destination,
+    icon: '🛬',
+    label: 'Delivered'
+  });
+
+  // Stable, so departure stays first and arrival last among ties
+  markers.sort((a, b) => a.offset_ms - b.offset_ms);
+  return { duration_ms: duration, waypoint_offsets: offsets, markers };
+}
+
+/**
+ * Where the duck was a given number of milliseconds into the replay
+ */
+export function replayPositionAt(route: RouteWaypoint[], timeline: ReplayTimeline, offsetMs: number): LocationData {
+  const offsets = timeline.waypoint_offsets;
+  if (route.length === 0) {
+    return { latitude: 0, longitude: 0, is_anonymous: false };
+  }
+
+  const next = offsets.findIndex(offset => offset > offsetMs);
+  if (next === -1) return toLocation(route[route.length - 1]);
+  if (next === 0) return toLocation(route[0]);
+
+  const from = route[next - 1];
+  const to = route[next];
+  const fraction = (offsetMs - offsets[next - 1]) / (offsets[next] - offsets[next - 1]);
+  return {
+    latitude: from.latitude + (to.latitude - from.latitude) * fraction,
+    longitude: from.longitude + (to.longitude - from.longitude) * fraction,
+    is_anonymous: false
+  };
+}
+
+/**
+ * The markers already passed at a point in the replay, latest last
+ */
+export function replayMarkersUpTo(timeline: ReplayTimeline, offsetMs: number): ReplayMarker[] {
+  return timeline.markers.filter(marker => marker.offset_ms <= offsetMs);
+}
@@ -1,6 +1,26 @@
+import { PostcardBackground, PostcardFont } from '@/types';
+
 export const POSTCARD_MAX_LINES = 6;
 export const POSTCARD_MAX_LINE_LENGTH = 42;
 
+// Card size used for sticker and stroke coordinates (the PostcardMaker card)
+export const POSTCARD_WIDTH = 600;
+export const POSTCARD_HEIGHT = 375;
+
+export const POSTCARD_BACKGROUNDS: Record<PostcardBackground, { fill: string; border: string }> = {
+  paper: { fill: '#FFFDF7', border: '#E5E5E5' },
+  autumn: { fill: '#F5DEB3', border: '#8B4513' },
+  sky: { fill: '#E3F6FB', border: '#4DD0E1' },
+};
+
+export const POSTCARD_FONTS: Record<PostcardFont, { label: string; family: string }> = {
+  classic: { label: 'Classic', family: '"ChicagoFLF", "Chicago", monospace' },
+  handwritten: { label: 'Handwritten', family: '"SL Minoel", cursive' },
+  pixel: { label: 'Pixel', family: '"PixelFont", "Orbitron", monospace' },
+};
+
+export const DEFAULT_POSTCARD_FONT: PostcardFont = 'classic';
+
 const NEWLINE_REGEX = /\r\n|\r/g;
 
 const WHITESPACE_TOKENIZER = /\S+|\s+/g;
@@ -104,3 +124,46 @@ export function isWithinPostcardLineLimit(
 ): boolean {
   return calculatePostcardLineCount(text, maxLineLength) <= maxLines;
 }
+
+/**
+ * Break text into the lines it occupies on a postcard, wrapping the same
+ * way calculatePostcardLineCount counts them
+ */
+export function wrapPostcardLines(
+  text: string,
+  maxLineLength: number = POSTCARD_MAX_LINE_LENGTH,
+): string[] {
+  if (!text) {
+    return [];
+  }
+
+  return normalizeText(text).split('\n').flatMap(segment => {
+    const words = segment.split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      return [''];
+    }
+
+    const lines: string[] = [];
+    let current = '';
+    for (const word of words) {
+      if (!current) {
+        current = word;
+      } else if (current.length + 1 + word.length <= maxLineLength) {
+        current = `${current} ${word}`;
+      } else {
+        lines.push(current);
+        current = word;
+      }
+    }
+    lines.push(current);
+    return lines;
+  });
+}
+
+export function isPostcardBackground(value: unknown): value is PostcardBackground {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(POSTCARD_BACKGROUNDS, value);
+}
+
+export function isPostcardFont(value: unknown): value is PostcardFont {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(POSTCARD_FONTS, value);
+}
@@ -0,0 +1,277 @@
+import { HonkMessage, PostcardDocument, StickerData } from '@/types';
+import {
+  calculatePostcardLineCount,
+  isPostcardBackground,
+  isPostcardFont,
+  POSTCARD_HEIGHT,
+  POSTCARD_MAX_LINES,
+  POSTCARD_WIDTH,
+} from './postcard';
+import { emptyPostcardDrawing, readPostcardDrawing, validatePostcardDrawing } from './postcardDrawing';
+
+export const POSTCARD_DOCUMENT_VERSION = 1;
+
+export const POSTCARD_MAX_TITLE_LENGTH = 100;
+export const POSTCARD_MAX_STICKERS = 50;
+export const POSTCARD_MAX_STICKER_URL_LENGTH = 512 * 1024;
+/** Combined length of every sticker image URL on one card */
+export const POSTCARD_MAX_STICKER_URL_TOTAL = 1024 * 1024;
+export const POSTCARD_MIN_STICKER_SIZE = 4;
+export const POSTCARD_MAX_STICKER_SIZE = 600;
+export const POSTCARD_MIN_STICKER_SCALE = 0.1;
+export const POSTCARD_MAX_STICKER_SCALE = 10;
+
+type DocumentRecord = Record<string, unknown>;
+
+export interface PostcardDocumentValidation {
+  isValid: boolean;
+  errors: string[];
+  document?: PostcardDocument;
+}
+
+export interface PostcardStickersValidation {
+  isValid: boolean;
+  errors: string[];
+  stickers?: StickerData[];
+}
+
+/**
+ * Upgrades keyed by the version they upgrade from. Version 0 is the payload
+ * postcards were sent as before documents existed: message fields with
+ * `content`, `sticker_data`, `drawing_data` and `postcard_background`.
+ */
+export const POSTCARD_DOCUMENT_MIGRATIONS: Record<number, (document: DocumentRecord) => DocumentRecord> = {
+  0: legacy => ({
+    version: 1,
+    title: legacy.title,
+    text: legacy.content,
+    background: legacy.postcard_background ?? 'paper',
+    stickers: legacy.sticker_data ?? [],
+    // Stroke lists from before drawings were versioned upgrade as pen strokes
+    drawing: Array.isArray(legacy.drawing_data)
+      ? readPostcardDrawing(legacy.drawing_data)
+      : legacy.drawing_data ?? emptyPostcardDrawing()
+  })
+};
+
+function isRecord(value: unknown): value is DocumentRecord {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Whether a sticker image is served by this app or embedded in the card.
+ * A second slash or backslash would make the path protocol-relative, i.e.
+ * an image on another host.
+ */
+function isStickerImageUrl(value: string): boolean {
+  return /^\/[^/\\]/.test(value) || value.startsWith('data:image/');
+}
+
+/**
+ * Check one placed sticker, returning the cleaned sticker or an error
+ */
+function validateSticker(input: unknown, label: string): StickerData | string {
+  if (!isRecord(input)) {
+    return `${label} is not a sticker`;
+  }
+  const { id, name, emoji, imageUrl, type, x, y, size, rotation, scale } = input;
+
+  if (typeof id !== 'string' || !id || id.length > 100) {
+    return `${label} needs an id`;
+  }
+  if (typeof name !== 'string' || name.length > 100) {
+    return `${label} needs a name`;
+  }
+  if (type !== 'default' && type !== 'user') {
+    return `${label} type must be 'default' or 'user'`;
+  }
+  if (emoji !== undefined && (typeof emoji !== 'string' || !emoji || emoji.length > 16)) {
+    return `${label} has an invalid emoji`;
+  }
+  if (imageUrl !== undefined) {
+    if (typeof imageUrl !== 'string' || !isStickerImageUrl(imageUrl)) {
+      return `${label} image must be an app path or an image data URL`;
+    }
+    if (imageUrl.length > POSTCARD_MAX_STICKER_URL_LENGTH) {
+      return `${label} image is too large`;
+    }
+  }
+  if (emoji === undefined && imageUrl === undefined) {
+    return `${label} needs an emoji or an image`;
+  }
+  if (!isFiniteNumber(x) || !isFiniteNumber(y) || !isFiniteNumber(rotation)) {
+    return `${label} needs a numeric position and rotation`;
+  }
+  if (!isFiniteNumber(size) || size < POSTCARD_MIN_STICKER_SIZE || size > POSTCARD_MAX_STICKER_SIZE) {
+    return `${label} size must be between ${POSTCARD_MIN_STICKER_SIZE} and ${POSTCARD_MAX_STICKER_SIZE}`;
+  }
+  if (!isFiniteNumber(scale) || scale < POSTCARD_MIN_STICKER_SCALE || scale > POSTCARD_MAX_STICKER_SCALE) {
+    return `${label} scale must be between ${POSTCARD_MIN_STICKER_SCALE} and ${POSTCARD_MAX_STICKER_SCALE}`;
+  }
+
+  return {
+    id,
+    name,
+    ...(emoji !== undefined && { emoji }),
+    ...(imageUrl !== undefined && { imageUrl }),
+    type,
+    x: Math.min(POSTCARD_WIDTH, Math.max(0, x)),
+    y: Math.min(POSTCARD_HEIGHT, Math.max(0, y)),
+    size,
+    rotation,
+    scale
+  };
+}
+
+/**
+ * Check the stickers placed on a card, returning cleaned copies
+ */
+export function validatePostcardStickers(input: unknown): PostcardStickersValidation {
+  if (!Array.isArray(input)) {
+    return { isValid: false, errors: ['stickers must be an array'] };
+  }
+  if (input.length > POSTCARD_MAX_STICKERS) {
+    return { isValid: false, errors: [`Postcards can have at most ${POSTCARD_MAX_STICKERS} stickers`] };
+  }
+
+  const stickers: StickerData[] = [];
+  let imageUrlTotal = 0;
+  for (const [index, candidate] of input.entries()) {
+    const sticker = validateSticker(candidate, `Sticker ${index + 1}`);
+    if (typeof sticker === 'string') {
+      return { isValid: false, errors: [sticker] };
+    }
+    imageUrlTotal += sticker.imageUrl?.length ?? 0;
+    if (imageUrlTotal > POSTCARD_MAX_STICKER_URL_TOTAL) {
+      return { isValid: false, errors: ['Sticker images on one postcard are too large'] };
+    }
+    stickers.push(sticker);
+  }
+  return { isValid: true, errors: [], stickers };
+}
+
+/**
+ * Bring a document of any known version up to the current one, then check
+ * every field. The returned document only carries known fields.
+ */
+export function validatePostcardDocument(input: unknown): PostcardDocumentValidation {
+  const invalid = (error: string): PostcardDocumentValidation => ({ isValid: false, errors: [error] });
+
+  if (!isRecord(input)) {
+    return invalid('postcard must be a postcard document');
+  }
+
+  let document = input;
+  const declared = document.version === undefined ? 0 : document.version;
+  if (typeof declared !== 'number' || !Number.isInteger(declared) || declared < 0) {
+    return invalid('Postcard document version must be a whole number');
+  }
+
+  let version = declared;
+  if (version > POSTCARD_DOCUMENT_VERSION) {
+    return invalid(`Postcard document version ${version} is newer than this app supports`);
+  }
+  while (version < POSTCARD_DOCUMENT_VERSION) {
+    const migrate = POSTCARD_DOCUMENT_MIGRATIONS[version];
+    if (!migrate) {
+      return invalid(`Unsupported postcard document version: ${version}`);
+    }
+    document = migrate(document);
+    version = document.version as number;
+  }
+
+  const title = typeof document.title === 'string' ? document.title.trim() : '';
+  const text = typeof document.text === 'string' ? document.text.trim() : '';
+  if (!title || !text) {
+    return invalid('Title and content are required');
+  }
+  if (title.length > POSTCARD_MAX_TITLE_LENGTH) {
+    return invalid(`Title must be ${POSTCARD_MAX_TITLE_LENGTH} characters or less`);
+  }
+  if (calculatePostcardLineCount(text) > POSTCARD_MAX_LINES) {
+    return invalid(`Content must fit within ${POSTCARD_MAX_LINES} postcard lines`);
+  }
+
+  if (!isPostcardBackground(document.background)) {
+    return invalid("background must be 'paper', 'autumn' or 'sky'");
+  }
+  if (document.font !== undefined && !isPostcardFont(document.font)) {
+    return invalid("font must be 'classic', 'handwritten' or 'pixel'");
+  }
+
+  const stickers = validatePostcardStickers(document.stickers);
+  if (!stickers.isValid) {
+    return { isValid: false, errors: stickers.errors };
+  }
+
+  const drawing = validatePostcardDrawing(document.drawing);
+  if (!drawing.isValid) {
+    return { isValid: false, errors: drawing.errors };
+  }
+
+  return {
+    isValid: true,
+    errors: [],
+    document: {
+      version: POSTCARD_DOCUMENT_VERSION,
+      title,
+      text,
+      background: document.background,
+      ...(document.font !== undefined && { font: document.font }),
+      stickers: stickers.stickers!,
+      drawing: drawing.drawing!
+    }
+  };
+}
+
+export function exportPostcardDocument(document: PostcardDocument): string {
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * Read an exported postcard file, migrating older versions
+ */
+export function importPostcardDocument(json: string): PostcardDocumentValidation {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { isValid: false, errors: ['That file is not a postcard document'] };
+  }
+  return validatePostcardDocument(parsed);
+}
+
+/**
+ * The document a stored postcard message was sent as
+ */
+export function postcardDocumentFromMessage(message: HonkMessage): PostcardDocument {
+  return {
+    version: POSTCARD_DOCUMENT_VERSION,
+    title: message.title,
+    text: message.content,
+    background: isPostcardBackground(message.postcard_background) ? message.postcard_background : 'paper',
+    ...(isPostcardFont(message.postcard_font) && { font: message.postcard_font }),
+    stickers: message.sticker_data ?? [],
+    drawing: message.drawing_data ?? emptyPostcardDrawing()
+  };
+}
+
+/**
+ * Message columns a postcard document is stored in
+ */
+export function postcardMessageFields(
+  document: PostcardDocument,
+): Pick<HonkMessage, 'title' | 'content' | 'sticker_data' | 'drawing_data' | 'postcard_background' | 'postcard_font'> {
+  return {
+    title: document.title,
+    content: document.text,
+    sticker_data: document.stickers,
+    drawing_data: document.drawing,
+    postcard_background: document.background,
+    postcard_font: document.font
+  };
+}
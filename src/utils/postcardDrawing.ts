@@ -0,0 +1,255 @@
+import { PostcardDrawing, PostcardDrawingTool, PostcardStroke } from '@/types';
+import { POSTCARD_HEIGHT, POSTCARD_WIDTH } from './postcard';
+
+export const POSTCARD_DRAWING_VERSION = 1;
+export const POSTCARD_DRAWING_TOOLS: PostcardDrawingTool[] = ['pen', 'eraser'];
+
+export const POSTCARD_MAX_STROKES = 200;
+export const POSTCARD_MAX_STROKE_POINTS = 2000;
+export const POSTCARD_MAX_DRAWING_POINTS = 20000;
+export const POSTCARD_MIN_STROKE_WIDTH = 1;
+export const POSTCARD_MAX_STROKE_WIDTH = 40;
+
+/** Pen strokes are slightly translucent, like a marker */
+export const POSTCARD_PEN_OPACITY = 0.9;
+
+const STROKE_COLOR_REGEX = /^#[0-9a-fA-F]{3,8}$/;
+
+type DrawingPoint = PostcardStroke['points'][number];
+
+export interface PostcardDrawingValidation {
+  isValid: boolean;
+  errors: string[];
+  drawing?: PostcardDrawing;
+}
+
+/**
+ * Anything that can trace a path: a canvas context, or the SVG path
+ * builder the server-side renderer uses
+ */
+export interface PostcardPathSink {
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void;
+}
+
+export function emptyPostcardDrawing(): PostcardDrawing {
+  return { version: POSTCARD_DRAWING_VERSION, strokes: [] };
+}
+
+function isFinitePoint(point: unknown): point is DrawingPoint {
+  const candidate = point as { x?: unknown; y?: unknown } | null;
+  return typeof candidate?.x === 'number' && Number.isFinite(candidate.x)
+    && typeof candidate?.y === 'number' && Number.isFinite(candidate.y);
+}
+
+/**
+ * Check a drawing sent by a client against the format and size caps.
+ * Points just outside the card (a pen leaving the canvas) are clamped.
+ */
+export function validatePostcardDrawing(input: unknown): PostcardDrawingValidation {
+  const invalid = (error: string): PostcardDrawingValidation => ({ isValid: false, errors: [error] });
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return invalid('drawing must be a drawing object');
+  }
+
+  const { version, strokes } = input as { version?: unknown; strokes?: unknown };
+  if (version !== POSTCARD_DRAWING_VERSION) {
+    return invalid(`Unsupported drawing version: ${String(version)}`);
+  }
+  if (!Array.isArray(strokes)) {
+    return invalid('drawing.strokes must be an array');
+  }
+  if (strokes.length > POSTCARD_MAX_STROKES) {
+    return invalid(`Drawings can have at most ${POSTCARD_MAX_STROKES} strokes`);
+  }
+
+  const clamp = (value: number, max: number) => Math.min(max, Math.max(0, value));
+  const validated: PostcardStroke[] = [];
+  let totalPoints = 0;
+
+  for (const [index, stroke] of strokes.entries()) {
+    const label = `Stroke ${index + 1}`;
+    if (!stroke || typeof stroke !== 'object') {
+      return invalid(`${label} is not a stroke`);
+    }
+    if (!POSTCARD_DRAWING_TOOLS.includes(stroke.tool)) {
+      return invalid(`${label} has an unknown tool`);
+    }
+    if (typeof stroke.color !== 'string' || !STROKE_COLOR_REGEX.test(stroke.color)) {
+      return invalid(`${label} needs a hex color`);
+    }
+    if (typeof stroke.width !== 'number' || !Number.isFinite(stroke.width)
+      || stroke.width < POSTCARD_MIN_STROKE_WIDTH || stroke.width > POSTCARD_MAX_STROKE_WIDTH) {
+      return invalid(`${label} width must be between ${POSTCARD_MIN_STROKE_WIDTH} and ${POSTCARD_MAX_STROKE_WIDTH}`);
+    }
+    if (!Array.isArray(stroke.points) || stroke.points.length === 0) {
+      return invalid(`${label} has no points`);
+    }
+    if (stroke.points.length > POSTCARD_MAX_STROKE_POINTS) {
+      return invalid(`${label} has more than ${POSTCARD_MAX_STROKE_POINTS} points`);
+    }
+    if (!stroke.points.every(isFinitePoint)) {
+      return invalid(`${label} has a malformed point`);
+    }
+
+    totalPoints += stroke.points.length;
+    if (totalPoints > POSTCARD_MAX_DRAWING_POINTS) {
+      return invalid(`Drawings can have at most ${POSTCARD_MAX_DRAWING_POINTS} points`);
+    }
+
+    validated.push({
+      tool: stroke.tool,
+      color: stroke.color,
+      width: stroke.width,
+      points: (stroke.points as DrawingPoint[]).map(point => ({
+        x: clamp(point.x, POSTCARD_WIDTH),
+        y: clamp(point.y, POSTCARD_HEIGHT)
+      }))
+    });
+  }
+
+  return {
+    isValid: true,
+    errors: [],
+    drawing: { version: POSTCARD_DRAWING_VERSION, strokes: validated }
+  };
+}
+
+/**
+ * Read a stored drawing, upgrading the original unversioned format (a bare
+ * array of pen strokes). Anything unreadable is dropped rather than thrown.
+ */
+export function readPostcardDrawing(stored: unknown): PostcardDrawing | undefined {
+  if (Array.isArray(stored)) {
+    return {
+      version: POSTCARD_DRAWING_VERSION,
+      strokes: stored.map(stroke => ({ ...stroke, tool: 'pen' as const }))
+    };
+  }
+
+  const drawing = stored as Partial<PostcardDrawing> | null | undefined;
+  if (drawing?.version === POSTCARD_DRAWING_VERSION && Array.isArray(drawing.strokes)) {
+    return { version: POSTCARD_DRAWING_VERSION, strokes: drawing.strokes };
+  }
+  return undefined;
+}
+
+/**
+ * Trace a stroke's path. Each recorded point is the control point of a
+ * quadratic curve to the midpoint of the next, which smooths mouse input.
+ */
+export function tracePostcardStroke(sink: PostcardPathSink, points: DrawingPoint[]): void {
+  const [first, ...rest] = points;
+  sink.moveTo(first.x, first.y);
+
+  if (rest.length === 0) {
+    // A single click still leaves a dot
+    sink.lineTo(first.x, first.y);
+    return;
+  }
+
+  let previous = first;
+  for (const point of rest) {
+    sink.quadraticCurveTo(previous.x, previous.y, (point.x + previous.x) / 2, (point.y + previous.y) / 2);
+    previous = point;
+  }
+}
+
+/**
+ * Replay a drawing onto a canvas. `scale` maps postcard coordinates to
+ * canvas pixels; the canvas should be transparent so erasing shows
+ * whatever sits behind it.
+ */
+export function replayPostcardDrawing(
+  ctx: CanvasRenderingContext2D,
+  drawing: PostcardDrawing | undefined,
+  scale = 1,
+): void {
+  ctx.save();
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  ctx.clearRect(0, 0, POSTCARD_WIDTH, POSTCARD_HEIGHT);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  for (const stroke of drawing?.strokes ?? []) {
+    ctx.globalCompositeOperation = stroke.tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.globalAlpha = stroke.tool === 'eraser' ? 1 : POSTCARD_PEN_OPACITY;
+    ctx.strokeStyle = stroke.color;
+    ctx.lineWidth = stroke.width;
+    ctx.beginPath();
+    tracePostcardStroke(ctx, stroke.points);
+    ctx.stroke();
+  }
+
+  ctx.restore();
+}
+
+/**
+ * Compose-time drawing state: the strokes on the card plus the strokes
+ * undone since, so they can be redone
+ */
+export interface PostcardDrawingHistory {
+  strokes: PostcardStroke[];
+  undone: PostcardStroke[];
+}
+
+export type PostcardDrawingAction =
+  | { type: 'begin'; stroke: PostcardStroke }
+  | { type: 'extend'; point: DrawingPoint }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'clear' }
+  | { type: 'load'; drawing: PostcardDrawing };
+
+export const EMPTY_DRAWING_HISTORY: PostcardDrawingHistory = { strokes: [], undone: [] };
+
+export function postcardDrawingReducer(
+  state: PostcardDrawingHistory,
+  action: PostcardDrawingAction,
+): PostcardDrawingHistory {
+  switch (action.type) {
+    case 'begin':
+      if (state.strokes.length >= POSTCARD_MAX_STROKES) {
+        return state;
+      }
+      // A new stroke forks history; what was undone can no longer be redone
+      return { strokes: [...state.strokes, action.stroke], undone: [] };
+
+    case 'extend': {
+      const current = state.strokes[state.strokes.length - 1];
+      if (!current || current.points.length >= POSTCARD_MAX_STROKE_POINTS) {
+        return state;
+      }
+      return {
+        ...state,
+        strokes: [...state.strokes.slice(0, -1), { ...current, points: [...current.points, action.point] }]
+      };
+    }
+
+    case 'undo':
+      if (state.strokes.length === 0) {
+        return state;
+      }
+      return {
+        strokes: state.strokes.slice(0, -1),
+        undone: [...state.undone, state.strokes[state.strokes.length - 1]]
+      };
+
+    case 'redo':
+      if (state.undone.length === 0) {
+        return state;
+      }
+      return {
+        strokes: [...state.strokes, state.undone[state.undone.length - 1]],
+        undone: state.undone.slice(0, -1)
+      };
+
+    case 'clear':
+      return EMPTY_DRAWING_HISTORY;
+
+    case 'load':
+      return { strokes: action.drawing.strokes, undone: [] };
+  }
+}
@@ -0,0 +1,166 @@
+import {
+  PaletteSticker,
+  PostcardDocument,
+  PostcardTemplate,
+  PostcardTemplateCollection,
+  PostcardTemplateSeason
+} from '@/types';
+import { calculatePostcardLineCount, isPostcardBackground, isPostcardFont, POSTCARD_MAX_LINES } from './postcard';
+import { POSTCARD_DOCUMENT_VERSION, POSTCARD_MAX_TITLE_LENGTH, validatePostcardStickers } from './postcardDocument';
+import { emptyPostcardDrawing } from './postcardDrawing';
+
+export interface PostcardTemplateCollectionValidation {
+  isValid: boolean;
+  errors: string[];
+  collection?: PostcardTemplateCollection;
+}
+
+const SEASON_DATE = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+type TemplateRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is TemplateRecord {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isText(value: unknown, maxLength: number): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength;
+}
+
+function validatePalette(input: unknown, label: string): PaletteSticker[] | string {
+  if (!Array.isArray(input) || input.length === 0) {
+    return `${label} needs a sticker palette`;
+  }
+  const palette: PaletteSticker[] = [];
+  for (const [index, entry] of input.entries()) {
+    if (!isRecord(entry) || !isText(entry.id, 100) || !isText(entry.name, 100)
+      || !isText(entry.emoji, 16) || !isText(entry.color, 32)) {
+      return `${label} palette sticker ${index + 1} needs an id, name, emoji and color`;
+    }
+    palette.push({ id: entry.id, name: entry.name, emoji: entry.emoji, color: entry.color });
+  }
+  return palette;
+}
+
+function validateTemplate(input: unknown, label: string): PostcardTemplate | string {
+  if (!isRecord(input) || !isText(input.id, 100) || !isText(input.name, 100)) {
+    return `${label} needs an id and a name`;
+  }
+  label = `Template ${input.id}`;
+
+  if (!isText(input.description, 200)) {
+    return `${label} needs a description`;
+  }
+  if (!isPostcardBackground(input.background)) {
+    return `${label} background must be 'paper', 'autumn' or 'sky'`;
+  }
+  if (!isPostcardFont(input.font)) {
+    return `${label} font must be 'classic', 'handwritten' or 'pixel'`;
+  }
+  if (!isText(input.suggested_title, POSTCARD_MAX_TITLE_LENGTH)) {
+    return `${label} needs a suggested title`;
+  }
+  if (!isText(input.suggested_text, 500) || calculatePostcardLineCount(input.suggested_text) > POSTCARD_MAX_LINES) {
+    return `${label} suggested text must fit within ${POSTCARD_MAX_LINES} postcard lines`;
+  }
+  if (typeof input.premium !== 'boolean') {
+    return `${label} premium must be true or false`;
+  }
+
+  const palette = validatePalette(input.palette, label);
+  if (typeof palette === 'string') {
+    return palette;
+  }
+  const stickers = validatePostcardStickers(input.stickers);
+  if (!stickers.isValid) {
+    return `${label}: ${stickers.errors[0]}`;
+  }
+
+  return {
+    id: input.id,
+    name: input.name,
+    description: input.description,
+    background: input.background,
+    font: input.font,
+    suggested_title: input.suggested_title,
+    suggested_text: input.suggested_text,
+    palette,
+    stickers: stickers.stickers!,
+    premium: input.premium
+  };
+}
+
+/**
+ * Check a template collection read from a data file. Template ids must be
+ * unique within the collection.
+ */
+export function validateTemplateCollection(input: unknown): PostcardTemplateCollectionValidation {
+  const invalid = (error: string): PostcardTemplateCollectionValidation => ({ isValid: false, errors: [error] });
+
+  if (!isRecord(input) || !isText(input.id, 100) || !isText(input.name, 100)) {
+    return invalid('Template collections need an id and a name');
+  }
+
+  let season: PostcardTemplateSeason | undefined;
+  if (input.season !== undefined) {
+    const { start, end } = isRecord(input.season) ? input.season : {};
+    if (typeof start !== 'string' || typeof end !== 'string' || !SEASON_DATE.test(start) || !SEASON_DATE.test(end)) {
+      return invalid(`Collection ${input.id} season needs MM-DD start and end dates`);
+    }
+    season = { start, end };
+  }
+
+  if (!Array.isArray(input.templates) || input.templates.length === 0) {
+    return invalid(`Collection ${input.id} has no templates`);
+  }
+  const templates: PostcardTemplate[] = [];
+  for (const [index, candidate] of input.templates.entries()) {
+    const template = validateTemplate(candidate, `Collection ${input.id} template ${index + 1}`);
+    if (typeof template === 'string') {
+      return invalid(template);
+    }
+    if (templates.some(existing => existing.id === template.id)) {
+      return invalid(`Collection ${input.id} has more than one template ${template.id}`);
+    }
+    templates.push(template);
+  }
+
+  return {
+    isValid: true,
+    errors: [],
+    collection: { id: input.id, name: input.name, ...(season && { season }), templates }
+  };
+}
+
+/**
+ * Whether a collection is offered on a date. Seasons are compared as UTC
+ * month and day, and a season ending before it starts runs over the new year.
+ */
+export function isCollectionInSeason(collection: Pick<PostcardTemplateCollection, 'season'>, date: Date): boolean {
+  if (!collection.season) {
+    return true;
+  }
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  const today = `${month}-${day}`;
+  const { start, end } = collection.season;
+
+  return start <= end
+    ? today >= start && today <= end
+    : today >= start || today <= end;
+}
+
+/**
+ * A new postcard started from a template
+ */
+export function postcardDocumentFromTemplate(template: PostcardTemplate): PostcardDocument {
+  return {
+    version: POSTCARD_DOCUMENT_VERSION,
+    title: template.suggested_title,
+    text: template.suggested_text,
+    background: template.background,
+    font: template.font,
+    stickers: template.stickers.map(sticker => ({ ...sticker })),
+    drawing: emptyPostcardDrawing()
+  };
+}
@@ -0,0 +1,99 @@
+import { LocationData, User } from '@/types';
+
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+const EXPLICIT_OFFSET = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * Whether the runtime knows an IANA time zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Rough time zone from longitude (15° per hour) for users whose device
+ * never reported one. Etc/GMT names have inverted signs.
+ */
+export function estimateTimeZone(location?: LocationData): string {
+  if (!location || location.is_anonymous) return 'UTC';
+
+  const offset = Math.max(-12, Math.min(14, Math.round(location.longitude / 15)));
+  if (offset === 0) return 'UTC';
+  return `Etc/GMT${offset > 0 ? '-' : '+'}${Math.abs(offset)}`;
+}
+
+/**
+ * The user's reported time zone, falling back to an estimate from location
+ */
+export function resolveUserTimeZone(user: Pick<User, 'time_zone' | 'current_location'>): string {
+  if (user.time_zone && isValidTimeZone(user.time_zone)) {
+    return user.time_zone;
+  }
+  return estimateTimeZone(user.current_location);
+}
+
+/**
+ * Offset of a time zone from UTC at a given instant, in milliseconds
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(part => part.type === type)?.value);
+
+  const wallClock = Date.UTC(
+    value('year'),
+    value('month') - 1,
+    value('day'),
+    value('hour'),
+    value('minute'),
+    value('second')
+  );
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Parse a schedule time. Values with a `Z` or `±hh:mm` suffix are absolute;
+ * bare local times like `2024-06-02T08:00` are read as wall-clock time in
+ * `timeZone`. Returns null for anything unparseable.
+ */
+export function parseScheduledTime(value: string, timeZone: string): Date | null {
+  const trimmed = value.trim();
+
+  if (EXPLICIT_OFFSET.test(trimmed)) {
+    const instant = new Date(trimmed);
+    return isNaN(instant.getTime()) ? null : instant;
+  }
+
+  const match = LOCAL_DATE_TIME.exec(trimmed);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second] = match;
+  const wallClock = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second ?? 0)
+  );
+
+  // Resolve the offset twice so times next to a DST change land correctly
+  const firstGuess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  const instant = wallClock - getTimeZoneOffset(new Date(firstGuess), timeZone);
+  return new Date(instant);
+}